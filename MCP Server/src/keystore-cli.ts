@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Ephemeral Wallet Keystore CLI
+ *
+ * Terminal companion to the keystore tools, for steps that should not pass a passphrase
+ * through an MCP client. Reads the passphrase from DAO_DEPLOYER_KEYSTORE_PASSPHRASE or
+ * prompts for it without echoing.
+ *
+ *   npm run keystore -- migrate
+ *   npm run keystore -- export <address> <networkName> [outputDir]
+ *   npm run keystore -- import <keystoreFile> <networkName>
+ */
+
+import { config } from 'dotenv';
+import readline from 'readline';
+import { promises as fs } from 'fs';
+import process from 'process';
+import {
+  KEYSTORE_PASSPHRASE_ENV,
+  exportEphemeralWallet,
+  hasKeystorePassphrase,
+  importEphemeralWallet,
+  migratePlaintextWallets,
+  unlockEphemeralWallets
+} from './utils/ephemeral-wallet.js';
+import { isKeystoreV3 } from './utils/keystore.js';
+
+config();
+
+const USAGE = [
+  'Usage: npm run keystore -- <command>',
+  '',
+  '  migrate                                      Encrypt plaintext ephemeral wallet files',
+  '  export <address> <networkName> [outputDir]   Write a v3 keystore file for cast wallet / geth',
+  '  import <keystoreFile> <networkName>          Add a v3 keystore as an ephemeral wallet',
+  '',
+  `The server passphrase comes from ${KEYSTORE_PASSPHRASE_ENV}, or is prompted for.`
+].join('\n');
+
+/**
+ * Prompt on the terminal without echoing what is typed; works the same on every OS
+ */
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    let muted = false;
+    (rl as any)._writeToOutput = (text: string) => {
+      if (!muted || text.includes('\n')) {
+        process.stdout.write(muted ? '\n' : text);
+      }
+    };
+
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Unlock with the environment passphrase, or one typed at the prompt
+ */
+async function unlock(): Promise<void> {
+  if (hasKeystorePassphrase()) {
+    return;
+  }
+  await unlockEphemeralWallets(await promptHidden('Keystore passphrase: '));
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'migrate': {
+      await unlock();
+      const result = await migratePlaintextWallets();
+      console.log(`Encrypted ${result.migrated.length} wallet(s); ${result.alreadyEncrypted} already encrypted.`);
+      result.failed.forEach(f => console.error(`Failed: ${f.keyFile}: ${f.error}`));
+      process.exitCode = result.failed.length > 0 ? 1 : 0;
+      return;
+    }
+
+    case 'export': {
+      const [address, networkName, outputDir] = args;
+      if (!address || !networkName) {
+        break;
+      }
+      await unlock();
+      const exportPassphrase = await promptHidden('Passphrase for the exported file (empty keeps the server passphrase): ');
+      const result = await exportEphemeralWallet(address, networkName, {
+        exportPassphrase: exportPassphrase || undefined,
+        outputDir
+      });
+      console.log(`Exported ${result.address} to ${result.file}`);
+      return;
+    }
+
+    case 'import': {
+      const [keystoreFile, networkName] = args;
+      if (!keystoreFile || !networkName) {
+        break;
+      }
+      const keystore = JSON.parse(await fs.readFile(keystoreFile, 'utf-8'));
+      if (!isKeystoreV3(keystore)) {
+        throw new Error(`${keystoreFile} is not a version 3 keystore`);
+      }
+      await unlock();
+      const keystorePassphrase = await promptHidden(`Passphrase of ${keystoreFile}: `);
+      const wallet = await importEphemeralWallet(keystore, keystorePassphrase, networkName);
+      console.log(`Imported ${wallet.address} on ${wallet.networkName}`);
+      return;
+    }
+  }
+
+  console.error(USAGE);
+  process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
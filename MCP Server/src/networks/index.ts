@@ -324,6 +324,14 @@ export const SUPPORTED_NETWORKS: Record<string, NetworkConfig> = {
   }
 };
 
+// Networks shipped with the server; custom networks may not replace them
+export const BUILT_IN_NETWORK_NAMES: ReadonlySet<string> = new Set(Object.keys(SUPPORTED_NETWORKS));
+
+// Chains the built-in mainnets run on; a transaction for one of them is real whatever a network config claims
+export const BUILT_IN_MAINNET_CHAIN_IDS: ReadonlySet<number> = new Set(
+  Object.values(SUPPORTED_NETWORKS).filter(network => !network.testnet).map(network => network.chainId)
+);
+
 /**
  * Get network configuration by name
  */
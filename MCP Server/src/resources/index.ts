@@ -1,5 +1,6 @@
 import { SUPPORTED_NETWORKS } from '../networks/index.js';
 import { CONTRACT_PATHS, loadAllContractABIs } from '../utils/contracts.js';
+import { isCustomNetwork } from '../utils/custom-networks.js';
 
 /**
  * MCP Resource definitions for the DAO Deployer server
@@ -40,6 +41,13 @@ export async function listResources(): Promise<MCPResource[]> {
     mimeType: 'application/json'
   });
   
+  resources.push({
+    uri: 'dao-deployer://networks/custom',
+    name: 'Custom Networks',
+    description: 'User-defined networks added with add-network and stored in ~/.dao-deployer/networks.json',
+    mimeType: 'application/json'
+  });
+  
   // Contract ABI resources
   Object.keys(CONTRACT_PATHS).forEach(contractName => {
     resources.push({
@@ -121,6 +129,13 @@ export async function readResource(uri: string): Promise<string> {
       null, 
       2
     )),
+    'dao-deployer://networks/custom': () => Promise.resolve(JSON.stringify(
+      Object.fromEntries(
+        Object.entries(SUPPORTED_NETWORKS).filter(([name]) => isCustomNetwork(name))
+      ),
+      null,
+      2
+    )),
     
     // Template resources
     'dao-deployer://templates/factory-deployment': getFactoryDeploymentTemplate,
@@ -20,20 +20,71 @@ import {
   prepareDAODeploymentPlan, 
   DeployDAOInputSchema, 
   generateDAODeploymentInstructions,
-  getDAODeploymentSummary,
-  updateGovernorTransaction
+  getDAODeploymentSummary
 } from './tools/deploy-dao.js';
+import {
+  prepareFactoryDAODeployment,
+  getFactoryDAODeployment,
+  generateFactoryDAODeploymentInstructions,
+  getFactoryDAODeploymentSummary,
+  formatFactoryDAODeployment
+} from './tools/deploy-dao-via-factory.js';
+import {
+  recordDAODeploymentPlan,
+  advanceDAODeployment,
+  resumeDAODeployment,
+  getDAODeployment,
+  listDAODeployments,
+  formatJournalOperationResult,
+  formatJournalPlan,
+  formatJournalPlanList
+} from './tools/deployment-journal.js';
 import { 
   broadcastSignedTransaction,
+  decodeSignedTransaction,
+  formatDecodedTransaction,
   waitForConfirmation,
   checkTransactionStatus,
   BroadcastTransactionInputSchema,
   WaitForConfirmationInputSchema,
   CheckTransactionStatusInputSchema
 } from './tools/broadcast-transaction.js';
+import { signAndBroadcastWithEphemeralWallet, formatEphemeralSigningResult } from './tools/ephemeral-signing.js';
 import { listNetworks, formatNetworkList } from './tools/list-networks.js';
+import { addNetwork, updateNetwork, removeNetwork, formatNetworkOperationResult } from './tools/manage-networks.js';
+import { registerCustomNetworks } from './utils/custom-networks.js';
 import { verifyContract, VerifyContractInputSchema, formatVerificationResults } from './tools/verify-contract.js';
 import { getDeploymentInfo, GetDeploymentInfoInputSchema, formatDeploymentInfo } from './tools/deployment-info.js';
+import { auditDAO, formatDAOAuditReport } from './tools/audit-dao.js';
+import { getDAOTreasury, formatDAOTreasuryReport } from './tools/dao-treasury.js';
+import { prepareTokenDistribution, formatTokenDistributionResult } from './tools/token-distribution.js';
+import {
+  buildMerkleAirdrop,
+  prepareMerkleAirdrop,
+  formatMerkleAirdropBuildResult,
+  formatMerkleAirdropPreparation
+} from './tools/merkle-airdrop.js';
+import { checkNetworkHealth, formatNetworkHealthReport } from './tools/network-health.js';
+import { simulateTransaction, formatSimulationResult } from './tools/simulate-transaction.js';
+import {
+  startForkSandbox,
+  stopForkSandbox,
+  advanceForkSandboxTime,
+  sendForkSandboxTransaction,
+  rehearseDAODeployment,
+  formatSandboxInfo,
+  formatRehearsalResult
+} from './tools/fork-sandbox.js';
+import {
+  prepareProposal,
+  prepareVote,
+  prepareProposalOperation,
+  getProposal,
+  formatProposalTransaction,
+  formatVoteTransaction,
+  formatProposalStatus
+} from './tools/governance-proposals.js';
+import { prepareDelegation, formatDelegationResult } from './tools/delegation.js';
 import { 
   setAPIKeyTool, 
   removeAPIKeyTool, 
@@ -53,6 +104,12 @@ import {
   checkWalletBalanceTool,
   sweepEphemeralWalletTool,
   deleteEphemeralWalletTool,
+  unlockEphemeralWalletsTool,
+  migrateEphemeralWalletsTool,
+  exportEphemeralWalletTool,
+  importEphemeralWalletTool,
+  setEphemeralWalletPolicyTool,
+  reapEphemeralWalletsTool,
   formatEphemeralWalletResult,
   GenerateEphemeralWalletInputSchema,
   CheckWalletBalanceInputSchema,
@@ -68,6 +125,9 @@ import { listResources, readResource } from './resources/index.js';
  */
 
 export async function createServer(): Promise<Server> {
+  // Make networks from ~/.dao-deployer/networks.json available to every tool
+  await registerCustomNetworks();
+
   const server = new Server(
     {
       name: 'dao-deployer-mcp-server',
@@ -112,6 +172,12 @@ export async function createServer(): Promise<Server> {
                 default: 1.2,
                 description: 'Multiplier for gas estimate (e.g., 1.2 = 120% of estimated gas)'
               },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
               fromAddress: {
                 type: 'string',
                 description: 'Address to deploy from (optional, used for gas estimation)'
@@ -155,11 +221,11 @@ export async function createServer(): Promise<Server> {
                 properties: {
                   votingDelay: {
                     type: 'number',
-                    description: 'Number of blocks to wait before voting starts on a proposal'
+                    description: 'Seconds to wait before voting starts on a proposal (the token clock is block.timestamp)'
                   },
                   votingPeriod: {
                     type: 'number', 
-                    description: 'Number of blocks that voting lasts for a proposal'
+                    description: 'Seconds that voting lasts for a proposal, at least 3600'
                   },
                   proposalThreshold: {
                     type: 'string',
@@ -188,6 +254,11 @@ export async function createServer(): Promise<Server> {
                     type: 'array',
                     items: { type: 'string' },
                     description: 'Array of addresses that can execute timelock proposals'
+                  },
+                  retainAdmin: {
+                    type: 'boolean',
+                    default: false,
+                    description: 'Keep the deployer as timelock admin instead of renouncing it after role configuration (not recommended)'
                   }
                 },
                 required: ['minDelay', 'proposers', 'executors']
@@ -197,12 +268,175 @@ export async function createServer(): Promise<Server> {
                 default: true,
                 description: 'Whether to verify all contracts on the block explorer'
               },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Address to deploy from; its pending nonce pins the predicted token, timelock and governor addresses'
+              }
+            },
+            required: ['networkName', 'factoryAddress', 'daoName', 'tokenName', 'tokenSymbol', 'initialSupply', 'governorSettings', 'timelockSettings', 'fromAddress']
+          }
+        },
+        {
+          name: 'prepare-factory-dao-deployment',
+          description: 'Prepare a single SimpleDAOFactoryV2.deployDAO transaction that deploys token, timelock and governor proxies',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network to deploy to'
+              },
+              factoryAddress: {
+                type: 'string',
+                description: 'Address of the deployed SimpleDAOFactoryV2 contract'
+              },
+              daoConfig: {
+                type: 'object',
+                description: 'SimpleDAOFactoryV2.DAOConfig struct (uint256 values as base-10 strings)',
+                properties: {
+                  tokenName: {
+                    type: 'string',
+                    description: 'Name of the governance token (also used as the DAO name)'
+                  },
+                  tokenSymbol: {
+                    type: 'string',
+                    description: 'Symbol of the governance token'
+                  },
+                  initialSupply: {
+                    type: 'string',
+                    description: 'Initial token supply in wei (18 decimals)'
+                  },
+                  votingDelay: {
+                    type: 'string',
+                    description: 'Delay before voting starts, in token clock units'
+                  },
+                  votingPeriod: {
+                    type: 'string',
+                    description: 'Length of the voting period, in token clock units'
+                  },
+                  proposalThreshold: {
+                    type: 'string',
+                    description: 'Votes required to create a proposal (in wei)'
+                  },
+                  quorumPercentage: {
+                    type: 'string',
+                    description: 'Percentage of total supply required for quorum (1-100)'
+                  },
+                  timelockDelay: {
+                    type: 'string',
+                    description: 'Minimum timelock delay in seconds'
+                  }
+                },
+                required: ['tokenName', 'tokenSymbol', 'initialSupply', 'votingDelay', 'votingPeriod', 'proposalThreshold', 'quorumPercentage', 'timelockDelay']
+              },
+              recipient: {
+                type: 'string',
+                description: 'Address that receives the initial token supply'
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Multiplier for gas estimate (e.g., 1.2 = 120% of estimated gas)'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
               fromAddress: {
                 type: 'string',
                 description: 'Address to deploy from (optional, used for gas estimation)'
               }
             },
-            required: ['networkName', 'factoryAddress', 'daoName', 'tokenName', 'tokenSymbol', 'initialSupply', 'governorSettings', 'timelockSettings']
+            required: ['networkName', 'factoryAddress', 'daoConfig', 'recipient']
+          }
+        },
+        {
+          name: 'get-factory-dao-deployment',
+          description: 'Decode the DAODeployed event from a mined deployDAO transaction to get the token, governor and timelock addresses',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              transactionHash: {
+                type: 'string',
+                description: 'Hash of the broadcast deployDAO transaction'
+              },
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              factoryAddress: {
+                type: 'string',
+                description: 'Only accept DAODeployed events emitted by this factory (optional)'
+              }
+            },
+            required: ['transactionHash', 'networkName']
+          }
+        },
+        {
+          name: 'advance-dao-deployment',
+          description: 'Record the broadcast hash for the current step of a journaled DAO plan, wait for its receipt, and return the next transaction with dependent addresses filled in',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              planId: {
+                type: 'string',
+                description: 'Plan ID returned by prepare-dao-deployment'
+              },
+              transactionHash: {
+                type: 'string',
+                description: 'Hash of the broadcast transaction for the current step (omit to re-check an already recorded hash)'
+              },
+              confirmations: {
+                type: 'number',
+                default: 1,
+                description: 'Number of confirmations to wait for (1-20)'
+              }
+            },
+            required: ['planId']
+          }
+        },
+        {
+          name: 'resume-dao-deployment',
+          description: 'Resume a journaled DAO plan: pick up receipts for broadcast steps and return the next transaction to sign',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              planId: {
+                type: 'string',
+                description: 'Plan ID returned by prepare-dao-deployment'
+              }
+            },
+            required: ['planId']
+          }
+        },
+        {
+          name: 'get-dao-deployment',
+          description: 'Show a journaled DAO plan with every step, broadcast hash, receipt and deployed address',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              planId: {
+                type: 'string',
+                description: 'Plan ID returned by prepare-dao-deployment'
+              }
+            },
+            required: ['planId']
+          }
+        },
+        {
+          name: 'list-dao-deployments',
+          description: 'List all DAO deployment plans recorded in the deployment journal',
+          inputSchema: {
+            type: 'object',
+            properties: {}
           }
         },
         {
@@ -222,11 +456,38 @@ export async function createServer(): Promise<Server> {
               expectedTransactionHash: {
                 type: 'string',
                 description: 'Expected transaction hash (optional)'
+              },
+              preparedTransactionId: {
+                type: 'string',
+                description: 'ID of the prepared transaction this was signed from. The broadcast is refused if chain ID, nonce, destination, value, calldata or signer differ (optional; found by contents when omitted)'
+              },
+              allowUnprepared: {
+                type: 'boolean',
+                default: false,
+                description: 'Broadcast a transaction that matches nothing this server prepared, skipping the checks (not recommended)'
               }
             },
             required: ['signedTransaction', 'networkName']
           }
         },
+        {
+          name: 'decode-signed-transaction',
+          description: 'Decode a signed transaction and show its signer, destination, value, calldata and fees for review before broadcasting',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              signedTransaction: {
+                type: 'string',
+                description: 'The signed transaction (RLP encoded hex)'
+              },
+              preparedTransactionId: {
+                type: 'string',
+                description: 'ID of the prepared transaction to compare against (optional)'
+              }
+            },
+            required: ['signedTransaction']
+          }
+        },
         {
           name: 'wait-for-confirmation',
           description: 'Wait for transaction confirmation on the blockchain',
@@ -288,6 +549,12 @@ export async function createServer(): Promise<Server> {
                 type: 'boolean', 
                 default: true,
                 description: 'Whether to include mainnet networks in the list'
+              },
+              format: {
+                type: 'string',
+                enum: ['table', 'json', 'summary', 'chains'],
+                default: 'table',
+                description: 'Output format. chains exports viem chain definitions the frontend custom network import accepts'
               }
             }
           }
@@ -347,109 +614,1235 @@ export async function createServer(): Promise<Server> {
           }
         },
         {
-          name: 'set-api-key',
-          description: 'Set an API key for blockchain services (stored securely)',
+          name: 'audit-dao',
+          description: 'Audit a deployed DAO on chain: timelock roles, upgrade authorities, token ownership and governance parameters',
           inputSchema: {
             type: 'object',
             properties: {
-              keyName: {
+              networkName: {
                 type: 'string',
-                enum: [
-                  'ALCHEMY_API_KEY',
-                  'INFURA_API_KEY',
-                  'ETHERSCAN_API_KEY',
-                  'POLYGONSCAN_API_KEY',
-                  'ARBISCAN_API_KEY',
-                  'OPTIMISTIC_ETHERSCAN_API_KEY',
-                  'BASESCAN_API_KEY',
-                  'SNOWTRACE_API_KEY',
-                  'BSCSCAN_API_KEY'
-                ],
-                description: 'Name of the API key to set'
+                description: 'Name of the blockchain network'
               },
-              value: {
+              address: {
                 type: 'string',
-                description: 'The API key value'
+                description: 'Address of the DAO governor, token or timelock'
+              },
+              expected: {
+                type: 'object',
+                description: 'Optional requested parameters to compare against the live values',
+                properties: {
+                  votingDelay: { type: 'string', description: 'Requested voting delay' },
+                  votingPeriod: { type: 'string', description: 'Requested voting period' },
+                  proposalThreshold: { type: 'string', description: 'Requested proposal threshold (in wei)' },
+                  quorumPercentage: { type: 'string', description: 'Requested quorum percentage' },
+                  timelockDelay: { type: 'string', description: 'Requested timelock delay in seconds' }
+                }
               }
             },
-            required: ['keyName', 'value']
+            required: ['networkName', 'address']
           }
         },
         {
-          name: 'remove-api-key',
-          description: 'Remove a saved API key',
+          name: 'prepare-proposal',
+          description: 'Prepare a governor propose transaction and compute its proposal ID and description hash locally',
           inputSchema: {
             type: 'object',
             properties: {
-              keyName: {
+              networkName: {
                 type: 'string',
-                enum: [
-                  'ALCHEMY_API_KEY',
-                  'INFURA_API_KEY',
-                  'ETHERSCAN_API_KEY',
-                  'POLYGONSCAN_API_KEY',
-                  'ARBISCAN_API_KEY',
-                  'OPTIMISTIC_ETHERSCAN_API_KEY',
-                  'BASESCAN_API_KEY',
-                  'SNOWTRACE_API_KEY',
-                  'BSCSCAN_API_KEY'
-                ],
-                description: 'Name of the API key to remove'
+                description: 'Name of the blockchain network'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Address of the SimpleDAOGovernorUpgradeable proxy'
+              },
+              proposal: {
+                type: 'object',
+                description: 'Proposal actions and description exactly as proposed',
+                properties: {
+                  targets: { type: 'array', items: { type: 'string' }, description: 'Target contract addresses' },
+                  values: { type: 'array', items: { type: 'string' }, description: 'ETH values in wei for each action' },
+                  calldatas: { type: 'array', items: { type: 'string' }, description: 'Hex-encoded calldata for each action' },
+                  description: { type: 'string', description: 'Proposal description' }
+                },
+                required: ['targets', 'values', 'calldatas', 'description']
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Address that will sign the transaction (used for gas estimation)'
               }
             },
-            required: ['keyName']
-          }
-        },
-        {
-          name: 'list-api-keys',
-          description: 'List all API key configuration status',
-          inputSchema: {
-            type: 'object',
-            properties: {}
+            required: ['networkName', 'governorAddress', 'proposal']
           }
         },
         {
-          name: 'generate-ephemeral-wallet',
-          description: 'Generate a temporary wallet for deployment funding (test networks only)',
+          name: 'prepare-vote',
+          description: 'Prepare a castVote or castVoteWithReason transaction for a proposal',
           inputSchema: {
             type: 'object',
             properties: {
               networkName: {
                 type: 'string',
-                description: 'Name of the blockchain network (must be testnet)'
+                description: 'Name of the blockchain network'
               },
-              walletName: {
+              governorAddress: {
                 type: 'string',
-                description: 'Optional name for the wallet'
+                description: 'Address of the SimpleDAOGovernorUpgradeable proxy'
+              },
+              proposalId: {
+                type: 'string',
+                description: 'Proposal ID (decimal)'
+              },
+              support: {
+                type: 'string',
+                enum: ['against', 'for', 'abstain'],
+                description: 'Vote direction'
+              },
+              reason: {
+                type: 'string',
+                description: 'Optional reason, uses castVoteWithReason when given'
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Address that will sign the transaction (used for gas estimation)'
               }
             },
-            required: ['networkName']
-          }
-        },
-        {
-          name: 'list-ephemeral-wallets',
-          description: 'List all generated ephemeral wallets',
-          inputSchema: {
-            type: 'object',
-            properties: {}
+            required: ['networkName', 'governorAddress', 'proposalId', 'support']
           }
         },
         {
-          name: 'check-wallet-balance',
-          description: 'Check the balance of a wallet address',
+          name: 'prepare-queue',
+          description: 'Prepare a transaction that queues a succeeded proposal in the timelock',
           inputSchema: {
             type: 'object',
             properties: {
-              address: {
-                type: 'string',
-                description: 'Wallet address to check'
-              },
               networkName: {
                 type: 'string',
                 description: 'Name of the blockchain network'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Address of the SimpleDAOGovernorUpgradeable proxy'
+              },
+              proposal: {
+                type: 'object',
+                description: 'Proposal actions and description exactly as proposed',
+                properties: {
+                  targets: { type: 'array', items: { type: 'string' }, description: 'Target contract addresses' },
+                  values: { type: 'array', items: { type: 'string' }, description: 'ETH values in wei for each action' },
+                  calldatas: { type: 'array', items: { type: 'string' }, description: 'Hex-encoded calldata for each action' },
+                  description: { type: 'string', description: 'Proposal description' }
+                },
+                required: ['targets', 'values', 'calldatas', 'description']
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Address that will sign the transaction (used for gas estimation)'
               }
             },
-            required: ['address', 'networkName']
+            required: ['networkName', 'governorAddress', 'proposal']
+          }
+        },
+        {
+          name: 'prepare-execute',
+          description: 'Prepare a transaction that executes a queued proposal once its timelock ETA has passed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Address of the SimpleDAOGovernorUpgradeable proxy'
+              },
+              proposal: {
+                type: 'object',
+                description: 'Proposal actions and description exactly as proposed',
+                properties: {
+                  targets: { type: 'array', items: { type: 'string' }, description: 'Target contract addresses' },
+                  values: { type: 'array', items: { type: 'string' }, description: 'ETH values in wei for each action' },
+                  calldatas: { type: 'array', items: { type: 'string' }, description: 'Hex-encoded calldata for each action' },
+                  description: { type: 'string', description: 'Proposal description' }
+                },
+                required: ['targets', 'values', 'calldatas', 'description']
+              },
+              value: {
+                type: 'string',
+                default: '0',
+                description: 'ETH in wei to send with execute (added to the timelock balance)'
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Address that will sign the transaction (used for gas estimation)'
+              }
+            },
+            required: ['networkName', 'governorAddress', 'proposal']
+          }
+        },
+        {
+          name: 'prepare-cancel',
+          description: 'Prepare a transaction that cancels a pending proposal (proposer only)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Address of the SimpleDAOGovernorUpgradeable proxy'
+              },
+              proposal: {
+                type: 'object',
+                description: 'Proposal actions and description exactly as proposed',
+                properties: {
+                  targets: { type: 'array', items: { type: 'string' }, description: 'Target contract addresses' },
+                  values: { type: 'array', items: { type: 'string' }, description: 'ETH values in wei for each action' },
+                  calldatas: { type: 'array', items: { type: 'string' }, description: 'Hex-encoded calldata for each action' },
+                  description: { type: 'string', description: 'Proposal description' }
+                },
+                required: ['targets', 'values', 'calldatas', 'description']
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Address that will sign the transaction (used for gas estimation)'
+              }
+            },
+            required: ['networkName', 'governorAddress', 'proposal']
+          }
+        },
+        {
+          name: 'get-proposal',
+          description: 'Read proposal state, vote tallies, snapshot, deadline and timelock ETA',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Address of the SimpleDAOGovernorUpgradeable proxy'
+              },
+              proposalId: {
+                type: 'string',
+                description: 'Proposal ID (decimal)'
+              }
+            },
+            required: ['networkName', 'governorAddress', 'proposalId']
+          }
+        },
+        {
+          name: 'prepare-delegation',
+          description: 'Prepare a delegate() transaction, gasless delegateBySig typed data, or the relayer transaction for a signed delegation',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              tokenAddress: {
+                type: 'string',
+                description: 'Address of the SimpleDAOTokenUpgradeable proxy'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Token holder (or the relayer when submitting a signature)'
+              },
+              delegatee: {
+                type: 'string',
+                description: 'Address receiving the voting power (defaults to fromAddress for self-delegation)'
+              },
+              gasless: {
+                type: 'boolean',
+                default: false,
+                description: 'Return EIP-712 typed data for the holder to sign instead of a transaction'
+              },
+              expirySeconds: {
+                type: 'number',
+                default: 3600,
+                description: 'How long a gasless signature stays valid'
+              },
+              signature: {
+                type: 'string',
+                description: 'Holder signature over the typed data, to prepare the relayer delegateBySig transaction'
+              },
+              nonce: {
+                type: 'string',
+                description: 'Nonce from the signed typed data (required with signature)'
+              },
+              expiry: {
+                type: 'string',
+                description: 'Expiry from the signed typed data (required with signature)'
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              }
+            },
+            required: ['networkName', 'tokenAddress']
+          }
+        },
+        {
+          name: 'prepare-token-distribution',
+          description: 'Validate a CSV or JSON list of address,amount pairs (checksums, duplicates, total against supply and balance) and prepare chunked transfers from a holder or chunked treasury proposals',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              tokenAddress: {
+                type: 'string',
+                description: 'Address of the DAO token'
+              },
+              content: {
+                type: 'string',
+                description: 'The list itself: CSV rows of address,amount (optional header) or JSON [{"address","amount"}] / {"0x...": "amount"}'
+              },
+              filePath: {
+                type: 'string',
+                description: 'Path to a CSV or JSON list, instead of content'
+              },
+              format: {
+                type: 'string',
+                enum: ['csv', 'json'],
+                description: 'List format (detected from the content when omitted)'
+              },
+              source: {
+                type: 'string',
+                enum: ['holder', 'treasury'],
+                default: 'holder',
+                description: 'holder: ERC20 transfers signed by fromAddress. treasury: governance proposals transferring from the timelock'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Token holder sending the transfers, or the proposer for treasury distributions'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Governor proxy (required for treasury distributions)'
+              },
+              description: {
+                type: 'string',
+                default: 'Token distribution',
+                description: 'Proposal description for treasury distributions; chunks get "(part i of n)" appended'
+              },
+              chunkSize: {
+                type: 'number',
+                default: 50,
+                description: 'Recipients per chunk (1-200)'
+              },
+              mergeDuplicates: {
+                type: 'boolean',
+                default: false,
+                description: 'Add up repeated addresses instead of rejecting the list'
+              },
+              previewOnly: {
+                type: 'boolean',
+                default: false,
+                description: 'Validate and show the chunks without preparing transactions'
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              }
+            },
+            required: ['networkName', 'tokenAddress']
+          }
+        },
+        {
+          name: 'build-merkle-airdrop',
+          description: 'Validate a CSV or JSON list of address,amount pairs and build a Merkle claim tree: returns the root and a proofs JSON with one proof per address',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              tokenAddress: {
+                type: 'string',
+                description: 'Address of the DAO token (its decimals convert the amounts)'
+              },
+              content: {
+                type: 'string',
+                description: 'The list itself: CSV rows of address,amount (optional header) or JSON [{"address","amount"}] / {"0x...": "amount"}'
+              },
+              filePath: {
+                type: 'string',
+                description: 'Path to a CSV or JSON list, instead of content'
+              },
+              format: {
+                type: 'string',
+                enum: ['csv', 'json'],
+                description: 'List format (detected from the content when omitted)'
+              },
+              mergeDuplicates: {
+                type: 'boolean',
+                default: false,
+                description: 'Add up repeated addresses instead of rejecting the list'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Where to write the proofs JSON (needed for large lists)'
+              }
+            },
+            required: ['networkName', 'tokenAddress']
+          }
+        },
+        {
+          name: 'prepare-merkle-airdrop',
+          description: 'Prepare the SimpleDAOMerkleDistributor deployment and its funding: a transfer from the deployer on the next nonce, or a treasury proposal',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              tokenAddress: {
+                type: 'string',
+                description: 'Address of the DAO token'
+              },
+              proofsPath: {
+                type: 'string',
+                description: 'Proofs JSON from build-merkle-airdrop; supplies the root and amount, and gets the distributor address added'
+              },
+              merkleRoot: {
+                type: 'string',
+                description: 'Merkle root, when not using proofsPath'
+              },
+              amount: {
+                type: 'string',
+                description: 'Whole tokens to fund the distributor with, when not using proofsPath'
+              },
+              claimDeadline: {
+                type: 'string',
+                description: 'ISO 8601 date after which unclaimed tokens can be swept to the treasury (claims stay open forever when omitted)'
+              },
+              treasuryAddress: {
+                type: 'string',
+                description: 'Where unclaimed tokens are swept (defaults to the governor timelock)'
+              },
+              source: {
+                type: 'string',
+                enum: ['holder', 'treasury'],
+                default: 'holder',
+                description: 'holder: fromAddress transfers the tokens. treasury: a governance proposal transfers them from the timelock'
+              },
+              fromAddress: {
+                type: 'string',
+                description: 'Deployer of the distributor, and the funder or proposer'
+              },
+              governorAddress: {
+                type: 'string',
+                description: 'Governor proxy (required for treasury funding)'
+              },
+              description: {
+                type: 'string',
+                default: 'Fund the token airdrop',
+                description: 'Proposal description for treasury funding'
+              },
+              gasEstimateMultiplier: {
+                type: 'number',
+                default: 1.2,
+                description: 'Gas estimate multiplier for safety margin'
+              },
+              feeStrategy: {
+                type: 'string',
+                enum: ['slow', 'standard', 'fast'],
+                default: 'standard',
+                description: 'EIP-1559 fee strategy: priority fee percentile (10th/50th/90th) and base fee headroom'
+              }
+            },
+            required: ['networkName', 'tokenAddress', 'fromAddress']
+          }
+        },
+        {
+          name: 'get-dao-treasury',
+          description: 'Read the DAO timelock treasury: native and ERC20 balances plus inflow/outflow history from transfer and CallExecuted logs',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              timelockAddress: {
+                type: 'string',
+                description: 'Address of the DAO timelock (the treasury)'
+              },
+              tokens: {
+                type: 'array',
+                items: { type: 'string' },
+                default: [],
+                description: 'ERC20 token addresses to track'
+              },
+              fromBlock: {
+                type: 'string',
+                description: 'First block to scan for history (defaults to earliest)'
+              },
+              includeHistory: {
+                type: 'boolean',
+                default: true,
+                description: 'Scan logs for inflows and outflows'
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'csv'],
+                default: 'markdown',
+                description: 'Output format; csv returns the history only'
+              }
+            },
+            required: ['networkName', 'timelockAddress']
+          }
+        },
+        {
+          name: 'check-network-health',
+          description: 'Probe every RPC endpoint of a network (chain ID, latest block, latency) and show how requests fail over between them',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Network to check (e.g., sepolia, base)'
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'json'],
+                default: 'markdown',
+                description: 'Output format'
+              }
+            },
+            required: ['networkName']
+          }
+        },
+        {
+          name: 'simulate-transaction',
+          description: 'Simulate a prepared transaction with eth_call and optional state overrides before signing. Reports success, gas used, decoded revert reasons, the predicted address of deployments and the DAODeployed event of deployDAO calls',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              },
+              preparedTransactionId: {
+                type: 'string',
+                description: 'ID of a transaction prepared by this server (metadata.preparedTransactionId)'
+              },
+              unsignedTransaction: {
+                type: 'object',
+                description: 'Transaction fields to simulate when there is no prepared transaction ID',
+                properties: {
+                  to: { type: ['string', 'null'], description: 'Recipient; null or omitted for a contract deployment' },
+                  value: { type: 'string', description: 'Value in wei' },
+                  data: { type: 'string', description: 'Calldata or creation code' },
+                  gas: { type: 'string', description: 'Gas limit' },
+                  nonce: { type: 'number', description: 'Sender nonce, used to predict deployment addresses' }
+                },
+                required: ['data']
+              },
+              from: {
+                type: 'string',
+                description: 'Sender address (defaults to the prepared fromAddress)'
+              },
+              rpcUrl: {
+                type: 'string',
+                description: 'Simulate against this endpoint instead, e.g. a local Anvil fork at http://127.0.0.1:8545'
+              },
+              stateOverrides: {
+                type: 'array',
+                description: 'Account state to replace before the call runs',
+                items: {
+                  type: 'object',
+                  properties: {
+                    address: { type: 'string' },
+                    balance: { type: 'string', description: 'Balance in wei' },
+                    nonce: { type: 'number' },
+                    code: { type: 'string', description: 'Runtime bytecode' },
+                    stateDiff: { type: 'object', description: 'Storage slot to value map' }
+                  },
+                  required: ['address']
+                }
+              },
+              fundSender: {
+                type: 'boolean',
+                description: 'Give the sender a large balance so missing funds do not hide other failures',
+                default: false
+              }
+            },
+            required: ['networkName']
+          }
+        },
+        {
+          name: 'start-fork-sandbox',
+          description: 'Start an Anvil fork of a network (or a plain local chain when offline) with a funded, impersonated deployer. The fork is registered as a temporary network that every tool accepts as networkName. Requires Foundry\'s anvil on PATH',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Network to fork. Omit, or leave the network unreachable, for a plain local chain'
+              },
+              blockNumber: {
+                type: 'string',
+                description: 'Block to fork at (defaults to the latest block)'
+              },
+              deployer: {
+                type: 'string',
+                description: 'Account to fund and impersonate (defaults to the first Anvil dev account)'
+              },
+              fundEth: {
+                type: 'string',
+                description: 'ETH balance given to the deployer',
+                default: '1000'
+              },
+            }
+          }
+        },
+        {
+          name: 'stop-fork-sandbox',
+          description: 'Stop a fork sandbox and remove its temporary network',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sandboxId: {
+                type: 'string',
+                description: 'ID returned by start-fork-sandbox'
+              }
+            },
+            required: ['sandboxId']
+          }
+        },
+        {
+          name: 'advance-sandbox-time',
+          description: 'Skip time and mine blocks in a fork sandbox (evm_increaseTime + evm_mine), e.g. past a voting delay or timelock delay',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sandboxId: {
+                type: 'string',
+                description: 'ID returned by start-fork-sandbox'
+              },
+              seconds: {
+                type: 'number',
+                description: 'Seconds to add to the clock',
+                default: 0
+              },
+              blocks: {
+                type: 'number',
+                description: 'Blocks to mine',
+                default: 1
+              }
+            },
+            required: ['sandboxId']
+          }
+        },
+        {
+          name: 'send-sandbox-transaction',
+          description: 'Execute a prepared transaction in a fork sandbox from an impersonated account, without signing',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sandboxId: {
+                type: 'string',
+                description: 'ID returned by start-fork-sandbox'
+              },
+              preparedTransactionId: {
+                type: 'string',
+                description: 'ID of a transaction prepared by this server (metadata.preparedTransactionId)'
+              },
+              unsignedTransaction: {
+                type: 'object',
+                description: 'Transaction fields to send when there is no prepared transaction ID',
+                properties: {
+                  to: { type: ['string', 'null'], description: 'Recipient; null or omitted for a contract deployment' },
+                  value: { type: 'string', description: 'Value in wei' },
+                  data: { type: 'string', description: 'Calldata or creation code' },
+                  gas: { type: 'string', description: 'Gas limit' }
+                },
+                required: ['data']
+              },
+              from: {
+                type: 'string',
+                description: 'Sender to impersonate (defaults to the prepared fromAddress, then the sandbox deployer)'
+              }
+            },
+            required: ['sandboxId']
+          }
+        },
+        {
+          name: 'rehearse-dao-deployment',
+          description: 'Rehearse a full DAO deployment in a fork sandbox: implementations and factory, deployDAO, self-delegation, then a no-op proposal through propose, vote, queue and execute with time skipped past each delay. Reports every step with gas used and tears the sandbox down',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Network to fork. Omit, or leave the network unreachable, for a plain local chain'
+              },
+              blockNumber: {
+                type: 'string',
+                description: 'Block to fork at (defaults to the latest block)'
+              },
+              deployer: {
+                type: 'string',
+                description: 'Account to fund and impersonate (defaults to the first Anvil dev account)'
+              },
+              fundEth: {
+                type: 'string',
+                description: 'ETH balance given to the deployer',
+                default: '1000'
+              },
+              sandboxId: {
+                type: 'string',
+                description: 'Reuse a running sandbox instead of starting one'
+              },
+              factoryAddress: {
+                type: 'string',
+                description: 'Existing SimpleDAOFactoryV2 on the forked network. Omit to deploy implementations and a factory first'
+              },
+              daoConfig: {
+                type: 'object',
+                description: 'SimpleDAOFactoryV2.DAOConfig struct (uint256 values as base-10 strings)',
+                properties: {
+                  tokenName: {
+                    type: 'string',
+                    description: 'Name of the governance token (also used as the DAO name)'
+                  },
+                  tokenSymbol: {
+                    type: 'string',
+                    description: 'Symbol of the governance token'
+                  },
+                  initialSupply: {
+                    type: 'string',
+                    description: 'Initial token supply in wei (18 decimals)'
+                  },
+                  votingDelay: {
+                    type: 'string',
+                    description: 'Delay before voting starts, in token clock units'
+                  },
+                  votingPeriod: {
+                    type: 'string',
+                    description: 'Length of the voting period, in token clock units'
+                  },
+                  proposalThreshold: {
+                    type: 'string',
+                    description: 'Votes required to create a proposal (in wei)'
+                  },
+                  quorumPercentage: {
+                    type: 'string',
+                    description: 'Percentage of total supply required for quorum (1-100)'
+                  },
+                  timelockDelay: {
+                    type: 'string',
+                    description: 'Minimum timelock delay in seconds'
+                  }
+                },
+                required: ['tokenName', 'tokenSymbol', 'initialSupply', 'votingDelay', 'votingPeriod', 'proposalThreshold', 'quorumPercentage', 'timelockDelay']
+              },
+              teardown: {
+                type: 'boolean',
+                description: 'Stop the sandbox when the rehearsal ends',
+                default: true
+              }
+            },
+            required: ['daoConfig']
+          }
+        },
+        {
+          name: 'add-network',
+          description: 'Add a custom network (e.g. Gnosis, Linea or a private devnet). The RPC is probed for its chain ID and the network is saved in ~/.dao-deployer/networks.json',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Network name used as networkName in other tools (lowercase letters, digits and dashes)'
+              },
+              config: {
+                type: 'object',
+                description: 'Network configuration',
+                properties: {
+                  name: { type: 'string', description: 'Display name' },
+                  chainId: { type: 'number', description: 'Chain ID (read from the RPC when omitted)' },
+                  rpcUrl: { type: 'string', description: 'Primary RPC URL; ${VAR} placeholders are resolved from saved API keys' },
+                  fallbackRpcUrls: { type: 'array', items: { type: 'string' } },
+                  explorerUrl: { type: 'string' },
+                  explorerApiUrl: { type: 'string' },
+                  explorerApiKey: { type: 'string', description: 'Explorer API key or a ${VAR} placeholder' },
+                  gasMultiplier: { type: 'number' },
+                  maxFeePerGas: { type: 'string', description: 'Fee cap in wei' },
+                  maxPriorityFeePerGas: { type: 'string', description: 'Priority fee cap in wei' },
+                  nativeCurrency: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      symbol: { type: 'string' },
+                      decimals: { type: 'number' }
+                    }
+                  },
+                  testnet: { type: 'boolean' }
+                },
+                required: ['name', 'rpcUrl', 'nativeCurrency']
+              },
+              chain: {
+                type: 'object',
+                description: 'Chain definition exported by the frontend custom network form (viem Chain format), instead of config'
+              },
+              skipProbe: {
+                type: 'boolean',
+                description: 'Save without contacting the RPC (chainId is then required)',
+                default: false
+              }
+            },
+            required: ['name']
+          }
+        },
+        {
+          name: 'update-network',
+          description: 'Change fields of a custom network. The RPC is probed again before saving',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Custom network name'
+              },
+              changes: {
+                type: 'object',
+                description: 'Fields to replace',
+                properties: {
+                  name: { type: 'string', description: 'Display name' },
+                  chainId: { type: 'number', description: 'Chain ID (read from the RPC when omitted)' },
+                  rpcUrl: { type: 'string', description: 'Primary RPC URL; ${VAR} placeholders are resolved from saved API keys' },
+                  fallbackRpcUrls: { type: 'array', items: { type: 'string' } },
+                  explorerUrl: { type: 'string' },
+                  explorerApiUrl: { type: 'string' },
+                  explorerApiKey: { type: 'string', description: 'Explorer API key or a ${VAR} placeholder' },
+                  gasMultiplier: { type: 'number' },
+                  maxFeePerGas: { type: 'string', description: 'Fee cap in wei' },
+                  maxPriorityFeePerGas: { type: 'string', description: 'Priority fee cap in wei' },
+                  nativeCurrency: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      symbol: { type: 'string' },
+                      decimals: { type: 'number' }
+                    }
+                  },
+                  testnet: { type: 'boolean' }
+                }
+              },
+              skipProbe: {
+                type: 'boolean',
+                description: 'Save without contacting the RPC',
+                default: false
+              }
+            },
+            required: ['name', 'changes']
+          }
+        },
+        {
+          name: 'remove-network',
+          description: 'Remove a custom network',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Custom network name'
+              }
+            },
+            required: ['name']
+          }
+        },
+        {
+          name: 'sign-and-broadcast-with-ephemeral-wallet',
+          description: 'Sign a prepared transaction or every remaining step of a DAO deployment plan with an ephemeral wallet and broadcast it. The first call returns a preview and a single-use confirmationToken; call again with the token to sign. Mainnets are refused unless allowed in config.json',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Ephemeral wallet address'
+              },
+              networkName: {
+                type: 'string',
+                description: 'Network the wallet was generated for'
+              },
+              preparedTransactionId: {
+                type: 'string',
+                description: 'ID of a transaction prepared by this server'
+              },
+              preparedTransaction: {
+                type: 'object',
+                description: 'A PreparedTransaction object, instead of preparedTransactionId'
+              },
+              planId: {
+                type: 'string',
+                description: 'Deployment plan ID from prepare-dao-deployment; all remaining steps are signed in order'
+              },
+              confirmationToken: {
+                type: 'string',
+                description: 'Token from the preview call. Without it nothing is signed'
+              },
+              confirmations: {
+                type: 'number',
+                description: 'Number of confirmations to wait for',
+                default: 1
+              }
+            },
+            required: ['walletAddress', 'networkName']
+          }
+        },
+        {
+          name: 'set-api-key',
+          description: 'Set an API key for blockchain services (stored securely)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              keyName: {
+                type: 'string',
+                enum: [
+                  'ALCHEMY_API_KEY',
+                  'INFURA_API_KEY',
+                  'ETHERSCAN_API_KEY',
+                  'POLYGONSCAN_API_KEY',
+                  'ARBISCAN_API_KEY',
+                  'OPTIMISTIC_ETHERSCAN_API_KEY',
+                  'BASESCAN_API_KEY',
+                  'SNOWTRACE_API_KEY',
+                  'BSCSCAN_API_KEY'
+                ],
+                description: 'Name of the API key to set'
+              },
+              value: {
+                type: 'string',
+                description: 'The API key value'
+              }
+            },
+            required: ['keyName', 'value']
+          }
+        },
+        {
+          name: 'remove-api-key',
+          description: 'Remove a saved API key',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              keyName: {
+                type: 'string',
+                enum: [
+                  'ALCHEMY_API_KEY',
+                  'INFURA_API_KEY',
+                  'ETHERSCAN_API_KEY',
+                  'POLYGONSCAN_API_KEY',
+                  'ARBISCAN_API_KEY',
+                  'OPTIMISTIC_ETHERSCAN_API_KEY',
+                  'BASESCAN_API_KEY',
+                  'SNOWTRACE_API_KEY',
+                  'BSCSCAN_API_KEY'
+                ],
+                description: 'Name of the API key to remove'
+              }
+            },
+            required: ['keyName']
+          }
+        },
+        {
+          name: 'list-api-keys',
+          description: 'List all API key configuration status',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'generate-ephemeral-wallet',
+          description: 'Generate a temporary wallet for deployment funding (test networks only)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network (must be testnet)'
+              },
+              walletName: {
+                type: 'string',
+                description: 'Optional name for the wallet'
+              },
+              ttlSeconds: {
+                type: 'number',
+                description: 'Lifetime in seconds, after which reap-ephemeral-wallets sweeps and deletes the wallet'
+              },
+              maxBalance: {
+                type: 'string',
+                description: 'Maximum native balance (e.g. "0.5"); reap-ephemeral-wallets sweeps anything above it'
+              },
+              sweepRecipient: {
+                type: 'string',
+                description: 'Address that receives swept funds'
+              },
+              tokens: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'ERC20 token addresses to sweep along with the native balance'
+              },
+              allowedNetwork: {
+                type: 'string',
+                description: 'The only network the wallet may sign on (defaults to networkName)'
+              }
+            },
+            required: ['networkName']
+          }
+        },
+        {
+          name: 'list-ephemeral-wallets',
+          description: 'List all generated ephemeral wallets',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'check-wallet-balance',
+          description: 'Check the balance of a wallet address',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              address: {
+                type: 'string',
+                description: 'Wallet address to check'
+              },
+              networkName: {
+                type: 'string',
+                description: 'Name of the blockchain network'
+              }
+            },
+            required: ['address', 'networkName']
+          }
+        },
+        {
+          name: 'set-ephemeral-wallet-policy',
+          description: 'Set the lifecycle policy of an ephemeral wallet: TTL, max balance, sweep recipient and ERC20s to sweep',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Ephemeral wallet address'
+              },
+              networkName: {
+                type: 'string',
+                description: 'Network the wallet was generated for'
+              },
+              ttlSeconds: {
+                type: 'number',
+                description: 'Lifetime in seconds from now'
+              },
+              maxBalance: {
+                type: 'string',
+                description: 'Maximum native balance (e.g. "0.5")'
+              },
+              sweepRecipient: {
+                type: 'string',
+                description: 'Address that receives swept funds'
+              },
+              tokens: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'ERC20 token addresses to sweep along with the native balance'
+              },
+              allowedNetwork: {
+                type: 'string',
+                description: 'The only network the wallet may sign on (defaults to networkName)'
+              },
+              clear: {
+                type: 'boolean',
+                description: 'Drop the current policy before applying these fields',
+                default: false
+              }
+            },
+            required: ['walletAddress', 'networkName']
+          }
+        },
+        {
+          name: 'reap-ephemeral-wallets',
+          description: 'Sweep expired ephemeral wallets (ERC20s, then native) to their recipient, delete the emptied keys and sweep balances above the policy maximum. Each run is written to an audit log',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              networkName: {
+                type: 'string',
+                description: 'Only reap wallets on this network'
+              },
+              tokens: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Extra ERC20 token addresses to sweep from expired wallets'
+              },
+              defaultRecipient: {
+                type: 'string',
+                description: 'Recipient for wallets whose policy has no sweepRecipient'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Report what would be swept without sending transactions',
+                default: false
+              }
+            }
+          }
+        },
+        {
+          name: 'unlock-ephemeral-wallets',
+          description: 'Unlock the encrypted ephemeral wallet keystores for this session when DAO_DEPLOYER_KEYSTORE_PASSPHRASE is not set',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              passphrase: {
+                type: 'string',
+                description: 'Keystore passphrase (at least 8 characters). Checked against an existing keystore when there is one'
+              }
+            },
+            required: ['passphrase']
+          }
+        },
+        {
+          name: 'migrate-ephemeral-wallets',
+          description: 'Encrypt ephemeral wallet files that still store a plaintext private key into v3 keystores',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'export-ephemeral-wallet',
+          description: 'Export an ephemeral wallet as a Web3 Secret Storage v3 keystore file usable with cast wallet and geth',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Ephemeral wallet address'
+              },
+              networkName: {
+                type: 'string',
+                description: 'Network the wallet was generated for'
+              },
+              exportPassphrase: {
+                type: 'string',
+                description: 'Encrypt the exported file with this passphrase instead of the server passphrase'
+              },
+              outputDir: {
+                type: 'string',
+                description: 'Directory for the keystore file (defaults to ~/.dao-deployer/keystore-exports)'
+              }
+            },
+            required: ['walletAddress', 'networkName']
+          }
+        },
+        {
+          name: 'import-ephemeral-wallet',
+          description: 'Import a v3 keystore (from cast wallet, geth or export-ephemeral-wallet) as an ephemeral wallet',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              keystore: {
+                type: ['string', 'object'],
+                description: 'Keystore JSON'
+              },
+              keystoreFile: {
+                type: 'string',
+                description: 'Path to a keystore file, instead of keystore'
+              },
+              keystorePassphrase: {
+                type: 'string',
+                description: 'Passphrase the keystore is encrypted with'
+              },
+              networkName: {
+                type: 'string',
+                description: 'Network to use the wallet on'
+              }
+            },
+            required: ['keystorePassphrase', 'networkName']
           }
         },
         {
@@ -460,80 +1853,411 @@ export async function createServer(): Promise<Server> {
             properties: {}
           }
         }
-      ]
-    };
-  });
+      ]
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      switch (name) {
+        case 'prepare-factory-deployment': {
+          const result = await prepareFactoryDeployment(args as any);
+          const instructions = generateFactoryDeploymentInstructions(result, args as any);
+          const summary = getFactoryDeploymentSummary(result, args as any);
+          
+          return {
+            content: [
+              {
+                type: 'text',
+                text: summary
+              },
+              {
+                type: 'text',
+                text: '\n\n' + instructions
+              }
+            ]
+          };
+        }
+
+        case 'prepare-dao-deployment': {
+          const result = await prepareDAODeploymentPlan(args as any);
+          const journalPlan = await recordDAODeploymentPlan(result);
+          const instructions = generateDAODeploymentInstructions(result);
+          const summary = getDAODeploymentSummary(result);
+          
+          return {
+            content: [
+              {
+                type: 'text',
+                text: summary
+              },
+              {
+                type: 'text',
+                text: `\n\n📒 Plan ID: ${journalPlan.id}\nUse advance-dao-deployment with this ID after broadcasting each step.`
+              },
+              {
+                type: 'text',
+                text: '\n\n' + instructions
+              }
+            ]
+          };
+        }
+
+        case 'advance-dao-deployment': {
+          const result = await advanceDAODeployment(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJournalOperationResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'resume-dao-deployment': {
+          const result = await resumeDAODeployment(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJournalOperationResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'get-dao-deployment': {
+          const plan = await getDAODeployment(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJournalPlan(plan) + '\n\n```json\n' + JSON.stringify(plan, null, 2) + '\n```'
+              }
+            ]
+          };
+        }
+
+        case 'list-dao-deployments': {
+          const plans = await listDAODeployments();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJournalPlanList(plans)
+              }
+            ]
+          };
+        }
+
+        case 'prepare-factory-dao-deployment': {
+          const result = await prepareFactoryDAODeployment(args as any);
+          const instructions = generateFactoryDAODeploymentInstructions(result);
+          const summary = getFactoryDAODeploymentSummary(result);
+          
+          return {
+            content: [
+              {
+                type: 'text',
+                text: summary
+              },
+              {
+                type: 'text',
+                text: '\n\n' + instructions
+              }
+            ]
+          };
+        }
+
+        case 'get-factory-dao-deployment': {
+          const result = await getFactoryDAODeployment(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatFactoryDAODeployment(result)
+              }
+            ]
+          };
+        }
+
+        case 'broadcast-signed-transaction': {
+          const result = await broadcastSignedTransaction(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2)
+              }
+            ]
+          };
+        }
+
+        case 'decode-signed-transaction': {
+          const result = await decodeSignedTransaction(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatDecodedTransaction(result)
+              }
+            ]
+          };
+        }
+
+        case 'wait-for-confirmation': {
+          const result = await waitForConfirmation(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `✅ Transaction Confirmed!\n\n${JSON.stringify(result, null, 2)}`
+              }
+            ]
+          };
+        }
+
+        case 'check-transaction-status': {
+          const result = await checkTransactionStatus(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2)
+              }
+            ]
+          };
+        }
+
+        case 'list-networks': {
+          const networks = await listNetworks(args as any);
+          const format = (args as any)?.format || 'table';
+          const formatted = formatNetworkList(networks, format);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
 
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+        case 'verify-contract': {
+          const result = await verifyContract(args as any);
+          const formatted = formatVerificationResults([result]);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
 
-    try {
-      switch (name) {
-        case 'prepare-factory-deployment': {
-          const result = await prepareFactoryDeployment(args as any);
-          const instructions = generateFactoryDeploymentInstructions(result, args as any);
-          const summary = getFactoryDeploymentSummary(result, args as any);
-          
+        case 'get-deployment-info': {
+          const result = await getDeploymentInfo(args as any);
+          const formatted = formatDeploymentInfo(result);
           return {
             content: [
               {
                 type: 'text',
-                text: summary
-              },
+                text: formatted
+              }
+            ]
+          };
+        }
+
+        case 'audit-dao': {
+          const result = await auditDAO(args as any);
+          return {
+            content: [
               {
                 type: 'text',
-                text: '\n\n' + instructions
+                text: formatDAOAuditReport(result)
               }
             ]
           };
         }
 
-        case 'prepare-dao-deployment': {
-          const result = await prepareDAODeploymentPlan(args as any);
-          const instructions = generateDAODeploymentInstructions(result);
-          const summary = getDAODeploymentSummary(result);
-          
+        case 'prepare-proposal': {
+          const result = await prepareProposal(args as any);
           return {
             content: [
               {
                 type: 'text',
-                text: summary
-              },
+                text: formatProposalTransaction(result)
+              }
+            ]
+          };
+        }
+
+        case 'prepare-vote': {
+          const result = await prepareVote(args as any);
+          return {
+            content: [
               {
                 type: 'text',
-                text: '\n\n' + instructions
+                text: formatVoteTransaction(result)
               }
             ]
           };
         }
 
-        case 'broadcast-signed-transaction': {
-          const result = await broadcastSignedTransaction(args as any);
+        case 'prepare-queue':
+        case 'prepare-execute':
+        case 'prepare-cancel': {
+          const operation = name.replace('prepare-', '') as 'queue' | 'execute' | 'cancel';
+          const result = await prepareProposalOperation(operation, args as any);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(result, null, 2)
+                text: formatProposalTransaction(result)
               }
             ]
           };
         }
 
-        case 'wait-for-confirmation': {
-          const result = await waitForConfirmation(args as any);
+        case 'get-proposal': {
+          const result = await getProposal(args as any);
           return {
             content: [
               {
                 type: 'text',
-                text: `✅ Transaction Confirmed!\n\n${JSON.stringify(result, null, 2)}`
+                text: formatProposalStatus(result)
               }
             ]
           };
         }
 
-        case 'check-transaction-status': {
-          const result = await checkTransactionStatus(args as any);
+        case 'prepare-delegation': {
+          const result = await prepareDelegation(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatDelegationResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'prepare-token-distribution': {
+          const result = await prepareTokenDistribution(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatTokenDistributionResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'build-merkle-airdrop': {
+          const result = await buildMerkleAirdrop(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatMerkleAirdropBuildResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'prepare-merkle-airdrop': {
+          const result = await prepareMerkleAirdrop(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatMerkleAirdropPreparation(result)
+              }
+            ]
+          };
+        }
+
+        case 'get-dao-treasury': {
+          const result = await getDAOTreasury(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatDAOTreasuryReport(result, (args as any)?.format)
+              }
+            ]
+          };
+        }
+
+        case 'check-network-health': {
+          const result = await checkNetworkHealth(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatNetworkHealthReport(result, (args as any)?.format)
+              }
+            ]
+          };
+        }
+
+        case 'simulate-transaction': {
+          const result = await simulateTransaction(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatSimulationResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'start-fork-sandbox': {
+          const result = await startForkSandbox(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatSandboxInfo(result)
+              }
+            ]
+          };
+        }
+
+        case 'stop-fork-sandbox': {
+          const result = await stopForkSandbox(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatSandboxInfo(result, '# 🛑 Fork Sandbox Stopped')
+              }
+            ]
+          };
+        }
+
+        case 'advance-sandbox-time': {
+          const result = await advanceForkSandboxTime(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `⏩ Sandbox ${result.sandboxId} advanced ${result.secondsSkipped}s and ${result.blocksMined} block(s): now block ${result.blockNumber} at timestamp ${result.timestamp}`
+              }
+            ]
+          };
+        }
+
+        case 'send-sandbox-transaction': {
+          const result = await sendForkSandboxTransaction(args as any);
           return {
             content: [
               {
@@ -544,41 +2268,61 @@ export async function createServer(): Promise<Server> {
           };
         }
 
-        case 'list-networks': {
-          const networks = await listNetworks(args as any);
-          const format = (args as any)?.format || 'table';
-          const formatted = formatNetworkList(networks, format);
+        case 'rehearse-dao-deployment': {
+          const result = await rehearseDAODeployment(args as any);
           return {
             content: [
               {
                 type: 'text',
-                text: formatted
+                text: formatRehearsalResult(result)
               }
             ]
           };
         }
 
-        case 'verify-contract': {
-          const result = await verifyContract(args as any);
-          const formatted = formatVerificationResults([result]);
+        case 'add-network': {
+          const result = await addNetwork(args as any);
           return {
             content: [
               {
                 type: 'text',
-                text: formatted
+                text: formatNetworkOperationResult(result)
               }
             ]
           };
         }
 
-        case 'get-deployment-info': {
-          const result = await getDeploymentInfo(args as any);
-          const formatted = formatDeploymentInfo(result);
+        case 'update-network': {
+          const result = await updateNetwork(args as any);
           return {
             content: [
               {
                 type: 'text',
-                text: formatted
+                text: formatNetworkOperationResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'remove-network': {
+          const result = await removeNetwork(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatNetworkOperationResult(result)
+              }
+            ]
+          };
+        }
+
+        case 'sign-and-broadcast-with-ephemeral-wallet': {
+          const result = await signAndBroadcastWithEphemeralWallet(args as any);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatEphemeralSigningResult(result)
               }
             ]
           };
@@ -662,6 +2406,84 @@ export async function createServer(): Promise<Server> {
           };
         }
 
+        case 'set-ephemeral-wallet-policy': {
+          const result = await setEphemeralWalletPolicyTool(args as any);
+          const formatted = formatEphemeralWalletResult(result);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
+
+        case 'reap-ephemeral-wallets': {
+          const result = await reapEphemeralWalletsTool(args as any);
+          const formatted = formatEphemeralWalletResult(result);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
+
+        case 'unlock-ephemeral-wallets': {
+          const result = await unlockEphemeralWalletsTool(args as any);
+          const formatted = formatEphemeralWalletResult(result);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
+
+        case 'migrate-ephemeral-wallets': {
+          const result = await migrateEphemeralWalletsTool();
+          const formatted = formatEphemeralWalletResult(result);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
+
+        case 'export-ephemeral-wallet': {
+          const result = await exportEphemeralWalletTool(args as any);
+          const formatted = formatEphemeralWalletResult(result);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
+
+        case 'import-ephemeral-wallet': {
+          const result = await importEphemeralWalletTool(args as any);
+          const formatted = formatEphemeralWalletResult(result);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatted
+              }
+            ]
+          };
+        }
+
         case 'get-config-info': {
           const result = await getConfigInfoTool();
           const formatted = formatAPIKeyResult(result);
@@ -0,0 +1,488 @@
+import { z } from 'zod';
+import { Abi, Address, PublicClient, zeroAddress } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadContractABI } from '../utils/contracts.js';
+import { VerificationError } from '../types/index.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { TIMELOCK_ROLES } from './deploy-dao.js';
+
+const addressSchema = z.string().refine(
+  (addr) => addr.startsWith('0x') && addr.length === 42,
+  { message: "Invalid Ethereum address format" }
+);
+
+// Input validation schema for the audit-dao tool
+export const AuditDAOInputSchema = z.object({
+  networkName: z.string(),
+  address: addressSchema,
+  expected: z.object({
+    votingDelay: z.string().regex(/^\d+$/, "Voting delay must be a number").optional(),
+    votingPeriod: z.string().regex(/^\d+$/, "Voting period must be a number").optional(),
+    proposalThreshold: z.string().regex(/^\d+$/, "Proposal threshold must be a number").optional(),
+    quorumPercentage: z.string().regex(/^\d+$/, "Quorum percentage must be a number").optional(),
+    timelockDelay: z.string().regex(/^\d+$/, "Timelock delay must be a number").optional()
+  }).optional()
+});
+
+export type AuditExpectations = NonNullable<z.infer<typeof AuditDAOInputSchema>['expected']>;
+
+export type AuditStatus = 'pass' | 'warn' | 'fail';
+
+export interface AuditCheck {
+  id: string;
+  title: string;
+  status: AuditStatus;
+  detail: string;
+  remediation?: string;
+}
+
+export type TimelockRoleName = 'proposer' | 'canceller' | 'executor' | 'admin';
+
+/**
+ * Live DAO state read from chain
+ */
+export interface DAOOnChainState {
+  inputType: 'governor' | 'token' | 'timelock';
+  governor?: string;
+  token?: string;
+  timelock?: string;
+  governorToken?: string;
+  governorTimelock?: string;
+  governorUpgradeAuthority?: string;
+  tokenOwner?: string;
+  tokenUpgradeAuthority?: string;
+  roleHolders?: Record<TimelockRoleName, string[]>;
+  governorClockMode?: string;
+  tokenClockMode?: string;
+  params: {
+    votingDelay?: string;
+    votingPeriod?: string;
+    proposalThreshold?: string;
+    quorumPercentage?: string;
+    timelockDelay?: string;
+  };
+}
+
+export interface DAOAuditReport {
+  networkName: string;
+  inputAddress: string;
+  state: DAOOnChainState;
+  checks: AuditCheck[];
+  summary: Record<AuditStatus, number>;
+}
+
+const ROLE_IDS: Record<TimelockRoleName, `0x${string}`> = {
+  proposer: TIMELOCK_ROLES.PROPOSER_ROLE,
+  canceller: TIMELOCK_ROLES.CANCELLER_ROLE,
+  executor: TIMELOCK_ROLES.EXECUTOR_ROLE,
+  admin: TIMELOCK_ROLES.DEFAULT_ADMIN_ROLE
+};
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Read a contract value, returning undefined when the call reverts or the function does not exist
+ */
+async function tryRead<T>(publicClient: PublicClient, address: string, abi: Abi, functionName: string, args: readonly unknown[] = []): Promise<T | undefined> {
+  try {
+    return await publicClient.readContract({ address: address as Address, abi, functionName, args }) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find current timelock role holders from RoleGranted history, confirmed with hasRole.
+ * Returns undefined when the RPC cannot serve historical logs.
+ */
+async function getTimelockRoleHolders(
+  publicClient: PublicClient,
+  timelock: string,
+  timelockAbi: Abi
+): Promise<Record<TimelockRoleName, string[]> | undefined> {
+  let grants: { args: { role?: string; account?: string } }[];
+  try {
+    grants = await publicClient.getContractEvents({
+      address: timelock as Address,
+      abi: timelockAbi,
+      eventName: 'RoleGranted',
+      fromBlock: 'earliest'
+    });
+  } catch {
+    return undefined;
+  }
+
+  const holders: Record<TimelockRoleName, string[]> = { proposer: [], canceller: [], executor: [], admin: [] };
+
+  for (const role of Object.keys(ROLE_IDS) as TimelockRoleName[]) {
+    const candidates = [...new Set(
+      grants
+        .filter(log => log.args?.role === ROLE_IDS[role])
+        .map(log => log.args.account as string)
+    )];
+
+    for (const account of candidates) {
+      const hasRole = await tryRead<boolean>(publicClient, timelock, timelockAbi, 'hasRole', [ROLE_IDS[role], account]);
+      if (hasRole) {
+        holders[role].push(account);
+      }
+    }
+  }
+
+  return holders;
+}
+
+/**
+ * Read the live state of a DAO starting from any one of its governor, token or timelock addresses
+ */
+export async function collectDAOState(publicClient: PublicClient, address: string): Promise<DAOOnChainState> {
+  const [governorABI, tokenABI, timelockABI] = await Promise.all([
+    loadContractABI('SimpleDAOGovernorUpgradeable'),
+    loadContractABI('SimpleDAOTokenUpgradeable'),
+    loadContractABI('SimpleDAOTimelockUpgradeable')
+  ]);
+  const governorAbi = governorABI.abi;
+  const tokenAbi = tokenABI.abi;
+  const timelockAbi = timelockABI.abi;
+
+  let state: DAOOnChainState;
+  let roleHolders: Record<TimelockRoleName, string[]> | undefined;
+
+  const governorTimelock = await tryRead<string>(publicClient, address, governorAbi, 'timelock');
+  const governorToken = await tryRead<string>(publicClient, address, governorAbi, 'token');
+
+  if (governorTimelock && governorToken) {
+    state = { inputType: 'governor', governor: address, token: governorToken, timelock: governorTimelock, params: {} };
+    roleHolders = await getTimelockRoleHolders(publicClient, governorTimelock, timelockAbi);
+  } else if (await tryRead<bigint>(publicClient, address, timelockAbi, 'getMinDelay') !== undefined) {
+    state = { inputType: 'timelock', timelock: address, params: {} };
+    roleHolders = await getTimelockRoleHolders(publicClient, address, timelockAbi);
+
+    // The governor is the proposer that points back at this timelock
+    for (const proposer of roleHolders?.proposer || []) {
+      const proposerTimelock = await tryRead<string>(publicClient, proposer, governorAbi, 'timelock');
+      if (sameAddress(proposerTimelock, address)) {
+        state.governor = proposer;
+        state.token = await tryRead<string>(publicClient, proposer, governorAbi, 'token');
+        break;
+      }
+    }
+  } else if (await tryRead<string>(publicClient, address, tokenAbi, 'CLOCK_MODE') !== undefined) {
+    const owner = await tryRead<string>(publicClient, address, tokenAbi, 'owner');
+    const upgradeAuthority = await tryRead<string>(publicClient, address, tokenAbi, 'upgradeAuthority');
+    state = { inputType: 'token', token: address, timelock: owner ?? upgradeAuthority, params: {} };
+
+    if (state.timelock) {
+      roleHolders = await getTimelockRoleHolders(publicClient, state.timelock, timelockAbi);
+
+      // The governor is the proposer that votes with this token
+      for (const proposer of roleHolders?.proposer || []) {
+        const proposerToken = await tryRead<string>(publicClient, proposer, governorAbi, 'token');
+        if (sameAddress(proposerToken, address)) {
+          state.governor = proposer;
+          break;
+        }
+      }
+    }
+  } else {
+    throw new VerificationError(`${address} is not a DAO governor, token or timelock`, { address });
+  }
+
+  state.roleHolders = roleHolders;
+
+  if (state.governor) {
+    state.governorToken = await tryRead<string>(publicClient, state.governor, governorAbi, 'token');
+    state.governorTimelock = await tryRead<string>(publicClient, state.governor, governorAbi, 'timelock');
+    state.governorUpgradeAuthority = await tryRead<string>(publicClient, state.governor, governorAbi, 'upgradeAuthority');
+    state.governorClockMode = await tryRead<string>(publicClient, state.governor, governorAbi, 'CLOCK_MODE');
+    state.params.votingDelay = (await tryRead<bigint>(publicClient, state.governor, governorAbi, 'votingDelay'))?.toString();
+    state.params.votingPeriod = (await tryRead<bigint>(publicClient, state.governor, governorAbi, 'votingPeriod'))?.toString();
+    state.params.proposalThreshold = (await tryRead<bigint>(publicClient, state.governor, governorAbi, 'proposalThreshold'))?.toString();
+    state.params.quorumPercentage = (await tryRead<bigint>(publicClient, state.governor, governorAbi, 'quorumNumerator'))?.toString();
+  }
+
+  if (state.token) {
+    state.tokenOwner = await tryRead<string>(publicClient, state.token, tokenAbi, 'owner');
+    state.tokenUpgradeAuthority = await tryRead<string>(publicClient, state.token, tokenAbi, 'upgradeAuthority');
+    state.tokenClockMode = await tryRead<string>(publicClient, state.token, tokenAbi, 'CLOCK_MODE');
+  }
+
+  if (state.timelock) {
+    state.params.timelockDelay = (await tryRead<bigint>(publicClient, state.timelock, timelockAbi, 'getMinDelay'))?.toString();
+  }
+
+  return state;
+}
+
+/**
+ * Evaluate DAO wiring against the configuration SimpleDAOFactoryV2 produces
+ */
+export function evaluateDAOAudit(state: DAOOnChainState, expected?: AuditExpectations): AuditCheck[] {
+  const checks: AuditCheck[] = [];
+  const { governor, token, timelock } = state;
+
+  const missing = [
+    !governor && 'governor',
+    !token && 'token',
+    !timelock && 'timelock'
+  ].filter(Boolean);
+
+  if (missing.length > 0) {
+    checks.push({
+      id: 'resolution',
+      title: 'DAO contracts located',
+      status: 'fail',
+      detail: `Could not locate the ${missing.join(', ')} from the ${state.inputType} address`,
+      remediation: 'Run the audit with the governor address, which references both the token and the timelock'
+    });
+  } else {
+    checks.push({
+      id: 'resolution',
+      title: 'DAO contracts located',
+      status: 'pass',
+      detail: `Governor ${governor}, token ${token}, timelock ${timelock}`
+    });
+  }
+
+  if (governor) {
+    const linked = sameAddress(state.governorToken, token) && sameAddress(state.governorTimelock, timelock);
+    checks.push({
+      id: 'governor-links',
+      title: 'Governor references token and timelock',
+      status: linked ? 'pass' : 'fail',
+      detail: linked
+        ? 'Governor votes with the token and executes through the timelock'
+        : `Governor token() is ${state.governorToken ?? 'unreadable'} and timelock() is ${state.governorTimelock ?? 'unreadable'}`,
+      remediation: linked ? undefined : 'Redeploy the governor with the correct token and timelock, or update the timelock via a governance proposal'
+    });
+  }
+
+  if (timelock) {
+    checks.push(...evaluateTimelockRoles(state));
+  }
+
+  if (governor) {
+    const ok = sameAddress(state.governorUpgradeAuthority, timelock);
+    checks.push({
+      id: 'governor-upgrade-authority',
+      title: 'Governor upgrades are authorized by the timelock',
+      status: ok ? 'pass' : 'fail',
+      detail: `Governor upgradeAuthority is ${state.governorUpgradeAuthority ?? 'unreadable'}`,
+      remediation: ok ? undefined : 'Governor _authorizeUpgrade must only accept the timelock; redeploy the governor proxy with the timelock as upgrade authority'
+    });
+  }
+
+  if (token) {
+    const authorityOk = sameAddress(state.tokenUpgradeAuthority, timelock);
+    checks.push({
+      id: 'token-upgrade-authority',
+      title: 'Token upgrades are authorized by the timelock',
+      status: authorityOk ? 'pass' : 'fail',
+      detail: `Token upgradeAuthority is ${state.tokenUpgradeAuthority ?? 'unreadable'}`,
+      remediation: authorityOk ? undefined : 'Token _authorizeUpgrade must only accept the timelock; redeploy the token proxy with the timelock as upgrade authority'
+    });
+
+    const ownerOk = sameAddress(state.tokenOwner, timelock);
+    checks.push({
+      id: 'token-owner',
+      title: 'Token is owned by the timelock',
+      status: ownerOk ? 'pass' : 'fail',
+      detail: `Token owner() is ${state.tokenOwner ?? 'unreadable'}`,
+      remediation: ownerOk ? undefined : `Have ${state.tokenOwner ?? 'the current owner'} call transferOwnership(${timelock ?? 'timelock'}) so minting requires governance`
+    });
+  }
+
+  if (state.governorClockMode || state.tokenClockMode) {
+    const ok = state.governorClockMode === state.tokenClockMode;
+    checks.push({
+      id: 'clock-mode',
+      title: 'Governor and token use the same clock',
+      status: ok ? 'pass' : 'fail',
+      detail: `Governor CLOCK_MODE is ${state.governorClockMode ?? 'unreadable'}, token CLOCK_MODE is ${state.tokenClockMode ?? 'unreadable'}`,
+      remediation: ok ? undefined : 'Voting delay and period are measured in the token clock; redeploy the governor against a token with a matching clock'
+    });
+  }
+
+  if (state.params.quorumPercentage === '0') {
+    checks.push({
+      id: 'quorum',
+      title: 'Quorum is set',
+      status: 'fail',
+      detail: 'Quorum numerator is 0 - any proposal with a single vote can pass',
+      remediation: 'Submit a governance proposal calling updateQuorumNumerator with a non-zero value'
+    });
+  }
+
+  if (expected) {
+    for (const [key, value] of Object.entries(expected) as [keyof AuditExpectations, string | undefined][]) {
+      if (value === undefined) continue;
+
+      const actual = state.params[key];
+      const ok = actual === value;
+      checks.push({
+        id: `param-${key}`,
+        title: `${key} matches the requested value`,
+        status: ok ? 'pass' : 'fail',
+        detail: `Requested ${value}, on chain ${actual ?? 'unreadable'}`,
+        remediation: ok ? undefined : `Submit a governance proposal to update ${key} to ${value}`
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Timelock role checks: only the governor proposes and cancels, execution is open
+ * and nobody but the timelock itself holds admin
+ */
+function evaluateTimelockRoles(state: DAOOnChainState): AuditCheck[] {
+  const { governor, timelock, roleHolders } = state;
+
+  if (!roleHolders) {
+    return [{
+      id: 'timelock-roles',
+      title: 'Timelock role holders',
+      status: 'warn',
+      detail: 'The RPC endpoint did not return RoleGranted history, so role holders could not be enumerated',
+      remediation: 'Re-run the audit against an archive RPC endpoint'
+    }];
+  }
+
+  const checks: AuditCheck[] = [];
+  const others = (holders: string[]) => holders.filter(holder => !sameAddress(holder, governor));
+
+  const extraProposers = others(roleHolders.proposer);
+  const governorProposes = roleHolders.proposer.some(holder => sameAddress(holder, governor));
+  checks.push({
+    id: 'timelock-proposers',
+    title: 'Only the governor can propose to the timelock',
+    status: governorProposes && extraProposers.length === 0 ? 'pass' : 'fail',
+    detail: governorProposes
+      ? extraProposers.length === 0 ? 'PROPOSER_ROLE is held by the governor only' : `PROPOSER_ROLE is also held by ${extraProposers.join(', ')}`
+      : 'The governor does not hold PROPOSER_ROLE - passed proposals cannot be queued',
+    remediation: governorProposes
+      ? extraProposers.length === 0 ? undefined : `Revoke PROPOSER_ROLE from ${extraProposers.join(', ')} through a governance proposal calling timelock.revokeRole`
+      : `Grant PROPOSER_ROLE to ${governor ?? 'the governor'} from a timelock admin`
+  });
+
+  const extraCancellers = others(roleHolders.canceller);
+  const governorCancels = roleHolders.canceller.some(holder => sameAddress(holder, governor));
+  checks.push({
+    id: 'timelock-cancellers',
+    title: 'Only the governor can cancel timelock operations',
+    status: governorCancels && extraCancellers.length === 0 ? 'pass' : 'warn',
+    detail: extraCancellers.length > 0
+      ? `CANCELLER_ROLE is held by ${extraCancellers.join(', ')}, who can veto any queued proposal`
+      : governorCancels ? 'CANCELLER_ROLE is held by the governor only' : 'The governor does not hold CANCELLER_ROLE - queued proposals cannot be cancelled through governance',
+    remediation: extraCancellers.length > 0
+      ? `Revoke CANCELLER_ROLE from ${extraCancellers.join(', ')} through a governance proposal calling timelock.revokeRole`
+      : governorCancels ? undefined : `Grant CANCELLER_ROLE to ${governor ?? 'the governor'} through a governance proposal`
+  });
+
+  const openExecution = roleHolders.executor.some(holder => sameAddress(holder, zeroAddress));
+  checks.push({
+    id: 'timelock-executors',
+    title: 'Timelock execution is open',
+    status: openExecution ? 'pass' : 'warn',
+    detail: openExecution
+      ? 'EXECUTOR_ROLE is granted to the zero address - anyone can execute ready operations'
+      : `EXECUTOR_ROLE is restricted to ${roleHolders.executor.join(', ') || 'nobody'}`,
+    remediation: openExecution ? undefined : 'Grant EXECUTOR_ROLE to the zero address through a governance proposal, or make sure the listed executors are reliable'
+  });
+
+  const extraAdmins = roleHolders.admin.filter(holder => !sameAddress(holder, timelock));
+  checks.push({
+    id: 'timelock-admin',
+    title: 'Only the timelock administers itself',
+    status: extraAdmins.length === 0 ? 'pass' : 'fail',
+    detail: extraAdmins.length === 0
+      ? 'DEFAULT_ADMIN_ROLE is held by the timelock only'
+      : `DEFAULT_ADMIN_ROLE is held by ${extraAdmins.join(', ')}, who can grant any role and bypass governance`,
+    remediation: extraAdmins.length === 0
+      ? undefined
+      : `Have ${extraAdmins.join(', ')} call renounceRole(DEFAULT_ADMIN_ROLE, self) on the timelock`
+  });
+
+  return checks;
+}
+
+/**
+ * Audit a deployed DAO from any one of its contract addresses
+ */
+export async function auditDAO(input: z.infer<typeof AuditDAOInputSchema>): Promise<DAOAuditReport> {
+  try {
+    const params = AuditDAOInputSchema.parse(input);
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const publicClient = await createNetworkClient(networkConfig);
+
+    const state = await collectDAOState(publicClient, params.address);
+    const checks = evaluateDAOAudit(state, params.expected);
+
+    return {
+      networkName: params.networkName,
+      inputAddress: params.address,
+      state,
+      checks,
+      summary: {
+        pass: checks.filter(check => check.status === 'pass').length,
+        warn: checks.filter(check => check.status === 'warn').length,
+        fail: checks.filter(check => check.status === 'fail').length
+      }
+    };
+
+  } catch (error: any) {
+    if (error instanceof VerificationError) {
+      throw error;
+    }
+    throw new VerificationError(`Failed to audit DAO: ${error.message}`);
+  }
+}
+
+/**
+ * Format an audit report for display
+ */
+export function formatDAOAuditReport(report: DAOAuditReport): string {
+  const icon: Record<AuditStatus, string> = { pass: '✅', warn: '⚠️', fail: '❌' };
+  const { state } = report;
+
+  const sections = [
+    '# 🩺 DAO Health Audit',
+    '',
+    `**Network:** ${report.networkName}`,
+    `**Audited From:** ${report.inputAddress} (${state.inputType})`,
+    `**Governor:** ${state.governor ?? 'not found'}`,
+    `**Token:** ${state.token ?? 'not found'}`,
+    `**Timelock:** ${state.timelock ?? 'not found'}`,
+    '',
+    `**Result:** ${report.summary.pass} passed, ${report.summary.warn} warnings, ${report.summary.fail} failed`,
+    '',
+    '## 📋 Checks',
+    ''
+  ];
+
+  report.checks.forEach(check => {
+    sections.push(`${icon[check.status]} **${check.title}**`);
+    sections.push(`   ${check.detail}`);
+    if (check.remediation) {
+      sections.push(`   💡 ${check.remediation}`);
+    }
+    sections.push('');
+  });
+
+  sections.push(
+    '## ⚙️ Governance Parameters',
+    '',
+    `- Voting Delay: ${state.params.votingDelay ?? 'unknown'}`,
+    `- Voting Period: ${state.params.votingPeriod ?? 'unknown'}`,
+    `- Proposal Threshold: ${state.params.proposalThreshold ?? 'unknown'}`,
+    `- Quorum: ${state.params.quorumPercentage ?? 'unknown'}%`,
+    `- Timelock Delay: ${state.params.timelockDelay ?? 'unknown'} seconds`,
+    ''
+  );
+
+  return sections.join('\n');
+}
@@ -1,18 +1,41 @@
 import { z } from 'zod';
-import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { SUPPORTED_NETWORKS, getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
 import { waitForTransactionConfirmation } from '../utils/transactions.js';
-import { TransactionBroadcastInput, TransactionError } from '../types/index.js';
-import { Hex } from 'viem';
+import { broadcastRawTransaction, createNetworkClient } from '../utils/rpc.js';
+import {
+  DecodedSignedTransaction,
+  TransactionFieldMismatch,
+  compareWithPreparedTransaction,
+  findPreparedTransaction,
+  formatFieldMismatches,
+  getPreparedTransaction,
+  parseSignedTransaction
+} from '../utils/signed-transactions.js';
+import { NetworkConfig, PreparedTransaction, TransactionBroadcastInput, TransactionError } from '../types/index.js';
+import { Hex, formatEther, formatGwei } from 'viem';
 
 // Input validation schema for transaction broadcasting
 export const BroadcastTransactionInputSchema = z.object({
   signedTransaction: z.string().startsWith('0x', 'Signed transaction must be a valid hex string'),
   networkName: z.string(),
   expectedTransactionHash: z.string().startsWith('0x').optional(),
+  preparedTransactionId: z.string().startsWith('0x').optional(),
+  allowUnprepared: z.boolean().default(false),
   waitForConfirmation: z.boolean().default(true),
   confirmations: z.number().min(1).max(20).default(1)
 });
 
+/**
+ * Find the prepared transaction a signed transaction claims to be, or fail with a helpful error
+ */
+function requirePreparedTransaction(preparedTransactionId: string): PreparedTransaction {
+  const preparedTx = getPreparedTransaction(preparedTransactionId);
+  if (!preparedTx) {
+    throw new TransactionError(`Prepared transaction not found: ${preparedTransactionId}. Prepared transactions are only kept while the server runs; prepare the transaction again.`);
+  }
+  return preparedTx;
+}
+
 /**
  * Broadcast a signed transaction and optionally wait for confirmation
  */
@@ -24,24 +47,35 @@ export async function broadcastSignedTransaction(input: z.infer<typeof Broadcast
     // Get network configuration
     const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
     
-    // Import viem here to avoid import issues
-    const { createPublicClient, http } = await import('viem');
+    // Decode the transaction and refuse anything that is not what was prepared
+    const decoded = await parseSignedTransaction(params.signedTransaction as Hex);
     
-    // Create public client for broadcasting
-    const publicClient = createPublicClient({
-      transport: http(networkConfig.rpcUrl)
-    });
+    if (decoded.chainId !== networkConfig.chainId) {
+      throw new TransactionError(`Transaction is signed for chain ${decoded.chainId ?? 'none (no replay protection)'}, but ${networkConfig.name} is chain ${networkConfig.chainId}`);
+    }
     
-    // Broadcast the signed transaction
-    const transactionHash = await publicClient.sendRawTransaction({
-      serializedTransaction: params.signedTransaction as Hex
-    });
+    if (params.expectedTransactionHash && decoded.hash !== params.expectedTransactionHash.toLowerCase()) {
+      throw new TransactionError(`Transaction hash mismatch. Expected: ${params.expectedTransactionHash}, Got: ${decoded.hash}`);
+    }
     
-    // Verify the expected hash matches if provided
-    if (params.expectedTransactionHash && transactionHash !== params.expectedTransactionHash) {
-      throw new TransactionError(`Transaction hash mismatch. Expected: ${params.expectedTransactionHash}, Got: ${transactionHash}`);
+    // Without an ID, look the transaction up by its contents; only an explicit opt-out broadcasts something never prepared
+    const preparedTx = params.preparedTransactionId
+      ? requirePreparedTransaction(params.preparedTransactionId)
+      : findPreparedTransaction(decoded);
+    const preparedTransactionId = preparedTx?.metadata.preparedTransactionId;
+    
+    if (preparedTx) {
+      const mismatches = compareWithPreparedTransaction(decoded, preparedTx);
+      if (mismatches.length > 0) {
+        throw new TransactionError(`Signed transaction does not match prepared transaction ${preparedTransactionId}. ${formatFieldMismatches(mismatches).join('; ')}`);
+      }
+    } else if (!params.allowUnprepared) {
+      throw new TransactionError('Signed transaction does not match any transaction prepared by this server (chain ID, nonce, destination, value and calldata). Prepare it again, or pass allowUnprepared: true to broadcast it unchecked.');
     }
     
+    // Broadcast the signed transaction, retrying on the next endpoint if one is down
+    const { transactionHash } = await broadcastRawTransaction(networkConfig, params.signedTransaction as Hex);
+    
     let confirmationResult = undefined;
     
     // Wait for confirmation if requested
@@ -61,6 +95,8 @@ export async function broadcastSignedTransaction(input: z.infer<typeof Broadcast
     return {
       success: true,
       transactionHash,
+      from: decoded.from,
+      preparedTransactionId,
       networkName: params.networkName,
       explorerUrl: networkConfig.explorerUrl ? `${networkConfig.explorerUrl}/tx/${transactionHash}` : undefined,
       confirmation: confirmationResult ? {
@@ -81,6 +117,110 @@ export async function broadcastSignedTransaction(input: z.infer<typeof Broadcast
   }
 }
 
+// Input validation schema for decoding a signed transaction
+export const DecodeSignedTransactionInputSchema = z.object({
+  signedTransaction: z.string().startsWith('0x', 'Signed transaction must be a valid hex string'),
+  preparedTransactionId: z.string().startsWith('0x').optional()
+});
+
+export interface DecodedTransactionReport {
+  transaction: DecodedSignedTransaction;
+  network?: NetworkConfig;
+  preparedTransactionId?: string;
+  preparedTransaction?: PreparedTransaction;
+  mismatches?: TransactionFieldMismatch[];
+}
+
+/**
+ * Decode a signed transaction so its contents can be reviewed before broadcasting
+ */
+export async function decodeSignedTransaction(input: z.infer<typeof DecodeSignedTransactionInputSchema>): Promise<DecodedTransactionReport> {
+  try {
+    const params = DecodeSignedTransactionInputSchema.parse(input);
+    const transaction = await parseSignedTransaction(params.signedTransaction as Hex);
+    const network = Object.values(SUPPORTED_NETWORKS).find(config => config.chainId === transaction.chainId);
+
+    if (!params.preparedTransactionId) {
+      return { transaction, network };
+    }
+
+    const preparedTransaction = requirePreparedTransaction(params.preparedTransactionId);
+    return {
+      transaction,
+      network,
+      preparedTransactionId: params.preparedTransactionId,
+      preparedTransaction,
+      mismatches: compareWithPreparedTransaction(transaction, preparedTransaction)
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to decode transaction: ${error.message}`);
+  }
+}
+
+/**
+ * Format a decoded signed transaction for review
+ */
+export function formatDecodedTransaction(report: DecodedTransactionReport): string {
+  const { transaction, network, preparedTransaction, mismatches } = report;
+  const symbol = network?.nativeCurrency.symbol ?? 'ETH';
+  const maxFeePerGas = transaction.maxFeePerGas ?? transaction.gasPrice;
+  const dataBytes = (transaction.data.length - 2) / 2;
+
+  const sections = [
+    '# 🔍 Signed Transaction',
+    '',
+    `**Hash:** ${transaction.hash}`,
+    `**Type:** ${transaction.type}`,
+    `**Signer:** ${transaction.from}`,
+    `**Network:** ${network ? `${network.name} (Chain ID: ${transaction.chainId})` : transaction.chainId !== undefined ? `Unknown (Chain ID: ${transaction.chainId})` : '⚠️ None - not replay protected'}`,
+    `**Nonce:** ${transaction.nonce ?? 0}`,
+    '',
+    '## 📦 Contents',
+    '',
+    `**To:** ${transaction.to ?? 'Contract Deployment'}`,
+    `**Value:** ${formatEther(transaction.value)} ${symbol}`,
+    `**Data:** ${dataBytes === 0 ? 'none' : `${dataBytes} bytes${transaction.to ? `, selector ${transaction.data.slice(0, 10)}` : ''}`}`,
+    ...(preparedTransaction?.metadata.functionName ? [`**Function:** ${preparedTransaction.metadata.functionName}`] : []),
+    ...(preparedTransaction?.metadata.contractName ? [`**Contract:** ${preparedTransaction.metadata.contractName}`] : []),
+    '',
+    '## ⛽ Gas',
+    '',
+    `**Gas Limit:** ${transaction.gas?.toString() ?? 'Not set'}`,
+    ...(transaction.maxFeePerGas !== undefined
+      ? [
+          `**Max Fee:** ${formatGwei(transaction.maxFeePerGas)} gwei`,
+          `**Max Priority Fee:** ${formatGwei(transaction.maxPriorityFeePerGas ?? 0n)} gwei`
+        ]
+      : [`**Gas Price:** ${transaction.gasPrice !== undefined ? `${formatGwei(transaction.gasPrice)} gwei` : 'Not set'}`]),
+    ...(transaction.gas !== undefined && maxFeePerGas !== undefined
+      ? [`**Most It Can Cost:** ${formatEther(transaction.gas * maxFeePerGas + transaction.value)} ${symbol} (gas at the max fee plus value)`]
+      : []),
+    ''
+  ];
+
+  if (mismatches) {
+    sections.push(
+      `## ${mismatches.length === 0 ? '✅' : '❌'} Prepared Transaction Check`,
+      '',
+      `**Prepared Transaction:** ${report.preparedTransactionId}`,
+      ''
+    );
+    if (mismatches.length === 0) {
+      sections.push('Every checked field matches what was prepared.', '');
+    } else {
+      sections.push(
+        ...formatFieldMismatches(mismatches).map(line => `- ${line}`),
+        '',
+        '⚠️ broadcast-signed-transaction will refuse this transaction. Do not broadcast it.',
+        ''
+      );
+    }
+  }
+
+  return sections.join('\n');
+}
+
 // Input validation schema for waiting for confirmation
 export const WaitForConfirmationInputSchema = z.object({
   transactionHash: z.string().startsWith('0x', 'Transaction hash must be a valid hex string'),
@@ -150,13 +290,8 @@ export async function checkTransactionStatus(input: z.infer<typeof CheckTransact
     // Get network configuration
     const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
     
-    // Import viem here to avoid import issues
-    const { createPublicClient, http } = await import('viem');
-    
     // Create public client for checking transaction
-    const publicClient = createPublicClient({
-      transport: http(networkConfig.rpcUrl)
-    });
+    const publicClient = await createNetworkClient(networkConfig);
     
     const explorerUrl = networkConfig.explorerUrl ? `${networkConfig.explorerUrl}/tx/${params.transactionHash}` : undefined;
     
@@ -0,0 +1,343 @@
+import { z } from 'zod';
+import {
+  decodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  parseAbi,
+  Address,
+  Hex
+} from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { VerificationError } from '../types/index.js';
+import { createNetworkClient } from '../utils/rpc.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+// Input validation schema for the get-dao-treasury tool
+export const GetDAOTreasuryInputSchema = z.object({
+  networkName: z.string(),
+  timelockAddress: addressSchema,
+  tokens: z.array(addressSchema).default([]),
+  fromBlock: z.string().regex(/^\d+$/, "fromBlock must be a block number").optional(),
+  includeHistory: z.boolean().default(true),
+  format: z.enum(['markdown', 'csv']).default('markdown')
+});
+
+const CALL_EXECUTED_ABI = parseAbi([
+  'event CallExecuted(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data)'
+]);
+
+export interface TreasuryTokenBalance {
+  address: string;
+  symbol: string;
+  decimals: number;
+  balance: string;
+  formattedBalance: string;
+}
+
+/**
+ * A single asset movement into or out of the timelock
+ */
+export interface TreasuryMovement {
+  blockNumber: string;
+  timestamp?: number;
+  transactionHash: string;
+  logIndex: number;
+  direction: 'in' | 'out';
+  asset: string;
+  assetAddress?: string;
+  amount: string;
+  formattedAmount: string;
+  counterparty: string;
+  source: 'transfer' | 'call-executed';
+}
+
+export interface TreasuryTransferLog {
+  token: string;
+  symbol: string;
+  decimals: number;
+  from: string;
+  to: string;
+  value: bigint;
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface TreasuryCallLog {
+  target: string;
+  value: bigint;
+  data: Hex;
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface DAOTreasuryReport {
+  networkName: string;
+  timelockAddress: string;
+  blockNumber: string;
+  nativeBalance: string;
+  formattedNativeBalance: string;
+  tokens: TreasuryTokenBalance[];
+  history?: TreasuryMovement[];
+  historyError?: string;
+}
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Merge ERC20 transfer logs and timelock CallExecuted logs into one chronological history.
+ * Executed calls contribute ETH sent by the timelock, and ERC20 transfers of tokens that
+ * are not tracked (tracked tokens are already covered by their own Transfer logs).
+ */
+export function buildTreasuryHistory(
+  timelock: string,
+  transfers: TreasuryTransferLog[],
+  calls: TreasuryCallLog[]
+): TreasuryMovement[] {
+  const movements: Array<TreasuryMovement & { sortBlock: bigint }> = [];
+  const tracked = new Set(transfers.map(transfer => transfer.token.toLowerCase()));
+
+  for (const transfer of transfers) {
+    const incoming = sameAddress(transfer.to, timelock);
+    const outgoing = sameAddress(transfer.from, timelock);
+    // Self-transfers do not change the balance
+    if (incoming === outgoing) continue;
+
+    movements.push({
+      sortBlock: transfer.blockNumber,
+      blockNumber: transfer.blockNumber.toString(),
+      transactionHash: transfer.transactionHash,
+      logIndex: transfer.logIndex,
+      direction: incoming ? 'in' : 'out',
+      asset: transfer.symbol,
+      assetAddress: transfer.token,
+      amount: transfer.value.toString(),
+      formattedAmount: formatUnits(transfer.value, transfer.decimals),
+      counterparty: incoming ? transfer.from : transfer.to,
+      source: 'transfer'
+    });
+  }
+
+  for (const call of calls) {
+    const base = {
+      sortBlock: call.blockNumber,
+      blockNumber: call.blockNumber.toString(),
+      transactionHash: call.transactionHash,
+      logIndex: call.logIndex,
+      direction: 'out' as const,
+      source: 'call-executed' as const
+    };
+
+    if (call.value > 0n) {
+      movements.push({
+        ...base,
+        asset: 'ETH',
+        amount: call.value.toString(),
+        formattedAmount: formatEther(call.value),
+        counterparty: call.target
+      });
+    }
+
+    if (tracked.has(call.target.toLowerCase())) continue;
+    try {
+      const decoded = decodeFunctionData({ abi: erc20Abi, data: call.data });
+      if (decoded.functionName === 'transfer') {
+        const [to, amount] = decoded.args as [string, bigint];
+        movements.push({
+          ...base,
+          asset: call.target,
+          assetAddress: call.target,
+          amount: amount.toString(),
+          formattedAmount: amount.toString(),
+          counterparty: to
+        });
+      }
+    } catch {
+      // Not an ERC20 transfer
+    }
+  }
+
+  return movements
+    .sort((a, b) => (a.sortBlock === b.sortBlock ? a.logIndex - b.logIndex : a.sortBlock < b.sortBlock ? -1 : 1))
+    .map(({ sortBlock: _sortBlock, ...movement }) => movement);
+}
+
+/**
+ * Render treasury history as CSV, one movement per row
+ */
+export function treasuryHistoryToCsv(history: TreasuryMovement[]): string {
+  const header = ['block', 'timestamp', 'transaction', 'direction', 'asset', 'asset_address', 'amount', 'raw_amount', 'counterparty', 'source'];
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const rows = history.map(movement => [
+    movement.blockNumber,
+    movement.timestamp ? new Date(movement.timestamp * 1000).toISOString() : '',
+    movement.transactionHash,
+    movement.direction,
+    movement.asset,
+    movement.assetAddress ?? '',
+    movement.formattedAmount,
+    movement.amount,
+    movement.counterparty,
+    movement.source
+  ].map(escape).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+}
+
+/**
+ * Read the timelock's native and ERC20 balances, and optionally its transfer history
+ */
+export async function getDAOTreasury(input: z.infer<typeof GetDAOTreasuryInputSchema>): Promise<DAOTreasuryReport> {
+  try {
+    const params = GetDAOTreasuryInputSchema.parse(input);
+    const timelock = params.timelockAddress as Address;
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const publicClient = await createNetworkClient(networkConfig);
+
+    const [blockNumber, nativeBalance] = await Promise.all([
+      publicClient.getBlockNumber(),
+      publicClient.getBalance({ address: timelock })
+    ]);
+
+    const tokens: TreasuryTokenBalance[] = await Promise.all(params.tokens.map(async (token) => {
+      const address = token as Address;
+      const [balance, symbol, decimals] = await Promise.all([
+        publicClient.readContract({ address, abi: erc20Abi, functionName: 'balanceOf', args: [timelock], blockNumber }),
+        publicClient.readContract({ address, abi: erc20Abi, functionName: 'symbol' }).catch(() => token),
+        publicClient.readContract({ address, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18)
+      ]);
+      return {
+        address: token,
+        symbol,
+        decimals,
+        balance: balance.toString(),
+        formattedBalance: formatUnits(balance, decimals)
+      };
+    }));
+
+    const report: DAOTreasuryReport = {
+      networkName: params.networkName,
+      timelockAddress: params.timelockAddress,
+      blockNumber: blockNumber.toString(),
+      nativeBalance: nativeBalance.toString(),
+      formattedNativeBalance: formatEther(nativeBalance),
+      tokens
+    };
+
+    if (!params.includeHistory) return report;
+
+    try {
+      const fromBlock = params.fromBlock ? BigInt(params.fromBlock) : 'earliest' as const;
+
+      const transferLogs = await Promise.all(tokens.map(async (token) => {
+        const [incoming, outgoing] = await Promise.all([
+          publicClient.getContractEvents({ address: token.address as Address, abi: erc20Abi, eventName: 'Transfer', args: { to: timelock }, fromBlock, toBlock: blockNumber }),
+          publicClient.getContractEvents({ address: token.address as Address, abi: erc20Abi, eventName: 'Transfer', args: { from: timelock }, fromBlock, toBlock: blockNumber })
+        ]);
+        return [...incoming, ...outgoing].map((log): TreasuryTransferLog => ({
+          token: token.address,
+          symbol: token.symbol,
+          decimals: token.decimals,
+          from: log.args.from as string,
+          to: log.args.to as string,
+          value: log.args.value as bigint,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex
+        }));
+      }));
+
+      const callLogs = await publicClient.getContractEvents({
+        address: timelock,
+        abi: CALL_EXECUTED_ABI,
+        eventName: 'CallExecuted',
+        fromBlock,
+        toBlock: blockNumber
+      });
+
+      const history = buildTreasuryHistory(
+        params.timelockAddress,
+        transferLogs.flat(),
+        callLogs.map(log => ({
+          target: log.args.target as string,
+          value: log.args.value as bigint,
+          data: log.args.data as Hex,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex
+        }))
+      );
+
+      // Timestamps for the blocks that moved funds
+      const blocks = [...new Set(history.map(movement => movement.blockNumber))];
+      const timestamps = new Map(await Promise.all(blocks.map(async (block) => {
+        const { timestamp } = await publicClient.getBlock({ blockNumber: BigInt(block) });
+        return [block, Number(timestamp)] as const;
+      })));
+      report.history = history.map(movement => ({ ...movement, timestamp: timestamps.get(movement.blockNumber) }));
+    } catch (error: any) {
+      report.historyError = `History unavailable from this RPC endpoint: ${error.message}`;
+    }
+
+    return report;
+
+  } catch (error: any) {
+    throw new VerificationError(`Failed to read DAO treasury: ${error.message}`, { input });
+  }
+}
+
+/**
+ * Format a treasury report for display
+ */
+export function formatDAOTreasuryReport(report: DAOTreasuryReport, format: 'markdown' | 'csv' = 'markdown'): string {
+  if (format === 'csv') {
+    return treasuryHistoryToCsv(report.history ?? []);
+  }
+
+  const sections = [
+    '# 🏦 DAO Treasury',
+    '',
+    `**Timelock:** ${report.timelockAddress}`,
+    `**Network:** ${report.networkName}`,
+    `**Block:** ${report.blockNumber}`,
+    '',
+    '## 💰 Balances',
+    '',
+    `- ETH: ${report.formattedNativeBalance}`,
+    ...report.tokens.map(token => `- ${token.symbol}: ${token.formattedBalance} (${token.address})`),
+    ''
+  ];
+
+  if (report.historyError) {
+    sections.push('## 📜 History', '', `⚠️ ${report.historyError}`, '');
+  } else if (report.history) {
+    sections.push('## 📜 History', '');
+    if (report.history.length === 0) {
+      sections.push('No tracked inflows or outflows yet.');
+    } else {
+      sections.push(
+        '| Block | Direction | Asset | Amount | Counterparty | Source |',
+        '|-------|-----------|-------|--------|--------------|--------|',
+        ...report.history.map(movement =>
+          `| ${movement.blockNumber} | ${movement.direction === 'in' ? '⬇️ in' : '⬆️ out'} | ${movement.asset} | ${movement.formattedAmount} | ${movement.counterparty} | ${movement.source} |`
+        )
+      );
+    }
+    sections.push(
+      '',
+      'Plain ETH deposits do not emit logs, so only ETH sent out through executed proposals appears in the history. Request `format: "csv"` for a spreadsheet export.',
+      ''
+    );
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { parseSignature, Address, Hex } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadContractABI } from '../utils/contracts.js';
+import { prepareContractCall } from '../utils/transactions.js';
+import { formatEstimatedCost } from '../utils/fees.js';
+import { FeeStrategySchema, PreparedTransaction, TransactionError } from '../types/index.js';
+import { createNetworkClient } from '../utils/rpc.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+// Input validation schema for the prepare-delegation tool
+export const PrepareDelegationInputSchema = z.object({
+  networkName: z.string(),
+  tokenAddress: addressSchema,
+  fromAddress: addressSchema.optional(),
+  delegatee: addressSchema.optional(),
+  gasless: z.boolean().default(false),
+  expirySeconds: z.number().int().min(60).default(3600),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "Signature must be a 65-byte hex string").optional(),
+  nonce: z.string().regex(/^\d+$/, "Nonce must be a decimal number").optional(),
+  expiry: z.string().regex(/^\d+$/, "Expiry must be a unix timestamp").optional(),
+  gasEstimateMultiplier: z.number().min(1).max(3).default(1.2),
+  feeStrategy: FeeStrategySchema
+}).refine(
+  (params) => params.delegatee || params.fromAddress,
+  { message: "Provide a delegatee, or a fromAddress to self-delegate" }
+).refine(
+  (params) => !params.signature || (params.delegatee && params.nonce && params.expiry),
+  { message: "Relaying a signature requires the signed delegatee, nonce and expiry" }
+);
+
+// ERC20Votes Delegation struct, signed for delegateBySig
+export const DELEGATION_TYPES = {
+  Delegation: [
+    { name: 'delegatee', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+} as const;
+
+export interface DelegationTypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: typeof DELEGATION_TYPES;
+  primaryType: 'Delegation';
+  message: {
+    delegatee: string;
+    nonce: string;
+    expiry: string;
+  };
+}
+
+/**
+ * Either a transaction to sign and broadcast, or EIP-712 typed data for a gasless delegation
+ */
+export type DelegationResult =
+  | { kind: 'transaction'; preparedTransaction: PreparedTransaction; delegatee: string; relayed: boolean }
+  | { kind: 'typed-data'; typedData: DelegationTypedData; tokenAddress: string; networkName: string };
+
+/**
+ * Build the EIP-712 payload the holder signs so a relayer can call delegateBySig
+ */
+export function buildDelegationTypedData(params: {
+  name: string;
+  version: string;
+  chainId: number;
+  tokenAddress: string;
+  delegatee: string;
+  nonce: bigint;
+  expiry: bigint;
+}): DelegationTypedData {
+  return {
+    domain: {
+      name: params.name,
+      version: params.version,
+      chainId: params.chainId,
+      verifyingContract: params.tokenAddress
+    },
+    types: DELEGATION_TYPES,
+    primaryType: 'Delegation',
+    message: {
+      delegatee: params.delegatee,
+      nonce: params.nonce.toString(),
+      expiry: params.expiry.toString()
+    }
+  };
+}
+
+/**
+ * Prepare a delegation: a direct delegate() call, EIP-712 typed data for a gasless
+ * signature, or the relayer's delegateBySig() call once that signature exists
+ */
+export async function prepareDelegation(input: z.infer<typeof PrepareDelegationInputSchema>): Promise<DelegationResult> {
+  try {
+    const params = PrepareDelegationInputSchema.parse(input);
+    const delegatee = (params.delegatee ?? params.fromAddress) as Address;
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const tokenABI = await loadContractABI('SimpleDAOTokenUpgradeable');
+
+    if (params.signature) {
+      const { v, r, s, yParity } = parseSignature(params.signature as Hex);
+      const preparedTx = await prepareContractCall({
+        networkConfig,
+        contractAddress: params.tokenAddress as Address,
+        abi: tokenABI.abi,
+        functionName: 'delegateBySig',
+        args: [delegatee, BigInt(params.nonce!), BigInt(params.expiry!), Number(v ?? BigInt(yParity + 27)), r, s],
+        gasEstimateMultiplier: params.gasEstimateMultiplier,
+        fromAddress: params.fromAddress as Address,
+        feeStrategy: params.feeStrategy
+      });
+
+      preparedTx.metadata.contractName = 'SimpleDAOTokenUpgradeable';
+      preparedTx.metadata.description = `Relay signed delegation to ${delegatee} on token ${params.tokenAddress}`;
+      return { kind: 'transaction', preparedTransaction: preparedTx, delegatee, relayed: true };
+    }
+
+    if (params.gasless) {
+      if (!params.fromAddress) {
+        throw new Error('fromAddress (the token holder) is required to read the delegation nonce');
+      }
+
+      const publicClient = await createNetworkClient(networkConfig);
+      const read = (functionName: string, args: any[] = []) => publicClient.readContract({
+        address: params.tokenAddress as Address,
+        abi: tokenABI.abi,
+        functionName,
+        args
+      }) as Promise<any>;
+
+      // ERC-5267 exposes the exact domain; ERC20Permit uses (name, "1")
+      const [nonce, domain, latestBlock] = await Promise.all([
+        read('nonces', [params.fromAddress]),
+        read('eip712Domain').catch(() => undefined),
+        publicClient.getBlock()
+      ]);
+      const name = domain ? domain[1] : await read('name');
+      const version = domain ? domain[2] : '1';
+
+      return {
+        kind: 'typed-data',
+        typedData: buildDelegationTypedData({
+          name,
+          version,
+          chainId: networkConfig.chainId,
+          tokenAddress: params.tokenAddress,
+          delegatee,
+          nonce,
+          expiry: latestBlock.timestamp + BigInt(params.expirySeconds)
+        }),
+        tokenAddress: params.tokenAddress,
+        networkName: params.networkName
+      };
+    }
+
+    const preparedTx = await prepareContractCall({
+      networkConfig,
+      contractAddress: params.tokenAddress as Address,
+      abi: tokenABI.abi,
+      functionName: 'delegate',
+      args: [delegatee],
+      gasEstimateMultiplier: params.gasEstimateMultiplier,
+      fromAddress: params.fromAddress as Address,
+      feeStrategy: params.feeStrategy
+    });
+
+    const isSelf = params.fromAddress?.toLowerCase() === delegatee.toLowerCase();
+    preparedTx.metadata.contractName = 'SimpleDAOTokenUpgradeable';
+    preparedTx.metadata.description = isSelf
+      ? `Self-delegate voting power on token ${params.tokenAddress}`
+      : `Delegate voting power to ${delegatee} on token ${params.tokenAddress}`;
+    return { kind: 'transaction', preparedTransaction: preparedTx, delegatee, relayed: false };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to prepare delegation: ${error.message}`);
+  }
+}
+
+/**
+ * Format a prepared delegation for display
+ */
+export function formatDelegationResult(result: DelegationResult): string {
+  if (result.kind === 'typed-data') {
+    const { typedData } = result;
+    return [
+      '# ✍️ Gasless Delegation',
+      '',
+      `Sign this EIP-712 message with the token holder's key to delegate to ${typedData.message.delegatee}.`,
+      '',
+      `**Token:** ${result.tokenAddress}`,
+      `**Network:** ${result.networkName} (Chain ID: ${typedData.domain.chainId})`,
+      `**Nonce:** ${typedData.message.nonce}`,
+      `**Expires:** ${new Date(Number(typedData.message.expiry) * 1000).toISOString()}`,
+      '',
+      '## 🧾 Typed Data (eth_signTypedData_v4)',
+      '',
+      '```json',
+      JSON.stringify(typedData, null, 2),
+      '```',
+      '',
+      'Any relayer can then call prepare-delegation with the signature, delegatee, nonce and expiry to submit delegateBySig and pay the gas.',
+      ''
+    ].join('\n');
+  }
+
+  const { preparedTransaction } = result;
+  return [
+    result.relayed ? '# 🤝 Relayed Delegation Transaction' : '# 🤝 Delegation Transaction',
+    '',
+    preparedTransaction.metadata.description,
+    '',
+    `**Function:** ${preparedTransaction.metadata.functionName}`,
+    `**Delegatee:** ${result.delegatee}`,
+    `**Network:** ${preparedTransaction.metadata.networkName} (Chain ID: ${preparedTransaction.metadata.networkChainId})`,
+    `**Estimated Gas:** ${preparedTransaction.metadata.estimatedGasUsage}`,
+    `**Estimated Cost:** ${formatEstimatedCost(preparedTransaction.metadata)}`,
+    '',
+    '## 🔧 Unsigned Transaction',
+    '',
+    '```json',
+    JSON.stringify(preparedTransaction.unsignedTransaction, null, 2),
+    '```',
+    '',
+    'Voting power moves to the delegatee as soon as this transaction is mined.',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,316 @@
+import { z } from 'zod';
+import { parseEventLogs, Address, Hex, Log } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadContractABI } from '../utils/contracts.js';
+import { prepareContractCall } from '../utils/transactions.js';
+import { formatEstimatedCost } from '../utils/fees.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import {
+  FactoryDAODeploymentConfigSchema,
+  FactoryDAOConfig,
+  PreparedTransaction,
+  TransactionError
+} from '../types/index.js';
+
+// Input validation schema for the prepare-factory-dao-deployment tool
+export const FactoryDAODeploymentInputSchema = FactoryDAODeploymentConfigSchema;
+
+// Input validation schema for the get-factory-dao-deployment tool
+export const GetFactoryDAODeploymentInputSchema = z.object({
+  transactionHash: z.string().startsWith('0x', 'Transaction hash must be a valid hex string'),
+  networkName: z.string(),
+  factoryAddress: z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+    message: "Invalid Ethereum address format"
+  }).optional()
+});
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Bounds applied by GovernorSettings when the factory initializes the governor
+const MAX_UINT32 = 2n ** 32n - 1n;
+const MAX_UINT48 = 2n ** 48n - 1n;
+
+/**
+ * Addresses emitted by SimpleDAOFactoryV2 in the DAODeployed event
+ */
+export interface FactoryDAODeploymentResult {
+  transactionHash: string;
+  networkName: string;
+  status: 'success' | 'failed';
+  blockNumber: string;
+  gasUsed: string;
+  deployer?: string;
+  name?: string;
+  token?: string;
+  governor?: string;
+  timelock?: string;
+  explorerUrl?: string;
+}
+
+/**
+ * Validate a DAOConfig struct against the checks SimpleDAOFactoryV2.deployDAO performs.
+ * Messages match the contract revert strings so failures read the same off-chain and on-chain.
+ */
+export function validateFactoryDAOConfig(config: FactoryDAOConfig, recipient: string): string[] {
+  const issues: string[] = [];
+
+  if (config.tokenName.length === 0) {
+    issues.push('Token name cannot be empty');
+  }
+
+  if (config.tokenSymbol.length === 0) {
+    issues.push('Token symbol cannot be empty');
+  }
+
+  if (BigInt(config.initialSupply) === 0n) {
+    issues.push('Initial supply must be greater than 0');
+  }
+
+  const votingDelay = BigInt(config.votingDelay);
+  if (votingDelay === 0n) {
+    issues.push('Voting delay must be greater than 0');
+  } else if (votingDelay > MAX_UINT48) {
+    issues.push('Voting delay does not fit in uint48');
+  }
+
+  const votingPeriod = BigInt(config.votingPeriod);
+  if (votingPeriod === 0n) {
+    issues.push('Voting period must be greater than 0');
+  } else if (votingPeriod > MAX_UINT32) {
+    issues.push('Voting period does not fit in uint32');
+  }
+
+  const quorumPercentage = BigInt(config.quorumPercentage);
+  if (quorumPercentage === 0n || quorumPercentage > 100n) {
+    issues.push('Invalid quorum percentage');
+  }
+
+  if (recipient.toLowerCase() === ZERO_ADDRESS) {
+    issues.push('Recipient cannot be zero address');
+  }
+
+  return issues;
+}
+
+/**
+ * Convert the string-encoded DAOConfig into the struct shape expected by the ABI encoder
+ */
+export function toDAOConfigStruct(config: FactoryDAOConfig) {
+  return {
+    tokenName: config.tokenName,
+    tokenSymbol: config.tokenSymbol,
+    initialSupply: BigInt(config.initialSupply),
+    votingDelay: BigInt(config.votingDelay),
+    votingPeriod: BigInt(config.votingPeriod),
+    proposalThreshold: BigInt(config.proposalThreshold),
+    quorumPercentage: BigInt(config.quorumPercentage),
+    timelockDelay: BigInt(config.timelockDelay)
+  };
+}
+
+/**
+ * Prepare a single SimpleDAOFactoryV2.deployDAO call for external signing
+ */
+export async function prepareFactoryDAODeployment(
+  input: z.infer<typeof FactoryDAODeploymentInputSchema>
+): Promise<PreparedTransaction> {
+  try {
+    // Validate input
+    const config = FactoryDAODeploymentInputSchema.parse(input);
+
+    const issues = validateFactoryDAOConfig(config.daoConfig, config.recipient);
+    if (issues.length > 0) {
+      throw new TransactionError(`Invalid DAO configuration: ${issues.join('; ')}`, { issues });
+    }
+
+    // Get network configuration
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(config.networkName));
+
+    const factoryABI = await loadContractABI('SimpleDAOFactoryV2');
+
+    const preparedTx = await prepareContractCall({
+      networkConfig,
+      contractAddress: config.factoryAddress as Address,
+      abi: factoryABI.abi,
+      functionName: 'deployDAO',
+      args: [toDAOConfigStruct(config.daoConfig), config.recipient as Address],
+      gasEstimateMultiplier: config.gasEstimateMultiplier,
+      fromAddress: config.fromAddress as Address,
+      feeStrategy: config.feeStrategy
+    });
+
+    return {
+      ...preparedTx,
+      metadata: {
+        ...preparedTx.metadata,
+        contractName: 'SimpleDAOFactoryV2',
+        description: `Deploy ${config.daoConfig.tokenName} DAO (token, timelock, governor) through SimpleDAOFactoryV2 at ${config.factoryAddress}`
+      }
+    };
+
+  } catch (error: any) {
+    throw error;
+  }
+}
+
+/**
+ * Decode the DAODeployed event from a deployDAO receipt's logs
+ */
+export function decodeDAODeployedEvent(
+  logs: Log[],
+  factoryAbi: any[],
+  factoryAddress?: string
+): { deployer: string; token: string; governor: string; timelock: string; name: string } | undefined {
+  const events = parseEventLogs({
+    abi: factoryAbi,
+    eventName: 'DAODeployed',
+    logs
+  }) as any[];
+
+  const event = events.find(e =>
+    !factoryAddress || e.address.toLowerCase() === factoryAddress.toLowerCase()
+  );
+
+  if (!event) {
+    return undefined;
+  }
+
+  return {
+    deployer: event.args.deployer,
+    token: event.args.token,
+    governor: event.args.governor,
+    timelock: event.args.timelock,
+    name: event.args.name
+  };
+}
+
+/**
+ * Read a mined deployDAO transaction and return the deployed proxy addresses
+ */
+export async function getFactoryDAODeployment(
+  input: z.infer<typeof GetFactoryDAODeploymentInputSchema>
+): Promise<FactoryDAODeploymentResult> {
+  try {
+    const params = GetFactoryDAODeploymentInputSchema.parse(input);
+
+    // Get network configuration
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+
+    const publicClient = await createNetworkClient(networkConfig);
+
+    const receipt = await publicClient.getTransactionReceipt({
+      hash: params.transactionHash as Hex
+    });
+
+    const result: FactoryDAODeploymentResult = {
+      transactionHash: receipt.transactionHash,
+      networkName: params.networkName,
+      status: receipt.status === 'success' ? 'success' : 'failed',
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      explorerUrl: networkConfig.explorerUrl ? `${networkConfig.explorerUrl}/tx/${receipt.transactionHash}` : undefined
+    };
+
+    if (receipt.status !== 'success') {
+      return result;
+    }
+
+    const factoryABI = await loadContractABI('SimpleDAOFactoryV2');
+    const deployed = decodeDAODeployedEvent(receipt.logs, factoryABI.abi, params.factoryAddress);
+
+    if (!deployed) {
+      throw new TransactionError(`No DAODeployed event found in transaction ${params.transactionHash}`);
+    }
+
+    return { ...result, ...deployed };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to read factory DAO deployment: ${error.message}`);
+  }
+}
+
+/**
+ * Generate signing instructions for a factory deployDAO transaction
+ */
+export function generateFactoryDAODeploymentInstructions(preparedTx: PreparedTransaction): string {
+  const sections = [
+    '# 🏛️ Factory DAO Deployment Instructions',
+    '',
+    `**Network:** ${preparedTx.metadata.networkName} (Chain ID: ${preparedTx.metadata.networkChainId})`,
+    `**Factory:** ${preparedTx.unsignedTransaction.to}`,
+    '',
+    '## 🔧 Unsigned Transaction',
+    '',
+    '```json',
+    JSON.stringify(preparedTx.unsignedTransaction, null, 2),
+    '```',
+    '',
+    '## 📋 Deployment Process',
+    '',
+    '1. Sign the transaction above using your MCP Ledger server',
+    preparedTx.metadata.preparedTransactionId
+      ? `2. Broadcast it with the broadcast-signed-transaction tool, passing preparedTransactionId ${preparedTx.metadata.preparedTransactionId}`
+      : '2. Broadcast it with the broadcast-signed-transaction tool',
+    '3. Run get-factory-dao-deployment with the transaction hash to read the',
+    '   token, governor and timelock proxy addresses from the DAODeployed event',
+    '',
+    '## ✅ What the Factory Configures',
+    '',
+    '- Timelock, token and governor are deployed as UUPS proxies in one transaction',
+    '- The governor is granted PROPOSER_ROLE on the timelock, execution is open',
+    '- The timelock owns the token and is the upgrade authority for every contract',
+    '- The factory renounces its timelock admin role before the call returns',
+    ''
+  ];
+
+  return sections.join('\n');
+}
+
+/**
+ * Get factory DAO deployment summary for display
+ */
+export function getFactoryDAODeploymentSummary(preparedTx: PreparedTransaction): string {
+  return `🏛️ Factory DAO Deployment Summary
+
+${preparedTx.metadata.description}
+Network: ${preparedTx.metadata.networkName} (Chain ID: ${preparedTx.metadata.networkChainId})
+Function: ${preparedTx.metadata.functionName}
+Estimated Gas: ${preparedTx.metadata.estimatedGasUsage.toLocaleString()}
+Estimated Cost: ${formatEstimatedCost(preparedTx.metadata)}
+
+⚠️  Transaction prepared - use MCP Ledger server for signing and broadcasting`;
+}
+
+/**
+ * Format the decoded DAODeployed event for display
+ */
+export function formatFactoryDAODeployment(result: FactoryDAODeploymentResult): string {
+  const sections = [
+    '# 🏛️ Factory DAO Deployment',
+    '',
+    `**Transaction:** \`${result.transactionHash}\``,
+    `**Network:** ${result.networkName}`,
+    `**Status:** ${result.status === 'success' ? '✅ Success' : '❌ Failed'}`,
+    `**Block:** ${result.blockNumber}`,
+    `**Gas Used:** ${result.gasUsed}`,
+    ''
+  ];
+
+  if (result.token && result.governor && result.timelock) {
+    sections.push(
+      '## 📍 Deployed Contracts',
+      `- **Name:** ${result.name}`,
+      `- **Token:** \`${result.token}\``,
+      `- **Governor:** \`${result.governor}\``,
+      `- **Timelock:** \`${result.timelock}\``,
+      `- **Deployer:** \`${result.deployer}\``,
+      ''
+    );
+  }
+
+  if (result.explorerUrl) {
+    sections.push(`🔗 ${result.explorerUrl}`);
+  }
+
+  return sections.join('\n');
+}
@@ -1,20 +1,115 @@
 import { z } from 'zod';
 import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
-import { 
-  loadContractABI,
-  ContractName,
-  prepareTokenConstructorArgs,
-  prepareGovernorConstructorArgs,
-  prepareTimelockConstructorArgs,
-  getRecommendedContractVersion
-} from '../utils/contracts.js';
-import { prepareContractDeployment } from '../utils/transactions.js';
-import { DAODeploymentConfigSchema, PreparedTransaction, TransactionError } from '../types/index.js';
-import { Address, Hex } from 'viem';
+import { loadContractABI, ContractName, getRecommendedContractVersion } from '../utils/contracts.js';
+import { prepareContractDeployment, prepareContractCall, getPendingNonce } from '../utils/transactions.js';
+import { formatCostRange, formatEstimatedCost, sumCostRanges } from '../utils/fees.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { registerPreparedTransaction } from '../utils/signed-transactions.js';
+import { CostRange, DAODeploymentConfigSchema, L1FeeEstimate, NetworkConfig, PreparedTransaction, TransactionError } from '../types/index.js';
+import {
+  Address,
+  Hex,
+  StateOverride,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeDeployData,
+  encodeFunctionData,
+  formatEther,
+  getContractAddress,
+  keccak256,
+  pad,
+  toHex,
+  parseAbi,
+  parseAbiParameters,
+  zeroAddress,
+  zeroHash
+} from 'viem';
 
 // Input validation schema for the deploy-dao tool
 export const DeployDAOInputSchema = DAODeploymentConfigSchema;
 
+// Shortest voting period accepted; the token clock counts seconds
+const MIN_VOTING_PERIOD_SECONDS = 3600;
+
+// Each DAO contract is an ERC1967Proxy over the factory's implementation, initialized from the proxy constructor
+const ERC1967_PROXY_ABI = parseAbi(['constructor(address implementation, bytes data)']);
+
+// ERC-1967 implementation slot: keccak256('eip1967.proxy.implementation') - 1
+const IMPLEMENTATION_SLOT: Hex = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+const FACTORY_IMPLEMENTATIONS_ABI = parseAbi([
+  'function getTokenImplementation() view returns (address)',
+  'function getTimelockImplementation() view returns (address)',
+  'function getGovernorImplementation() view returns (address)'
+]);
+
+const TOKEN_INITIALIZE_ABI = parseAbi([
+  'function initialize(string name, string symbol, uint256 initialSupply, address recipient, address owner, address upgradeAuthority)'
+]);
+
+const TIMELOCK_INITIALIZE_ABI = parseAbi([
+  'function initialize(uint256 minDelay, address[] proposers, address[] executors, address admin)'
+]);
+
+const GOVERNOR_INITIALIZE_ABI = parseAbi([
+  'function initialize(string name, address token, address timelock, uint256 votingDelay, uint256 votingPeriod, uint256 proposalThreshold, uint256 quorumPercentage, address upgradeAuthority)'
+]);
+
+// TimelockController role identifiers
+export const TIMELOCK_ROLES = {
+  DEFAULT_ADMIN_ROLE: zeroHash,
+  PROPOSER_ROLE: keccak256(toHex('PROPOSER_ROLE')),
+  EXECUTOR_ROLE: keccak256(toHex('EXECUTOR_ROLE')),
+  CANCELLER_ROLE: keccak256(toHex('CANCELLER_ROLE'))
+} as const;
+
+const TIMELOCK_ROLE_ABI = parseAbi([
+  'function grantRole(bytes32 role, address account)',
+  'function revokeRole(bytes32 role, address account)',
+  'function renounceRole(bytes32 role, address callerConfirmation)'
+]);
+
+// OpenZeppelin v5 AccessControl namespaced storage: keccak256(abi.encode(uint256(keccak256("openzeppelin.storage.AccessControl")) - 1)) & ~bytes32(uint256(0xff))
+const ACCESS_CONTROL_STORAGE_SLOT: Hex = '0x02dd7bc7dec4dceedda775e58dd541e08a116c6c53815c0bd028192f7b626800';
+
+/**
+ * A single transaction of a deployment plan, keyed by what it creates or configures
+ */
+export interface DAODeploymentStep {
+  key: string;
+  label: string;
+  preparedTransaction: PreparedTransaction;
+}
+
+/**
+ * A timelock role change to perform after deployment
+ */
+export interface TimelockRoleCall {
+  key: string;
+  label: string;
+  functionName: 'grantRole' | 'revokeRole' | 'renounceRole';
+  role: keyof typeof TIMELOCK_ROLES;
+  account: string;
+}
+
+/**
+ * Contract addresses a plan will create, derived from the deployer nonce
+ */
+export interface PredictedDAOAddresses {
+  token: string;
+  timelock: string;
+  governor: string;
+}
+
+/**
+ * Implementation contracts the DAO proxies point at, read from SimpleDAOFactoryV2
+ */
+export interface DAOImplementations {
+  token: string;
+  timelock: string;
+  governor: string;
+}
+
 /**
  * Deployment order for DAO contracts
  */
@@ -22,191 +117,457 @@ export interface DAODeploymentPlan {
   step1_token: PreparedTransaction;
   step2_timelock: PreparedTransaction;
   step3_governor: PreparedTransaction;
+  roleConfiguration: DAODeploymentStep[];
   metadata: {
     daoName: string;
     networkName: string;
     factoryAddress: string;
     totalEstimatedCost: string;
+    totalEstimatedCostRange?: CostRange;
+    totalL1FeeEth?: string;
     deploymentOrder: string[];
+    fromAddress: string;
+    startingNonce: number;
+    predictedAddresses: PredictedDAOAddresses;
+    implementations: DAOImplementations;
+    adminWarnings: string[];
   };
 }
 
 /**
- * Prepare complete DAO deployment plan with all transactions
+ * Predict the CREATE addresses of token, timelock and governor when deployed
+ * by the same account at consecutive nonces
  */
-export async function prepareDAODeploymentPlan(input: z.infer<typeof DeployDAOInputSchema>): Promise<DAODeploymentPlan> {
+export function predictDAOAddresses(fromAddress: string, startingNonce: number): PredictedDAOAddresses {
+  const predict = (offset: number) => getContractAddress({
+    from: fromAddress as Address,
+    nonce: BigInt(startingNonce + offset)
+  });
+
+  return {
+    token: predict(0),
+    timelock: predict(1),
+    governor: predict(2)
+  };
+}
+
+/**
+ * Creation code of an ERC1967Proxy that runs initData against the implementation
+ */
+export function encodeProxyDeployment(proxyBytecode: Hex, implementation: string, initData: Hex): Hex {
+  return encodeDeployData({
+    abi: ERC1967_PROXY_ABI,
+    bytecode: proxyBytecode,
+    args: [implementation as Address, initData]
+  });
+}
+
+/**
+ * Token initializer: the supply goes to the deployer, the timelock owns the token and authorizes upgrades
+ */
+export function encodeTokenInitialization(
+  config: z.infer<typeof DeployDAOInputSchema>,
+  deployer: string,
+  timelock: string
+): Hex {
+  return encodeFunctionData({
+    abi: TOKEN_INITIALIZE_ABI,
+    functionName: 'initialize',
+    args: [config.tokenName, config.tokenSymbol, BigInt(config.initialSupply), deployer as Address, timelock as Address, timelock as Address]
+  });
+}
+
+/**
+ * Timelock initializer with the deployer as temporary admin, so it can configure roles afterwards
+ */
+export function encodeTimelockInitialization(config: z.infer<typeof DeployDAOInputSchema>, deployer: string): Hex {
+  return encodeFunctionData({
+    abi: TIMELOCK_INITIALIZE_ABI,
+    functionName: 'initialize',
+    args: [
+      BigInt(config.timelockSettings.minDelay),
+      config.timelockSettings.proposers as Address[],
+      config.timelockSettings.executors as Address[],
+      deployer as Address
+    ]
+  });
+}
+
+/**
+ * Governor initializer bound to the token and timelock, with the timelock authorizing upgrades
+ */
+export function encodeGovernorInitialization(
+  config: z.infer<typeof DeployDAOInputSchema>,
+  token: string,
+  timelock: string
+): Hex {
+  return encodeFunctionData({
+    abi: GOVERNOR_INITIALIZE_ABI,
+    functionName: 'initialize',
+    args: [
+      `${config.daoName} Governor`,
+      token as Address,
+      timelock as Address,
+      BigInt(config.governorSettings.votingDelay),
+      BigInt(config.governorSettings.votingPeriod),
+      BigInt(config.governorSettings.proposalThreshold),
+      BigInt(config.governorSettings.quorumPercentage),
+      timelock as Address
+    ]
+  });
+}
+
+/**
+ * State override that puts an initialized-looking proxy at an address a later step will deploy to,
+ * so calls into it can be estimated before it exists
+ */
+export function buildProxyStateOverride(
+  address: string,
+  proxyRuntimeCode: Hex,
+  implementation: string,
+  stateDiff: { slot: Hex; value: Hex }[] = []
+): StateOverride[number] {
+  return {
+    address: address as Address,
+    code: proxyRuntimeCode,
+    stateDiff: [{ slot: IMPLEMENTATION_SLOT, value: pad(implementation as Hex) }, ...stateDiff]
+  };
+}
+
+/**
+ * Storage slot of _roles[role].hasRole[account] in an AccessControl contract
+ */
+export function getRoleMemberSlot(role: Hex, account: string): Hex {
+  const roleData = keccak256(encodeAbiParameters(parseAbiParameters('bytes32, bytes32'), [role, ACCESS_CONTROL_STORAGE_SLOT]));
+  return keccak256(encodeAbiParameters(parseAbiParameters('address, bytes32'), [account as Address, roleData]));
+}
+
+/**
+ * Roles the timelock initializer grants: admin to the deployer, proposer and canceller to every
+ * initial proposer, executor to every initial executor
+ */
+function getInitialTimelockRoleSlots(config: z.infer<typeof DeployDAOInputSchema>): { slot: Hex; value: Hex }[] {
+  const granted: [Hex, string][] = [
+    [TIMELOCK_ROLES.DEFAULT_ADMIN_ROLE, config.fromAddress!],
+    ...config.timelockSettings.proposers.flatMap((proposer): [Hex, string][] => [
+      [TIMELOCK_ROLES.PROPOSER_ROLE, proposer],
+      [TIMELOCK_ROLES.CANCELLER_ROLE, proposer]
+    ]),
+    ...config.timelockSettings.executors.map((executor): [Hex, string] => [TIMELOCK_ROLES.EXECUTOR_ROLE, executor])
+  ];
+
+  return granted.map(([role, account]) => ({ slot: getRoleMemberSlot(role, account), value: pad('0x01') }));
+}
+
+/**
+ * Read the implementation addresses SimpleDAOFactoryV2 deploys its proxies against
+ */
+async function getDAOImplementations(networkConfig: NetworkConfig, factoryAddress: string): Promise<DAOImplementations> {
+  const publicClient = await createNetworkClient(networkConfig);
+  const read = (functionName: 'getTokenImplementation' | 'getTimelockImplementation' | 'getGovernorImplementation') =>
+    publicClient.readContract({ address: factoryAddress as Address, abi: FACTORY_IMPLEMENTATIONS_ABI, functionName });
+
   try {
-    // Validate input
-    const config = DeployDAOInputSchema.parse(input);
-    
-    // Get network configuration
-    const networkConfig = await resolveNetworkConfig(getNetworkConfig(config.networkName));
-    
-    
-    const deploymentOrder = ['Token Contract', 'Timelock Contract', 'Governor Contract'];
-    deploymentOrder.forEach((contract, index) => {
-    });
-    
-    // Step 1: Prepare Token Contract Deployment
-    const tokenContract = getRecommendedContractVersion('token', true);
-    const tokenTransaction = await prepareTokenDeployment(config, networkConfig, tokenContract);
-    
-    // Step 2: Prepare Timelock Contract Deployment  
-    const timelockContract = getRecommendedContractVersion('timelock', true);
-    const timelockTransaction = await prepareTimelockDeployment(config, networkConfig, timelockContract);
-    
-    // Step 3: Prepare Governor Contract Deployment
-    const governorContract = getRecommendedContractVersion('governor', true);
-    const governorTransaction = await prepareGovernorDeployment(config, networkConfig, governorContract);
-    
-    // Calculate total estimated cost
-    const totalCostEth = [tokenTransaction, timelockTransaction, governorTransaction]
-      .reduce((sum, tx) => sum + parseFloat(tx.metadata.estimatedCostEth), 0)
-      .toFixed(6);
-    
-    const deploymentPlan: DAODeploymentPlan = {
-      step1_token: tokenTransaction,
-      step2_timelock: timelockTransaction, 
-      step3_governor: governorTransaction,
-      metadata: {
-        daoName: config.daoName,
-        networkName: config.networkName,
-        factoryAddress: config.factoryAddress,
-        totalEstimatedCost: totalCostEth,
-        deploymentOrder
-      }
-    };
-    
-    
-    
-    return deploymentPlan;
-    
+    const [token, timelock, governor] = await Promise.all([
+      read('getTokenImplementation'),
+      read('getTimelockImplementation'),
+      read('getGovernorImplementation')
+    ]);
+    return { token, timelock, governor };
   } catch (error: any) {
-    throw error;
+    throw new TransactionError(`Factory ${factoryAddress} does not expose implementation contracts (SimpleDAOFactoryV2 required): ${error.shortMessage || error.message}`);
   }
 }
 
 /**
- * Prepare token contract deployment transaction
+ * Role changes that mirror SimpleDAOFactoryV2._configureDAO for a raw deployment:
+ * the governor becomes the only proposer and canceller, execution is opened when no
+ * executors were given, and the deployer gives up its temporary admin role.
  */
-async function prepareTokenDeployment(
-  config: z.infer<typeof DeployDAOInputSchema>,
-  networkConfig: any,
-  contractName: string
-): Promise<PreparedTransaction> {
-  
-  // Load contract bytecode
-  const contractABI = await loadContractABI(contractName as ContractName);
-  
-  if (!contractABI.bytecode) {
-    throw new TransactionError(`No bytecode found for ${contractName}. Please ensure contracts are compiled.`);
+export function buildTimelockRoleCalls(params: {
+  governor: string;
+  deployer: string;
+  proposers: string[];
+  executors: string[];
+  retainAdmin: boolean;
+}): TimelockRoleCall[] {
+  const { governor, deployer, proposers, executors, retainAdmin } = params;
+  const calls: TimelockRoleCall[] = [
+    { key: 'grant-proposer', label: 'Grant PROPOSER_ROLE to governor', functionName: 'grantRole', role: 'PROPOSER_ROLE', account: governor },
+    { key: 'grant-canceller', label: 'Grant CANCELLER_ROLE to governor', functionName: 'grantRole', role: 'CANCELLER_ROLE', account: governor }
+  ];
+
+  if (executors.length === 0) {
+    calls.push({ key: 'grant-executor', label: 'Grant EXECUTOR_ROLE to everyone (open execution)', functionName: 'grantRole', role: 'EXECUTOR_ROLE', account: zeroAddress });
   }
-  
-  const constructorArgs = prepareTokenConstructorArgs({
-    name: config.tokenName,
-    symbol: config.tokenSymbol,
-    initialSupply: config.initialSupply,
-    ownerAddress: config.fromAddress || '0x0000000000000000000000000000000000000000'
-  });
-  
-  return await prepareContractDeployment({
-    networkConfig,
-    contractBytecode: contractABI.bytecode as Hex,
-    constructorArgs,
-    gasEstimateMultiplier: 1.2,
-    fromAddress: config.fromAddress as Address,
-    contractName
+
+  // The timelock initializer grants both PROPOSER_ROLE and CANCELLER_ROLE to every initial proposer
+  const extraProposers = proposers.filter(p => p.toLowerCase() !== governor.toLowerCase());
+  extraProposers.forEach(proposer => {
+    calls.push(
+      { key: `revoke-proposer-${proposer.toLowerCase()}`, label: `Revoke PROPOSER_ROLE from ${proposer}`, functionName: 'revokeRole', role: 'PROPOSER_ROLE', account: proposer },
+      { key: `revoke-canceller-${proposer.toLowerCase()}`, label: `Revoke CANCELLER_ROLE from ${proposer}`, functionName: 'revokeRole', role: 'CANCELLER_ROLE', account: proposer }
+    );
   });
+
+  if (!retainAdmin) {
+    calls.push({ key: 'renounce-admin', label: 'Renounce deployer DEFAULT_ADMIN_ROLE', functionName: 'renounceRole', role: 'DEFAULT_ADMIN_ROLE', account: deployer });
+  }
+
+  return calls;
 }
 
 /**
- * Prepare timelock contract deployment transaction
+ * Warnings for configurations that leave someone other than governance in control of the timelock
  */
-async function prepareTimelockDeployment(
-  config: z.infer<typeof DeployDAOInputSchema>,
-  networkConfig: any,
-  contractName: string
-): Promise<PreparedTransaction> {
+export function getTimelockAdminWarnings(config: z.infer<typeof DeployDAOInputSchema>): string[] {
+  const warnings: string[] = [];
+
+  if (config.timelockSettings.retainAdmin) {
+    warnings.push(`Deployer ${config.fromAddress} keeps DEFAULT_ADMIN_ROLE over the timelock and can grant itself any role, bypassing governance. Renounce it once the DAO is verified.`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Prepare complete DAO deployment plan with all transactions
+ */
+export async function prepareDAODeploymentPlan(input: z.infer<typeof DeployDAOInputSchema>): Promise<DAODeploymentPlan> {
+  // Validate input
+  const config = DeployDAOInputSchema.parse(input);
+  
+  // The token is owned by the timelock and the governor points at both, so every address must be known up front
+  if (!config.fromAddress) {
+    throw new TransactionError('fromAddress is required: token and governor are initialized with the timelock address, which is predicted from the deployer nonce');
+  }
+  
+  // Get network configuration
+  const networkConfig = await resolveNetworkConfig(getNetworkConfig(config.networkName));
   
-  // Load contract bytecode
-  const contractABI = await loadContractABI(contractName as ContractName);
+  const deploymentOrder = ['Token Contract', 'Timelock Contract', 'Governor Contract'];
   
-  if (!contractABI.bytecode) {
-    throw new TransactionError(`No bytecode found for ${contractName}. Please ensure contracts are compiled.`);
+  // Pin nonces so every address is known up front
+  const startingNonce = await getPendingNonce(networkConfig, config.fromAddress as Address);
+  const predictedAddresses = predictDAOAddresses(config.fromAddress, startingNonce);
+  
+  const implementations = await getDAOImplementations(networkConfig, config.factoryAddress);
+  const proxy = await loadContractABI('ERC1967Proxy');
+  if (!proxy.bytecode || !proxy.deployedBytecode) {
+    throw new TransactionError('No bytecode found for ERC1967Proxy. Please ensure contracts are compiled.');
   }
   
-  const constructorArgs = prepareTimelockConstructorArgs({
-    minDelay: config.timelockSettings.minDelay,
-    proposers: config.timelockSettings.proposers,
-    executors: config.timelockSettings.executors
+  // Step 1: Prepare Token Contract Deployment
+  const tokenTransaction = await prepareProxyDeployment(config, networkConfig, {
+    contractName: getRecommendedContractVersion('token', true),
+    proxyBytecode: proxy.bytecode as Hex,
+    implementation: implementations.token,
+    initData: encodeTokenInitialization(config, config.fromAddress, predictedAddresses.timelock),
+    nonce: startingNonce
   });
   
-  return await prepareContractDeployment({
-    networkConfig,
-    contractBytecode: contractABI.bytecode as Hex,
-    constructorArgs,
-    gasEstimateMultiplier: 1.2,
-    fromAddress: config.fromAddress as Address,
-    contractName
+  // Step 2: Prepare Timelock Contract Deployment  
+  const timelockTransaction = await prepareProxyDeployment(config, networkConfig, {
+    contractName: getRecommendedContractVersion('timelock', true),
+    proxyBytecode: proxy.bytecode as Hex,
+    implementation: implementations.timelock,
+    initData: encodeTimelockInitialization(config, config.fromAddress),
+    nonce: startingNonce + 1
+  });
+  
+  // Step 3: Prepare Governor Contract Deployment
+  // Its initializer reads the token clock, so the estimate needs the token proxy in place
+  const governorTransaction = await prepareProxyDeployment(config, networkConfig, {
+    contractName: getRecommendedContractVersion('governor', true),
+    proxyBytecode: proxy.bytecode as Hex,
+    implementation: implementations.governor,
+    initData: encodeGovernorInitialization(config, predictedAddresses.token, predictedAddresses.timelock),
+    nonce: startingNonce + 2,
+    stateOverride: [buildProxyStateOverride(predictedAddresses.token, proxy.deployedBytecode as Hex, implementations.token)]
   });
+  
+  // Steps 4..n: Configure timelock roles once every address is known
+  // The timelock does not exist yet either, so role calls are estimated against its initialized state
+  const timelockOverride = buildProxyStateOverride(
+    predictedAddresses.timelock,
+    proxy.deployedBytecode as Hex,
+    implementations.timelock,
+    getInitialTimelockRoleSlots(config)
+  );
+  const roleConfiguration = await prepareRoleConfiguration(config, networkConfig, predictedAddresses, startingNonce + 3, [timelockOverride]);
+  roleConfiguration.forEach(step => deploymentOrder.push(step.label));
+  
+  // Calculate total estimated cost in wei to avoid float rounding
+  const allTransactions = [tokenTransaction, timelockTransaction, governorTransaction, ...roleConfiguration.map(step => step.preparedTransaction)];
+  const totalCost = sumCostRanges(
+    allTransactions
+      .map(tx => tx.metadata.estimatedCost)
+      .filter((range): range is CostRange => range !== undefined)
+  );
+  const l1Fees = allTransactions.map(tx => tx.metadata.l1Fee).filter((fee): fee is L1FeeEstimate => fee !== undefined);
+  const totalL1Fee = l1Fees.length > 0
+    ? formatEther(l1Fees.reduce((sum, fee) => sum + BigInt(fee.l1FeeWei), 0n))
+    : undefined;
+  
+  const deploymentPlan: DAODeploymentPlan = {
+    step1_token: tokenTransaction,
+    step2_timelock: timelockTransaction, 
+    step3_governor: governorTransaction,
+    roleConfiguration,
+    metadata: {
+      daoName: config.daoName,
+      networkName: config.networkName,
+      factoryAddress: config.factoryAddress,
+      totalEstimatedCost: totalCost.expectedEth,
+      totalEstimatedCostRange: totalCost,
+      totalL1FeeEth: totalL1Fee,
+      deploymentOrder,
+      fromAddress: config.fromAddress,
+      startingNonce,
+      predictedAddresses,
+      implementations,
+      adminWarnings: getTimelockAdminWarnings(config)
+    }
+  };
+
+  return deploymentPlan;
 }
 
 /**
- * Prepare governor contract deployment transaction
- * Note: This generates a template that needs token and timelock addresses filled in
+ * Prepare an ERC1967Proxy deployment that initializes one of the DAO contracts
  */
-async function prepareGovernorDeployment(
+async function prepareProxyDeployment(
   config: z.infer<typeof DeployDAOInputSchema>,
-  networkConfig: any,
-  contractName: string
-): Promise<PreparedTransaction> {
-  
-  // Load contract bytecode
-  const contractABI = await loadContractABI(contractName as ContractName);
-  
-  if (!contractABI.bytecode) {
-    throw new TransactionError(`No bytecode found for ${contractName}. Please ensure contracts are compiled.`);
+  networkConfig: NetworkConfig,
+  params: {
+    contractName: ContractName;
+    proxyBytecode: Hex;
+    implementation: string;
+    initData: Hex;
+    nonce: number;
+    stateOverride?: StateOverride;
   }
-  
-  // Use placeholder addresses - these need to be updated after deploying token and timelock
-  const PLACEHOLDER_TOKEN_ADDRESS = "0x0000000000000000000000000000000000000001";
-  const PLACEHOLDER_TIMELOCK_ADDRESS = "0x0000000000000000000000000000000000000002";
-  
-  const constructorArgs = prepareGovernorConstructorArgs({
-    tokenAddress: PLACEHOLDER_TOKEN_ADDRESS,
-    timelockAddress: PLACEHOLDER_TIMELOCK_ADDRESS,
-    votingDelay: config.governorSettings.votingDelay,
-    votingPeriod: config.governorSettings.votingPeriod,
-    proposalThreshold: config.governorSettings.proposalThreshold,
-    quorumPercentage: config.governorSettings.quorumPercentage
-  });
-  
+): Promise<PreparedTransaction> {
   const preparedTx = await prepareContractDeployment({
     networkConfig,
-    contractBytecode: contractABI.bytecode as Hex,
-    constructorArgs,
+    contractBytecode: encodeProxyDeployment(params.proxyBytecode, params.implementation, params.initData),
+    constructorArgs: [params.implementation, params.initData],
     gasEstimateMultiplier: 1.2,
     fromAddress: config.fromAddress as Address,
-    contractName
+    contractName: params.contractName,
+    nonce: params.nonce,
+    feeStrategy: config.feeStrategy,
+    stateOverride: params.stateOverride
   });
   
-  // Add warning about placeholder addresses
-  preparedTx.metadata.description += ' ⚠️ REQUIRES UPDATING: Replace placeholder addresses with actual token and timelock addresses';
-  
+  preparedTx.metadata.description = `Deploy ${params.contractName} proxy (implementation ${params.implementation})`;
   return preparedTx;
 }
 
+/**
+ * Prepare the timelock role calls as pinned-nonce transactions from the deployer
+ */
+async function prepareRoleConfiguration(
+  config: z.infer<typeof DeployDAOInputSchema>,
+  networkConfig: NetworkConfig,
+  predictedAddresses: PredictedDAOAddresses,
+  startingNonce: number,
+  stateOverride: StateOverride
+): Promise<DAODeploymentStep[]> {
+  const calls = buildTimelockRoleCalls({
+    governor: predictedAddresses.governor,
+    deployer: config.fromAddress!,
+    proposers: config.timelockSettings.proposers,
+    executors: config.timelockSettings.executors,
+    retainAdmin: config.timelockSettings.retainAdmin
+  });
+
+  const steps: DAODeploymentStep[] = [];
+  for (const [index, call] of calls.entries()) {
+    const preparedTx = await prepareContractCall({
+      networkConfig,
+      contractAddress: predictedAddresses.timelock as Address,
+      abi: TIMELOCK_ROLE_ABI,
+      functionName: call.functionName,
+      args: [TIMELOCK_ROLES[call.role], call.account],
+      fromAddress: config.fromAddress as Address,
+      stateOverride,
+      nonce: startingNonce + index,
+      feeStrategy: config.feeStrategy
+    });
+
+    preparedTx.metadata.contractName = 'SimpleDAOTimelockUpgradeable';
+    preparedTx.metadata.description = `${call.label} on timelock ${predictedAddresses.timelock}`;
+    steps.push({ key: call.key, label: call.label, preparedTransaction: preparedTx });
+  }
+
+  return steps;
+}
+
 /**
  * Generate detailed deployment instructions
  */
 export function generateDAODeploymentInstructions(plan: DAODeploymentPlan): string {
+  const predicted = plan.metadata.predictedAddresses;
+  const implementations = plan.metadata.implementations;
+
+  const predictionSection = [
+    '## 🔮 Predicted Contract Addresses',
+    '',
+    `Nonces are pinned starting at **${plan.metadata.startingNonce}** for deployer \`${plan.metadata.fromAddress}\`:`,
+    `- Token: \`${predicted.token}\` (nonce ${plan.step1_token.unsignedTransaction.nonce})`,
+    `- Timelock: \`${predicted.timelock}\` (nonce ${plan.step2_timelock.unsignedTransaction.nonce})`,
+    `- Governor: \`${predicted.governor}\` (nonce ${plan.step3_governor.unsignedTransaction.nonce})`,
+    '',
+    'Each address is an ERC1967 proxy initialized in its constructor, using the factory\'s implementations:',
+    `- Token implementation: \`${implementations.token}\``,
+    `- Timelock implementation: \`${implementations.timelock}\``,
+    `- Governor implementation: \`${implementations.governor}\``,
+    '',
+    '⚠️ Do not send any other transaction from the deployer until all three steps are confirmed.',
+    'If the nonce moves, the predicted addresses no longer hold and a new plan must be prepared.',
+    ''
+  ];
+
+  const governorUpdateSection = [
+    '**✅ Ready to Sign**',
+    '',
+    'The governor is initialized with the predicted token and timelock addresses, and the token with the predicted timelock as owner.',
+    '',
+    '**Process:**',
+    '1. Confirm steps 1 and 2 deployed to the predicted addresses',
+    '2. Sign and broadcast the governor transaction using your MCP Ledger server',
+    '3. Wait for transaction confirmation',
+    `4. Check the governor deployed to \`${predicted.governor}\``
+  ];
+
+  const roleSection = plan.roleConfiguration.length > 0 ? [
+    '### Steps 4-' + (plan.roleConfiguration.length + 3) + ': Configure Timelock Roles 🔐',
+    '',
+    'Mirror the factory configuration so only governance controls the timelock:',
+    ...plan.roleConfiguration.map((step, index) =>
+      `${index + 4}. ${step.label} (nonce ${step.preparedTransaction.unsignedTransaction.nonce})`
+    ),
+    '',
+    '**Process:** Sign and broadcast each call in order after the governor is deployed.',
+    ''
+  ] : [];
+
+  const warningSection = plan.metadata.adminWarnings.length > 0 ? [
+    '## ⚠️ Timelock Admin Warnings',
+    '',
+    ...plan.metadata.adminWarnings.map(warning => `- ${warning}`),
+    ''
+  ] : [];
+
   const sections = [
     '# 🏛️ DAO Deployment Instructions',
     '',
     `**DAO Name:** ${plan.metadata.daoName}`,
     `**Network:** ${plan.metadata.networkName}`,
     `**Factory:** ${plan.metadata.factoryAddress}`,
-    `**Total Estimated Cost:** ${plan.metadata.totalEstimatedCost} ETH`,
+    `**Total Estimated Cost:** ${plan.metadata.totalEstimatedCostRange ? formatCostRange(plan.metadata.totalEstimatedCostRange) : plan.metadata.totalEstimatedCost + ' ETH'}`,
+    ...(plan.metadata.totalL1FeeEth ? [`**L1 Data Fees:** ${plan.metadata.totalL1FeeEth} ETH across all transactions (included in the total)`] : []),
     '',
     '## 🚨 IMPORTANT: Sequential Deployment Required',
     '',
@@ -214,6 +575,7 @@ export function generateDAODeploymentInstructions(plan: DAODeploymentPlan): stri
     '- Governor contract needs the Token contract address',
     '- Governor contract needs the Timelock contract address',
     '',
+    ...predictionSection,
     '## 📋 Step-by-Step Process',
     '',
     '### Step 1: Deploy Token Contract 🪙',
@@ -221,49 +583,36 @@ export function generateDAODeploymentInstructions(plan: DAODeploymentPlan): stri
     '**Transaction Details:**',
     `- Contract: ${plan.step1_token.metadata.contractName}`,
     `- Estimated Gas: ${plan.step1_token.metadata.estimatedGasUsage.toLocaleString()}`,
-    `- Estimated Cost: ${plan.step1_token.metadata.estimatedCostEth} ETH`,
+    `- Estimated Cost: ${formatEstimatedCost(plan.step1_token.metadata)}`,
     '',
     '**Process:**',
     '1. Sign and broadcast the token deployment transaction using your MCP Ledger server',
     '2. Wait for transaction confirmation',
-    '3. **SAVE THE TOKEN CONTRACT ADDRESS** - you will need it for Step 3',
+    `3. Check the token deployed to \`${predicted.token}\`; the governor step already uses this address`,
     '',
     '### Step 2: Deploy Timelock Contract ⏰',
     '',
     '**Transaction Details:**',
     `- Contract: ${plan.step2_timelock.metadata.contractName}`,
     `- Estimated Gas: ${plan.step2_timelock.metadata.estimatedGasUsage.toLocaleString()}`,
-    `- Estimated Cost: ${plan.step2_timelock.metadata.estimatedCostEth} ETH`,
+    `- Estimated Cost: ${formatEstimatedCost(plan.step2_timelock.metadata)}`,
     '',
     '**Process:**',
     '1. Sign and broadcast the timelock deployment transaction using your MCP Ledger server',
     '2. Wait for transaction confirmation',
-    '3. **SAVE THE TIMELOCK CONTRACT ADDRESS** - you will need it for Step 3',
+    `3. Check the timelock deployed to \`${predicted.timelock}\`; the governor step already uses this address`,
     '',
     '### Step 3: Deploy Governor Contract 🏛️',
     '',
     '**Transaction Details:**',
     `- Contract: ${plan.step3_governor.metadata.contractName}`,
     `- Estimated Gas: ${plan.step3_governor.metadata.estimatedGasUsage.toLocaleString()}`,
-    `- Estimated Cost: ${plan.step3_governor.metadata.estimatedCostEth} ETH`,
-    '',
-    '**⚠️ CRITICAL: Update Transaction Before Signing**',
-    '',
-    'The governor transaction contains placeholder addresses that must be replaced:',
-    '```',
-    'Replace: 0x0000000000000000000000000000000000000001',
-    'With:    [Your Token Contract Address from Step 1]',
-    '',
-    'Replace: 0x0000000000000000000000000000000000000002', 
-    'With:    [Your Timelock Contract Address from Step 2]',
-    '```',
+    `- Estimated Cost: ${formatEstimatedCost(plan.step3_governor.metadata)}`,
     '',
-    '**Process:**',
-    '1. Update the transaction data with real token and timelock addresses',
-    '2. Sign and broadcast the updated governor transaction using your MCP Ledger server',  
-    '3. Wait for transaction confirmation',
-    '4. **SAVE THE GOVERNOR CONTRACT ADDRESS** - this is your main DAO contract',
+    ...governorUpdateSection,
     '',
+    ...roleSection,
+    ...warningSection,
     '## ✅ Post-Deployment Steps',
     '',
     '1. **Verify Contracts** (if enabled)',
@@ -273,18 +622,18 @@ export function generateDAODeploymentInstructions(plan: DAODeploymentPlan): stri
     '   - Token holders can now create and vote on proposals',
     '   - Proposals are executed through the timelock for security',
     '',
-    '3. **Save Contract Addresses**',
-    '   - Token: `[Address from Step 1]`',
-    '   - Timelock: `[Address from Step 2]`', 
-    '   - Governor: `[Address from Step 3]`',
+    '3. **Contract Addresses**',
+    `   - Token: \`${predicted.token}\``,
+    `   - Timelock: \`${predicted.timelock}\``,
+    `   - Governor: \`${predicted.governor}\``,
     '',
     '## 🔧 Technical Notes',
     '',
     '**Transaction Preparation Only**: This tool only prepares transactions for signing.',
     'You must use your MCP Ledger server for signing and broadcasting.',
     '',
-    '**Address Dependencies**: The governor contract constructor requires both',
-    'token and timelock addresses, which is why they must be deployed first.',
+    '**Address Dependencies**: The governor initializer requires both token and timelock',
+    'addresses, and the token is owned by the timelock, which is why nonces are pinned.',
     '',
     '**Gas Estimates**: All gas estimates include a 20% buffer for safety.',
     `**Total Cost**: Approximately ${plan.metadata.totalEstimatedCost} ETH plus any failed transaction costs.`,
@@ -295,7 +644,9 @@ export function generateDAODeploymentInstructions(plan: DAODeploymentPlan): stri
 }
 
 /**
- * Update governor transaction with real addresses
+ * Update governor transaction with real addresses.
+ * Re-encodes the proxy initializer with the deployed token and timelock, and returns the
+ * transaction itself when they match what it was prepared with.
  */
 export function updateGovernorTransaction(
   governorTx: PreparedTransaction,
@@ -311,31 +662,71 @@ export function updateGovernorTransaction(
     throw new TransactionError('Invalid timelock address format');
   }
   
-  // Update the transaction data by replacing placeholder addresses
-  let updatedData = governorTx.unsignedTransaction.data;
+  const [implementation, initData] = (governorTx.metadata.constructorArgs ?? []) as [Address?, Hex?];
+  if (!implementation || !initData) {
+    throw new TransactionError('Governor transaction has no proxy initializer to update');
+  }
   
-  // Replace placeholders with actual addresses (remove 0x prefix for replacement)
-  updatedData = updatedData.replace(
-    '0000000000000000000000000000000000000001',
-    tokenAddress.slice(2)
-  ) as Hex;
+  // The proxy creation code is whatever precedes the ABI-encoded constructor arguments
+  const data = governorTx.unsignedTransaction.data;
+  const encodedArgs = encodeAbiParameters(ERC1967_PROXY_ABI[0].inputs, [implementation, initData]).slice(2);
+  if (!data.toLowerCase().endsWith(encodedArgs.toLowerCase())) {
+    throw new TransactionError('Governor transaction data does not match its proxy initializer');
+  }
+  const proxyBytecode = data.slice(0, data.length - encodedArgs.length) as Hex;
   
-  updatedData = updatedData.replace(
-    '0000000000000000000000000000000000000002',
-    timelockAddress.slice(2)
-  ) as Hex;
+  const { args } = decodeFunctionData({ abi: GOVERNOR_INITIALIZE_ABI, data: initData });
+  const [name, , , votingDelay, votingPeriod, proposalThreshold, quorumPercentage] = args;
+  const updatedInitData = encodeFunctionData({
+    abi: GOVERNOR_INITIALIZE_ABI,
+    functionName: 'initialize',
+    args: [name, tokenAddress as Address, timelockAddress as Address, votingDelay, votingPeriod, proposalThreshold, quorumPercentage, timelockAddress as Address]
+  });
   
-  return {
+  if (updatedInitData === initData.toLowerCase()) {
+    return governorTx;
+  }
+  
+  return registerPreparedTransaction({
     ...governorTx,
     unsignedTransaction: {
       ...governorTx.unsignedTransaction,
-      data: updatedData
+      data: encodeProxyDeployment(proxyBytecode, implementation, updatedInitData)
     },
     metadata: {
       ...governorTx.metadata,
-      description: governorTx.metadata.description.replace(' ⚠️ REQUIRES UPDATING: Replace placeholder addresses with actual token and timelock addresses', ' ✅ Updated with real token and timelock addresses')
+      constructorArgs: [implementation, updatedInitData],
+      description: `${governorTx.metadata.description} ✅ Updated with token ${tokenAddress} and timelock ${timelockAddress}`
     }
-  };
+  });
+}
+
+/**
+ * Ordered deployment steps of a plan, keyed by the contract each one creates
+ */
+export function getDAODeploymentSteps(plan: DAODeploymentPlan): DAODeploymentStep[] {
+  return [
+    { key: 'token', label: 'Token Contract', preparedTransaction: plan.step1_token },
+    { key: 'timelock', label: 'Timelock Contract', preparedTransaction: plan.step2_timelock },
+    { key: 'governor', label: 'Governor Contract', preparedTransaction: plan.step3_governor },
+    ...plan.roleConfiguration
+  ];
+}
+
+/**
+ * Fill in arguments that depend on contracts deployed by earlier steps.
+ * Returns the transaction unchanged until every dependency is known.
+ */
+export function applyDeploymentDependencies(
+  stepKey: string,
+  preparedTx: PreparedTransaction,
+  contracts: Record<string, string>
+): PreparedTransaction {
+  if (stepKey === 'governor' && contracts.token && contracts.timelock) {
+    return updateGovernorTransaction(preparedTx, contracts.token, contracts.timelock);
+  }
+  
+  return preparedTx;
 }
 
 /**
@@ -351,10 +742,16 @@ Factory: ${plan.metadata.factoryAddress}
 Contracts to Deploy:
 1. 🪙 ${plan.step1_token.metadata.contractName} (${plan.step1_token.metadata.estimatedCostEth} ETH)
 2. ⏰ ${plan.step2_timelock.metadata.contractName} (${plan.step2_timelock.metadata.estimatedCostEth} ETH)  
-3. 🏛️ ${plan.step3_governor.metadata.contractName} (${plan.step3_governor.metadata.estimatedCostEth} ETH)
+3. 🏛️ ${plan.step3_governor.metadata.contractName} (${plan.step3_governor.metadata.estimatedCostEth} ETH)${plan.roleConfiguration.map((step, index) => `
+${index + 4}. 🔐 ${step.label} (${step.preparedTransaction.metadata.estimatedCostEth} ETH)`).join('')}
 
 Total Estimated Cost: ${plan.metadata.totalEstimatedCost} ETH
 
+Predicted Addresses (nonces ${plan.metadata.startingNonce}-${plan.metadata.startingNonce + 2}):
+- Token: ${plan.metadata.predictedAddresses.token}
+- Timelock: ${plan.metadata.predictedAddresses.timelock}
+- Governor: ${plan.metadata.predictedAddresses.governor}
+${plan.metadata.adminWarnings.map(warning => `\n⚠️  ${warning}`).join('')}
 ⚠️  Sequential deployment required - see instructions for details`;
 }
 
@@ -376,8 +773,10 @@ export async function validateDAODeploymentPrerequisites(config: z.infer<typeof
     issues.push('Factory address must be a valid Ethereum address format');
   }
   
-  // Check from address format if provided
-  if (config.fromAddress && (!config.fromAddress.startsWith('0x') || config.fromAddress.length !== 42)) {
+  // The deployer nonce is what the token, timelock and governor addresses are predicted from
+  if (!config.fromAddress) {
+    issues.push('fromAddress is required to predict the token, timelock and governor addresses');
+  } else if (!config.fromAddress.startsWith('0x') || config.fromAddress.length !== 42) {
     issues.push('fromAddress must be a valid Ethereum address format (0x...)');
   }
   
@@ -400,11 +799,11 @@ export async function validateDAODeploymentPrerequisites(config: z.infer<typeof
   }
   
   if (config.governorSettings.votingDelay < 1) {
-    issues.push('Voting delay must be at least 1 block');
+    issues.push('Voting delay must be at least 1 second');
   }
   
-  if (config.governorSettings.votingPeriod < 100) {
-    issues.push('Voting period should be at least 100 blocks for security');
+  if (config.governorSettings.votingPeriod < MIN_VOTING_PERIOD_SECONDS) {
+    issues.push('Voting period should be at least 1 hour (3600 seconds) for security');
   }
   
   return issues;
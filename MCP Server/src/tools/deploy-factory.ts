@@ -2,8 +2,9 @@ import { z } from 'zod';
 import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
 import { loadContractABI, ContractName } from '../utils/contracts.js';
 import { prepareContractDeployment } from '../utils/transactions.js';
+import { formatEstimatedCost } from '../utils/fees.js';
 import { FactoryDeploymentConfigSchema, PreparedTransaction, TransactionError } from '../types/index.js';
-import { Address, Hex } from 'viem';
+import { Address, Hex, formatGwei } from 'viem';
 
 // Input validation schema for the deploy-factory tool
 export const DeployFactoryInputSchema = FactoryDeploymentConfigSchema;
@@ -41,7 +42,8 @@ export async function prepareFactoryDeployment(input: z.infer<typeof DeployFacto
       constructorArgs: [], // Factory contracts typically don't need constructor args
       gasEstimateMultiplier: config.gasEstimateMultiplier,
       fromAddress: config.fromAddress as Address,
-      contractName: factoryContractName
+      contractName: factoryContractName,
+      feeStrategy: config.feeStrategy
     });
     
     
@@ -79,14 +81,18 @@ export function generateFactoryDeploymentInstructions(
       data: preparedTx.unsignedTransaction.data.slice(0, 100) + '...',
       gas: preparedTx.unsignedTransaction.gas?.toString(),
       gasPrice: preparedTx.unsignedTransaction.gasPrice?.toString(),
+      maxFeePerGas: preparedTx.unsignedTransaction.maxFeePerGas,
+      maxPriorityFeePerGas: preparedTx.unsignedTransaction.maxPriorityFeePerGas,
       chainId: preparedTx.unsignedTransaction.chainId
     }, null, 2),
     '```',
     '',
     '## 💰 Cost Estimation',
     `- **Gas Limit:** ${preparedTx.metadata.estimatedGasUsage.toLocaleString()}`,
-    `- **Gas Price:** ${preparedTx.unsignedTransaction.gasPrice ? (Number(preparedTx.unsignedTransaction.gasPrice) / 1e9).toFixed(2) + ' gwei' : 'Dynamic'}`,
-    `- **Estimated Cost:** ${preparedTx.metadata.estimatedCostEth} ETH`,
+    preparedTx.unsignedTransaction.maxFeePerGas
+      ? `- **Max Fee:** ${formatGwei(BigInt(preparedTx.unsignedTransaction.maxFeePerGas))} gwei (tip ${formatGwei(BigInt(preparedTx.unsignedTransaction.maxPriorityFeePerGas ?? 0))} gwei, ${preparedTx.metadata.feeStrategy} strategy)`
+      : `- **Gas Price:** ${preparedTx.unsignedTransaction.gasPrice ? formatGwei(BigInt(preparedTx.unsignedTransaction.gasPrice)) + ' gwei' : 'Dynamic'}`,
+    `- **Estimated Cost:** ${formatEstimatedCost(preparedTx.metadata)}`,
     '',
     '## 📋 Deployment Process',
     '',
@@ -133,7 +139,7 @@ export function generateFactoryDeploymentInstructions(
     '',
     '⚠️ **Network Fees**',
     'Ensure your account has sufficient native tokens for gas fees.',
-    `Current estimate: ${preparedTx.metadata.estimatedCostEth} ETH`,
+    `Current estimate: ${formatEstimatedCost(preparedTx.metadata)}`,
     ''
   );
   
@@ -182,7 +188,7 @@ Contract: ${preparedTx.metadata.contractName}
 Version: ${config.factoryVersion.toUpperCase()}
 Network: ${preparedTx.metadata.networkName} (Chain ID: ${preparedTx.metadata.networkChainId})
 Estimated Gas: ${preparedTx.metadata.estimatedGasUsage.toLocaleString()}
-Estimated Cost: ${preparedTx.metadata.estimatedCostEth} ETH
+Estimated Cost: ${formatEstimatedCost(preparedTx.metadata)}
 Verification: ${config.verifyContract ? 'Enabled' : 'Disabled'}
 
 ⚠️  Transaction prepared - use MCP Ledger server for signing and broadcasting`;
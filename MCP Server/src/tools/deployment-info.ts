@@ -1,7 +1,8 @@
 import { z } from 'zod';
-import { createPublicClient, http, Address } from 'viem';
+import { Address } from 'viem';
 import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
 import { loadContractABI, ContractName, loadAllContractABIs } from '../utils/contracts.js';
+import { createNetworkClient } from '../utils/rpc.js';
 
 // Input validation schema for the get-deployment-info tool
 export const GetDeploymentInfoInputSchema = z.object({
@@ -55,9 +56,7 @@ export async function getDeploymentInfo(input: z.infer<typeof GetDeploymentInfoI
     
     
     // Create public client for the network
-    const publicClient = createPublicClient({
-      transport: http(networkConfig.rpcUrl)
-    });
+    const publicClient = await createNetworkClient(networkConfig);
     
     const contractAddress = config.contractAddress as Address;
     
@@ -246,12 +245,9 @@ async function tryGetContractABI(contractAddress: string, networkName: string):
     
     // Try to match bytecode against known patterns
     try {
-      const { createPublicClient, http } = await import('viem');
       const resolvedConfig = await resolveNetworkConfig(networkConfig);
       
-      const publicClient = createPublicClient({
-        transport: http(resolvedConfig.rpcUrl)
-      });
+      const publicClient = await createNetworkClient(resolvedConfig);
       
       const bytecode = await publicClient.getBytecode({ 
         address: contractAddress as `0x${string}` 
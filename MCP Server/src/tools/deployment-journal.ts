@@ -0,0 +1,341 @@
+import { z } from 'zod';
+import { Hex, Address } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { waitForTransactionConfirmation, assertNonceUnchanged, TransactionBroadcastResult } from '../utils/transactions.js';
+import {
+  createJournalPlan,
+  getJournalPlan,
+  listJournalPlans,
+  getCurrentStep,
+  recordStepBroadcast,
+  recordStepReceipt,
+  updateStepTransaction,
+  JournalPlan,
+  JournalReceipt,
+  JournalStep
+} from '../utils/deployment-journal.js';
+import { DAODeploymentPlan, getDAODeploymentSteps, applyDeploymentDependencies } from './deploy-dao.js';
+import { TransactionError } from '../types/index.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { getPreparedTransactionId, registerPreparedTransaction } from '../utils/signed-transactions.js';
+
+// Input validation schema for the advance-dao-deployment tool
+export const AdvanceDAODeploymentInputSchema = z.object({
+  planId: z.string().min(1, "Plan ID is required"),
+  transactionHash: z.string().startsWith('0x', 'Transaction hash must be a valid hex string').optional(),
+  confirmations: z.number().min(1).max(20).default(1)
+});
+
+// Input validation schema for the resume-dao-deployment and get-dao-deployment tools
+export const DAODeploymentPlanIdInputSchema = z.object({
+  planId: z.string().min(1, "Plan ID is required")
+});
+
+export interface JournalOperationResult {
+  plan: JournalPlan;
+  completedStep?: JournalStep;
+  nextStep?: JournalStep;
+  message: string;
+}
+
+/**
+ * Record a freshly prepared DAO deployment plan in the journal
+ */
+export async function recordDAODeploymentPlan(plan: DAODeploymentPlan): Promise<JournalPlan> {
+  return createJournalPlan({
+    daoName: plan.metadata.daoName,
+    networkName: plan.metadata.networkName,
+    factoryAddress: plan.metadata.factoryAddress,
+    steps: getDAODeploymentSteps(plan)
+  });
+}
+
+/**
+ * Convert a confirmation result into its journal representation
+ */
+function toJournalReceipt(result: TransactionBroadcastResult): JournalReceipt {
+  return {
+    blockNumber: result.blockNumber?.toString(),
+    blockHash: result.blockHash,
+    gasUsed: result.gasUsed?.toString(),
+    effectiveGasPrice: result.effectiveGasPrice?.toString(),
+    status: result.status,
+    contractAddress: result.contractAddress
+  };
+}
+
+/**
+ * Patch the current step with addresses from earlier receipts and persist the result.
+ * Steps with a pinned nonce are only handed out while the deployer nonce still matches.
+ */
+async function prepareCurrentStep(plan: JournalPlan): Promise<{ plan: JournalPlan; step?: JournalStep }> {
+  const step = getCurrentStep(plan);
+  if (!step || step.status !== 'prepared') {
+    return { plan, step };
+  }
+
+  const { nonce } = step.preparedTransaction.unsignedTransaction;
+  const { fromAddress } = step.preparedTransaction.metadata;
+  if (fromAddress && nonce !== undefined) {
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(plan.networkName));
+    await assertNonceUnchanged(networkConfig, fromAddress as Address, nonce);
+  }
+
+  const patched = applyDeploymentDependencies(step.key, step.preparedTransaction, plan.contracts);
+  if (patched === step.preparedTransaction) {
+    // Plans outlive the server process, so the step may not be known to the broadcast check yet
+    registerPreparedTransaction(step.preparedTransaction);
+    return { plan, step };
+  }
+
+  const updatedPlan = await updateStepTransaction(plan.id, step.index, patched);
+  return { plan: updatedPlan, step: getCurrentStep(updatedPlan) };
+}
+
+/**
+ * Load a plan or fail with a helpful error
+ */
+async function requirePlan(planId: string): Promise<JournalPlan> {
+  const plan = await getJournalPlan(planId);
+  if (!plan) {
+    throw new TransactionError(`Deployment plan not found: ${planId}. Use list-dao-deployments to see recorded plans.`);
+  }
+  return plan;
+}
+
+/**
+ * Advance a plan: record the broadcast hash of the current step, wait for its receipt,
+ * then return the next step with dependent arguments filled in
+ */
+export async function advanceDAODeployment(input: z.infer<typeof AdvanceDAODeploymentInputSchema>): Promise<JournalOperationResult> {
+  try {
+    const params = AdvanceDAODeploymentInputSchema.parse(input);
+
+    let plan = await requirePlan(params.planId);
+    const current = getCurrentStep(plan);
+
+    if (!current) {
+      return { plan, message: 'All steps are already confirmed' };
+    }
+
+    if (current.status === 'failed') {
+      throw new TransactionError(`Step ${current.index + 1} (${current.label}) failed on chain. Prepare a new plan to retry.`);
+    }
+
+    if (params.transactionHash) {
+      plan = await recordStepBroadcast(plan.id, current.index, params.transactionHash);
+    }
+
+    const broadcastStep = plan.steps[current.index];
+    if (!broadcastStep.transactionHash) {
+      const prepared = await prepareCurrentStep(plan);
+      return {
+        plan: prepared.plan,
+        nextStep: prepared.step,
+        message: `Step ${current.index + 1} (${current.label}) is waiting to be signed and broadcast`
+      };
+    }
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(plan.networkName));
+    const confirmation = await waitForTransactionConfirmation({
+      transactionHash: broadcastStep.transactionHash as Hex,
+      networkConfig,
+      confirmations: params.confirmations
+    });
+
+    plan = await recordStepReceipt(plan.id, current.index, toJournalReceipt(confirmation));
+    const completedStep = plan.steps[current.index];
+
+    if (completedStep.status === 'failed') {
+      return {
+        plan,
+        completedStep,
+        message: `Step ${current.index + 1} (${current.label}) reverted on chain`
+      };
+    }
+
+    const expectedAddress = completedStep.preparedTransaction.metadata.expectedAddress;
+    const deployedAddress = completedStep.receipt?.contractAddress;
+    if (expectedAddress && deployedAddress && expectedAddress.toLowerCase() !== deployedAddress.toLowerCase()) {
+      throw new TransactionError(
+        `Step ${current.index + 1} (${current.label}) deployed to ${deployedAddress}, expected ${expectedAddress}. Later steps reference the predicted address - prepare a new plan.`
+      );
+    }
+
+    const prepared = await prepareCurrentStep(plan);
+
+    return {
+      plan: prepared.plan,
+      completedStep,
+      nextStep: prepared.step,
+      message: prepared.step
+        ? `Step ${current.index + 1} (${current.label}) confirmed. Next: step ${prepared.step.index + 1} (${prepared.step.label})`
+        : `Step ${current.index + 1} (${current.label}) confirmed. Deployment complete`
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to advance deployment: ${error.message}`);
+  }
+}
+
+/**
+ * Resume a plan: pick up receipts for steps that were broadcast but never recorded,
+ * without waiting for pending transactions
+ */
+export async function resumeDAODeployment(input: z.infer<typeof DAODeploymentPlanIdInputSchema>): Promise<JournalOperationResult> {
+  try {
+    const params = DAODeploymentPlanIdInputSchema.parse(input);
+
+    let plan = await requirePlan(params.planId);
+    const current = getCurrentStep(plan);
+
+    if (current?.status === 'broadcast' && current.transactionHash) {
+      const networkConfig = await resolveNetworkConfig(getNetworkConfig(plan.networkName));
+      const publicClient = await createNetworkClient(networkConfig);
+
+      let receipt;
+      try {
+        receipt = await publicClient.getTransactionReceipt({
+          hash: current.transactionHash as Hex
+        });
+      } catch (receiptError) {
+        // Receipt not available yet - the transaction is still pending
+        return {
+          plan,
+          nextStep: current,
+          message: `Step ${current.index + 1} (${current.label}) is pending: ${current.transactionHash}`
+        };
+      }
+
+      plan = await recordStepReceipt(plan.id, current.index, {
+        blockNumber: receipt.blockNumber.toString(),
+        blockHash: receipt.blockHash,
+        gasUsed: receipt.gasUsed.toString(),
+        effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+        status: receipt.status === 'success' ? 'success' : 'failed',
+        contractAddress: receipt.contractAddress || undefined
+      });
+    }
+
+    if (plan.status === 'failed') {
+      return { plan, message: 'Deployment failed - a step reverted on chain' };
+    }
+
+    const prepared = await prepareCurrentStep(plan);
+
+    return {
+      plan: prepared.plan,
+      nextStep: prepared.step,
+      message: prepared.step
+        ? `Resume at step ${prepared.step.index + 1} (${prepared.step.label})`
+        : 'All steps are confirmed'
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to resume deployment: ${error.message}`);
+  }
+}
+
+/**
+ * Get a single plan from the journal
+ */
+export async function getDAODeployment(input: z.infer<typeof DAODeploymentPlanIdInputSchema>): Promise<JournalPlan> {
+  const params = DAODeploymentPlanIdInputSchema.parse(input);
+  return requirePlan(params.planId);
+}
+
+/**
+ * List all plans in the journal
+ */
+export async function listDAODeployments(): Promise<JournalPlan[]> {
+  return listJournalPlans();
+}
+
+/**
+ * Format a plan and the transaction to sign next
+ */
+export function formatJournalOperationResult(result: JournalOperationResult): string {
+  const sections = [
+    formatJournalPlan(result.plan),
+    '',
+    `**${result.message}**`,
+    ''
+  ];
+
+  if (result.nextStep && result.nextStep.status === 'prepared') {
+    sections.push(
+      `## ✍️ Next Transaction: ${result.nextStep.label}`,
+      '',
+      '```json',
+      JSON.stringify(result.nextStep.preparedTransaction.unsignedTransaction, null, 2),
+      '```',
+      '',
+      `**Prepared Transaction ID:** ${getPreparedTransactionId(result.nextStep.preparedTransaction)}`,
+      '',
+      'Sign and broadcast this transaction, passing the prepared transaction ID to broadcast-signed-transaction, then call advance-dao-deployment with the plan ID and transaction hash.',
+      ''
+    );
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Format a single plan for display
+ */
+export function formatJournalPlan(plan: JournalPlan): string {
+  const statusIcon = (status: string) => ({
+    prepared: '⏳',
+    broadcast: '📡',
+    confirmed: '✅',
+    failed: '❌'
+  } as Record<string, string>)[status] || '❔';
+
+  const sections = [
+    `# 📒 Deployment Plan ${plan.id}`,
+    '',
+    `**DAO:** ${plan.daoName}`,
+    `**Network:** ${plan.networkName}`,
+    `**Status:** ${plan.status}`,
+    `**Created:** ${plan.createdAt}`,
+    `**Updated:** ${plan.updatedAt}`,
+    '',
+    '| Step | Contract | Status | Transaction | Address |',
+    '|------|----------|--------|-------------|---------|'
+  ];
+
+  plan.steps.forEach(step => {
+    sections.push(
+      `| ${step.index + 1} | ${step.label} | ${statusIcon(step.status)} ${step.status} | ${step.transactionHash || '-'} | ${step.receipt?.contractAddress || '-'} |`
+    );
+  });
+
+  return sections.join('\n');
+}
+
+/**
+ * Format the plan list for display
+ */
+export function formatJournalPlanList(plans: JournalPlan[]): string {
+  if (plans.length === 0) {
+    return '# 📒 Deployment Journal\n\nNo deployment plans recorded yet. Use prepare-dao-deployment to create one.';
+  }
+
+  const sections = [
+    '# 📒 Deployment Journal',
+    '',
+    '| Plan ID | DAO | Network | Status | Progress | Created |',
+    '|---------|-----|---------|--------|----------|---------|'
+  ];
+
+  plans.forEach(plan => {
+    const confirmed = plan.steps.filter(step => step.status === 'confirmed').length;
+    sections.push(
+      `| ${plan.id} | ${plan.daoName} | ${plan.networkName} | ${plan.status} | ${confirmed}/${plan.steps.length} | ${plan.createdAt.split('T')[0]} |`
+    );
+  });
+
+  sections.push('', `**Total Plans:** ${plans.length}`);
+
+  return sections.join('\n');
+}
@@ -0,0 +1,456 @@
+import { z } from 'zod';
+import crypto from 'crypto';
+import { Address, Hex, TransactionSerializable, formatEther } from 'viem';
+import { BUILT_IN_MAINNET_CHAIN_IDS, getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { getConfigFile, getEphemeralSigningMainnets } from '../utils/config.js';
+import { isCustomNetwork } from '../utils/custom-networks.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { getPendingNonce } from '../utils/transactions.js';
+import { getJournalPlan } from '../utils/deployment-journal.js';
+import { getPreparedTransaction, getPreparedTransactionId, registerPreparedTransaction } from '../utils/signed-transactions.js';
+import {
+  getWalletBalance,
+  hasKeystorePassphrase,
+  listEphemeralWallets,
+  signWithEphemeralWallet,
+  KEYSTORE_PASSPHRASE_ENV
+} from '../utils/ephemeral-wallet.js';
+import { isWalletExpired } from '../utils/wallet-reaper.js';
+import { broadcastSignedTransaction } from './broadcast-transaction.js';
+import { advanceDAODeployment } from './deployment-journal.js';
+import { NetworkConfig, PreparedTransaction, TransactionError } from '../types/index.js';
+
+// Confirmation tokens are single use and expire quickly
+const CONFIRMATION_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+const PreparedTransactionInputSchema = z.object({
+  transactionType: z.enum(['contract_deployment', 'contract_call']),
+  unsignedTransaction: z.object({
+    to: z.string().nullable(),
+    value: z.string(),
+    data: z.string().startsWith('0x'),
+    gas: z.string().optional(),
+    gasPrice: z.string().optional(),
+    maxFeePerGas: z.string().optional(),
+    maxPriorityFeePerGas: z.string().optional(),
+    nonce: z.number().optional(),
+    chainId: z.number().optional()
+  }),
+  metadata: z.object({
+    networkName: z.string(),
+    networkChainId: z.number(),
+    description: z.string(),
+    fromAddress: z.string().optional()
+  }).passthrough()
+});
+
+// Input validation schema for the sign-and-broadcast-with-ephemeral-wallet tool
+export const SignWithEphemeralWalletInputSchema = z.object({
+  walletAddress: z.string().refine(
+    (addr) => addr.startsWith('0x') && addr.length === 42,
+    { message: "Invalid wallet address format" }
+  ),
+  networkName: z.string().min(1, "Network name is required"),
+  preparedTransactionId: z.string().startsWith('0x').optional(),
+  preparedTransaction: PreparedTransactionInputSchema.optional(),
+  planId: z.string().optional(),
+  confirmationToken: z.string().optional(),
+  confirmations: z.number().min(1).max(20).default(1)
+}).refine(
+  params => [params.preparedTransactionId, params.preparedTransaction, params.planId].filter(Boolean).length === 1,
+  { message: 'Provide exactly one of preparedTransactionId, preparedTransaction or planId' }
+);
+
+export interface EphemeralSigningPreviewItem {
+  label: string;
+  to: string;
+  value: string;
+  gas?: string;
+  maxCostEth?: string;
+}
+
+export interface EphemeralSignedTransaction {
+  label: string;
+  transactionHash: string;
+  status: 'success' | 'failed' | 'pending';
+  blockNumber?: string;
+  contractAddress?: string;
+  explorerUrl?: string;
+}
+
+export interface EphemeralSigningResult {
+  status: 'confirmation_required' | 'completed' | 'failed';
+  walletAddress: string;
+  networkName: string;
+  planId?: string;
+  preview: EphemeralSigningPreviewItem[];
+  walletBalance?: string;
+  confirmationToken?: string;
+  confirmationExpiresAt?: string;
+  transactions: EphemeralSignedTransaction[];
+  warnings: string[];
+  message: string;
+}
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Issued confirmation tokens, keyed by token
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+/**
+ * What a confirmation token authorizes: one wallet, one network, one transaction or the exact
+ * remaining steps of a plan
+ */
+function getRequestFingerprint(walletAddress: string, networkName: string, target: string): string {
+  return crypto.createHash('sha256')
+    .update(JSON.stringify([walletAddress.toLowerCase(), networkName.toLowerCase(), target]))
+    .digest('hex');
+}
+
+function issueConfirmationToken(fingerprint: string): { token: string; expiresAt: Date } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+
+  const token = crypto.randomBytes(16).toString('hex');
+  const expiresAt = now + CONFIRMATION_TOKEN_TTL_MS;
+  pendingConfirmations.set(token, { fingerprint, expiresAt });
+  return { token, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Spend a confirmation token. It is removed even when it does not match, so a token
+ * cannot be probed against different requests.
+ */
+function consumeConfirmationToken(token: string, fingerprint: string): void {
+  const pending = pendingConfirmations.get(token);
+  pendingConfirmations.delete(token);
+
+  if (!pending || pending.expiresAt <= Date.now()) {
+    throw new TransactionError('Confirmation token is unknown or expired. Call again without confirmationToken to get a new one.');
+  }
+  if (pending.fingerprint !== fingerprint) {
+    throw new TransactionError('Confirmation token was issued for a different wallet, network or transaction. Call again without confirmationToken to get a new one.');
+  }
+}
+
+/**
+ * Refuse mainnets unless config.json lists them under ephemeralSigning.allowedMainnets.
+ * The testnet flag is only trusted for networks the server defines itself: a built-in mainnet's
+ * chain ID is a mainnet under any name, and user-defined networks count as mainnets.
+ */
+async function assertSigningAllowed(networkName: string, networkConfig: NetworkConfig): Promise<void> {
+  const mainnetChain = BUILT_IN_MAINNET_CHAIN_IDS.has(networkConfig.chainId);
+  const custom = isCustomNetwork(networkName);
+  if (networkConfig.testnet && !mainnetChain && !custom) {
+    return;
+  }
+
+  const allowed = await getEphemeralSigningMainnets();
+  if (!allowed.includes(networkName.toLowerCase())) {
+    const reason = !networkConfig.testnet
+      ? `${networkConfig.name} is a mainnet`
+      : mainnetChain
+        ? `${networkConfig.name} is marked as a testnet but runs on chain ${networkConfig.chainId}, a mainnet`
+        : `${networkConfig.name} is a custom network, which is treated as a mainnet`;
+    throw new TransactionError(
+      `${reason}. Ephemeral wallets only sign on testnets unless "${networkName}" is listed in ephemeralSigning.allowedMainnets in ${getConfigFile()}.`
+    );
+  }
+}
+
+/**
+ * Check that a transaction is meant for this network and this wallet
+ */
+function assertSignable(preparedTx: PreparedTransaction, label: string, walletAddress: string, networkConfig: NetworkConfig): void {
+  const chainId = preparedTx.unsignedTransaction.chainId ?? preparedTx.metadata.networkChainId;
+  if (chainId !== networkConfig.chainId) {
+    throw new TransactionError(`${label} is for chain ${chainId}, but ${networkConfig.name} is chain ${networkConfig.chainId}`);
+  }
+
+  const { fromAddress } = preparedTx.metadata;
+  if (fromAddress && fromAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+    throw new TransactionError(`${label} was prepared for ${fromAddress}, not for ephemeral wallet ${walletAddress}`);
+  }
+}
+
+function toPreviewItem(preparedTx: PreparedTransaction, label: string): EphemeralSigningPreviewItem {
+  const { to, value, gas, maxFeePerGas, gasPrice } = preparedTx.unsignedTransaction;
+  const feeCap = maxFeePerGas ?? gasPrice;
+  return {
+    label,
+    to: to ?? 'contract creation',
+    value: formatEther(BigInt(value || 0)),
+    gas,
+    maxCostEth: gas && feeCap ? formatEther(BigInt(gas) * BigInt(feeCap) + BigInt(value || 0)) : undefined
+  };
+}
+
+/**
+ * Turn a prepared transaction into a signable one, filling in what was left to the signer
+ */
+async function buildTransaction(
+  preparedTx: PreparedTransaction,
+  walletAddress: Address,
+  networkConfig: NetworkConfig
+): Promise<TransactionSerializable> {
+  const tx = preparedTx.unsignedTransaction;
+  const publicClient = await createNetworkClient(networkConfig);
+
+  const base = {
+    chainId: tx.chainId ?? preparedTx.metadata.networkChainId,
+    nonce: tx.nonce ?? await getPendingNonce(networkConfig, walletAddress),
+    to: (tx.to ?? undefined) as Address | undefined,
+    value: BigInt(tx.value || 0),
+    data: tx.data as Hex
+  };
+  const gas = tx.gas
+    ? BigInt(tx.gas)
+    : await publicClient.estimateGas({ account: walletAddress, to: base.to, value: base.value, data: base.data });
+
+  if (tx.maxFeePerGas) {
+    return {
+      ...base,
+      type: 'eip1559',
+      gas,
+      maxFeePerGas: BigInt(tx.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas ?? 0)
+    };
+  }
+
+  return {
+    ...base,
+    type: 'legacy',
+    gas,
+    gasPrice: tx.gasPrice ? BigInt(tx.gasPrice) : await publicClient.getGasPrice()
+  };
+}
+
+/**
+ * Sign a prepared transaction and broadcast it through the same checks as broadcast-transaction
+ */
+async function signAndBroadcast(
+  params: z.infer<typeof SignWithEphemeralWalletInputSchema>,
+  preparedTx: PreparedTransaction,
+  networkConfig: NetworkConfig,
+  waitForConfirmation: boolean
+) {
+  const registered = registerPreparedTransaction(preparedTx);
+  const transaction = await buildTransaction(registered, params.walletAddress as Address, networkConfig);
+  const signedTransaction = await signWithEphemeralWallet(params.walletAddress, params.networkName, transaction);
+
+  return broadcastSignedTransaction({
+    signedTransaction,
+    networkName: params.networkName,
+    preparedTransactionId: registered.metadata.preparedTransactionId,
+    allowUnprepared: false,
+    waitForConfirmation,
+    confirmations: params.confirmations
+  });
+}
+
+/**
+ * Sign and broadcast a prepared transaction or every remaining step of a DAO deployment plan
+ * with an ephemeral wallet. The first call returns a preview and a confirmation token; only a
+ * second call carrying that token signs anything.
+ */
+export async function signAndBroadcastWithEphemeralWallet(
+  input: z.infer<typeof SignWithEphemeralWalletInputSchema>
+): Promise<EphemeralSigningResult> {
+  try {
+    const params = SignWithEphemeralWalletInputSchema.parse(input);
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    await assertSigningAllowed(params.networkName, networkConfig);
+
+    const wallet = (await listEphemeralWallets()).find(w =>
+      w.address.toLowerCase() === params.walletAddress.toLowerCase() &&
+      (w.policy?.allowedNetwork ?? w.networkName) === params.networkName
+    );
+    if (!wallet) {
+      throw new TransactionError(`No ephemeral wallet found for address ${params.walletAddress} on ${params.networkName}`);
+    }
+    if (isWalletExpired(wallet)) {
+      throw new TransactionError(`Ephemeral wallet ${wallet.address} expired at ${wallet.policy?.expiresAt}. Run reap-ephemeral-wallets to sweep it.`);
+    }
+    if (wallet.encrypted && !hasKeystorePassphrase()) {
+      throw new TransactionError(`Ephemeral wallet keystores are locked. Set ${KEYSTORE_PASSPHRASE_ENV} or call unlock-ephemeral-wallets first.`);
+    }
+
+    // Resolve what is being signed
+    let target: string;
+    let steps: { label: string; preparedTransaction: PreparedTransaction }[];
+    if (params.planId) {
+      const plan = await getJournalPlan(params.planId);
+      if (!plan) {
+        throw new TransactionError(`Deployment plan not found: ${params.planId}. Use list-dao-deployments to see recorded plans.`);
+      }
+      if (plan.networkName !== params.networkName) {
+        throw new TransactionError(`Plan ${plan.id} deploys to ${plan.networkName}, not ${params.networkName}`);
+      }
+      if (plan.status === 'failed') {
+        throw new TransactionError(`Plan ${plan.id} failed on chain. Prepare a new plan to retry.`);
+      }
+      steps = plan.steps
+        .filter(step => step.status === 'prepared')
+        .map(step => ({ label: `Step ${step.index + 1}: ${step.label}`, preparedTransaction: step.preparedTransaction }));
+      target = `plan:${plan.id}:${steps.map(step => getPreparedTransactionId(step.preparedTransaction)).join(',')}`;
+    } else {
+      const preparedTx = params.preparedTransaction
+        ? params.preparedTransaction as PreparedTransaction
+        : getPreparedTransaction(params.preparedTransactionId!);
+      if (!preparedTx) {
+        throw new TransactionError(`Prepared transaction not found: ${params.preparedTransactionId}. Prepared transactions are only kept while the server runs; prepare the transaction again.`);
+      }
+      target = getPreparedTransactionId(preparedTx);
+      steps = [{ label: preparedTx.metadata.description, preparedTransaction: preparedTx }];
+    }
+
+    steps.forEach(step => assertSignable(step.preparedTransaction, step.label, wallet.address, networkConfig));
+
+    const result: EphemeralSigningResult = {
+      status: 'confirmation_required',
+      walletAddress: wallet.address,
+      networkName: params.networkName,
+      planId: params.planId,
+      preview: steps.map(step => toPreviewItem(step.preparedTransaction, step.label)),
+      transactions: [],
+      warnings: [],
+      message: ''
+    };
+
+    const fingerprint = getRequestFingerprint(wallet.address, params.networkName, target);
+    if (!params.confirmationToken) {
+      const balance = await getWalletBalance(wallet.address, params.networkName);
+      const maxCost = result.preview.reduce((total, item) => total + (item.maxCostEth ? Number(item.maxCostEth) : 0), 0);
+      if (maxCost > Number(balance.balance)) {
+        result.warnings.push(`The wallet holds ${balance.balance} ETH but the transactions may cost up to ${maxCost} ETH. Fund it before confirming.`);
+      }
+
+      const { token, expiresAt } = issueConfirmationToken(fingerprint);
+      return {
+        ...result,
+        walletBalance: balance.balance,
+        confirmationToken: token,
+        confirmationExpiresAt: expiresAt.toISOString(),
+        message: `Review the ${steps.length} transaction(s) below, then call again with this confirmationToken to sign and broadcast them`
+      };
+    }
+
+    consumeConfirmationToken(params.confirmationToken, fingerprint);
+
+    if (!params.planId) {
+      const broadcast = await signAndBroadcast(params, steps[0].preparedTransaction, networkConfig, true);
+      const succeeded = broadcast.confirmation?.status !== 'failed';
+      return {
+        ...result,
+        status: succeeded ? 'completed' : 'failed',
+        transactions: [{
+          label: steps[0].label,
+          transactionHash: broadcast.transactionHash,
+          status: broadcast.confirmation?.status ?? 'pending',
+          blockNumber: broadcast.confirmation?.blockNumber,
+          contractAddress: broadcast.confirmation?.contractAddress,
+          explorerUrl: broadcast.explorerUrl
+        }],
+        message: succeeded ? broadcast.message : 'Transaction reverted on chain'
+      };
+    }
+
+    // Walk the plan through the journal so every step is recorded and dependent addresses are filled in
+    let advanced = await advanceDAODeployment({ planId: params.planId, confirmations: params.confirmations });
+    while (advanced.nextStep?.status === 'prepared' && advanced.plan.status !== 'failed') {
+      const step = advanced.nextStep;
+      const label = `Step ${step.index + 1}: ${step.label}`;
+      assertSignable(step.preparedTransaction, label, wallet.address, networkConfig);
+
+      const broadcast = await signAndBroadcast(params, step.preparedTransaction, networkConfig, false);
+      advanced = await advanceDAODeployment({ planId: params.planId, transactionHash: broadcast.transactionHash, confirmations: params.confirmations });
+
+      const recorded = advanced.plan.steps[step.index];
+      result.transactions.push({
+        label,
+        transactionHash: broadcast.transactionHash,
+        status: recorded.receipt?.status ?? 'pending',
+        blockNumber: recorded.receipt?.blockNumber,
+        contractAddress: recorded.receipt?.contractAddress,
+        explorerUrl: broadcast.explorerUrl
+      });
+    }
+
+    return {
+      ...result,
+      status: advanced.plan.status === 'completed' ? 'completed' : 'failed',
+      message: advanced.message
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to sign with ephemeral wallet: ${error.message}`);
+  }
+}
+
+/**
+ * Format an ephemeral signing result for display
+ */
+export function formatEphemeralSigningResult(result: EphemeralSigningResult): string {
+  const titles = {
+    confirmation_required: '# ✋ Confirm Ephemeral Wallet Signing',
+    completed: '# ✅ Signed and Broadcast with Ephemeral Wallet',
+    failed: '# ❌ Ephemeral Wallet Signing Failed'
+  };
+
+  const sections = [
+    titles[result.status],
+    '',
+    `**Wallet:** \`${result.walletAddress}\``,
+    `**Network:** ${result.networkName}`,
+    ...(result.planId ? [`**Plan ID:** ${result.planId}`] : []),
+    ...(result.walletBalance !== undefined ? [`**Wallet Balance:** ${result.walletBalance} ETH`] : []),
+    `**Message:** ${result.message}`,
+    ''
+  ];
+
+  if (result.status === 'confirmation_required') {
+    sections.push(
+      '## 📝 Transactions to Sign',
+      '',
+      '| Transaction | To | Value | Gas | Max Cost |',
+      '|-------------|----|-------|-----|----------|',
+      ...result.preview.map(item => `| ${item.label} | ${item.to} | ${item.value} ETH | ${item.gas ?? 'estimated'} | ${item.maxCostEth ? `${item.maxCostEth} ETH` : '-'} |`),
+      '',
+      '## 🔑 Confirmation',
+      '',
+      `**Confirmation Token:** \`${result.confirmationToken}\``,
+      `**Expires:** ${result.confirmationExpiresAt}`,
+      '',
+      'The token is single use and only valid for this wallet, network and transaction set.',
+      ''
+    );
+  }
+
+  if (result.transactions.length > 0) {
+    sections.push(
+      '## 📡 Broadcast Transactions',
+      '',
+      ...result.transactions.flatMap(tx => [
+        `### ${tx.status === 'success' ? '✅' : tx.status === 'failed' ? '❌' : '⏳'} ${tx.label}`,
+        `- **Transaction Hash:** \`${tx.transactionHash}\``,
+        ...(tx.blockNumber ? [`- **Block:** ${tx.blockNumber}`] : []),
+        ...(tx.contractAddress ? [`- **Contract Address:** \`${tx.contractAddress}\``] : []),
+        ...(tx.explorerUrl ? [`- **Explorer:** ${tx.explorerUrl}`] : []),
+        ''
+      ])
+    );
+  }
+
+  if (result.warnings.length > 0) {
+    sections.push('## ⚠️ Warnings', '', ...result.warnings.map(warning => `- ${warning}`), '');
+  }
+
+  return sections.join('\n');
+}
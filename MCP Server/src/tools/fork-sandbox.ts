@@ -0,0 +1,406 @@
+import { z } from 'zod';
+import { Address, Hex, encodeDeployData } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { ContractName, loadContractABI } from '../utils/contracts.js';
+import { prepareContractDeployment } from '../utils/transactions.js';
+import { getPreparedTransaction } from '../utils/signed-transactions.js';
+import {
+  SandboxInfo,
+  advanceSandboxTime,
+  listSandboxes,
+  sendSandboxTransaction,
+  startSandbox,
+  stopSandbox
+} from '../utils/sandbox.js';
+import { decodeDAODeployedEvent, prepareFactoryDAODeployment } from './deploy-dao-via-factory.js';
+import { prepareDelegation } from './delegation.js';
+import { ProposalActions, getProposal, prepareProposal, prepareProposalOperation, prepareVote } from './governance-proposals.js';
+import { FactoryDAOConfigSchema, NetworkError, PreparedTransaction, TransactionError } from '../types/index.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+const sandboxOptionsSchema = {
+  networkName: z.string().optional(),
+  blockNumber: z.string().regex(/^\d+$/, "Block number must be a decimal number").optional(),
+  deployer: addressSchema.optional(),
+  fundEth: z.string().regex(/^\d+(\.\d+)?$/, "Amount must be in ETH").default('1000')
+};
+
+// Input validation schema for the start-fork-sandbox tool
+export const StartForkSandboxInputSchema = z.object(sandboxOptionsSchema);
+
+// Input validation schema for the stop-fork-sandbox tool
+export const StopForkSandboxInputSchema = z.object({
+  sandboxId: z.string().min(1, "Sandbox ID is required")
+});
+
+// Input validation schema for the advance-sandbox-time tool
+export const AdvanceSandboxTimeInputSchema = z.object({
+  sandboxId: z.string().min(1, "Sandbox ID is required"),
+  seconds: z.number().int().min(0).default(0),
+  blocks: z.number().int().min(1).max(10000).default(1)
+});
+
+// Input validation schema for the send-sandbox-transaction tool
+export const SendSandboxTransactionInputSchema = z.object({
+  sandboxId: z.string().min(1, "Sandbox ID is required"),
+  preparedTransactionId: z.string().startsWith('0x').optional(),
+  unsignedTransaction: z.object({
+    to: addressSchema.nullable().optional(),
+    value: z.string().default('0'),
+    data: z.string().startsWith('0x'),
+    gas: z.string().optional()
+  }).optional(),
+  from: addressSchema.optional()
+}).refine(params => params.preparedTransactionId || params.unsignedTransaction, {
+  message: 'Provide a preparedTransactionId or an unsignedTransaction'
+});
+
+// Input validation schema for the rehearse-dao-deployment tool
+export const RehearseDAODeploymentInputSchema = z.object({
+  ...sandboxOptionsSchema,
+  sandboxId: z.string().optional(),
+  factoryAddress: addressSchema.optional(),
+  daoConfig: FactoryDAOConfigSchema,
+  teardown: z.boolean().default(true)
+});
+
+// Implementations SimpleDAOFactoryV2 clones, in constructor argument order
+const IMPLEMENTATION_CONTRACTS: ContractName[] = [
+  'SimpleDAOTokenUpgradeable',
+  'SimpleDAOGovernorUpgradeable',
+  'SimpleDAOTimelockUpgradeable'
+];
+
+export interface SandboxTransactionResult {
+  sandboxId: string;
+  transactionHash: string;
+  status: 'success' | 'reverted';
+  gasUsed: string;
+  gasLimit?: string;
+  contractAddress?: string;
+  logCount: number;
+}
+
+export interface RehearsalStep {
+  label: string;
+  kind: 'transaction' | 'time';
+  status: 'success' | 'reverted' | 'failed';
+  transactionHash?: string;
+  gasUsed?: string;
+  gasLimit?: string;
+  detail?: string;
+}
+
+export interface RehearsalResult {
+  sandbox: SandboxInfo;
+  tornDown: boolean;
+  success: boolean;
+  steps: RehearsalStep[];
+  factoryAddress?: string;
+  dao?: { token: string; governor: string; timelock: string };
+  proposalId?: string;
+  proposalState?: string;
+  error?: string;
+}
+
+/**
+ * Start an Anvil sandbox forking a network (or a plain local chain when offline)
+ */
+export async function startForkSandbox(input: z.infer<typeof StartForkSandboxInputSchema>): Promise<SandboxInfo> {
+  try {
+    const params = StartForkSandboxInputSchema.parse(input);
+    return await startSandbox({
+      networkName: params.networkName,
+      blockNumber: params.blockNumber !== undefined ? BigInt(params.blockNumber) : undefined,
+      deployer: params.deployer as Address | undefined,
+      fundEth: params.fundEth
+    });
+  } catch (error: any) {
+    throw new NetworkError(`Failed to start fork sandbox: ${error.message}`);
+  }
+}
+
+/**
+ * Stop a sandbox and remove its temporary network
+ */
+export async function stopForkSandbox(input: z.infer<typeof StopForkSandboxInputSchema>): Promise<SandboxInfo> {
+  try {
+    const params = StopForkSandboxInputSchema.parse(input);
+    return await stopSandbox(params.sandboxId);
+  } catch (error: any) {
+    throw new NetworkError(`Failed to stop fork sandbox: ${error.message}`);
+  }
+}
+
+/**
+ * Skip ahead in a sandbox, e.g. past a voting delay, voting period or timelock delay
+ */
+export async function advanceForkSandboxTime(input: z.infer<typeof AdvanceSandboxTimeInputSchema>) {
+  try {
+    const params = AdvanceSandboxTimeInputSchema.parse(input);
+    const block = await advanceSandboxTime(params.sandboxId, { seconds: params.seconds, blocks: params.blocks });
+    return { sandboxId: params.sandboxId, secondsSkipped: params.seconds, blocksMined: params.blocks, ...block };
+  } catch (error: any) {
+    throw new NetworkError(`Failed to advance sandbox time: ${error.message}`);
+  }
+}
+
+/**
+ * Execute a prepared transaction in a sandbox as an impersonated account, without signing
+ */
+export async function sendForkSandboxTransaction(input: z.infer<typeof SendSandboxTransactionInputSchema>): Promise<SandboxTransactionResult> {
+  try {
+    const params = SendSandboxTransactionInputSchema.parse(input);
+
+    let unsignedTransaction: PreparedTransaction['unsignedTransaction'];
+    let from = params.from;
+    if (params.preparedTransactionId) {
+      const preparedTx = getPreparedTransaction(params.preparedTransactionId);
+      if (!preparedTx) {
+        throw new TransactionError(`Prepared transaction not found: ${params.preparedTransactionId}`);
+      }
+      unsignedTransaction = preparedTx.unsignedTransaction;
+      from = from ?? preparedTx.metadata.fromAddress;
+    } else {
+      unsignedTransaction = { ...params.unsignedTransaction!, to: params.unsignedTransaction!.to ?? null };
+    }
+
+    const receipt = await sendSandboxTransaction(params.sandboxId, unsignedTransaction, from as Address | undefined);
+    return {
+      sandboxId: params.sandboxId,
+      transactionHash: receipt.transactionHash,
+      status: receipt.status,
+      gasUsed: receipt.gasUsed.toString(),
+      gasLimit: unsignedTransaction.gas,
+      contractAddress: receipt.contractAddress,
+      logCount: receipt.logs.length
+    };
+  } catch (error: any) {
+    throw new TransactionError(`Failed to send sandbox transaction: ${error.message}`);
+  }
+}
+
+/**
+ * Rehearse a full deployment in a sandbox: implementations and factory (unless one is given),
+ * deployDAO, self-delegation, then a no-op proposal through propose, vote, queue and execute.
+ * Every transaction is built by the same prepare tools used for the real deployment.
+ */
+export async function rehearseDAODeployment(input: z.infer<typeof RehearseDAODeploymentInputSchema>): Promise<RehearsalResult> {
+  const params = RehearseDAODeploymentInputSchema.parse(input);
+
+  let sandbox: SandboxInfo;
+  try {
+    const existing = params.sandboxId ? listSandboxes().find(info => info.id === params.sandboxId) : undefined;
+    if (params.sandboxId && !existing) {
+      throw new NetworkError(`Sandbox not found: ${params.sandboxId}`);
+    }
+    sandbox = existing ?? await startSandbox({
+      networkName: params.networkName,
+      blockNumber: params.blockNumber !== undefined ? BigInt(params.blockNumber) : undefined,
+      deployer: params.deployer as Address | undefined,
+      fundEth: params.fundEth
+    });
+  } catch (error: any) {
+    throw new NetworkError(`Failed to start rehearsal sandbox: ${error.message}`);
+  }
+
+  const { networkName } = sandbox;
+  const deployer = sandbox.deployer as Address;
+  const result: RehearsalResult = { sandbox, tornDown: false, success: false, steps: [] };
+  const txOptions = { gasEstimateMultiplier: 1.2, feeStrategy: 'standard' as const };
+
+  // Prepare with the real tool, then execute as the impersonated deployer
+  const run = async (label: string, prepare: () => Promise<PreparedTransaction>) => {
+    let preparedTx: PreparedTransaction;
+    try {
+      preparedTx = await prepare();
+    } catch (error: any) {
+      result.steps.push({ label, kind: 'transaction', status: 'failed', detail: error.message });
+      throw error;
+    }
+
+    const receipt = await sendSandboxTransaction(sandbox.id, preparedTx.unsignedTransaction, deployer);
+    result.steps.push({
+      label,
+      kind: 'transaction',
+      status: receipt.status,
+      transactionHash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed.toString(),
+      gasLimit: preparedTx.unsignedTransaction.gas
+    });
+    if (receipt.status !== 'success') {
+      throw new TransactionError(`${label} reverted`);
+    }
+    return receipt;
+  };
+
+  const skip = async (label: string, seconds: number) => {
+    const block = await advanceSandboxTime(sandbox.id, { seconds });
+    result.steps.push({ label, kind: 'time', status: 'success', detail: `+${seconds}s, now block ${block.blockNumber} at ${block.timestamp}` });
+  };
+
+  try {
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(networkName));
+    const factoryABI = await loadContractABI('SimpleDAOFactoryV2');
+
+    let factoryAddress = params.factoryAddress;
+    if (!factoryAddress) {
+      const implementations: Address[] = [];
+      for (const contractName of IMPLEMENTATION_CONTRACTS) {
+        const contract = await loadContractABI(contractName);
+        const receipt = await run(`Deploy ${contractName} implementation`, () => prepareContractDeployment({
+          networkConfig,
+          contractBytecode: contract.bytecode as Hex,
+          fromAddress: deployer,
+          contractName
+        }));
+        implementations.push(receipt.contractAddress!);
+      }
+
+      const receipt = await run('Deploy SimpleDAOFactoryV2', () => prepareContractDeployment({
+        networkConfig,
+        contractBytecode: encodeDeployData({ abi: factoryABI.abi, bytecode: factoryABI.bytecode as Hex, args: implementations }),
+        constructorArgs: implementations,
+        fromAddress: deployer,
+        contractName: 'SimpleDAOFactoryV2'
+      }));
+      factoryAddress = receipt.contractAddress!;
+    }
+    result.factoryAddress = factoryAddress;
+
+    const deployment = await run('Deploy DAO through factory', () => prepareFactoryDAODeployment({
+      networkName,
+      factoryAddress: factoryAddress!,
+      daoConfig: params.daoConfig,
+      recipient: deployer,
+      fromAddress: deployer,
+      ...txOptions
+    }));
+    const dao = decodeDAODeployedEvent(deployment.logs, factoryABI.abi, factoryAddress);
+    if (!dao) {
+      throw new TransactionError('deployDAO succeeded but emitted no DAODeployed event');
+    }
+    result.dao = { token: dao.token, governor: dao.governor, timelock: dao.timelock };
+
+    await run('Self-delegate voting power', async () => {
+      const delegation = await prepareDelegation({ ...txOptions, networkName, tokenAddress: dao.token, fromAddress: deployer, gasless: false, expirySeconds: 3600 });
+      if (delegation.kind !== 'transaction') {
+        throw new TransactionError('Expected a delegation transaction');
+      }
+      return delegation.preparedTransaction;
+    });
+    // Votes are read at the proposal snapshot, which must come after the delegation checkpoint
+    await skip('Checkpoint delegation', 1);
+
+    // A no-op call to the timelock exercises the whole pipeline without changing anything
+    const proposal: ProposalActions = {
+      targets: [dao.timelock],
+      values: ['0'],
+      calldatas: ['0x'],
+      description: `Sandbox rehearsal of ${params.daoConfig.tokenName} (${new Date().toISOString()})`
+    };
+    const governorCall = { ...txOptions, networkName, governorAddress: dao.governor, fromAddress: deployer };
+
+    await run('Propose', async () => {
+      const proposed = await prepareProposal({ ...governorCall, proposal });
+      result.proposalId = proposed.proposalId;
+      return proposed.preparedTransaction;
+    });
+    await skip('Skip voting delay', Number(params.daoConfig.votingDelay) + 1);
+    await run('Vote FOR', () => prepareVote({ ...governorCall, proposalId: result.proposalId!, support: 'for' }));
+    await skip('Skip voting period', Number(params.daoConfig.votingPeriod) + 1);
+    await run('Queue', async () => (await prepareProposalOperation('queue', { ...governorCall, proposal, value: '0' })).preparedTransaction);
+    await skip('Skip timelock delay', Number(params.daoConfig.timelockDelay) + 1);
+    await run('Execute', async () => (await prepareProposalOperation('execute', { ...governorCall, proposal, value: '0' })).preparedTransaction);
+
+    const status = await getProposal({ networkName, governorAddress: dao.governor, proposalId: result.proposalId! });
+    result.proposalState = status.stateName;
+    result.success = status.stateName === 'Executed';
+    if (!result.success) {
+      result.error = `Proposal ended in state ${status.stateName}, expected Executed`;
+    }
+
+  } catch (error: any) {
+    result.error = error.message;
+
+  } finally {
+    if (params.teardown) {
+      await stopSandbox(sandbox.id).catch(() => undefined);
+      result.tornDown = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format sandbox details for display
+ */
+export function formatSandboxInfo(info: SandboxInfo, heading = '# 🏖️ Fork Sandbox Started'): string {
+  return [
+    heading,
+    '',
+    `**Sandbox ID:** ${info.id}`,
+    `**Network Name:** \`${info.networkName}\` (use it as networkName in any tool)`,
+    `**RPC URL:** ${info.rpcUrl}`,
+    `**Chain ID:** ${info.chainId}`,
+    info.forkedFrom
+      ? `**Forked From:** ${info.forkedFrom} at block ${info.forkBlockNumber} via ${info.forkUrl}`
+      : `**Mode:** Offline local chain${info.offlineReason ? ` (could not fork: ${info.offlineReason})` : ''}`,
+    `**Deployer:** ${info.deployer} (impersonated, funded with ${info.fundedEth} ETH)`,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Format a rehearsal report for display
+ */
+export function formatRehearsalResult(result: RehearsalResult): string {
+  const icon = (status: RehearsalStep['status']) => ({ success: '✅', reverted: '❌', failed: '❌' }[status]);
+  const sections = [
+    `# 🎭 DAO Deployment Rehearsal ${result.success ? '✅ Passed' : '❌ Failed'}`,
+    '',
+    `**Sandbox:** ${result.sandbox.forkedFrom ? `fork of ${result.sandbox.forkedFrom} at block ${result.sandbox.forkBlockNumber}` : 'offline local chain'}${result.tornDown ? ' (torn down)' : ` - still running as \`${result.sandbox.networkName}\``}`,
+    `**Deployer:** ${result.sandbox.deployer}`,
+    ''
+  ];
+
+  if (result.sandbox.offlineReason) {
+    sections.push(`⚠️ Could not fork ${result.sandbox.forkedFrom ?? 'the network'}: ${result.sandbox.offlineReason}. The rehearsal ran on a plain local chain.`, '');
+  }
+
+  sections.push(
+    '## 📋 Steps',
+    '',
+    '| # | Step | Result | Gas Used / Limit | Detail |',
+    '|---|------|--------|------------------|--------|',
+    ...result.steps.map((step, index) => {
+      const gas = step.gasUsed ? `${step.gasUsed}${step.gasLimit ? ` / ${step.gasLimit}` : ''}` : '-';
+      const detail = step.transactionHash ?? step.detail ?? '';
+      return `| ${index + 1} | ${step.label} | ${icon(step.status)} ${step.status} | ${gas} | ${detail} |`;
+    }),
+    ''
+  );
+
+  if (result.dao) {
+    sections.push(
+      '## 📍 Contracts',
+      '',
+      `- **Factory:** \`${result.factoryAddress}\``,
+      `- **Token:** \`${result.dao.token}\``,
+      `- **Governor:** \`${result.dao.governor}\``,
+      `- **Timelock:** \`${result.dao.timelock}\``,
+      ...(result.proposalId ? [`- **Rehearsal Proposal:** ${result.proposalId} (${result.proposalState ?? 'unfinished'})`] : []),
+      ''
+    );
+  }
+
+  if (result.error) {
+    sections.push('## ❌ Error', '', result.error, '');
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,433 @@
+import { z } from 'zod';
+import { encodeAbiParameters, keccak256, toBytes, Address, Hex } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadContractABI } from '../utils/contracts.js';
+import { prepareContractCall } from '../utils/transactions.js';
+import { formatEstimatedCost } from '../utils/fees.js';
+import { FeeStrategySchema, PreparedTransaction, TransactionError } from '../types/index.js';
+import { createNetworkClient } from '../utils/rpc.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+const proposalIdSchema = z.string().regex(/^\d+$/, "Proposal ID must be a decimal number");
+
+// Proposal actions, executed by the timelock in order
+const ProposalActionsSchema = z.object({
+  targets: z.array(addressSchema).min(1, "At least one target is required"),
+  values: z.array(z.string().regex(/^\d+$/, "Values must be wei amounts")),
+  calldatas: z.array(z.string().startsWith('0x', 'Calldata must be a hex string')),
+  description: z.string().min(1, "Description is required")
+}).refine(
+  (actions) => actions.targets.length === actions.values.length && actions.targets.length === actions.calldatas.length,
+  { message: "targets, values and calldatas must have the same length" }
+);
+
+const GovernorCallSchema = z.object({
+  networkName: z.string(),
+  governorAddress: addressSchema,
+  gasEstimateMultiplier: z.number().min(1).max(3).default(1.2),
+  feeStrategy: FeeStrategySchema,
+  fromAddress: addressSchema.optional()
+});
+
+// Input validation schema for the prepare-proposal tool
+export const PrepareProposalInputSchema = GovernorCallSchema.extend({
+  proposal: ProposalActionsSchema
+});
+
+// Input validation schema for the prepare-vote tool
+export const PrepareVoteInputSchema = GovernorCallSchema.extend({
+  proposalId: proposalIdSchema,
+  support: z.enum(['against', 'for', 'abstain']),
+  reason: z.string().optional()
+});
+
+// Input validation schema for the prepare-queue, prepare-execute and prepare-cancel tools
+export const PrepareProposalOperationInputSchema = GovernorCallSchema.extend({
+  proposal: ProposalActionsSchema,
+  value: z.string().regex(/^\d+$/, "Value must be a wei amount").default('0')
+});
+
+// Input validation schema for the get-proposal tool
+export const GetProposalInputSchema = z.object({
+  networkName: z.string(),
+  governorAddress: addressSchema,
+  proposalId: proposalIdSchema
+});
+
+export type ProposalActions = z.infer<typeof ProposalActionsSchema>;
+export type ProposalOperation = 'queue' | 'execute' | 'cancel';
+
+// GovernorCountingSimple vote types
+export const VOTE_SUPPORT = {
+  against: 0,
+  for: 1,
+  abstain: 2
+} as const;
+
+// IGovernor.ProposalState enum order
+export const PROPOSAL_STATES = [
+  'Pending',
+  'Active',
+  'Canceled',
+  'Defeated',
+  'Succeeded',
+  'Queued',
+  'Expired',
+  'Executed'
+] as const;
+
+/**
+ * A prepared governor transaction together with the identifiers needed to track the proposal
+ */
+export interface ProposalTransactionResult {
+  preparedTransaction: PreparedTransaction;
+  proposalId: string;
+  descriptionHash: string;
+}
+
+/**
+ * Live proposal state read from the governor
+ */
+export interface ProposalStatus {
+  governorAddress: string;
+  networkName: string;
+  proposalId: string;
+  state: number;
+  stateName: string;
+  votes: {
+    against: string;
+    for: string;
+    abstain: string;
+  };
+  snapshot: string;
+  deadline: string;
+  eta: string;
+  proposer?: string;
+  needsQueuing?: boolean;
+  quorum?: string;
+  clockMode?: string;
+  currentClock?: string;
+}
+
+/**
+ * Hash a proposal description the way Governor does: keccak256(bytes(description))
+ */
+export function hashProposalDescription(description: string): Hex {
+  return keccak256(toBytes(description));
+}
+
+/**
+ * Compute a proposal ID the way Governor.hashProposal does:
+ * uint256(keccak256(abi.encode(targets, values, calldatas, descriptionHash)))
+ */
+export function computeProposalId(actions: Omit<ProposalActions, 'description'>, descriptionHash: Hex): bigint {
+  const encoded = encodeAbiParameters(
+    [
+      { type: 'address[]' },
+      { type: 'uint256[]' },
+      { type: 'bytes[]' },
+      { type: 'bytes32' }
+    ],
+    [
+      actions.targets as Address[],
+      actions.values.map(value => BigInt(value)),
+      actions.calldatas as Hex[],
+      descriptionHash
+    ]
+  );
+
+  return BigInt(keccak256(encoded));
+}
+
+/**
+ * Prepare a propose(targets, values, calldatas, description) transaction
+ */
+export async function prepareProposal(input: z.infer<typeof PrepareProposalInputSchema>): Promise<ProposalTransactionResult> {
+  try {
+    const params = PrepareProposalInputSchema.parse(input);
+    const { proposal } = params;
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const governorABI = await loadContractABI('SimpleDAOGovernorUpgradeable');
+
+    const descriptionHash = hashProposalDescription(proposal.description);
+    const proposalId = computeProposalId(proposal, descriptionHash);
+
+    const preparedTx = await prepareContractCall({
+      networkConfig,
+      contractAddress: params.governorAddress as Address,
+      abi: governorABI.abi,
+      functionName: 'propose',
+      args: [
+        proposal.targets,
+        proposal.values.map(value => BigInt(value)),
+        proposal.calldatas,
+        proposal.description
+      ],
+      gasEstimateMultiplier: params.gasEstimateMultiplier,
+      fromAddress: params.fromAddress as Address,
+      feeStrategy: params.feeStrategy
+    });
+
+    preparedTx.metadata.contractName = 'SimpleDAOGovernorUpgradeable';
+    preparedTx.metadata.description = `Create proposal ${proposalId} with ${proposal.targets.length} action(s) on governor ${params.governorAddress}`;
+
+    return {
+      preparedTransaction: preparedTx,
+      proposalId: proposalId.toString(),
+      descriptionHash
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to prepare proposal: ${error.message}`);
+  }
+}
+
+/**
+ * Prepare a castVote or castVoteWithReason transaction
+ */
+export async function prepareVote(input: z.infer<typeof PrepareVoteInputSchema>): Promise<PreparedTransaction> {
+  try {
+    const params = PrepareVoteInputSchema.parse(input);
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const governorABI = await loadContractABI('SimpleDAOGovernorUpgradeable');
+
+    const support = VOTE_SUPPORT[params.support];
+    const functionName = params.reason ? 'castVoteWithReason' : 'castVote';
+    const args = params.reason
+      ? [BigInt(params.proposalId), support, params.reason]
+      : [BigInt(params.proposalId), support];
+
+    const preparedTx = await prepareContractCall({
+      networkConfig,
+      contractAddress: params.governorAddress as Address,
+      abi: governorABI.abi,
+      functionName,
+      args,
+      gasEstimateMultiplier: params.gasEstimateMultiplier,
+      fromAddress: params.fromAddress as Address,
+      feeStrategy: params.feeStrategy
+    });
+
+    preparedTx.metadata.contractName = 'SimpleDAOGovernorUpgradeable';
+    preparedTx.metadata.description = `Vote ${params.support.toUpperCase()} on proposal ${params.proposalId}${params.reason ? ` ("${params.reason}")` : ''}`;
+
+    return preparedTx;
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to prepare vote: ${error.message}`);
+  }
+}
+
+/**
+ * Prepare a queue, execute or cancel transaction. All three take the original
+ * proposal actions and the description hash rather than the proposal ID.
+ */
+export async function prepareProposalOperation(
+  operation: ProposalOperation,
+  input: z.infer<typeof PrepareProposalOperationInputSchema>
+): Promise<ProposalTransactionResult> {
+  try {
+    const params = PrepareProposalOperationInputSchema.parse(input);
+    const { proposal } = params;
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const governorABI = await loadContractABI('SimpleDAOGovernorUpgradeable');
+
+    const descriptionHash = hashProposalDescription(proposal.description);
+    const proposalId = computeProposalId(proposal, descriptionHash);
+
+    const preparedTx = await prepareContractCall({
+      networkConfig,
+      contractAddress: params.governorAddress as Address,
+      abi: governorABI.abi,
+      functionName: operation,
+      args: [
+        proposal.targets,
+        proposal.values.map(value => BigInt(value)),
+        proposal.calldatas,
+        descriptionHash
+      ],
+      value: operation === 'execute' ? BigInt(params.value) : 0n,
+      gasEstimateMultiplier: params.gasEstimateMultiplier,
+      fromAddress: params.fromAddress as Address,
+      feeStrategy: params.feeStrategy
+    });
+
+    const verb = { queue: 'Queue', execute: 'Execute', cancel: 'Cancel' }[operation];
+    preparedTx.metadata.contractName = 'SimpleDAOGovernorUpgradeable';
+    preparedTx.metadata.description = `${verb} proposal ${proposalId} on governor ${params.governorAddress}`;
+
+    return {
+      preparedTransaction: preparedTx,
+      proposalId: proposalId.toString(),
+      descriptionHash
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to prepare ${operation}: ${error.message}`);
+  }
+}
+
+/**
+ * Read state, tallies, snapshot, deadline and timelock ETA for a proposal
+ */
+export async function getProposal(input: z.infer<typeof GetProposalInputSchema>): Promise<ProposalStatus> {
+  try {
+    const params = GetProposalInputSchema.parse(input);
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const governorABI = await loadContractABI('SimpleDAOGovernorUpgradeable');
+    const publicClient = await createNetworkClient(networkConfig);
+
+    const proposalId = BigInt(params.proposalId);
+    const read = (functionName: string, args: any[] = []) => publicClient.readContract({
+      address: params.governorAddress as Address,
+      abi: governorABI.abi,
+      functionName,
+      args
+    }) as Promise<any>;
+
+    // state() reverts with GovernorNonexistentProposal for unknown IDs
+    const state = Number(await read('state', [proposalId]));
+    const [votes, snapshot, deadline, eta, proposer, needsQueuing, clockMode, currentClock] = await Promise.all([
+      read('proposalVotes', [proposalId]),
+      read('proposalSnapshot', [proposalId]),
+      read('proposalDeadline', [proposalId]),
+      read('proposalEta', [proposalId]),
+      read('proposalProposer', [proposalId]).catch(() => undefined),
+      read('proposalNeedsQueuing', [proposalId]).catch(() => undefined),
+      read('CLOCK_MODE').catch(() => undefined),
+      read('clock').catch(() => undefined)
+    ]);
+
+    // Quorum is only defined once the snapshot has passed
+    const quorum = await read('quorum', [snapshot]).catch(() => undefined);
+
+    return {
+      governorAddress: params.governorAddress,
+      networkName: params.networkName,
+      proposalId: params.proposalId,
+      state,
+      stateName: PROPOSAL_STATES[state] ?? 'Unknown',
+      votes: {
+        against: votes[0].toString(),
+        for: votes[1].toString(),
+        abstain: votes[2].toString()
+      },
+      snapshot: snapshot.toString(),
+      deadline: deadline.toString(),
+      eta: eta.toString(),
+      proposer,
+      needsQueuing,
+      quorum: quorum?.toString(),
+      clockMode,
+      currentClock: currentClock?.toString()
+    };
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to read proposal: ${error.message}`);
+  }
+}
+
+/**
+ * Format a clock value, showing a date when the governor counts in timestamps
+ */
+function formatClockValue(value: string, clockMode?: string): string {
+  if (clockMode?.includes('mode=timestamp') && value !== '0') {
+    return `${value} (${new Date(Number(value) * 1000).toISOString()})`;
+  }
+  return value;
+}
+
+/**
+ * Format a prepared proposal transaction for display
+ */
+export function formatProposalTransaction(result: ProposalTransactionResult): string {
+  const { preparedTransaction } = result;
+
+  return [
+    '# 🗳️ Governance Transaction',
+    '',
+    preparedTransaction.metadata.description,
+    '',
+    `**Proposal ID:** ${result.proposalId}`,
+    `**Description Hash:** ${result.descriptionHash}`,
+    `**Network:** ${preparedTransaction.metadata.networkName} (Chain ID: ${preparedTransaction.metadata.networkChainId})`,
+    `**Estimated Gas:** ${preparedTransaction.metadata.estimatedGasUsage}`,
+    `**Estimated Cost:** ${formatEstimatedCost(preparedTransaction.metadata)}`,
+    '',
+    '## 🔧 Unsigned Transaction',
+    '',
+    '```json',
+    JSON.stringify(preparedTransaction.unsignedTransaction, null, 2),
+    '```',
+    '',
+    'Sign and broadcast with your MCP Ledger server, then track the proposal with get-proposal.',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Format a prepared vote transaction for display
+ */
+export function formatVoteTransaction(preparedTx: PreparedTransaction): string {
+  return [
+    '# 🗳️ Vote Transaction',
+    '',
+    preparedTx.metadata.description,
+    '',
+    `**Function:** ${preparedTx.metadata.functionName}`,
+    `**Network:** ${preparedTx.metadata.networkName} (Chain ID: ${preparedTx.metadata.networkChainId})`,
+    `**Estimated Gas:** ${preparedTx.metadata.estimatedGasUsage}`,
+    `**Estimated Cost:** ${formatEstimatedCost(preparedTx.metadata)}`,
+    '',
+    '## 🔧 Unsigned Transaction',
+    '',
+    '```json',
+    JSON.stringify(preparedTx.unsignedTransaction, null, 2),
+    '```',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Format live proposal state for display
+ */
+export function formatProposalStatus(status: ProposalStatus): string {
+  const sections = [
+    `# 📜 Proposal ${status.proposalId}`,
+    '',
+    `**Governor:** ${status.governorAddress}`,
+    `**Network:** ${status.networkName}`,
+    `**State:** ${status.stateName}`,
+    status.proposer ? `**Proposer:** ${status.proposer}` : '',
+    '',
+    '## 📊 Votes',
+    '',
+    `- For: ${status.votes.for}`,
+    `- Against: ${status.votes.against}`,
+    `- Abstain: ${status.votes.abstain}`,
+    status.quorum ? `- Quorum: ${status.quorum}` : '- Quorum: available once voting starts',
+    '',
+    '## ⏱️ Timing',
+    '',
+    `- Snapshot: ${formatClockValue(status.snapshot, status.clockMode)}`,
+    `- Deadline: ${formatClockValue(status.deadline, status.clockMode)}`,
+    `- Timelock ETA: ${status.eta === '0' ? 'not queued' : formatClockValue(status.eta, 'mode=timestamp')}`,
+    status.currentClock ? `- Current Clock: ${formatClockValue(status.currentClock, status.clockMode)}` : '',
+    ''
+  ];
+
+  if (status.needsQueuing && status.stateName === 'Succeeded') {
+    sections.push('💡 Proposal succeeded - use prepare-queue to queue it in the timelock.', '');
+  } else if (status.stateName === 'Queued') {
+    sections.push('💡 Proposal is queued - use prepare-execute once the timelock ETA has passed.', '');
+  }
+
+  return sections.filter((line, index, all) => line !== '' || all[index - 1] !== '').join('\n');
+}
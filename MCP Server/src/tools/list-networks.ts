@@ -1,16 +1,22 @@
 import { z } from 'zod';
+import { Hex, formatEther } from 'viem';
 import { 
   SUPPORTED_NETWORKS, 
   getSupportedNetworks, 
   getMainnetNetworks, 
   getTestnetNetworks 
 } from '../networks/index.js';
+import { isCustomNetwork, networkConfigToChainDefinition } from '../utils/custom-networks.js';
+import { getContractGasEstimates, getDAODeploymentOrder, loadContractABI } from '../utils/contracts.js';
+import { estimateL1DataFee, getRollupType } from '../utils/l1-fees.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { NetworkConfig } from '../types/index.js';
 
 // Input validation schema for the list-networks tool
 export const ListNetworksInputSchema = z.object({
   includeTestnets: z.boolean().default(true),
   includeMainnets: z.boolean().default(true),
-  format: z.enum(['table', 'json', 'summary']).default('table')
+  format: z.enum(['table', 'json', 'summary', 'chains']).default('table')
 });
 
 export interface NetworkInfo {
@@ -25,6 +31,7 @@ export interface NetworkInfo {
   testnet: boolean;
   hasExplorer: boolean;
   hasVerification: boolean;
+  custom: boolean;
 }
 
 /**
@@ -52,7 +59,8 @@ export async function listNetworks(input: z.infer<typeof ListNetworksInputSchema
     nativeCurrency: config.nativeCurrency,
     testnet: config.testnet,
     hasExplorer: !!config.explorerUrl,
-    hasVerification: !!config.explorerApiUrl && !!config.explorerApiKey
+    hasVerification: !!config.explorerApiUrl && !!config.explorerApiKey,
+    custom: isCustomNetwork(name)
   }));
   
   // Sort by chain ID for consistent ordering
@@ -62,10 +70,15 @@ export async function listNetworks(input: z.infer<typeof ListNetworksInputSchema
 /**
  * Format network list for display
  */
-export function formatNetworkList(networks: NetworkInfo[], format: 'table' | 'json' | 'summary'): string {
+export function formatNetworkList(networks: NetworkInfo[], format: 'table' | 'json' | 'summary' | 'chains'): string {
   if (format === 'json') {
     return JSON.stringify(networks, null, 2);
   }
+
+  if (format === 'chains') {
+    // Chain definitions the frontend CustomNetworkModal format can import; ${VAR} placeholders stay unresolved
+    return JSON.stringify(networks.map(network => networkConfigToChainDefinition(SUPPORTED_NETWORKS[network.name])), null, 2);
+  }
   
   if (format === 'summary') {
     return formatNetworkSummary(networks);
@@ -91,9 +104,10 @@ function formatNetworkTable(networks: NetworkInfo[]): string {
     const explorer = network.hasExplorer ? '✅' : '❌';
     const verification = network.hasVerification ? '✅' : '❌';
     const currency = `${network.nativeCurrency.symbol}`;
+    const displayName = network.custom ? `${network.displayName} 🛠️` : network.displayName;
     
     sections.push(
-      `| ${network.displayName} | ${network.chainId} | ${currency} | ${type} | ${explorer} | ${verification} |`
+      `| ${displayName} | ${network.chainId} | ${currency} | ${type} | ${explorer} | ${verification} |`
     );
   });
   
@@ -102,6 +116,7 @@ function formatNetworkTable(networks: NetworkInfo[]): string {
     '## Legend',
     '- **Explorer**: Block explorer available for viewing transactions',
     '- **Verification**: Contract verification supported on block explorer',
+    '- 🛠️ Custom network added with add-network',
     '',
     `**Total Networks:** ${networks.length}`,
     `**Mainnets:** ${networks.filter(n => !n.testnet).length}`,
@@ -204,7 +219,8 @@ export function getNetworkDetails(networkName: string): NetworkInfo | null {
     nativeCurrency: config.nativeCurrency,
     testnet: config.testnet,
     hasExplorer: !!config.explorerUrl,
-    hasVerification: !!config.explorerApiUrl && !!config.explorerApiKey
+    hasVerification: !!config.explorerApiUrl && !!config.explorerApiKey,
+    custom: isCustomNetwork(networkName)
   };
 }
 
@@ -230,21 +246,71 @@ export function getRecommendedNetworks(): {
   };
 }
 
+export interface NetworkDeploymentCost {
+  gasPrice: string;
+  l1DataFee?: string;
+  estimatedCost: string;
+}
+
 /**
- * Estimate deployment costs for different networks
+ * Estimate deployment costs for different networks.
+ * On rollups the L1 data fee for posting bytecode usually outweighs L2 execution, so
+ * it is priced live for the DAO contracts where the network answers; the rest keep
+ * the typical range. Prepared transactions carry a live per-transaction figure.
  */
-export function getNetworkDeploymentCosts(): Record<string, { gasPrice: string; estimatedCost: string }> {
-  return {
+export async function getNetworkDeploymentCosts(): Promise<Record<string, NetworkDeploymentCost>> {
+  const costs: Record<string, NetworkDeploymentCost> = {
     ethereum: { gasPrice: '~20-50 gwei', estimatedCost: '~$50-200' },
     polygon: { gasPrice: '~30-100 gwei', estimatedCost: '~$1-5' },
-    arbitrum: { gasPrice: '~0.1-0.5 gwei', estimatedCost: '~$5-20' },
-    optimism: { gasPrice: '~0.1-0.5 gwei', estimatedCost: '~$5-20' },
-    base: { gasPrice: '~0.1-0.5 gwei', estimatedCost: '~$5-20' },
+    arbitrum: { gasPrice: '~0.01-0.1 gwei', l1DataFee: '~$2-15 (charged as L2 gas)', estimatedCost: '~$5-20' },
+    optimism: { gasPrice: '~0.001-0.01 gwei', l1DataFee: '~$2-15 (GasPriceOracle)', estimatedCost: '~$5-20' },
+    base: { gasPrice: '~0.001-0.01 gwei', l1DataFee: '~$2-15 (GasPriceOracle)', estimatedCost: '~$5-20' },
     avalanche: { gasPrice: '~25-50 gwei', estimatedCost: '~$2-8' },
     bsc: { gasPrice: '~5-20 gwei', estimatedCost: '~$1-3' },
     // Testnets
     sepolia: { gasPrice: '~1-5 gwei', estimatedCost: 'Free (testnet)' },
     mumbai: { gasPrice: '~1-10 gwei', estimatedCost: 'Free (testnet)' },
-    fuji: { gasPrice: '~25-50 gwei', estimatedCost: 'Free (testnet)' }
+    fuji: { gasPrice: '~25-50 gwei', estimatedCost: 'Free (testnet)' },
+    'arbitrum-sepolia': { gasPrice: '~0.1 gwei', l1DataFee: 'Paid in Sepolia ETH', estimatedCost: 'Free (testnet)' },
+    'optimism-sepolia': { gasPrice: '~0.001 gwei', l1DataFee: 'Paid in Sepolia ETH', estimatedCost: 'Free (testnet)' },
+    'base-sepolia': { gasPrice: '~0.001 gwei', l1DataFee: 'Paid in Sepolia ETH', estimatedCost: 'Free (testnet)' }
   };
-}
\ No newline at end of file
+
+  await Promise.all(Object.entries(costs).map(async ([networkName, cost]) => {
+    const l1Fee = await estimateDAOBytecodeL1Fee(SUPPORTED_NETWORKS[networkName]).catch(() => undefined);
+    if (l1Fee) {
+      cost.l1DataFee = l1Fee;
+    }
+  }));
+
+  return costs;
+}
+
+/**
+ * Live L1 data fee for deploying the token, timelock and governor bytecode on a rollup
+ */
+async function estimateDAOBytecodeL1Fee(networkConfig: NetworkConfig | undefined): Promise<string | undefined> {
+  if (!networkConfig || !getRollupType(networkConfig.chainId)) return undefined;
+
+  const publicClient = await createNetworkClient(networkConfig);
+  const gasPrice = await publicClient.getGasPrice();
+  const gasEstimates = getContractGasEstimates();
+
+  let totalWei = 0n;
+  let includedInGasEstimate = false;
+  for (const contractName of getDAODeploymentOrder()) {
+    const { bytecode } = await loadContractABI(contractName);
+    const l1Fee = await estimateL1DataFee(publicClient, networkConfig, {
+      to: null,
+      data: bytecode as Hex,
+      gas: BigInt(gasEstimates[contractName]),
+      gasPrice
+    });
+    if (!l1Fee) return undefined;
+    totalWei += BigInt(l1Fee.l1FeeWei);
+    includedInGasEstimate = l1Fee.includedInGasEstimate;
+  }
+
+  const fee = `${formatEther(totalWei)} ${networkConfig.nativeCurrency.symbol}`;
+  return includedInGasEstimate ? `${fee} (charged as L2 gas)` : `${fee} (GasPriceOracle)`;
+}
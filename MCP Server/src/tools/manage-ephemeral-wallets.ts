@@ -5,13 +5,40 @@ import {
   getWalletBalance, 
   sweepEphemeralWallet, 
   deleteEphemeralWallet,
+  unlockEphemeralWallets,
+  migratePlaintextWallets,
+  exportEphemeralWallet,
+  importEphemeralWallet,
+  setEphemeralWalletPolicy,
+  hasKeystorePassphrase,
+  KEYSTORE_PASSPHRASE_ENV,
   type EphemeralWallet,
+  type EphemeralWalletPolicy,
   type WalletBalance,
   type SweepResult
 } from '../utils/ephemeral-wallet.js';
+import { getNetworkConfig } from '../networks/index.js';
+import { isKeystoreV3 } from '../utils/keystore.js';
+import { isWalletExpired, reapEphemeralWallets, getReaperAuditFile } from '../utils/wallet-reaper.js';
+import { formatEther, parseEther } from 'viem';
+import { promises as fs } from 'fs';
+
+const PolicyAddressSchema = z.string().refine(
+  (addr) => addr.startsWith('0x') && addr.length === 42,
+  { message: "Invalid address format" }
+);
+
+// Lifecycle policy fields shared by generate-ephemeral-wallet and set-ephemeral-wallet-policy
+const WalletPolicyInputSchema = z.object({
+  ttlSeconds: z.number().int().positive().optional(),
+  maxBalance: z.string().regex(/^\d+(\.\d+)?$/, "maxBalance must be a decimal amount of the native token").optional(),
+  sweepRecipient: PolicyAddressSchema.optional(),
+  tokens: z.array(PolicyAddressSchema).optional(),
+  allowedNetwork: z.string().min(1).optional()
+});
 
 // Input validation schemas
-export const GenerateEphemeralWalletInputSchema = z.object({
+export const GenerateEphemeralWalletInputSchema = WalletPolicyInputSchema.extend({
   networkName: z.string().min(1, "Network name is required")
 });
 
@@ -44,6 +71,42 @@ export const DeleteEphemeralWalletInputSchema = z.object({
   networkName: z.string().min(1, "Network name is required")
 });
 
+export const SetEphemeralWalletPolicyInputSchema = WalletPolicyInputSchema.extend({
+  walletAddress: PolicyAddressSchema,
+  networkName: z.string().min(1, "Network name is required"),
+  clear: z.boolean().default(false)
+});
+
+export const ReapEphemeralWalletsInputSchema = z.object({
+  networkName: z.string().optional(),
+  tokens: z.array(PolicyAddressSchema).optional(),
+  defaultRecipient: PolicyAddressSchema.optional(),
+  dryRun: z.boolean().default(false)
+});
+
+export const UnlockEphemeralWalletsInputSchema = z.object({
+  passphrase: z.string().min(8, "Passphrase must be at least 8 characters")
+});
+
+export const ExportEphemeralWalletInputSchema = z.object({
+  walletAddress: z.string().refine(
+    (addr) => addr.startsWith('0x') && addr.length === 42,
+    { message: "Invalid wallet address format" }
+  ),
+  networkName: z.string().min(1, "Network name is required"),
+  exportPassphrase: z.string().min(8, "Passphrase must be at least 8 characters").optional(),
+  outputDir: z.string().optional()
+});
+
+export const ImportEphemeralWalletInputSchema = z.object({
+  keystore: z.union([z.string(), z.record(z.string(), z.any())]).optional(),
+  keystoreFile: z.string().optional(),
+  keystorePassphrase: z.string().min(1, "Keystore passphrase is required"),
+  networkName: z.string().min(1, "Network name is required")
+}).refine(params => !!params.keystore !== !!params.keystoreFile, {
+  message: 'Provide either keystore or keystoreFile'
+});
+
 // Result interfaces
 export interface EphemeralWalletOperationResult {
   success: boolean;
@@ -52,6 +115,43 @@ export interface EphemeralWalletOperationResult {
   error?: string;
 }
 
+/**
+ * Turn policy input into the stored policy, layered over the current one.
+ * A wallet is pinned to the allowedNetwork given, or else to the one it was created for.
+ */
+function buildWalletPolicy(
+  input: z.infer<typeof WalletPolicyInputSchema>,
+  networkName: string,
+  current: EphemeralWalletPolicy = {}
+): EphemeralWalletPolicy {
+  if (input.allowedNetwork !== undefined) {
+    // Fail on typos here rather than pinning the key to a network it can never sign on
+    getNetworkConfig(input.allowedNetwork);
+  }
+
+  return {
+    ...current,
+    allowedNetwork: input.allowedNetwork ?? current.allowedNetwork ?? networkName,
+    ...(input.ttlSeconds !== undefined && { expiresAt: new Date(Date.now() + input.ttlSeconds * 1000).toISOString() }),
+    ...(input.maxBalance !== undefined && { maxBalanceWei: parseEther(input.maxBalance).toString() }),
+    ...(input.sweepRecipient !== undefined && { sweepRecipient: input.sweepRecipient }),
+    ...(input.tokens !== undefined && { tokens: input.tokens })
+  };
+}
+
+/**
+ * Policy as shown to users
+ */
+function describeWalletPolicy(policy: EphemeralWalletPolicy = {}) {
+  return {
+    expiresAt: policy.expiresAt,
+    maxBalance: policy.maxBalanceWei ? formatEther(BigInt(policy.maxBalanceWei)) : undefined,
+    allowedNetwork: policy.allowedNetwork,
+    sweepRecipient: policy.sweepRecipient,
+    tokens: policy.tokens
+  };
+}
+
 /**
  * Generate a new ephemeral wallet for temporary funding
  */
@@ -63,7 +163,7 @@ export async function generateEphemeralWalletTool(
     
     // Generating ephemeral wallet
     
-    const wallet = await generateEphemeralWallet(config.networkName);
+    const wallet = await generateEphemeralWallet(config.networkName, buildWalletPolicy(config, config.networkName));
     
     // Ephemeral wallet generated
     
@@ -75,6 +175,7 @@ export async function generateEphemeralWalletTool(
         networkName: wallet.networkName,
         createdAt: wallet.createdAt.toISOString(),
         fundingInstructions: `Send funds to this address: ${wallet.address}`,
+        policy: describeWalletPolicy(wallet.policy),
         securityNote: "This wallet uses software-generated keys stored encrypted on disk. For maximum security, use hardware wallets for large amounts."
       }
     };
@@ -108,9 +209,15 @@ export async function listEphemeralWalletsTool(): Promise<EphemeralWalletOperati
           address: w.address,
           networkName: w.networkName,
           createdAt: w.createdAt.toISOString(),
-          ageInHours: Math.round((Date.now() - w.createdAt.getTime()) / (1000 * 60 * 60))
+          ageInHours: Math.round((Date.now() - w.createdAt.getTime()) / (1000 * 60 * 60)),
+          encrypted: w.encrypted,
+          expiresAt: w.policy?.expiresAt,
+          expired: isWalletExpired(w)
         })),
-        total: wallets.length
+        expiredCount: wallets.filter(w => isWalletExpired(w)).length,
+        total: wallets.length,
+        plaintextCount: wallets.filter(w => !w.encrypted).length,
+        unlocked: hasKeystorePassphrase()
       }
     };
     
@@ -271,6 +378,196 @@ export async function deleteEphemeralWalletTool(
   }
 }
 
+/**
+ * Set or clear a wallet's lifecycle policy
+ */
+export async function setEphemeralWalletPolicyTool(
+  input: z.infer<typeof SetEphemeralWalletPolicyInputSchema>
+): Promise<EphemeralWalletOperationResult> {
+  try {
+    const config = SetEphemeralWalletPolicyInputSchema.parse(input);
+    const current = (await listEphemeralWallets()).find(w =>
+      w.address.toLowerCase() === config.walletAddress.toLowerCase() &&
+      w.networkName === config.networkName
+    );
+    if (!current) {
+      throw new Error(`No ephemeral wallet found for address ${config.walletAddress} on ${config.networkName}`);
+    }
+    
+    const policy = buildWalletPolicy(config, config.networkName, config.clear ? {} : current.policy);
+    const wallet = await setEphemeralWalletPolicy(config.walletAddress, config.networkName, policy);
+    
+    return {
+      success: true,
+      message: `Policy updated for ${wallet.address}`,
+      data: {
+        address: wallet.address,
+        networkName: wallet.networkName,
+        policy: describeWalletPolicy(wallet.policy)
+      }
+    };
+    
+  } catch (error: any) {
+    return {
+      success: false,
+      message: 'Failed to set ephemeral wallet policy',
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Sweep expired wallets and excess balances according to their policies
+ */
+export async function reapEphemeralWalletsTool(
+  input: z.infer<typeof ReapEphemeralWalletsInputSchema>
+): Promise<EphemeralWalletOperationResult> {
+  try {
+    const config = ReapEphemeralWalletsInputSchema.parse(input);
+    const report = await reapEphemeralWallets(config);
+    
+    // Skipped wallets and failed sweeps are listed in the report rather than failing the run
+    const needsAttention = report.wallets.filter(w => w.skipped || w.sweeps.some(sweep => sweep.status === 'failed')).length;
+    return {
+      success: true,
+      message: `${report.dryRun ? 'Dry run: ' : ''}${report.wallets.length} of ${report.checked} wallet(s) needed reaping; ${report.wallets.filter(w => w.keyDeleted).length} key(s) deleted${needsAttention > 0 ? `; ${needsAttention} need attention` : ''}`,
+      data: {
+        reap: report,
+        auditFile: report.dryRun ? undefined : getReaperAuditFile()
+      }
+    };
+    
+  } catch (error: any) {
+    return {
+      success: false,
+      message: 'Failed to reap ephemeral wallets',
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Unlock the wallet keystores for this session
+ */
+export async function unlockEphemeralWalletsTool(
+  input: z.infer<typeof UnlockEphemeralWalletsInputSchema>
+): Promise<EphemeralWalletOperationResult> {
+  try {
+    const config = UnlockEphemeralWalletsInputSchema.parse(input);
+    const { verifiedWith } = await unlockEphemeralWallets(config.passphrase);
+    
+    return {
+      success: true,
+      message: verifiedWith
+        ? `Keystores unlocked; passphrase verified against ${verifiedWith}`
+        : 'Keystores unlocked; new wallets will be encrypted with this passphrase',
+      data: { unlocked: true, passphraseSource: 'session' }
+    };
+    
+  } catch (error: any) {
+    return {
+      success: false,
+      message: 'Failed to unlock ephemeral wallets',
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Encrypt wallet files that still hold a plaintext private key
+ */
+export async function migrateEphemeralWalletsTool(): Promise<EphemeralWalletOperationResult> {
+  try {
+    const result = await migratePlaintextWallets();
+    
+    return {
+      success: result.failed.length === 0,
+      message: `Encrypted ${result.migrated.length} plaintext wallet(s); ${result.alreadyEncrypted} already encrypted`,
+      data: result,
+      error: result.failed.length > 0
+        ? result.failed.map(f => `${f.keyFile}: ${f.error}`).join('\n')
+        : undefined
+    };
+    
+  } catch (error: any) {
+    return {
+      success: false,
+      message: 'Failed to migrate ephemeral wallets',
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Export a wallet as a v3 keystore file
+ */
+export async function exportEphemeralWalletTool(
+  input: z.infer<typeof ExportEphemeralWalletInputSchema>
+): Promise<EphemeralWalletOperationResult> {
+  try {
+    const config = ExportEphemeralWalletInputSchema.parse(input);
+    const result = await exportEphemeralWallet(config.walletAddress, config.networkName, {
+      exportPassphrase: config.exportPassphrase,
+      outputDir: config.outputDir
+    });
+    
+    return {
+      success: true,
+      message: `Exported ${result.address} as a keystore file`,
+      data: {
+        address: result.address,
+        networkName: config.networkName,
+        exportFile: result.file,
+        passphrase: config.exportPassphrase ? 'export passphrase' : 'server keystore passphrase'
+      }
+    };
+    
+  } catch (error: any) {
+    return {
+      success: false,
+      message: 'Failed to export ephemeral wallet',
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Import a v3 keystore as an ephemeral wallet
+ */
+export async function importEphemeralWalletTool(
+  input: z.infer<typeof ImportEphemeralWalletInputSchema>
+): Promise<EphemeralWalletOperationResult> {
+  try {
+    const config = ImportEphemeralWalletInputSchema.parse(input);
+    
+    const raw = config.keystoreFile ? await fs.readFile(config.keystoreFile, 'utf-8') : config.keystore!;
+    const keystore = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (!isKeystoreV3(keystore)) {
+      throw new Error('Not a version 3 keystore');
+    }
+    
+    const wallet = await importEphemeralWallet(keystore, config.keystorePassphrase, config.networkName);
+    
+    return {
+      success: true,
+      message: `Imported ${wallet.address} on ${wallet.networkName}`,
+      data: {
+        address: wallet.address,
+        networkName: wallet.networkName,
+        createdAt: wallet.createdAt.toISOString(),
+        imported: true
+      }
+    };
+    
+  } catch (error: any) {
+    return {
+      success: false,
+      message: 'Failed to import keystore',
+      error: error.message
+    };
+  }
+}
+
 /**
  * Format ephemeral wallet operation results for display
  */
@@ -318,6 +615,19 @@ export function formatEphemeralWalletResult(result: EphemeralWalletOperationResu
       );
     }
     
+    // Lifecycle policy
+    if (data.policy) {
+      sections.push(
+        '### ⏳ Lifecycle Policy',
+        `- **Expires:** ${data.policy.expiresAt ?? 'Never'}`,
+        `- **Max Balance:** ${data.policy.maxBalance !== undefined ? `${data.policy.maxBalance} ETH` : 'None'}`,
+        `- **Allowed Network:** ${data.policy.allowedNetwork ?? data.networkName}`,
+        `- **Sweep Recipient:** ${data.policy.sweepRecipient ? `\`${data.policy.sweepRecipient}\`` : 'Not set'}`,
+        `- **Tokens:** ${data.policy.tokens?.length ? data.policy.tokens.map((t: string) => `\`${t}\``).join(', ') : 'None'}`,
+        ''
+      );
+    }
+    
     // Wallet list
     if (data.wallets) {
       sections.push(
@@ -328,16 +638,29 @@ export function formatEphemeralWalletResult(result: EphemeralWalletOperationResu
       
       if (data.wallets.length > 0) {
         sections.push(
-          '| Address | Network | Age | Created |',
-          '|---------|---------|-----|---------|'
+          '| Address | Network | Age | Created | Expires | Key |',
+          '|---------|---------|-----|---------|---------|-----|'
         );
         
         data.wallets.forEach((wallet: any) => {
           const shortAddr = `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}`;
-          sections.push(`| ${shortAddr} | ${wallet.networkName} | ${wallet.ageInHours}h | ${wallet.createdAt.split('T')[0]} |`);
+          const key = wallet.encrypted ? '🔒 Keystore' : '⚠️ Plaintext';
+          const expires = wallet.expired ? '⌛ Expired' : wallet.expiresAt ?? 'Never';
+          sections.push(`| ${shortAddr} | ${wallet.networkName} | ${wallet.ageInHours}h | ${wallet.createdAt.split('T')[0]} | ${expires} | ${key} |`);
         });
         sections.push('');
       }
+      
+      if (data.expiredCount > 0) {
+        sections.push(`⌛ ${data.expiredCount} wallet(s) have expired. Run reap-ephemeral-wallets to sweep and delete them.`, '');
+      }
+      
+      if (data.plaintextCount > 0) {
+        sections.push(`⚠️ ${data.plaintextCount} wallet(s) still store a plaintext private key. Run migrate-ephemeral-wallets to encrypt them.`, '');
+      }
+      if (!data.unlocked) {
+        sections.push(`🔒 Keystores are locked. Set ${KEYSTORE_PASSPHRASE_ENV} or call unlock-ephemeral-wallets before generating or sweeping.`, '');
+      }
     }
     
     // Balance check
@@ -372,6 +695,73 @@ export function formatEphemeralWalletResult(result: EphemeralWalletOperationResu
       }
     }
     
+    // Reaper report
+    if (data.reap) {
+      sections.push(
+        `### 🧹 Reaper Report${data.reap.dryRun ? ' (Dry Run)' : ''}`,
+        `- **Run ID:** ${data.reap.id}`,
+        `- **Wallets Checked:** ${data.reap.checked}`,
+        `- **Audit Log:** ${data.auditFile ? `\`${data.auditFile}\`` : 'Not written for dry runs'}`,
+        ''
+      );
+      
+      if (data.reap.wallets.length > 0) {
+        sections.push(
+          '| Wallet | Reason | Asset | Status | Amount | Transaction |',
+          '|--------|--------|-------|--------|--------|-------------|'
+        );
+        data.reap.wallets.forEach((wallet: any) => {
+          const shortAddr = `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}`;
+          if (wallet.skipped) {
+            sections.push(`| ${shortAddr} | ${wallet.reason} | - | ⏭️ Skipped: ${wallet.skipped} | - | - |`);
+          }
+          wallet.sweeps.forEach((sweep: any) => {
+            const status = { swept: '✅ Swept', empty: '⚪ Empty', failed: `❌ ${sweep.error}`, planned: '📝 Planned' }[sweep.status as string];
+            sections.push(`| ${shortAddr} | ${wallet.reason} | ${sweep.symbol} | ${status} | ${sweep.amount ?? '-'} | ${sweep.transactionHash ? `\`${sweep.transactionHash}\`` : '-'} |`);
+          });
+        });
+        sections.push(
+          '',
+          `**Keys Deleted:** ${data.reap.wallets.filter((w: any) => w.keyDeleted).map((w: any) => `\`${w.address}\``).join(', ') || 'None'}`,
+          ''
+        );
+      }
+    }
+    
+    // Keystore migration
+    if (data.migrated) {
+      sections.push(
+        '### 🔒 Keystore Migration',
+        `- **Encrypted:** ${data.migrated.length}`,
+        ...data.migrated.map((address: string) => `  - \`${address}\``),
+        `- **Already Encrypted:** ${data.alreadyEncrypted}`,
+        ''
+      );
+    }
+    
+    // Keystore export
+    if (data.exportFile) {
+      sections.push(
+        '### 📤 Keystore Export',
+        `- **Address:** \`${data.address}\``,
+        `- **File:** \`${data.exportFile}\``,
+        `- **Encrypted With:** ${data.passphrase}`,
+        '',
+        'Use it with `cast wallet address --keystore <file>` or copy it into a geth keystore directory.',
+        ''
+      );
+    }
+    
+    // Keystore import
+    if (data.imported) {
+      sections.push(
+        '### 📥 Keystore Import',
+        `- **Address:** \`${data.address}\``,
+        `- **Network:** ${data.networkName}`,
+        ''
+      );
+    }
+    
     // Deletion result
     if (data.deleted !== undefined) {
       sections.push(
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import { createPublicClient, http } from 'viem';
+import { BUILT_IN_MAINNET_CHAIN_IDS, SUPPORTED_NETWORKS, resolveNetworkConfig } from '../networks/index.js';
+import { getRpcUrls, redactRpcUrl } from '../utils/rpc.js';
+import {
+  ChainDefinitionSchema,
+  CustomNetworkNameSchema,
+  chainDefinitionToNetworkConfig,
+  deleteCustomNetwork,
+  getCustomNetworksFile,
+  isCustomNetwork,
+  saveCustomNetwork
+} from '../utils/custom-networks.js';
+import { NetworkConfig, NetworkConfigSchema, NetworkError } from '../types/index.js';
+
+const PROBE_TIMEOUT_MS = 10000;
+
+// chainId may be left out and read from the RPC instead
+const CustomNetworkConfigSchema = NetworkConfigSchema.extend({
+  chainId: z.number().int().positive().optional()
+});
+
+// Input validation schema for the add-network tool
+export const AddNetworkInputSchema = z.object({
+  name: CustomNetworkNameSchema,
+  config: CustomNetworkConfigSchema.optional(),
+  chain: ChainDefinitionSchema.optional(),
+  skipProbe: z.boolean().default(false)
+}).refine(params => !!params.config !== !!params.chain, {
+  message: 'Provide either config or chain'
+});
+
+// Input validation schema for the update-network tool
+export const UpdateNetworkInputSchema = z.object({
+  name: z.string(),
+  changes: NetworkConfigSchema.partial(),
+  skipProbe: z.boolean().default(false)
+});
+
+// Input validation schema for the remove-network tool
+export const RemoveNetworkInputSchema = z.object({
+  name: z.string()
+});
+
+export interface EndpointProbe {
+  url: string;
+  chainId?: number;
+  error?: string;
+}
+
+export interface NetworkOperationResult {
+  action: 'added' | 'updated' | 'removed';
+  name: string;
+  config: NetworkConfig;
+  probes: EndpointProbe[];
+  warnings: string[];
+  file: string;
+}
+
+/**
+ * Ask every usable endpoint for its chain ID
+ */
+async function probeEndpoints(config: z.infer<typeof CustomNetworkConfigSchema>): Promise<EndpointProbe[]> {
+  const resolved = await resolveNetworkConfig({ ...config, chainId: config.chainId ?? 0 });
+  const urls = getRpcUrls(resolved);
+
+  return Promise.all(urls.map(async (url): Promise<EndpointProbe> => {
+    try {
+      const client = createPublicClient({ transport: http(url, { timeout: PROBE_TIMEOUT_MS, retryCount: 0 }) });
+      return { url: redactRpcUrl(url), chainId: await client.getChainId() };
+    } catch (error: any) {
+      return { url: redactRpcUrl(url), error: error?.shortMessage ?? error?.message ?? String(error) };
+    }
+  }));
+}
+
+/**
+ * Refuse to label a built-in mainnet's chain as a testnet; transactions on it would be real
+ */
+function assertNotMainnetAsTestnet(testnet: boolean | undefined, chainId: number): void {
+  if (testnet && BUILT_IN_MAINNET_CHAIN_IDS.has(chainId)) {
+    const mainnets = Object.values(SUPPORTED_NETWORKS)
+      .filter(network => !network.testnet && network.chainId === chainId)
+      .map(network => network.name);
+    throw new NetworkError(`Chain ${chainId} is ${mainnets.join(', ')}, a mainnet; it cannot be added as a testnet`);
+  }
+}
+
+/**
+ * Check a network against its RPC and fill in the chain ID when it was left out
+ */
+async function checkNetworkConfig(
+  name: string,
+  config: z.infer<typeof CustomNetworkConfigSchema>,
+  skipProbe: boolean
+): Promise<{ config: NetworkConfig; probes: EndpointProbe[]; warnings: string[] }> {
+  const warnings: string[] = [];
+
+  if (skipProbe) {
+    if (config.chainId === undefined) {
+      throw new NetworkError('chainId is required when skipProbe is set');
+    }
+    assertNotMainnetAsTestnet(config.testnet, config.chainId);
+    warnings.push('The RPC was not probed; the chain ID is unverified.');
+    return { config: NetworkConfigSchema.parse(config), probes: [], warnings };
+  }
+
+  const probes = await probeEndpoints(config);
+  if (probes.length === 0) {
+    throw new NetworkError(`No usable RPC endpoint for ${config.name}. Set the API key its rpcUrl needs, add fallbackRpcUrls, or pass skipProbe.`);
+  }
+
+  const reachable = probes.filter(probe => probe.chainId !== undefined);
+  if (reachable.length === 0) {
+    throw new NetworkError(`No RPC endpoint of ${config.name} answered: ${probes.map(probe => `${probe.url} (${probe.error})`).join(', ')}`);
+  }
+
+  const chainIds = [...new Set(reachable.map(probe => probe.chainId!))];
+  if (chainIds.length > 1) {
+    throw new NetworkError(`RPC endpoints of ${config.name} disagree on the chain ID: ${reachable.map(probe => `${probe.url} → ${probe.chainId}`).join(', ')}`);
+  }
+  if (config.chainId !== undefined && config.chainId !== chainIds[0]) {
+    throw new NetworkError(`The RPC reports chain ${chainIds[0]}, but chainId is ${config.chainId}`);
+  }
+
+  for (const probe of probes.filter(probe => probe.error)) {
+    warnings.push(`${probe.url} did not answer: ${probe.error}`);
+  }
+
+  const chainId = chainIds[0];
+  assertNotMainnetAsTestnet(config.testnet, chainId);
+  const sameChain = Object.entries(SUPPORTED_NETWORKS)
+    .filter(([otherName, network]) => otherName !== name && network.chainId === chainId)
+    .map(([name]) => name);
+  if (sameChain.length > 0) {
+    warnings.push(`Chain ${chainId} is already configured as ${sameChain.join(', ')}.`);
+  }
+
+  return { config: NetworkConfigSchema.parse({ ...config, chainId }), probes, warnings };
+}
+
+/**
+ * Add a custom network, persisted in ~/.dao-deployer/networks.json
+ */
+export async function addNetwork(input: z.infer<typeof AddNetworkInputSchema>): Promise<NetworkOperationResult> {
+  try {
+    const params = AddNetworkInputSchema.parse(input);
+    if (params.name in SUPPORTED_NETWORKS) {
+      throw new NetworkError(`Network ${params.name} already exists. Use update-network to change it.`);
+    }
+
+    const requested = params.chain ? chainDefinitionToNetworkConfig(params.chain) : params.config!;
+    const checked = await checkNetworkConfig(params.name, requested, params.skipProbe);
+    const config = await saveCustomNetwork(params.name, checked.config);
+
+    return { action: 'added', name: params.name, config, probes: checked.probes, warnings: checked.warnings, file: getCustomNetworksFile() };
+
+  } catch (error: any) {
+    throw new NetworkError(`Failed to add network: ${error.message}`);
+  }
+}
+
+/**
+ * Change fields of a custom network and check it against its RPC again
+ */
+export async function updateNetwork(input: z.infer<typeof UpdateNetworkInputSchema>): Promise<NetworkOperationResult> {
+  try {
+    const params = UpdateNetworkInputSchema.parse(input);
+    const name = params.name.toLowerCase();
+    if (!isCustomNetwork(name)) {
+      throw new NetworkError(`${params.name} is not a custom network. Only networks added with add-network can be updated.`);
+    }
+
+    const current = SUPPORTED_NETWORKS[name];
+    const checked = await checkNetworkConfig(name, { ...current, ...params.changes }, params.skipProbe);
+    const config = await saveCustomNetwork(name, checked.config);
+
+    return { action: 'updated', name, config, probes: checked.probes, warnings: checked.warnings, file: getCustomNetworksFile() };
+
+  } catch (error: any) {
+    throw new NetworkError(`Failed to update network: ${error.message}`);
+  }
+}
+
+/**
+ * Remove a custom network
+ */
+export async function removeNetwork(input: z.infer<typeof RemoveNetworkInputSchema>): Promise<NetworkOperationResult> {
+  try {
+    const params = RemoveNetworkInputSchema.parse(input);
+    const name = params.name.toLowerCase();
+    if (!isCustomNetwork(name)) {
+      throw new NetworkError(`${params.name} is not a custom network. Built-in networks cannot be removed.`);
+    }
+
+    const config = await deleteCustomNetwork(name);
+    return { action: 'removed', name, config, probes: [], warnings: [], file: getCustomNetworksFile() };
+
+  } catch (error: any) {
+    throw new NetworkError(`Failed to remove network: ${error.message}`);
+  }
+}
+
+/**
+ * Format a custom network operation for display
+ */
+export function formatNetworkOperationResult(result: NetworkOperationResult): string {
+  const titles = {
+    added: '# ✅ Custom Network Added',
+    updated: '# ✅ Custom Network Updated',
+    removed: '# 🗑️ Custom Network Removed'
+  };
+
+  const sections = [
+    titles[result.action],
+    '',
+    `**Network Name:** \`${result.name}\``,
+    `**Display Name:** ${result.config.name}`,
+    `**Chain ID:** ${result.config.chainId}`,
+    `**RPC URL:** ${redactRpcUrl(result.config.rpcUrl)}`,
+    `**Native Currency:** ${result.config.nativeCurrency.symbol}`,
+    `**Type:** ${result.config.testnet ? '🧪 Testnet' : '🌟 Mainnet'}`,
+    `**Saved In:** ${result.file}`,
+    ''
+  ];
+
+  if (result.probes.length > 0) {
+    sections.push(
+      '## 🔌 RPC Check',
+      '',
+      ...result.probes.map(probe => probe.chainId !== undefined
+        ? `- ✅ ${probe.url} → chain ${probe.chainId}`
+        : `- ❌ ${probe.url}: ${probe.error}`),
+      ''
+    );
+  }
+
+  if (result.warnings.length > 0) {
+    sections.push('## ⚠️ Warnings', '', ...result.warnings.map(warning => `- ${warning}`), '');
+  }
+
+  if (result.action !== 'removed') {
+    sections.push(`Use \`"networkName": "${result.name}"\` with any tool.`);
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,418 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { Address, Hex, encodeDeployData, encodeFunctionData, erc20Abi, formatUnits, parseUnits, zeroAddress } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadContractABI } from '../utils/contracts.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { getPendingNonce, prepareContractCall, prepareContractDeployment } from '../utils/transactions.js';
+import { formatEstimatedCost } from '../utils/fees.js';
+import { AtomicFileWriter } from '../utils/atomic-file.js';
+import { aggregateDistribution, parseDistributionList, type DistributionIssue } from '../utils/distribution-list.js';
+import { buildMerkleTree, type MerkleClaim } from '../utils/merkle-tree.js';
+import { FeeStrategySchema, PreparedTransaction, TransactionError } from '../types/index.js';
+import { prepareProposal, type ProposalActions } from './governance-proposals.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+const bytes32Schema = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a 32-byte hex value");
+
+// Input validation schema for the build-merkle-airdrop tool
+export const BuildMerkleAirdropInputSchema = z.object({
+  networkName: z.string(),
+  tokenAddress: addressSchema,
+  content: z.string().optional(),
+  filePath: z.string().optional(),
+  format: z.enum(['csv', 'json']).optional(),
+  mergeDuplicates: z.boolean().default(false),
+  outputPath: z.string().optional()
+}).refine(
+  (params) => !!params.content !== !!params.filePath,
+  { message: "Provide exactly one of content or filePath" }
+);
+
+// Input validation schema for the prepare-merkle-airdrop tool
+export const PrepareMerkleAirdropInputSchema = z.object({
+  networkName: z.string(),
+  tokenAddress: addressSchema,
+  proofsPath: z.string().optional(),
+  merkleRoot: bytes32Schema.optional(),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, "Amount must be a token amount").optional(),
+  claimDeadline: z.string().optional(),
+  treasuryAddress: addressSchema.optional(),
+  source: z.enum(['holder', 'treasury']).default('holder'),
+  fromAddress: addressSchema,
+  governorAddress: addressSchema.optional(),
+  description: z.string().min(1).default('Fund the token airdrop'),
+  gasEstimateMultiplier: z.number().min(1).max(3).default(1.2),
+  feeStrategy: FeeStrategySchema
+}).refine(
+  (params) => !!params.proofsPath || (!!params.merkleRoot && !!params.amount),
+  { message: "Provide proofsPath, or merkleRoot and amount" }
+).refine(
+  (params) => params.source !== 'treasury' || params.governorAddress,
+  { message: "Funding from the treasury requires governorAddress" }
+);
+
+/**
+ * Everything a claim page needs: the root to check against the contract and one proof per address
+ */
+export interface AirdropProofs {
+  merkleRoot: Hex;
+  chainId: number;
+  tokenAddress: string;
+  distributorAddress?: string;
+  decimals: number;
+  total: string; // Base units
+  claims: Record<string, MerkleClaim>;
+}
+
+export interface MerkleAirdropBuildResult {
+  status: 'invalid' | 'built';
+  networkName: string;
+  symbol: string;
+  decimals: number;
+  recipients: number;
+  total: string;
+  totalSupply: string;
+  issues: DistributionIssue[];
+  proofs?: AirdropProofs;
+  proofsPath?: string;
+}
+
+export interface MerkleAirdropPreparation {
+  networkName: string;
+  symbol: string;
+  merkleRoot: Hex;
+  amount: string;
+  claimDeadline?: string;
+  treasuryAddress: string;
+  distributorAddress: string;
+  source: 'holder' | 'treasury';
+  deployment: PreparedTransaction;
+  funding?: PreparedTransaction;
+  fundingProposal?: ProposalActions & {
+    proposalId: string;
+    preparedTransaction: PreparedTransaction;
+  };
+  proofsPath?: string;
+}
+
+async function readToken(publicClient: Awaited<ReturnType<typeof createNetworkClient>>, token: Address) {
+  const [symbol, decimals, totalSupply] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }).catch(() => token as string),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'totalSupply' })
+  ]);
+  return { symbol, decimals, totalSupply };
+}
+
+/**
+ * Validate a distribution list and build its claim tree, writing the proofs JSON when outputPath is set
+ */
+export async function buildMerkleAirdrop(
+  input: z.input<typeof BuildMerkleAirdropInputSchema>
+): Promise<MerkleAirdropBuildResult> {
+  try {
+    const params = BuildMerkleAirdropInputSchema.parse(input);
+    const content = params.content ?? await fs.readFile(params.filePath!, 'utf-8');
+    const parsed = parseDistributionList(content, params.format);
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const publicClient = await createNetworkClient(networkConfig);
+    const { symbol, decimals, totalSupply } = await readToken(publicClient, params.tokenAddress as Address);
+
+    const aggregated = aggregateDistribution(parsed.entries, decimals, params.mergeDuplicates);
+    const issues = [...parsed.issues, ...aggregated.issues];
+    if (aggregated.total > totalSupply) {
+      issues.push({
+        severity: 'error',
+        message: `The list totals ${formatUnits(aggregated.total, decimals)} ${symbol}, more than the total supply of ${formatUnits(totalSupply, decimals)}`
+      });
+    }
+
+    const result: MerkleAirdropBuildResult = {
+      status: 'invalid',
+      networkName: params.networkName,
+      symbol,
+      decimals,
+      recipients: aggregated.recipients.length,
+      total: formatUnits(aggregated.total, decimals),
+      totalSupply: formatUnits(totalSupply, decimals),
+      issues
+    };
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return result;
+    }
+
+    const tree = buildMerkleTree(aggregated.recipients);
+    result.status = 'built';
+    result.proofs = {
+      merkleRoot: tree.root,
+      chainId: networkConfig.chainId,
+      tokenAddress: params.tokenAddress,
+      decimals,
+      total: aggregated.total.toString(),
+      claims: tree.claims
+    };
+
+    if (params.outputPath) {
+      await AtomicFileWriter.writeFile(params.outputPath, JSON.stringify(result.proofs, null, 2));
+      result.proofsPath = params.outputPath;
+    }
+
+    return result;
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to build Merkle airdrop: ${error.message}`);
+  }
+}
+
+/**
+ * Prepare the distributor deployment on a pinned nonce, then its funding: a transfer from the
+ * deployer on the next nonce, or a treasury proposal paying the predicted distributor address
+ */
+export async function prepareMerkleAirdrop(
+  input: z.input<typeof PrepareMerkleAirdropInputSchema>
+): Promise<MerkleAirdropPreparation> {
+  try {
+    const params = PrepareMerkleAirdropInputSchema.parse(input);
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const publicClient = await createNetworkClient(networkConfig);
+    const token = params.tokenAddress as Address;
+    const fromAddress = params.fromAddress as Address;
+    const { symbol, decimals } = await readToken(publicClient, token);
+
+    let proofs: AirdropProofs | undefined;
+    if (params.proofsPath) {
+      proofs = JSON.parse(await fs.readFile(params.proofsPath, 'utf-8')) as AirdropProofs;
+      if (proofs.tokenAddress.toLowerCase() !== params.tokenAddress.toLowerCase()) {
+        throw new Error(`${params.proofsPath} was built for token ${proofs.tokenAddress}`);
+      }
+    }
+    const merkleRoot = (proofs?.merkleRoot ?? params.merkleRoot) as Hex;
+    const amount = proofs ? BigInt(proofs.total) : parseUnits(params.amount!, decimals);
+
+    let claimDeadline = 0n;
+    if (params.claimDeadline) {
+      const time = Date.parse(params.claimDeadline);
+      if (Number.isNaN(time) || time <= Date.now()) {
+        throw new Error(`claimDeadline must be a future date, got "${params.claimDeadline}"`);
+      }
+      claimDeadline = BigInt(Math.floor(time / 1000));
+    }
+
+    // Unclaimed tokens are swept to the treasury, which defaults to the governor's timelock
+    let timelock: Address | undefined;
+    if (params.governorAddress) {
+      const governorABI = await loadContractABI('SimpleDAOGovernorUpgradeable');
+      timelock = await publicClient.readContract({
+        address: params.governorAddress as Address,
+        abi: governorABI.abi,
+        functionName: 'timelock',
+        args: []
+      }) as unknown as Address;
+    }
+    const treasury = (params.treasuryAddress as Address | undefined) ?? timelock ?? zeroAddress;
+    if (claimDeadline > 0n && treasury === zeroAddress) {
+      throw new Error('A claim deadline needs treasuryAddress or governorAddress to sweep unclaimed tokens to');
+    }
+
+    const fundingSource = params.source === 'treasury' ? timelock! : fromAddress;
+    const available = await publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [fundingSource] });
+    if (available < amount) {
+      throw new Error(`The airdrop needs ${formatUnits(amount, decimals)} ${symbol} but ${fundingSource} holds ${formatUnits(available, decimals)}`);
+    }
+
+    const distributorABI = await loadContractABI('SimpleDAOMerkleDistributor');
+    if (!distributorABI.bytecode) {
+      throw new TransactionError('No bytecode found for SimpleDAOMerkleDistributor. Please ensure contracts are compiled.');
+    }
+
+    const constructorArgs = [token, merkleRoot, claimDeadline, treasury] as const;
+    const nonce = await getPendingNonce(networkConfig, fromAddress);
+    const deployment = await prepareContractDeployment({
+      networkConfig,
+      contractBytecode: encodeDeployData({
+        abi: distributorABI.abi,
+        bytecode: distributorABI.bytecode as Hex,
+        args: [...constructorArgs]
+      }),
+      constructorArgs: constructorArgs.map(arg => arg.toString()),
+      gasEstimateMultiplier: params.gasEstimateMultiplier,
+      fromAddress,
+      contractName: 'SimpleDAOMerkleDistributor',
+      nonce,
+      feeStrategy: params.feeStrategy
+    });
+    const distributorAddress = deployment.metadata.expectedAddress as Address;
+
+    const result: MerkleAirdropPreparation = {
+      networkName: params.networkName,
+      symbol,
+      merkleRoot,
+      amount: formatUnits(amount, decimals),
+      claimDeadline: claimDeadline > 0n ? new Date(Number(claimDeadline) * 1000).toISOString() : undefined,
+      treasuryAddress: treasury,
+      distributorAddress,
+      source: params.source,
+      deployment
+    };
+
+    if (params.source === 'holder') {
+      result.funding = await prepareContractCall({
+        networkConfig,
+        contractAddress: token,
+        abi: erc20Abi as unknown as any[],
+        functionName: 'transfer',
+        args: [distributorAddress, amount],
+        gasEstimateMultiplier: params.gasEstimateMultiplier,
+        fromAddress,
+        nonce: nonce + 1,
+        feeStrategy: params.feeStrategy
+      });
+      result.funding.metadata.description = `Fund the airdrop with ${formatUnits(amount, decimals)} ${symbol}`;
+    } else {
+      const proposal: ProposalActions = {
+        targets: [params.tokenAddress],
+        values: ['0'],
+        calldatas: [encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [distributorAddress, amount] })],
+        description: params.description
+      };
+      const prepared = await prepareProposal({
+        networkName: params.networkName,
+        governorAddress: params.governorAddress!,
+        proposal,
+        gasEstimateMultiplier: params.gasEstimateMultiplier,
+        feeStrategy: params.feeStrategy,
+        fromAddress: params.fromAddress
+      });
+      result.fundingProposal = { ...proposal, proposalId: prepared.proposalId, preparedTransaction: prepared.preparedTransaction };
+    }
+
+    // Record where the claims live so the proofs file alone is enough for the claim page
+    if (proofs && params.proofsPath) {
+      await AtomicFileWriter.writeFile(params.proofsPath, JSON.stringify({ ...proofs, distributorAddress }, null, 2));
+      result.proofsPath = params.proofsPath;
+    }
+
+    return result;
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to prepare Merkle airdrop: ${error.message}`);
+  }
+}
+
+const INLINE_PROOFS_LIMIT = 20;
+
+/**
+ * Format a built airdrop tree for display
+ */
+export function formatMerkleAirdropBuildResult(result: MerkleAirdropBuildResult): string {
+  const errors = result.issues.filter(issue => issue.severity === 'error');
+  const warnings = result.issues.filter(issue => issue.severity === 'warning');
+  const describeIssue = (issue: DistributionIssue) => `- ${issue.line ? `Line ${issue.line}: ` : ''}${issue.message}`;
+
+  const lines = [
+    result.status === 'invalid' ? '# ❌ Airdrop List Has Errors' : '# 🌳 Merkle Airdrop Built',
+    '',
+    `**Network:** ${result.networkName}`,
+    `**Recipients:** ${result.recipients}`,
+    `**Total:** ${result.total} ${result.symbol} (total supply ${result.totalSupply})`,
+    ''
+  ];
+
+  if (errors.length > 0) {
+    lines.push('## ❌ Errors', '', ...errors.map(describeIssue), '');
+  }
+  if (warnings.length > 0) {
+    lines.push('## ⚠️ Warnings', '', ...warnings.map(describeIssue), '');
+  }
+
+  if (result.status === 'invalid' || !result.proofs) {
+    lines.push('Fix the errors above and run build-merkle-airdrop again.', '');
+    return lines.join('\n');
+  }
+
+  lines.push(`**Merkle Root:** \`${result.proofs.merkleRoot}\``, '');
+
+  if (result.proofsPath) {
+    lines.push(`Proofs for every recipient were written to \`${result.proofsPath}\`.`, '');
+  } else if (result.recipients <= INLINE_PROOFS_LIMIT) {
+    lines.push('## 📄 Proofs', '', '```json', JSON.stringify(result.proofs, null, 2), '```', '');
+  } else {
+    lines.push('The proofs are too large to show inline. Run again with outputPath to save them.', '');
+  }
+
+  lines.push(
+    'Next, run prepare-merkle-airdrop with this root (or the proofs file) to deploy and fund the claim contract.',
+    'Publish the proofs JSON where recipients can load it on the DAO claim page.',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the distributor deployment and funding transactions for display
+ */
+export function formatMerkleAirdropPreparation(result: MerkleAirdropPreparation): string {
+  const lines = [
+    '# 🪂 Merkle Airdrop Prepared',
+    '',
+    `**Network:** ${result.networkName}`,
+    `**Merkle Root:** \`${result.merkleRoot}\``,
+    `**Amount:** ${result.amount} ${result.symbol}`,
+    `**Distributor:** ${result.distributorAddress} (predicted from the deployment nonce)`,
+    result.claimDeadline
+      ? `**Claim Deadline:** ${result.claimDeadline}, then unclaimed tokens can be swept to ${result.treasuryAddress}`
+      : '**Claim Deadline:** None, claims stay open',
+    '',
+    '## 1️⃣ Deploy the Distributor',
+    '',
+    `**Estimated Cost:** ${formatEstimatedCost(result.deployment.metadata)}`,
+    '',
+    '```json',
+    JSON.stringify(result.deployment.unsignedTransaction, null, 2),
+    '```',
+    ''
+  ];
+
+  if (result.funding) {
+    lines.push(
+      '## 2️⃣ Fund It',
+      '',
+      `${result.funding.metadata.description}. Uses the next nonce, so broadcast it after the deployment.`,
+      '',
+      '```json',
+      JSON.stringify(result.funding.unsignedTransaction, null, 2),
+      '```',
+      ''
+    );
+  }
+
+  if (result.fundingProposal) {
+    lines.push(
+      '## 2️⃣ Propose Funding From the Treasury',
+      '',
+      `**Proposal ID:** ${result.fundingProposal.proposalId}`,
+      `**Description:** ${result.fundingProposal.description}`,
+      `**Estimated Cost:** ${formatEstimatedCost(result.fundingProposal.preparedTransaction.metadata)}`,
+      '',
+      '```json',
+      JSON.stringify(result.fundingProposal.preparedTransaction.unsignedTransaction, null, 2),
+      '```',
+      '',
+      'Claims fail until the proposal is executed and the distributor holds the tokens.',
+      ''
+    );
+  }
+
+  if (result.proofsPath) {
+    lines.push(`The distributor address was added to \`${result.proofsPath}\`.`, '');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { assessNetworkHealth, EndpointStatus, NetworkHealthReport, STALE_BLOCK_LAG } from '../utils/rpc.js';
+import { NetworkError } from '../types/index.js';
+
+// Input validation schema for the check-network-health tool
+export const CheckNetworkHealthInputSchema = z.object({
+  networkName: z.string(),
+  format: z.enum(['markdown', 'json']).default('markdown')
+});
+
+const STATUS_ICONS: Record<EndpointStatus, string> = {
+  healthy: '✅',
+  stale: '🐢',
+  unreachable: '❌',
+  'wrong-chain': '⛔'
+};
+
+/**
+ * Probe every configured RPC endpoint of a network and report how each one ranks
+ */
+export async function checkNetworkHealth(input: z.infer<typeof CheckNetworkHealthInputSchema>): Promise<NetworkHealthReport> {
+  try {
+    const params = CheckNetworkHealthInputSchema.parse(input);
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+
+    return await assessNetworkHealth(networkConfig);
+
+  } catch (error: any) {
+    throw new NetworkError(`Failed to check network health: ${error.message}`);
+  }
+}
+
+/**
+ * Format a network health report for display
+ */
+export function formatNetworkHealthReport(report: NetworkHealthReport, format: 'markdown' | 'json' = 'markdown'): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const sections = [
+    '# 🩺 Network Health',
+    '',
+    `**Network:** ${report.networkName} (Chain ID: ${report.chainId})`,
+    `**Healthy Endpoints:** ${report.healthyCount} of ${report.endpoints.length}`,
+    `**Checked At:** ${report.checkedAt}`,
+    ''
+  ];
+
+  if (report.endpoints.length === 0) {
+    sections.push('⚠️ No usable RPC endpoint is configured. Set the API key the primary rpcUrl needs.', '');
+    return sections.join('\n');
+  }
+
+  sections.push(
+    '| Rank | Endpoint | Status | Latency | Block | Error Rate |',
+    '|------|----------|--------|---------|-------|------------|',
+    ...report.endpoints.map(endpoint => {
+      const behind = endpoint.blocksBehind ? ` (-${endpoint.blocksBehind})` : '';
+      const errorRate = endpoint.requests > 0 ? `${Math.round((endpoint.failures / endpoint.requests) * 100)}% of ${endpoint.requests}` : '-';
+      return `| ${endpoint.rank ?? '-'} | ${endpoint.url} | ${STATUS_ICONS[endpoint.status]} ${endpoint.status} | ${endpoint.latencyMs !== undefined ? `${endpoint.latencyMs} ms` : '-'} | ${endpoint.blockNumber ?? '-'}${behind} | ${errorRate} |`;
+    }),
+    ''
+  );
+
+  const problems = report.endpoints.filter(endpoint => endpoint.status !== 'healthy');
+  if (problems.length > 0) {
+    sections.push(
+      '## ⚠️ Problems',
+      '',
+      ...problems.map(endpoint => {
+        switch (endpoint.status) {
+          case 'wrong-chain':
+            return `- ${endpoint.url} serves chain ${endpoint.chainId}, not ${report.chainId}. It is never used.`;
+          case 'stale':
+            return `- ${endpoint.url} is ${endpoint.blocksBehind} blocks behind (more than ${STALE_BLOCK_LAG}). It is only used when the healthy endpoints fail.`;
+          default:
+            return `- ${endpoint.url} is unreachable${endpoint.error ? `: ${endpoint.error}` : ''}`;
+        }
+      }),
+      ''
+    );
+  }
+
+  sections.push(
+    'Requests go to the highest ranked endpoint and fail over down the list. Rankings weigh latency and error rate.',
+    ''
+  );
+
+  return sections.join('\n');
+}
@@ -0,0 +1,384 @@
+import { z } from 'zod';
+import {
+  Abi,
+  Address,
+  BaseError,
+  Hex,
+  Log,
+  PublicClient,
+  StateOverride,
+  decodeErrorResult,
+  decodeFunctionResult,
+  getContractAddress,
+  maxUint96,
+  toFunctionSelector
+} from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadAllContractABIs, loadContractABI } from '../utils/contracts.js';
+import { createNetworkClient, redactRpcUrl } from '../utils/rpc.js';
+import { getPreparedTransaction } from '../utils/signed-transactions.js';
+import { decodeDAODeployedEvent } from './deploy-dao-via-factory.js';
+import { PreparedTransaction, TransactionError } from '../types/index.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+// Largest contract runtime code the network accepts (EIP-170)
+const MAX_CODE_SIZE = 24576;
+
+// Account state to replace before the call runs, in the JSON-friendly form tools receive
+const StateOverrideInputSchema = z.object({
+  address: addressSchema,
+  balance: z.string().regex(/^\d+$/, 'Balance must be in wei').optional(),
+  nonce: z.number().int().min(0).optional(),
+  code: z.string().startsWith('0x').optional(),
+  stateDiff: z.record(z.string().startsWith('0x'), z.string().startsWith('0x')).optional()
+});
+
+// Input validation schema for the simulate-transaction tool
+export const SimulateTransactionInputSchema = z.object({
+  networkName: z.string(),
+  preparedTransactionId: z.string().startsWith('0x').optional(),
+  unsignedTransaction: z.object({
+    to: addressSchema.nullable().optional(),
+    value: z.string().default('0'),
+    data: z.string().startsWith('0x'),
+    gas: z.string().optional(),
+    nonce: z.number().int().min(0).optional()
+  }).optional(),
+  from: addressSchema.optional(),
+  rpcUrl: z.string().url().optional(),
+  stateOverrides: z.array(StateOverrideInputSchema).default([]),
+  fundSender: z.boolean().default(false)
+}).refine(params => params.preparedTransactionId || params.unsignedTransaction, {
+  message: 'Provide a preparedTransactionId or an unsignedTransaction'
+});
+
+export interface SimulatedDAODeployment {
+  deployer: string;
+  token: string;
+  governor: string;
+  timelock: string;
+  name?: string;
+  source: 'event' | 'return-value';
+}
+
+export interface SimulationResult {
+  networkName: string;
+  endpoint?: string;
+  method: 'eth_simulateV1' | 'eth_call';
+  transactionType: PreparedTransaction['transactionType'];
+  description?: string;
+  from?: string;
+  to: string | null;
+  success: boolean;
+  gasUsed?: string;
+  gasLimit?: string;
+  returnData: Hex;
+  revertReason?: string;
+  contractAddress?: string;
+  deployedCodeSize?: number;
+  daoDeployed?: SimulatedDAODeployment;
+  logCount?: number;
+  stateOverrideCount: number;
+  warnings: string[];
+}
+
+interface SimulationRequest {
+  account?: Address;
+  to: Address | null;
+  data: Hex;
+  value: bigint;
+  gas?: bigint;
+}
+
+interface CallOutcome {
+  method: SimulationResult['method'];
+  success: boolean;
+  returnData: Hex;
+  gasUsed?: bigint;
+  logs?: Log[];
+}
+
+/**
+ * Turn tool input overrides into viem state overrides, optionally funding the sender
+ */
+function buildStateOverride(
+  overrides: z.infer<typeof StateOverrideInputSchema>[],
+  sender: Address | undefined,
+  fundSender: boolean
+): StateOverride {
+  const stateOverride: StateOverride = overrides.map(override => ({
+    address: override.address as Address,
+    balance: override.balance !== undefined ? BigInt(override.balance) : undefined,
+    nonce: override.nonce,
+    code: override.code as Hex | undefined,
+    stateDiff: override.stateDiff
+      ? Object.entries(override.stateDiff).map(([slot, value]) => ({ slot: slot as Hex, value: value as Hex }))
+      : undefined
+  }));
+
+  if (fundSender && sender) {
+    const existing = stateOverride.find(override => override.address.toLowerCase() === sender.toLowerCase());
+    if (existing) {
+      existing.balance = existing.balance ?? maxUint96;
+    } else {
+      stateOverride.push({ address: sender, balance: maxUint96 });
+    }
+  }
+
+  return stateOverride;
+}
+
+/**
+ * Find the revert data carried somewhere in a viem error chain
+ */
+function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+  const withData = error.walk(cause => typeof (cause as any)?.data === 'string' && (cause as any).data.startsWith('0x')) as any;
+  return withData?.data;
+}
+
+/**
+ * Run the call through eth_simulateV1 for logs and exact gas, falling back to eth_call and
+ * eth_estimateGas on nodes that do not implement it
+ */
+async function runCall(publicClient: PublicClient, request: SimulationRequest, stateOverride: StateOverride): Promise<CallOutcome> {
+  try {
+    const [block] = await publicClient.simulateBlocks({
+      blocks: [{
+        calls: [{ account: request.account, to: request.to, data: request.data, value: request.value, gas: request.gas }],
+        stateOverrides: stateOverride.length > 0 ? stateOverride : undefined
+      }]
+    });
+    const [call] = block.calls;
+    return {
+      method: 'eth_simulateV1',
+      success: call.status === 'success',
+      returnData: call.data,
+      gasUsed: call.gasUsed,
+      logs: call.logs
+    };
+  } catch (error) {
+    // eth_simulateV1 is not available everywhere; eth_call still answers whether the call succeeds
+  }
+
+  const callRequest = {
+    account: request.account,
+    to: request.to ?? undefined,
+    data: request.data,
+    value: request.value,
+    gas: request.gas,
+    stateOverride: stateOverride.length > 0 ? stateOverride : undefined
+  };
+
+  try {
+    const { data } = await publicClient.call(callRequest);
+    const gasUsed = await publicClient.estimateGas(callRequest as any).catch(() => undefined);
+    return { method: 'eth_call', success: true, returnData: data ?? '0x', gasUsed };
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined) {
+      throw error;
+    }
+    return { method: 'eth_call', success: false, returnData: revertData };
+  }
+}
+
+/**
+ * Decode revert data with the project ABIs, falling back to the raw selector
+ */
+export function decodeRevertReason(data: Hex, abis: Abi[]): string {
+  if (!data || data === '0x') {
+    return 'Reverted without a reason';
+  }
+
+  const errors = abis.flatMap(abi => abi.filter(item => item.type === 'error'));
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: errors, data });
+    if (errorName === 'Error' && args?.length === 1) {
+      return String(args[0]);
+    }
+    return `${errorName}(${(args ?? []).map(arg => String(arg)).join(', ')})`;
+  } catch (error) {
+    return `Unknown error ${data.slice(0, 10)}`;
+  }
+}
+
+/**
+ * Resolve the transaction to simulate from a prepared transaction ID or explicit fields
+ */
+function resolveTransaction(params: z.infer<typeof SimulateTransactionInputSchema>): PreparedTransaction | Pick<PreparedTransaction, 'unsignedTransaction'> {
+  if (params.preparedTransactionId) {
+    const preparedTx = getPreparedTransaction(params.preparedTransactionId);
+    if (!preparedTx) {
+      throw new TransactionError(`Prepared transaction not found: ${params.preparedTransactionId}. Prepared transactions are only kept while the server runs; pass the unsignedTransaction instead.`);
+    }
+    return preparedTx;
+  }
+
+  return { unsignedTransaction: { ...params.unsignedTransaction!, to: params.unsignedTransaction!.to ?? null } };
+}
+
+/**
+ * Simulate a prepared transaction with eth_call and optional state overrides, before anyone signs it
+ */
+export async function simulateTransaction(input: z.infer<typeof SimulateTransactionInputSchema>): Promise<SimulationResult> {
+  try {
+    const params = SimulateTransactionInputSchema.parse(input);
+    const transaction = resolveTransaction(params);
+    const { unsignedTransaction } = transaction;
+    const metadata = 'metadata' in transaction ? transaction.metadata : undefined;
+
+    // An rpcUrl such as a local Anvil fork replaces the network's endpoints; its chain ID is still verified
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const publicClient = await createNetworkClient(
+      params.rpcUrl ? { ...networkConfig, rpcUrl: params.rpcUrl, fallbackRpcUrls: [] } : networkConfig
+    );
+
+    const from = (params.from ?? metadata?.fromAddress) as Address | undefined;
+    const stateOverride = buildStateOverride(params.stateOverrides, from, params.fundSender);
+    const request: SimulationRequest = {
+      account: from,
+      to: unsignedTransaction.to as Address | null,
+      data: unsignedTransaction.data as Hex,
+      value: BigInt(unsignedTransaction.value || 0),
+      gas: unsignedTransaction.gas ? BigInt(unsignedTransaction.gas) : undefined
+    };
+
+    const outcome = await runCall(publicClient, request, stateOverride);
+    const projectAbis = Object.values(await loadAllContractABIs()).map(contract => contract.abi as Abi);
+    const warnings: string[] = [];
+
+    if (!from) {
+      warnings.push('No sender given, so the call ran from the zero address. Pass from to simulate the real signer.');
+    }
+    if (outcome.gasUsed !== undefined && request.gas !== undefined && outcome.gasUsed > request.gas) {
+      warnings.push(`Gas used (${outcome.gasUsed}) exceeds the prepared gas limit (${request.gas}). The signed transaction would run out of gas.`);
+    }
+
+    const result: SimulationResult = {
+      networkName: params.networkName,
+      endpoint: params.rpcUrl ? redactRpcUrl(params.rpcUrl) : undefined,
+      method: outcome.method,
+      transactionType: 'transactionType' in transaction ? transaction.transactionType : (request.to ? 'contract_call' : 'contract_deployment'),
+      description: metadata?.description,
+      from,
+      to: request.to,
+      success: outcome.success,
+      gasUsed: outcome.gasUsed?.toString(),
+      gasLimit: request.gas?.toString(),
+      returnData: outcome.returnData,
+      logCount: outcome.logs?.length,
+      stateOverrideCount: stateOverride.length,
+      warnings
+    };
+
+    if (!outcome.success) {
+      return { ...result, revertReason: decodeRevertReason(outcome.returnData, projectAbis) };
+    }
+
+    if (!request.to) {
+      // eth_call of creation code returns the runtime code the contract would have
+      result.deployedCodeSize = (outcome.returnData.length - 2) / 2;
+      if (result.deployedCodeSize > MAX_CODE_SIZE) {
+        warnings.push(`Runtime code is ${result.deployedCodeSize} bytes, above the ${MAX_CODE_SIZE} byte limit. Mainnet and most L2s will reject the deployment.`);
+      }
+
+      if (from) {
+        const override = stateOverride.find(entry => entry.address.toLowerCase() === from.toLowerCase());
+        const nonce = unsignedTransaction.nonce
+          ?? override?.nonce
+          ?? await publicClient.getTransactionCount({ address: from, blockTag: 'pending' });
+        result.contractAddress = getContractAddress({ from, nonce: BigInt(nonce) });
+
+        if (metadata?.expectedAddress && metadata.expectedAddress.toLowerCase() !== result.contractAddress.toLowerCase()) {
+          warnings.push(`Predicted address ${result.contractAddress} differs from the prepared expectedAddress ${metadata.expectedAddress}. The sender's nonce has moved since preparation.`);
+        }
+      }
+      return result;
+    }
+
+    const factoryAbi = await loadContractABI('SimpleDAOFactoryV2').then(contract => contract.abi as Abi).catch(() => undefined);
+    const deployDAOItem = factoryAbi?.find(item => item.type === 'function' && item.name === 'deployDAO');
+    if (factoryAbi && deployDAOItem && request.data.startsWith(toFunctionSelector(deployDAOItem as any))) {
+      const event = outcome.logs ? decodeDAODeployedEvent(outcome.logs, factoryAbi as any[], request.to) : undefined;
+      if (event) {
+        result.daoDeployed = { ...event, source: 'event' };
+      } else {
+        const [token, governor, timelock] = decodeFunctionResult({
+          abi: factoryAbi,
+          functionName: 'deployDAO',
+          data: outcome.returnData
+        }) as readonly [Address, Address, Address];
+        result.daoDeployed = { deployer: from ?? '0x0000000000000000000000000000000000000000', token, governor, timelock, source: 'return-value' };
+      }
+    }
+
+    return result;
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to simulate transaction: ${error.message}`);
+  }
+}
+
+/**
+ * Format a simulation result for display
+ */
+export function formatSimulationResult(result: SimulationResult): string {
+  const sections = [
+    '# 🧪 Transaction Simulation',
+    '',
+    `**Result:** ${result.success ? '✅ Succeeds' : '❌ Reverts'}`,
+    `**Network:** ${result.networkName}${result.endpoint ? ` via ${result.endpoint}` : ''}`,
+    ...(result.description ? [`**Transaction:** ${result.description}`] : []),
+    `**From:** ${result.from ?? 'zero address'}`,
+    `**To:** ${result.to ?? 'Contract Deployment'}`,
+    `**Gas Used:** ${result.gasUsed ?? 'Unknown'}${result.gasLimit ? ` of ${result.gasLimit} limit` : ''}`,
+    `**Simulated With:** ${result.method}${result.stateOverrideCount > 0 ? `, ${result.stateOverrideCount} state override(s)` : ''}`,
+    ''
+  ];
+
+  if (result.revertReason) {
+    sections.push('## ❌ Revert Reason', '', `\`${result.revertReason}\``, '');
+  }
+
+  if (result.success && result.to === null) {
+    sections.push(
+      '## 📍 Deployment',
+      '',
+      `- **Contract Address:** ${result.contractAddress ? `\`${result.contractAddress}\`` : 'Unknown without a sender'}`,
+      `- **Runtime Code Size:** ${result.deployedCodeSize} bytes`,
+      ''
+    );
+  }
+
+  if (result.daoDeployed) {
+    sections.push(
+      `## 🏛️ DAODeployed${result.daoDeployed.source === 'return-value' ? ' (from return values; this node does not return logs)' : ''}`,
+      '',
+      ...(result.daoDeployed.name ? [`- **Name:** ${result.daoDeployed.name}`] : []),
+      `- **Token:** \`${result.daoDeployed.token}\``,
+      `- **Governor:** \`${result.daoDeployed.governor}\``,
+      `- **Timelock:** \`${result.daoDeployed.timelock}\``,
+      `- **Deployer:** \`${result.daoDeployed.deployer}\``,
+      ''
+    );
+  }
+
+  if (result.warnings.length > 0) {
+    sections.push('## ⚠️ Warnings', '', ...result.warnings.map(warning => `- ${warning}`), '');
+  }
+
+  sections.push(
+    result.success
+      ? 'Nothing was broadcast. Results reflect current chain state plus any overrides and can change before the transaction is mined.'
+      : 'Nothing was broadcast. Fix the cause above before asking anyone to sign.',
+    ''
+  );
+
+  return sections.join('\n');
+}
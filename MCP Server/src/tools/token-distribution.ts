@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { Address, Hex, encodeFunctionData, erc20Abi, formatUnits } from 'viem';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { loadContractABI } from '../utils/contracts.js';
+import { createNetworkClient } from '../utils/rpc.js';
+import { getPendingNonce, prepareContractCall } from '../utils/transactions.js';
+import { formatEstimatedCost } from '../utils/fees.js';
+import {
+  aggregateDistribution,
+  chunkRecipients,
+  parseDistributionList,
+  type DistributionIssue
+} from '../utils/distribution-list.js';
+import { FeeStrategySchema, PreparedTransaction, TransactionError } from '../types/index.js';
+import { prepareProposal, type ProposalActions } from './governance-proposals.js';
+
+const addressSchema = z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+  message: "Invalid Ethereum address format"
+});
+
+// Input validation schema for the prepare-token-distribution tool
+export const PrepareTokenDistributionInputSchema = z.object({
+  networkName: z.string(),
+  tokenAddress: addressSchema,
+  content: z.string().optional(),
+  filePath: z.string().optional(),
+  format: z.enum(['csv', 'json']).optional(),
+  source: z.enum(['holder', 'treasury']).default('holder'),
+  fromAddress: addressSchema.optional(),
+  governorAddress: addressSchema.optional(),
+  description: z.string().min(1).default('Token distribution'),
+  chunkSize: z.number().int().min(1).max(200).default(50),
+  mergeDuplicates: z.boolean().default(false),
+  previewOnly: z.boolean().default(false),
+  gasEstimateMultiplier: z.number().min(1).max(3).default(1.2),
+  feeStrategy: FeeStrategySchema
+}).refine(
+  (params) => !!params.content !== !!params.filePath,
+  { message: "Provide exactly one of content or filePath" }
+).refine(
+  (params) => params.source !== 'holder' || params.fromAddress,
+  { message: "Distributing from a holder requires fromAddress" }
+).refine(
+  (params) => params.source !== 'treasury' || params.governorAddress,
+  { message: "Distributing from the treasury requires governorAddress" }
+);
+
+export interface DistributionPreviewRow {
+  address: string;
+  amount: string;
+  amountRaw: string;
+  lines: number[];
+}
+
+/**
+ * A slice of the list: direct transfers from a holder, or one governance proposal
+ * whose actions transfer from the timelock
+ */
+export interface DistributionChunk {
+  index: number;
+  recipients: number;
+  total: string;
+  transactions?: PreparedTransaction[];
+  proposal?: ProposalActions & {
+    proposalId: string;
+    preparedTransaction: PreparedTransaction;
+  };
+}
+
+export interface TokenDistributionResult {
+  status: 'invalid' | 'preview' | 'prepared';
+  networkName: string;
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  source: 'holder' | 'treasury';
+  sourceAddress: string;
+  recipients: DistributionPreviewRow[];
+  total: string;
+  totalSupply: string;
+  available: string;
+  issues: DistributionIssue[];
+  chunks: DistributionChunk[];
+}
+
+/**
+ * Validate a distribution list against the token, then prepare chunked transfers from a
+ * holder or chunked treasury proposals. Nothing is prepared while the list has errors.
+ */
+export async function prepareTokenDistribution(
+  input: z.input<typeof PrepareTokenDistributionInputSchema>
+): Promise<TokenDistributionResult> {
+  try {
+    const params = PrepareTokenDistributionInputSchema.parse(input);
+    const content = params.content ?? await fs.readFile(params.filePath!, 'utf-8');
+    const parsed = parseDistributionList(content, params.format);
+
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(params.networkName));
+    const publicClient = await createNetworkClient(networkConfig);
+    const token = params.tokenAddress as Address;
+
+    // Treasury transfers are executed by the timelock behind the governor
+    let sourceAddress = params.fromAddress as Address;
+    if (params.source === 'treasury') {
+      const governorABI = await loadContractABI('SimpleDAOGovernorUpgradeable');
+      sourceAddress = await publicClient.readContract({
+        address: params.governorAddress as Address,
+        abi: governorABI.abi,
+        functionName: 'timelock',
+        args: []
+      }) as unknown as Address;
+    }
+
+    const [symbol, decimals, totalSupply, available] = await Promise.all([
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }).catch(() => params.tokenAddress),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'totalSupply' }),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [sourceAddress] })
+    ]);
+
+    const aggregated = aggregateDistribution(parsed.entries, decimals, params.mergeDuplicates);
+    const issues = [...parsed.issues, ...aggregated.issues];
+    if (aggregated.total > available) {
+      issues.push({
+        severity: 'error',
+        message: `The list totals ${formatUnits(aggregated.total, decimals)} ${symbol} but ${sourceAddress} holds ${formatUnits(available, decimals)}`
+      });
+    }
+
+    const result: TokenDistributionResult = {
+      status: 'invalid',
+      networkName: params.networkName,
+      tokenAddress: params.tokenAddress,
+      symbol,
+      decimals,
+      source: params.source,
+      sourceAddress,
+      recipients: aggregated.recipients.map(recipient => ({
+        address: recipient.address,
+        amount: formatUnits(recipient.amount, decimals),
+        amountRaw: recipient.amount.toString(),
+        lines: recipient.lines
+      })),
+      total: formatUnits(aggregated.total, decimals),
+      totalSupply: formatUnits(totalSupply, decimals),
+      available: formatUnits(available, decimals),
+      issues,
+      chunks: []
+    };
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return result;
+    }
+
+    const chunks = chunkRecipients(aggregated.recipients, params.chunkSize);
+    const chunkTotal = (chunk: typeof aggregated.recipients) =>
+      formatUnits(chunk.reduce((sum, recipient) => sum + recipient.amount, 0n), decimals);
+
+    if (params.previewOnly) {
+      result.status = 'preview';
+      result.chunks = chunks.map((chunk, index) => ({ index, recipients: chunk.length, total: chunkTotal(chunk) }));
+      return result;
+    }
+
+    if (params.source === 'holder') {
+      // Pin consecutive nonces so the whole list can be signed up front
+      let nonce = await getPendingNonce(networkConfig, sourceAddress);
+      for (const [index, chunk] of chunks.entries()) {
+        const transactions: PreparedTransaction[] = [];
+        for (const recipient of chunk) {
+          const preparedTx = await prepareContractCall({
+            networkConfig,
+            contractAddress: token,
+            abi: erc20Abi,
+            functionName: 'transfer',
+            args: [recipient.address, recipient.amount],
+            gasEstimateMultiplier: params.gasEstimateMultiplier,
+            fromAddress: sourceAddress,
+            nonce: nonce++,
+            feeStrategy: params.feeStrategy
+          });
+          preparedTx.metadata.description = `Transfer ${formatUnits(recipient.amount, decimals)} ${symbol} to ${recipient.address}`;
+          transactions.push(preparedTx);
+        }
+        result.chunks.push({ index, recipients: chunk.length, total: chunkTotal(chunk), transactions });
+      }
+    } else {
+      for (const [index, chunk] of chunks.entries()) {
+        const proposal: ProposalActions = {
+          targets: chunk.map(() => params.tokenAddress),
+          values: chunk.map(() => '0'),
+          calldatas: chunk.map(recipient => encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'transfer',
+            args: [recipient.address as Address, recipient.amount]
+          }) as Hex),
+          description: chunks.length > 1
+            ? `${params.description} (part ${index + 1} of ${chunks.length})`
+            : params.description
+        };
+        const prepared = await prepareProposal({
+          networkName: params.networkName,
+          governorAddress: params.governorAddress!,
+          proposal,
+          gasEstimateMultiplier: params.gasEstimateMultiplier,
+          feeStrategy: params.feeStrategy,
+          fromAddress: params.fromAddress
+        });
+        result.chunks.push({
+          index,
+          recipients: chunk.length,
+          total: chunkTotal(chunk),
+          proposal: { ...proposal, proposalId: prepared.proposalId, preparedTransaction: prepared.preparedTransaction }
+        });
+      }
+    }
+
+    result.status = 'prepared';
+    return result;
+
+  } catch (error: any) {
+    throw new TransactionError(`Failed to prepare token distribution: ${error.message}`);
+  }
+}
+
+const PREVIEW_ROWS = 50;
+
+/**
+ * Format a token distribution preview and its prepared chunks for display
+ */
+export function formatTokenDistributionResult(result: TokenDistributionResult): string {
+  const errors = result.issues.filter(issue => issue.severity === 'error');
+  const warnings = result.issues.filter(issue => issue.severity === 'warning');
+  const describeIssue = (issue: DistributionIssue) => `- ${issue.line ? `Line ${issue.line}: ` : ''}${issue.message}`;
+
+  const lines = [
+    result.status === 'invalid' ? '# ❌ Token Distribution Has Errors' : '# 📦 Token Distribution',
+    '',
+    `**Token:** ${result.symbol} (${result.tokenAddress})`,
+    `**Network:** ${result.networkName}`,
+    `**Source:** ${result.source === 'treasury' ? `DAO treasury ${result.sourceAddress}` : result.sourceAddress}`,
+    `**Recipients:** ${result.recipients.length}`,
+    `**Total:** ${result.total} ${result.symbol} of ${result.available} available (total supply ${result.totalSupply})`,
+    ''
+  ];
+
+  if (errors.length > 0) {
+    lines.push('## ❌ Errors', '', ...errors.map(describeIssue), '');
+  }
+  if (warnings.length > 0) {
+    lines.push('## ⚠️ Warnings', '', ...warnings.map(describeIssue), '');
+  }
+
+  if (result.recipients.length > 0) {
+    lines.push(
+      '## 👥 Preview',
+      '',
+      '| # | Address | Amount |',
+      '|---|---------|--------|',
+      ...result.recipients.slice(0, PREVIEW_ROWS).map((recipient, index) =>
+        `| ${index + 1} | ${recipient.address} | ${recipient.amount} ${result.symbol} |`)
+    );
+    if (result.recipients.length > PREVIEW_ROWS) {
+      lines.push(`| … | ${result.recipients.length - PREVIEW_ROWS} more | |`);
+    }
+    lines.push('');
+  }
+
+  if (result.status === 'invalid') {
+    lines.push('Fix the errors above and run prepare-token-distribution again. No transactions were prepared.', '');
+    return lines.join('\n');
+  }
+
+  for (const chunk of result.chunks) {
+    lines.push(`## 🧩 Chunk ${chunk.index + 1} of ${result.chunks.length}: ${chunk.recipients} recipients, ${chunk.total} ${result.symbol}`, '');
+
+    if (chunk.transactions) {
+      lines.push(
+        '```json',
+        JSON.stringify(chunk.transactions.map(tx => tx.unsignedTransaction), null, 2),
+        '```',
+        ''
+      );
+    }
+    if (chunk.proposal) {
+      lines.push(
+        `**Proposal ID:** ${chunk.proposal.proposalId}`,
+        `**Description:** ${chunk.proposal.description}`,
+        `**Estimated Cost:** ${formatEstimatedCost(chunk.proposal.preparedTransaction.metadata)}`,
+        '',
+        '```json',
+        JSON.stringify(chunk.proposal.preparedTransaction.unsignedTransaction, null, 2),
+        '```',
+        ''
+      );
+    }
+  }
+
+  if (result.status === 'preview') {
+    lines.push('Preview only. Run again without previewOnly to prepare the transactions.', '');
+  } else if (result.source === 'holder') {
+    lines.push('Each transfer is pinned to a consecutive nonce. Sign and broadcast them in order with your MCP Ledger server.', '');
+  } else {
+    lines.push('Each chunk is a separate proposal. Keep the description exactly as shown, since prepare-queue and prepare-execute need it.', '');
+  }
+
+  return lines.join('\n');
+}
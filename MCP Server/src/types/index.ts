@@ -23,12 +23,18 @@ export const NetworkConfigSchema = z.object({
 
 export type NetworkConfig = z.infer<typeof NetworkConfigSchema>;
 
+// Fee strategy for prepared transactions: priority fee percentile and base fee headroom
+export const FeeStrategySchema = z.enum(['slow', 'standard', 'fast']).default('standard');
+
+export type FeeStrategy = z.infer<typeof FeeStrategySchema>;
+
 // Factory Deployment Configuration Schema
 export const FactoryDeploymentConfigSchema = z.object({
   networkName: z.string(),
   factoryVersion: z.enum(['v1', 'v2']).default('v2'),
   verifyContract: z.boolean().default(true),
   gasEstimateMultiplier: z.number().default(1.2),
+  feeStrategy: FeeStrategySchema,
   fromAddress: z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
     message: "Invalid Ethereum address format"
   }).optional()
@@ -47,17 +53,19 @@ export const DAODeploymentConfigSchema = z.object({
   tokenSymbol: z.string().min(1, "Token symbol is required").max(10, "Token symbol too long"),
   initialSupply: z.string().regex(/^\d+$/, "Initial supply must be a number"),
   governorSettings: z.object({
-    votingDelay: z.number().min(1, "Voting delay must be at least 1 block"),
-    votingPeriod: z.number().min(100, "Voting period must be at least 100 blocks"), 
+    votingDelay: z.number().min(1, "Voting delay must be at least 1 second"),
+    votingPeriod: z.number().min(3600, "Voting period must be at least 1 hour (3600 seconds)"),
     proposalThreshold: z.string().regex(/^\d+$/, "Proposal threshold must be a number"),
     quorumPercentage: z.number().min(1).max(100, "Quorum must be between 1-100%")
   }),
   timelockSettings: z.object({
     minDelay: z.number().min(0, "Min delay cannot be negative"),
     proposers: z.array(z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42)),
-    executors: z.array(z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42))
+    executors: z.array(z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42)),
+    retainAdmin: z.boolean().default(false)
   }),
   verifyContracts: z.boolean().default(true),
+  feeStrategy: FeeStrategySchema,
   fromAddress: z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
     message: "Invalid Ethereum address format"
   }).optional()
@@ -65,6 +73,39 @@ export const DAODeploymentConfigSchema = z.object({
 
 export type DAODeploymentConfig = z.infer<typeof DAODeploymentConfigSchema>;
 
+// SimpleDAOFactoryV2.DAOConfig struct (all uint256 fields as base-10 strings)
+export const FactoryDAOConfigSchema = z.object({
+  tokenName: z.string(),
+  tokenSymbol: z.string(),
+  initialSupply: z.string().regex(/^\d+$/, "Initial supply must be a number"),
+  votingDelay: z.string().regex(/^\d+$/, "Voting delay must be a number"),
+  votingPeriod: z.string().regex(/^\d+$/, "Voting period must be a number"),
+  proposalThreshold: z.string().regex(/^\d+$/, "Proposal threshold must be a number"),
+  quorumPercentage: z.string().regex(/^\d+$/, "Quorum percentage must be a number"),
+  timelockDelay: z.string().regex(/^\d+$/, "Timelock delay must be a number")
+});
+
+export type FactoryDAOConfig = z.infer<typeof FactoryDAOConfigSchema>;
+
+// Single-transaction DAO deployment through SimpleDAOFactoryV2.deployDAO
+export const FactoryDAODeploymentConfigSchema = z.object({
+  networkName: z.string(),
+  factoryAddress: z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+    message: "Invalid Ethereum address format"
+  }),
+  daoConfig: FactoryDAOConfigSchema,
+  recipient: z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+    message: "Invalid Ethereum address format"
+  }),
+  gasEstimateMultiplier: z.number().default(1.2),
+  feeStrategy: FeeStrategySchema,
+  fromAddress: z.string().refine((addr) => addr.startsWith('0x') && addr.length === 42, {
+    message: "Invalid Ethereum address format"
+  }).optional()
+});
+
+export type FactoryDAODeploymentConfig = z.infer<typeof FactoryDAODeploymentConfigSchema>;
+
 // Deployment Status Types
 export type DeploymentStatus = 
   | 'pending'
@@ -105,6 +146,33 @@ export interface DAODeploymentResult {
 }
 
 // Transaction Preparation Types
+
+// Cost range of a prepared transaction, in wei and in the native currency
+// - min: raw gas estimate at the current base fee plus tip
+// - expected: padded gas limit at the current base fee plus tip
+// - max: padded gas limit at maxFeePerGas, the most the signer can be charged
+export interface CostRange {
+  minWei: string;
+  expectedWei: string;
+  maxWei: string;
+  minEth: string;
+  expectedEth: string;
+  maxEth: string;
+}
+
+// Rollup families with an L1 data fee
+export type RollupType = 'op-stack' | 'arbitrum';
+
+// L1 data fee of a rollup transaction. On Arbitrum the fee is paid through L2 gas units
+// and already part of the gas estimate; on OP Stack chains it is charged on top.
+export interface L1FeeEstimate {
+  rollup: RollupType;
+  l1FeeWei: string;
+  l1FeeEth: string;
+  includedInGasEstimate: boolean;
+  l1Gas?: string;
+}
+
 export interface PreparedTransaction {
   transactionType: 'contract_deployment' | 'contract_call';
   unsignedTransaction: {
@@ -127,6 +195,13 @@ export interface PreparedTransaction {
     description: string;
     estimatedGasUsage: string;
     estimatedCostEth: string;
+    estimatedCost?: CostRange;
+    l1Fee?: L1FeeEstimate;
+    feeType?: 'eip1559' | 'legacy';
+    feeStrategy?: FeeStrategy;
+    fromAddress?: string;
+    expectedAddress?: string;
+    preparedTransactionId?: string;
   };
 }
 
@@ -134,6 +209,7 @@ export interface TransactionBroadcastInput {
   signedTransaction: string;
   networkName: string;
   expectedTransactionHash?: string;
+  preparedTransactionId?: string;
 }
 
 // Contract ABI Types
@@ -180,4 +256,10 @@ export class VerificationError extends DAODeployerError {
   constructor(message: string, context?: Record<string, any>) {
     super(message, 'VERIFICATION_ERROR', context);
   }
+}
+
+export class KeystoreError extends DAODeployerError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'KEYSTORE_ERROR', context);
+  }
 }
\ No newline at end of file
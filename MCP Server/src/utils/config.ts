@@ -217,6 +217,21 @@ export async function resolveAPIKey(keyName: keyof APIKeys): Promise<string | un
   return await getAPIKey(keyName);
 }
 
+/**
+ * Mainnets on which ephemeral wallets may sign, from "ephemeralSigning.allowedMainnets"
+ * in config.json. There is deliberately no tool to change this list.
+ */
+export async function getEphemeralSigningMainnets(): Promise<string[]> {
+  try {
+    const config = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+    const allowed = config.ephemeralSigning?.allowedMainnets;
+    return Array.isArray(allowed) ? allowed.filter((name: unknown) => typeof name === 'string').map((name: string) => name.toLowerCase()) : [];
+  } catch (error) {
+    // Missing or unreadable config - no mainnets allowed
+    return [];
+  }
+}
+
 /**
  * Backup configuration file
  */
@@ -14,7 +14,13 @@ export const CONTRACT_PATHS = {
   'SimpleDAOTimelock': 'src/SimpleDAOTimelock.sol',
   'SimpleDAOTimelockUpgradeable': 'src/SimpleDAOTimelockUpgradeable.sol',
   'SimpleDAOTokenUpgradeable': 'src/SimpleDAOTokenUpgradeable.sol',
-  'SimpleDAOTokenV2': 'src/SimpleDAOTokenV2.sol'
+  'SimpleDAOTokenV2': 'src/SimpleDAOTokenV2.sol',
+
+  // Distribution contracts
+  'SimpleDAOMerkleDistributor': 'src/SimpleDAOMerkleDistributor.sol',
+
+  // Proxy fronting the upgradeable DAO contracts
+  'ERC1967Proxy': 'lib/openzeppelin-contracts/contracts/proxy/ERC1967/ERC1967Proxy.sol'
 } as const;
 
 export type ContractName = keyof typeof CONTRACT_PATHS;
@@ -189,7 +195,9 @@ export function getContractGasEstimates(): Record<ContractName, number> {
     'SimpleDAOTimelock': 2_000_000,
     'SimpleDAOTimelockUpgradeable': 2_300_000,
     'SimpleDAOTokenUpgradeable': 2_800_000,
-    'SimpleDAOTokenV2': 2_600_000
+    'SimpleDAOTokenV2': 2_600_000,
+    'SimpleDAOMerkleDistributor': 900_000,
+    'ERC1967Proxy': 450_000
   };
 }
 
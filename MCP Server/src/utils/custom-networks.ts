@@ -0,0 +1,188 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { AtomicFileWriter } from './atomic-file.js';
+import { getConfigDir } from './config.js';
+import { BUILT_IN_NETWORK_NAMES, SUPPORTED_NETWORKS } from '../networks/index.js';
+import { NetworkConfig, NetworkConfigSchema } from '../types/index.js';
+
+/**
+ * Custom Networks
+ * Persists user-defined networks in ~/.dao-deployer/networks.json and merges them
+ * into SUPPORTED_NETWORKS so every tool accepts them by name.
+ */
+
+// Lowercase because getNetworkConfig lowercases the name it is given
+export const CustomNetworkNameSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9-]{0,39}$/, "Network name must be lowercase letters, digits and dashes")
+  .refine(name => !BUILT_IN_NETWORK_NAMES.has(name), { message: "Built-in networks cannot be replaced" })
+  .refine(name => !/^sandbox-\d+$/.test(name), { message: "sandbox-N names are reserved for fork sandboxes" });
+
+// Chain definition in viem's Chain shape, as produced by the frontend CustomNetworkModal
+export const ChainDefinitionSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().min(1),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number()
+  }),
+  rpcUrls: z.object({
+    default: z.object({ http: z.array(z.string().url()).min(1) })
+  }).passthrough(),
+  blockExplorers: z.object({
+    default: z.object({ name: z.string(), url: z.string().url(), apiUrl: z.string().url().optional() })
+  }).optional(),
+  testnet: z.boolean().optional()
+});
+
+export type ChainDefinition = z.infer<typeof ChainDefinitionSchema>;
+
+interface CustomNetworksFile {
+  networks?: Record<string, NetworkConfig>;
+  updatedAt?: string;
+}
+
+// Names currently registered from networks.json
+const customNetworkNames = new Set<string>();
+
+/**
+ * Get the custom networks file path
+ */
+export function getCustomNetworksFile(): string {
+  return path.join(getConfigDir(), 'networks.json');
+}
+
+/**
+ * Read custom networks from disk, skipping entries that no longer validate
+ */
+export async function loadCustomNetworks(): Promise<Record<string, NetworkConfig>> {
+  let parsed: CustomNetworksFile;
+  try {
+    parsed = JSON.parse(await fs.readFile(getCustomNetworksFile(), 'utf-8'));
+  } catch (error) {
+    // Missing or unreadable file - no custom networks
+    return {};
+  }
+
+  const networks: Record<string, NetworkConfig> = {};
+  for (const [name, config] of Object.entries(parsed.networks || {})) {
+    const validName = CustomNetworkNameSchema.safeParse(name);
+    const validConfig = NetworkConfigSchema.safeParse(config);
+    if (validName.success && validConfig.success) {
+      networks[name] = validConfig.data;
+    }
+  }
+  return networks;
+}
+
+/**
+ * Merge custom networks from disk into SUPPORTED_NETWORKS
+ */
+export async function registerCustomNetworks(): Promise<string[]> {
+  const networks = await loadCustomNetworks();
+
+  for (const name of customNetworkNames) {
+    if (!(name in networks)) {
+      delete SUPPORTED_NETWORKS[name];
+      customNetworkNames.delete(name);
+    }
+  }
+  for (const [name, config] of Object.entries(networks)) {
+    SUPPORTED_NETWORKS[name] = config;
+    customNetworkNames.add(name);
+  }
+
+  return Object.keys(networks);
+}
+
+/**
+ * Whether a network name refers to a user-defined network
+ */
+export function isCustomNetwork(networkName: string): boolean {
+  return customNetworkNames.has(networkName.toLowerCase());
+}
+
+/**
+ * Persist a custom network and register it
+ */
+export async function saveCustomNetwork(name: string, config: NetworkConfig): Promise<NetworkConfig> {
+  const networkName = CustomNetworkNameSchema.parse(name);
+  const networkConfig = NetworkConfigSchema.parse(config);
+  const now = new Date().toISOString();
+
+  await AtomicFileWriter.updateJSON(
+    getCustomNetworksFile(),
+    (current: CustomNetworksFile) => ({
+      ...current,
+      networks: { ...(current.networks || {}), [networkName]: networkConfig },
+      updatedAt: now
+    }),
+    { mode: 0o600, retries: 0 }
+  );
+
+  SUPPORTED_NETWORKS[networkName] = networkConfig;
+  customNetworkNames.add(networkName);
+  return networkConfig;
+}
+
+/**
+ * Remove a custom network from disk and from SUPPORTED_NETWORKS
+ */
+export async function deleteCustomNetwork(name: string): Promise<NetworkConfig> {
+  let removed: NetworkConfig | undefined;
+
+  await AtomicFileWriter.updateJSON(
+    getCustomNetworksFile(),
+    (current: CustomNetworksFile) => {
+      const { [name]: network, ...networks } = current.networks || {};
+      if (!network) {
+        throw new Error(`Custom network not found: ${name}`);
+      }
+      removed = network;
+      return { ...current, networks, updatedAt: new Date().toISOString() };
+    },
+    { mode: 0o600, retries: 0 }
+  );
+
+  delete SUPPORTED_NETWORKS[name];
+  customNetworkNames.delete(name);
+  return removed!;
+}
+
+/**
+ * Convert a frontend chain definition into a network config
+ */
+export function chainDefinitionToNetworkConfig(chain: ChainDefinition): NetworkConfig {
+  const [rpcUrl, ...fallbackRpcUrls] = chain.rpcUrls.default.http;
+  return NetworkConfigSchema.parse({
+    chainId: chain.id,
+    name: chain.name,
+    rpcUrl,
+    fallbackRpcUrls: fallbackRpcUrls.length > 0 ? fallbackRpcUrls : undefined,
+    explorerUrl: chain.blockExplorers?.default.url,
+    explorerApiUrl: chain.blockExplorers?.default.apiUrl,
+    nativeCurrency: chain.nativeCurrency,
+    testnet: chain.testnet ?? false
+  });
+}
+
+/**
+ * Convert a network config into the chain definition the frontend imports
+ */
+export function networkConfigToChainDefinition(config: NetworkConfig): ChainDefinition {
+  const http = [config.rpcUrl, ...(config.fallbackRpcUrls || [])];
+  return {
+    id: config.chainId,
+    name: config.name,
+    nativeCurrency: config.nativeCurrency,
+    rpcUrls: {
+      default: { http },
+      public: { http }
+    },
+    blockExplorers: config.explorerUrl ? {
+      default: { name: 'Explorer', url: config.explorerUrl, apiUrl: config.explorerApiUrl }
+    } : undefined,
+    testnet: config.testnet
+  };
+}
@@ -0,0 +1,226 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { AtomicFileWriter } from './atomic-file.js';
+import { getConfigDir } from './config.js';
+import { PreparedTransaction } from '../types/index.js';
+
+/**
+ * Deployment Journal
+ * Persists multi-step DAO deployment plans in ~/.dao-deployer/deployment-journal.json
+ * so a plan can be resumed across tool calls and server restarts.
+ */
+
+export type JournalStepStatus = 'prepared' | 'broadcast' | 'confirmed' | 'failed';
+export type JournalPlanStatus = 'in_progress' | 'completed' | 'failed';
+
+export interface JournalReceipt {
+  blockNumber?: string;
+  blockHash?: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  status: 'success' | 'failed';
+  contractAddress?: string;
+}
+
+export interface JournalStep {
+  index: number;
+  key: string;
+  label: string;
+  status: JournalStepStatus;
+  preparedTransaction: PreparedTransaction;
+  transactionHash?: string;
+  broadcastAt?: string;
+  receipt?: JournalReceipt;
+  confirmedAt?: string;
+}
+
+export interface JournalPlan {
+  id: string;
+  daoName: string;
+  networkName: string;
+  factoryAddress: string;
+  status: JournalPlanStatus;
+  createdAt: string;
+  updatedAt: string;
+  steps: JournalStep[];
+  contracts: Record<string, string>;
+}
+
+interface JournalFile {
+  plans?: Record<string, JournalPlan>;
+  updatedAt?: string;
+}
+
+/**
+ * Get the deployment journal file path
+ */
+export function getJournalFile(): string {
+  return path.join(getConfigDir(), 'deployment-journal.json');
+}
+
+/**
+ * Read all journal entries from disk
+ */
+async function readJournal(): Promise<Record<string, JournalPlan>> {
+  try {
+    const content = await fs.readFile(getJournalFile(), 'utf-8');
+    const parsed: JournalFile = JSON.parse(content);
+    return parsed.plans || {};
+  } catch (error) {
+    // Missing or unreadable journal - start empty
+    return {};
+  }
+}
+
+/**
+ * Apply an update to a single plan and persist it atomically
+ */
+async function updatePlan(planId: string, updateFn: (plan: JournalPlan) => JournalPlan): Promise<JournalPlan> {
+  let updated: JournalPlan | undefined;
+
+  await AtomicFileWriter.updateJSON(
+    getJournalFile(),
+    (current: JournalFile) => {
+      const plans = current.plans || {};
+      const plan = plans[planId];
+      if (!plan) {
+        throw new Error(`Deployment plan not found: ${planId}`);
+      }
+
+      updated = { ...updateFn(plan), updatedAt: new Date().toISOString() };
+
+      return {
+        ...current,
+        plans: { ...plans, [planId]: updated },
+        updatedAt: updated.updatedAt
+      };
+    },
+    { mode: 0o600, retries: 0 }
+  );
+
+  return updated!;
+}
+
+/**
+ * Record a new plan in the journal
+ */
+export async function createJournalPlan(params: {
+  daoName: string;
+  networkName: string;
+  factoryAddress: string;
+  steps: { key: string; label: string; preparedTransaction: PreparedTransaction }[];
+}): Promise<JournalPlan> {
+  const now = new Date().toISOString();
+
+  const plan: JournalPlan = {
+    id: crypto.randomUUID(),
+    daoName: params.daoName,
+    networkName: params.networkName,
+    factoryAddress: params.factoryAddress,
+    status: 'in_progress',
+    createdAt: now,
+    updatedAt: now,
+    steps: params.steps.map((step, index) => ({
+      index,
+      key: step.key,
+      label: step.label,
+      status: 'prepared',
+      preparedTransaction: step.preparedTransaction
+    })),
+    contracts: {}
+  };
+
+  await AtomicFileWriter.updateJSON(
+    getJournalFile(),
+    (current: JournalFile) => ({
+      ...current,
+      plans: { ...(current.plans || {}), [plan.id]: plan },
+      updatedAt: now
+    }),
+    { mode: 0o600, retries: 3 }
+  );
+
+  return plan;
+}
+
+/**
+ * Get a single plan by ID
+ */
+export async function getJournalPlan(planId: string): Promise<JournalPlan | undefined> {
+  const plans = await readJournal();
+  return plans[planId];
+}
+
+/**
+ * List all plans (newest first)
+ */
+export async function listJournalPlans(): Promise<JournalPlan[]> {
+  const plans = await readJournal();
+  return Object.values(plans).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Get the first step that has not been confirmed yet
+ */
+export function getCurrentStep(plan: JournalPlan): JournalStep | undefined {
+  return plan.steps.find(step => step.status !== 'confirmed');
+}
+
+/**
+ * Record the broadcast hash for a step
+ */
+export async function recordStepBroadcast(planId: string, stepIndex: number, transactionHash: string): Promise<JournalPlan> {
+  return updatePlan(planId, plan => ({
+    ...plan,
+    steps: plan.steps.map(step => step.index === stepIndex
+      ? { ...step, status: 'broadcast', transactionHash, broadcastAt: new Date().toISOString() }
+      : step
+    )
+  }));
+}
+
+/**
+ * Record the receipt for a step and the contract it created
+ */
+export async function recordStepReceipt(planId: string, stepIndex: number, receipt: JournalReceipt): Promise<JournalPlan> {
+  return updatePlan(planId, plan => {
+    const steps = plan.steps.map(step => step.index === stepIndex
+      ? {
+          ...step,
+          status: (receipt.status === 'success' ? 'confirmed' : 'failed') as JournalStepStatus,
+          receipt,
+          confirmedAt: new Date().toISOString()
+        }
+      : step
+    );
+
+    const step = plan.steps.find(s => s.index === stepIndex);
+    const contracts = step && receipt.contractAddress
+      ? { ...plan.contracts, [step.key]: receipt.contractAddress }
+      : plan.contracts;
+
+    const status: JournalPlanStatus = steps.some(s => s.status === 'failed')
+      ? 'failed'
+      : steps.every(s => s.status === 'confirmed') ? 'completed' : 'in_progress';
+
+    return { ...plan, steps, contracts, status };
+  });
+}
+
+/**
+ * Replace the prepared transaction of a step (e.g. after patching dependent arguments)
+ */
+export async function updateStepTransaction(
+  planId: string,
+  stepIndex: number,
+  preparedTransaction: PreparedTransaction
+): Promise<JournalPlan> {
+  return updatePlan(planId, plan => ({
+    ...plan,
+    steps: plan.steps.map(step => step.index === stepIndex
+      ? { ...step, preparedTransaction }
+      : step
+    )
+  }));
+}
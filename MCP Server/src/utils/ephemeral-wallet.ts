@@ -1,19 +1,62 @@
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
-import { createPublicClient, createWalletClient, http, parseEther, formatEther } from 'viem';
+import { createWalletClient, http, parseEther, formatEther, formatUnits, erc20Abi, type Account, type Hex, type TransactionSerializable } from 'viem';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import crypto from 'crypto';
 import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { createNetworkClient, getVerifiedRpcUrls } from './rpc.js';
+import { AtomicFileWriter } from './atomic-file.js';
+import { KeystoreV3, decryptKeystore, encryptKeystore, isKeystoreV3, keystoreFileName } from './keystore.js';
+import { KeystoreError, NetworkConfig } from '../types/index.js';
 
 const BASE_DIR = process.env.DAO_DEPLOYER_DATA_DIR || join(homedir(), '.dao-deployer');
 const WALLET_DIR = join(BASE_DIR, 'ephemeral-wallets');
+const EXPORT_DIR = join(BASE_DIR, 'keystore-exports');
+
+// Passphrase for the wallet keystores; without it, unlock-ephemeral-wallets sets one for the session
+export const KEYSTORE_PASSPHRASE_ENV = 'DAO_DEPLOYER_KEYSTORE_PASSPHRASE';
+
+let sessionPassphrase: string | undefined;
+
+/**
+ * Lifecycle policy stored with a wallet and enforced by the reaper
+ */
+export interface EphemeralWalletPolicy {
+  expiresAt?: string;       // ISO time after which the wallet is swept and deleted
+  maxBalanceWei?: string;   // native balance above this is swept to sweepRecipient
+  allowedNetwork?: string;  // the only network the key may sign on
+  sweepRecipient?: string;
+  tokens?: string[];        // ERC20 balances to sweep along with the native one
+}
 
 export interface EphemeralWallet {
   address: string;
   networkName: string;
   createdAt: Date;
   keyFile: string;
+  encrypted: boolean;
+  policy?: EphemeralWalletPolicy;
+}
+
+/**
+ * On-disk wallet file: metadata plus a v3 keystore. Files written before keystores
+ * were introduced hold a plaintext privateKey instead.
+ */
+interface EphemeralWalletFile {
+  id: string;
+  address: string;
+  networkName: string;
+  createdAt: string;
+  keystore?: KeystoreV3;
+  privateKey?: string;
+  policy?: EphemeralWalletPolicy;
+}
+
+export interface KeystoreMigrationResult {
+  migrated: string[];
+  alreadyEncrypted: number;
+  failed: { keyFile: string; error: string }[];
 }
 
 export interface WalletBalance {
@@ -35,6 +78,17 @@ export interface SweepResult {
   keyDeleted: boolean;
 }
 
+export interface TokenSweepResult {
+  success: boolean;
+  tokenAddress: string;
+  symbol: string;
+  transactionHash?: string;
+  amountSwept: string; // in token units
+  amountSweptRaw: bigint;
+  recipientAddress: string;
+  error?: string;
+}
+
 /**
  * Ensure wallet directory exists
  */
@@ -46,44 +100,90 @@ async function ensureWalletDir(): Promise<void> {
   }
 }
 
+/**
+ * Set (or clear) the keystore passphrase for this server session
+ */
+export function setKeystorePassphrase(passphrase: string | undefined): void {
+  sessionPassphrase = passphrase;
+}
+
+/**
+ * Whether wallet keystores can be encrypted and decrypted right now
+ */
+export function hasKeystorePassphrase(): boolean {
+  return !!(process.env[KEYSTORE_PASSPHRASE_ENV] || sessionPassphrase);
+}
+
+/**
+ * Unlock the keystores for this session. The passphrase is checked against an existing
+ * keystore first, so a typo cannot leave wallets encrypted under different passphrases.
+ */
+export async function unlockEphemeralWallets(passphrase: string): Promise<{ verifiedWith?: string }> {
+  const encrypted = (await listEphemeralWallets()).find(w => w.encrypted);
+  if (encrypted) {
+    const data: EphemeralWalletFile = JSON.parse(await fs.readFile(encrypted.keyFile, 'utf-8'));
+    await decryptKeystore(data.keystore!, passphrase);
+  }
+  
+  setKeystorePassphrase(passphrase);
+  return { verifiedWith: encrypted?.address };
+}
+
+/**
+ * Keystore passphrase from the environment, then from the session
+ */
+function getKeystorePassphrase(): string {
+  const passphrase = process.env[KEYSTORE_PASSPHRASE_ENV] || sessionPassphrase;
+  if (!passphrase) {
+    throw new KeystoreError(`Ephemeral wallet keystores are locked. Set ${KEYSTORE_PASSPHRASE_ENV} or call unlock-ephemeral-wallets with the passphrase.`);
+  }
+  return passphrase;
+}
+
+/**
+ * Write a wallet file with owner-only permissions
+ */
+async function writeWalletFile(keyFile: string, walletData: EphemeralWalletFile): Promise<void> {
+  await AtomicFileWriter.writeJSON(keyFile, walletData, { mode: 0o600, retries: 0 });
+}
+
 /**
  * Generate a new ephemeral wallet using VIEM's secure generation
  */
-export async function generateEphemeralWallet(networkName: string): Promise<EphemeralWallet> {
+export async function generateEphemeralWallet(
+  networkName: string,
+  policy?: EphemeralWalletPolicy
+): Promise<EphemeralWallet> {
   try {
+    const passphrase = getKeystorePassphrase();
     await ensureWalletDir();
     
     // Generate new private key using VIEM's secure generation
     const privateKey = generatePrivateKey();
     const account = privateKeyToAccount(privateKey);
-    
-    // Create wallet metadata with private key stored securely
-    const walletId = crypto.randomUUID();
     const createdAt = new Date();
     
-    const walletData = {
-      id: walletId,
+    // Only the encrypted keystore reaches the disk
+    const walletData: EphemeralWalletFile = {
+      id: crypto.randomUUID(),
       address: account.address,
       networkName,
       createdAt: createdAt.toISOString(),
-      // Store private key directly - VIEM handles security
-      privateKey,
-      securityNote: 'Generated using VIEM - private key stored for ephemeral use only'
+      keystore: await encryptKeystore(privateKey, passphrase),
+      policy
     };
     
     // Save to disk with restricted permissions using address-based filename
     const keyFile = join(WALLET_DIR, `${account.address.slice(2)}.json`);
-    await fs.writeFile(keyFile, JSON.stringify(walletData, null, 2), { mode: 0o600 });
-    
-    // Generated ephemeral wallet
-    // Saved securely to keyfile
-    // Security warning for software wallet
+    await writeWalletFile(keyFile, walletData);
     
     return {
       address: account.address,
       networkName,
       createdAt,
-      keyFile
+      keyFile,
+      encrypted: true,
+      policy
     };
     
   } catch (error: any) {
@@ -113,7 +213,9 @@ export async function listEphemeralWallets(): Promise<EphemeralWallet[]> {
           address: data.address,
           networkName: data.networkName,
           createdAt: new Date(data.createdAt),
-          keyFile: filePath
+          keyFile: filePath,
+          encrypted: isKeystoreV3(data.keystore),
+          policy: data.policy
         });
       } catch (error) {
         // Failed to read wallet file
@@ -136,9 +238,7 @@ export async function getWalletBalance(address: string, networkName: string): Pr
   try {
     const networkConfig = await resolveNetworkConfig(getNetworkConfig(networkName));
     
-    const publicClient = createPublicClient({
-      transport: http(networkConfig.rpcUrl)
-    });
+    const publicClient = await createNetworkClient(networkConfig);
     
     const balance = await publicClient.getBalance({ 
       address: address as `0x${string}` 
@@ -161,33 +261,186 @@ export async function getWalletBalance(address: string, networkName: string): Pr
 }
 
 /**
- * Load private key from wallet file (VIEM secure storage)
+ * Find the wallet file for an address on the network it was created for or the one its policy allows
  */
-async function loadPrivateKey(walletAddress: string, networkName: string): Promise<string> {
-  try {
-    const wallets = await listEphemeralWallets();
-    const wallet = wallets.find(w => 
-      w.address.toLowerCase() === walletAddress.toLowerCase() && 
-      w.networkName === networkName
-    );
-    
-    if (!wallet) {
-      throw new Error(`No ephemeral wallet found for address ${walletAddress} on ${networkName}`);
+async function findWallet(walletAddress: string, networkName: string): Promise<EphemeralWallet> {
+  const wallets = await listEphemeralWallets();
+  const wallet = wallets.find(w => 
+    w.address.toLowerCase() === walletAddress.toLowerCase() && 
+    (w.networkName === networkName || w.policy?.allowedNetwork === networkName)
+  );
+  
+  if (!wallet) {
+    throw new Error(`No ephemeral wallet found for address ${walletAddress} on ${networkName}`);
+  }
+  return wallet;
+}
+
+/**
+ * Replace a wallet's lifecycle policy
+ */
+export async function setEphemeralWalletPolicy(
+  walletAddress: string,
+  networkName: string,
+  policy: EphemeralWalletPolicy
+): Promise<EphemeralWallet> {
+  const wallet = await findWallet(walletAddress, networkName);
+  const data: EphemeralWalletFile = JSON.parse(await fs.readFile(wallet.keyFile, 'utf-8'));
+  
+  await writeWalletFile(wallet.keyFile, { ...data, policy });
+  return { ...wallet, policy };
+}
+
+/**
+ * Load the private key from a wallet file, decrypting its keystore
+ */
+async function loadPrivateKey(walletAddress: string, networkName: string): Promise<`0x${string}`> {
+  const wallet = await findWallet(walletAddress, networkName);
+  const data: EphemeralWalletFile = JSON.parse(await fs.readFile(wallet.keyFile, 'utf-8'));
+  
+  if (data.policy?.allowedNetwork && data.policy.allowedNetwork !== networkName) {
+    throw new Error(`Policy of ${walletAddress} only allows signing on ${data.policy.allowedNetwork}`);
+  }
+  
+  if (isKeystoreV3(data.keystore)) {
+    return decryptKeystore(data.keystore, getKeystorePassphrase());
+  }
+  
+  // Plaintext file from before keystores; migrate-ephemeral-wallets encrypts it
+  if (data.privateKey) {
+    return data.privateKey as `0x${string}`;
+  }
+  
+  throw new Error(`Invalid wallet file: missing keystore for ${walletAddress}`);
+}
+
+/**
+ * Encrypt every plaintext wallet file in place
+ */
+export async function migratePlaintextWallets(): Promise<KeystoreMigrationResult> {
+  const passphrase = getKeystorePassphrase();
+  const result: KeystoreMigrationResult = { migrated: [], alreadyEncrypted: 0, failed: [] };
+  
+  for (const wallet of await listEphemeralWallets()) {
+    if (wallet.encrypted) {
+      result.alreadyEncrypted++;
+      continue;
     }
     
-    const content = await fs.readFile(wallet.keyFile, 'utf-8');
-    const data = JSON.parse(content);
-    
-    // Private key stored directly (VIEM handles security)
-    if (!data.privateKey) {
-      throw new Error(`Invalid wallet file: missing private key for ${walletAddress}`);
+    try {
+      const { privateKey, securityNote, ...data } = JSON.parse(await fs.readFile(wallet.keyFile, 'utf-8'));
+      if (!privateKey) {
+        throw new Error('missing private key');
+      }
+      if (privateKeyToAccount(privateKey).address.toLowerCase() !== wallet.address.toLowerCase()) {
+        throw new Error(`private key does not belong to ${wallet.address}`);
+      }
+      
+      await writeWalletFile(wallet.keyFile, {
+        ...data,
+        id: data.id ?? crypto.randomUUID(),
+        keystore: await encryptKeystore(privateKey, passphrase)
+      });
+      result.migrated.push(wallet.address);
+    } catch (error: any) {
+      result.failed.push({ keyFile: wallet.keyFile, error: error.message });
     }
-    
-    return data.privateKey;
-    
-  } catch (error: any) {
-    throw error;
   }
+  
+  return result;
+}
+
+/**
+ * Write a wallet as a standalone v3 keystore file that geth and `cast wallet` can read.
+ * Without an export passphrase the keystore keeps the server passphrase.
+ */
+export async function exportEphemeralWallet(
+  walletAddress: string,
+  networkName: string,
+  options: { exportPassphrase?: string; outputDir?: string } = {}
+): Promise<{ address: string; file: string; keystore: KeystoreV3 }> {
+  const wallet = await findWallet(walletAddress, networkName);
+  const data: EphemeralWalletFile = JSON.parse(await fs.readFile(wallet.keyFile, 'utf-8'));
+  
+  const keystore = isKeystoreV3(data.keystore) && !options.exportPassphrase
+    ? data.keystore
+    : await encryptKeystore(
+        await loadPrivateKey(walletAddress, networkName),
+        options.exportPassphrase ?? getKeystorePassphrase()
+      );
+  
+  const outputDir = options.outputDir ?? EXPORT_DIR;
+  await fs.mkdir(outputDir, { recursive: true });
+  const file = join(outputDir, keystoreFileName(keystore));
+  await AtomicFileWriter.writeJSON(file, keystore, { mode: 0o600, retries: 0 });
+  
+  return { address: wallet.address, file, keystore };
+}
+
+/**
+ * Import a v3 keystore (from geth, clef or `cast wallet new`) as an ephemeral wallet.
+ * The key is re-encrypted with the server passphrase.
+ */
+export async function importEphemeralWallet(
+  keystore: KeystoreV3,
+  keystorePassphrase: string,
+  networkName: string
+): Promise<EphemeralWallet> {
+  const passphrase = getKeystorePassphrase();
+  const privateKey = await decryptKeystore(keystore, keystorePassphrase);
+  const account = privateKeyToAccount(privateKey);
+  
+  // Wallet files are named by address, so an address can only be held once
+  const existing = (await listEphemeralWallets()).find(w => w.address.toLowerCase() === account.address.toLowerCase());
+  if (existing) {
+    throw new Error(`Ephemeral wallet ${account.address} already exists on ${existing.networkName}`);
+  }
+  
+  await ensureWalletDir();
+  const createdAt = new Date();
+  const keyFile = join(WALLET_DIR, `${account.address.slice(2)}.json`);
+  await writeWalletFile(keyFile, {
+    id: crypto.randomUUID(),
+    address: account.address,
+    networkName,
+    createdAt: createdAt.toISOString(),
+    keystore: keystorePassphrase === passphrase ? keystore : await encryptKeystore(privateKey, passphrase)
+  });
+  
+  return { address: account.address, networkName, createdAt, keyFile, encrypted: true };
+}
+
+/**
+ * Wallet client that signs with an ephemeral key through the best verified endpoint
+ */
+async function createEphemeralWalletClient(networkConfig: NetworkConfig, account: Account) {
+  const [rpcUrl] = await getVerifiedRpcUrls(networkConfig);
+  
+  // Get network chain config for VIEM
+  const networkChain = {
+    id: networkConfig.chainId,
+    name: networkConfig.name,
+    network: networkConfig.name.toLowerCase(),
+    nativeCurrency: {
+      name: 'Ether',
+      symbol: 'ETH', 
+      decimals: 18
+    },
+    rpcUrls: {
+      default: {
+        http: [rpcUrl]
+      },
+      public: {
+        http: [rpcUrl]
+      }
+    }
+  };
+  
+  return createWalletClient({
+    account,
+    chain: networkChain,
+    transport: http(rpcUrl)
+  });
 }
 
 /**
@@ -197,19 +450,18 @@ export async function sweepEphemeralWallet(
   walletAddress: string,
   recipientAddress: string,
   networkName: string,
-  deleteKeyAfterSweep: boolean = false
+  deleteKeyAfterSweep: boolean = false,
+  options: { keepWei?: bigint } = {}
 ): Promise<SweepResult> {
   try {
     // Load private key
     const privateKey = await loadPrivateKey(walletAddress, networkName);
-    const account = privateKeyToAccount(privateKey as `0x${string}`);
+    const account = privateKeyToAccount(privateKey);
     
     // Get network config
     const networkConfig = await resolveNetworkConfig(getNetworkConfig(networkName));
     
-    const publicClient = createPublicClient({
-      transport: http(networkConfig.rpcUrl)
-    });
+    const publicClient = await createNetworkClient(networkConfig);
     
     // Get current balance
     const balance = await publicClient.getBalance({ 
@@ -238,8 +490,9 @@ export async function sweepEphemeralWallet(
     const gasPrice = await publicClient.getGasPrice();
     const gasCost = gasEstimate * gasPrice;
     
-    // Calculate amount to send (balance minus gas cost)
-    if (balance <= gasCost) {
+    // Calculate amount to send (balance minus gas cost and whatever should stay behind)
+    const keepWei = options.keepWei ?? 0n;
+    if (balance <= gasCost + keepWei) {
       return {
         success: false,
         amountSwept: '0',
@@ -250,35 +503,9 @@ export async function sweepEphemeralWallet(
       };
     }
     
-    const amountToSend = balance - gasCost;
-    
-    // Get network chain config for VIEM
-    const networkChain = {
-      id: networkConfig.chainId,
-      name: networkConfig.name,
-      network: networkConfig.name.toLowerCase(),
-      nativeCurrency: {
-        name: 'Ether',
-        symbol: 'ETH', 
-        decimals: 18
-      },
-      rpcUrls: {
-        default: {
-          http: [networkConfig.rpcUrl]
-        },
-        public: {
-          http: [networkConfig.rpcUrl]
-        }
-      }
-    };
-    
-    // Create wallet client for signing with proper chain
-    const walletClient = createWalletClient({
-      account,
-      chain: networkChain,
-      transport: http(networkConfig.rpcUrl)
-    });
+    const amountToSend = balance - gasCost - keepWei;
     
+    const walletClient = await createEphemeralWalletClient(networkConfig, account);
     
     // Send transaction using VIEM wallet client
     const hash = await walletClient.sendTransaction({
@@ -327,20 +554,86 @@ export async function sweepEphemeralWallet(
 }
 
 /**
- * Delete wallet key file
+ * Sign a transaction with an ephemeral wallet's key. The key never leaves this module.
  */
-async function deleteWalletKey(walletAddress: string, networkName: string): Promise<boolean> {
+export async function signWithEphemeralWallet(
+  walletAddress: string,
+  networkName: string,
+  transaction: TransactionSerializable
+): Promise<Hex> {
+  const account = privateKeyToAccount(await loadPrivateKey(walletAddress, networkName));
+  return account.signTransaction(transaction);
+}
+
+/**
+ * Sweep an ERC20 balance from an ephemeral wallet. Gas is paid from the native balance,
+ * so tokens have to be swept before it.
+ */
+export async function sweepEphemeralWalletToken(
+  walletAddress: string,
+  tokenAddress: string,
+  recipientAddress: string,
+  networkName: string
+): Promise<TokenSweepResult> {
+  const result: TokenSweepResult = {
+    success: false,
+    tokenAddress,
+    symbol: tokenAddress,
+    amountSwept: '0',
+    amountSweptRaw: 0n,
+    recipientAddress
+  };
+  
   try {
-    const wallets = await listEphemeralWallets();
-    const wallet = wallets.find(w => 
-      w.address.toLowerCase() === walletAddress.toLowerCase() && 
-      w.networkName === networkName
-    );
-    
-    if (!wallet) {
-      return false;
+    const privateKey = await loadPrivateKey(walletAddress, networkName);
+    const account = privateKeyToAccount(privateKey);
+    const networkConfig = await resolveNetworkConfig(getNetworkConfig(networkName));
+    const publicClient = await createNetworkClient(networkConfig);
+    const token = tokenAddress as `0x${string}`;
+    
+    const [balance, symbol, decimals] = await Promise.all([
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [account.address] }),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }).catch(() => tokenAddress),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18)
+    ]);
+    result.symbol = symbol;
+    
+    if (balance === 0n) {
+      return { ...result, success: true, error: 'No token balance to sweep' };
+    }
+    
+    const walletClient = await createEphemeralWalletClient(networkConfig, account);
+    const hash = await walletClient.writeContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [recipientAddress as `0x${string}`, balance]
+    });
+    
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      return { ...result, transactionHash: hash, error: 'Token transfer reverted' };
     }
     
+    return {
+      ...result,
+      success: true,
+      transactionHash: hash,
+      amountSwept: formatUnits(balance, decimals),
+      amountSweptRaw: balance
+    };
+    
+  } catch (error: any) {
+    return { ...result, error: error.message };
+  }
+}
+
+/**
+ * Delete wallet key file, found the same way as for signing and sweeping
+ */
+async function deleteWalletKey(walletAddress: string, networkName: string): Promise<boolean> {
+  try {
+    const wallet = await findWallet(walletAddress, networkName);
     await fs.unlink(wallet.keyFile);
     return true;
     
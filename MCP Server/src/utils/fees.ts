@@ -0,0 +1,239 @@
+import { PublicClient, formatEther, formatGwei } from 'viem';
+import { CostRange, FeeStrategy, L1FeeEstimate, NetworkConfig, PreparedTransaction, TransactionError } from '../types/index.js';
+
+/**
+ * Fee estimation for prepared transactions: EIP-1559 where the chain supports it,
+ * legacy gasPrice otherwise, always clamped to the network's configured caps
+ */
+
+export const FEE_STRATEGIES: FeeStrategy[] = ['slow', 'standard', 'fast'];
+
+// eth_feeHistory reward percentile used for the priority fee
+export const PRIORITY_FEE_PERCENTILES: Record<FeeStrategy, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90
+};
+
+// maxFeePerGas headroom over the next base fee. The base fee can rise 12.5% per full
+// block, so 2x covers about six consecutive full blocks.
+export const BASE_FEE_MULTIPLIERS: Record<FeeStrategy, number> = {
+  slow: 1.25,
+  standard: 2,
+  fast: 3
+};
+
+const FEE_HISTORY_BLOCKS = 10;
+
+export type FeeQuote =
+  | {
+      type: 'eip1559';
+      strategy: FeeStrategy;
+      baseFeePerGas: bigint;
+      maxFeePerGas: bigint;
+      maxPriorityFeePerGas: bigint;
+      capped: boolean;
+    }
+  | {
+      type: 'legacy';
+      strategy: FeeStrategy;
+      gasPrice: bigint;
+      capped: boolean;
+    };
+
+function bigintMin(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function scale(value: bigint, multiplier: number): bigint {
+  return (value * BigInt(Math.round(multiplier * 1000))) / 1000n;
+}
+
+/**
+ * Derive EIP-1559 fees from the next block's base fee and a tip percentile,
+ * then clamp them to the network's caps. A cap below the base fee is refused:
+ * no block would include the transaction until the base fee fell under it.
+ */
+export function computeEIP1559Fees(params: {
+  strategy: FeeStrategy;
+  nextBaseFee: bigint;
+  priorityFee: bigint;
+  networkConfig?: Pick<NetworkConfig, 'maxFeePerGas' | 'maxPriorityFeePerGas'>;
+}): Extract<FeeQuote, { type: 'eip1559' }> {
+  const { strategy, nextBaseFee, networkConfig } = params;
+  let maxPriorityFeePerGas = params.priorityFee;
+  let maxFeePerGas = scale(nextBaseFee, BASE_FEE_MULTIPLIERS[strategy]) + maxPriorityFeePerGas;
+  let capped = false;
+
+  if (networkConfig?.maxPriorityFeePerGas && maxPriorityFeePerGas > BigInt(networkConfig.maxPriorityFeePerGas)) {
+    maxPriorityFeePerGas = BigInt(networkConfig.maxPriorityFeePerGas);
+    maxFeePerGas = scale(nextBaseFee, BASE_FEE_MULTIPLIERS[strategy]) + maxPriorityFeePerGas;
+    capped = true;
+  }
+  if (networkConfig?.maxFeePerGas && maxFeePerGas > BigInt(networkConfig.maxFeePerGas)) {
+    maxFeePerGas = BigInt(networkConfig.maxFeePerGas);
+    capped = true;
+  }
+  if (maxFeePerGas < nextBaseFee) {
+    throw new TransactionError(
+      `The network's maxFeePerGas cap of ${formatGwei(maxFeePerGas)} gwei is below the current base fee of ${formatGwei(nextBaseFee)} gwei, so the transaction would not be mined. Raise the cap with update-network or wait for fees to fall.`,
+      { maxFeePerGas: maxFeePerGas.toString(), baseFeePerGas: nextBaseFee.toString() }
+    );
+  }
+  // The tip can never exceed the fee cap
+  maxPriorityFeePerGas = bigintMin(maxPriorityFeePerGas, maxFeePerGas);
+
+  return { type: 'eip1559', strategy, baseFeePerGas: nextBaseFee, maxFeePerGas, maxPriorityFeePerGas, capped };
+}
+
+/**
+ * Quote fees for the given strategy. Chains whose latest block has no base fee get a legacy gasPrice.
+ */
+export async function getFeeQuote(
+  publicClient: PublicClient,
+  networkConfig: NetworkConfig,
+  strategy: FeeStrategy = 'standard'
+): Promise<FeeQuote> {
+  const latestBlock = await publicClient.getBlock();
+
+  if (latestBlock.baseFeePerGas === null || latestBlock.baseFeePerGas === undefined) {
+    let gasPrice: bigint = await publicClient.getGasPrice();
+    let capped = false;
+    if (networkConfig.maxFeePerGas && gasPrice > BigInt(networkConfig.maxFeePerGas)) {
+      gasPrice = BigInt(networkConfig.maxFeePerGas);
+      capped = true;
+    }
+    return { type: 'legacy', strategy, gasPrice, capped };
+  }
+
+  const estimate = await publicClient.estimateFeesPerGas();
+  let nextBaseFee: bigint = latestBlock.baseFeePerGas;
+  let priorityFee: bigint = estimate.maxPriorityFeePerGas;
+
+  try {
+    const percentiles = FEE_STRATEGIES.map(name => PRIORITY_FEE_PERCENTILES[name]);
+    const history = await publicClient.getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      rewardPercentiles: percentiles
+    });
+
+    // baseFeePerGas has one extra entry: the base fee of the next block
+    nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? nextBaseFee;
+
+    const column = percentiles.indexOf(PRIORITY_FEE_PERCENTILES[strategy]);
+    const rewards = (history.reward ?? []).map((blockRewards: bigint[]) => blockRewards[column]).filter((reward: bigint | undefined) => reward !== undefined);
+    // Empty blocks report zero tips; fall back to the node's suggestion then
+    const historical = median(rewards);
+    if (historical > 0n) {
+      priorityFee = historical;
+    }
+  } catch {
+    // Node does not serve eth_feeHistory - keep estimateFeesPerGas values
+  }
+
+  return computeEIP1559Fees({ strategy, nextBaseFee, priorityFee, networkConfig });
+}
+
+/**
+ * Cost range for a gas estimate and padded gas limit under a fee quote
+ */
+export function estimateCostRange(gasEstimate: bigint, gasLimit: bigint, quote: FeeQuote): CostRange {
+  const effectivePrice = quote.type === 'eip1559'
+    ? bigintMin(quote.baseFeePerGas + quote.maxPriorityFeePerGas, quote.maxFeePerGas)
+    : quote.gasPrice;
+  const maxPrice = quote.type === 'eip1559' ? quote.maxFeePerGas : quote.gasPrice;
+
+  const minWei = gasEstimate * effectivePrice;
+  const expectedWei = gasLimit * effectivePrice;
+  const maxWei = gasLimit * maxPrice;
+
+  return {
+    minWei: minWei.toString(),
+    expectedWei: expectedWei.toString(),
+    maxWei: maxWei.toString(),
+    minEth: formatEther(minWei),
+    expectedEth: formatEther(expectedWei),
+    maxEth: formatEther(maxWei)
+  };
+}
+
+/**
+ * Add a rollup L1 data fee to a cost range, unless it is already part of the gas estimate
+ */
+export function addL1Fee(range: CostRange, l1Fee?: L1FeeEstimate): CostRange {
+  if (!l1Fee || l1Fee.includedInGasEstimate) return range;
+  const l1FeeWei = BigInt(l1Fee.l1FeeWei);
+  const minWei = BigInt(range.minWei) + l1FeeWei;
+  const expectedWei = BigInt(range.expectedWei) + l1FeeWei;
+  const maxWei = BigInt(range.maxWei) + l1FeeWei;
+
+  return {
+    minWei: minWei.toString(),
+    expectedWei: expectedWei.toString(),
+    maxWei: maxWei.toString(),
+    minEth: formatEther(minWei),
+    expectedEth: formatEther(expectedWei),
+    maxEth: formatEther(maxWei)
+  };
+}
+
+/**
+ * Sum cost ranges, e.g. across the steps of a deployment plan
+ */
+export function sumCostRanges(ranges: CostRange[]): CostRange {
+  const total = (key: 'minWei' | 'expectedWei' | 'maxWei') =>
+    ranges.reduce((sum, range) => sum + BigInt(range[key]), 0n);
+  const minWei = total('minWei');
+  const expectedWei = total('expectedWei');
+  const maxWei = total('maxWei');
+
+  return {
+    minWei: minWei.toString(),
+    expectedWei: expectedWei.toString(),
+    maxWei: maxWei.toString(),
+    minEth: formatEther(minWei),
+    expectedEth: formatEther(expectedWei),
+    maxEth: formatEther(maxWei)
+  };
+}
+
+/**
+ * One-line description of a fee quote, e.g. "EIP-1559 standard: base 12 gwei, max 25.5 gwei, tip 1.5 gwei"
+ */
+export function formatFeeQuote(quote: FeeQuote): string {
+  const cappedNote = quote.capped ? ' (capped by network config)' : '';
+  if (quote.type === 'legacy') {
+    return `Legacy ${quote.strategy}: ${formatGwei(quote.gasPrice)} gwei${cappedNote}`;
+  }
+  return `EIP-1559 ${quote.strategy}: base ${formatGwei(quote.baseFeePerGas)} gwei, max ${formatGwei(quote.maxFeePerGas)} gwei, tip ${formatGwei(quote.maxPriorityFeePerGas)} gwei${cappedNote}`;
+}
+
+/**
+ * Cost range as "min – max ETH (expected X)"
+ */
+export function formatCostRange(range: CostRange, symbol = 'ETH'): string {
+  return `${range.minEth} – ${range.maxEth} ${symbol} (expected ${range.expectedEth})`;
+}
+
+/**
+ * Estimated cost of a prepared transaction, as a range when one was computed
+ */
+export function formatEstimatedCost(metadata: Pick<PreparedTransaction['metadata'], 'estimatedCost' | 'estimatedCostEth' | 'l1Fee'>): string {
+  const cost = metadata.estimatedCost ? formatCostRange(metadata.estimatedCost) : `${metadata.estimatedCostEth} ETH`;
+  return metadata.l1Fee ? `${cost}, ${formatL1Fee(metadata.l1Fee)}` : cost;
+}
+
+/**
+ * L1 data fee note for a rollup transaction
+ */
+export function formatL1Fee(l1Fee: L1FeeEstimate): string {
+  return l1Fee.includedInGasEstimate
+    ? `incl. L1 data fee ${l1Fee.l1FeeEth} ETH paid as L2 gas`
+    : `incl. L1 data fee ${l1Fee.l1FeeEth} ETH`;
+}
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { bytesToHex, getAddress, hexToBytes, keccak256 } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { KeystoreError } from '../types/index.js';
+
+/**
+ * Web3 Secret Storage (keystore v3)
+ * The key file format geth, clef and `cast wallet` read and write.
+ * Keys are encrypted with AES-128-CTR under a key derived from the passphrase with scrypt;
+ * pbkdf2 keystores are accepted on import.
+ */
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+// geth's "standard" scrypt parameters
+export const DEFAULT_SCRYPT_PARAMS = { n: 262144, r: 8, p: 1 };
+
+export interface ScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: 'hmac-sha256';
+  salt: string;
+}
+
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+/**
+ * Whether a parsed JSON value looks like a v3 keystore
+ */
+export function isKeystoreV3(value: any): value is KeystoreV3 {
+  // geth writes "crypto"; some older tools wrote "Crypto"
+  const cryptoSection = value?.crypto ?? value?.Crypto;
+  return value?.version === 3 && typeof cryptoSection?.ciphertext === 'string';
+}
+
+async function deriveKey(passphrase: string, kdf: string, params: ScryptParams | Pbkdf2Params): Promise<Buffer> {
+  const salt = Buffer.from(params.salt, 'hex');
+
+  if (kdf === 'scrypt') {
+    const { n, r, p, dklen } = params as ScryptParams;
+    // Node refuses scrypt above 32 MiB of memory unless told otherwise
+    return scrypt(passphrase, salt, dklen, { N: n, r, p, maxmem: 256 * n * r });
+  }
+
+  if (kdf === 'pbkdf2') {
+    const { c, dklen, prf } = params as Pbkdf2Params;
+    if (prf !== 'hmac-sha256') {
+      throw new KeystoreError(`Unsupported pbkdf2 PRF: ${prf}`);
+    }
+    return pbkdf2(passphrase, salt, c, dklen, 'sha256');
+  }
+
+  throw new KeystoreError(`Unsupported key derivation function: ${kdf}`);
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+/**
+ * Encrypt a private key into a v3 keystore
+ */
+export async function encryptKeystore(
+  privateKey: `0x${string}`,
+  passphrase: string,
+  options: { scrypt?: { n: number; r: number; p: number } } = {}
+): Promise<KeystoreV3> {
+  const account = privateKeyToAccount(privateKey);
+  const { n, r, p } = options.scrypt ?? DEFAULT_SCRYPT_PARAMS;
+
+  const kdfparams: ScryptParams = { dklen: 32, n, r, p, salt: crypto.randomBytes(32).toString('hex') };
+  const iv = crypto.randomBytes(16);
+  const derivedKey = await deriveKey(passphrase, 'scrypt', kdfparams);
+
+  const cipher = crypto.createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(hexToBytes(privateKey)), cipher.final()]);
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: account.address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext)
+    }
+  };
+}
+
+/**
+ * Decrypt a v3 keystore. A wrong passphrase fails the MAC check.
+ */
+export async function decryptKeystore(keystore: KeystoreV3, passphrase: string): Promise<`0x${string}`> {
+  if (!isKeystoreV3(keystore)) {
+    throw new KeystoreError('Not a version 3 keystore');
+  }
+
+  const section = keystore.crypto ?? (keystore as any).Crypto;
+  if (section.cipher !== 'aes-128-ctr') {
+    throw new KeystoreError(`Unsupported cipher: ${section.cipher}`);
+  }
+
+  const derivedKey = await deriveKey(passphrase, section.kdf, section.kdfparams);
+  const ciphertext = Buffer.from(section.ciphertext, 'hex');
+
+  const expectedMac = Buffer.from(computeMac(derivedKey, ciphertext), 'hex');
+  const mac = Buffer.from(section.mac, 'hex');
+  if (mac.length !== expectedMac.length || !crypto.timingSafeEqual(mac, expectedMac)) {
+    throw new KeystoreError('Wrong passphrase: keystore MAC does not match');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(section.cipherparams.iv, 'hex'));
+  const privateKey = bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+
+  if (keystore.address) {
+    const address = privateKeyToAccount(privateKey).address;
+    if (getAddress(`0x${keystore.address.replace(/^0x/, '')}`) !== address) {
+      throw new KeystoreError(`Keystore decrypts to ${address}, not the address it declares`);
+    }
+  }
+
+  return privateKey;
+}
+
+/**
+ * geth's key file name: UTC--<timestamp>--<address>
+ */
+export function keystoreFileName(keystore: KeystoreV3, date: Date = new Date()): string {
+  return `UTC--${date.toISOString().replace(/:/g, '-')}--${keystore.address}`;
+}
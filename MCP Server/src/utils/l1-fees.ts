@@ -0,0 +1,99 @@
+import { Address, Hex, formatEther, parseAbi, serializeTransaction, zeroAddress } from 'viem';
+import { L1FeeEstimate, NetworkConfig, RollupType } from '../types/index.js';
+
+/**
+ * L1 data fee estimation for rollups. OP Stack chains charge the L1 fee on top of L2 gas;
+ * Arbitrum folds it into the L2 gas estimate, so it is reported but not added again.
+ *
+ * frontend/src/lib/contracts/l1-fees.ts mirrors this for the deploy wizard; change both together.
+ */
+
+// OP Stack predeploy that prices the L1 data of a serialized transaction
+export const OP_GAS_PRICE_ORACLE: Address = '0x420000000000000000000000000000000000000F';
+
+// Arbitrum virtual contract answering gas estimation queries through eth_call
+export const ARBITRUM_NODE_INTERFACE: Address = '0x00000000000000000000000000000000000000C8';
+
+const GAS_PRICE_ORACLE_ABI = parseAbi([
+  'function getL1Fee(bytes _data) view returns (uint256)'
+]);
+
+const NODE_INTERFACE_ABI = parseAbi([
+  'function gasEstimateComponents(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimate, uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)'
+]);
+
+const ROLLUP_CHAINS: Record<number, RollupType> = {
+  10: 'op-stack', // Optimism
+  11155420: 'op-stack', // Optimism Sepolia
+  8453: 'op-stack', // Base
+  84532: 'op-stack', // Base Sepolia
+  42161: 'arbitrum', // Arbitrum One
+  421614: 'arbitrum' // Arbitrum Sepolia
+};
+
+/**
+ * Rollup family of a chain, or undefined for L1s and sidechains
+ */
+export function getRollupType(chainId: number): RollupType | undefined {
+  return ROLLUP_CHAINS[chainId];
+}
+
+/**
+ * Estimate the L1 data fee of a transaction. Returns undefined on chains without one.
+ */
+export async function estimateL1DataFee(
+  publicClient: any,
+  networkConfig: NetworkConfig,
+  tx: {
+    to: Address | null;
+    data: Hex;
+    value?: bigint;
+    gas?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    gasPrice?: bigint;
+    nonce?: number;
+    fromAddress?: Address;
+  }
+): Promise<L1FeeEstimate | undefined> {
+  const rollup = getRollupType(networkConfig.chainId);
+  if (!rollup) return undefined;
+
+  if (rollup === 'op-stack') {
+    // The oracle prices the RLP-encoded unsigned transaction; the signature adds a fixed overhead it accounts for
+    const serialized = serializeTransaction(
+      tx.gasPrice !== undefined
+        ? { chainId: networkConfig.chainId, to: tx.to ?? undefined, data: tx.data, value: tx.value, gas: tx.gas, gasPrice: tx.gasPrice, nonce: tx.nonce ?? 0 }
+        : { chainId: networkConfig.chainId, to: tx.to ?? undefined, data: tx.data, value: tx.value, gas: tx.gas, maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas, nonce: tx.nonce ?? 0 }
+    );
+    const l1Fee: bigint = await publicClient.readContract({
+      address: OP_GAS_PRICE_ORACLE,
+      abi: GAS_PRICE_ORACLE_ABI,
+      functionName: 'getL1Fee',
+      args: [serialized]
+    });
+
+    return toEstimate(rollup, l1Fee, false);
+  }
+
+  const { result } = await publicClient.simulateContract({
+    address: ARBITRUM_NODE_INTERFACE,
+    abi: NODE_INTERFACE_ABI,
+    functionName: 'gasEstimateComponents',
+    args: [tx.to ?? zeroAddress, tx.to === null, tx.data],
+    account: tx.fromAddress
+  });
+  const [, gasEstimateForL1, baseFee] = result as readonly [bigint, bigint, bigint, bigint];
+
+  return toEstimate(rollup, gasEstimateForL1 * baseFee, true, gasEstimateForL1);
+}
+
+function toEstimate(rollup: RollupType, l1FeeWei: bigint, includedInGasEstimate: boolean, l1Gas?: bigint): L1FeeEstimate {
+  return {
+    rollup,
+    l1FeeWei: l1FeeWei.toString(),
+    l1FeeEth: formatEther(l1FeeWei),
+    includedInGasEstimate,
+    l1Gas: l1Gas?.toString()
+  };
+}
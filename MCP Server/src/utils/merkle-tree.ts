@@ -0,0 +1,78 @@
+import { Hex, encodeAbiParameters, keccak256 } from 'viem';
+
+/**
+ * Merkle Airdrop Trees
+ * Builds the claim tree checked by SimpleDAOMerkleDistributor. Leaves are
+ * keccak256(keccak256(abi.encode(index, account, amount))), the leaf encoding of
+ * OpenZeppelin's StandardMerkleTree, and pairs are hashed in sorted order as
+ * MerkleProof.verify expects. Only the leaf encoding is compatible: leaves stay in
+ * claim order and odd nodes are carried up, so StandardMerkleTree builds a
+ * different root and proofs from the same claims.
+ */
+
+export interface MerkleClaim {
+  index: number;
+  amount: string; // Base units
+  proof: Hex[];
+}
+
+export interface MerkleTree {
+  root: Hex;
+  claims: Record<string, MerkleClaim>;
+}
+
+/**
+ * Leaf for one claim, double hashed so it can never collide with an inner node
+ */
+export function hashClaimLeaf(index: number, account: string, amount: bigint): Hex {
+  return keccak256(keccak256(encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'address' }, { type: 'uint256' }],
+    [BigInt(index), account as Hex, amount]
+  )));
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  const [first, second] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+  return keccak256(`0x${first.slice(2)}${second.slice(2)}`);
+}
+
+/**
+ * Build the tree for recipients in list order; each recipient's position is its claim index.
+ * An odd node at the end of a layer is carried up unchanged, so its proof skips that level.
+ */
+export function buildMerkleTree(recipients: { address: string; amount: bigint }[]): MerkleTree {
+  if (recipients.length === 0) {
+    throw new Error('Cannot build a Merkle tree without recipients');
+  }
+
+  const layers: Hex[][] = [recipients.map((recipient, index) => hashClaimLeaf(index, recipient.address, recipient.amount))];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const claims: Record<string, MerkleClaim> = {};
+  recipients.forEach((recipient, index) => {
+    const proof: Hex[] = [];
+    let node = index;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = node % 2 === 0 ? node + 1 : node - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      node = Math.floor(node / 2);
+    }
+    claims[recipient.address] = { index, amount: recipient.amount.toString(), proof };
+  });
+
+  return { root: layers[layers.length - 1][0], claims };
+}
+
+/**
+ * Recompute the root from a leaf and its proof, as MerkleProof.verify does on-chain
+ */
+export function verifyMerkleProof(proof: Hex[], root: Hex, leaf: Hex): boolean {
+  return proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf).toLowerCase() === root.toLowerCase();
+}
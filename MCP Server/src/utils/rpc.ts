@@ -0,0 +1,352 @@
+import { createPublicClient, fallback, http, keccak256, Hex, Transport } from 'viem';
+import { NetworkConfig, NetworkError } from '../types/index.js';
+
+/**
+ * Shared RPC client factory with failover across rpcUrl and fallbackRpcUrls.
+ * Endpoints are probed (eth_chainId, eth_blockNumber) before use, ranked by latency
+ * and error rate, and demoted when unreachable or behind the other endpoints.
+ */
+
+// How long a probe result is trusted before endpoints are checked again
+export const HEALTH_CHECK_TTL_MS = 60_000;
+
+// Endpoints this many blocks behind the best endpoint are considered stale
+export const STALE_BLOCK_LAG = 20;
+
+const PROBE_TIMEOUT_MS = 5_000;
+
+// Latency penalty per unit of error rate when ranking endpoints
+const ERROR_RATE_PENALTY_MS = 5_000;
+
+// Weight of the newest sample in the moving latency average
+const LATENCY_SMOOTHING = 0.3;
+
+export type EndpointStatus = 'healthy' | 'stale' | 'unreachable' | 'wrong-chain';
+
+interface EndpointStats {
+  requests: number;
+  failures: number;
+  avgLatencyMs?: number;
+  chainId?: number;
+  blockNumber?: bigint;
+  status?: EndpointStatus;
+  lastError?: string;
+  checkedAt?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  status: EndpointStatus;
+  rank?: number;
+  chainId?: number;
+  blockNumber?: string;
+  blocksBehind?: number;
+  latencyMs?: number;
+  requests: number;
+  failures: number;
+  error?: string;
+}
+
+export interface NetworkHealthReport {
+  networkName: string;
+  chainId: number;
+  checkedAt: string;
+  endpoints: EndpointHealth[];
+  healthyCount: number;
+}
+
+export interface BroadcastResult {
+  transactionHash: Hex;
+  endpoint: string;
+  attempts: number;
+  alreadyKnown: boolean;
+}
+
+const endpointStats = new Map<string, EndpointStats>();
+const pendingChecks = new Map<string, Promise<void>>();
+
+function statsFor(url: string): EndpointStats {
+  let stats = endpointStats.get(url);
+  if (!stats) {
+    stats = { requests: 0, failures: 0 };
+    endpointStats.set(url, stats);
+  }
+  return stats;
+}
+
+/**
+ * Record the outcome of a request against an endpoint
+ */
+export function recordEndpointResult(url: string, result: { latencyMs: number } | { error: string }): void {
+  const stats = statsFor(url);
+  stats.requests++;
+
+  if ('error' in result) {
+    stats.failures++;
+    stats.lastError = result.error;
+    return;
+  }
+
+  stats.avgLatencyMs = stats.avgLatencyMs === undefined
+    ? result.latencyMs
+    : Math.round(stats.avgLatencyMs * (1 - LATENCY_SMOOTHING) + result.latencyMs * LATENCY_SMOOTHING);
+}
+
+/**
+ * Forget recorded endpoint statistics (all endpoints, or a single one)
+ */
+export function resetEndpointStats(url?: string): void {
+  if (url) {
+    endpointStats.delete(url);
+  } else {
+    endpointStats.clear();
+  }
+}
+
+/**
+ * Hide API keys embedded in RPC URLs, e.g. https://eth-mainnet.g.alchemy.com/v2/***
+ */
+export function redactRpcUrl(url: string): string {
+  return url
+    .replace(/\/([A-Za-z0-9_-]{16,})(?=\/?$|\?)/, '/***')
+    .replace(/([?&](?:api[-_]?key|key|token)=)[^&]+/i, '$1***');
+}
+
+/**
+ * Configured endpoints in priority order, without duplicates or unresolved ${VAR} placeholders
+ */
+export function getRpcUrls(networkConfig: NetworkConfig): string[] {
+  const urls = [networkConfig.rpcUrl, ...(networkConfig.fallbackRpcUrls ?? [])];
+  return Array.from(new Set(urls.filter(url => url && !url.includes('${'))));
+}
+
+/**
+ * Transport errors say something about the endpoint; reverts and rejected transactions do not
+ */
+export function isEndpointError(error: any): boolean {
+  const name = error?.name ?? '';
+  const message = String(error?.shortMessage ?? error?.message ?? '').toLowerCase();
+  return ['HttpRequestError', 'TimeoutError', 'SocketClosedError', 'LimitExceededRpcError', 'InternalRpcError', 'MethodNotFoundRpcError'].includes(name)
+    || message.includes('fetch failed')
+    || message.includes('rate limit')
+    || message.includes('too many requests');
+}
+
+function endpointScore(stats: EndpointStats | undefined): number {
+  if (!stats || stats.avgLatencyMs === undefined) return Number.MAX_SAFE_INTEGER;
+  const errorRate = stats.requests > 0 ? stats.failures / stats.requests : 0;
+  return stats.avgLatencyMs + errorRate * ERROR_RATE_PENALTY_MS;
+}
+
+const STATUS_TIER: Record<EndpointStatus, number> = {
+  healthy: 0,
+  stale: 1,
+  unreachable: 2,
+  'wrong-chain': 3
+};
+
+/**
+ * Order endpoints best first: healthy before stale before unreachable, then by latency
+ * and error rate. Endpoints serving another chain are dropped.
+ */
+export function rankRpcUrls(urls: string[], expectedChainId: number): string[] {
+  return urls
+    .map((url, index) => ({ url, index, stats: endpointStats.get(url) }))
+    .filter(({ stats }) => stats?.chainId === undefined || stats.chainId === expectedChainId)
+    .sort((a, b) =>
+      STATUS_TIER[a.stats?.status ?? 'healthy'] - STATUS_TIER[b.stats?.status ?? 'healthy']
+      || endpointScore(a.stats) - endpointScore(b.stats)
+      || a.index - b.index
+    )
+    .map(({ url }) => url);
+}
+
+/**
+ * Probe one endpoint: eth_chainId first so a wrong-chain endpoint is never asked for blocks
+ */
+async function probeEndpoint(url: string): Promise<void> {
+  const stats = statsFor(url);
+  const client = createPublicClient({
+    transport: http(url, { timeout: PROBE_TIMEOUT_MS, retryCount: 0 })
+  });
+
+  const startedAt = Date.now();
+  try {
+    stats.chainId = await client.getChainId();
+    stats.blockNumber = await client.getBlockNumber({ cacheTime: 0 });
+    recordEndpointResult(url, { latencyMs: Date.now() - startedAt });
+    stats.status = 'healthy';
+    stats.lastError = undefined;
+  } catch (error: any) {
+    recordEndpointResult(url, { error: error?.shortMessage ?? error?.message ?? String(error) });
+    stats.status = 'unreachable';
+  } finally {
+    stats.checkedAt = Date.now();
+  }
+}
+
+/**
+ * Probe every endpoint of a network and classify them against each other
+ */
+async function probeNetwork(networkConfig: NetworkConfig, urls: string[]): Promise<void> {
+  await Promise.all(urls.map(probeEndpoint));
+
+  const reachable = urls.map(url => statsFor(url)).filter(stats => stats.status === 'healthy');
+  for (const stats of reachable) {
+    if (stats.chainId !== networkConfig.chainId) {
+      stats.status = 'wrong-chain';
+    }
+  }
+
+  const blockNumbers = reachable.filter(stats => stats.status === 'healthy').map(stats => stats.blockNumber ?? 0n);
+  const bestBlock = blockNumbers.reduce((max, block) => (block > max ? block : max), 0n);
+  for (const stats of reachable) {
+    if (stats.status === 'healthy' && bestBlock - (stats.blockNumber ?? 0n) > BigInt(STALE_BLOCK_LAG)) {
+      stats.status = 'stale';
+    }
+  }
+}
+
+/**
+ * Endpoints verified within the health check TTL, best first. Probes again when results are old.
+ */
+export async function getVerifiedRpcUrls(networkConfig: NetworkConfig, options: { force?: boolean } = {}): Promise<string[]> {
+  const urls = getRpcUrls(networkConfig);
+  if (urls.length === 0) {
+    throw new NetworkError(`No RPC endpoint configured for ${networkConfig.name}. Set the API key its rpcUrl needs or add fallbackRpcUrls.`);
+  }
+
+  const needsCheck = options.force || urls.some(url => {
+    const checkedAt = endpointStats.get(url)?.checkedAt;
+    return checkedAt === undefined || Date.now() - checkedAt > HEALTH_CHECK_TTL_MS;
+  });
+
+  if (needsCheck) {
+    const key = `${networkConfig.chainId}:${urls.join(',')}`;
+    let check = pendingChecks.get(key);
+    if (!check) {
+      check = probeNetwork(networkConfig, urls).finally(() => pendingChecks.delete(key));
+      pendingChecks.set(key, check);
+    }
+    await check;
+  }
+
+  const ranked = rankRpcUrls(urls, networkConfig.chainId);
+  if (ranked.length === 0) {
+    throw new NetworkError(`Every RPC endpoint for ${networkConfig.name} reports a chain ID other than ${networkConfig.chainId}`, {
+      endpoints: urls.map(redactRpcUrl)
+    });
+  }
+  return ranked;
+}
+
+/**
+ * HTTP transport that feeds latency and endpoint errors back into the ranking
+ */
+function trackedHttp(url: string): Transport {
+  const transport = http(url);
+  return ((params: Parameters<Transport>[0]) => {
+    const instance = transport(params);
+    return {
+      ...instance,
+      async request(args: any) {
+        const startedAt = Date.now();
+        try {
+          const response = await instance.request(args);
+          recordEndpointResult(url, { latencyMs: Date.now() - startedAt });
+          return response;
+        } catch (error: any) {
+          if (isEndpointError(error)) {
+            recordEndpointResult(url, { error: error?.shortMessage ?? error?.message ?? String(error) });
+          }
+          throw error;
+        }
+      }
+    };
+  }) as Transport;
+}
+
+/**
+ * Create a public client that fails over across the network's verified endpoints
+ */
+export async function createNetworkClient(networkConfig: NetworkConfig) {
+  const urls = await getVerifiedRpcUrls(networkConfig);
+
+  return createPublicClient({
+    transport: urls.length === 1 ? trackedHttp(urls[0]) : fallback(urls.map(trackedHttp))
+  });
+}
+
+/**
+ * Broadcast a signed transaction, moving to the next endpoint when one is down.
+ * A rejection (bad nonce, insufficient funds, underpriced) is final and thrown as is;
+ * "already known" from a later endpoint means an earlier attempt got through.
+ */
+export async function broadcastRawTransaction(networkConfig: NetworkConfig, signedTransaction: Hex): Promise<BroadcastResult> {
+  const urls = await getVerifiedRpcUrls(networkConfig);
+  let lastError: unknown;
+
+  for (const [index, url] of urls.entries()) {
+    const client = createPublicClient({ transport: http(url, { retryCount: 0 }) });
+    const startedAt = Date.now();
+
+    try {
+      const transactionHash = await client.sendRawTransaction({ serializedTransaction: signedTransaction });
+      recordEndpointResult(url, { latencyMs: Date.now() - startedAt });
+      return { transactionHash, endpoint: redactRpcUrl(url), attempts: index + 1, alreadyKnown: false };
+    } catch (error: any) {
+      const message = String(error?.details ?? error?.message ?? '').toLowerCase();
+      if (message.includes('already known') || message.includes('known transaction')) {
+        return { transactionHash: keccak256(signedTransaction), endpoint: redactRpcUrl(url), attempts: index + 1, alreadyKnown: true };
+      }
+      if (!isEndpointError(error)) {
+        throw error;
+      }
+      recordEndpointResult(url, { error: error?.shortMessage ?? error?.message ?? String(error) });
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Probe every endpoint of a network now and report per-endpoint status
+ */
+export async function assessNetworkHealth(networkConfig: NetworkConfig): Promise<NetworkHealthReport> {
+  const urls = getRpcUrls(networkConfig);
+  if (urls.length > 0) {
+    await probeNetwork(networkConfig, urls);
+  }
+
+  const ranked = rankRpcUrls(urls, networkConfig.chainId);
+  const bestBlock = urls
+    .map(url => statsFor(url))
+    .filter(stats => stats.status === 'healthy')
+    .reduce((max, stats) => ((stats.blockNumber ?? 0n) > max ? stats.blockNumber ?? 0n : max), 0n);
+
+  const endpoints = urls.map((url): EndpointHealth => {
+    const stats = statsFor(url);
+    const rank = ranked.indexOf(url);
+    return {
+      url: redactRpcUrl(url),
+      status: stats.status ?? 'unreachable',
+      rank: rank >= 0 ? rank + 1 : undefined,
+      chainId: stats.chainId,
+      blockNumber: stats.blockNumber?.toString(),
+      blocksBehind: (stats.status === 'healthy' || stats.status === 'stale') && bestBlock > 0n ? Number(bestBlock - (stats.blockNumber ?? 0n)) : undefined,
+      latencyMs: stats.avgLatencyMs,
+      requests: stats.requests,
+      failures: stats.failures,
+      error: stats.status === 'healthy' ? undefined : stats.lastError
+    };
+  }).sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
+
+  return {
+    networkName: networkConfig.name,
+    chainId: networkConfig.chainId,
+    checkedAt: new Date().toISOString(),
+    endpoints,
+    healthyCount: endpoints.filter(endpoint => endpoint.status === 'healthy').length
+  };
+}
@@ -0,0 +1,305 @@
+import { spawn, ChildProcess } from 'child_process';
+import net from 'net';
+import { Address, Hex, Log, createTestClient, http, parseEther, publicActions } from 'viem';
+import { SUPPORTED_NETWORKS, getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import { getVerifiedRpcUrls, redactRpcUrl, resetEndpointStats } from './rpc.js';
+import { DeploymentError, NetworkConfig, NetworkError, PreparedTransaction } from '../types/index.js';
+
+/**
+ * Fork Sandbox
+ * Runs Anvil as a child process, either forking a live network or standing alone when offline,
+ * and registers it as a temporary network so every tool can target it by name.
+ */
+
+// First Anvil dev account, used when no deployer is given
+export const DEFAULT_SANDBOX_DEPLOYER: Address = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const ANVIL_STARTUP_TIMEOUT_MS = 30000;
+const ANVIL_SHUTDOWN_TIMEOUT_MS = 5000;
+const OFFLINE_CHAIN_ID = 31337;
+
+export interface SandboxInfo {
+  id: string;
+  networkName: string;
+  rpcUrl: string;
+  chainId: number;
+  forkedFrom?: string;
+  forkUrl?: string;
+  forkBlockNumber?: string;
+  offlineReason?: string;
+  deployer: string;
+  fundedEth: string;
+  pid?: number;
+  startedAt: string;
+}
+
+type SandboxClient = ReturnType<typeof createSandboxClient>;
+
+interface Sandbox {
+  info: SandboxInfo;
+  process: ChildProcess;
+  client: SandboxClient;
+}
+
+const sandboxes = new Map<string, Sandbox>();
+let sandboxCounter = 0;
+let exitHookInstalled = false;
+
+/**
+ * Anvil test actions plus the usual public actions against one sandbox
+ */
+function createSandboxClient(rpcUrl: string) {
+  return createTestClient({ mode: 'anvil', transport: http(rpcUrl, { retryCount: 0 }) }).extend(publicActions);
+}
+
+/**
+ * Ask the OS for a free local port
+ */
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Anvil processes must not outlive the server
+ */
+function installExitHook(): void {
+  if (exitHookInstalled) {
+    return;
+  }
+  exitHookInstalled = true;
+  process.once('exit', () => {
+    for (const sandbox of sandboxes.values()) {
+      sandbox.process.kill('SIGTERM');
+    }
+  });
+}
+
+/**
+ * Spawn Anvil and wait until it answers RPC requests
+ */
+async function spawnAnvil(args: string[], rpcUrl: string): Promise<{ child: ChildProcess; client: SandboxClient }> {
+  const child = spawn('anvil', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+  let stderr = '';
+  child.stderr?.on('data', (chunk) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+
+  const exited = new Promise<never>((_, reject) => {
+    child.once('error', (error: any) => reject(error.code === 'ENOENT'
+      ? new DeploymentError('anvil was not found on PATH. Install Foundry (https://getfoundry.sh) to use the fork sandbox.')
+      : error));
+    child.once('exit', (code) => reject(new DeploymentError(`anvil exited with code ${code} during startup${stderr ? `: ${stderr.trim()}` : ''}`)));
+  });
+
+  const client = createSandboxClient(rpcUrl);
+  const ready = (async () => {
+    const deadline = Date.now() + ANVIL_STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      try {
+        await client.getChainId();
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+    }
+    throw new DeploymentError(`anvil did not answer on ${rpcUrl} within ${ANVIL_STARTUP_TIMEOUT_MS / 1000}s`);
+  })();
+
+  try {
+    await Promise.race([ready, exited]);
+  } catch (error) {
+    child.kill('SIGTERM');
+    throw error;
+  }
+
+  // Startup rejections no longer matter once Anvil is up
+  exited.catch(() => undefined);
+  return { child, client };
+}
+
+/**
+ * Start an Anvil sandbox. With a network name it forks that network at its latest (or the given) block;
+ * when the network cannot be reached it falls back to a plain local chain.
+ */
+export async function startSandbox(options: {
+  networkName?: string;
+  blockNumber?: bigint;
+  deployer?: Address;
+  fundEth?: string;
+}): Promise<SandboxInfo> {
+  const baseConfig = options.networkName
+    ? await resolveNetworkConfig(getNetworkConfig(options.networkName))
+    : undefined;
+
+  let forkUrl: string | undefined;
+  let offlineReason: string | undefined;
+  if (baseConfig) {
+    try {
+      [forkUrl] = await getVerifiedRpcUrls(baseConfig, { force: true });
+    } catch (error: any) {
+      offlineReason = error.message;
+    }
+  }
+
+  const port = await findFreePort();
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const args = ['--port', String(port), '--host', '127.0.0.1'];
+  if (forkUrl) {
+    args.push('--fork-url', forkUrl);
+    if (options.blockNumber !== undefined) {
+      args.push('--fork-block-number', options.blockNumber.toString());
+    }
+  } else {
+    args.push('--chain-id', String(OFFLINE_CHAIN_ID));
+  }
+
+  installExitHook();
+  const { child, client } = await spawnAnvil(args, rpcUrl);
+
+  try {
+    const chainId = await client.getChainId();
+    const blockNumber = await client.getBlockNumber({ cacheTime: 0 });
+
+    const deployer = options.deployer ?? DEFAULT_SANDBOX_DEPLOYER;
+    const fundedEth = options.fundEth ?? '1000';
+    await client.setBalance({ address: deployer, value: parseEther(fundedEth) });
+    await client.impersonateAccount({ address: deployer });
+
+    const id = `sandbox-${++sandboxCounter}`;
+    const networkConfig: NetworkConfig = {
+      ...(baseConfig ?? getNetworkConfig('local')),
+      name: forkUrl ? `Sandbox (fork of ${baseConfig!.name})` : 'Sandbox (offline)',
+      chainId,
+      rpcUrl,
+      fallbackRpcUrls: [],
+      explorerUrl: undefined,
+      explorerApiUrl: undefined,
+      explorerApiKey: undefined,
+      testnet: true
+    };
+    SUPPORTED_NETWORKS[id] = networkConfig;
+
+    const info: SandboxInfo = {
+      id,
+      networkName: id,
+      rpcUrl,
+      chainId,
+      forkedFrom: forkUrl ? options.networkName : undefined,
+      forkUrl: forkUrl ? redactRpcUrl(forkUrl) : undefined,
+      forkBlockNumber: forkUrl ? blockNumber.toString() : undefined,
+      offlineReason,
+      deployer,
+      fundedEth,
+      pid: child.pid,
+      startedAt: new Date().toISOString()
+    };
+    sandboxes.set(id, { info, process: child, client });
+
+    return info;
+  } catch (error) {
+    child.kill('SIGTERM');
+    throw error;
+  }
+}
+
+/**
+ * Look up a running sandbox or fail with a helpful error
+ */
+function requireSandbox(sandboxId: string): Sandbox {
+  const sandbox = sandboxes.get(sandboxId);
+  if (!sandbox) {
+    throw new NetworkError(`Sandbox not found: ${sandboxId}. Running sandboxes: ${[...sandboxes.keys()].join(', ') || 'none'}`);
+  }
+  return sandbox;
+}
+
+/**
+ * Running sandboxes, oldest first
+ */
+export function listSandboxes(): SandboxInfo[] {
+  return [...sandboxes.values()].map(sandbox => sandbox.info);
+}
+
+/**
+ * Stop a sandbox's Anvil process and remove its temporary network
+ */
+export async function stopSandbox(sandboxId: string): Promise<SandboxInfo> {
+  const { info, process: child } = requireSandbox(sandboxId);
+
+  sandboxes.delete(sandboxId);
+  delete SUPPORTED_NETWORKS[info.networkName];
+  resetEndpointStats(info.rpcUrl);
+
+  if (child.exitCode === null && child.signalCode === null) {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, ANVIL_SHUTDOWN_TIMEOUT_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+  }
+
+  return info;
+}
+
+/**
+ * Move the sandbox clock forward and mine, e.g. past a voting delay or timelock delay
+ */
+export async function advanceSandboxTime(
+  sandboxId: string,
+  options: { seconds?: number; blocks?: number }
+): Promise<{ blockNumber: string; timestamp: string }> {
+  const { client } = requireSandbox(sandboxId);
+
+  if (options.seconds && options.seconds > 0) {
+    await client.increaseTime({ seconds: options.seconds });
+  }
+  await client.mine({ blocks: Math.max(1, options.blocks ?? 1) });
+
+  const block = await client.getBlock();
+  return { blockNumber: block.number.toString(), timestamp: block.timestamp.toString() };
+}
+
+/**
+ * Send a prepared transaction from an impersonated account, without a signature, and wait for its receipt
+ */
+export async function sendSandboxTransaction(
+  sandboxId: string,
+  unsignedTransaction: PreparedTransaction['unsignedTransaction'],
+  from?: Address
+): Promise<{ transactionHash: Hex; status: 'success' | 'reverted'; gasUsed: bigint; contractAddress?: Address; logs: Log[] }> {
+  const { info, client } = requireSandbox(sandboxId);
+  const sender = from ?? (info.deployer as Address);
+
+  await client.impersonateAccount({ address: sender });
+  const transactionHash = await client.sendUnsignedTransaction({
+    from: sender,
+    to: (unsignedTransaction.to as Address | null) ?? undefined,
+    data: unsignedTransaction.data as Hex,
+    value: BigInt(unsignedTransaction.value || 0),
+    gas: unsignedTransaction.gas ? BigInt(unsignedTransaction.gas) : undefined
+  } as any);
+
+  const receipt = await client.waitForTransactionReceipt({ hash: transactionHash, timeout: 30000 });
+
+  return {
+    transactionHash,
+    status: receipt.status,
+    gasUsed: receipt.gasUsed,
+    contractAddress: receipt.contractAddress ?? undefined,
+    logs: receipt.logs
+  };
+}
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { Address, Hex, TransactionSerialized, getAddress, keccak256, parseTransaction, recoverTransactionAddress } from 'viem';
+import { PreparedTransaction, TransactionError } from '../types/index.js';
+
+/**
+ * Signed Transactions
+ * Decodes signed RLP transactions and compares them with the transactions this server prepared,
+ * so a blob whose destination, value or calldata changed during signing is refused before broadcast.
+ */
+
+// Prepared transactions are kept in memory; the oldest are dropped past this many
+const MAX_PREPARED_TRANSACTIONS = 500;
+
+const preparedTransactions = new Map<string, PreparedTransaction>();
+
+export interface DecodedSignedTransaction {
+  hash: Hex;
+  type: string;
+  from: Address;
+  chainId?: number;
+  nonce?: number;
+  to: Address | null;
+  value: bigint;
+  data: Hex;
+  gas?: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export type CheckedTransactionField = 'chainId' | 'nonce' | 'to' | 'value' | 'data' | 'from';
+
+export interface TransactionFieldMismatch {
+  field: CheckedTransactionField;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Identify a prepared transaction by a hash of its unsigned fields
+ */
+export function getPreparedTransactionId(preparedTx: PreparedTransaction): string {
+  const { to, value, data, gas, gasPrice, maxFeePerGas, maxPriorityFeePerGas, nonce, chainId } = preparedTx.unsignedTransaction;
+  const fields = [
+    chainId ?? preparedTx.metadata.networkChainId,
+    nonce ?? null,
+    to?.toLowerCase() ?? null,
+    value,
+    data.toLowerCase(),
+    gas ?? null,
+    gasPrice ?? null,
+    maxFeePerGas ?? null,
+    maxPriorityFeePerGas ?? null
+  ];
+
+  return `0x${crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex')}`;
+}
+
+/**
+ * Remember a prepared transaction so a signed version of it can be checked before broadcast.
+ * Returns the transaction with its ID in the metadata.
+ */
+export function registerPreparedTransaction(preparedTx: PreparedTransaction): PreparedTransaction {
+  const preparedTransactionId = getPreparedTransactionId(preparedTx);
+  const registered = {
+    ...preparedTx,
+    metadata: { ...preparedTx.metadata, preparedTransactionId }
+  };
+
+  preparedTransactions.delete(preparedTransactionId);
+  preparedTransactions.set(preparedTransactionId, registered);
+  if (preparedTransactions.size > MAX_PREPARED_TRANSACTIONS) {
+    const [oldest] = preparedTransactions.keys();
+    preparedTransactions.delete(oldest);
+  }
+
+  return registered;
+}
+
+/**
+ * Look up a prepared transaction by ID
+ */
+export function getPreparedTransaction(preparedTransactionId: string): PreparedTransaction | undefined {
+  return preparedTransactions.get(preparedTransactionId.toLowerCase());
+}
+
+/**
+ * Find the most recently prepared transaction with the same chain ID, nonce, destination, value and calldata
+ */
+export function findPreparedTransaction(decoded: DecodedSignedTransaction): PreparedTransaction | undefined {
+  return [...preparedTransactions.values()]
+    .reverse()
+    .find(preparedTx => compareWithPreparedTransaction(decoded, preparedTx).every(mismatch => mismatch.field === 'from'));
+}
+
+/**
+ * Parse a signed RLP transaction and recover its signer
+ */
+export async function parseSignedTransaction(signedTransaction: Hex): Promise<DecodedSignedTransaction> {
+  const serializedTransaction = signedTransaction as TransactionSerialized;
+
+  let parsed: ReturnType<typeof parseTransaction>;
+  try {
+    parsed = parseTransaction(serializedTransaction);
+  } catch (error: any) {
+    throw new TransactionError(`Not a valid signed transaction: ${error.shortMessage ?? error.message}`);
+  }
+
+  if (parsed.r === undefined || parsed.s === undefined) {
+    throw new TransactionError('Transaction is not signed');
+  }
+
+  let from: Address;
+  try {
+    from = await recoverTransactionAddress({ serializedTransaction });
+  } catch (error: any) {
+    throw new TransactionError(`Could not recover the signer: ${error.shortMessage ?? error.message}`);
+  }
+
+  return {
+    hash: keccak256(signedTransaction),
+    type: parsed.type ?? 'legacy',
+    from,
+    chainId: parsed.chainId,
+    nonce: parsed.nonce,
+    to: parsed.to ? getAddress(parsed.to) : null,
+    value: parsed.value ?? 0n,
+    data: parsed.data ?? '0x',
+    gas: parsed.gas,
+    gasPrice: parsed.gasPrice,
+    maxFeePerGas: parsed.maxFeePerGas,
+    maxPriorityFeePerGas: parsed.maxPriorityFeePerGas
+  };
+}
+
+/**
+ * Compare a signed transaction with the transaction that was prepared for signing.
+ * Gas and fee fields are left to the signer; a nonce or signer is only checked when one was prepared.
+ */
+export function compareWithPreparedTransaction(
+  decoded: DecodedSignedTransaction,
+  preparedTx: PreparedTransaction
+): TransactionFieldMismatch[] {
+  const { unsignedTransaction, metadata } = preparedTx;
+  const mismatches: TransactionFieldMismatch[] = [];
+  const check = (field: CheckedTransactionField, expected: string, actual: string) => {
+    if (expected !== actual) {
+      mismatches.push({ field, expected, actual });
+    }
+  };
+
+  check('chainId', String(unsignedTransaction.chainId ?? metadata.networkChainId), String(decoded.chainId ?? 'none'));
+  if (unsignedTransaction.nonce !== undefined) {
+    check('nonce', String(unsignedTransaction.nonce), String(decoded.nonce ?? 0));
+  }
+  check('to', unsignedTransaction.to?.toLowerCase() ?? 'contract creation', decoded.to?.toLowerCase() ?? 'contract creation');
+  check('value', BigInt(unsignedTransaction.value || 0).toString(), decoded.value.toString());
+  check('data', unsignedTransaction.data.toLowerCase(), decoded.data.toLowerCase());
+  if (metadata.fromAddress) {
+    check('from', metadata.fromAddress.toLowerCase(), decoded.from.toLowerCase());
+  }
+
+  return mismatches;
+}
+
+/**
+ * Describe field mismatches in one line each, shortening calldata
+ */
+export function formatFieldMismatches(mismatches: TransactionFieldMismatch[]): string[] {
+  const shorten = (value: string) => (value.length > 42 ? `${value.slice(0, 42)}... (${(value.length - 2) / 2} bytes)` : value);
+  return mismatches.map(({ field, expected, actual }) => `${field}: expected ${shorten(expected)}, signed ${shorten(actual)}`);
+}
@@ -1,5 +1,9 @@
-import { createPublicClient, http, Hex, Address, encodeFunctionData, parseAbi } from 'viem';
-import { NetworkConfig, PreparedTransaction } from '../types/index.js';
+import { Abi, Hex, Address, StateOverride, encodeFunctionData, parseAbi, getContractAddress, formatGwei } from 'viem';
+import { FeeStrategy, NetworkConfig, PreparedTransaction, TransactionError } from '../types/index.js';
+import { FeeQuote, addL1Fee, estimateCostRange, formatEstimatedCost, getFeeQuote } from './fees.js';
+import { estimateL1DataFee } from './l1-fees.js';
+import { createNetworkClient } from './rpc.js';
+import { registerPreparedTransaction } from './signed-transactions.js';
 
 /**
  * Transaction preparation utilities for external signing
@@ -19,12 +23,6 @@ export interface UnsignedTransaction {
 
 // Use the PreparedTransaction interface from types/index.ts - no need to redefine here
 
-export interface SignedTransactionInput {
-  signedTransaction: Hex;
-  networkName: string;
-  expectedTransactionHash?: Hex;
-}
-
 export interface TransactionBroadcastResult {
   transactionHash: Hex;
   blockNumber?: bigint;
@@ -36,12 +34,19 @@ export interface TransactionBroadcastResult {
 }
 
 /**
- * Create a public client for transaction preparation
+ * Create a public client for transaction preparation, failing over across the network's endpoints
  */
-export function createTransactionClient(networkConfig: NetworkConfig) {
-  return createPublicClient({
-    transport: http(networkConfig.rpcUrl)
-  });
+export async function createTransactionClient(networkConfig: NetworkConfig) {
+  return createNetworkClient(networkConfig);
+}
+
+/**
+ * Fee fields of an unsigned transaction for a fee quote: type-2 fields on EIP-1559 chains, gasPrice otherwise
+ */
+export function feeFieldsFromQuote(quote: FeeQuote): Pick<UnsignedTransaction, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+  return quote.type === 'eip1559'
+    ? { maxFeePerGas: quote.maxFeePerGas, maxPriorityFeePerGas: quote.maxPriorityFeePerGas }
+    : { gasPrice: quote.gasPrice };
 }
 
 /**
@@ -54,6 +59,9 @@ export async function prepareContractDeployment(params: {
   gasEstimateMultiplier?: number;
   fromAddress?: Address;
   contractName?: string;
+  nonce?: number;
+  feeStrategy?: FeeStrategy;
+  stateOverride?: StateOverride;
 }): Promise<PreparedTransaction> {
   
   const { 
@@ -62,12 +70,15 @@ export async function prepareContractDeployment(params: {
     constructorArgs = [], 
     gasEstimateMultiplier = 1.2,
     fromAddress,
-    contractName = 'Unknown Contract'
+    contractName = 'Unknown Contract',
+    nonce,
+    feeStrategy = 'standard',
+    stateOverride
   } = params;
 
   // Preparing contract deployment
 
-  const publicClient = createTransactionClient(networkConfig);
+  const publicClient = await createTransactionClient(networkConfig);
 
   // Estimate gas for deployment
   // Estimating gas for deployment
@@ -75,16 +86,14 @@ export async function prepareContractDeployment(params: {
     account: fromAddress,
     data: contractBytecode,
     value: 0n,
+    stateOverride
   });
 
   const adjustedGas = BigInt(Math.ceil(Number(gasEstimate) * gasEstimateMultiplier));
   // Gas estimate calculated
 
-  // Get current gas price
-  const gasPrice = await publicClient.getGasPrice();
-  const estimatedCostWei = adjustedGas * gasPrice;
-  const estimatedCostEth = (Number(estimatedCostWei) / 1e18).toFixed(6);
-
+  // Quote fees for the requested strategy, capped by the network config
+  const feeQuote = await getFeeQuote(publicClient, networkConfig, feeStrategy);
 
   // Get chain ID
   const chainId = await publicClient.getChainId();
@@ -94,11 +103,21 @@ export async function prepareContractDeployment(params: {
     value: 0n,
     data: contractBytecode,
     gas: adjustedGas,
-    gasPrice: gasPrice,
+    ...feeFieldsFromQuote(feeQuote),
+    nonce,
     chainId: chainId
   };
 
-  return {
+  // Rollups charge for posting the transaction to L1; nodes that cannot price it keep the L2-only estimate
+  const l1Fee = await estimateL1DataFee(publicClient, networkConfig, { ...unsignedTransaction, fromAddress }).catch(() => undefined);
+  const estimatedCost = addL1Fee(estimateCostRange(gasEstimate, adjustedGas, feeQuote), l1Fee);
+
+  // With a pinned nonce the CREATE address is known before signing
+  const expectedAddress = fromAddress && nonce !== undefined
+    ? getContractAddress({ from: fromAddress, nonce: BigInt(nonce) })
+    : undefined;
+
+  return registerPreparedTransaction({
     transactionType: 'contract_deployment',
     unsignedTransaction: {
       to: unsignedTransaction.to,
@@ -118,9 +137,42 @@ export async function prepareContractDeployment(params: {
       constructorArgs,
       description: `Deploy ${contractName} contract`,
       estimatedGasUsage: adjustedGas.toString(),
-      estimatedCostEth
+      estimatedCostEth: estimatedCost.expectedEth,
+      estimatedCost,
+      l1Fee,
+      feeType: feeQuote.type,
+      feeStrategy,
+      fromAddress,
+      expectedAddress
     }
-  } as PreparedTransaction;
+  } as PreparedTransaction);
+}
+
+/**
+ * Get the next nonce for an account, including transactions still in the mempool
+ */
+export async function getPendingNonce(networkConfig: NetworkConfig, address: Address): Promise<number> {
+  const publicClient = await createTransactionClient(networkConfig);
+  return publicClient.getTransactionCount({ address, blockTag: 'pending' });
+}
+
+/**
+ * Fail if the account nonce no longer matches the nonce a transaction was pinned to.
+ * Once the nonce moves, predicted CREATE addresses no longer hold.
+ */
+export async function assertNonceUnchanged(
+  networkConfig: NetworkConfig,
+  address: Address,
+  expectedNonce: number
+): Promise<void> {
+  const currentNonce = await getPendingNonce(networkConfig, address);
+
+  if (currentNonce !== expectedNonce) {
+    throw new TransactionError(
+      `Nonce for ${address} has moved since the plan was prepared (expected ${expectedNonce}, on chain ${currentNonce}). Prepare a new plan.`,
+      { address, expectedNonce, currentNonce }
+    );
+  }
 }
 
 /**
@@ -129,12 +181,15 @@ export async function prepareContractDeployment(params: {
 export async function prepareContractCall(params: {
   networkConfig: NetworkConfig;
   contractAddress: Address;
-  abi: any[];
+  abi: Abi;
   functionName: string;
   args?: any[];
   value?: bigint;
   gasEstimateMultiplier?: number;
   fromAddress?: Address;
+  nonce?: number;
+  feeStrategy?: FeeStrategy;
+  stateOverride?: StateOverride;
 }): Promise<PreparedTransaction> {
   
   const { 
@@ -145,12 +200,15 @@ export async function prepareContractCall(params: {
     args = [], 
     value = 0n,
     gasEstimateMultiplier = 1.2,
-    fromAddress
+    fromAddress,
+    nonce,
+    feeStrategy = 'standard',
+    stateOverride
   } = params;
 
   // Preparing contract call
 
-  const publicClient = createTransactionClient(networkConfig);
+  const publicClient = await createTransactionClient(networkConfig);
 
   // Encode function data
   const data = encodeFunctionData({
@@ -166,16 +224,14 @@ export async function prepareContractCall(params: {
     to: contractAddress,
     data,
     value,
+    stateOverride
   });
 
   const adjustedGas = BigInt(Math.ceil(Number(gasEstimate) * gasEstimateMultiplier));
   // Gas estimate calculated
 
-  // Get current gas price
-  const gasPrice = await publicClient.getGasPrice();
-  const estimatedCostWei = adjustedGas * gasPrice;
-  const estimatedCostEth = (Number(estimatedCostWei) / 1e18).toFixed(6);
-
+  // Quote fees for the requested strategy, capped by the network config
+  const feeQuote = await getFeeQuote(publicClient, networkConfig, feeStrategy);
 
   // Get chain ID
   const chainId = await publicClient.getChainId();
@@ -185,11 +241,16 @@ export async function prepareContractCall(params: {
     value,
     data,
     gas: adjustedGas,
-    gasPrice: gasPrice,
+    ...feeFieldsFromQuote(feeQuote),
+    nonce,
     chainId: chainId
   };
 
-  return {
+  // Rollups charge for posting the transaction to L1; nodes that cannot price it keep the L2-only estimate
+  const l1Fee = await estimateL1DataFee(publicClient, networkConfig, { ...unsignedTransaction, fromAddress }).catch(() => undefined);
+  const estimatedCost = addL1Fee(estimateCostRange(gasEstimate, adjustedGas, feeQuote), l1Fee);
+
+  return registerPreparedTransaction({
     transactionType: 'contract_call',
     unsignedTransaction: {
       to: unsignedTransaction.to,
@@ -208,59 +269,14 @@ export async function prepareContractCall(params: {
       functionName,
       description: `Call ${functionName} on contract ${contractAddress}`,
       estimatedGasUsage: adjustedGas.toString(),
-      estimatedCostEth
-    }
-  } as PreparedTransaction;
-}
-
-/**
- * Broadcast a signed transaction and wait for confirmation
- */
-export async function broadcastSignedTransaction(params: SignedTransactionInput): Promise<TransactionBroadcastResult> {
-  const { signedTransaction, networkName, expectedTransactionHash } = params;
-
-  // Get network configuration first
-  const { getNetworkConfig, resolveNetworkConfig } = await import('../networks/index.js');
-  const networkConfig = await resolveNetworkConfig(getNetworkConfig(networkName));
-  
-  // Import viem for broadcasting
-  const { createPublicClient, http } = await import('viem');
-  
-  // Create public client for broadcasting
-  const publicClient = createPublicClient({
-    transport: http(networkConfig.rpcUrl)
-  });
-  
-  try {
-    // Broadcast the signed transaction
-    const transactionHash = await publicClient.sendRawTransaction({
-      serializedTransaction: signedTransaction as Hex
-    });
-    
-    // Verify the expected hash matches if provided
-    if (expectedTransactionHash && transactionHash !== expectedTransactionHash) {
-      throw new Error(`Transaction hash mismatch. Expected: ${expectedTransactionHash}, Got: ${transactionHash}`);
+      estimatedCostEth: estimatedCost.expectedEth,
+      estimatedCost,
+      l1Fee,
+      feeType: feeQuote.type,
+      feeStrategy,
+      fromAddress
     }
-    
-    // Wait for transaction receipt
-    const receipt = await publicClient.waitForTransactionReceipt({ 
-      hash: transactionHash,
-      confirmations: 1 
-    });
-    
-    return {
-      transactionHash: receipt.transactionHash,
-      blockNumber: receipt.blockNumber,
-      blockHash: receipt.blockHash,
-      gasUsed: receipt.gasUsed,
-      effectiveGasPrice: receipt.effectiveGasPrice,
-      status: receipt.status === 'success' ? 'success' : 'failed',
-      contractAddress: receipt.contractAddress || undefined
-    };
-    
-  } catch (error: any) {
-    throw new Error(`Transaction broadcast failed: ${error.message}`);
-  }
+  } as PreparedTransaction);
 }
 
 /**
@@ -275,7 +291,7 @@ export async function waitForTransactionConfirmation(params: {
   const { transactionHash, networkConfig, confirmations = 1 } = params;
 
   
-  const publicClient = createTransactionClient(networkConfig);
+  const publicClient = await createTransactionClient(networkConfig);
 
   try {
     const receipt = await publicClient.waitForTransactionReceipt({ 
@@ -323,8 +339,13 @@ export function formatTransactionSummary(preparedTx: PreparedTransaction): strin
     ``,
     `💰 Cost Estimates:`,
     `Gas Limit: ${unsignedTransaction.gas?.toLocaleString() || 'Not estimated'}`,
-    `Gas Price: ${unsignedTransaction.gasPrice ? (Number(unsignedTransaction.gasPrice) / 1e9).toFixed(2) + ' gwei' : 'Not set'}`,
-    `Estimated Cost: ${metadata.estimatedCostEth} ETH`,
+    ...(unsignedTransaction.maxFeePerGas
+      ? [
+          `Max Fee: ${formatGwei(BigInt(unsignedTransaction.maxFeePerGas))} gwei`,
+          `Max Priority Fee: ${formatGwei(BigInt(unsignedTransaction.maxPriorityFeePerGas ?? 0))} gwei`
+        ]
+      : [`Gas Price: ${unsignedTransaction.gasPrice ? formatGwei(BigInt(unsignedTransaction.gasPrice)) + ' gwei' : 'Not set'}`]),
+    `Estimated Cost: ${formatEstimatedCost(metadata)}`,
     ``,
     `🔧 Transaction Data:`,
     `To: ${unsignedTransaction.to || 'Contract Deployment'}`,
@@ -340,5 +361,9 @@ export function formatTransactionSummary(preparedTx: PreparedTransaction): strin
     lines.push(`Function: ${metadata.functionName}`);
   }
 
+  if (metadata.preparedTransactionId) {
+    lines.push(`Prepared Transaction ID: ${metadata.preparedTransactionId}`);
+  }
+
   return lines.join('\n');
 }
\ No newline at end of file
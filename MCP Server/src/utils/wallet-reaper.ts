@@ -0,0 +1,265 @@
+import path from 'path';
+import crypto from 'crypto';
+import { erc20Abi, formatEther } from 'viem';
+import { AtomicFileWriter } from './atomic-file.js';
+import { getConfigDir } from './config.js';
+import { createNetworkClient } from './rpc.js';
+import { getNetworkConfig, resolveNetworkConfig } from '../networks/index.js';
+import {
+  deleteEphemeralWallet,
+  getWalletBalance,
+  listEphemeralWallets,
+  sweepEphemeralWallet,
+  sweepEphemeralWalletToken,
+  type EphemeralWallet
+} from './ephemeral-wallet.js';
+
+/**
+ * Ephemeral Wallet Reaper
+ * Enforces wallet lifecycle policies: expired wallets are swept to their recipient and
+ * deleted once empty, wallets above their max balance have the excess swept. Every run
+ * is appended to ~/.dao-deployer/ephemeral-wallet-audit.json.
+ */
+
+export type ReapReason = 'expired' | 'over-max-balance';
+export type SweepStatus = 'swept' | 'empty' | 'failed' | 'planned';
+
+export interface AssetSweepRecord {
+  asset: 'native' | string; // 'native' or the ERC20 address
+  symbol: string;
+  status: SweepStatus;
+  amount?: string;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface ReapedWallet {
+  address: string;
+  networkName: string;
+  reason: ReapReason;
+  expiresAt?: string;
+  recipient?: string;
+  sweeps: AssetSweepRecord[];
+  keyDeleted: boolean;
+  skipped?: string;
+}
+
+export interface ReapReport {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  checked: number;
+  wallets: ReapedWallet[];
+}
+
+export interface ReapOptions {
+  networkName?: string;
+  tokens?: string[];
+  defaultRecipient?: string;
+  dryRun?: boolean;
+  now?: Date;
+}
+
+interface ReaperAuditFile {
+  reports?: ReapReport[];
+  updatedAt?: string;
+}
+
+/**
+ * Get the reaper audit log path
+ */
+export function getReaperAuditFile(): string {
+  return path.join(getConfigDir(), 'ephemeral-wallet-audit.json');
+}
+
+/**
+ * Whether a wallet is past its policy expiry
+ */
+export function isWalletExpired(wallet: EphemeralWallet, now: Date = new Date()): boolean {
+  const expiresAt = wallet.policy?.expiresAt;
+  return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Balance of an ERC20 held by a wallet
+ */
+async function getTokenBalance(address: string, tokenAddress: string, networkName: string): Promise<bigint> {
+  const networkConfig = await resolveNetworkConfig(getNetworkConfig(networkName));
+  const publicClient = await createNetworkClient(networkConfig);
+  return publicClient.readContract({
+    address: tokenAddress as `0x${string}`,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [address as `0x${string}`]
+  });
+}
+
+/**
+ * Sweep every listed token, then the native balance, and delete the key once nothing is left
+ */
+async function reapExpiredWallet(
+  wallet: EphemeralWallet,
+  networkName: string,
+  recipient: string,
+  tokens: string[],
+  dryRun: boolean
+): Promise<Pick<ReapedWallet, 'sweeps' | 'keyDeleted'>> {
+  const sweeps: AssetSweepRecord[] = [];
+
+  for (const token of tokens) {
+    if (dryRun) {
+      const balance = await getTokenBalance(wallet.address, token, networkName);
+      sweeps.push({ asset: token, symbol: token, status: balance > 0n ? 'planned' : 'empty', amount: balance.toString() });
+      continue;
+    }
+
+    const result = await sweepEphemeralWalletToken(wallet.address, token, recipient, networkName);
+    sweeps.push({
+      asset: token,
+      symbol: result.symbol,
+      status: !result.success ? 'failed' : result.transactionHash ? 'swept' : 'empty',
+      amount: result.amountSwept,
+      transactionHash: result.transactionHash,
+      error: result.success ? undefined : result.error
+    });
+  }
+
+  if (dryRun) {
+    const balance = await getWalletBalance(wallet.address, networkName);
+    sweeps.push({ asset: 'native', symbol: 'ETH', status: balance.hasBalance ? 'planned' : 'empty', amount: balance.balance });
+    return { sweeps, keyDeleted: false };
+  }
+
+  const native = await sweepEphemeralWallet(wallet.address, recipient, networkName, false);
+  sweeps.push({
+    asset: 'native',
+    symbol: 'ETH',
+    status: !native.success ? 'failed' : native.transactionHash ? 'swept' : 'empty',
+    amount: native.amountSwept,
+    transactionHash: native.transactionHash,
+    error: native.success ? undefined : native.error
+  });
+
+  if (sweeps.some(sweep => sweep.status === 'failed')) {
+    return { sweeps, keyDeleted: false };
+  }
+
+  // Only delete a key that can no longer reach any funds
+  const remaining = await Promise.all([
+    getWalletBalance(wallet.address, networkName).then(balance => balance.balanceWei),
+    ...tokens.map(token => getTokenBalance(wallet.address, token, networkName))
+  ]);
+  const keyDeleted = remaining.every(balance => balance === 0n)
+    ? await deleteEphemeralWallet(wallet.address, networkName)
+    : false;
+
+  return { sweeps, keyDeleted };
+}
+
+/**
+ * Sweep the part of a wallet's native balance above its policy maximum
+ */
+async function reapExcessBalance(
+  wallet: EphemeralWallet,
+  networkName: string,
+  recipient: string,
+  maxBalanceWei: bigint,
+  balanceWei: bigint,
+  dryRun: boolean
+): Promise<AssetSweepRecord> {
+  if (dryRun) {
+    return { asset: 'native', symbol: 'ETH', status: 'planned', amount: formatEther(balanceWei - maxBalanceWei) };
+  }
+
+  const result = await sweepEphemeralWallet(wallet.address, recipient, networkName, false, { keepWei: maxBalanceWei });
+  return {
+    asset: 'native',
+    symbol: 'ETH',
+    status: result.success ? 'swept' : 'failed',
+    amount: result.amountSwept,
+    transactionHash: result.transactionHash,
+    error: result.success ? undefined : result.error
+  };
+}
+
+/**
+ * Enforce lifecycle policies on every ephemeral wallet and record the run
+ */
+export async function reapEphemeralWallets(options: ReapOptions = {}): Promise<ReapReport> {
+  const now = options.now ?? new Date();
+  const startedAt = new Date().toISOString();
+  const dryRun = options.dryRun ?? false;
+  const reaped: ReapedWallet[] = [];
+
+  const wallets = (await listEphemeralWallets())
+    .filter(wallet => !options.networkName || (wallet.policy?.allowedNetwork ?? wallet.networkName) === options.networkName);
+
+  for (const wallet of wallets) {
+    const policy = wallet.policy ?? {};
+    // Funds can only be moved on the network the key is allowed to sign on
+    const networkName = policy.allowedNetwork ?? wallet.networkName;
+    const recipient = policy.sweepRecipient ?? options.defaultRecipient;
+    const entry: ReapedWallet = {
+      address: wallet.address,
+      networkName,
+      reason: 'expired',
+      expiresAt: policy.expiresAt,
+      recipient,
+      sweeps: [],
+      keyDeleted: false
+    };
+
+    try {
+      if (isWalletExpired(wallet, now)) {
+        if (!recipient) {
+          reaped.push({ ...entry, skipped: 'No sweepRecipient in the policy and no defaultRecipient given' });
+          continue;
+        }
+        const tokens = [...new Set([...(policy.tokens || []), ...(options.tokens || [])].map(token => token.toLowerCase()))];
+        reaped.push({ ...entry, ...(await reapExpiredWallet(wallet, networkName, recipient, tokens, dryRun)) });
+        continue;
+      }
+
+      if (policy.maxBalanceWei) {
+        const maxBalanceWei = BigInt(policy.maxBalanceWei);
+        const balance = await getWalletBalance(wallet.address, networkName);
+        if (balance.balanceWei <= maxBalanceWei) {
+          continue;
+        }
+        if (!recipient) {
+          reaped.push({ ...entry, reason: 'over-max-balance', skipped: 'No sweepRecipient in the policy and no defaultRecipient given' });
+          continue;
+        }
+        const sweep = await reapExcessBalance(wallet, networkName, recipient, maxBalanceWei, balance.balanceWei, dryRun);
+        reaped.push({ ...entry, reason: 'over-max-balance', sweeps: [sweep] });
+      }
+    } catch (error: any) {
+      reaped.push({ ...entry, skipped: error.message });
+    }
+  }
+
+  const report: ReapReport = {
+    id: crypto.randomUUID(),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    dryRun,
+    checked: wallets.length,
+    wallets: reaped
+  };
+
+  // Dry runs move no funds, so only real runs go into the audit log
+  if (!dryRun) {
+    await AtomicFileWriter.updateJSON(
+      getReaperAuditFile(),
+      (current: ReaperAuditFile) => ({
+        ...current,
+        reports: [...(current.reports || []), report],
+        updatedAt: report.finishedAt
+      }),
+      { mode: 0o600, retries: 0 }
+    );
+  }
+
+  return report;
+}
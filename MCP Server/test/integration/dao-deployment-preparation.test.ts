@@ -114,7 +114,7 @@ describe('DAO Deployment Transaction Preparation', () => {
       initialSupply: '1000000000000000000000000', // 1M tokens with 18 decimals
       governorSettings: {
         votingDelay: 1,
-        votingPeriod: 100,
+        votingPeriod: 604800,
         proposalThreshold: '1000000000000000000000', // 1K tokens with 18 decimals
         quorumPercentage: 10,
       },
@@ -165,7 +165,7 @@ describe('DAO Deployment Transaction Preparation', () => {
         ...validDAOConfig,
         governorSettings: {
           votingDelay: 0, // Invalid - should be at least 1
-          votingPeriod: 50, // Invalid - should be at least 100
+          votingPeriod: 50, // Invalid - should be at least 3600 seconds
           proposalThreshold: 'invalid',
           quorumPercentage: 150, // Invalid - should be <= 100
         },
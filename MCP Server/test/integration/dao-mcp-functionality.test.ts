@@ -142,7 +142,7 @@ describe('DAO MCP Server Functionality', () => {
       initialSupply: '1000000000000000000000000', // 1M tokens with 18 decimals
       governorSettings: {
         votingDelay: 1,
-        votingPeriod: 100,
+        votingPeriod: 604800,
         proposalThreshold: '1000000000000000000000', // 1K tokens
         quorumPercentage: 10,
       },
@@ -49,6 +49,7 @@ describe('File System Operations', () => {
         NODE_ENV: 'test',
         DISABLE_HARDWARE_WALLET: 'true',
         DAO_DEPLOYER_DATA_DIR: testDir,
+        DAO_DEPLOYER_KEYSTORE_PASSPHRASE: 'integration-test-passphrase',
       },
     });
 
@@ -233,7 +234,9 @@ describe('File System Operations', () => {
       
       const walletData = readJsonFile(walletFile);
       expect(walletData).toHaveProperty('address', walletAddress);
-      expect(walletData).toHaveProperty('privateKey');
+      expect(walletData).not.toHaveProperty('privateKey');
+      expect(walletData).toHaveProperty('keystore.version', 3);
+      expect(walletData).toHaveProperty('keystore.crypto.kdf', 'scrypt');
       expect(walletData).toHaveProperty('createdAt');
       expect(walletData).toHaveProperty('networkName', 'polygon');
     });
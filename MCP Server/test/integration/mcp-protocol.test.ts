@@ -292,13 +292,14 @@ describe('MCP Protocol Integration Tests', () => {
       const response = await client.callTool('prepare-dao-deployment', {
         networkName: 'sepolia',
         factoryAddress: '0x1234567890123456789012345678901234567890',
+        fromAddress: '0x1234567890123456789012345678901234567890',
         daoName: 'Test DAO',
         tokenName: 'Test Token',
         tokenSymbol: 'TEST',
         initialSupply: '1000000',
         governorSettings: {
           votingDelay: 1,
-          votingPeriod: 100,
+          votingPeriod: 604800,
           proposalThreshold: '1000',
           quorumPercentage: 10,
         },
@@ -317,6 +318,9 @@ describe('MCP Protocol Integration Tests', () => {
       if (content.includes('Failed to load contract ABI')) {
         // This is expected when contract artifacts are not available
         expect(content).toContain('ENOENT');
+      } else if (content.includes('HTTP request failed')) {
+        // The plan reads the deployer nonce from sepolia, which offline environments cannot reach
+        expect(content).toContain('eth_getTransactionCount');
       } else {
         // If contracts are available, check for expected content
         expect(content).toContain('DAO Deployment Plan');
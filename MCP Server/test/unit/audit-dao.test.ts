@@ -0,0 +1,126 @@
+/**
+ * Unit tests for audit-dao tool
+ * Tests pass/warn/fail evaluation of live DAO state against the factory wiring
+ */
+import { describe, it, expect } from 'vitest';
+import { evaluateDAOAudit, DAOOnChainState, AuditCheck } from '../../src/tools/audit-dao.js';
+
+const GOVERNOR = '0xB7A5bd0345EF1Cc5E66bf61BdeC17D2461fBd968';
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+const TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+function healthyState(): DAOOnChainState {
+  return {
+    inputType: 'governor',
+    governor: GOVERNOR,
+    token: TOKEN,
+    timelock: TIMELOCK,
+    governorToken: TOKEN,
+    governorTimelock: TIMELOCK,
+    governorUpgradeAuthority: TIMELOCK,
+    tokenOwner: TIMELOCK,
+    tokenUpgradeAuthority: TIMELOCK,
+    roleHolders: {
+      proposer: [GOVERNOR],
+      canceller: [GOVERNOR],
+      executor: [ZERO],
+      admin: [TIMELOCK]
+    },
+    governorClockMode: 'mode=timestamp',
+    tokenClockMode: 'mode=timestamp',
+    params: {
+      votingDelay: '86400',
+      votingPeriod: '604800',
+      proposalThreshold: '0',
+      quorumPercentage: '4',
+      timelockDelay: '86400'
+    }
+  };
+}
+
+function statusOf(checks: AuditCheck[], id: string) {
+  return checks.find(check => check.id === id)?.status;
+}
+
+describe('audit-dao', () => {
+  describe('evaluateDAOAudit', () => {
+    it('should pass a DAO wired like the factory', () => {
+      const checks = evaluateDAOAudit(healthyState());
+
+      expect(checks.every(check => check.status === 'pass')).toBe(true);
+    });
+
+    it('should fail when the deployer still holds timelock admin', () => {
+      const state = healthyState();
+      state.roleHolders!.admin.push(DEPLOYER);
+
+      const checks = evaluateDAOAudit(state);
+      const adminCheck = checks.find(check => check.id === 'timelock-admin');
+
+      expect(adminCheck?.status).toBe('fail');
+      expect(adminCheck?.remediation).toContain('renounceRole');
+    });
+
+    it('should fail when someone besides the governor can propose', () => {
+      const state = healthyState();
+      state.roleHolders!.proposer.push(DEPLOYER);
+
+      expect(statusOf(evaluateDAOAudit(state), 'timelock-proposers')).toBe('fail');
+    });
+
+    it('should warn when execution is restricted or the governor cannot cancel', () => {
+      const state = healthyState();
+      state.roleHolders!.executor = [DEPLOYER];
+      state.roleHolders!.canceller = [];
+
+      const checks = evaluateDAOAudit(state);
+
+      expect(statusOf(checks, 'timelock-executors')).toBe('warn');
+      expect(statusOf(checks, 'timelock-cancellers')).toBe('warn');
+    });
+
+    it('should warn when role holders cannot be enumerated', () => {
+      const state = healthyState();
+      state.roleHolders = undefined;
+
+      expect(statusOf(evaluateDAOAudit(state), 'timelock-roles')).toBe('warn');
+    });
+
+    it('should fail ownership and upgrade authority held outside the timelock', () => {
+      const state = healthyState();
+      state.tokenOwner = DEPLOYER;
+      state.governorUpgradeAuthority = DEPLOYER;
+
+      const checks = evaluateDAOAudit(state);
+
+      expect(statusOf(checks, 'token-owner')).toBe('fail');
+      expect(statusOf(checks, 'governor-upgrade-authority')).toBe('fail');
+      expect(statusOf(checks, 'token-upgrade-authority')).toBe('pass');
+    });
+
+    it('should fail when contracts cannot be located from the input address', () => {
+      const checks = evaluateDAOAudit({ inputType: 'token', token: TOKEN, params: {} });
+
+      expect(statusOf(checks, 'resolution')).toBe('fail');
+    });
+
+    it('should compare requested parameters with live values', () => {
+      const checks = evaluateDAOAudit(healthyState(), {
+        votingPeriod: '604800',
+        quorumPercentage: '10'
+      });
+
+      expect(statusOf(checks, 'param-votingPeriod')).toBe('pass');
+      expect(statusOf(checks, 'param-quorumPercentage')).toBe('fail');
+    });
+
+    it('should fail a zero quorum', () => {
+      const state = healthyState();
+      state.params.quorumPercentage = '0';
+
+      expect(statusOf(evaluateDAOAudit(state), 'quorum')).toBe('fail');
+    });
+  });
+});
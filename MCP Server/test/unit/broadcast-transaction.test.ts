@@ -8,6 +8,7 @@ import {
   waitForConfirmation, 
   checkTransactionStatus 
 } from '../../src/tools/broadcast-transaction.js';
+import { registerPreparedTransaction } from '../../src/utils/signed-transactions.js';
 import { TransactionError } from '../../src/types/index.js';
 import type { TransactionReceipt } from 'viem';
 
@@ -39,11 +40,45 @@ vi.mock('../../src/utils/transactions.js', () => ({
   waitForTransactionConfirmation: vi.fn()
 }));
 
+// Mock signed transaction parsing; the prepared transaction registry stays real
+vi.mock('../../src/utils/signed-transactions.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/signed-transactions.js')>()),
+  parseSignedTransaction: vi.fn()
+}));
+
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const RECIPIENT = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+
+function decodedTransaction(overrides: Record<string, any> = {}) {
+  return {
+    hash: '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060',
+    type: 'eip1559',
+    from: SIGNER,
+    chainId: 11155111,
+    nonce: 10,
+    to: RECIPIENT,
+    value: 0n,
+    data: '0x',
+    gas: 21000n,
+    maxFeePerGas: 100000000n,
+    maxPriorityFeePerGas: 1000000n,
+    ...overrides
+  };
+}
+
+// What the default decoded transaction was signed from
+const { metadata: preparedMetadata } = registerPreparedTransaction({
+  transactionType: 'contract_call',
+  unsignedTransaction: { to: RECIPIENT, value: '0', data: '0x', nonce: 10, chainId: 11155111 },
+  metadata: { networkName: 'sepolia', networkChainId: 11155111, description: 'Send to recipient', estimatedGasUsage: '21000', estimatedCostEth: '0.0001' }
+});
+
 describe('broadcast-signed-transaction', () => {
   let mockPublicClient: any;
   let mockHttp: any;
   let mockCreatePublicClient: any;
   let mockWaitForConfirmation: any;
+  let mockParseSignedTransaction: any;
 
   beforeEach(async () => {
     vi.clearAllMocks();
@@ -70,6 +105,10 @@ describe('broadcast-signed-transaction', () => {
     // Import and mock transaction utils
     const transactionUtils = await import('../../src/utils/transactions.js');
     mockWaitForConfirmation = transactionUtils.waitForTransactionConfirmation as any;
+    
+    const signedTransactions = await import('../../src/utils/signed-transactions.js');
+    mockParseSignedTransaction = signedTransactions.parseSignedTransaction as any;
+    mockParseSignedTransaction.mockResolvedValue(decodedTransaction());
   });
 
   afterEach(() => {
@@ -92,6 +131,8 @@ describe('broadcast-signed-transaction', () => {
       expect(result).toEqual({
         success: true,
         transactionHash: expectedHash,
+        from: SIGNER,
+        preparedTransactionId: preparedMetadata.preparedTransactionId,
         networkName: 'sepolia',
         explorerUrl: `https://sepolia.etherscan.io/tx/${expectedHash}`,
         confirmation: undefined,
@@ -155,6 +196,69 @@ describe('broadcast-signed-transaction', () => {
       })).rejects.toThrow(TransactionError);
     });
 
+    it('should refuse a transaction signed for another chain', async () => {
+      mockParseSignedTransaction.mockResolvedValue(decodedTransaction({ chainId: 1 }));
+      
+      await expect(broadcastSignedTransaction({
+        signedTransaction: '0x02f870',
+        networkName: 'sepolia',
+        waitForConfirmation: false
+      })).rejects.toThrow('signed for chain 1, but sepolia is chain 11155111');
+      expect(mockPublicClient.sendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a transaction that differs from the prepared one', async () => {
+      const { metadata } = registerPreparedTransaction({
+        transactionType: 'contract_call',
+        unsignedTransaction: { to: RECIPIENT, value: '0', data: '0x5c19a95c', nonce: 10, chainId: 11155111 },
+        metadata: { networkName: 'sepolia', networkChainId: 11155111, description: 'Delegate votes', estimatedGasUsage: '60000', estimatedCostEth: '0.0001' }
+      });
+      mockParseSignedTransaction.mockResolvedValue(decodedTransaction({ value: 10n ** 18n, data: '0x5c19a95c' }));
+      
+      await expect(broadcastSignedTransaction({
+        signedTransaction: '0x02f870',
+        networkName: 'sepolia',
+        preparedTransactionId: metadata.preparedTransactionId,
+        waitForConfirmation: false
+      })).rejects.toThrow('value: expected 0, signed 1000000000000000000');
+      expect(mockPublicClient.sendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a transaction that was never prepared', async () => {
+      mockParseSignedTransaction.mockResolvedValue(decodedTransaction({ nonce: 11 }));
+      
+      await expect(broadcastSignedTransaction({
+        signedTransaction: '0x02f870',
+        networkName: 'sepolia',
+        waitForConfirmation: false
+      })).rejects.toThrow('does not match any transaction prepared by this server');
+      expect(mockPublicClient.sendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should broadcast an unprepared transaction when explicitly allowed', async () => {
+      mockParseSignedTransaction.mockResolvedValue(decodedTransaction({ nonce: 11 }));
+      mockPublicClient.sendRawTransaction.mockResolvedValue('0xabc');
+      
+      const result = await broadcastSignedTransaction({
+        signedTransaction: '0x02f870',
+        networkName: 'sepolia',
+        allowUnprepared: true,
+        waitForConfirmation: false
+      });
+      
+      expect(result.transactionHash).toBe('0xabc');
+      expect(result.preparedTransactionId).toBeUndefined();
+    });
+
+    it('should refuse an unknown prepared transaction ID', async () => {
+      await expect(broadcastSignedTransaction({
+        signedTransaction: '0x02f870',
+        networkName: 'sepolia',
+        preparedTransactionId: '0xdeadbeef',
+        waitForConfirmation: false
+      })).rejects.toThrow('Prepared transaction not found');
+    });
+
     it('should handle RPC errors gracefully', async () => {
       const signedTx = '0x02f8720182020a8405f5e100850fbc1405008252089470997970c51812dc3a010c7d01b50e0d17dc79c88080c001a0c4d9e2f3b5a8d7c1f9e6b3a4d2c8f5e7a9b6d4c1f8e3a7b2d5c9f4e8a3b7d2c6a0b8e3f7a2d6c1f5e9b4a8d3c7f2e6b1a5d9c4f8e2a7b3d6c2f7e3a8b4d9c5f1';
       
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for get-dao-treasury tool
+ * Tests history reconstruction from transfer and CallExecuted logs, and CSV export
+ */
+import { describe, it, expect } from 'vitest';
+import { encodeFunctionData, erc20Abi } from 'viem';
+import {
+  buildTreasuryHistory,
+  treasuryHistoryToCsv,
+  TreasuryTransferLog,
+  TreasuryCallLog
+} from '../../src/tools/dao-treasury.js';
+
+const TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+const OTHER_TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const ALICE = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BOB = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+function transfer(overrides: Partial<TreasuryTransferLog>): TreasuryTransferLog {
+  return {
+    token: TOKEN,
+    symbol: 'DAO',
+    decimals: 18,
+    from: ALICE,
+    to: TIMELOCK,
+    value: 10n ** 18n,
+    blockNumber: 10n,
+    transactionHash: '0x01',
+    logIndex: 0,
+    ...overrides
+  };
+}
+
+function call(overrides: Partial<TreasuryCallLog>): TreasuryCallLog {
+  return {
+    target: BOB,
+    value: 0n,
+    data: '0x',
+    blockNumber: 20n,
+    transactionHash: '0x02',
+    logIndex: 1,
+    ...overrides
+  };
+}
+
+describe('dao treasury', () => {
+  describe('buildTreasuryHistory', () => {
+    it('should classify transfers by direction relative to the timelock', () => {
+      const history = buildTreasuryHistory(TIMELOCK, [
+        transfer({}),
+        transfer({ from: TIMELOCK, to: BOB, blockNumber: 11n, transactionHash: '0x03' })
+      ], []);
+
+      expect(history.map(movement => [movement.direction, movement.counterparty])).toEqual([
+        ['in', ALICE],
+        ['out', BOB]
+      ]);
+      expect(history[0].formattedAmount).toBe('1');
+    });
+
+    it('should record ETH sent by executed calls', () => {
+      const history = buildTreasuryHistory(TIMELOCK, [], [call({ value: 5n * 10n ** 17n })]);
+
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ direction: 'out', asset: 'ETH', formattedAmount: '0.5', counterparty: BOB, source: 'call-executed' });
+    });
+
+    it('should decode ERC20 transfers of untracked tokens but not double count tracked ones', () => {
+      const data = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [BOB, 42n] });
+      const history = buildTreasuryHistory(TIMELOCK, [transfer({})], [
+        call({ target: OTHER_TOKEN, data }),
+        call({ target: TOKEN, data, logIndex: 2 })
+      ]);
+
+      const fromCalls = history.filter(movement => movement.source === 'call-executed');
+      expect(fromCalls).toHaveLength(1);
+      expect(fromCalls[0]).toMatchObject({ asset: OTHER_TOKEN, amount: '42', counterparty: BOB });
+    });
+
+    it('should order movements chronologically', () => {
+      const history = buildTreasuryHistory(TIMELOCK, [
+        transfer({ blockNumber: 30n, transactionHash: '0x30' }),
+        transfer({ blockNumber: 5n, transactionHash: '0x05' })
+      ], [call({ value: 1n, blockNumber: 20n })]);
+
+      expect(history.map(movement => movement.blockNumber)).toEqual(['5', '20', '30']);
+    });
+  });
+
+  describe('treasuryHistoryToCsv', () => {
+    it('should emit a header and one row per movement', () => {
+      const csv = treasuryHistoryToCsv(buildTreasuryHistory(TIMELOCK, [transfer({ symbol: 'DAO, Inc' })], []));
+      const lines = csv.split('\n');
+
+      expect(lines[0]).toBe('block,timestamp,transaction,direction,asset,asset_address,amount,raw_amount,counterparty,source');
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toContain('"DAO, Inc"');
+    });
+  });
+});
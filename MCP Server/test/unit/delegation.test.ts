@@ -0,0 +1,71 @@
+/**
+ * Unit tests for delegation tools
+ * Tests EIP-712 delegation payloads and input validation
+ */
+import { describe, it, expect } from 'vitest';
+import { recoverTypedDataAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  buildDelegationTypedData,
+  PrepareDelegationInputSchema
+} from '../../src/tools/delegation.js';
+
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+// Anvil default account #0
+const holder = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+
+describe('delegation', () => {
+  describe('buildDelegationTypedData', () => {
+    it('should produce typed data a holder can sign and anyone can recover', async () => {
+      const typedData = buildDelegationTypedData({
+        name: 'My DAO Token',
+        version: '1',
+        chainId: 31337,
+        tokenAddress: TOKEN,
+        delegatee: holder.address,
+        nonce: 0n,
+        expiry: 1700003600n
+      });
+
+      expect(typedData.primaryType).toBe('Delegation');
+      expect(typedData.message).toEqual({ delegatee: holder.address, nonce: '0', expiry: '1700003600' });
+
+      const message = {
+        delegatee: holder.address,
+        nonce: BigInt(typedData.message.nonce),
+        expiry: BigInt(typedData.message.expiry)
+      };
+      const domain = { ...typedData.domain, verifyingContract: TOKEN as `0x${string}` };
+      const signature = await holder.signTypedData({ domain, types: typedData.types, primaryType: 'Delegation', message });
+      const recovered = await recoverTypedDataAddress({ domain, types: typedData.types, primaryType: 'Delegation', message, signature });
+
+      expect(recovered).toBe(holder.address);
+    });
+  });
+
+  describe('PrepareDelegationInputSchema', () => {
+    it('should require a delegatee or a holder to self-delegate', () => {
+      const result = PrepareDelegationInputSchema.safeParse({ networkName: 'local', tokenAddress: TOKEN });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should default to a direct delegation', () => {
+      const result = PrepareDelegationInputSchema.parse({ networkName: 'local', tokenAddress: TOKEN, fromAddress: holder.address });
+
+      expect(result.gasless).toBe(false);
+      expect(result.expirySeconds).toBe(3600);
+    });
+
+    it('should require the signed fields when relaying a signature', () => {
+      const result = PrepareDelegationInputSchema.safeParse({
+        networkName: 'local',
+        tokenAddress: TOKEN,
+        delegatee: holder.address,
+        signature: `0x${'11'.repeat(65)}`
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
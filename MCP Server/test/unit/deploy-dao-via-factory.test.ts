@@ -0,0 +1,139 @@
+/**
+ * Unit tests for prepare-factory-dao-deployment tool
+ * Tests DAOConfig validation against the factory's require checks and DAODeployed decoding
+ */
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, parseAbi, type Log } from 'viem';
+import {
+  validateFactoryDAOConfig,
+  toDAOConfigStruct,
+  decodeDAODeployedEvent
+} from '../../src/tools/deploy-dao-via-factory.js';
+
+const FACTORY_EVENT_ABI = parseAbi([
+  'event DAODeployed(address indexed deployer, address indexed token, address indexed governor, address timelock, string name)'
+]);
+
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+const GOVERNOR = '0xB7A5bd0345EF1Cc5E66bf61BdeC17D2461fBd968';
+const TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+
+const validConfig = {
+  tokenName: 'Test DAO',
+  tokenSymbol: 'TDAO',
+  initialSupply: '1000000000000000000000000',
+  votingDelay: '86400',
+  votingPeriod: '604800',
+  proposalThreshold: '1000000000000000000000',
+  quorumPercentage: '4',
+  timelockDelay: '86400'
+};
+
+function buildDAODeployedLog(address: string): Log {
+  const topics = encodeEventTopics({
+    abi: FACTORY_EVENT_ABI,
+    eventName: 'DAODeployed',
+    args: { deployer: DEPLOYER, token: TOKEN, governor: GOVERNOR }
+  });
+
+  return {
+    address,
+    topics,
+    data: encodeAbiParameters([{ type: 'address' }, { type: 'string' }], [TIMELOCK, 'Test DAO']),
+    blockHash: null,
+    blockNumber: null,
+    logIndex: null,
+    transactionHash: null,
+    transactionIndex: null,
+    removed: false
+  } as unknown as Log;
+}
+
+describe('prepare-factory-dao-deployment', () => {
+  describe('validateFactoryDAOConfig', () => {
+    it('should accept a config the factory would accept', () => {
+      expect(validateFactoryDAOConfig(validConfig, DEPLOYER)).toEqual([]);
+    });
+
+    it('should report the factory revert strings for each failing check', () => {
+      const issues = validateFactoryDAOConfig({
+        ...validConfig,
+        tokenName: '',
+        tokenSymbol: '',
+        initialSupply: '0',
+        votingDelay: '0',
+        votingPeriod: '0',
+        quorumPercentage: '0'
+      }, '0x0000000000000000000000000000000000000000');
+
+      expect(issues).toEqual([
+        'Token name cannot be empty',
+        'Token symbol cannot be empty',
+        'Initial supply must be greater than 0',
+        'Voting delay must be greater than 0',
+        'Voting period must be greater than 0',
+        'Invalid quorum percentage',
+        'Recipient cannot be zero address'
+      ]);
+    });
+
+    it('should reject quorum above 100%', () => {
+      expect(validateFactoryDAOConfig({ ...validConfig, quorumPercentage: '101' }, DEPLOYER))
+        .toEqual(['Invalid quorum percentage']);
+    });
+
+    it('should reject values the governor would truncate', () => {
+      const issues = validateFactoryDAOConfig({
+        ...validConfig,
+        votingDelay: (2n ** 48n).toString(),
+        votingPeriod: (2n ** 32n).toString()
+      }, DEPLOYER);
+
+      expect(issues).toEqual([
+        'Voting delay does not fit in uint48',
+        'Voting period does not fit in uint32'
+      ]);
+    });
+  });
+
+  describe('toDAOConfigStruct', () => {
+    it('should convert numeric fields to bigint', () => {
+      const struct = toDAOConfigStruct(validConfig);
+
+      expect(struct.tokenName).toBe('Test DAO');
+      expect(struct.initialSupply).toBe(1000000000000000000000000n);
+      expect(struct.quorumPercentage).toBe(4n);
+      expect(struct.timelockDelay).toBe(86400n);
+    });
+  });
+
+  describe('decodeDAODeployedEvent', () => {
+    it('should decode proxy addresses from the receipt logs', () => {
+      const result = decodeDAODeployedEvent([buildDAODeployedLog(FACTORY)], FACTORY_EVENT_ABI as any);
+
+      expect(result).toEqual({
+        deployer: DEPLOYER,
+        token: TOKEN,
+        governor: GOVERNOR,
+        timelock: TIMELOCK,
+        name: 'Test DAO'
+      });
+    });
+
+    it('should ignore events emitted by a different factory', () => {
+      const result = decodeDAODeployedEvent(
+        [buildDAODeployedLog(FACTORY)],
+        FACTORY_EVENT_ABI as any,
+        '0x0000000000000000000000000000000000000001'
+      );
+
+      expect(result).toBeUndefined();
+    });
+
+    it('should return undefined when no DAODeployed event is present', () => {
+      expect(decodeDAODeployedEvent([], FACTORY_EVENT_ABI as any)).toBeUndefined();
+    });
+  });
+});
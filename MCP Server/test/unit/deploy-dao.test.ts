@@ -0,0 +1,334 @@
+/**
+ * Unit tests for prepare-dao-deployment address prediction and role configuration
+ * Tests CREATE address derivation, proxy initialization data, timelock role calls and the resulting instructions
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { decodeDeployData, decodeFunctionData, getContractAddress, parseAbi, type Hex } from 'viem';
+
+const PROXY_BYTECODE = '0x6080604052';
+const IMPLEMENTATIONS = {
+  getTokenImplementation: '0x1000000000000000000000000000000000000001',
+  getTimelockImplementation: '0x1000000000000000000000000000000000000002',
+  getGovernorImplementation: '0x1000000000000000000000000000000000000003'
+} as Record<string, string>;
+
+vi.mock('../../src/networks/index.js', () => ({
+  getNetworkConfig: vi.fn(() => ({ name: 'Anvil Local Testnet', chainId: 31337, rpcUrl: 'http://127.0.0.1:8545', testnet: true })),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(async () => ({
+    readContract: async ({ functionName }: { functionName: string }) => IMPLEMENTATIONS[functionName]
+  }))
+}));
+
+vi.mock('../../src/utils/contracts.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/contracts.js')>(),
+  loadContractABI: vi.fn(async () => ({ abi: [], bytecode: PROXY_BYTECODE, deployedBytecode: '0x6080' }))
+}));
+
+vi.mock('../../src/utils/transactions.js', () => ({
+  getPendingNonce: vi.fn(async () => 5),
+  prepareContractDeployment: vi.fn(async (params: any) => ({
+    transactionType: 'contract_deployment',
+    unsignedTransaction: { to: null, value: '0', data: params.contractBytecode, nonce: params.nonce, chainId: 31337 },
+    metadata: {
+      networkName: 'Anvil Local Testnet',
+      networkChainId: 31337,
+      constructorArgs: params.constructorArgs,
+      description: '',
+      estimatedGasUsage: '500000',
+      estimatedCostEth: '0.0005',
+      expectedAddress: getContractAddress({ from: params.fromAddress, nonce: BigInt(params.nonce) })
+    }
+  })),
+  prepareContractCall: vi.fn(async (params: any) => ({
+    transactionType: 'contract_call',
+    unsignedTransaction: { to: params.contractAddress, value: '0', data: '0x', nonce: params.nonce, chainId: 31337 },
+    metadata: { networkName: 'Anvil Local Testnet', networkChainId: 31337, description: '', estimatedGasUsage: '60000', estimatedCostEth: '0.0001' }
+  }))
+}));
+
+import {
+  predictDAOAddresses,
+  buildTimelockRoleCalls,
+  getTimelockAdminWarnings,
+  generateDAODeploymentInstructions,
+  prepareDAODeploymentPlan,
+  applyDeploymentDependencies,
+  getRoleMemberSlot,
+  TIMELOCK_ROLES,
+  DAODeploymentPlan
+} from '../../src/tools/deploy-dao.js';
+import { prepareContractCall, prepareContractDeployment } from '../../src/utils/transactions.js';
+import type { PreparedTransaction } from '../../src/types/index.js';
+
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+function preparedDeployment(contractName: string, nonce?: number): PreparedTransaction {
+  return {
+    transactionType: 'contract_deployment',
+    unsignedTransaction: {
+      to: null,
+      value: '0',
+      data: '0x6080',
+      gas: '100000',
+      nonce,
+      chainId: 31337
+    },
+    metadata: {
+      networkName: 'Anvil Local Testnet',
+      networkChainId: 31337,
+      contractName,
+      description: `Deploy ${contractName} contract`,
+      estimatedGasUsage: '100000',
+      estimatedCostEth: '0.000100'
+    }
+  };
+}
+
+function buildPlan(startingNonce: number): DAODeploymentPlan {
+  return {
+    step1_token: preparedDeployment('SimpleDAOTokenUpgradeable', startingNonce),
+    step2_timelock: preparedDeployment('SimpleDAOTimelockUpgradeable', startingNonce + 1),
+    step3_governor: preparedDeployment('SimpleDAOGovernorUpgradeable', startingNonce + 2),
+    roleConfiguration: [],
+    metadata: {
+      daoName: 'Test DAO',
+      networkName: 'local',
+      factoryAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      totalEstimatedCost: '0.000300',
+      deploymentOrder: ['Token Contract', 'Timelock Contract', 'Governor Contract'],
+      fromAddress: DEPLOYER,
+      startingNonce,
+      predictedAddresses: predictDAOAddresses(DEPLOYER, startingNonce),
+      implementations: {
+        token: IMPLEMENTATIONS.getTokenImplementation,
+        timelock: IMPLEMENTATIONS.getTimelockImplementation,
+        governor: IMPLEMENTATIONS.getGovernorImplementation
+      },
+      adminWarnings: []
+    }
+  };
+}
+
+const PROXY_CONSTRUCTOR_ABI = parseAbi(['constructor(address implementation, bytes data)']);
+
+const INITIALIZE_ABI = parseAbi([
+  'function initialize(string name, string symbol, uint256 initialSupply, address recipient, address owner, address upgradeAuthority)',
+  'function initialize(uint256 minDelay, address[] proposers, address[] executors, address admin)',
+  'function initialize(string name, address token, address timelock, uint256 votingDelay, uint256 votingPeriod, uint256 proposalThreshold, uint256 quorumPercentage, address upgradeAuthority)'
+]);
+
+// Split proxy creation code back into the implementation and the decoded initializer arguments
+function decodeProxyDeployment(transaction: PreparedTransaction) {
+  const { args } = decodeDeployData({
+    abi: PROXY_CONSTRUCTOR_ABI,
+    bytecode: PROXY_BYTECODE,
+    data: transaction.unsignedTransaction.data as Hex
+  });
+  const [implementation, initData] = args;
+  return { implementation, initArgs: decodeFunctionData({ abi: INITIALIZE_ABI, data: initData }).args as readonly unknown[] };
+}
+
+const config = {
+  networkName: 'local',
+  factoryAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  daoName: 'Test DAO',
+  tokenName: 'Test DAO',
+  tokenSymbol: 'TDAO',
+  initialSupply: '1000',
+  governorSettings: { votingDelay: 1, votingPeriod: 604800, proposalThreshold: '0', quorumPercentage: 4 },
+  timelockSettings: { minDelay: 0, proposers: [], executors: [], retainAdmin: false },
+  verifyContracts: false,
+  fromAddress: DEPLOYER
+};
+
+describe('prepare-dao-deployment', () => {
+  describe('predictDAOAddresses', () => {
+    it('should derive consecutive CREATE addresses from the starting nonce', () => {
+      expect(predictDAOAddresses(DEPLOYER, 0)).toEqual({
+        token: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        timelock: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+        governor: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0'
+      });
+    });
+
+    it('should shift every address when the nonce moves', () => {
+      const atZero = predictDAOAddresses(DEPLOYER, 0);
+      const atOne = predictDAOAddresses(DEPLOYER, 1);
+
+      expect(atOne.token).toBe(atZero.timelock);
+      expect(atOne.timelock).toBe(atZero.governor);
+    });
+  });
+
+  describe('buildTimelockRoleCalls', () => {
+    const GOVERNOR = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+    const PROPOSER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+    it('should mirror the factory role configuration', () => {
+      const calls = buildTimelockRoleCalls({
+        governor: GOVERNOR,
+        deployer: DEPLOYER,
+        proposers: [],
+        executors: [],
+        retainAdmin: false
+      });
+
+      expect(calls.map(call => `${call.functionName}:${call.role}:${call.account}`)).toEqual([
+        `grantRole:PROPOSER_ROLE:${GOVERNOR}`,
+        `grantRole:CANCELLER_ROLE:${GOVERNOR}`,
+        'grantRole:EXECUTOR_ROLE:0x0000000000000000000000000000000000000000',
+        `renounceRole:DEFAULT_ADMIN_ROLE:${DEPLOYER}`
+      ]);
+    });
+
+    it('should revoke initial proposers and keep explicit executors', () => {
+      const calls = buildTimelockRoleCalls({
+        governor: GOVERNOR,
+        deployer: DEPLOYER,
+        proposers: [PROPOSER],
+        executors: [PROPOSER],
+        retainAdmin: false
+      });
+
+      expect(calls.map(call => call.key)).toEqual([
+        'grant-proposer',
+        'grant-canceller',
+        `revoke-proposer-${PROPOSER.toLowerCase()}`,
+        `revoke-canceller-${PROPOSER.toLowerCase()}`,
+        'renounce-admin'
+      ]);
+    });
+
+    it('should skip renouncing admin when the deployer retains it', () => {
+      const calls = buildTimelockRoleCalls({
+        governor: GOVERNOR,
+        deployer: DEPLOYER,
+        proposers: [],
+        executors: [],
+        retainAdmin: true
+      });
+
+      expect(calls.some(call => call.functionName === 'renounceRole')).toBe(false);
+    });
+  });
+
+  describe('getTimelockAdminWarnings', () => {
+    it('should not warn when the deployer renounces admin', () => {
+      expect(getTimelockAdminWarnings(config)).toEqual([]);
+    });
+
+    it('should flag a deployer that keeps timelock admin', () => {
+      const warnings = getTimelockAdminWarnings({
+        ...config,
+        timelockSettings: { ...config.timelockSettings, retainAdmin: true }
+      });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('keeps DEFAULT_ADMIN_ROLE');
+    });
+  });
+
+  describe('generateDAODeploymentInstructions', () => {
+    it('should list predicted addresses and pinned nonces when the deployer is known', () => {
+      const instructions = generateDAODeploymentInstructions(buildPlan(5));
+
+      expect(instructions).toContain('Predicted Contract Addresses');
+      expect(instructions).toContain('(nonce 7)');
+      expect(instructions).not.toContain('Replace: 0x0000000000000000000000000000000000000001');
+    });
+
+    it('should point at the pinned addresses instead of asking to save them', () => {
+      const plan = buildPlan(5);
+      const instructions = generateDAODeploymentInstructions(plan);
+
+      expect(instructions).not.toContain('SAVE THE');
+      expect(instructions).not.toContain('[Address from Step');
+      expect(instructions).toContain(`Check the timelock deployed to \`${plan.metadata.predictedAddresses.timelock}\``);
+    });
+
+    it('should list the implementations behind each proxy', () => {
+      const instructions = generateDAODeploymentInstructions(buildPlan(5));
+
+      expect(instructions).toContain(`Governor implementation: \`${IMPLEMENTATIONS.getGovernorImplementation}\``);
+    });
+  });
+
+  describe('prepareDAODeploymentPlan', () => {
+    it('should initialize each proxy with the predicted addresses', async () => {
+      const plan = await prepareDAODeploymentPlan(config);
+      const predicted = predictDAOAddresses(DEPLOYER, 5);
+
+      const token = decodeProxyDeployment(plan.step1_token);
+      expect(token.implementation).toBe(IMPLEMENTATIONS.getTokenImplementation);
+      expect(token.initArgs).toEqual(['Test DAO', 'TDAO', 1000n, DEPLOYER, predicted.timelock, predicted.timelock]);
+
+      const timelock = decodeProxyDeployment(plan.step2_timelock);
+      expect(timelock.implementation).toBe(IMPLEMENTATIONS.getTimelockImplementation);
+      expect(timelock.initArgs).toEqual([0n, [], [], DEPLOYER]);
+
+      const governor = decodeProxyDeployment(plan.step3_governor);
+      expect(governor.implementation).toBe(IMPLEMENTATIONS.getGovernorImplementation);
+      expect(governor.initArgs.slice(1, 3)).toEqual([predicted.token, predicted.timelock]);
+      expect(governor.initArgs[7]).toBe(predicted.timelock);
+    });
+
+    it('should estimate the governor against the predicted token proxy', async () => {
+      vi.mocked(prepareContractDeployment).mockClear();
+      await prepareDAODeploymentPlan(config);
+
+      const governorCall = vi.mocked(prepareContractDeployment).mock.calls[2][0];
+      expect(governorCall.nonce).toBe(7);
+      expect(governorCall.stateOverride?.[0].address).toBe(predictDAOAddresses(DEPLOYER, 5).token);
+    });
+
+    it('should estimate role calls against the initialized timelock', async () => {
+      vi.mocked(prepareContractCall).mockClear();
+      await prepareDAODeploymentPlan(config);
+
+      const calls = vi.mocked(prepareContractCall).mock.calls.map(([params]) => params);
+      expect(calls.map(params => params.functionName)).toEqual(['grantRole', 'grantRole', 'grantRole', 'renounceRole']);
+      calls.forEach(params => {
+        const [override] = params.stateOverride!;
+        expect(override.address).toBe(predictDAOAddresses(DEPLOYER, 5).timelock);
+        expect(override.stateDiff?.map(entry => entry.slot)).toContain(getRoleMemberSlot(TIMELOCK_ROLES.DEFAULT_ADMIN_ROLE, DEPLOYER));
+      });
+    });
+
+    it('should require the deployer address', async () => {
+      await expect(prepareDAODeploymentPlan({ ...config, fromAddress: undefined })).rejects.toThrow('fromAddress is required');
+    });
+  });
+
+  describe('applyDeploymentDependencies', () => {
+    const DEPLOYED_TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+    const DEPLOYED_TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+
+    it('should keep the governor transaction when the receipts match the prediction', async () => {
+      const plan = await prepareDAODeploymentPlan(config);
+      const { token, timelock } = plan.metadata.predictedAddresses;
+
+      expect(applyDeploymentDependencies('governor', plan.step3_governor, { token, timelock })).toBe(plan.step3_governor);
+    });
+
+    it('should re-encode the governor initializer with the deployed addresses', async () => {
+      const plan = await prepareDAODeploymentPlan(config);
+
+      const patched = applyDeploymentDependencies('governor', plan.step3_governor, { token: DEPLOYED_TOKEN, timelock: DEPLOYED_TIMELOCK });
+      const governor = decodeProxyDeployment(patched);
+
+      expect(governor.implementation).toBe(IMPLEMENTATIONS.getGovernorImplementation);
+      expect(governor.initArgs).toEqual(['Test DAO Governor', DEPLOYED_TOKEN, DEPLOYED_TIMELOCK, 1n, 604800n, 0n, 4n, DEPLOYED_TIMELOCK]);
+      expect(patched.metadata.preparedTransactionId).toBeDefined();
+    });
+
+    it('should leave other steps alone', async () => {
+      const plan = await prepareDAODeploymentPlan(config);
+
+      expect(applyDeploymentDependencies('token', plan.step1_token, { token: DEPLOYED_TOKEN, timelock: DEPLOYED_TIMELOCK })).toBe(plan.step1_token);
+    });
+  });
+});
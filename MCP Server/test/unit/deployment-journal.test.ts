@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the deployment journal
+ * Tests plan persistence, step transitions and address bookkeeping on disk
+ */
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { PreparedTransaction } from '../../src/types/index.js';
+
+const journalDir = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('../../src/utils/config.js', () => ({
+  getConfigDir: () => journalDir.path
+}));
+
+journalDir.path = mkdtempSync(join(tmpdir(), 'dao-deployer-journal-'));
+
+import {
+  createJournalPlan,
+  getJournalPlan,
+  listJournalPlans,
+  getCurrentStep,
+  recordStepBroadcast,
+  recordStepReceipt,
+  getJournalFile
+} from '../../src/utils/deployment-journal.js';
+
+function preparedDeployment(contractName: string): PreparedTransaction {
+  return {
+    transactionType: 'contract_deployment',
+    unsignedTransaction: {
+      to: null,
+      value: '0',
+      data: '0x6080',
+      gas: '100000',
+      chainId: 31337
+    },
+    metadata: {
+      networkName: 'Anvil Local Testnet',
+      networkChainId: 31337,
+      contractName,
+      description: `Deploy ${contractName} contract`,
+      estimatedGasUsage: '100000',
+      estimatedCostEth: '0.000100'
+    }
+  };
+}
+
+async function createTestPlan() {
+  return createJournalPlan({
+    daoName: 'Journal DAO',
+    networkName: 'local',
+    factoryAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    steps: [
+      { key: 'token', label: 'Token Contract', preparedTransaction: preparedDeployment('SimpleDAOTokenUpgradeable') },
+      { key: 'timelock', label: 'Timelock Contract', preparedTransaction: preparedDeployment('SimpleDAOTimelockUpgradeable') }
+    ]
+  });
+}
+
+describe('deployment journal', () => {
+  afterAll(() => {
+    rmSync(journalDir.path, { recursive: true, force: true });
+  });
+
+  it('should persist a new plan with prepared steps', async () => {
+    const plan = await createTestPlan();
+
+    const stored = await getJournalPlan(plan.id);
+    expect(stored?.daoName).toBe('Journal DAO');
+    expect(stored?.status).toBe('in_progress');
+    expect(stored?.steps.map(s => s.status)).toEqual(['prepared', 'prepared']);
+    expect(statSync(getJournalFile()).mode & 0o777).toBe(0o600);
+  });
+
+  it('should move through broadcast and confirmation and record the deployed address', async () => {
+    const plan = await createTestPlan();
+    const tokenAddress = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+
+    const broadcast = await recordStepBroadcast(plan.id, 0, '0xabc');
+    expect(broadcast.steps[0].status).toBe('broadcast');
+    expect(broadcast.steps[0].transactionHash).toBe('0xabc');
+
+    const confirmed = await recordStepReceipt(plan.id, 0, {
+      status: 'success',
+      blockNumber: '12',
+      contractAddress: tokenAddress
+    });
+
+    expect(confirmed.steps[0].status).toBe('confirmed');
+    expect(confirmed.contracts).toEqual({ token: tokenAddress });
+    expect(getCurrentStep(confirmed)?.key).toBe('timelock');
+    expect(confirmed.status).toBe('in_progress');
+  });
+
+  it('should mark the plan completed once every step is confirmed', async () => {
+    const plan = await createTestPlan();
+
+    await recordStepReceipt(plan.id, 0, { status: 'success', contractAddress: '0x0000000000000000000000000000000000000001' });
+    const done = await recordStepReceipt(plan.id, 1, { status: 'success', contractAddress: '0x0000000000000000000000000000000000000002' });
+
+    expect(done.status).toBe('completed');
+    expect(getCurrentStep(done)).toBeUndefined();
+  });
+
+  it('should mark the plan failed when a step reverts', async () => {
+    const plan = await createTestPlan();
+
+    const failed = await recordStepReceipt(plan.id, 0, { status: 'failed' });
+
+    expect(failed.status).toBe('failed');
+    expect(getCurrentStep(failed)?.status).toBe('failed');
+  });
+
+  it('should reject updates to unknown plans', async () => {
+    await expect(recordStepBroadcast('missing-plan', 0, '0xabc')).rejects.toThrow('Deployment plan not found');
+  });
+
+  it('should list plans newest first', async () => {
+    const plans = await listJournalPlans();
+
+    expect(plans.length).toBeGreaterThanOrEqual(4);
+    for (let i = 1; i < plans.length; i++) {
+      expect(plans[i - 1].createdAt >= plans[i].createdAt).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for signing with ephemeral wallets
+ * Tests confirmation tokens, the mainnet allowlist, wallet expiry and plan execution with signing and broadcast mocked
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/networks/index.js', () => ({
+  BUILT_IN_MAINNET_CHAIN_IDS: new Set([1, 8453]),
+  getNetworkConfig: vi.fn((networkName: string) => ({
+    base: { name: 'Base', chainId: 8453, rpcUrl: 'http://127.0.0.1:8545', testnet: false },
+    // Custom networks that claim to be testnets
+    'fake-base': { name: 'Fake Base', chainId: 8453, rpcUrl: 'http://127.0.0.1:8545', testnet: true },
+    devnet: { name: 'Devnet', chainId: 1337, rpcUrl: 'http://127.0.0.1:8545', testnet: true }
+  } as Record<string, any>)[networkName] ?? { name: 'Sepolia', chainId: 11155111, rpcUrl: 'http://127.0.0.1:8545', testnet: true }),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/custom-networks.js', () => ({
+  isCustomNetwork: vi.fn((networkName: string) => networkName === 'fake-base' || networkName === 'devnet')
+}));
+
+vi.mock('../../src/utils/config.js', () => ({
+  getConfigFile: () => '/tmp/config.json',
+  getEphemeralSigningMainnets: vi.fn(async () => [])
+}));
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(async () => ({
+    estimateGas: async () => 50000n,
+    getGasPrice: async () => 1000000000n
+  }))
+}));
+
+vi.mock('../../src/utils/transactions.js', () => ({
+  getPendingNonce: vi.fn(async () => 7)
+}));
+
+vi.mock('../../src/utils/deployment-journal.js', () => ({
+  getJournalPlan: vi.fn()
+}));
+
+vi.mock('../../src/utils/ephemeral-wallet.js', () => ({
+  KEYSTORE_PASSPHRASE_ENV: 'DAO_DEPLOYER_KEYSTORE_PASSPHRASE',
+  hasKeystorePassphrase: vi.fn(() => true),
+  listEphemeralWallets: vi.fn(async () => [
+    { address: '0x1111111111111111111111111111111111111111', networkName: 'sepolia', createdAt: new Date(), keyFile: '', encrypted: true },
+    { address: '0x1111111111111111111111111111111111111111', networkName: 'base', createdAt: new Date(), keyFile: '', encrypted: true }
+  ]),
+  getWalletBalance: vi.fn(async () => ({ balance: '1', balanceWei: 10n ** 18n, hasBalance: true })),
+  signWithEphemeralWallet: vi.fn(async () => '0x02f8signed')
+}));
+
+vi.mock('../../src/tools/broadcast-transaction.js', () => ({
+  broadcastSignedTransaction: vi.fn()
+}));
+
+vi.mock('../../src/tools/deployment-journal.js', () => ({
+  advanceDAODeployment: vi.fn()
+}));
+
+import { signAndBroadcastWithEphemeralWallet, formatEphemeralSigningResult } from '../../src/tools/ephemeral-signing.js';
+import { getEphemeralSigningMainnets } from '../../src/utils/config.js';
+import { getJournalPlan } from '../../src/utils/deployment-journal.js';
+import { listEphemeralWallets, signWithEphemeralWallet } from '../../src/utils/ephemeral-wallet.js';
+import { broadcastSignedTransaction } from '../../src/tools/broadcast-transaction.js';
+import { advanceDAODeployment } from '../../src/tools/deployment-journal.js';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+function preparedTransaction(overrides: Record<string, any> = {}) {
+  return {
+    transactionType: 'contract_call' as const,
+    unsignedTransaction: {
+      to: '0x2222222222222222222222222222222222222222',
+      value: '0',
+      data: '0x5c19a95c',
+      gas: '60000',
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '1000000000',
+      chainId: 11155111,
+      ...overrides
+    },
+    metadata: { networkName: 'sepolia', networkChainId: 11155111, description: 'Delegate votes', estimatedGasUsage: '60000', estimatedCostEth: '0.0001' }
+  };
+}
+
+function planStep(index: number, label: string, status: string) {
+  return { index, key: label.toLowerCase(), label, status, preparedTransaction: preparedTransaction({ nonce: index }) };
+}
+
+describe('signAndBroadcastWithEphemeralWallet', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(broadcastSignedTransaction).mockResolvedValue({
+      success: true,
+      transactionHash: '0xabc',
+      message: 'Transaction broadcast and confirmed successfully',
+      confirmation: { status: 'success', blockNumber: '100' }
+    } as any);
+  });
+
+  it('should preview without signing and sign once the token is returned', async () => {
+    const input = { walletAddress: WALLET, networkName: 'sepolia', preparedTransaction: preparedTransaction() } as any;
+
+    const preview = await signAndBroadcastWithEphemeralWallet(input);
+
+    expect(preview.status).toBe('confirmation_required');
+    expect(preview.preview).toEqual([expect.objectContaining({ label: 'Delegate votes', gas: '60000', maxCostEth: '0.00012' })]);
+    expect(preview.confirmationToken).toMatch(/^[0-9a-f]{32}$/);
+    expect(signWithEphemeralWallet).not.toHaveBeenCalled();
+
+    const result = await signAndBroadcastWithEphemeralWallet({ ...input, confirmationToken: preview.confirmationToken });
+
+    expect(result.status).toBe('completed');
+    expect(result.transactions).toEqual([expect.objectContaining({ transactionHash: '0xabc', status: 'success' })]);
+    expect(signWithEphemeralWallet).toHaveBeenCalledWith(WALLET, 'sepolia', expect.objectContaining({
+      type: 'eip1559', chainId: 11155111, nonce: 7, gas: 60000n, maxFeePerGas: 2000000000n
+    }));
+    expect(broadcastSignedTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      signedTransaction: '0x02f8signed',
+      preparedTransactionId: expect.stringMatching(/^0x[0-9a-f]{64}$/),
+      waitForConfirmation: true
+    }));
+    expect(formatEphemeralSigningResult(result)).toContain('0xabc');
+  });
+
+  it('should not accept a token twice or for a different transaction', async () => {
+    const input = { walletAddress: WALLET, networkName: 'sepolia', preparedTransaction: preparedTransaction() } as any;
+    const { confirmationToken } = await signAndBroadcastWithEphemeralWallet(input);
+
+    await expect(signAndBroadcastWithEphemeralWallet({ ...input, preparedTransaction: preparedTransaction({ value: '1000' }), confirmationToken }))
+      .rejects.toThrow('issued for a different wallet, network or transaction');
+    await expect(signAndBroadcastWithEphemeralWallet({ ...input, confirmationToken }))
+      .rejects.toThrow('unknown or expired');
+    expect(signWithEphemeralWallet).not.toHaveBeenCalled();
+  });
+
+  it('should refuse mainnets that are not allowlisted', async () => {
+    const input = { walletAddress: WALLET, networkName: 'base', preparedTransaction: preparedTransaction({ chainId: 8453 }) } as any;
+
+    await expect(signAndBroadcastWithEphemeralWallet(input)).rejects.toThrow('Base is a mainnet');
+
+    vi.mocked(getEphemeralSigningMainnets).mockResolvedValueOnce(['base']);
+    expect((await signAndBroadcastWithEphemeralWallet(input)).status).toBe('confirmation_required');
+  });
+
+  it('should judge testnets by chain ID and treat custom networks as mainnets', async () => {
+    const fakeBase = { walletAddress: WALLET, networkName: 'fake-base', preparedTransaction: preparedTransaction({ chainId: 8453 }) } as any;
+    await expect(signAndBroadcastWithEphemeralWallet(fakeBase)).rejects.toThrow('runs on chain 8453, a mainnet');
+
+    const devnet = { walletAddress: WALLET, networkName: 'devnet', preparedTransaction: preparedTransaction({ chainId: 1337 }) } as any;
+    await expect(signAndBroadcastWithEphemeralWallet(devnet)).rejects.toThrow('Devnet is a custom network, which is treated as a mainnet');
+
+    vi.mocked(getEphemeralSigningMainnets).mockResolvedValueOnce(['devnet']);
+    await expect(signAndBroadcastWithEphemeralWallet(devnet)).rejects.toThrow('No ephemeral wallet found');
+  });
+
+  it('should refuse wallets past their policy expiry', async () => {
+    vi.mocked(listEphemeralWallets).mockResolvedValueOnce([
+      { address: WALLET, networkName: 'sepolia', createdAt: new Date(), keyFile: '', encrypted: true, policy: { expiresAt: '2020-01-01T00:00:00.000Z' } }
+    ]);
+    const input = { walletAddress: WALLET, networkName: 'sepolia', preparedTransaction: preparedTransaction() } as any;
+
+    await expect(signAndBroadcastWithEphemeralWallet(input)).rejects.toThrow('expired at 2020-01-01T00:00:00.000Z');
+    expect(signWithEphemeralWallet).not.toHaveBeenCalled();
+  });
+
+  it('should refuse transactions prepared for another sender', async () => {
+    const tx = preparedTransaction();
+    const input = {
+      walletAddress: WALLET,
+      networkName: 'sepolia',
+      preparedTransaction: { ...tx, metadata: { ...tx.metadata, fromAddress: '0x3333333333333333333333333333333333333333' } }
+    } as any;
+
+    await expect(signAndBroadcastWithEphemeralWallet(input)).rejects.toThrow('was prepared for 0x3333333333333333333333333333333333333333');
+  });
+
+  it('should sign every remaining plan step through the journal', async () => {
+    const steps = [planStep(0, 'Token', 'prepared'), planStep(1, 'Timelock', 'prepared')];
+    vi.mocked(getJournalPlan).mockResolvedValue({ id: 'plan-1', networkName: 'sepolia', status: 'in_progress', steps } as any);
+    vi.mocked(broadcastSignedTransaction)
+      .mockResolvedValueOnce({ transactionHash: '0x01' } as any)
+      .mockResolvedValueOnce({ transactionHash: '0x02' } as any);
+    const confirmed = (index: number) => ({ ...steps[index], status: 'confirmed', receipt: { status: 'success', blockNumber: String(10 + index) } });
+    vi.mocked(advanceDAODeployment)
+      .mockResolvedValueOnce({ plan: { status: 'in_progress', steps }, nextStep: steps[0], message: '' } as any)
+      .mockResolvedValueOnce({ plan: { status: 'in_progress', steps: [confirmed(0), steps[1]] }, nextStep: steps[1], message: '' } as any)
+      .mockResolvedValueOnce({ plan: { status: 'completed', steps: [confirmed(0), confirmed(1)] }, message: 'Deployment complete' } as any);
+
+    const input = { walletAddress: WALLET, networkName: 'sepolia', planId: 'plan-1' } as any;
+    const preview = await signAndBroadcastWithEphemeralWallet(input);
+    expect(preview.preview.map(item => item.label)).toEqual(['Step 1: Token', 'Step 2: Timelock']);
+
+    const result = await signAndBroadcastWithEphemeralWallet({ ...input, confirmationToken: preview.confirmationToken });
+
+    expect(result.status).toBe('completed');
+    expect(result.transactions.map(tx => [tx.transactionHash, tx.status])).toEqual([['0x01', 'success'], ['0x02', 'success']]);
+    expect(advanceDAODeployment).toHaveBeenNthCalledWith(2, expect.objectContaining({ planId: 'plan-1', transactionHash: '0x01' }));
+    expect(signWithEphemeralWallet).toHaveBeenLastCalledWith(WALLET, 'sepolia', expect.objectContaining({ nonce: 1 }));
+  });
+
+  it('should not accept a plan token once the plan steps change', async () => {
+    const steps = [planStep(0, 'Token', 'prepared'), planStep(1, 'Timelock', 'prepared')];
+    vi.mocked(getJournalPlan).mockResolvedValue({ id: 'plan-1', networkName: 'sepolia', status: 'in_progress', steps } as any);
+    const input = { walletAddress: WALLET, networkName: 'sepolia', planId: 'plan-1' } as any;
+    const { confirmationToken } = await signAndBroadcastWithEphemeralWallet(input);
+
+    const changed = [steps[0], { ...steps[1], preparedTransaction: preparedTransaction({ nonce: 1, to: '0x3333333333333333333333333333333333333333' }) }];
+    vi.mocked(getJournalPlan).mockResolvedValue({ id: 'plan-1', networkName: 'sepolia', status: 'in_progress', steps: changed } as any);
+
+    await expect(signAndBroadcastWithEphemeralWallet({ ...input, confirmationToken }))
+      .rejects.toThrow('issued for a different wallet, network or transaction');
+    expect(advanceDAODeployment).not.toHaveBeenCalled();
+  });
+});
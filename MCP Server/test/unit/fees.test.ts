@@ -0,0 +1,139 @@
+/**
+ * Unit tests for EIP-1559 fee modelling
+ * Tests fee strategies, network caps and caps below the base fee, legacy fallback and cost ranges
+ */
+import { describe, it, expect } from 'vitest';
+import { parseGwei } from 'viem';
+import {
+  computeEIP1559Fees,
+  estimateCostRange,
+  getFeeQuote,
+  sumCostRanges,
+  formatCostRange
+} from '../../src/utils/fees.js';
+import { NetworkConfig } from '../../src/types/index.js';
+
+const NETWORK: NetworkConfig = {
+  chainId: 1,
+  name: 'Test',
+  rpcUrl: 'http://localhost:8545',
+  gasMultiplier: 1.2,
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  testnet: true
+};
+
+function mockClient(overrides: Record<string, any> = {}) {
+  return {
+    getBlock: async () => ({ baseFeePerGas: parseGwei('10') }),
+    getGasPrice: async () => parseGwei('12'),
+    estimateFeesPerGas: async () => ({ maxFeePerGas: parseGwei('21'), maxPriorityFeePerGas: parseGwei('1') }),
+    getFeeHistory: async () => ({
+      baseFeePerGas: [parseGwei('10'), parseGwei('11'), parseGwei('12')],
+      reward: [
+        [parseGwei('1'), parseGwei('2'), parseGwei('5')],
+        [parseGwei('1'), parseGwei('3'), parseGwei('6')]
+      ]
+    }),
+    ...overrides
+  };
+}
+
+describe('fees', () => {
+  describe('computeEIP1559Fees', () => {
+    it('should add base fee headroom by strategy', () => {
+      const slow = computeEIP1559Fees({ strategy: 'slow', nextBaseFee: parseGwei('10'), priorityFee: parseGwei('1') });
+      const fast = computeEIP1559Fees({ strategy: 'fast', nextBaseFee: parseGwei('10'), priorityFee: parseGwei('1') });
+
+      expect(slow.maxFeePerGas).toBe(parseGwei('13.5'));
+      expect(fast.maxFeePerGas).toBe(parseGwei('31'));
+      expect(slow.capped).toBe(false);
+    });
+
+    it('should honour the network fee caps', () => {
+      const quote = computeEIP1559Fees({
+        strategy: 'fast',
+        nextBaseFee: parseGwei('80'),
+        priorityFee: parseGwei('50'),
+        networkConfig: { maxFeePerGas: parseGwei('100').toString(), maxPriorityFeePerGas: parseGwei('30').toString() }
+      });
+
+      expect(quote.maxPriorityFeePerGas).toBe(parseGwei('30'));
+      expect(quote.maxFeePerGas).toBe(parseGwei('100'));
+      expect(quote.capped).toBe(true);
+    });
+
+    it('should never let the tip exceed the fee cap', () => {
+      const quote = computeEIP1559Fees({
+        strategy: 'standard',
+        nextBaseFee: parseGwei('1'),
+        priorityFee: parseGwei('40'),
+        networkConfig: { maxFeePerGas: parseGwei('20').toString() }
+      });
+
+      expect(quote.maxPriorityFeePerGas).toBe(parseGwei('20'));
+    });
+
+    it('should refuse a fee cap below the base fee', () => {
+      expect(() => computeEIP1559Fees({
+        strategy: 'standard',
+        nextBaseFee: parseGwei('120'),
+        priorityFee: parseGwei('2'),
+        networkConfig: { maxFeePerGas: parseGwei('100').toString() }
+      })).toThrow('cap of 100 gwei is below the current base fee of 120 gwei');
+    });
+  });
+
+  describe('getFeeQuote', () => {
+    it('should use the fee history percentile for the strategy', async () => {
+      const standard = await getFeeQuote(mockClient(), NETWORK, 'standard');
+      const fast = await getFeeQuote(mockClient(), NETWORK, 'fast');
+
+      expect(standard.type).toBe('eip1559');
+      if (standard.type !== 'eip1559' || fast.type !== 'eip1559') return;
+      expect(standard.baseFeePerGas).toBe(parseGwei('12'));
+      expect(standard.maxPriorityFeePerGas).toBe(parseGwei('3'));
+      expect(fast.maxPriorityFeePerGas).toBe(parseGwei('6'));
+    });
+
+    it('should fall back to estimateFeesPerGas without fee history', async () => {
+      const quote = await getFeeQuote(mockClient({
+        getFeeHistory: async () => { throw new Error('method not found'); }
+      }), NETWORK, 'standard');
+
+      expect(quote.type === 'eip1559' && quote.maxPriorityFeePerGas).toBe(parseGwei('1'));
+    });
+
+    it('should refuse to quote when the network cap is below the next base fee', async () => {
+      await expect(getFeeQuote(mockClient(), { ...NETWORK, maxFeePerGas: parseGwei('11').toString() }, 'slow'))
+        .rejects.toThrow('below the current base fee of 12 gwei');
+    });
+
+    it('should return a legacy gas price on chains without a base fee', async () => {
+      const quote = await getFeeQuote(mockClient({
+        getBlock: async () => ({ baseFeePerGas: null })
+      }), { ...NETWORK, maxFeePerGas: parseGwei('5').toString() }, 'standard');
+
+      expect(quote).toMatchObject({ type: 'legacy', gasPrice: parseGwei('5'), capped: true });
+    });
+  });
+
+  describe('estimateCostRange', () => {
+    it('should bound the cost between the raw estimate and the fee cap', () => {
+      const quote = computeEIP1559Fees({ strategy: 'standard', nextBaseFee: parseGwei('10'), priorityFee: parseGwei('1') });
+      const range = estimateCostRange(100_000n, 120_000n, quote);
+
+      expect(range.minWei).toBe((100_000n * parseGwei('11')).toString());
+      expect(range.expectedWei).toBe((120_000n * parseGwei('11')).toString());
+      expect(range.maxWei).toBe((120_000n * parseGwei('21')).toString());
+      expect(range.maxEth).toBe('0.00252');
+    });
+
+    it('should sum ranges without float rounding', () => {
+      const quote = { type: 'legacy' as const, strategy: 'standard' as const, gasPrice: 1n, capped: false };
+      const total = sumCostRanges([estimateCostRange(1n, 3n, quote), estimateCostRange(2n, 3n, quote)]);
+
+      expect(total).toMatchObject({ minWei: '3', expectedWei: '6', maxWei: '6' });
+      expect(formatCostRange(total)).toBe('0.000000000000000003 – 0.000000000000000006 ETH (expected 0.000000000000000006)');
+    });
+  });
+});
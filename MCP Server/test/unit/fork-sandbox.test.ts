@@ -0,0 +1,200 @@
+/**
+ * Unit tests for fork sandbox tools
+ * Tests the rehearsal sequence, teardown and failure reporting with Anvil and the prepare tools mocked
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rehearseDAODeployment, sendForkSandboxTransaction, formatRehearsalResult } from '../../src/tools/fork-sandbox.js';
+import { advanceSandboxTime, sendSandboxTransaction, startSandbox, stopSandbox } from '../../src/utils/sandbox.js';
+import { prepareContractDeployment } from '../../src/utils/transactions.js';
+import { getPreparedTransaction } from '../../src/utils/signed-transactions.js';
+import { prepareFactoryDAODeployment, decodeDAODeployedEvent } from '../../src/tools/deploy-dao-via-factory.js';
+import { getProposal, prepareVote } from '../../src/tools/governance-proposals.js';
+
+vi.mock('../../src/utils/sandbox.js', () => ({
+  startSandbox: vi.fn(),
+  stopSandbox: vi.fn(),
+  listSandboxes: vi.fn(() => []),
+  advanceSandboxTime: vi.fn(async () => ({ blockNumber: '10', timestamp: '1700000000' })),
+  sendSandboxTransaction: vi.fn()
+}));
+
+vi.mock('../../src/networks/index.js', () => ({
+  getNetworkConfig: vi.fn((networkName: string) => ({ name: networkName, chainId: 11155111, rpcUrl: 'http://127.0.0.1:40000' })),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/contracts.js', () => ({
+  loadContractABI: vi.fn(async () => ({ abi: [], bytecode: '0x6080' }))
+}));
+
+vi.mock('../../src/utils/transactions.js', () => ({
+  prepareContractDeployment: vi.fn()
+}));
+
+vi.mock('../../src/utils/signed-transactions.js', () => ({
+  getPreparedTransaction: vi.fn()
+}));
+
+vi.mock('viem', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('viem')>()),
+  encodeDeployData: vi.fn(() => '0x6080cafe')
+}));
+
+vi.mock('../../src/tools/deploy-dao-via-factory.js', () => ({
+  prepareFactoryDAODeployment: vi.fn(),
+  decodeDAODeployedEvent: vi.fn()
+}));
+
+vi.mock('../../src/tools/delegation.js', () => ({
+  prepareDelegation: vi.fn(async () => ({ kind: 'transaction', preparedTransaction: preparedTx('delegate'), delegatee: DEPLOYER, relayed: false }))
+}));
+
+vi.mock('../../src/tools/governance-proposals.js', () => ({
+  prepareProposal: vi.fn(async () => ({ preparedTransaction: preparedTx('propose'), proposalId: '42', descriptionHash: '0x' })),
+  prepareVote: vi.fn(async () => preparedTx('vote')),
+  prepareProposalOperation: vi.fn(async (operation: string) => ({ preparedTransaction: preparedTx(operation), proposalId: '42', descriptionHash: '0x' })),
+  getProposal: vi.fn()
+}));
+
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const DAO = {
+  deployer: DEPLOYER,
+  token: '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be',
+  governor: '0xB7A5bd0345EF1Cc5E66bf61BdeC17D2461fBd968',
+  timelock: '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883',
+  name: 'Test DAO'
+};
+
+const SANDBOX = {
+  id: 'sandbox-1',
+  networkName: 'sandbox-1',
+  rpcUrl: 'http://127.0.0.1:40000',
+  chainId: 11155111,
+  forkedFrom: 'sepolia',
+  forkBlockNumber: '5000000',
+  deployer: DEPLOYER,
+  fundedEth: '1000',
+  startedAt: '2026-01-01T00:00:00.000Z'
+};
+
+const daoConfig = {
+  tokenName: 'Test DAO',
+  tokenSymbol: 'TDAO',
+  initialSupply: '1000000000000000000000000',
+  votingDelay: '86400',
+  votingPeriod: '604800',
+  proposalThreshold: '0',
+  quorumPercentage: '4',
+  timelockDelay: '172800'
+};
+
+function preparedTx(data: string): any {
+  return {
+    unsignedTransaction: { to: FACTORY, value: '0', data: `0x${Buffer.from(data).toString('hex')}`, gas: '500000' },
+    metadata: { fromAddress: DEPLOYER }
+  };
+}
+
+describe('fork sandbox tools', () => {
+  let deployedCount: number;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deployedCount = 0;
+    vi.mocked(startSandbox).mockResolvedValue(SANDBOX);
+    vi.mocked(stopSandbox).mockResolvedValue(SANDBOX);
+    vi.mocked(prepareContractDeployment).mockImplementation(async () => ({ ...preparedTx('deploy'), unsignedTransaction: { to: null, value: '0', data: '0x6080', gas: '3000000' } }));
+    vi.mocked(prepareFactoryDAODeployment).mockResolvedValue(preparedTx('deployDAO'));
+    vi.mocked(decodeDAODeployedEvent).mockReturnValue(DAO);
+    vi.mocked(sendSandboxTransaction).mockImplementation(async (_id, tx) => ({
+      transactionHash: `0x${'ab'.repeat(32)}`,
+      status: 'success',
+      gasUsed: 21000n,
+      contractAddress: tx.to === null ? `0x${(++deployedCount).toString(16).padStart(40, '0')}` as any : undefined,
+      logs: []
+    }));
+    vi.mocked(getProposal).mockResolvedValue({ stateName: 'Executed' } as any);
+  });
+
+  describe('rehearseDAODeployment', () => {
+    it('should deploy, govern and tear the sandbox down', async () => {
+      const result = await rehearseDAODeployment({ networkName: 'sepolia', daoConfig } as any);
+
+      expect(result.success).toBe(true);
+      expect(result.tornDown).toBe(true);
+      expect(result.dao).toEqual({ token: DAO.token, governor: DAO.governor, timelock: DAO.timelock });
+      expect(result.factoryAddress).toBe(`0x${'4'.padStart(40, '0')}`);
+      expect(result.steps.map(step => step.label)).toEqual([
+        'Deploy SimpleDAOTokenUpgradeable implementation',
+        'Deploy SimpleDAOGovernorUpgradeable implementation',
+        'Deploy SimpleDAOTimelockUpgradeable implementation',
+        'Deploy SimpleDAOFactoryV2',
+        'Deploy DAO through factory',
+        'Self-delegate voting power',
+        'Checkpoint delegation',
+        'Propose',
+        'Skip voting delay',
+        'Vote FOR',
+        'Skip voting period',
+        'Queue',
+        'Skip timelock delay',
+        'Execute'
+      ]);
+      expect(vi.mocked(advanceSandboxTime).mock.calls.map(([, options]) => options.seconds)).toEqual([1, 86401, 604801, 172801]);
+      expect(sendSandboxTransaction).toHaveBeenCalledWith('sandbox-1', expect.anything(), DEPLOYER);
+      expect(stopSandbox).toHaveBeenCalledWith('sandbox-1');
+    });
+
+    it('should skip the factory deployment when a factory address is given', async () => {
+      const result = await rehearseDAODeployment({ networkName: 'sepolia', factoryAddress: FACTORY, daoConfig } as any);
+
+      expect(prepareContractDeployment).not.toHaveBeenCalled();
+      expect(prepareFactoryDAODeployment).toHaveBeenCalledWith(expect.objectContaining({ factoryAddress: FACTORY, recipient: DEPLOYER }));
+      expect(result.steps[0].label).toBe('Deploy DAO through factory');
+    });
+
+    it('should report a reverted step and still tear down', async () => {
+      vi.mocked(prepareVote).mockResolvedValueOnce({ ...preparedTx('vote'), unsignedTransaction: { to: DAO.governor, value: '0', data: '0xdead', gas: '90000' } });
+      vi.mocked(sendSandboxTransaction).mockImplementation(async (_id, tx) => ({
+        transactionHash: `0x${'cd'.repeat(32)}`,
+        status: tx.data === '0xdead' ? 'reverted' : 'success',
+        gasUsed: 90000n,
+        logs: []
+      }));
+
+      const result = await rehearseDAODeployment({ networkName: 'sepolia', factoryAddress: FACTORY, daoConfig } as any);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Vote FOR reverted');
+      expect(result.steps.at(-1)).toMatchObject({ label: 'Vote FOR', status: 'reverted', gasUsed: '90000', gasLimit: '90000' });
+      expect(result.tornDown).toBe(true);
+      expect(formatRehearsalResult(result)).toContain('❌ Failed');
+    });
+
+    it('should keep the sandbox running when teardown is disabled', async () => {
+      const result = await rehearseDAODeployment({ networkName: 'sepolia', factoryAddress: FACTORY, daoConfig, teardown: false } as any);
+
+      expect(result.tornDown).toBe(false);
+      expect(stopSandbox).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendForkSandboxTransaction', () => {
+    it('should send a prepared transaction from its prepared sender', async () => {
+      vi.mocked(getPreparedTransaction).mockReturnValue(preparedTx('deployDAO'));
+
+      const result = await sendForkSandboxTransaction({ sandboxId: 'sandbox-1', preparedTransactionId: '0x1234' });
+
+      expect(sendSandboxTransaction).toHaveBeenCalledWith('sandbox-1', preparedTx('deployDAO').unsignedTransaction, DEPLOYER);
+      expect(result).toMatchObject({ status: 'success', gasUsed: '21000', gasLimit: '500000' });
+    });
+
+    it('should reject unknown prepared transactions', async () => {
+      vi.mocked(getPreparedTransaction).mockReturnValue(undefined);
+
+      await expect(sendForkSandboxTransaction({ sandboxId: 'sandbox-1', preparedTransactionId: '0x1234' }))
+        .rejects.toThrow('Prepared transaction not found');
+    });
+  });
+});
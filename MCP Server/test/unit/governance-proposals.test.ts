@@ -0,0 +1,95 @@
+/**
+ * Unit tests for governance proposal tools
+ * Tests local proposal ID / description hash computation and input validation
+ */
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, keccak256, toHex } from 'viem';
+import {
+  computeProposalId,
+  hashProposalDescription,
+  PrepareProposalInputSchema,
+  formatProposalStatus,
+  PROPOSAL_STATES
+} from '../../src/tools/governance-proposals.js';
+
+const GOVERNOR = '0xB7A5bd0345EF1Cc5E66bf61BdeC17D2461fBd968';
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+
+const actions = {
+  targets: [TOKEN],
+  values: ['0'],
+  calldatas: ['0x40c10f19000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb922660000000000000000000000000000000000000000000000000de0b6b3a7640000'],
+  description: '# Mint 1 token to the deployer'
+};
+
+describe('governance proposals', () => {
+  describe('hashProposalDescription', () => {
+    it('should hash the UTF-8 bytes of the description', () => {
+      expect(hashProposalDescription(actions.description)).toBe(keccak256(toHex(actions.description)));
+    });
+  });
+
+  describe('computeProposalId', () => {
+    it('should match Governor.hashProposal encoding', () => {
+      const descriptionHash = hashProposalDescription(actions.description);
+      const expected = BigInt(keccak256(encodeAbiParameters(
+        [{ type: 'address[]' }, { type: 'uint256[]' }, { type: 'bytes[]' }, { type: 'bytes32' }],
+        [[TOKEN], [0n], [actions.calldatas[0] as `0x${string}`], descriptionHash]
+      )));
+
+      expect(computeProposalId(actions, descriptionHash)).toBe(expected);
+    });
+
+    it('should change when the description changes', () => {
+      const first = computeProposalId(actions, hashProposalDescription(actions.description));
+      const second = computeProposalId(actions, hashProposalDescription(`${actions.description}!`));
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('PrepareProposalInputSchema', () => {
+    it('should reject mismatched action arrays', () => {
+      const result = PrepareProposalInputSchema.safeParse({
+        networkName: 'local',
+        governorAddress: GOVERNOR,
+        proposal: { ...actions, values: ['0', '1'] }
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept a well-formed proposal', () => {
+      const result = PrepareProposalInputSchema.safeParse({
+        networkName: 'local',
+        governorAddress: GOVERNOR,
+        proposal: actions
+      });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('formatProposalStatus', () => {
+    it('should show timestamps as dates and suggest the next step', () => {
+      const formatted = formatProposalStatus({
+        governorAddress: GOVERNOR,
+        networkName: 'local',
+        proposalId: '1',
+        state: 4,
+        stateName: PROPOSAL_STATES[4],
+        votes: { against: '0', for: '100', abstain: '0' },
+        snapshot: '1700000000',
+        deadline: '1700604800',
+        eta: '0',
+        needsQueuing: true,
+        clockMode: 'mode=timestamp'
+      });
+
+      expect(formatted).toContain('**State:** Succeeded');
+      expect(formatted).toContain('2023-11-14T22:13:20.000Z');
+      expect(formatted).toContain('Timelock ETA: not queued');
+      expect(formatted).toContain('prepare-queue');
+    });
+  });
+});
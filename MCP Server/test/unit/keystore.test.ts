@@ -0,0 +1,164 @@
+/**
+ * Unit tests for encrypted ephemeral wallet keystores
+ * Tests v3 keystore encryption, the wallet file format, plaintext migration and export/import
+ */
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { existsSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+// The wallet directory is fixed when ephemeral-wallet.ts loads
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  const dir = mkdtempSync(join(tmpdir(), 'dao-deployer-keystore-'));
+  process.env.DAO_DEPLOYER_DATA_DIR = dir;
+  return dir;
+});
+
+import { DEFAULT_SCRYPT_PARAMS, decryptKeystore, encryptKeystore, keystoreFileName } from '../../src/utils/keystore.js';
+import {
+  KEYSTORE_PASSPHRASE_ENV,
+  exportEphemeralWallet,
+  generateEphemeralWallet,
+  importEphemeralWallet,
+  listEphemeralWallets,
+  migratePlaintextWallets,
+  setKeystorePassphrase,
+  unlockEphemeralWallets
+} from '../../src/utils/ephemeral-wallet.js';
+
+const WALLET_DIR = join(dataDir, 'ephemeral-wallets');
+const PASSPHRASE = 'correct horse battery staple';
+const FAST_SCRYPT = { scrypt: { n: 1024, r: 8, p: 1 } };
+
+// Test vector from the Web3 Secret Storage definition
+const PBKDF2_VECTOR = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: { c: 262144, dklen: 32, prf: 'hmac-sha256', salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd' },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2'
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3
+} as any;
+
+describe('keystore', () => {
+  it('should round-trip a private key through a scrypt keystore', async () => {
+    const privateKey = generatePrivateKey();
+    const keystore = await encryptKeystore(privateKey, PASSPHRASE, FAST_SCRYPT);
+
+    expect(keystore.version).toBe(3);
+    expect(keystore.address).toBe(privateKeyToAccount(privateKey).address.slice(2).toLowerCase());
+    expect(keystore.crypto).toMatchObject({ cipher: 'aes-128-ctr', kdf: 'scrypt', kdfparams: { n: 1024, r: 8, p: 1, dklen: 32 } });
+    expect(JSON.stringify(keystore)).not.toContain(privateKey.slice(2));
+    expect(await decryptKeystore(keystore, PASSPHRASE)).toBe(privateKey);
+    expect(keystoreFileName(keystore, new Date('2026-01-02T03:04:05.000Z'))).toBe(`UTC--2026-01-02T03-04-05.000Z--${keystore.address}`);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const keystore = await encryptKeystore(generatePrivateKey(), PASSPHRASE, FAST_SCRYPT);
+
+    await expect(decryptKeystore(keystore, 'wrong passphrase')).rejects.toThrow('keystore MAC does not match');
+  });
+
+  it('should decrypt the pbkdf2 test vector', async () => {
+    expect(await decryptKeystore(PBKDF2_VECTOR, 'testpassword'))
+      .toBe('0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d');
+  });
+});
+
+describe('encrypted ephemeral wallets', () => {
+  const defaultScrypt = { ...DEFAULT_SCRYPT_PARAMS };
+
+  beforeEach(() => {
+    // Full-strength scrypt needs 256 MiB per key; keep the tests light
+    Object.assign(DEFAULT_SCRYPT_PARAMS, FAST_SCRYPT.scrypt);
+    delete process.env[KEYSTORE_PASSPHRASE_ENV];
+    setKeystorePassphrase(undefined);
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    Object.assign(DEFAULT_SCRYPT_PARAMS, defaultScrypt);
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should refuse to generate a wallet while locked', async () => {
+    await expect(generateEphemeralWallet('sepolia')).rejects.toThrow(KEYSTORE_PASSPHRASE_ENV);
+  });
+
+  it('should store only the encrypted keystore', async () => {
+    process.env[KEYSTORE_PASSPHRASE_ENV] = PASSPHRASE;
+
+    const wallet = await generateEphemeralWallet('sepolia');
+    const data = JSON.parse(readFileSync(wallet.keyFile, 'utf-8'));
+
+    expect(wallet.encrypted).toBe(true);
+    expect(data.privateKey).toBeUndefined();
+    expect(data.keystore.crypto.kdf).toBe('scrypt');
+    expect(privateKeyToAccount(await decryptKeystore(data.keystore, PASSPHRASE)).address).toBe(wallet.address);
+  });
+
+  it('should verify the unlock passphrase against an existing keystore', async () => {
+    process.env[KEYSTORE_PASSPHRASE_ENV] = PASSPHRASE;
+    const wallet = await generateEphemeralWallet('sepolia');
+    delete process.env[KEYSTORE_PASSPHRASE_ENV];
+
+    await expect(unlockEphemeralWallets('not the passphrase')).rejects.toThrow('keystore MAC does not match');
+    expect(await unlockEphemeralWallets(PASSPHRASE)).toEqual({ verifiedWith: wallet.address });
+  });
+
+  it('should encrypt plaintext wallet files in place', async () => {
+    const privateKey = generatePrivateKey();
+    const address = privateKeyToAccount(privateKey).address;
+    await unlockEphemeralWallets(PASSPHRASE);
+    writeFileSync(join(WALLET_DIR, `${address.slice(2)}.json`), JSON.stringify({
+      address,
+      privateKey,
+      networkName: 'sepolia',
+      createdAt: new Date().toISOString(),
+      securityNote: 'This is an ephemeral wallet'
+    }));
+
+    const result = await migratePlaintextWallets();
+
+    expect(result).toEqual({ migrated: [address], alreadyEncrypted: 0, failed: [] });
+    const data = JSON.parse(readFileSync(join(WALLET_DIR, `${address.slice(2)}.json`), 'utf-8'));
+    expect(data.privateKey).toBeUndefined();
+    expect(await decryptKeystore(data.keystore, PASSPHRASE)).toBe(privateKey);
+    expect((await listEphemeralWallets())[0].encrypted).toBe(true);
+  });
+
+  it('should export a keystore under a new passphrase and import it back', async () => {
+    await unlockEphemeralWallets(PASSPHRASE);
+    const wallet = await generateEphemeralWallet('sepolia');
+    const outputDir = join(dataDir, 'exports');
+
+    const exported = await exportEphemeralWallet(wallet.address, 'sepolia', { exportPassphrase: 'export passphrase', outputDir });
+
+    expect(readdirSync(outputDir)).toEqual([exported.file.slice(outputDir.length + 1)]);
+    expect(exported.file).toMatch(/UTC--.*--[0-9a-f]{40}$/);
+    const privateKey = await decryptKeystore(exported.keystore, 'export passphrase');
+
+    rmSync(wallet.keyFile);
+    const imported = await importEphemeralWallet(exported.keystore, 'export passphrase', 'base-sepolia');
+
+    expect(imported.address).toBe(wallet.address);
+    const data = JSON.parse(readFileSync(imported.keyFile, 'utf-8'));
+    expect(await decryptKeystore(data.keystore, PASSPHRASE)).toBe(privateKey);
+    expect(existsSync(imported.keyFile)).toBe(true);
+  });
+
+  it('should refuse to import an address that already has a wallet', async () => {
+    await unlockEphemeralWallets(PASSPHRASE);
+    const wallet = await generateEphemeralWallet('sepolia');
+    const { keystore } = await exportEphemeralWallet(wallet.address, 'sepolia', { outputDir: join(dataDir, 'exports') });
+
+    await expect(importEphemeralWallet(keystore, PASSPHRASE, 'base-sepolia')).rejects.toThrow('already exists on sepolia');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for rollup L1 data fee estimation
+ * Tests OP Stack GasPriceOracle and Arbitrum NodeInterface pricing, how the fee enters cost ranges and per-network deployment costs
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { parseGwei } from 'viem';
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(async (networkConfig: { chainId: number }) => {
+    if (networkConfig.chainId !== 10) throw new Error('unreachable');
+    return {
+      getGasPrice: async () => parseGwei('0.001'),
+      readContract: async () => 1_000_000_000_000n
+    };
+  })
+}));
+
+vi.mock('../../src/utils/contracts.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/contracts.js')>(),
+  loadContractABI: vi.fn(async (name: string) => ({ name, version: '1.0.0', abi: [], bytecode: '0x6080604052' }))
+}));
+import {
+  estimateL1DataFee,
+  getRollupType,
+  OP_GAS_PRICE_ORACLE,
+  ARBITRUM_NODE_INTERFACE
+} from '../../src/utils/l1-fees.js';
+import { addL1Fee, estimateCostRange, formatEstimatedCost } from '../../src/utils/fees.js';
+import { getNetworkDeploymentCosts } from '../../src/tools/list-networks.js';
+import { NetworkConfig } from '../../src/types/index.js';
+
+function network(chainId: number): NetworkConfig {
+  return {
+    chainId,
+    name: 'Test',
+    rpcUrl: 'http://localhost:8545',
+    gasMultiplier: 1.2,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    testnet: false
+  };
+}
+
+const DEPLOYMENT = {
+  to: null,
+  data: '0x6080604052' as const,
+  value: 0n,
+  gas: 3_000_000n,
+  maxFeePerGas: parseGwei('0.01'),
+  maxPriorityFeePerGas: parseGwei('0.001')
+};
+
+describe('l1 fees', () => {
+  describe('getRollupType', () => {
+    it('should classify OP Stack and Arbitrum chains', () => {
+      expect(getRollupType(10)).toBe('op-stack');
+      expect(getRollupType(8453)).toBe('op-stack');
+      expect(getRollupType(42161)).toBe('arbitrum');
+      expect(getRollupType(1)).toBeUndefined();
+    });
+  });
+
+  describe('estimateL1DataFee', () => {
+    it('should price OP Stack transactions with the GasPriceOracle', async () => {
+      const calls: any[] = [];
+      const client = {
+        readContract: async (request: any) => {
+          calls.push(request);
+          return 5_000_000_000_000n;
+        }
+      };
+
+      const fee = await estimateL1DataFee(client, network(10), DEPLOYMENT);
+
+      expect(calls[0].address).toBe(OP_GAS_PRICE_ORACLE);
+      expect(calls[0].functionName).toBe('getL1Fee');
+      expect(calls[0].args[0]).toMatch(/^0x02/);
+      expect(fee).toMatchObject({ rollup: 'op-stack', l1FeeWei: '5000000000000', includedInGasEstimate: false });
+    });
+
+    it('should price Arbitrum transactions from gasEstimateComponents', async () => {
+      const calls: any[] = [];
+      const client = {
+        simulateContract: async (request: any) => {
+          calls.push(request);
+          return { result: [900_000n, 400_000n, parseGwei('0.01'), parseGwei('20')] };
+        }
+      };
+
+      const fee = await estimateL1DataFee(client, network(42161), DEPLOYMENT);
+
+      expect(calls[0].address).toBe(ARBITRUM_NODE_INTERFACE);
+      expect(calls[0].args[1]).toBe(true);
+      expect(fee).toMatchObject({
+        rollup: 'arbitrum',
+        l1FeeWei: (400_000n * parseGwei('0.01')).toString(),
+        l1Gas: '400000',
+        includedInGasEstimate: true
+      });
+    });
+
+    it('should return undefined on chains without an L1 fee', async () => {
+      expect(await estimateL1DataFee({}, network(1), DEPLOYMENT)).toBeUndefined();
+    });
+  });
+
+  describe('addL1Fee', () => {
+    const quote = { type: 'legacy' as const, strategy: 'standard' as const, gasPrice: 10n, capped: false };
+    const range = estimateCostRange(100n, 120n, quote);
+
+    it('should add OP Stack fees to every bound', () => {
+      const total = addL1Fee(range, { rollup: 'op-stack', l1FeeWei: '1000', l1FeeEth: '0.000000000000001', includedInGasEstimate: false });
+
+      expect(total).toMatchObject({ minWei: '2000', expectedWei: '2200', maxWei: '2200' });
+    });
+
+    it('should not double count fees already in the Arbitrum gas estimate', () => {
+      const l1Fee = { rollup: 'arbitrum' as const, l1FeeWei: '1000', l1FeeEth: '0.000000000000001', includedInGasEstimate: true };
+
+      expect(addL1Fee(range, l1Fee)).toEqual(range);
+      expect(formatEstimatedCost({ estimatedCost: range, estimatedCostEth: range.expectedEth, l1Fee })).toContain('paid as L2 gas');
+    });
+  });
+
+  describe('getNetworkDeploymentCosts', () => {
+    it('should price the DAO bytecode live on reachable rollups and keep ranges elsewhere', async () => {
+      const costs = await getNetworkDeploymentCosts();
+
+      // Token, timelock and governor at 0.000001 ETH each
+      expect(costs.optimism.l1DataFee).toBe('0.000003 ETH (GasPriceOracle)');
+      expect(costs.base.l1DataFee).toBe('~$2-15 (GasPriceOracle)');
+      expect(costs.ethereum.l1DataFee).toBeUndefined();
+    });
+  });
+});
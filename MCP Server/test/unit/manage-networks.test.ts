@@ -0,0 +1,184 @@
+/**
+ * Unit tests for custom network management
+ * Tests RPC chain ID probing, persistence in networks.json and registration in SUPPORTED_NETWORKS
+ */
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const configDir = vi.hoisted(() => ({ path: '' }));
+const chainIds = vi.hoisted(() => new Map<string, number>());
+
+vi.mock('../../src/utils/config.js', () => ({
+  getConfigDir: () => configDir.path,
+  resolveAPIKey: async () => undefined
+}));
+
+vi.mock('viem', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('viem')>()),
+  http: (url: string) => url,
+  createPublicClient: ({ transport }: { transport: string }) => ({
+    getChainId: async () => {
+      const chainId = chainIds.get(transport);
+      if (chainId === undefined) {
+        throw new Error('fetch failed');
+      }
+      return chainId;
+    }
+  })
+}));
+
+configDir.path = mkdtempSync(join(tmpdir(), 'dao-deployer-networks-'));
+
+import { SUPPORTED_NETWORKS } from '../../src/networks/index.js';
+import { addNetwork, updateNetwork, removeNetwork } from '../../src/tools/manage-networks.js';
+import { getCustomNetworksFile, isCustomNetwork, registerCustomNetworks } from '../../src/utils/custom-networks.js';
+import { listNetworks, formatNetworkList } from '../../src/tools/list-networks.js';
+
+const GNOSIS_RPC = 'https://rpc.gnosischain.example';
+const GNOSIS_BACKUP_RPC = 'https://gnosis-backup.example';
+
+const gnosisConfig = {
+  name: 'Gnosis',
+  rpcUrl: GNOSIS_RPC,
+  nativeCurrency: { name: 'xDAI', symbol: 'XDAI', decimals: 18 }
+};
+
+function readNetworksFile() {
+  return JSON.parse(readFileSync(getCustomNetworksFile(), 'utf-8'));
+}
+
+describe('custom networks', () => {
+  beforeEach(async () => {
+    chainIds.clear();
+    chainIds.set(GNOSIS_RPC, 100);
+    rmSync(getCustomNetworksFile(), { force: true });
+    await registerCustomNetworks();
+  });
+
+  afterAll(() => {
+    rmSync(configDir.path, { recursive: true, force: true });
+  });
+
+  describe('addNetwork', () => {
+    it('should read the chain ID from the RPC and persist the network', async () => {
+      const result = await addNetwork({ name: 'gnosis', config: gnosisConfig } as any);
+
+      expect(result.config.chainId).toBe(100);
+      expect(result.probes).toEqual([{ url: GNOSIS_RPC, chainId: 100 }]);
+      expect(readNetworksFile().networks.gnosis).toMatchObject({ chainId: 100, rpcUrl: GNOSIS_RPC, testnet: false });
+      expect(SUPPORTED_NETWORKS.gnosis.chainId).toBe(100);
+      expect(isCustomNetwork('Gnosis')).toBe(true);
+    });
+
+    it('should refuse a chain ID the RPC does not serve', async () => {
+      await expect(addNetwork({ name: 'gnosis', config: { ...gnosisConfig, chainId: 10200 } } as any))
+        .rejects.toThrow('The RPC reports chain 100, but chainId is 10200');
+      expect(SUPPORTED_NETWORKS.gnosis).toBeUndefined();
+    });
+
+    it('should refuse an unreachable RPC unless the probe is skipped', async () => {
+      const devnet = { name: 'Devnet', rpcUrl: 'http://10.0.0.5:8545', nativeCurrency: gnosisConfig.nativeCurrency };
+
+      await expect(addNetwork({ name: 'devnet', config: devnet } as any)).rejects.toThrow('No RPC endpoint of Devnet answered');
+
+      const result = await addNetwork({ name: 'devnet', config: { ...devnet, chainId: 1337 }, skipProbe: true } as any);
+      expect(result.warnings).toContain('The RPC was not probed; the chain ID is unverified.');
+    });
+
+    it('should refuse to add a mainnet chain as a testnet', async () => {
+      chainIds.set(GNOSIS_RPC, 1);
+
+      await expect(addNetwork({ name: 'gnosis', config: { ...gnosisConfig, testnet: true } } as any))
+        .rejects.toThrow('Chain 1 is Ethereum Mainnet, a mainnet; it cannot be added as a testnet');
+      await expect(addNetwork({ name: 'gnosis', config: { ...gnosisConfig, chainId: 1, testnet: true }, skipProbe: true } as any))
+        .rejects.toThrow('cannot be added as a testnet');
+      expect(SUPPORTED_NETWORKS.gnosis).toBeUndefined();
+    });
+
+    it('should refuse built-in and reserved names', async () => {
+      await expect(addNetwork({ name: 'sepolia', config: gnosisConfig } as any)).rejects.toThrow('Built-in networks cannot be replaced');
+      await expect(addNetwork({ name: 'sandbox-1', config: gnosisConfig } as any)).rejects.toThrow('reserved for fork sandboxes');
+    });
+
+    it('should import a chain definition exported by the frontend', async () => {
+      chainIds.set(GNOSIS_BACKUP_RPC, 100);
+
+      const result = await addNetwork({
+        name: 'gnosis',
+        chain: {
+          id: 100,
+          name: 'Gnosis',
+          nativeCurrency: gnosisConfig.nativeCurrency,
+          rpcUrls: { default: { http: [GNOSIS_RPC, GNOSIS_BACKUP_RPC] }, public: { http: [GNOSIS_RPC] } },
+          blockExplorers: { default: { name: 'Explorer', url: 'https://gnosisscan.io' } }
+        }
+      } as any);
+
+      expect(result.config).toMatchObject({
+        chainId: 100,
+        rpcUrl: GNOSIS_RPC,
+        fallbackRpcUrls: [GNOSIS_BACKUP_RPC],
+        explorerUrl: 'https://gnosisscan.io'
+      });
+    });
+  });
+
+  describe('updateNetwork', () => {
+    it('should merge changes and probe the new RPC', async () => {
+      await addNetwork({ name: 'gnosis', config: gnosisConfig } as any);
+      chainIds.set(GNOSIS_BACKUP_RPC, 100);
+
+      const result = await updateNetwork({ name: 'gnosis', changes: { rpcUrl: GNOSIS_BACKUP_RPC, testnet: true } } as any);
+
+      expect(result.config).toMatchObject({ chainId: 100, rpcUrl: GNOSIS_BACKUP_RPC, testnet: true, name: 'Gnosis' });
+      expect(readNetworksFile().networks.gnosis.rpcUrl).toBe(GNOSIS_BACKUP_RPC);
+    });
+
+    it('should not update built-in networks', async () => {
+      await expect(updateNetwork({ name: 'sepolia', changes: { rpcUrl: GNOSIS_RPC } } as any))
+        .rejects.toThrow('sepolia is not a custom network');
+    });
+  });
+
+  describe('removeNetwork', () => {
+    it('should remove the network from disk and from SUPPORTED_NETWORKS', async () => {
+      await addNetwork({ name: 'gnosis', config: gnosisConfig } as any);
+
+      await removeNetwork({ name: 'gnosis' });
+
+      expect(readNetworksFile().networks).toEqual({});
+      expect(SUPPORTED_NETWORKS.gnosis).toBeUndefined();
+      await expect(removeNetwork({ name: 'gnosis' })).rejects.toThrow('gnosis is not a custom network');
+    });
+  });
+
+  describe('registerCustomNetworks', () => {
+    it('should load valid entries from disk and skip invalid ones', async () => {
+      writeFileSync(getCustomNetworksFile(), JSON.stringify({
+        networks: {
+          linea: { chainId: 59144, name: 'Linea', rpcUrl: 'https://rpc.linea.build', nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 } },
+          broken: { chainId: 'not a number' },
+          ethereum: { chainId: 1, name: 'Hijacked', rpcUrl: 'https://evil.example', nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 } }
+        }
+      }));
+
+      expect(await registerCustomNetworks()).toEqual(['linea']);
+      expect(SUPPORTED_NETWORKS.linea.chainId).toBe(59144);
+      expect(SUPPORTED_NETWORKS.ethereum.name).toBe('Ethereum Mainnet');
+    });
+
+    it('should merge custom networks into list-networks and export them as chain definitions', async () => {
+      await addNetwork({ name: 'gnosis', config: gnosisConfig } as any);
+
+      const networks = await listNetworks({ includeTestnets: true, includeMainnets: true, format: 'table' });
+      const gnosis = networks.find(network => network.name === 'gnosis');
+      expect(gnosis).toMatchObject({ chainId: 100, custom: true });
+      expect(networks.find(network => network.name === 'ethereum')?.custom).toBe(false);
+
+      const chains = JSON.parse(formatNetworkList([gnosis!], 'chains'));
+      expect(chains).toEqual([expect.objectContaining({ id: 100, rpcUrls: { default: { http: [GNOSIS_RPC] }, public: { http: [GNOSIS_RPC] } } })]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the Merkle airdrop tools
+ * Tests tree construction and proof verification, and the deploy-then-fund nonce pinning with the chain mocked
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getContractAddress, keccak256 } from 'viem';
+
+const chain = vi.hoisted(() => ({ balance: 0n }));
+
+vi.mock('../../src/networks/index.js', () => ({
+  getNetworkConfig: vi.fn(() => ({ name: 'Sepolia', chainId: 11155111, rpcUrl: 'http://127.0.0.1:8545', testnet: true })),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(async () => ({
+    readContract: async ({ functionName }: { functionName: string }) => ({
+      symbol: 'DAO',
+      decimals: 18,
+      totalSupply: 10n ** 24n,
+      balanceOf: chain.balance,
+      timelock: TIMELOCK
+    } as Record<string, unknown>)[functionName]
+  }))
+}));
+
+vi.mock('../../src/utils/contracts.js', () => ({
+  loadContractABI: vi.fn(async () => ({
+    abi: [{
+      type: 'constructor',
+      inputs: [
+        { name: 'token_', type: 'address' },
+        { name: 'merkleRoot_', type: 'bytes32' },
+        { name: 'claimDeadline_', type: 'uint256' },
+        { name: 'treasury_', type: 'address' }
+      ],
+      stateMutability: 'nonpayable'
+    }],
+    bytecode: '0x6080'
+  }))
+}));
+
+vi.mock('../../src/utils/transactions.js', () => ({
+  getPendingNonce: vi.fn(async () => 7),
+  prepareContractDeployment: vi.fn(async (params: any) => ({
+    transactionType: 'contract_deployment',
+    unsignedTransaction: { to: null, value: '0', data: params.contractBytecode, nonce: params.nonce, chainId: 11155111 },
+    metadata: {
+      networkName: 'Sepolia',
+      networkChainId: 11155111,
+      description: '',
+      estimatedGasUsage: '900000',
+      estimatedCostEth: '0.001',
+      expectedAddress: getContractAddress({ from: params.fromAddress, nonce: BigInt(params.nonce) })
+    }
+  })),
+  prepareContractCall: vi.fn(async (params: any) => ({
+    transactionType: 'contract_call',
+    unsignedTransaction: { to: params.contractAddress, value: '0', data: '0x', nonce: params.nonce, chainId: 11155111 },
+    metadata: { networkName: 'Sepolia', networkChainId: 11155111, description: '', estimatedGasUsage: '60000', estimatedCostEth: '0.0001' }
+  }))
+}));
+
+vi.mock('../../src/tools/governance-proposals.js', () => ({
+  prepareProposal: vi.fn()
+}));
+
+import { buildMerkleTree, hashClaimLeaf, verifyMerkleProof } from '../../src/utils/merkle-tree.js';
+import {
+  buildMerkleAirdrop,
+  prepareMerkleAirdrop,
+  formatMerkleAirdropBuildResult
+} from '../../src/tools/merkle-airdrop.js';
+import { prepareContractCall } from '../../src/utils/transactions.js';
+
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+const TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const RECIPIENTS = [
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+  '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc'
+];
+
+describe('buildMerkleTree', () => {
+  it.each([1, 2, 3, 5])('should give a valid proof to every recipient of a %i-leaf tree', (count) => {
+    const recipients = RECIPIENTS.slice(0, count).map((address, i) => ({ address, amount: BigInt(i + 1) * 10n ** 18n }));
+    const tree = buildMerkleTree(recipients);
+
+    recipients.forEach((recipient, index) => {
+      const claim = tree.claims[recipient.address];
+      expect(claim.index).toBe(index);
+      expect(verifyMerkleProof(claim.proof, tree.root, hashClaimLeaf(index, recipient.address, recipient.amount))).toBe(true);
+    });
+  });
+
+  it('should hash pairs in sorted order like MerkleProof.verify', () => {
+    const [a, b] = RECIPIENTS.slice(0, 2).map((address, i) => hashClaimLeaf(i, address, 1n));
+    const [first, second] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+
+    const tree = buildMerkleTree([{ address: RECIPIENTS[0], amount: 1n }, { address: RECIPIENTS[1], amount: 1n }]);
+
+    expect(tree.root).toBe(keccak256(`0x${first.slice(2)}${second.slice(2)}`));
+    expect(tree.claims[RECIPIENTS[0]].proof).toEqual([b]);
+  });
+
+  it('should reject a proof for a different amount', () => {
+    const tree = buildMerkleTree(RECIPIENTS.map(address => ({ address, amount: 5n })));
+    const claim = tree.claims[RECIPIENTS[2]];
+
+    expect(verifyMerkleProof(claim.proof, tree.root, hashClaimLeaf(claim.index, RECIPIENTS[2], 6n))).toBe(false);
+  });
+});
+
+describe('merkle airdrop tools', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    chain.balance = 10n ** 24n;
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'airdrop-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should write the root and proofs, then fund the predicted distributor on the next nonce', async () => {
+    const proofsPath = path.join(tmpDir, 'proofs.json');
+    const built = await buildMerkleAirdrop({
+      networkName: 'sepolia',
+      tokenAddress: TOKEN,
+      content: RECIPIENTS.map(address => `${address},100`).join('\n'),
+      outputPath: proofsPath
+    });
+
+    expect(built.status).toBe('built');
+    expect(built.total).toBe('500');
+    expect(Object.keys(built.proofs!.claims)).toEqual(RECIPIENTS);
+    expect(formatMerkleAirdropBuildResult(built)).toContain(`written to \`${proofsPath}\``);
+
+    const prepared = await prepareMerkleAirdrop({
+      networkName: 'sepolia',
+      tokenAddress: TOKEN,
+      fromAddress: DEPLOYER,
+      proofsPath,
+      claimDeadline: '2999-01-01T00:00:00Z',
+      governorAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+    });
+
+    const distributor = getContractAddress({ from: DEPLOYER, nonce: 7n });
+    expect(prepared.distributorAddress).toBe(distributor);
+    expect(prepared.treasuryAddress).toBe(TIMELOCK);
+    expect(prepared.merkleRoot).toBe(built.proofs!.merkleRoot);
+    expect(prepared.deployment.unsignedTransaction.nonce).toBe(7);
+    expect(prepared.funding!.unsignedTransaction.nonce).toBe(8);
+    expect(prepareContractCall).toHaveBeenCalledWith(expect.objectContaining({
+      functionName: 'transfer',
+      args: [distributor, 500n * 10n ** 18n]
+    }));
+
+    const saved = JSON.parse(await fs.readFile(proofsPath, 'utf-8'));
+    expect(saved.distributorAddress).toBe(distributor);
+  });
+
+  it('should refuse to build a tree from a list with errors', async () => {
+    const built = await buildMerkleAirdrop({
+      networkName: 'sepolia',
+      tokenAddress: TOKEN,
+      content: `${RECIPIENTS[0]},1\n${RECIPIENTS[0]},2`
+    });
+
+    expect(built.status).toBe('invalid');
+    expect(built.proofs).toBeUndefined();
+  });
+
+  it('should require somewhere to sweep unclaimed tokens when there is a deadline', async () => {
+    await expect(prepareMerkleAirdrop({
+      networkName: 'sepolia',
+      tokenAddress: TOKEN,
+      fromAddress: DEPLOYER,
+      merkleRoot: `0x${'ab'.repeat(32)}`,
+      amount: '100',
+      claimDeadline: '2999-01-01'
+    })).rejects.toThrow('A claim deadline needs treasuryAddress or governorAddress');
+  });
+
+  it('should refuse to fund more than the deployer holds', async () => {
+    chain.balance = 10n ** 18n;
+
+    await expect(prepareMerkleAirdrop({
+      networkName: 'sepolia',
+      tokenAddress: TOKEN,
+      fromAddress: DEPLOYER,
+      merkleRoot: `0x${'ab'.repeat(32)}`,
+      amount: '100'
+    })).rejects.toThrow(`The airdrop needs 100 DAO but ${DEPLOYER} holds 1`);
+  });
+});
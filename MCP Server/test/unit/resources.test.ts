@@ -40,6 +40,11 @@ vi.mock('../../src/utils/contracts.js', () => ({
   loadAllContractABIs: vi.fn()
 }));
 
+// Mock custom networks: polygon stands in for a user-defined network
+vi.mock('../../src/utils/custom-networks.js', () => ({
+  isCustomNetwork: vi.fn((name: string) => name === 'polygon')
+}));
+
 // Mock fs module
 vi.mock('fs', () => ({
   promises: {
@@ -183,6 +188,13 @@ describe('resources', () => {
         expect(networks).not.toHaveProperty('ethereum');
         expect(networks).not.toHaveProperty('polygon');
       });
+
+      it('should read custom networks only', async () => {
+        const content = await readResource('dao-deployer://networks/custom');
+        const networks = JSON.parse(content);
+        
+        expect(Object.keys(networks)).toEqual(['polygon']);
+      });
     });
 
     describe('contract ABI resources', () => {
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for the RPC failover client factory
+ * Tests endpoint probing, ranking, chain ID verification, stale demotion and broadcast failover
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { keccak256 } from 'viem';
+import {
+  assessNetworkHealth,
+  broadcastRawTransaction,
+  getRpcUrls,
+  getVerifiedRpcUrls,
+  isEndpointError,
+  rankRpcUrls,
+  recordEndpointResult,
+  redactRpcUrl,
+  resetEndpointStats
+} from '../../src/utils/rpc.js';
+import { NetworkConfig } from '../../src/types/index.js';
+
+// Each mocked transport is just its URL, so the client for an endpoint can be looked up by it
+const endpoints = new Map<string, Record<string, any>>();
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('viem')>();
+  return {
+    ...actual,
+    http: vi.fn((url: string) => url),
+    createPublicClient: vi.fn(({ transport }: { transport: string }) => endpoints.get(transport))
+  };
+});
+
+const PRIMARY = 'https://primary.example/v2/abcdefghijklmnopqrstuvwxyz';
+const SECONDARY = 'https://secondary.example';
+const TERTIARY = 'https://tertiary.example';
+
+const NETWORK: NetworkConfig = {
+  chainId: 11155111,
+  name: 'Sepolia',
+  rpcUrl: PRIMARY,
+  fallbackRpcUrls: [SECONDARY, TERTIARY],
+  gasMultiplier: 1.2,
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  testnet: true
+};
+
+const SIGNED_TX = '0x02f86b83aa36a780843b9aca00847735940082520894000000000000000000000000000000000000dead0180c0';
+
+function endpoint(chainId: number, blockNumber: bigint, overrides: Record<string, any> = {}) {
+  return {
+    getChainId: vi.fn(async () => chainId),
+    getBlockNumber: vi.fn(async () => blockNumber),
+    sendRawTransaction: vi.fn(async () => keccak256(SIGNED_TX)),
+    ...overrides
+  };
+}
+
+function httpError(message: string) {
+  return Object.assign(new Error(message), { name: 'HttpRequestError' });
+}
+
+describe('rpc', () => {
+  beforeEach(() => {
+    endpoints.clear();
+    resetEndpointStats();
+  });
+
+  describe('getRpcUrls', () => {
+    it('should drop duplicates and unresolved placeholders', () => {
+      expect(getRpcUrls({
+        ...NETWORK,
+        rpcUrl: 'https://eth-sepolia.g.alchemy.com/v2/${ALCHEMY_API_KEY}',
+        fallbackRpcUrls: [SECONDARY, SECONDARY, TERTIARY]
+      })).toEqual([SECONDARY, TERTIARY]);
+    });
+  });
+
+  describe('redactRpcUrl', () => {
+    it('should hide API keys in paths and query strings', () => {
+      expect(redactRpcUrl(PRIMARY)).toBe('https://primary.example/v2/***');
+      expect(redactRpcUrl('https://rpc.example/?apikey=secret')).toBe('https://rpc.example/?apikey=***');
+      expect(redactRpcUrl(SECONDARY)).toBe(SECONDARY);
+    });
+  });
+
+  describe('rankRpcUrls', () => {
+    it('should prefer low latency and penalise errors', () => {
+      recordEndpointResult(PRIMARY, { latencyMs: 100 });
+      recordEndpointResult(PRIMARY, { error: 'fetch failed' });
+      recordEndpointResult(SECONDARY, { latencyMs: 300 });
+      recordEndpointResult(TERTIARY, { latencyMs: 50 });
+
+      expect(rankRpcUrls([PRIMARY, SECONDARY, TERTIARY], NETWORK.chainId)).toEqual([TERTIARY, SECONDARY, PRIMARY]);
+    });
+  });
+
+  describe('isEndpointError', () => {
+    it('should separate transport failures from rejected transactions', () => {
+      expect(isEndpointError(httpError('HTTP request failed'))).toBe(true);
+      expect(isEndpointError(new Error('nonce too low'))).toBe(false);
+    });
+  });
+
+  describe('getVerifiedRpcUrls', () => {
+    it('should exclude wrong-chain endpoints', async () => {
+      endpoints.set(PRIMARY, endpoint(NETWORK.chainId, 1000n));
+      endpoints.set(SECONDARY, endpoint(1, 5000n));
+      endpoints.set(TERTIARY, endpoint(NETWORK.chainId, 990n));
+
+      // The wrong chain's higher block does not make the others look stale
+      expect((await getVerifiedRpcUrls(NETWORK)).sort()).toEqual([PRIMARY, TERTIARY].sort());
+    });
+
+    it('should reuse recent probe results', async () => {
+      endpoints.set(PRIMARY, endpoint(NETWORK.chainId, 1000n));
+      const network = { ...NETWORK, fallbackRpcUrls: [] };
+
+      await getVerifiedRpcUrls(network);
+      await getVerifiedRpcUrls(network);
+
+      expect(endpoints.get(PRIMARY)!.getChainId).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when every endpoint serves another chain', async () => {
+      endpoints.set(PRIMARY, endpoint(1, 1000n));
+
+      await expect(getVerifiedRpcUrls({ ...NETWORK, fallbackRpcUrls: [] })).rejects.toThrow('chain ID other than 11155111');
+    });
+  });
+
+  describe('broadcastRawTransaction', () => {
+    it('should retry on the next endpoint when one is down', async () => {
+      endpoints.set(PRIMARY, endpoint(NETWORK.chainId, 1000n, {
+        sendRawTransaction: vi.fn(async () => { throw httpError('HTTP request failed'); })
+      }));
+      endpoints.set(SECONDARY, endpoint(NETWORK.chainId, 1000n));
+      endpoints.set(TERTIARY, endpoint(NETWORK.chainId, 1000n));
+
+      const result = await broadcastRawTransaction(NETWORK, SIGNED_TX);
+
+      expect(result.attempts).toBe(2);
+      expect(result.transactionHash).toBe(keccak256(SIGNED_TX));
+      expect(endpoints.get(TERTIARY)!.sendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should treat "already known" as accepted', async () => {
+      endpoints.set(PRIMARY, endpoint(NETWORK.chainId, 1000n, {
+        sendRawTransaction: vi.fn(async () => { throw new Error('already known'); })
+      }));
+
+      const result = await broadcastRawTransaction({ ...NETWORK, fallbackRpcUrls: [] }, SIGNED_TX);
+
+      expect(result).toMatchObject({ alreadyKnown: true, transactionHash: keccak256(SIGNED_TX) });
+    });
+
+    it('should not retry a rejected transaction', async () => {
+      endpoints.set(PRIMARY, endpoint(NETWORK.chainId, 1000n, {
+        sendRawTransaction: vi.fn(async () => { throw new Error('nonce too low'); })
+      }));
+      endpoints.set(SECONDARY, endpoint(NETWORK.chainId, 1000n));
+      endpoints.set(TERTIARY, endpoint(NETWORK.chainId, 1000n));
+
+      await expect(broadcastRawTransaction(NETWORK, SIGNED_TX)).rejects.toThrow('nonce too low');
+      expect(endpoints.get(SECONDARY)!.sendRawTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assessNetworkHealth', () => {
+    it('should report status, rank and lag per endpoint', async () => {
+      endpoints.set(PRIMARY, endpoint(NETWORK.chainId, 1000n, {
+        getChainId: vi.fn(async () => { throw httpError('HTTP request failed'); })
+      }));
+      endpoints.set(SECONDARY, endpoint(NETWORK.chainId, 1000n));
+      endpoints.set(TERTIARY, endpoint(NETWORK.chainId, 950n));
+
+      const report = await assessNetworkHealth(NETWORK);
+
+      expect(report.healthyCount).toBe(1);
+      expect(report.endpoints.map(entry => [entry.url, entry.status, entry.rank])).toEqual([
+        [SECONDARY, 'healthy', 1],
+        [TERTIARY, 'stale', 2],
+        ['https://primary.example/v2/***', 'unreachable', 3]
+      ]);
+      expect(report.endpoints[1].blocksBehind).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for signed transaction decoding
+ * Tests signer recovery, prepared transaction IDs and the pre-broadcast field comparison
+ */
+import { describe, it, expect } from 'vitest';
+import { keccak256 } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  compareWithPreparedTransaction,
+  getPreparedTransaction,
+  getPreparedTransactionId,
+  parseSignedTransaction,
+  registerPreparedTransaction
+} from '../../src/utils/signed-transactions.js';
+import { PreparedTransaction, TransactionError } from '../../src/types/index.js';
+
+// Well-known Anvil test account
+const account = privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const DELEGATE_CALLDATA = '0x5c19a95c000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+
+const preparedDelegation: PreparedTransaction = {
+  transactionType: 'contract_call',
+  unsignedTransaction: {
+    to: TOKEN,
+    value: '0',
+    data: DELEGATE_CALLDATA,
+    gas: '90000',
+    maxFeePerGas: '2000000000',
+    maxPriorityFeePerGas: '1000000',
+    nonce: 7,
+    chainId: 11155111
+  },
+  metadata: {
+    networkName: 'Sepolia',
+    networkChainId: 11155111,
+    functionName: 'delegate',
+    description: `Call delegate on contract ${TOKEN}`,
+    estimatedGasUsage: '90000',
+    estimatedCostEth: '0.00018',
+    fromAddress: account.address
+  }
+};
+
+function sign(overrides: Record<string, any> = {}) {
+  return account.signTransaction({
+    type: 'eip1559',
+    chainId: 11155111,
+    nonce: 7,
+    to: TOKEN,
+    value: 0n,
+    data: DELEGATE_CALLDATA,
+    gas: 90000n,
+    maxFeePerGas: 2000000000n,
+    maxPriorityFeePerGas: 1000000n,
+    ...overrides
+  });
+}
+
+describe('signed-transactions', () => {
+  describe('parseSignedTransaction', () => {
+    it('should decode fields and recover the signer', async () => {
+      const signedTx = await sign();
+
+      const decoded = await parseSignedTransaction(signedTx);
+
+      expect(decoded).toMatchObject({
+        hash: keccak256(signedTx),
+        type: 'eip1559',
+        from: account.address,
+        chainId: 11155111,
+        nonce: 7,
+        to: TOKEN,
+        value: 0n,
+        data: DELEGATE_CALLDATA,
+        gas: 90000n
+      });
+    });
+
+    it('should reject blobs that are not signed transactions', async () => {
+      await expect(parseSignedTransaction('0x1234')).rejects.toThrow(TransactionError);
+    });
+  });
+
+  describe('registerPreparedTransaction', () => {
+    it('should key transactions by a hash of their unsigned fields', () => {
+      const registered = registerPreparedTransaction(preparedDelegation);
+
+      expect(registered.metadata.preparedTransactionId).toBe(getPreparedTransactionId(preparedDelegation));
+      expect(getPreparedTransaction(registered.metadata.preparedTransactionId!)).toEqual(registered);
+      expect(getPreparedTransactionId({
+        ...preparedDelegation,
+        unsignedTransaction: { ...preparedDelegation.unsignedTransaction, value: '1' }
+      })).not.toBe(registered.metadata.preparedTransactionId);
+    });
+  });
+
+  describe('compareWithPreparedTransaction', () => {
+    it('should accept the transaction as prepared, whatever fees the signer chose', async () => {
+      const decoded = await parseSignedTransaction(await sign({ maxFeePerGas: 3000000000n }));
+
+      expect(compareWithPreparedTransaction(decoded, preparedDelegation)).toEqual([]);
+    });
+
+    it('should report every field that changed', async () => {
+      const decoded = await parseSignedTransaction(await sign({
+        chainId: 1,
+        nonce: 8,
+        to: account.address,
+        value: 1n,
+        data: '0x'
+      }));
+
+      expect(compareWithPreparedTransaction(decoded, preparedDelegation).map(mismatch => mismatch.field))
+        .toEqual(['chainId', 'nonce', 'to', 'value', 'data']);
+    });
+
+    it('should check the signer when the sender was prepared', async () => {
+      const other = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+      const decoded = await parseSignedTransaction(await other.signTransaction({
+        type: 'eip1559',
+        chainId: 11155111,
+        nonce: 7,
+        to: TOKEN,
+        data: DELEGATE_CALLDATA,
+        gas: 90000n,
+        maxFeePerGas: 2000000000n,
+        maxPriorityFeePerGas: 1000000n
+      }));
+
+      expect(compareWithPreparedTransaction(decoded, preparedDelegation)).toEqual([
+        { field: 'from', expected: account.address.toLowerCase(), actual: other.address.toLowerCase() }
+      ]);
+    });
+  });
+});
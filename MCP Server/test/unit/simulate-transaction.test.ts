@@ -0,0 +1,232 @@
+/**
+ * Unit tests for simulate-transaction tool
+ * Tests eth_simulateV1 and eth_call paths, state overrides, revert decoding and deployment predictions
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeFunctionResult,
+  getContractAddress,
+  maxUint96,
+  parseAbi,
+  type Log
+} from 'viem';
+import { simulateTransaction, decodeRevertReason } from '../../src/tools/simulate-transaction.js';
+import { createNetworkClient } from '../../src/utils/rpc.js';
+
+const FACTORY_ABI = parseAbi([
+  'function deployDAO((string tokenName, string tokenSymbol, uint256 initialSupply, uint256 votingDelay, uint256 votingPeriod, uint256 proposalThreshold, uint256 quorumPercentage, uint256 timelockDelay) config, address recipient) returns (address token, address governor, address timelock)',
+  'event DAODeployed(address indexed deployer, address indexed token, address indexed governor, address timelock, string name)',
+  'error OwnableUnauthorizedAccount(address account)'
+]);
+
+vi.mock('../../src/networks/index.js', () => ({
+  getNetworkConfig: vi.fn((networkName: string) => ({
+    name: networkName,
+    chainId: 11155111,
+    rpcUrl: 'https://sepolia.example',
+    fallbackRpcUrls: ['https://sepolia-backup.example'],
+    testnet: true
+  })),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(),
+  redactRpcUrl: vi.fn((url: string) => url)
+}));
+
+vi.mock('../../src/utils/contracts.js', () => ({
+  loadContractABI: vi.fn(async () => ({ abi: FACTORY_ABI })),
+  loadAllContractABIs: vi.fn(async () => ({ SimpleDAOFactoryV2: { abi: FACTORY_ABI } }))
+}));
+
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+const GOVERNOR = '0xB7A5bd0345EF1Cc5E66bf61BdeC17D2461fBd968';
+const TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+
+const DEPLOY_DAO_DATA = encodeFunctionData({
+  abi: FACTORY_ABI,
+  functionName: 'deployDAO',
+  args: [{
+    tokenName: 'Test DAO',
+    tokenSymbol: 'TDAO',
+    initialSupply: 10n ** 24n,
+    votingDelay: 86400n,
+    votingPeriod: 604800n,
+    proposalThreshold: 10n ** 21n,
+    quorumPercentage: 4n,
+    timelockDelay: 86400n
+  }, DEPLOYER]
+});
+
+const DEPLOY_DAO_RESULT = encodeFunctionResult({
+  abi: FACTORY_ABI,
+  functionName: 'deployDAO',
+  result: [TOKEN, GOVERNOR, TIMELOCK]
+});
+
+const daoDeployedLog = {
+  address: FACTORY,
+  topics: encodeEventTopics({
+    abi: FACTORY_ABI,
+    eventName: 'DAODeployed',
+    args: { deployer: DEPLOYER, token: TOKEN, governor: GOVERNOR }
+  }),
+  data: encodeAbiParameters([{ type: 'address' }, { type: 'string' }], [TIMELOCK, 'Test DAO'])
+} as unknown as Log;
+
+const deployDAOCall = {
+  networkName: 'sepolia',
+  from: DEPLOYER,
+  unsignedTransaction: { to: FACTORY, value: '0', data: DEPLOY_DAO_DATA, gas: '5000000' }
+};
+
+describe('simulate-transaction', () => {
+  let mockClient: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient = {
+      simulateBlocks: vi.fn(),
+      call: vi.fn(),
+      estimateGas: vi.fn(),
+      getTransactionCount: vi.fn()
+    };
+    vi.mocked(createNetworkClient).mockResolvedValue(mockClient);
+  });
+
+  describe('simulateTransaction', () => {
+    it('should decode the DAODeployed event of a deployDAO call', async () => {
+      mockClient.simulateBlocks.mockResolvedValue([
+        { calls: [{ status: 'success', data: DEPLOY_DAO_RESULT, gasUsed: 3200000n, logs: [daoDeployedLog] }] }
+      ]);
+
+      const result = await simulateTransaction(deployDAOCall);
+
+      expect(result).toMatchObject({
+        method: 'eth_simulateV1',
+        success: true,
+        gasUsed: '3200000',
+        gasLimit: '5000000',
+        logCount: 1,
+        daoDeployed: { deployer: DEPLOYER, token: TOKEN, governor: GOVERNOR, timelock: TIMELOCK, name: 'Test DAO', source: 'event' }
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should fall back to eth_call and read addresses from the return value', async () => {
+      mockClient.simulateBlocks.mockRejectedValue(new Error('the method eth_simulateV1 does not exist'));
+      mockClient.call.mockResolvedValue({ data: DEPLOY_DAO_RESULT });
+      mockClient.estimateGas.mockResolvedValue(3300000n);
+
+      const result = await simulateTransaction(deployDAOCall);
+
+      expect(result).toMatchObject({
+        method: 'eth_call',
+        success: true,
+        gasUsed: '3300000',
+        daoDeployed: { deployer: DEPLOYER, token: TOKEN, governor: GOVERNOR, timelock: TIMELOCK, source: 'return-value' }
+      });
+    });
+
+    it('should decode revert reasons', async () => {
+      const revertData = encodeErrorResult({
+        abi: parseAbi(['error Error(string)']),
+        errorName: 'Error',
+        args: ['Token name cannot be empty']
+      });
+      mockClient.simulateBlocks.mockResolvedValue([
+        { calls: [{ status: 'failure', data: revertData, gasUsed: 30000n, logs: [] }] }
+      ]);
+
+      const result = await simulateTransaction(deployDAOCall);
+
+      expect(result.success).toBe(false);
+      expect(result.revertReason).toBe('Token name cannot be empty');
+      expect(result.daoDeployed).toBeUndefined();
+    });
+
+    it('should warn when the call needs more gas than the prepared limit', async () => {
+      mockClient.simulateBlocks.mockResolvedValue([
+        { calls: [{ status: 'success', data: DEPLOY_DAO_RESULT, gasUsed: 6000000n, logs: [daoDeployedLog] }] }
+      ]);
+
+      const result = await simulateTransaction(deployDAOCall);
+
+      expect(result.warnings[0]).toContain('exceeds the prepared gas limit');
+    });
+
+    it('should predict the address of a contract deployment', async () => {
+      mockClient.simulateBlocks.mockResolvedValue([
+        { calls: [{ status: 'success', data: '0x6080604052', gasUsed: 120000n, logs: [] }] }
+      ]);
+      mockClient.getTransactionCount.mockResolvedValue(7);
+
+      const result = await simulateTransaction({
+        networkName: 'sepolia',
+        from: DEPLOYER,
+        unsignedTransaction: { to: null, value: '0', data: '0x60806040' }
+      });
+
+      expect(result.transactionType).toBe('contract_deployment');
+      expect(result.contractAddress).toBe(getContractAddress({ from: DEPLOYER, nonce: 7n }));
+      expect(result.deployedCodeSize).toBe(5);
+    });
+
+    it('should pass state overrides and fund the sender when asked', async () => {
+      mockClient.simulateBlocks.mockResolvedValue([
+        { calls: [{ status: 'success', data: DEPLOY_DAO_RESULT, gasUsed: 3200000n, logs: [daoDeployedLog] }] }
+      ]);
+
+      await simulateTransaction({
+        ...deployDAOCall,
+        fundSender: true,
+        stateOverrides: [{ address: FACTORY, stateDiff: { ['0x' + '0'.repeat(64)]: '0x' + '0'.repeat(63) + '1' } }]
+      });
+
+      const [{ blocks }] = mockClient.simulateBlocks.mock.calls[0];
+      expect(blocks[0].stateOverrides).toEqual([
+        { address: FACTORY, balance: undefined, nonce: undefined, code: undefined, stateDiff: [{ slot: '0x' + '0'.repeat(64), value: '0x' + '0'.repeat(63) + '1' }] },
+        { address: DEPLOYER, balance: maxUint96 }
+      ]);
+    });
+
+    it('should simulate against an explicit endpoint such as a local Anvil fork', async () => {
+      mockClient.simulateBlocks.mockResolvedValue([
+        { calls: [{ status: 'success', data: DEPLOY_DAO_RESULT, gasUsed: 3200000n, logs: [daoDeployedLog] }] }
+      ]);
+
+      const result = await simulateTransaction({ ...deployDAOCall, rpcUrl: 'http://127.0.0.1:8545' });
+
+      expect(createNetworkClient).toHaveBeenCalledWith(expect.objectContaining({
+        rpcUrl: 'http://127.0.0.1:8545',
+        fallbackRpcUrls: []
+      }));
+      expect(result.endpoint).toBe('http://127.0.0.1:8545');
+    });
+
+    it('should require a transaction to simulate', async () => {
+      await expect(simulateTransaction({ networkName: 'sepolia' } as any))
+        .rejects.toThrow('Provide a preparedTransactionId or an unsignedTransaction');
+    });
+  });
+
+  describe('decodeRevertReason', () => {
+    it('should decode custom errors from the project ABIs', () => {
+      const data = encodeErrorResult({ abi: FACTORY_ABI, errorName: 'OwnableUnauthorizedAccount', args: [DEPLOYER] });
+
+      expect(decodeRevertReason(data, [FACTORY_ABI])).toBe(`OwnableUnauthorizedAccount(${DEPLOYER})`);
+    });
+
+    it('should fall back to the selector for unknown errors', () => {
+      expect(decodeRevertReason('0xdeadbeef', [FACTORY_ABI])).toBe('Unknown error 0xdeadbeef');
+      expect(decodeRevertReason('0x', [FACTORY_ABI])).toBe('Reverted without a reason');
+    });
+  });
+});
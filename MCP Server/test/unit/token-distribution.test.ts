@@ -0,0 +1,184 @@
+/**
+ * Unit tests for prepare-token-distribution
+ * Tests CSV/JSON parsing, checksum and duplicate checks, and chunking with the chain mocked
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { decodeFunctionData, erc20Abi } from 'viem';
+
+const chain = vi.hoisted(() => ({ balance: 0n }));
+
+vi.mock('../../src/networks/index.js', () => ({
+  getNetworkConfig: vi.fn(() => ({ name: 'Sepolia', chainId: 11155111, rpcUrl: 'http://127.0.0.1:8545', testnet: true })),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(async () => ({
+    readContract: async ({ functionName }: { functionName: string }) => ({
+      symbol: 'DAO',
+      decimals: 18,
+      totalSupply: 10n ** 24n,
+      balanceOf: chain.balance,
+      timelock: TIMELOCK
+    } as Record<string, unknown>)[functionName]
+  }))
+}));
+
+vi.mock('../../src/utils/contracts.js', () => ({
+  loadContractABI: vi.fn(async () => ({ abi: [] }))
+}));
+
+vi.mock('../../src/utils/transactions.js', () => ({
+  getPendingNonce: vi.fn(async () => 5),
+  prepareContractCall: vi.fn(async (params: any) => ({
+    transactionType: 'contract_call',
+    unsignedTransaction: { to: params.contractAddress, value: '0', data: '0x', nonce: params.nonce, chainId: 11155111 },
+    metadata: { networkName: 'Sepolia', networkChainId: 11155111, description: '', estimatedGasUsage: '60000', estimatedCostEth: '0.0001' }
+  }))
+}));
+
+vi.mock('../../src/tools/governance-proposals.js', () => ({
+  prepareProposal: vi.fn(async (params: any) => ({
+    proposalId: `${params.proposal.targets.length}`,
+    descriptionHash: '0x00',
+    preparedTransaction: {
+      transactionType: 'contract_call',
+      unsignedTransaction: { to: params.governorAddress, value: '0', data: '0x', chainId: 11155111 },
+      metadata: { networkName: 'Sepolia', networkChainId: 11155111, description: '', estimatedGasUsage: '300000', estimatedCostEth: '0.001' }
+    }
+  }))
+}));
+
+import { aggregateDistribution, parseDistributionList } from '../../src/utils/distribution-list.js';
+import { prepareTokenDistribution, formatTokenDistributionResult } from '../../src/tools/token-distribution.js';
+import { prepareContractCall } from '../../src/utils/transactions.js';
+import { prepareProposal } from '../../src/tools/governance-proposals.js';
+
+const TOKEN = '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
+const TIMELOCK = '0xeEBe00Ac0756308ac4AaBfD76c05c4F3088B8883';
+const HOLDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+describe('distribution list', () => {
+  it('should parse CSV with a header, comments and unchecksummed addresses', () => {
+    const parsed = parseDistributionList([
+      'address,amount',
+      '# founders',
+      `${ALICE},100`,
+      `${BOB.toLowerCase()}; 2.5`,
+      ''
+    ].join('\n'));
+
+    expect(parsed.entries).toEqual([
+      { line: 3, address: ALICE, amount: '100' },
+      { line: 4, address: BOB, amount: '2.5' }
+    ]);
+    expect(parsed.issues).toEqual([{ line: 4, severity: 'warning', message: `${BOB.toLowerCase()} is not checksummed` }]);
+  });
+
+  it('should keep quoted fields together, including amounts with thousands separators', () => {
+    const parsed = parseDistributionList([
+      '"address","amount"',
+      `"${ALICE}","1,000"`,
+      `${BOB},"2,500.5"`
+    ].join('\n'));
+
+    expect(parsed.entries).toEqual([
+      { line: 2, address: ALICE, amount: '1000' },
+      { line: 3, address: BOB, amount: '2500.5' }
+    ]);
+    expect(parsed.issues).toEqual([]);
+  });
+
+  it('should reject bad checksums, invalid addresses and amounts', () => {
+    const badChecksum = ALICE.replace('C51812', 'c51812');
+    const parsed = parseDistributionList([`${badChecksum},1`, 'not-an-address,1', `${BOB},-4`, `${CAROL},0`].join('\n'));
+
+    expect(parsed.entries).toEqual([]);
+    expect(parsed.issues.map(issue => [issue.line, issue.severity, issue.message])).toEqual([
+      [1, 'error', `${badChecksum} has an invalid checksum (expected ${ALICE})`],
+      [2, 'error', '"not-an-address" is not an Ethereum address'],
+      [3, 'error', '"-4" is not a token amount'],
+      [4, 'error', `Amount for ${CAROL} must be greater than zero`]
+    ]);
+  });
+
+  it('should accept JSON arrays and address maps', () => {
+    expect(parseDistributionList(JSON.stringify([{ address: ALICE, amount: '1' }, [BOB, 2]])).entries)
+      .toEqual([{ line: 1, address: ALICE, amount: '1' }, { line: 2, address: BOB, amount: '2' }]);
+    expect(parseDistributionList(JSON.stringify({ [ALICE]: '3' })).entries).toEqual([{ line: 1, address: ALICE, amount: '3' }]);
+  });
+
+  it('should flag duplicates unless they are merged', () => {
+    const { entries } = parseDistributionList([`${ALICE},1`, `${BOB},2`, `${ALICE.toLowerCase()},3`].join('\n'));
+
+    const strict = aggregateDistribution(entries, 18);
+    expect(strict.recipients.map(recipient => recipient.address)).toEqual([ALICE, BOB]);
+    expect(strict.total).toBe(3n * 10n ** 18n);
+    expect(strict.issues).toEqual([{ line: 3, severity: 'error', message: `${ALICE} already appears on line 1` }]);
+
+    const merged = aggregateDistribution(entries, 18, true);
+    expect(merged.recipients[0]).toEqual({ address: ALICE, amount: 4n * 10n ** 18n, lines: [1, 3] });
+    expect(merged.total).toBe(6n * 10n ** 18n);
+    expect(merged.issues[0].severity).toBe('warning');
+  });
+});
+
+describe('prepareTokenDistribution', () => {
+  const csv = [`${ALICE},100`, `${BOB},200`, `${CAROL},300`].join('\n');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    chain.balance = 1000n * 10n ** 18n;
+  });
+
+  it('should prepare chunked transfers on consecutive nonces', async () => {
+    const result = await prepareTokenDistribution({ networkName: 'sepolia', tokenAddress: TOKEN, fromAddress: HOLDER, content: csv, chunkSize: 2 });
+
+    expect(result.status).toBe('prepared');
+    expect(result.total).toBe('600');
+    expect(result.chunks.map(chunk => [chunk.recipients, chunk.total])).toEqual([[2, '300'], [1, '300']]);
+    expect(result.chunks.flatMap(chunk => chunk.transactions!.map(tx => tx.unsignedTransaction.nonce))).toEqual([5, 6, 7]);
+    expect(prepareContractCall).toHaveBeenCalledWith(expect.objectContaining({
+      functionName: 'transfer',
+      args: [CAROL, 300n * 10n ** 18n],
+      fromAddress: HOLDER
+    }));
+    expect(formatTokenDistributionResult(result)).toContain('Chunk 2 of 2: 1 recipients, 300 DAO');
+  });
+
+  it('should prepare nothing when the list exceeds the balance', async () => {
+    chain.balance = 500n * 10n ** 18n;
+
+    const result = await prepareTokenDistribution({ networkName: 'sepolia', tokenAddress: TOKEN, fromAddress: HOLDER, content: csv });
+
+    expect(result.status).toBe('invalid');
+    expect(result.issues).toEqual([expect.objectContaining({ message: `The list totals 600 DAO but ${HOLDER} holds 500` })]);
+    expect(result.chunks).toEqual([]);
+    expect(prepareContractCall).not.toHaveBeenCalled();
+    expect(formatTokenDistributionResult(result)).toContain('No transactions were prepared');
+  });
+
+  it('should batch treasury transfers into one proposal per chunk', async () => {
+    const result = await prepareTokenDistribution({
+      networkName: 'sepolia',
+      tokenAddress: TOKEN,
+      governorAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      source: 'treasury',
+      content: csv,
+      chunkSize: 2,
+      description: 'Contributor grants'
+    });
+
+    expect(result.sourceAddress).toBe(TIMELOCK);
+    expect(result.chunks.map(chunk => chunk.proposal!.description)).toEqual([
+      'Contributor grants (part 1 of 2)',
+      'Contributor grants (part 2 of 2)'
+    ]);
+    const first = vi.mocked(prepareProposal).mock.calls[0][0].proposal;
+    expect(first.targets).toEqual([TOKEN, TOKEN]);
+    expect(decodeFunctionData({ abi: erc20Abi, data: first.calldatas[1] as `0x${string}` }).args).toEqual([BOB, 200n * 10n ** 18n]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the ephemeral wallet reaper
+ * Tests expiry and max balance enforcement, key deletion and the audit log with sweeps mocked
+ */
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// The wallet directory is fixed when ephemeral-wallet.ts loads
+const configDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  const path = mkdtempSync(join(tmpdir(), 'dao-deployer-reaper-'));
+  process.env.DAO_DEPLOYER_DATA_DIR = path;
+  return { path };
+});
+const tokenBalances = vi.hoisted(() => new Map<string, bigint>());
+
+vi.mock('../../src/utils/config.js', () => ({
+  getConfigDir: () => configDir.path
+}));
+
+vi.mock('../../src/networks/index.js', () => ({
+  getNetworkConfig: vi.fn((networkName: string) => ({ name: networkName, chainId: 11155111, rpcUrl: 'http://127.0.0.1:8545' })),
+  resolveNetworkConfig: vi.fn((config: any) => Promise.resolve(config))
+}));
+
+vi.mock('../../src/utils/rpc.js', () => ({
+  createNetworkClient: vi.fn(async () => ({
+    readContract: async ({ address }: { address: string }) => tokenBalances.get(address) ?? 0n
+  }))
+}));
+
+vi.mock('../../src/utils/ephemeral-wallet.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/ephemeral-wallet.js')>(),
+  listEphemeralWallets: vi.fn(),
+  getWalletBalance: vi.fn(),
+  sweepEphemeralWallet: vi.fn(),
+  sweepEphemeralWalletToken: vi.fn(),
+  deleteEphemeralWallet: vi.fn(async () => true)
+}));
+
+import { reapEphemeralWallets, getReaperAuditFile } from '../../src/utils/wallet-reaper.js';
+import * as ephemeralWallet from '../../src/utils/ephemeral-wallet.js';
+import {
+  deleteEphemeralWallet,
+  getWalletBalance,
+  listEphemeralWallets,
+  sweepEphemeralWallet,
+  sweepEphemeralWalletToken
+} from '../../src/utils/ephemeral-wallet.js';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+function wallet(policy: Record<string, any>) {
+  return {
+    address: WALLET,
+    networkName: 'sepolia',
+    createdAt: new Date('2026-05-01T00:00:00.000Z'),
+    keyFile: `/tmp/${WALLET.slice(2)}.json`,
+    encrypted: true,
+    policy: { allowedNetwork: 'sepolia', ...policy }
+  };
+}
+
+function balance(balanceWei: bigint) {
+  return { address: WALLET, networkName: 'sepolia', balance: String(balanceWei), balanceWei, hasBalance: balanceWei > 0n };
+}
+
+describe('reapEphemeralWallets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tokenBalances.clear();
+    rmSync(getReaperAuditFile(), { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(configDir.path, { recursive: true, force: true });
+  });
+
+  it('should sweep tokens before the native balance and delete the emptied key', async () => {
+    vi.mocked(listEphemeralWallets).mockResolvedValue([wallet({ expiresAt: '2026-05-02T00:00:00.000Z', sweepRecipient: RECIPIENT, tokens: [TOKEN] })]);
+    vi.mocked(sweepEphemeralWalletToken).mockImplementation(async () => {
+      tokenBalances.set(TOKEN, 0n);
+      return { success: true, tokenAddress: TOKEN, symbol: 'USDC', transactionHash: '0xaa', amountSwept: '250.0', amountSweptRaw: 250n, recipientAddress: RECIPIENT };
+    });
+    vi.mocked(sweepEphemeralWallet).mockResolvedValue({ success: true, transactionHash: '0xbb', amountSwept: '0.1', amountSweptWei: 1n, recipientAddress: RECIPIENT, keyDeleted: false });
+    vi.mocked(getWalletBalance).mockResolvedValue(balance(0n));
+
+    const report = await reapEphemeralWallets({ now: NOW });
+
+    expect(vi.mocked(sweepEphemeralWalletToken).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(sweepEphemeralWallet).mock.invocationCallOrder[0]);
+    expect(report.wallets).toEqual([expect.objectContaining({
+      address: WALLET,
+      reason: 'expired',
+      recipient: RECIPIENT,
+      keyDeleted: true,
+      sweeps: [
+        expect.objectContaining({ asset: TOKEN, symbol: 'USDC', status: 'swept', amount: '250.0', transactionHash: '0xaa' }),
+        expect.objectContaining({ asset: 'native', status: 'swept', amount: '0.1', transactionHash: '0xbb' })
+      ]
+    })]);
+    expect(deleteEphemeralWallet).toHaveBeenCalledWith(WALLET, 'sepolia');
+
+    const audit = JSON.parse(readFileSync(getReaperAuditFile(), 'utf-8'));
+    expect(audit.reports).toEqual([expect.objectContaining({ id: report.id, dryRun: false })]);
+  });
+
+  it('should keep the key when a sweep fails or funds remain', async () => {
+    vi.mocked(listEphemeralWallets).mockResolvedValue([wallet({ expiresAt: '2026-05-02T00:00:00.000Z', sweepRecipient: RECIPIENT })]);
+    vi.mocked(sweepEphemeralWallet).mockResolvedValue({ success: false, amountSwept: '0', amountSweptWei: 0n, recipientAddress: RECIPIENT, error: 'Insufficient balance to cover gas costs', keyDeleted: false });
+
+    const report = await reapEphemeralWallets({ now: NOW });
+
+    expect(report.wallets[0]).toMatchObject({ keyDeleted: false, sweeps: [{ status: 'failed', error: 'Insufficient balance to cover gas costs' }] });
+    expect(deleteEphemeralWallet).not.toHaveBeenCalled();
+  });
+
+  it('should skip expired wallets without a recipient unless a default is given', async () => {
+    vi.mocked(listEphemeralWallets).mockResolvedValue([wallet({ expiresAt: '2026-05-02T00:00:00.000Z' })]);
+    vi.mocked(sweepEphemeralWallet).mockResolvedValue({ success: true, amountSwept: '0', amountSweptWei: 0n, recipientAddress: RECIPIENT, error: 'Wallet already empty - no funds to sweep', keyDeleted: false });
+    vi.mocked(getWalletBalance).mockResolvedValue(balance(0n));
+
+    const skipped = await reapEphemeralWallets({ now: NOW });
+    expect(skipped.wallets[0].skipped).toContain('No sweepRecipient');
+    expect(sweepEphemeralWallet).not.toHaveBeenCalled();
+
+    const reaped = await reapEphemeralWallets({ now: NOW, defaultRecipient: RECIPIENT });
+    expect(reaped.wallets[0]).toMatchObject({ recipient: RECIPIENT, keyDeleted: true, sweeps: [{ asset: 'native', status: 'empty' }] });
+  });
+
+  it('should sweep on the network the policy allows', async () => {
+    vi.mocked(listEphemeralWallets).mockResolvedValue([wallet({ expiresAt: '2026-05-02T00:00:00.000Z', sweepRecipient: RECIPIENT, allowedNetwork: 'holesky' })]);
+    vi.mocked(sweepEphemeralWallet).mockResolvedValue({ success: true, transactionHash: '0xbb', amountSwept: '0.1', amountSweptWei: 1n, recipientAddress: RECIPIENT, keyDeleted: false });
+    vi.mocked(getWalletBalance).mockResolvedValue(balance(0n));
+
+    const report = await reapEphemeralWallets({ now: NOW, networkName: 'holesky' });
+
+    expect(report.wallets[0]).toMatchObject({ networkName: 'holesky', keyDeleted: true });
+    expect(sweepEphemeralWallet).toHaveBeenCalledWith(WALLET, RECIPIENT, 'holesky', false);
+    expect(deleteEphemeralWallet).toHaveBeenCalledWith(WALLET, 'holesky');
+  });
+
+  it('should delete the key file of a wallet swept on the network its policy allows', async () => {
+    const actual = await vi.importActual<typeof ephemeralWallet>('../../src/utils/ephemeral-wallet.js');
+    const walletDir = join(configDir.path, 'ephemeral-wallets');
+    const keyFile = join(walletDir, `${WALLET.slice(2)}.json`);
+    mkdirSync(walletDir, { recursive: true });
+    writeFileSync(keyFile, JSON.stringify({
+      id: 'reaper-test',
+      address: WALLET,
+      networkName: 'sepolia',
+      createdAt: '2026-05-01T00:00:00.000Z',
+      policy: { expiresAt: '2026-05-02T00:00:00.000Z', sweepRecipient: RECIPIENT, allowedNetwork: 'holesky' }
+    }));
+    vi.mocked(listEphemeralWallets).mockImplementationOnce(actual.listEphemeralWallets);
+    vi.mocked(deleteEphemeralWallet).mockImplementationOnce(actual.deleteEphemeralWallet);
+    vi.mocked(sweepEphemeralWallet).mockResolvedValue({ success: true, transactionHash: '0xbb', amountSwept: '0.1', amountSweptWei: 1n, recipientAddress: RECIPIENT, keyDeleted: false });
+    vi.mocked(getWalletBalance).mockResolvedValue(balance(0n));
+
+    const report = await reapEphemeralWallets({ now: NOW, networkName: 'holesky' });
+
+    expect(report.wallets[0]).toMatchObject({ networkName: 'holesky', keyDeleted: true });
+    expect(existsSync(keyFile)).toBe(false);
+  });
+
+  it('should sweep only the balance above maxBalance from live wallets', async () => {
+    vi.mocked(listEphemeralWallets).mockResolvedValue([
+      wallet({ expiresAt: '2026-07-01T00:00:00.000Z', maxBalanceWei: '500', sweepRecipient: RECIPIENT }),
+      { ...wallet({ maxBalanceWei: '500' }), address: RECIPIENT }
+    ]);
+    vi.mocked(getWalletBalance).mockImplementation(async (address) => address === WALLET ? balance(800n) : balance(100n));
+    vi.mocked(sweepEphemeralWallet).mockResolvedValue({ success: true, transactionHash: '0xcc', amountSwept: '0.0000000000000003', amountSweptWei: 300n, recipientAddress: RECIPIENT, keyDeleted: false });
+
+    const report = await reapEphemeralWallets({ now: NOW });
+
+    expect(sweepEphemeralWallet).toHaveBeenCalledWith(WALLET, RECIPIENT, 'sepolia', false, { keepWei: 500n });
+    expect(report.checked).toBe(2);
+    expect(report.wallets).toEqual([expect.objectContaining({ reason: 'over-max-balance', keyDeleted: false })]);
+    expect(deleteEphemeralWallet).not.toHaveBeenCalled();
+  });
+
+  it('should plan without sweeping or writing the audit log on a dry run', async () => {
+    tokenBalances.set(TOKEN, 42n);
+    vi.mocked(listEphemeralWallets).mockResolvedValue([wallet({ expiresAt: '2026-05-02T00:00:00.000Z', sweepRecipient: RECIPIENT })]);
+    vi.mocked(getWalletBalance).mockResolvedValue(balance(10n));
+
+    const report = await reapEphemeralWallets({ now: NOW, dryRun: true, tokens: [TOKEN] });
+
+    expect(report.wallets[0].sweeps).toEqual([
+      expect.objectContaining({ asset: TOKEN, status: 'planned', amount: '42' }),
+      expect.objectContaining({ asset: 'native', status: 'planned' })
+    ]);
+    expect(sweepEphemeralWallet).not.toHaveBeenCalled();
+    expect(sweepEphemeralWalletToken).not.toHaveBeenCalled();
+    expect(existsSync(getReaperAuditFile())).toBe(false);
+  });
+});
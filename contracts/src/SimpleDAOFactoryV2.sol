@@ -4,6 +4,9 @@ pragma solidity ^0.8.27;
 import {ERC1967Proxy} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {VestingWallet} from "@openzeppelin/contracts/finance/VestingWallet.sol";
 import {TimelockControllerUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/TimelockControllerUpgradeable.sol";
 
 import {SimpleDAOTokenUpgradeable} from "./SimpleDAOTokenUpgradeable.sol";
@@ -23,6 +26,7 @@ import {SimpleDAOTimelockUpgradeable} from "./SimpleDAOTimelockUpgradeable.sol";
  * - Complete DAO sovereignty with no centralized upgrade risks
  */
 contract SimpleDAOFactoryV2 is Ownable {
+    using SafeERC20 for IERC20;
     
     // Implementation contracts for UUPS deployments
     address public immutable tokenImplementation;
@@ -41,6 +45,15 @@ contract SimpleDAOFactoryV2 is Ownable {
         uint256 timelockDelay;
     }
     
+    // Initial supply allocation - recipient address(0) is the DAO treasury (timelock),
+    // a non-zero vestingDuration routes the tokens through a linear VestingWallet
+    struct Allocation {
+        address recipient;
+        uint256 amount;
+        uint64 vestingStart;
+        uint64 vestingDuration;
+    }
+    
     // Deployed DAO tracking
     struct DeployedDAO {
         address token;
@@ -65,6 +78,13 @@ contract SimpleDAOFactoryV2 is Ownable {
         string name
     );
     
+    event TokensAllocated(
+        address indexed token,
+        address indexed recipient,
+        address vestingWallet,
+        uint256 amount
+    );
+    
     /**
      * @dev Constructor - stores implementation addresses for UUPS deployments
      * @param tokenImpl Token implementation address
@@ -100,6 +120,56 @@ contract SimpleDAOFactoryV2 is Ownable {
         address token, 
         address governor, 
         address timelock
+    ) {
+        require(recipient != address(0), "Recipient cannot be zero address");
+        
+        return _deployDAO(config, recipient);
+    }
+    
+    /**
+     * @dev Deploy a complete DAO system and split the initial supply between several recipients
+     * The supply is minted to the factory and distributed in the same transaction, so the
+     * factory holds no tokens once the call returns
+     * @param config DAO configuration parameters
+     * @param allocations Recipients of the initial supply, amounts must sum to config.initialSupply
+     * @return token Address of deployed token proxy
+     * @return governor Address of deployed governor proxy
+     * @return timelock Address of deployed timelock proxy
+     */
+    function deployDAO(
+        DAOConfig calldata config,
+        Allocation[] calldata allocations
+    ) external returns (
+        address token, 
+        address governor, 
+        address timelock
+    ) {
+        require(allocations.length > 0, "No allocations");
+        
+        uint256 total;
+        for (uint256 i = 0; i < allocations.length; i++) {
+            require(allocations[i].amount > 0, "Allocation amount must be greater than 0");
+            total += allocations[i].amount;
+        }
+        require(total == config.initialSupply, "Allocations must sum to initial supply");
+        
+        (token, governor, timelock) = _deployDAO(config, address(this));
+        
+        for (uint256 i = 0; i < allocations.length; i++) {
+            _allocate(token, timelock, allocations[i]);
+        }
+    }
+    
+    /**
+     * @dev Deploy, configure and record a DAO with the initial supply minted to initialHolder
+     */
+    function _deployDAO(
+        DAOConfig calldata config,
+        address initialHolder
+    ) internal returns (
+        address token, 
+        address governor, 
+        address timelock
     ) {
         // Input validation
         require(bytes(config.tokenName).length > 0, "Token name cannot be empty");
@@ -108,13 +178,12 @@ contract SimpleDAOFactoryV2 is Ownable {
         require(config.votingDelay > 0, "Voting delay must be greater than 0");
         require(config.votingPeriod > 0, "Voting period must be greater than 0");
         require(config.quorumPercentage > 0 && config.quorumPercentage <= 100, "Invalid quorum percentage");
-        require(recipient != address(0), "Recipient cannot be zero address");
         
         // Deploy timelock first (UUPS proxy)
         timelock = _deployTimelock(config.timelockDelay);
         
         // Deploy token with beacon proxy
-        token = _deployToken(config, recipient, timelock);
+        token = _deployToken(config, initialHolder, timelock);
         
         // Deploy governor with beacon proxy
         governor = _deployGovernor(config, token, timelock);
@@ -139,6 +208,29 @@ contract SimpleDAOFactoryV2 is Ownable {
         emit DAODeployed(msg.sender, token, governor, timelock, config.tokenName);
     }
     
+    /**
+     * @dev Transfer one allocation out of the factory, through a vesting wallet when it vests
+     */
+    function _allocate(
+        address token,
+        address timelock,
+        Allocation calldata allocation
+    ) internal {
+        address recipient = allocation.recipient == address(0) ? timelock : allocation.recipient;
+        address vestingWallet;
+        address destination = recipient;
+        
+        if (allocation.vestingDuration > 0) {
+            // The beneficiary owns the vesting wallet, the factory keeps no control over it
+            vestingWallet = address(new VestingWallet(recipient, allocation.vestingStart, allocation.vestingDuration));
+            destination = vestingWallet;
+        }
+        
+        IERC20(token).safeTransfer(destination, allocation.amount);
+        
+        emit TokensAllocated(token, recipient, vestingWallet, allocation.amount);
+    }
+    
     /**
      * @dev Deploy timelock using UUPS proxy pattern
      */
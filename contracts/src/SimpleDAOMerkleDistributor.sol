@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {BitMaps} from "@openzeppelin/contracts/utils/structs/BitMaps.sol";
+
+/**
+ * @title SimpleDAOMerkleDistributor
+ * @dev Pull-based airdrop of DAO tokens against a Merkle root
+ *
+ * Leaves are keccak256(bytes.concat(keccak256(abi.encode(index, account, amount)))), the leaf
+ * encoding of OpenZeppelin's StandardMerkleTree, hashed in sorted pairs as MerkleProof expects.
+ * Only the leaf encoding is compatible: the tree keeps leaves in claim order and carries odd nodes
+ * up, so StandardMerkleTree builds a different root from the same claims.
+ *
+ * Security Model:
+ * - The root and token are fixed at deployment; nobody can change who may claim
+ * - After claimDeadline, unclaimed tokens can only be swept to the DAO treasury
+ * - A claimDeadline of 0 keeps the claim open forever and disables sweeping
+ */
+contract SimpleDAOMerkleDistributor {
+    using SafeERC20 for IERC20;
+    using BitMaps for BitMaps.BitMap;
+
+    IERC20 public immutable token;
+    bytes32 public immutable merkleRoot;
+    uint256 public immutable claimDeadline;
+    address public immutable treasury;
+
+    BitMaps.BitMap private _claimed;
+
+    event Claimed(uint256 indexed index, address indexed account, uint256 amount);
+    event Swept(address indexed treasury, uint256 amount);
+
+    constructor(address token_, bytes32 merkleRoot_, uint256 claimDeadline_, address treasury_) {
+        require(token_ != address(0), "Invalid token");
+        require(merkleRoot_ != bytes32(0), "Invalid merkle root");
+        require(claimDeadline_ == 0 || claimDeadline_ > block.timestamp, "Deadline must be in the future");
+        require(claimDeadline_ == 0 || treasury_ != address(0), "Treasury required with a deadline");
+
+        token = IERC20(token_);
+        merkleRoot = merkleRoot_;
+        claimDeadline = claimDeadline_;
+        treasury = treasury_;
+    }
+
+    /**
+     * @dev Whether the leaf at index has been claimed
+     */
+    function isClaimed(uint256 index) public view returns (bool) {
+        return _claimed.get(index);
+    }
+
+    /**
+     * @dev Send account its allocation. Anyone may submit the claim; tokens always go to account.
+     */
+    function claim(uint256 index, address account, uint256 amount, bytes32[] calldata merkleProof) public {
+        require(claimDeadline == 0 || block.timestamp <= claimDeadline, "Claim period has ended");
+        require(!isClaimed(index), "Already claimed");
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(index, account, amount))));
+        require(MerkleProof.verify(merkleProof, merkleRoot, leaf), "Invalid proof");
+
+        _claimed.set(index);
+        token.safeTransfer(account, amount);
+
+        emit Claimed(index, account, amount);
+    }
+
+    /**
+     * @dev Claim, then submit the account's signed delegation so the tokens vote from the start.
+     * delegateBySig recovers the signer, so the signature only ever moves the signer's own votes.
+     */
+    function claimAndDelegate(
+        uint256 index,
+        address account,
+        uint256 amount,
+        bytes32[] calldata merkleProof,
+        address delegatee,
+        uint256 nonce,
+        uint256 expiry,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        claim(index, account, amount, merkleProof);
+        IVotes(address(token)).delegateBySig(delegatee, nonce, expiry, v, r, s);
+    }
+
+    /**
+     * @dev Return unclaimed tokens to the DAO treasury once the claim period is over
+     */
+    function sweep() external {
+        require(claimDeadline != 0, "Claim period never ends");
+        require(block.timestamp > claimDeadline, "Claim period still open");
+
+        uint256 remaining = token.balanceOf(address(this));
+        token.safeTransfer(treasury, remaining);
+
+        emit Swept(treasury, remaining);
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+import {Vm} from "forge-std/Vm.sol";
+import {VestingWallet} from "@openzeppelin/contracts/finance/VestingWallet.sol";
+
+import {SimpleDAOFactoryV2} from "../src/SimpleDAOFactoryV2.sol";
+import {SimpleDAOTokenUpgradeable} from "../src/SimpleDAOTokenUpgradeable.sol";
+import {SimpleDAOGovernorUpgradeable} from "../src/SimpleDAOGovernorUpgradeable.sol";
+import {SimpleDAOTimelockUpgradeable} from "../src/SimpleDAOTimelockUpgradeable.sol";
+
+contract InitialAllocationsTest is Test {
+    SimpleDAOFactoryV2 public factory;
+
+    address public deployer = address(0x1);
+    address public alice = address(0x2);
+    address public bob = address(0x3);
+
+    SimpleDAOFactoryV2.DAOConfig public defaultConfig;
+
+    function setUp() public {
+        factory = new SimpleDAOFactoryV2(
+            address(new SimpleDAOTokenUpgradeable()),
+            address(new SimpleDAOGovernorUpgradeable()),
+            address(new SimpleDAOTimelockUpgradeable())
+        );
+
+        defaultConfig = SimpleDAOFactoryV2.DAOConfig({
+            tokenName: "Test DAO Token",
+            tokenSymbol: "TDT",
+            initialSupply: 1000000e18,
+            votingDelay: 1 days,
+            votingPeriod: 1 weeks,
+            proposalThreshold: 1000e18,
+            quorumPercentage: 4,
+            timelockDelay: 2 days
+        });
+    }
+
+    function _allocations() internal view returns (SimpleDAOFactoryV2.Allocation[] memory allocations) {
+        allocations = new SimpleDAOFactoryV2.Allocation[](3);
+        allocations[0] = SimpleDAOFactoryV2.Allocation(alice, 500000e18, 0, 0);
+        allocations[1] = SimpleDAOFactoryV2.Allocation(bob, 200000e18, uint64(block.timestamp), 365 days);
+        allocations[2] = SimpleDAOFactoryV2.Allocation(address(0), 300000e18, 0, 0); // Treasury
+    }
+
+    // Vesting wallet address from the recorded TokensAllocated event for a beneficiary
+    function _vestingWalletFor(address beneficiary) internal returns (address vestingWallet) {
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        bytes32 allocatedTopic = keccak256("TokensAllocated(address,address,address,uint256)");
+        for (uint256 i = 0; i < logs.length; i++) {
+            if (logs[i].topics[0] == allocatedTopic && address(uint160(uint256(logs[i].topics[2]))) == beneficiary) {
+                (vestingWallet, ) = abi.decode(logs[i].data, (address, uint256));
+            }
+        }
+    }
+
+    function testDeployWithAllocations() public {
+        vm.recordLogs();
+        vm.prank(deployer);
+        (address token, , address timelock) = factory.deployDAO(defaultConfig, _allocations());
+
+        SimpleDAOTokenUpgradeable tokenContract = SimpleDAOTokenUpgradeable(token);
+        assertEq(tokenContract.totalSupply(), 1000000e18);
+        assertEq(tokenContract.balanceOf(alice), 500000e18);
+        assertEq(tokenContract.balanceOf(timelock), 300000e18);
+        assertEq(tokenContract.balanceOf(bob), 0);
+        assertEq(tokenContract.balanceOf(address(factory)), 0, "Factory must not keep tokens");
+
+        address vestingWallet = _vestingWalletFor(bob);
+        assertTrue(vestingWallet != address(0), "Vesting wallet not deployed");
+        assertEq(tokenContract.balanceOf(vestingWallet), 200000e18);
+        assertEq(VestingWallet(payable(vestingWallet)).owner(), bob);
+        assertEq(VestingWallet(payable(vestingWallet)).duration(), 365 days);
+    }
+
+    function testVestingReleasesLinearly() public {
+        vm.recordLogs();
+        vm.prank(deployer);
+        (address token, , ) = factory.deployDAO(defaultConfig, _allocations());
+
+        address vestingWallet = _vestingWalletFor(bob);
+        uint256 start = block.timestamp;
+
+        vm.warp(start + 365 days / 2);
+        VestingWallet(payable(vestingWallet)).release(token);
+        assertEq(SimpleDAOTokenUpgradeable(token).balanceOf(bob), 100000e18);
+
+        vm.warp(start + 365 days);
+        VestingWallet(payable(vestingWallet)).release(token);
+        assertEq(SimpleDAOTokenUpgradeable(token).balanceOf(bob), 200000e18);
+    }
+
+    function testAllocationsMustSumToInitialSupply() public {
+        SimpleDAOFactoryV2.Allocation[] memory allocations = _allocations();
+        allocations[0].amount = 400000e18;
+
+        vm.prank(deployer);
+        vm.expectRevert("Allocations must sum to initial supply");
+        factory.deployDAO(defaultConfig, allocations);
+    }
+
+    function testRejectsEmptyAndZeroAllocations() public {
+        vm.prank(deployer);
+        vm.expectRevert("No allocations");
+        factory.deployDAO(defaultConfig, new SimpleDAOFactoryV2.Allocation[](0));
+
+        SimpleDAOFactoryV2.Allocation[] memory allocations = _allocations();
+        allocations[0].amount = 0;
+
+        vm.prank(deployer);
+        vm.expectRevert("Allocation amount must be greater than 0");
+        factory.deployDAO(defaultConfig, allocations);
+    }
+}
@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Test} from "forge-std/Test.sol";
+
+import {SimpleDAOFactoryV2} from "../src/SimpleDAOFactoryV2.sol";
+import {SimpleDAOTokenUpgradeable} from "../src/SimpleDAOTokenUpgradeable.sol";
+import {SimpleDAOGovernorUpgradeable} from "../src/SimpleDAOGovernorUpgradeable.sol";
+import {SimpleDAOTimelockUpgradeable} from "../src/SimpleDAOTimelockUpgradeable.sol";
+import {SimpleDAOMerkleDistributor} from "../src/SimpleDAOMerkleDistributor.sol";
+
+contract MerkleDistributorTest is Test {
+    SimpleDAOTokenUpgradeable public token;
+    SimpleDAOMerkleDistributor public distributor;
+    address public timelock;
+
+    address public deployer = address(0x1);
+    uint256 public alicePrivateKey = 0xA11CE;
+    address public alice;
+    address public bob = address(0x3);
+
+    uint256 public constant ALICE_AMOUNT = 1000e18;
+    uint256 public constant BOB_AMOUNT = 2500e18;
+
+    bytes32 public aliceLeaf;
+    bytes32 public bobLeaf;
+
+    function setUp() public {
+        alice = vm.addr(alicePrivateKey);
+
+        SimpleDAOFactoryV2 factory = new SimpleDAOFactoryV2(
+            address(new SimpleDAOTokenUpgradeable()),
+            address(new SimpleDAOGovernorUpgradeable()),
+            address(new SimpleDAOTimelockUpgradeable())
+        );
+        SimpleDAOFactoryV2.DAOConfig memory config = SimpleDAOFactoryV2.DAOConfig({
+            tokenName: "Test DAO Token",
+            tokenSymbol: "TDT",
+            initialSupply: 1000000e18,
+            votingDelay: 1 days,
+            votingPeriod: 1 weeks,
+            proposalThreshold: 1000e18,
+            quorumPercentage: 4,
+            timelockDelay: 2 days
+        });
+
+        vm.prank(deployer);
+        (address tokenAddress, , address timelockAddress) = factory.deployDAO(config, deployer);
+        token = SimpleDAOTokenUpgradeable(tokenAddress);
+        timelock = timelockAddress;
+
+        // Two-leaf tree: the root is the sorted hash of both leaves and each proof is the other leaf
+        aliceLeaf = _leaf(0, alice, ALICE_AMOUNT);
+        bobLeaf = _leaf(1, bob, BOB_AMOUNT);
+        bytes32 root = aliceLeaf < bobLeaf
+            ? keccak256(abi.encode(aliceLeaf, bobLeaf))
+            : keccak256(abi.encode(bobLeaf, aliceLeaf));
+
+        distributor = new SimpleDAOMerkleDistributor(address(token), root, block.timestamp + 30 days, timelock);
+
+        vm.prank(deployer);
+        token.transfer(address(distributor), ALICE_AMOUNT + BOB_AMOUNT);
+    }
+
+    function _leaf(uint256 index, address account, uint256 amount) internal pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(index, account, amount))));
+    }
+
+    function _proof(bytes32 sibling) internal pure returns (bytes32[] memory proof) {
+        proof = new bytes32[](1);
+        proof[0] = sibling;
+    }
+
+    function testClaim() public {
+        // Anyone can submit, tokens go to the account in the leaf
+        vm.prank(bob);
+        distributor.claim(0, alice, ALICE_AMOUNT, _proof(bobLeaf));
+
+        assertEq(token.balanceOf(alice), ALICE_AMOUNT);
+        assertTrue(distributor.isClaimed(0));
+        assertFalse(distributor.isClaimed(1));
+    }
+
+    function testCannotClaimTwice() public {
+        distributor.claim(1, bob, BOB_AMOUNT, _proof(aliceLeaf));
+
+        vm.expectRevert("Already claimed");
+        distributor.claim(1, bob, BOB_AMOUNT, _proof(aliceLeaf));
+    }
+
+    function testRejectsInvalidProof() public {
+        vm.expectRevert("Invalid proof");
+        distributor.claim(0, alice, BOB_AMOUNT, _proof(bobLeaf));
+
+        vm.expectRevert("Invalid proof");
+        distributor.claim(0, bob, ALICE_AMOUNT, _proof(bobLeaf));
+    }
+
+    function testClaimAndDelegate() public {
+        uint256 nonce = token.nonces(alice);
+        uint256 expiry = block.timestamp + 1 hours;
+        bytes32 structHash = keccak256(
+            abi.encode(keccak256("Delegation(address delegatee,uint256 nonce,uint256 expiry)"), alice, nonce, expiry)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(alicePrivateKey, digest);
+
+        vm.prank(alice);
+        distributor.claimAndDelegate(0, alice, ALICE_AMOUNT, _proof(bobLeaf), alice, nonce, expiry, v, r, s);
+
+        assertEq(token.delegates(alice), alice);
+        assertEq(token.getVotes(alice), ALICE_AMOUNT);
+    }
+
+    function testClaimClosesAtDeadline() public {
+        vm.warp(distributor.claimDeadline() + 1);
+
+        vm.expectRevert("Claim period has ended");
+        distributor.claim(0, alice, ALICE_AMOUNT, _proof(bobLeaf));
+    }
+
+    function testSweepToTreasuryAfterDeadline() public {
+        distributor.claim(0, alice, ALICE_AMOUNT, _proof(bobLeaf));
+
+        vm.expectRevert("Claim period still open");
+        distributor.sweep();
+
+        vm.warp(distributor.claimDeadline() + 1);
+        distributor.sweep();
+
+        assertEq(token.balanceOf(timelock), BOB_AMOUNT);
+        assertEq(token.balanceOf(address(distributor)), 0);
+    }
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams, useSearchParams } from 'next/navigation'
+import { Address, isAddress } from 'viem'
+import { useReadContract } from 'wagmi'
+import { useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { AirdropClaimPanel } from '@/components/dao/AirdropClaimPanel'
+import { useAllDAOs } from '@/hooks/contracts/useFactory'
+import { GOVERNOR_ABI } from '@/lib/contracts'
+
+export default function DAOClaimPage() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const { daos } = useAllDAOs()
+
+  const addressParamRaw = (params?.address as string | string[] | undefined) ?? ''
+  const address = (Array.isArray(addressParamRaw) ? addressParamRaw[0] : addressParamRaw)?.trim()
+  const isValid = Boolean(address) && isAddress(address)
+
+  const dao = useMemo(() => {
+    if (!isValid) return undefined
+    const needle = address.toLowerCase()
+    return daos.find(d =>
+      d.governor.toLowerCase() === needle ||
+      d.token.toLowerCase() === needle ||
+      d.timelock.toLowerCase() === needle
+    )
+  }, [address, daos, isValid])
+
+  // DAOs outside the factory are opened from their governor, which knows its token
+  const { data: governorToken } = useReadContract({
+    address: isValid ? (address as Address) : undefined,
+    abi: GOVERNOR_ABI,
+    functionName: 'token',
+    query: {
+      enabled: isValid && !dao,
+    },
+  })
+
+  if (!isValid) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20">
+        <div className="mx-auto max-w-4xl px-4 py-16 sm:px-6 lg:px-8">
+          <EmptyState
+            title="Invalid address"
+            description="This page expects a contract address in the URL."
+            action={{
+              label: 'Back to Explore',
+              onClick: () => { window.location.href = '/explore' }
+            }}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20">
+      <div className="mx-auto max-w-4xl px-4 py-16 sm:px-6 lg:px-8">
+        <div className="mb-10 text-center">
+          <h1 className="font-brand text-4xl font-bold tracking-tight sm:text-5xl mb-tally-4">
+            Claim {dao?.name ? `${dao.name} ` : ''}tokens
+          </h1>
+          <p className="text-lg leading-8 text-muted-foreground max-w-2xl mx-auto">
+            Check whether you are part of the airdrop and claim your tokens, delegating their votes in the same step.
+          </p>
+        </div>
+
+        <AirdropClaimPanel
+          token={dao?.token ?? governorToken}
+          initialProofsUrl={searchParams?.get('proofs') ?? undefined}
+          initialDistributor={searchParams?.get('distributor') ?? undefined}
+        />
+
+        <div className="mt-6 flex justify-center">
+          <Button variant="secondary" className="rounded-tally-button" asChild>
+            <Link href={`/dao/${address}`}>Back to DAO</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,14 +2,21 @@
 
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
-import { isAddress } from 'viem'
-import { useChainId } from 'wagmi'
+import { Address, isAddress } from 'viem'
+import { useChainId, useReadContract } from 'wagmi'
 import { useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { EmptyState } from '@/components/ui/empty-state'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { DAOAuditPanel } from '@/components/dao/DAOAuditPanel'
+import { DelegatesLeaderboard } from '@/components/dao/DelegatesLeaderboard'
+import { DelegationPanel } from '@/components/dao/DelegationPanel'
+import { TreasuryTab } from '@/components/dao/TreasuryTab'
+import { ProposalsTab } from '@/components/dao/ProposalsTab'
 import { useToast } from '@/hooks/use-toast'
 import { useAllDAOs } from '@/hooks/contracts/useFactory'
+import { GOVERNOR_ABI } from '@/lib/contracts'
 import { chains } from '@/lib/wagmi'
 
 function formatAddress(address: string): string {
@@ -44,6 +51,26 @@ export default function DAODetailPage() {
     )
   }, [address, daos, isValid])
 
+  // DAOs outside the factory are opened from their governor, which knows its token
+  const { data: governorToken } = useReadContract({
+    address: isValid ? (address as Address) : undefined,
+    abi: GOVERNOR_ABI,
+    functionName: 'token',
+    query: {
+      enabled: isValid && !dao,
+    },
+  })
+  const { data: governorTimelock } = useReadContract({
+    address: isValid ? (address as Address) : undefined,
+    abi: GOVERNOR_ABI,
+    functionName: 'timelock',
+    query: {
+      enabled: isValid && !dao,
+    },
+  })
+  const token = dao?.token ?? governorToken
+  const timelock = dao?.timelock ?? governorTimelock
+
   const explorerUrl = useMemo(() => {
     if (!isValid) return undefined
     return getBlockExplorerUrl(chainId, address)
@@ -80,75 +107,118 @@ export default function DAODetailPage() {
           </p>
         </div>
 
-        <div className="grid grid-cols-1 gap-6">
-          <Card className="rounded-tally-container border-tally-gray-3">
-            <CardHeader>
-              <CardTitle>Contract</CardTitle>
-              <CardDescription className="font-mono">
-                {address}
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-              <div className="flex flex-col gap-2 sm:flex-row">
-                <Button
-                  type="button"
-                  className="rounded-tally-button"
-                  onClick={async () => {
-                    try {
-                      await navigator.clipboard.writeText(address)
-                      toast({ title: 'Copied', description: 'Address copied to clipboard.' } as any)
-                    } catch {
-                      toast({ title: 'Copy failed', description: 'Unable to copy to clipboard.', variant: 'destructive' } as any)
-                    }
-                  }}
-                >
-                  Copy address
-                </Button>
-                {explorerUrl && (
-                  <Button variant="outline" className="rounded-tally-button" asChild>
-                    <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
-                      View on explorer
-                    </a>
-                  </Button>
-                )}
-              </div>
+        <Tabs defaultValue="overview" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="proposals">Proposals</TabsTrigger>
+            <TabsTrigger value="delegation">Delegation</TabsTrigger>
+            <TabsTrigger value="treasury">Treasury</TabsTrigger>
+          </TabsList>
 
-              <Button variant="secondary" className="rounded-tally-button" asChild>
-                <Link href="/explore">Back to Explore</Link>
-              </Button>
-            </CardContent>
-          </Card>
-
-          {dao && (
+          <TabsContent value="overview" className="grid grid-cols-1 gap-6">
             <Card className="rounded-tally-container border-tally-gray-3">
               <CardHeader>
-                <CardTitle>{dao.name}</CardTitle>
-                <CardDescription>Deployed DAO metadata from the factory event.</CardDescription>
+                <CardTitle>Contract</CardTitle>
+                <CardDescription className="font-mono">
+                  {address}
+                </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-3 text-sm">
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Token</span>
-                  <span className="font-mono">{dao.token}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Governor</span>
-                  <span className="font-mono">{dao.governor}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Timelock</span>
-                  <span className="font-mono">{dao.timelock}</span>
+              <CardContent className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <Button
+                    type="button"
+                    className="rounded-tally-button"
+                    onClick={async () => {
+                      try {
+                        await navigator.clipboard.writeText(address)
+                        toast({ title: 'Copied', description: 'Address copied to clipboard.' } as any)
+                      } catch {
+                        toast({ title: 'Copy failed', description: 'Unable to copy to clipboard.', variant: 'destructive' } as any)
+                      }
+                    }}
+                  >
+                    Copy address
+                  </Button>
+                  {explorerUrl && (
+                    <Button variant="outline" className="rounded-tally-button" asChild>
+                      <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
+                        View on explorer
+                      </a>
+                    </Button>
+                  )}
                 </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Deployer</span>
-                  <span className="font-mono">{dao.deployer}</span>
+
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <Button variant="outline" className="rounded-tally-button" asChild>
+                    <Link href={`/dao/${address}/claim`}>Claim airdrop</Link>
+                  </Button>
+                  <Button variant="secondary" className="rounded-tally-button" asChild>
+                    <Link href="/explore">Back to Explore</Link>
+                  </Button>
                 </div>
-                {isLoading && (
-                  <p className="text-xs text-muted-foreground">Loading more details…</p>
-                )}
               </CardContent>
             </Card>
-          )}
-        </div>
+
+            {dao && (
+              <Card className="rounded-tally-container border-tally-gray-3">
+                <CardHeader>
+                  <CardTitle>{dao.name}</CardTitle>
+                  <CardDescription>Deployed DAO metadata from the factory event.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Token</span>
+                    <span className="font-mono">{dao.token}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Governor</span>
+                    <span className="font-mono">{dao.governor}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Timelock</span>
+                    <span className="font-mono">{dao.timelock}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Deployer</span>
+                    <span className="font-mono">{dao.deployer}</span>
+                  </div>
+                  {isLoading && (
+                    <p className="text-xs text-muted-foreground">Loading more details…</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <DAOAuditPanel address={address as Address} dao={dao} />
+          </TabsContent>
+
+          <TabsContent value="proposals">
+            <ProposalsTab governor={(dao?.governor ?? address) as Address} dao={dao} />
+          </TabsContent>
+
+          <TabsContent value="delegation" className="grid grid-cols-1 gap-6">
+            {token ? (
+              <>
+                <DelegationPanel token={token} />
+                <DelegatesLeaderboard token={token} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Open this DAO from its governor or factory entry to manage delegation.
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="treasury">
+            {timelock ? (
+              <TreasuryTab timelock={timelock} token={token} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Open this DAO from its governor or factory entry to view the treasury.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   )
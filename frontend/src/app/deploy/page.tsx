@@ -25,8 +25,8 @@ const INITIAL_CONFIG: Partial<DAOConfig> = {
   tokenSymbol: '',
   initialSupply: '',
   initialRecipient: '',
-  votingDelay: 1800, // ~6 hours on Ethereum
-  votingPeriod: 25200, // ~3.5 days on Ethereum  
+  votingDelay: 21600, // 6 hours
+  votingPeriod: 302400, // 3.5 days
   proposalThreshold: '1000',
   quorumPercentage: 10,
   timelockDelay: 86400, // 1 day
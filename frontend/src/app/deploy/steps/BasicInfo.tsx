@@ -1,8 +1,9 @@
 'use client'
 
-import { DAOConfig, ValidationError } from '@/types/deploy';
+import { AllocationRow, DAOConfig, ValidationError } from '@/types/deploy';
 import { validateBasicInfo } from '@/lib/validation/deploy';
 import FormField from '@/components/deploy/FormField';
+import AllocationTable, { createAllocationRow } from '@/components/deploy/AllocationTable';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useState, useEffect, useMemo, useCallback, memo } from 'react';
@@ -34,6 +35,24 @@ function BasicInfo({ config, onUpdate, onValidation }: BasicInfoProps) {
     onUpdate({ [field]: value });
   }, [onUpdate]);
 
+  const isSplit = !!config.allocations?.length;
+
+  // Seed the table with the current recipient and a treasury row, or go back to a single recipient
+  const handleSplitChange = useCallback((split: boolean) => {
+    onUpdate({
+      allocations: split
+        ? [
+            createAllocationRow({ address: config.initialRecipient || '' }),
+            createAllocationRow({ kind: 'treasury' }),
+          ]
+        : undefined,
+    });
+  }, [config.initialRecipient, onUpdate]);
+
+  const handleAllocationsChange = useCallback((allocations: AllocationRow[]) => {
+    onUpdate({ allocations });
+  }, [onUpdate]);
+
   // Test data for development - wrapped in useCallback to prevent re-creation
   const fillTestData = useCallback(() => {
     onUpdate({
@@ -152,21 +171,52 @@ function BasicInfo({ config, onUpdate, onValidation }: BasicInfoProps) {
             </div>
           </FormField>
 
+          {!isSplit && (
+            <FormField
+              label="Initial Recipient"
+              description="Address that will receive all initial tokens"
+              error={getError('initialRecipient')}
+              required
+              tooltip="This address will have full voting power initially. Usually the deployer's address."
+            >
+              <Input
+                className="font-mono text-sm"
+                placeholder="0x1234...5678"
+                value={config.initialRecipient || ''}
+                onChange={(e) => handleInputChange('initialRecipient', e.target.value)}
+              />
+            </FormField>
+          )}
+        </div>
+
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={isSplit}
+            onChange={(e) => handleSplitChange(e.target.checked)}
+            className="mt-1 h-4 w-4 rounded border-input accent-primary"
+          />
+          <span className="text-sm text-foreground">
+            Split the initial supply between several recipients, the DAO treasury and vesting schedules
+          </span>
+        </label>
+
+        {isSplit && (
           <FormField
-            label="Initial Recipient"
-            description="Address that will receive all initial tokens"
-            error={getError('initialRecipient')}
+            label="Token Allocations"
+            description="Rows must add up to the initial supply. Import a CSV or JSON list of address,amount pairs to fill in recipients."
+            error={getError('allocations')}
             required
-            tooltip="This address will have full voting power initially. Usually the deployer's address."
+            tooltip="Treasury tokens go to the timelock. Vesting rows are held in a vesting wallet that releases tokens to the recipient linearly."
           >
-            <Input
-              className="font-mono text-sm"
-              placeholder="0x1234...5678"
-              value={config.initialRecipient || ''}
-              onChange={(e) => handleInputChange('initialRecipient', e.target.value)}
+            <AllocationTable
+              rows={config.allocations || []}
+              initialSupply={config.initialSupply}
+              tokenSymbol={config.tokenSymbol}
+              onChange={handleAllocationsChange}
             />
           </FormField>
-        </div>
+        )}
 
         <div className="bg-primary/10 border border-primary/20 rounded-lg p-4">
           <div className="flex">
@@ -177,7 +227,7 @@ function BasicInfo({ config, onUpdate, onValidation }: BasicInfoProps) {
               <h4 className="text-sm font-medium text-foreground mb-1">Important Notes</h4>
               <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
                 <li>DAO name and token symbol cannot be changed after deployment</li>
-                <li>The initial recipient will have full voting power until tokens are distributed</li>
+                <li>Recipients hold voting power as soon as the DAO is deployed; vesting tokens count only once released</li>
                 <li>Consider distributing tokens to multiple addresses for better decentralization</li>
               </ul>
             </div>
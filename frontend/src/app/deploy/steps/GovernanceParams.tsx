@@ -1,8 +1,12 @@
 'use client'
 
 import { DAOConfig, ValidationError, GOVERNANCE_PRESETS, PresetId, SUPPORTED_NETWORKS } from '@/types/deploy';
-import { validateGovernanceParams, formatTime, formatTimeFromSeconds } from '@/lib/validation/deploy';
+import { validateGovernanceParams, formatTimeFromSeconds } from '@/lib/validation/deploy';
+import { clockUnitsToSeconds, formatClockUnits, getGovernanceTimingWarnings, secondsToClockUnits } from '@/lib/contracts/clock';
+import { useDeployment } from '@/contexts/DeploymentContext';
 import FormField from '@/components/deploy/FormField';
+import DurationInput from '@/components/deploy/DurationInput';
+import GovernanceSimulator from '@/components/deploy/GovernanceSimulator';
 import { Input } from '@/components/ui/input';
 import { useState, useEffect, useMemo, useCallback, memo } from 'react';
 
@@ -15,13 +19,27 @@ interface GovernanceParamsProps {
 function GovernanceParams({ config, onUpdate, onValidation }: GovernanceParamsProps) {
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [selectedPreset, setSelectedPreset] = useState<PresetId | 'custom'>('custom');
+  const { governanceClock } = useDeployment();
 
-  // Memoize network lookup and blockTime
   const currentNetwork = useMemo(() =>
     SUPPORTED_NETWORKS.find(n => n.id === config.network) || SUPPORTED_NETWORKS[0],
     [config.network]
   );
-  const blockTime = currentNetwork.blockTime;
+
+  // What the governor will actually enforce once durations are rounded to its clock
+  const effectiveSeconds = useCallback((seconds: number) =>
+    clockUnitsToSeconds(secondsToClockUnits(seconds, governanceClock), governanceClock),
+    [governanceClock]
+  );
+
+  const timingWarnings = useMemo(() =>
+    getGovernanceTimingWarnings(config.votingDelay, config.votingPeriod, governanceClock, currentNetwork),
+    [config.votingDelay, config.votingPeriod, governanceClock, currentNetwork]
+  );
+
+  const clockDescription = governanceClock.mode === 'timestamp'
+    ? 'The token counts voting time in seconds, so these durations hold on every network.'
+    : `The token counts voting time in blocks; durations are converted at ${governanceClock.secondsPerUnit.toFixed(2)}s per block on ${currentNetwork.name}${governanceClock.source === 'measured' ? ' (measured)' : ''}.`;
 
   // Memoize validation results
   const validationErrors = useMemo(() => {
@@ -117,22 +135,15 @@ function GovernanceParams({ config, onUpdate, onValidation }: GovernanceParamsPr
             required
             tooltip="Gives community time to review proposals before voting begins"
           >
-            <div className="relative">
-              <Input
-                type="number"
-                className="pr-16"
-                placeholder="1800"
-                value={config.votingDelay ?? ''}
-                onChange={(e) => handleInputChange('votingDelay', parseInt(e.target.value) || 0)}
-                min="1"
-              />
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 text-muted-foreground text-sm">
-                blocks
-              </div>
-            </div>
-            {typeof config.votingDelay === 'number' && (
+            <DurationInput
+              aria-label="Voting delay"
+              placeholder="6"
+              value={config.votingDelay}
+              onChange={(seconds) => handleInputChange('votingDelay', seconds)}
+            />
+            {typeof config.votingDelay === 'number' && config.votingDelay > 0 && (
               <div className="text-xs text-muted-foreground mt-1">
-                {formatTime(config.votingDelay, blockTime)}
+                {formatClockUnits(secondsToClockUnits(config.votingDelay, governanceClock), governanceClock)} on-chain
               </div>
             )}
           </FormField>
@@ -144,27 +155,32 @@ function GovernanceParams({ config, onUpdate, onValidation }: GovernanceParamsPr
             required
             tooltip="Duration for community members to cast their votes"
           >
-            <div className="relative">
-              <Input
-                type="number"
-                className="pr-16"
-                placeholder="25200"
-                value={config.votingPeriod ?? ''}
-                onChange={(e) => handleInputChange('votingPeriod', parseInt(e.target.value) || 0)}
-                min="1"
-              />
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 text-muted-foreground text-sm">
-                blocks
-              </div>
-            </div>
-            {typeof config.votingPeriod === 'number' && (
+            <DurationInput
+              aria-label="Voting period"
+              placeholder="3.5"
+              value={config.votingPeriod}
+              onChange={(seconds) => handleInputChange('votingPeriod', seconds)}
+            />
+            {typeof config.votingPeriod === 'number' && config.votingPeriod > 0 && (
               <div className="text-xs text-muted-foreground mt-1">
-                {formatTime(config.votingPeriod, blockTime)}
+                {formatClockUnits(secondsToClockUnits(config.votingPeriod, governanceClock), governanceClock)} on-chain
               </div>
             )}
           </FormField>
         </div>
 
+        <p className="text-xs text-muted-foreground">{clockDescription}</p>
+
+        {timingWarnings.length > 0 && (
+          <div className="bg-tally-orange-1 border border-tally-orange-3 rounded-lg p-4">
+            <ul className="text-sm text-tally-orange-8 space-y-1 list-disc list-inside">
+              {timingWarnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <FormField
             label="Proposal Threshold"
@@ -231,19 +247,12 @@ function GovernanceParams({ config, onUpdate, onValidation }: GovernanceParamsPr
           required
           tooltip="Security feature that allows time to respond to malicious proposals"
         >
-        <div className="relative">
-          <Input
-            type="number"
-            className="pr-20"
-            placeholder="86400"
-            value={config.timelockDelay ?? ''}
-            onChange={(e) => handleInputChange('timelockDelay', parseInt(e.target.value) || 0)}
-            min="0"
+          <DurationInput
+            aria-label="Timelock delay"
+            placeholder="1"
+            value={config.timelockDelay}
+            onChange={(seconds) => handleInputChange('timelockDelay', seconds)}
           />
-            <div className="absolute inset-y-0 right-0 flex items-center pr-3 text-muted-foreground text-sm">
-              seconds
-            </div>
-          </div>
           {typeof config.timelockDelay === 'number' && (
             <div className="text-xs text-muted-foreground mt-1">
               {formatTimeFromSeconds(config.timelockDelay)}
@@ -262,14 +271,14 @@ function GovernanceParams({ config, onUpdate, onValidation }: GovernanceParamsPr
             <div className="flex justify-between">
               <span className="text-muted-foreground">2. Voting Begins</span>
               <span className="font-medium">
-                Day {config.votingDelay ? (config.votingDelay * blockTime / 86400).toFixed(1) : '0'}
+                Day {config.votingDelay ? (effectiveSeconds(config.votingDelay) / 86400).toFixed(1) : '0'}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">3. Voting Ends</span>
               <span className="font-medium">
                 Day {(config.votingDelay && config.votingPeriod) 
-                  ? ((config.votingDelay + config.votingPeriod) * blockTime / 86400).toFixed(1) 
+                  ? ((effectiveSeconds(config.votingDelay) + effectiveSeconds(config.votingPeriod)) / 86400).toFixed(1)
                   : '0'}
               </span>
             </div>
@@ -277,13 +286,15 @@ function GovernanceParams({ config, onUpdate, onValidation }: GovernanceParamsPr
               <span className="text-muted-foreground">4. Execution Available</span>
               <span className="font-medium">
                 Day {(config.votingDelay && config.votingPeriod && config.timelockDelay) 
-                  ? (((config.votingDelay + config.votingPeriod) * blockTime + config.timelockDelay) / 86400).toFixed(1)
+                  ? ((effectiveSeconds(config.votingDelay) + effectiveSeconds(config.votingPeriod) + config.timelockDelay) / 86400).toFixed(1)
                   : '0'}
               </span>
             </div>
           </div>
         </div>
 
+        <GovernanceSimulator config={config} clock={governanceClock} />
+
         <div className="bg-tally-orange-1 border border-tally-orange-3 rounded-lg p-4">
           <div className="flex">
             <svg className="w-5 h-5 text-tally-orange-7 mt-0.5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1,20 +1,37 @@
 'use client'
 
 import { DAOConfig, ValidationError, SUPPORTED_NETWORKS } from '@/types/deploy';
-import { validateComplete, formatTime, formatTimeFromSeconds } from '@/lib/validation/deploy';
+import { validateComplete, formatTimeFromSeconds } from '@/lib/validation/deploy';
 import { useMemo, useState, useEffect } from 'react';
 import { useAccount, useChainId, usePublicClient, useSwitchChain } from 'wagmi';
-import { Address, formatEther, formatGwei, getAddress, isAddress, parseUnits } from 'viem';
+import { Address, Hex, encodeFunctionData, formatEther, formatGwei, getAddress, isAddress, parseUnits } from 'viem';
 import { useToast } from '@/hooks/use-toast';
 import { useDeployment } from '@/contexts/DeploymentContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FACTORY_ABI } from '@/lib/contracts/abis';
+import { L1FeeEstimate, estimateL1DataFee, getFeeBreakdown } from '@/lib/contracts/l1-fees';
+import { toContractAllocations } from '@/lib/contracts/allocations';
+import { clockUnitsToSeconds, formatClockUnits, getGovernanceTimingWarnings, secondsToClockUnits } from '@/lib/contracts/clock';
+import { DAOConfig as ContractDAOConfig, TokenAllocation } from '@/lib/contracts/types';
 
 interface ReviewDeployProps {
   onValidation: (errors: ValidationError[]) => void;
 }
 
+// Encoded deployDAO call, picking the overload from the distribution type
+function encodeDeployDAO(contractConfig: ContractDAOConfig, distribution: Address | TokenAllocation[]): Hex {
+  return Array.isArray(distribution)
+    ? encodeFunctionData({ abi: FACTORY_ABI, functionName: 'deployDAO', args: [contractConfig, distribution] })
+    : encodeFunctionData({ abi: FACTORY_ABI, functionName: 'deployDAO', args: [contractConfig, distribution] });
+}
+
+// Share of the supply with two decimals, computed in basis points to stay exact
+function formatShare(amount: bigint, supplyWei: bigint): string {
+  const bps = (amount * BigInt(10000)) / supplyWei;
+  return `${(Number(bps) / 100).toFixed(2)}%`;
+}
+
 export default function ReviewDeploy({
   onValidation,
 }: ReviewDeployProps) {
@@ -27,6 +44,7 @@ export default function ReviewDeploy({
     isDeploying,
     deployError,
     deployErrorDetails,
+    governanceClock,
   } = useDeployment();
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [tosAccepted, setTosAccepted] = useState(false);
@@ -35,6 +53,16 @@ export default function ReviewDeploy({
 
   const selectedNetwork = SUPPORTED_NETWORKS.find(n => n.id === config.network);
 
+  // Durations as the governor will count them on the selected network
+  const votingDelayUnits = secondsToClockUnits(config.votingDelay ?? 0, governanceClock);
+  const votingPeriodUnits = secondsToClockUnits(config.votingPeriod ?? 0, governanceClock);
+  const timingWarnings = useMemo(() =>
+    selectedNetwork
+      ? getGovernanceTimingWarnings(config.votingDelay, config.votingPeriod, governanceClock, selectedNetwork)
+      : [],
+    [config.votingDelay, config.votingPeriod, governanceClock, selectedNetwork]
+  );
+
   // Get current account
   const { address: account } = useAccount();
   const walletChainId = useChainId();
@@ -50,6 +78,29 @@ export default function ReviewDeploy({
     return getAddress(config.initialRecipient as `0x${string}`);
   }, [config.initialRecipient]);
 
+  const contractAllocations = useMemo(() => {
+    if (!config.allocations?.length || !config.initialSupply) return null;
+    return toContractAllocations(config.allocations, config.initialSupply);
+  }, [config.allocations, config.initialSupply]);
+
+  const supplyWei = useMemo(() => {
+    try {
+      return parseUnits(config.initialSupply || '0', 18);
+    } catch {
+      return BigInt(0);
+    }
+  }, [config.initialSupply]);
+
+  const distributedTotal = useMemo(
+    () => (contractAllocations ?? []).reduce<bigint>((sum, allocation) => sum + allocation.amount, BigInt(0)),
+    [contractAllocations]
+  );
+
+  // Second deployDAO argument: the allocation table when there is one, otherwise the single recipient
+  const distribution: Address | TokenAllocation[] | null = config.allocations?.length
+    ? contractAllocations
+    : normalizedRecipient;
+
   const contractConfig = useMemo(() => {
     if (
       !config.tokenName ||
@@ -69,8 +120,8 @@ export default function ReviewDeploy({
         tokenName: config.tokenName,
         tokenSymbol: config.tokenSymbol,
         initialSupply: parseUnits(config.initialSupply, 18),
-        votingDelay: BigInt(config.votingDelay),
-        votingPeriod: BigInt(config.votingPeriod),
+        votingDelay: BigInt(secondsToClockUnits(config.votingDelay, governanceClock)),
+        votingPeriod: BigInt(secondsToClockUnits(config.votingPeriod, governanceClock)),
         proposalThreshold: parseUnits(config.proposalThreshold, 18),
         quorumPercentage: BigInt(config.quorumPercentage),
         timelockDelay: BigInt(config.timelockDelay),
@@ -87,11 +138,15 @@ export default function ReviewDeploy({
     config.tokenSymbol,
     config.votingDelay,
     config.votingPeriod,
+    governanceClock,
   ]);
 
   const [feeEstimate, setFeeEstimate] = useState<{
     gas: bigint;
     gasPrice: bigint;
+    l1Fee?: L1FeeEstimate;
+    executionWei: bigint;
+    l1DataWei: bigint;
     maxCostWei: bigint;
   } | null>(null);
   const [feeEstimateError, setFeeEstimateError] = useState<string | null>(null);
@@ -112,25 +167,26 @@ export default function ReviewDeploy({
       if (!publicClient) return;
       if (!factoryAddress) return;
       if (!account) return;
-      if (!normalizedRecipient) return;
+      if (!distribution) return;
       if (!contractConfig) return;
       if (!isWalletOnSelectedNetwork) return;
       if (errors.length > 0) return;
 
       try {
+        const data = encodeDeployDAO(contractConfig, distribution);
         const [gas, gasPrice] = await Promise.all([
-          publicClient.estimateContractGas({
-            address: factoryAddress,
-            abi: FACTORY_ABI,
-            functionName: 'deployDAO',
-            args: [contractConfig, normalizedRecipient as Address],
-            account,
-          }),
+          publicClient.estimateGas({ to: factoryAddress, data, account }),
           publicClient.getGasPrice(),
         ]);
 
+        // Rollups also charge for posting the transaction data to L1
+        const l1Fee = selectedChainId
+          ? await estimateL1DataFee(publicClient, selectedChainId, { to: factoryAddress, data, gas, gasPrice, account }).catch(() => undefined)
+          : undefined;
+
         if (cancelled) return;
-        setFeeEstimate({ gas, gasPrice, maxCostWei: gas * gasPrice });
+        const { executionWei, l1DataWei, totalWei } = getFeeBreakdown(gas, gasPrice, l1Fee);
+        setFeeEstimate({ gas, gasPrice, l1Fee, executionWei, l1DataWei, maxCostWei: totalWei });
       } catch (e) {
         if (cancelled) return;
         const message = e instanceof Error ? e.message : 'Failed to estimate network fee';
@@ -142,7 +198,7 @@ export default function ReviewDeploy({
     return () => {
       cancelled = true;
     };
-  }, [account, contractConfig, errors.length, factoryAddress, isWalletOnSelectedNetwork, normalizedRecipient, publicClient]);
+  }, [account, contractConfig, distribution, errors.length, factoryAddress, isWalletOnSelectedNetwork, publicClient, selectedChainId]);
 
   // Show toast notification when deployment fails
   useEffect(() => {
@@ -211,11 +267,13 @@ export default function ReviewDeploy({
       return;
     }
 
-    // Validate and normalize recipient address
-    if (!normalizedRecipient) {
+    // Validate and normalize recipient address or allocations
+    if (!distribution) {
       toast({
-        title: 'Invalid recipient address',
-        description: 'Please enter a valid Ethereum address for the initial recipient.',
+        title: config.allocations?.length ? 'Invalid allocations' : 'Invalid recipient address',
+        description: config.allocations?.length
+          ? 'Please complete every allocation row before deploying.'
+          : 'Please enter a valid Ethereum address for the initial recipient.',
         variant: 'destructive',
       } as any);
       return;
@@ -231,7 +289,7 @@ export default function ReviewDeploy({
 
     try {
       // Start the deployment - this should trigger the wallet
-      deployDAO(contractConfig, normalizedRecipient as Address);
+      deployDAO(contractConfig, distribution);
     } catch (err) {
       // Deployment failed synchronously
     }
@@ -289,16 +347,81 @@ export default function ReviewDeploy({
                     {config.initialSupply ? parseFloat(config.initialSupply).toLocaleString() : '0'} {config.tokenSymbol}
                   </dd>
                 </div>
-                <div>
-                  <dt className="text-sm font-medium text-muted-foreground">Initial Recipient</dt>
-                  <dd className="text-sm font-mono text-foreground">
-                    {config.initialRecipient ? `${config.initialRecipient.slice(0, 6)}...${config.initialRecipient.slice(-4)}` : 'Not set'}
-                  </dd>
-                </div>
+                {!config.allocations?.length && (
+                  <div>
+                    <dt className="text-sm font-medium text-muted-foreground">Initial Recipient</dt>
+                    <dd className="text-sm font-mono text-foreground">
+                      {config.initialRecipient ? `${config.initialRecipient.slice(0, 6)}...${config.initialRecipient.slice(-4)}` : 'Not set'}
+                    </dd>
+                  </div>
+                )}
               </div>
+
             </CardContent>
           </Card>
 
+          {!!config.allocations?.length && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle>Token Distribution</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-muted-foreground">
+                      <tr>
+                        <th className="pb-2 font-medium">Recipient</th>
+                        <th className="pb-2 font-medium text-right">Amount</th>
+                        <th className="pb-2 font-medium text-right">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {config.allocations.map((row, index) => {
+                        const amount = contractAllocations?.[index].amount;
+                        return (
+                          <tr key={row.id} className="border-t border-border align-top">
+                            <td className="py-2 pr-4">
+                              <span className={row.kind === 'treasury' ? 'text-foreground' : 'font-mono text-foreground'}>
+                                {row.kind === 'treasury'
+                                  ? 'DAO treasury'
+                                  : row.address ? `${row.address.slice(0, 6)}...${row.address.slice(-4)}` : `Row ${index + 1}`}
+                              </span>
+                              {row.vesting && (
+                                <span className="block text-xs text-muted-foreground">
+                                  Vests over {row.vesting.durationDays} days from {row.vesting.startDate}
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 text-right font-medium">
+                              {amount !== undefined ? parseFloat(formatEther(amount)).toLocaleString() : row.amount}{' '}
+                              {amount !== undefined || row.unit === 'tokens' ? config.tokenSymbol : '%'}
+                            </td>
+                            <td className="py-2 text-right text-muted-foreground">
+                              {amount !== undefined && supplyWei > BigInt(0) ? formatShare(amount, supplyWei) : '—'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                    {contractAllocations && (
+                      <tfoot>
+                        <tr className="border-t border-border font-semibold">
+                          <td className="pt-2">{config.allocations.length} allocations</td>
+                          <td className="pt-2 text-right">
+                            {parseFloat(formatEther(distributedTotal)).toLocaleString()} {config.tokenSymbol}
+                          </td>
+                          <td className="pt-2 text-right">
+                            {supplyWei > BigInt(0) ? formatShare(distributedTotal, supplyWei) : '—'}
+                          </td>
+                        </tr>
+                      </tfoot>
+                    )}
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader className="pb-3">
               <CardTitle>Governance Parameters</CardTitle>
@@ -308,14 +431,14 @@ export default function ReviewDeploy({
               <div className="flex justify-between">
                 <span className="text-sm text-muted-foreground">Voting Delay</span>
                 <span className="text-sm font-medium">
-                  {config.votingDelay ?? 0} blocks ({formatTime(config.votingDelay ?? 0, selectedNetwork?.blockTime)})
+                  {formatTimeFromSeconds(clockUnitsToSeconds(votingDelayUnits, governanceClock))} ({formatClockUnits(votingDelayUnits, governanceClock)})
                 </span>
               </div>
 
               <div className="flex justify-between">
                 <span className="text-sm text-muted-foreground">Voting Period</span>
                 <span className="text-sm font-medium">
-                  {config.votingPeriod ?? 0} blocks ({formatTime(config.votingPeriod ?? 0, selectedNetwork?.blockTime)})
+                  {formatTimeFromSeconds(clockUnitsToSeconds(votingPeriodUnits, governanceClock))} ({formatClockUnits(votingPeriodUnits, governanceClock)})
                 </span>
               </div>
 
@@ -339,6 +462,10 @@ export default function ReviewDeploy({
                   {config.timelockDelay ?? 0}s ({formatTimeFromSeconds(config.timelockDelay ?? 0)})
                 </span>
               </div>
+
+              {timingWarnings.map(warning => (
+                <p key={warning} className="text-xs text-yellow-600">{warning}</p>
+              ))}
             </CardContent>
           </Card>
 
@@ -377,6 +504,20 @@ export default function ReviewDeploy({
                     <span className="text-muted-foreground">Gas price</span>
                     <span className="font-medium">{formatGwei(feeEstimate.gasPrice)} gwei</span>
                   </div>
+                  {feeEstimate.l1Fee && (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">L2 execution</span>
+                        <span className="font-medium">{formatEther(feeEstimate.executionWei)} {selectedNetwork?.currency}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          L1 data fee{feeEstimate.l1Fee.includedInGasEstimate ? ' (paid as L2 gas)' : ''}
+                        </span>
+                        <span className="font-medium">{formatEther(feeEstimate.l1DataWei)} {selectedNetwork?.currency}</span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between text-sm border-t pt-2">
                     <span className="text-foreground font-medium">Max cost</span>
                     <span className="font-semibold">
@@ -417,7 +558,7 @@ export default function ReviewDeploy({
                 <div>
                   <div className="text-sm font-medium">Voting Begins</div>
                   <div className="text-xs text-muted-foreground">
-                    After {formatTime(config.votingDelay ?? 0, selectedNetwork?.blockTime)}
+                    After {formatTimeFromSeconds(clockUnitsToSeconds(votingDelayUnits, governanceClock))}
                   </div>
                 </div>
               </div>
@@ -427,7 +568,7 @@ export default function ReviewDeploy({
                 <div>
                   <div className="text-sm font-medium">Voting Ends</div>
                   <div className="text-xs text-muted-foreground">
-                    After {formatTime((config.votingDelay ?? 0) + (config.votingPeriod ?? 0), selectedNetwork?.blockTime)}
+                    After {formatTimeFromSeconds(clockUnitsToSeconds(votingDelayUnits + votingPeriodUnits, governanceClock))}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,263 @@
+'use client'
+
+import { ChangeEvent, useCallback, useEffect, useMemo, useState } from 'react'
+import { Address, formatUnits, isAddress } from 'viem'
+import { useAccount } from 'wagmi'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { useAirdrop } from '@/hooks/contracts/useAirdrop'
+import { useDelegation } from '@/hooks/contracts/useDelegation'
+import { AirdropProofs, findAirdropClaim, parseAirdropProofs } from '@/lib/contracts/airdrop'
+
+interface AirdropClaimPanelProps {
+  token?: Address
+  initialProofsUrl?: string
+  initialDistributor?: string
+}
+
+export function AirdropClaimPanel({ token, initialProofsUrl, initialDistributor }: AirdropClaimPanelProps) {
+  const { toast } = useToast()
+  const [proofsUrl, setProofsUrl] = useState(initialProofsUrl ?? '')
+  const [proofs, setProofs] = useState<AirdropProofs>()
+  const [loadError, setLoadError] = useState<string>()
+  const [isLoadingProofs, setIsLoadingProofs] = useState(false)
+  const [distributorInput, setDistributorInput] = useState(initialDistributor ?? '')
+  const [checkAddress, setCheckAddress] = useState('')
+  const [autoDelegate, setAutoDelegate] = useState(true)
+  const [delegatee, setDelegatee] = useState('')
+
+  const loadProofs = useCallback((json: string) => {
+    try {
+      const parsed = parseAirdropProofs(json)
+      setProofs(parsed)
+      setLoadError(undefined)
+      if (parsed.distributorAddress) setDistributorInput(current => current || parsed.distributorAddress!)
+    } catch (err) {
+      setProofs(undefined)
+      setLoadError(err instanceof Error ? err.message : 'Invalid proofs file')
+    }
+  }, [])
+
+  const fetchProofs = useCallback(async (url: string) => {
+    setIsLoadingProofs(true)
+    try {
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`Request failed with status ${response.status}`)
+      loadProofs(await response.text())
+    } catch (err) {
+      setProofs(undefined)
+      setLoadError(err instanceof Error ? err.message : 'Unable to load the proofs file')
+    } finally {
+      setIsLoadingProofs(false)
+    }
+  }, [loadProofs])
+
+  // Links from the airdrop announcement carry the proofs URL
+  useEffect(() => {
+    if (initialProofsUrl) fetchProofs(initialProofsUrl)
+  }, [initialProofsUrl, fetchProofs])
+
+  const handleFile = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) loadProofs(await file.text())
+  }, [loadProofs])
+
+  const { address: account } = useAccount()
+  const distributor = isAddress(distributorInput.trim()) ? (distributorInput.trim() as Address) : undefined
+
+  // Check the connected wallet unless another address was typed in
+  const beneficiary = (isAddress(checkAddress.trim()) ? checkAddress.trim() : account) as Address | undefined
+  const claim = useMemo(
+    () => (proofs && beneficiary ? findAirdropClaim(proofs, beneficiary) : undefined),
+    [proofs, beneficiary]
+  )
+  const {
+    token: distributorToken,
+    merkleRoot,
+    claimDeadline,
+    isClaimed,
+    submitClaim,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  } = useAirdrop(distributor, claim)
+  const { signDelegation, isSigning } = useDelegation(distributorToken ?? token)
+
+  const rootMismatch = !!proofs && !!merkleRoot && merkleRoot.toLowerCase() !== proofs.merkleRoot.toLowerCase()
+  const tokenMismatch = !!token && !!distributorToken && token.toLowerCase() !== distributorToken.toLowerCase()
+  const deadlinePassed = !!claimDeadline && claimDeadline > BigInt(0) && BigInt(Math.floor(Date.now() / 1000)) > claimDeadline
+  const claimingForSelf = !!account && !!beneficiary && beneficiary.toLowerCase() === account.toLowerCase()
+  const delegateTo = (isAddress(delegatee.trim()) ? delegatee.trim() : account) as Address | undefined
+
+  const busy = isPending || isConfirming || isSigning
+  const canClaim = !!claim && !!distributor && !!account && !rootMismatch && !deadlinePassed && isClaimed === false && !busy
+
+  const handleClaim = async () => {
+    if (!claim || !beneficiary) return
+    if (autoDelegate && claimingForSelf && delegateTo) {
+      try {
+        submitClaim(beneficiary, await signDelegation(delegateTo))
+      } catch (err) {
+        toast({ title: 'Signing failed', description: err instanceof Error ? err.message : 'Unable to sign', variant: 'destructive' } as any)
+      }
+    } else {
+      submitClaim(beneficiary)
+    }
+  }
+
+  const decimals = proofs?.decimals ?? 18
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <Card className="rounded-tally-container border-tally-gray-3">
+        <CardHeader>
+          <CardTitle>Airdrop</CardTitle>
+          <CardDescription>
+            Load the proofs file published with the airdrop. It lists every eligible address and the proof the claim contract checks.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="space-y-2">
+            <Label htmlFor="proofs-url">Proofs URL</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="proofs-url"
+                value={proofsUrl}
+                onChange={event => setProofsUrl(event.target.value)}
+                placeholder="https://.../airdrop-proofs.json"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                className="rounded-tally-button"
+                disabled={!proofsUrl.trim() || isLoadingProofs}
+                onClick={() => fetchProofs(proofsUrl.trim())}
+              >
+                Load
+              </Button>
+            </div>
+            <Input type="file" accept=".json,application/json" aria-label="Proofs file" onChange={handleFile} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="distributor">Claim contract</Label>
+            <Input
+              id="distributor"
+              value={distributorInput}
+              onChange={event => setDistributorInput(event.target.value)}
+              placeholder="0x..."
+              className="font-mono"
+            />
+          </div>
+
+          {isLoadingProofs && <p className="text-muted-foreground">Loading proofs…</p>}
+          {loadError && <p className="text-destructive">{loadError}</p>}
+          {proofs && (
+            <p className="text-muted-foreground">
+              {proofs.claims.size.toLocaleString()} eligible addresses sharing{' '}
+              {parseFloat(formatUnits(proofs.total, decimals)).toLocaleString()} tokens.
+            </p>
+          )}
+          {rootMismatch && (
+            <p className="text-destructive">This proofs file was built for a different Merkle root than the claim contract uses.</p>
+          )}
+          {tokenMismatch && (
+            <p className="text-yellow-600">This claim contract distributes a different token than this DAO&apos;s.</p>
+          )}
+          {claimDeadline !== undefined && claimDeadline > BigInt(0) && (
+            <p className={deadlinePassed ? 'text-destructive' : 'text-muted-foreground'}>
+              {deadlinePassed ? 'Claims closed on ' : 'Claims close on '}
+              {new Date(Number(claimDeadline) * 1000).toLocaleString()}
+              {deadlinePassed && '. Unclaimed tokens return to the DAO treasury.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {proofs && distributor && (
+        <Card className="rounded-tally-container border-tally-gray-3">
+          <CardHeader>
+            <CardTitle>Your allocation</CardTitle>
+            <CardDescription>
+              {account ? 'Checking the connected wallet unless you enter another address.' : 'Connect a wallet to claim, or enter an address to check.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="space-y-2">
+              <Label htmlFor="check-address">Check another address</Label>
+              <Input
+                id="check-address"
+                value={checkAddress}
+                onChange={event => setCheckAddress(event.target.value)}
+                placeholder={account ?? '0x...'}
+                className="font-mono"
+              />
+            </div>
+
+            {beneficiary && !claim && (
+              <p className="text-muted-foreground">{beneficiary} is not part of this airdrop.</p>
+            )}
+
+            {claim && (
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Amount</span>
+                  <span className="font-semibold">{parseFloat(formatUnits(claim.amount, decimals)).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Status</span>
+                  <span>{isClaimed === undefined ? '…' : isClaimed ? 'Claimed' : 'Not claimed yet'}</span>
+                </div>
+
+                {claimingForSelf && (
+                  <div className="space-y-2">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={autoDelegate}
+                        onChange={event => setAutoDelegate(event.target.checked)}
+                        className="h-4 w-4 rounded border-input accent-primary"
+                      />
+                      <span>Delegate my votes in the same transaction</span>
+                    </label>
+                    {autoDelegate && (
+                      <Input
+                        aria-label="Delegate to"
+                        value={delegatee}
+                        onChange={event => setDelegatee(event.target.value)}
+                        placeholder={`Yourself (${account})`}
+                        className="font-mono"
+                      />
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Tokens carry no voting power until delegated. You sign the delegation, then the claim submits it.
+                    </p>
+                  </div>
+                )}
+
+                <Button type="button" className="rounded-tally-button" disabled={!canClaim} onClick={handleClaim}>
+                  {claimingForSelf ? 'Claim' : 'Claim on their behalf'}
+                </Button>
+              </div>
+            )}
+
+            {busy && (
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {isPending || isSigning ? 'Confirm in your wallet…' : 'Waiting for confirmation…'}
+              </p>
+            )}
+            {isConfirmed && <p className="text-green-600">Tokens claimed.</p>}
+            {error && <p className="text-destructive break-all">{error.message.split('\n')[0]}</p>}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
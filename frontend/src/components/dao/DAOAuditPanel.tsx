@@ -0,0 +1,86 @@
+'use client'
+
+import { Address } from 'viem'
+import { CheckCircle2, AlertTriangle, XCircle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useDAOAudit } from '@/hooks/contracts/useDAOAudit'
+import { AuditStatus } from '@/lib/contracts/audit'
+import { cn } from '@/lib/utils'
+
+interface DAOAuditPanelProps {
+  address: Address
+  dao?: {
+    governor: Address
+    token: Address
+    timelock: Address
+  }
+}
+
+const STATUS_STYLES: Record<AuditStatus, { icon: typeof CheckCircle2; className: string; label: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-green-600', label: 'Pass' },
+  warn: { icon: AlertTriangle, className: 'text-yellow-600', label: 'Warning' },
+  fail: { icon: XCircle, className: 'text-destructive', label: 'Fail' },
+}
+
+export function DAOAuditPanel({ address, dao }: DAOAuditPanelProps) {
+  const { checks, summary, isLoading, error, refetch } = useDAOAudit(address, dao)
+
+  return (
+    <Card className="rounded-tally-container border-tally-gray-3">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Health audit</CardTitle>
+            <CardDescription>
+              Live check of timelock roles, upgrade authorities and token ownership.
+            </CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            className="rounded-tally-button"
+            onClick={() => refetch()}
+            disabled={isLoading}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Re-run'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {error && (
+          <p className="text-destructive">Audit failed: {error.message}</p>
+        )}
+
+        {!error && checks.length > 0 && (
+          <p className="text-muted-foreground">
+            {summary.pass} passed, {summary.warn} warnings, {summary.fail} failed
+          </p>
+        )}
+
+        {isLoading && checks.length === 0 && (
+          <p className="text-xs text-muted-foreground">Reading on-chain state…</p>
+        )}
+
+        <ul className="space-y-3">
+          {checks.map(check => {
+            const style = STATUS_STYLES[check.status]
+            const Icon = style.icon
+            return (
+              <li key={check.id} className="flex gap-3">
+                <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', style.className)} aria-label={style.label} />
+                <div className="space-y-1">
+                  <p className="font-medium">{check.title}</p>
+                  <p className="text-muted-foreground break-all">{check.detail}</p>
+                  {check.remediation && (
+                    <p className="text-xs text-muted-foreground">Fix: {check.remediation}</p>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { Address, formatUnits } from 'viem'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useTopDelegates } from '@/hooks/contracts/useDelegation'
+
+interface DelegatesLeaderboardProps {
+  token: Address
+}
+
+export function DelegatesLeaderboard({ token }: DelegatesLeaderboardProps) {
+  const { delegates, totalSupply, isLoading, error, refetch } = useTopDelegates(token)
+
+  const share = (votes: bigint) => {
+    if (!totalSupply) return undefined
+    return Number((votes * BigInt(10000)) / totalSupply) / 100
+  }
+
+  return (
+    <Card className="rounded-tally-container border-tally-gray-3">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Top delegates</CardTitle>
+            <CardDescription>Ranked by current voting power from DelegateVotesChanged events.</CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            className="rounded-tally-button"
+            onClick={() => refetch()}
+            disabled={isLoading}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Refresh'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {error && <p className="text-destructive">Could not load delegates: {error.message}</p>}
+
+        {!error && !isLoading && delegates.length === 0 && (
+          <p className="text-muted-foreground">Nobody has delegated yet.</p>
+        )}
+
+        <ol className="space-y-2">
+          {delegates.map((entry, index) => (
+            <li key={entry.delegate} className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-3">
+                <span className="w-5 text-muted-foreground">{index + 1}</span>
+                <span className="font-mono">{entry.delegate.slice(0, 6)}...{entry.delegate.slice(-4)}</span>
+              </span>
+              <span>
+                {formatUnits(entry.votes, 18)}
+                {share(entry.votes) !== undefined && (
+                  <span className="text-muted-foreground"> ({share(entry.votes)}%)</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState } from 'react'
+import { Address, Hex, formatUnits, isAddress, zeroAddress } from 'viem'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { SignedDelegation, useDelegation } from '@/hooks/contracts/useDelegation'
+
+interface DelegationPanelProps {
+  token: Address
+}
+
+function serializeDelegation(signed: SignedDelegation): string {
+  return JSON.stringify({
+    ...signed,
+    nonce: signed.nonce.toString(),
+    expiry: signed.expiry.toString(),
+  }, null, 2)
+}
+
+function parseDelegation(json: string): SignedDelegation {
+  const parsed = JSON.parse(json)
+  if (!isAddress(parsed.delegatee) || parsed.nonce === undefined || parsed.expiry === undefined || !parsed.r || !parsed.s) {
+    throw new Error('Expected delegatee, nonce, expiry, v, r and s')
+  }
+  return {
+    delegatee: parsed.delegatee,
+    nonce: BigInt(parsed.nonce),
+    expiry: BigInt(parsed.expiry),
+    v: Number(parsed.v),
+    r: parsed.r as Hex,
+    s: parsed.s as Hex,
+    signature: parsed.signature as Hex,
+  }
+}
+
+export function DelegationPanel({ token }: DelegationPanelProps) {
+  const { toast } = useToast()
+  const {
+    account,
+    balance,
+    currentDelegate,
+    votes,
+    delegate,
+    signDelegation,
+    relayDelegation,
+    isPending,
+    isSigning,
+    isConfirming,
+    error,
+  } = useDelegation(token)
+  const [delegatee, setDelegatee] = useState('')
+  const [signed, setSigned] = useState<string>()
+  const [relayPayload, setRelayPayload] = useState('')
+  const [relayError, setRelayError] = useState<string>()
+
+  const busy = isPending || isConfirming || isSigning
+  const validDelegatee = isAddress(delegatee.trim())
+  const isUndelegated = !currentDelegate || currentDelegate === zeroAddress
+
+  if (!account) {
+    return (
+      <Card className="rounded-tally-container border-tally-gray-3">
+        <CardHeader>
+          <CardTitle>Your voting power</CardTitle>
+          <CardDescription>Connect a wallet to see your balance and delegate.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="rounded-tally-container border-tally-gray-3">
+      <CardHeader>
+        <CardTitle>Your voting power</CardTitle>
+        <CardDescription>
+          Tokens only count as votes once they are delegated, either to yourself or to someone else.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Balance</span>
+            <span>{balance !== undefined ? formatUnits(balance, 18) : '…'}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Delegate</span>
+            <span className="font-mono">{isUndelegated ? 'Not delegated' : currentDelegate}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Votes</span>
+            <span>{votes !== undefined ? formatUnits(votes, 18) : '…'}</span>
+          </div>
+          {isUndelegated && balance !== undefined && balance > BigInt(0) && (
+            <p className="text-yellow-600">Your tokens are not delegated, so they carry no voting power yet.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" className="rounded-tally-button" disabled={busy} onClick={() => delegate(account)}>
+            Delegate to myself
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="delegatee">Delegate to another address</Label>
+          <Input
+            id="delegatee"
+            value={delegatee}
+            onChange={event => setDelegatee(event.target.value)}
+            placeholder="0x..."
+            className="font-mono"
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              disabled={busy || !validDelegatee}
+              onClick={() => delegate(delegatee.trim() as Address)}
+            >
+              Delegate
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              disabled={busy || !validDelegatee}
+              onClick={async () => {
+                try {
+                  setSigned(serializeDelegation(await signDelegation(delegatee.trim() as Address)))
+                } catch (err) {
+                  toast({ title: 'Signing failed', description: err instanceof Error ? err.message : 'Unable to sign', variant: 'destructive' } as any)
+                }
+              }}
+            >
+              Sign gasless delegation
+            </Button>
+          </div>
+        </div>
+
+        {signed && (
+          <div className="space-y-2">
+            <Label>Signed delegation</Label>
+            <p className="text-xs text-muted-foreground">
+              Share this with a relayer. They submit it with delegateBySig and pay the gas.
+            </p>
+            <Textarea readOnly value={signed} className="min-h-[160px] font-mono text-xs" />
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(signed)
+                  toast({ title: 'Copied', description: 'Signed delegation copied to clipboard.' } as any)
+                } catch {
+                  toast({ title: 'Copy failed', description: 'Unable to copy to clipboard.', variant: 'destructive' } as any)
+                }
+              }}
+            >
+              Copy
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="relay-payload">Relay a signed delegation</Label>
+          <Textarea
+            id="relay-payload"
+            value={relayPayload}
+            onChange={event => {
+              setRelayPayload(event.target.value)
+              setRelayError(undefined)
+            }}
+            placeholder='{"delegatee":"0x...","nonce":"0","expiry":"...","v":27,"r":"0x...","s":"0x..."}'
+            className="font-mono text-xs"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="rounded-tally-button"
+            disabled={busy || !relayPayload.trim()}
+            onClick={() => {
+              try {
+                relayDelegation(parseDelegation(relayPayload))
+              } catch (err) {
+                setRelayError(err instanceof Error ? err.message : 'Invalid signed delegation')
+              }
+            }}
+          >
+            Submit delegateBySig
+          </Button>
+          {relayError && <p className="text-xs text-destructive">{relayError}</p>}
+        </div>
+
+        {busy && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {isPending || isSigning ? 'Confirm in your wallet…' : 'Waiting for confirmation…'}
+          </p>
+        )}
+        {error && <p className="text-destructive break-all">{error.message.split('\n')[0]}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import { ReactNode, useEffect, useMemo, useState } from 'react'
+import { Address, Hex, formatEther, formatUnits } from 'viem'
+import { useAccount } from 'wagmi'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import { useGovernorActions, useProposalThreshold } from '@/hooks/contracts/useGovernor'
+import {
+  BuiltProposalAction,
+  PROPOSAL_TEMPLATES,
+  ProposalActionDraft,
+  ProposalTemplateId,
+  buildProposalAction,
+  getFunctionSignature,
+  parseCustomAbi,
+} from '@/lib/contracts/proposal-builder'
+
+interface ProposalBuilderProps {
+  governor: Address
+  dao?: {
+    token: Address
+    timelock: Address
+  }
+  onCancel: () => void
+  onSubmitted: () => void
+}
+
+const DESCRIPTION_TEMPLATE = '# Title\n\nWhat this proposal does and why.\n'
+
+function emptyDraft(template: ProposalTemplateId = 'eth-transfer'): ProposalActionDraft {
+  return { template, params: {} }
+}
+
+function buildAll(drafts: ProposalActionDraft[], dao: { governor: Address; token?: Address; timelock?: Address }) {
+  return drafts.map(draft => {
+    try {
+      return { action: buildProposalAction(draft, dao), error: undefined }
+    } catch (err) {
+      return { action: undefined, error: err instanceof Error ? err.message : 'Invalid action' }
+    }
+  })
+}
+
+// Minimal markdown rendering for headings, bullet lists and paragraphs
+function MarkdownPreview({ source }: { source: string }) {
+  const blocks: ReactNode[] = []
+  let list: string[] = []
+
+  const flushList = () => {
+    if (list.length === 0) return
+    blocks.push(
+      <ul key={`list-${blocks.length}`} className="list-disc space-y-1 pl-5">
+        {list.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    )
+    list = []
+  }
+
+  source.split('\n').forEach(line => {
+    const trimmed = line.trim()
+    const heading = trimmed.match(/^(#{1,3})\s+(.*)$/)
+    const bullet = trimmed.match(/^[-*]\s+(.*)$/)
+
+    if (bullet) {
+      list.push(bullet[1])
+      return
+    }
+    flushList()
+    if (heading) {
+      const size = heading[1].length === 1 ? 'text-lg' : heading[1].length === 2 ? 'text-base' : 'text-sm'
+      blocks.push(<p key={blocks.length} className={`${size} font-semibold`}>{heading[2]}</p>)
+    } else if (trimmed) {
+      blocks.push(<p key={blocks.length}>{trimmed}</p>)
+    }
+  })
+  flushList()
+
+  return <div className="space-y-2 text-sm">{blocks}</div>
+}
+
+interface ActionEditorProps {
+  index: number
+  draft: ProposalActionDraft
+  error?: string
+  onChange: (draft: ProposalActionDraft) => void
+  onRemove?: () => void
+}
+
+function ActionEditor({ index, draft, error, onChange, onRemove }: ActionEditorProps) {
+  const template = PROPOSAL_TEMPLATES.find(entry => entry.id === draft.template) ?? PROPOSAL_TEMPLATES[0]
+  const setParam = (name: string, value: string) => onChange({ ...draft, params: { ...draft.params, [name]: value } })
+
+  const abiFunctions = useMemo(() => {
+    if (draft.template !== 'custom' || !draft.abi?.trim()) return { functions: [], error: undefined }
+    try {
+      return { functions: parseCustomAbi(draft.abi), error: undefined }
+    } catch (err) {
+      return { functions: [], error: err instanceof Error ? err.message : 'Invalid ABI' }
+    }
+  }, [draft.template, draft.abi])
+  const selectedFunction = abiFunctions.functions.find(fn => getFunctionSignature(fn) === draft.functionSignature)
+
+  return (
+    <div className="space-y-4 rounded-md border border-tally-gray-3 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium">Action {index + 1}</h4>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove action ${index + 1}`}>
+            <Trash2 />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Template</Label>
+        <Select value={draft.template} onValueChange={value => onChange(emptyDraft(value as ProposalTemplateId))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROPOSAL_TEMPLATES.map(entry => (
+              <SelectItem key={entry.id} value={entry.id}>{entry.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{template.description}</p>
+      </div>
+
+      {template.fields.map(field => (
+        <div key={field.name} className="space-y-2">
+          <Label htmlFor={`action-${index}-${field.name}`}>
+            {field.label}
+            {!field.optional && <span className="text-destructive ml-1">*</span>}
+          </Label>
+          {field.kind === 'contract' ? (
+            <Select value={draft.params[field.name] || 'governor'} onValueChange={value => setParam(field.name, value)}>
+              <SelectTrigger id={`action-${index}-${field.name}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="governor">Governor</SelectItem>
+                <SelectItem value="token">Token</SelectItem>
+                <SelectItem value="timelock">Timelock</SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              id={`action-${index}-${field.name}`}
+              value={draft.params[field.name] ?? ''}
+              placeholder={field.placeholder}
+              className={field.kind === 'address' || field.kind === 'bytes' ? 'font-mono' : undefined}
+              onChange={event => setParam(field.name, event.target.value)}
+            />
+          )}
+        </div>
+      ))}
+
+      {draft.template === 'custom' && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor={`action-${index}-abi`}>ABI (JSON)</Label>
+            <Textarea
+              id={`action-${index}-abi`}
+              value={draft.abi ?? ''}
+              placeholder='[{"type":"function","name":"setFee","inputs":[{"name":"fee","type":"uint256"}],"outputs":[],"stateMutability":"nonpayable"}]'
+              className="font-mono text-xs"
+              onChange={event => onChange({ ...draft, abi: event.target.value, functionSignature: undefined })}
+            />
+            {abiFunctions.error && <p className="text-xs text-destructive">{abiFunctions.error}</p>}
+          </div>
+
+          {abiFunctions.functions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Function</Label>
+              <Select
+                value={draft.functionSignature}
+                onValueChange={value => onChange({ ...draft, functionSignature: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a function" />
+                </SelectTrigger>
+                <SelectContent>
+                  {abiFunctions.functions.map(fn => (
+                    <SelectItem key={getFunctionSignature(fn)} value={getFunctionSignature(fn)}>
+                      {getFunctionSignature(fn)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {selectedFunction?.inputs.map((input, argIndex) => (
+            <div key={argIndex} className="space-y-2">
+              <Label htmlFor={`action-${index}-arg${argIndex}`}>
+                {input.name || `arg${argIndex}`} <span className="font-mono text-xs text-muted-foreground">{input.type}</span>
+              </Label>
+              <Input
+                id={`action-${index}-arg${argIndex}`}
+                value={draft.params[`arg${argIndex}`] ?? ''}
+                className="font-mono"
+                onChange={event => setParam(`arg${argIndex}`, event.target.value)}
+              />
+            </div>
+          ))}
+        </>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+export function ProposalBuilder({ governor, dao, onCancel, onSubmitted }: ProposalBuilderProps) {
+  const { address: account } = useAccount()
+  const [drafts, setDrafts] = useState<ProposalActionDraft[]>([emptyDraft()])
+  const [description, setDescription] = useState(DESCRIPTION_TEMPLATE)
+  const [reviewing, setReviewing] = useState(false)
+  const { propose, isPending, isConfirming, isConfirmed, error } = useGovernorActions(governor)
+  const { threshold, votes, meetsThreshold } = useProposalThreshold(governor, dao?.token, account)
+
+  const built = useMemo(() => buildAll(drafts, { governor, ...dao }), [drafts, governor, dao])
+  const isValid = built.every(entry => entry.action) && description.trim().length > 0
+  const busy = isPending || isConfirming
+
+  useEffect(() => {
+    if (isConfirmed) onSubmitted()
+  }, [isConfirmed, onSubmitted])
+
+  const submit = () => {
+    const actions = built.map(entry => entry.action as BuiltProposalAction)
+    propose?.(
+      actions.map(action => action.target),
+      actions.map(action => action.value),
+      actions.map(action => action.calldata as Hex),
+      description
+    )
+  }
+
+  if (reviewing) {
+    return (
+      <div className="space-y-6 text-sm">
+        <div className="space-y-1">
+          <Button type="button" variant="link" className="h-auto p-0" onClick={() => setReviewing(false)} disabled={busy}>
+            ← Edit proposal
+          </Button>
+          <h3 className="text-lg font-semibold">Review proposal</h3>
+        </div>
+
+        <ol className="space-y-2">
+          {built.map((entry, index) => entry.action && (
+            <li key={index} className="space-y-1 rounded-md border border-tally-gray-3 p-3">
+              <p className="font-medium">{index + 1}. {entry.action.summary}</p>
+              <p className="font-mono text-xs text-muted-foreground break-all">
+                target {entry.action.target} · value {formatEther(entry.action.value)} ETH
+              </p>
+              <p className="font-mono text-xs text-muted-foreground break-all">{entry.action.calldata}</p>
+            </li>
+          ))}
+        </ol>
+
+        <div className="rounded-md border border-tally-gray-3 p-3">
+          <MarkdownPreview source={description} />
+        </div>
+
+        {!meetsThreshold && threshold !== undefined && (
+          <p className="text-yellow-600">
+            Your voting power ({formatUnits(votes ?? BigInt(0), 18)}) is below the proposal threshold ({formatUnits(threshold, 18)}). Delegate to yourself or gather delegations first.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            type="button"
+            className="rounded-tally-button"
+            disabled={!account || !propose || busy || !isValid}
+            onClick={submit}
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Submit proposal'}
+          </Button>
+          {!account && <span className="text-muted-foreground">Connect a wallet to propose.</span>}
+          {busy && <span className="text-muted-foreground">{isPending ? 'Confirm in your wallet…' : 'Waiting for confirmation…'}</span>}
+        </div>
+        {error && <p className="text-destructive break-all">{error.message.split('\n')[0]}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="space-y-1">
+        <Button type="button" variant="link" className="h-auto p-0" onClick={onCancel}>
+          ← All proposals
+        </Button>
+        <h3 className="text-lg font-semibold">New proposal</h3>
+      </div>
+
+      <div className="space-y-4">
+        {drafts.map((draft, index) => (
+          <ActionEditor
+            key={index}
+            index={index}
+            draft={draft}
+            error={built[index]?.error}
+            onChange={next => setDrafts(drafts.map((entry, position) => (position === index ? next : entry)))}
+            onRemove={drafts.length > 1 ? () => setDrafts(drafts.filter((_, position) => position !== index)) : undefined}
+          />
+        ))}
+        <Button type="button" variant="outline" className="rounded-tally-button" onClick={() => setDrafts([...drafts, emptyDraft()])}>
+          <Plus /> Add action
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Description</Label>
+        <Tabs defaultValue="write">
+          <TabsList>
+            <TabsTrigger value="write">Write</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+          <TabsContent value="write">
+            <Textarea
+              value={description}
+              onChange={event => setDescription(event.target.value)}
+              className="min-h-[160px] font-mono"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">Markdown. The first heading is used as the proposal title.</p>
+          </TabsContent>
+          <TabsContent value="preview" className="rounded-md border border-tally-gray-3 p-3">
+            <MarkdownPreview source={description} />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" className="rounded-tally-button" disabled={!isValid} onClick={() => setReviewing(true)}>
+          Review
+        </Button>
+        <Button type="button" variant="outline" className="rounded-tally-button" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
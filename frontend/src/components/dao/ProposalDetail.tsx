@@ -0,0 +1,215 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Address, formatUnits } from 'viem'
+import { useAccount } from 'wagmi'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useGovernorActions, useHasVoted } from '@/hooks/contracts/useGovernor'
+import { ProposalState, VoteSupport } from '@/lib/contracts'
+import {
+  PROPOSAL_STATE_LABELS,
+  ProposalDetails,
+  VOTE_SUPPORT_LABELS,
+  canExecuteProposal,
+  canQueueProposal,
+  decodeProposalActions,
+  describeProposalAction,
+  getVoteBreakdown,
+} from '@/lib/contracts/proposals'
+import { cn } from '@/lib/utils'
+import { STATE_STYLES, getProposalTitle } from './ProposalList'
+
+interface ProposalDetailProps {
+  proposal: ProposalDetails
+  governor: Address
+  dao?: {
+    token: Address
+    timelock: Address
+  }
+  now: bigint
+  onBack: () => void
+  onUpdated: () => void
+}
+
+const VOTE_BAR_STYLES: Record<VoteSupport, string> = {
+  [VoteSupport.For]: 'bg-green-600',
+  [VoteSupport.Against]: 'bg-destructive',
+  [VoteSupport.Abstain]: 'bg-muted-foreground',
+}
+
+function formatTimepoint(value: bigint): string {
+  return new Date(Number(value) * 1000).toLocaleString()
+}
+
+export function ProposalDetail({ proposal, governor, dao, now, onBack, onUpdated }: ProposalDetailProps) {
+  const { address: account } = useAccount()
+  const [reason, setReason] = useState('')
+  const { hasVoted, refetch: refetchHasVoted } = useHasVoted(governor, proposal.id, account)
+  const { castVote, queue, execute, isPending, isConfirming, isConfirmed, error, reset } = useGovernorActions(governor)
+
+  const actions = decodeProposalActions(proposal, { governor, ...dao })
+  const breakdown = getVoteBreakdown(proposal.votes)
+  const busy = isPending || isConfirming
+  const etaPending = proposal.state === ProposalState.Queued && !canExecuteProposal(proposal, now)
+
+  useEffect(() => {
+    if (!isConfirmed) return
+    setReason('')
+    refetchHasVoted()
+    onUpdated()
+    reset()
+  }, [isConfirmed, refetchHasVoted, onUpdated, reset])
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Button type="button" variant="link" className="h-auto p-0" onClick={onBack}>
+            ← All proposals
+          </Button>
+          <h3 className="text-lg font-semibold">{getProposalTitle(proposal.description)}</h3>
+          <p className="font-mono text-xs text-muted-foreground break-all">ID {proposal.id.toString()}</p>
+        </div>
+        <span className={cn('shrink-0 rounded-full px-2.5 py-0.5 text-xs font-medium', STATE_STYLES[proposal.state])}>
+          {PROPOSAL_STATE_LABELS[proposal.state]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">Proposer</span>
+          <span className="font-mono">{proposal.proposer.slice(0, 6)}...{proposal.proposer.slice(-4)}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">Voting starts</span>
+          <span>{formatTimepoint(proposal.voteStart)}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">Voting ends</span>
+          <span>{formatTimepoint(proposal.voteEnd)}</span>
+        </div>
+        {proposal.eta !== undefined && (
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Timelock ETA</span>
+            <span>{formatTimepoint(proposal.eta)}</span>
+          </div>
+        )}
+      </div>
+
+      <p className="whitespace-pre-wrap text-muted-foreground">{proposal.description}</p>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Actions</h4>
+        <ol className="space-y-2">
+          {actions.map((action, index) => (
+            <li key={index} className="rounded-md border border-tally-gray-3 p-3">
+              <p className="font-mono break-all">{describeProposalAction(action)}</p>
+              {!action.functionName && action.calldata !== '0x' && (
+                <p className="mt-1 font-mono text-xs text-muted-foreground break-all">{action.calldata}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Votes</h4>
+        {([VoteSupport.For, VoteSupport.Against, VoteSupport.Abstain] as const).map(support => {
+          const key = support === VoteSupport.For ? 'for' : support === VoteSupport.Against ? 'against' : 'abstain'
+          const entry = breakdown[key]
+          return (
+            <div key={support} className="space-y-1">
+              <div className="flex justify-between">
+                <span>{VOTE_SUPPORT_LABELS[support]}</span>
+                <span className="text-muted-foreground">{formatUnits(entry.votes, 18)} ({entry.percent}%)</span>
+              </div>
+              <div className="h-2 w-full rounded-full bg-muted">
+                <div className={cn('h-2 rounded-full', VOTE_BAR_STYLES[support])} style={{ width: `${entry.percent}%` }} />
+              </div>
+            </div>
+          )
+        })}
+        {proposal.voteCasts.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+            {proposal.voteCasts.map(vote => (
+              <li key={vote.voter}>
+                <span className="font-mono">{vote.voter.slice(0, 6)}...{vote.voter.slice(-4)}</span>
+                {' '}voted {VOTE_SUPPORT_LABELS[vote.support]} with {formatUnits(vote.weight, 18)}
+                {vote.reason && <span> - “{vote.reason}”</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {proposal.state === ProposalState.Active && (
+        <div className="space-y-3">
+          <h4 className="font-medium">Cast your vote</h4>
+          {!account && <p className="text-muted-foreground">Connect a wallet to vote.</p>}
+          {account && hasVoted && <p className="text-muted-foreground">You have already voted on this proposal.</p>}
+          {account && !hasVoted && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="vote-reason">Reason (optional)</Label>
+                <Textarea
+                  id="vote-reason"
+                  value={reason}
+                  onChange={event => setReason(event.target.value)}
+                  placeholder="Explain your vote"
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {([VoteSupport.For, VoteSupport.Against, VoteSupport.Abstain] as const).map(support => (
+                  <Button
+                    key={support}
+                    type="button"
+                    variant={support === VoteSupport.For ? 'default' : 'outline'}
+                    className="rounded-tally-button"
+                    disabled={busy || !castVote}
+                    onClick={() => castVote?.(proposal.id, support, reason)}
+                  >
+                    {VOTE_SUPPORT_LABELS[support]}
+                  </Button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {(canQueueProposal(proposal) || proposal.state === ProposalState.Queued || canExecuteProposal(proposal, now)) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {canQueueProposal(proposal) && (
+            <Button type="button" className="rounded-tally-button" disabled={busy || !queue} onClick={() => queue?.(proposal)}>
+              Queue
+            </Button>
+          )}
+          {(canExecuteProposal(proposal, now) || proposal.state === ProposalState.Queued) && (
+            <Button
+              type="button"
+              className="rounded-tally-button"
+              disabled={busy || !execute || etaPending}
+              onClick={() => execute?.(proposal)}
+            >
+              Execute
+            </Button>
+          )}
+          {etaPending && proposal.eta !== undefined && (
+            <span className="text-xs text-muted-foreground">Executable after {formatTimepoint(proposal.eta)}</span>
+          )}
+        </div>
+      )}
+
+      {busy && (
+        <p className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {isPending ? 'Confirm in your wallet…' : 'Waiting for confirmation…'}
+        </p>
+      )}
+      {error && <p className="text-destructive break-all">{error.message.split('\n')[0]}</p>}
+    </div>
+  )
+}
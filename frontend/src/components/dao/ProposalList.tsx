@@ -0,0 +1,56 @@
+'use client'
+
+import { ProposalState } from '@/lib/contracts'
+import { PROPOSAL_STATE_LABELS, ProposalDetails, getVoteBreakdown } from '@/lib/contracts/proposals'
+import { cn } from '@/lib/utils'
+
+interface ProposalListProps {
+  proposals: ProposalDetails[]
+  onSelect: (proposal: ProposalDetails) => void
+}
+
+export const STATE_STYLES: Record<ProposalState, string> = {
+  [ProposalState.Pending]: 'bg-muted text-muted-foreground',
+  [ProposalState.Active]: 'bg-blue-100 text-blue-800',
+  [ProposalState.Canceled]: 'bg-muted text-muted-foreground',
+  [ProposalState.Defeated]: 'bg-red-100 text-red-800',
+  [ProposalState.Succeeded]: 'bg-green-100 text-green-800',
+  [ProposalState.Queued]: 'bg-yellow-100 text-yellow-800',
+  [ProposalState.Expired]: 'bg-muted text-muted-foreground',
+  [ProposalState.Executed]: 'bg-green-100 text-green-800',
+}
+
+// First markdown line of the description, without heading markers
+export function getProposalTitle(description: string): string {
+  const firstLine = description.split('\n').find(line => line.trim()) ?? ''
+  return firstLine.replace(/^#+\s*/, '').trim() || 'Untitled proposal'
+}
+
+export function ProposalList({ proposals, onSelect }: ProposalListProps) {
+  return (
+    <ul className="divide-y divide-tally-gray-3">
+      {proposals.map(proposal => {
+        const breakdown = getVoteBreakdown(proposal.votes)
+        return (
+          <li key={proposal.id.toString()}>
+            <button
+              type="button"
+              className="flex w-full items-center justify-between gap-4 py-3 text-left hover:bg-accent/50"
+              onClick={() => onSelect(proposal)}
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="truncate font-medium">{getProposalTitle(proposal.description)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {breakdown.for.percent}% for · {breakdown.against.percent}% against · {proposal.voteCasts.length} votes
+                </p>
+              </div>
+              <span className={cn('shrink-0 rounded-full px-2.5 py-0.5 text-xs font-medium', STATE_STYLES[proposal.state])}>
+                {PROPOSAL_STATE_LABELS[proposal.state]}
+              </span>
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { Address } from 'viem'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useProposals } from '@/hooks/contracts/useGovernor'
+import { ProposalBuilder } from './ProposalBuilder'
+import { ProposalDetail } from './ProposalDetail'
+import { ProposalList } from './ProposalList'
+
+interface ProposalsTabProps {
+  governor: Address
+  dao?: {
+    token: Address
+    timelock: Address
+  }
+}
+
+export function ProposalsTab({ governor, dao }: ProposalsTabProps) {
+  const { proposals, now, isLoading, error, refetch } = useProposals(governor)
+  const [selectedId, setSelectedId] = useState<bigint | undefined>()
+  const [isComposing, setIsComposing] = useState(false)
+
+  const handleSubmitted = useCallback(() => {
+    setIsComposing(false)
+    refetch()
+  }, [refetch])
+
+  // Re-resolve from the latest fetch so state and tallies stay live
+  const selected = proposals.find(proposal => proposal.id === selectedId)
+
+  return (
+    <Card className="rounded-tally-container border-tally-gray-3">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Proposals</CardTitle>
+            <CardDescription>
+              Built from governor events, with live state and vote tallies.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              onClick={() => refetch()}
+              disabled={isLoading}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Refresh'}
+            </Button>
+            {!isComposing && (
+              <Button
+                type="button"
+                className="rounded-tally-button"
+                onClick={() => {
+                  setSelectedId(undefined)
+                  setIsComposing(true)
+                }}
+              >
+                New proposal
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="text-sm text-destructive">Could not load proposals: {error.message}</p>
+        )}
+
+        {!error && !isLoading && !isComposing && proposals.length === 0 && (
+          <p className="text-sm text-muted-foreground">No proposals have been created for this governor yet.</p>
+        )}
+
+        {isComposing ? (
+          <ProposalBuilder
+            governor={governor}
+            dao={dao}
+            onCancel={() => setIsComposing(false)}
+            onSubmitted={handleSubmitted}
+          />
+        ) : selected ? (
+          <ProposalDetail
+            proposal={selected}
+            governor={governor}
+            dao={dao}
+            now={now}
+            onBack={() => setSelectedId(undefined)}
+            onUpdated={refetch}
+          />
+        ) : (
+          <ProposalList proposals={proposals} onSelect={proposal => setSelectedId(proposal.id)} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
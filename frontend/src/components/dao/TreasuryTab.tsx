@@ -0,0 +1,181 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Address, formatEther, formatUnits, isAddress } from 'viem'
+import { useChainId } from 'wagmi'
+import { Download, Loader2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { useTreasury } from '@/hooks/contracts/useTreasury'
+import { treasuryHistoryToCsv } from '@/lib/contracts/treasury'
+import { cn } from '@/lib/utils'
+
+interface TreasuryTabProps {
+  timelock: Address
+  token?: Address
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export function TreasuryTab({ timelock, token }: TreasuryTabProps) {
+  const chainId = useChainId()
+  const storageKey = `dao-treasury-tokens:${chainId}:${timelock.toLowerCase()}`
+  const [trackedTokens, setTrackedTokens] = useState<Address[]>(token ? [token] : [])
+  const [newToken, setNewToken] = useState('')
+
+  // Tracked tokens are remembered per timelock and chain
+  useEffect(() => {
+    const saved = window.localStorage.getItem(storageKey)
+    const parsed: Address[] = saved ? JSON.parse(saved).filter((entry: string) => isAddress(entry)) : []
+    const withDAOToken = token && !parsed.some(entry => entry.toLowerCase() === token.toLowerCase()) ? [token, ...parsed] : parsed
+    setTrackedTokens(withDAOToken)
+  }, [storageKey, token])
+
+  const updateTokens = (next: Address[]) => {
+    setTrackedTokens(next)
+    window.localStorage.setItem(storageKey, JSON.stringify(next))
+  }
+
+  const { nativeBalance, tokenBalances, history, historyError, isLoading, error, refetch } = useTreasury(timelock, trackedTokens)
+
+  const canAdd = isAddress(newToken.trim()) && !trackedTokens.some(entry => entry.toLowerCase() === newToken.trim().toLowerCase())
+
+  const exportCsv = () => {
+    const blob = new Blob([treasuryHistoryToCsv(history)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `treasury-${timelock}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6">
+      <Card className="rounded-tally-container border-tally-gray-3">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Treasury</CardTitle>
+              <CardDescription className="font-mono">{timelock}</CardDescription>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              onClick={() => refetch()}
+              disabled={isLoading}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Refresh'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {error && <p className="text-destructive">Could not load treasury: {error.message}</p>}
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">ETH</span>
+              <span>{nativeBalance !== undefined ? formatEther(nativeBalance) : '…'}</span>
+            </div>
+            {tokenBalances.map(balance => (
+              <div key={balance.address} className="flex justify-between items-center gap-2">
+                <span className="text-muted-foreground">
+                  {balance.symbol} <span className="font-mono text-xs">{shortAddress(balance.address)}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  {formatUnits(balance.balance, balance.decimals)}
+                  {balance.address.toLowerCase() !== token?.toLowerCase() && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label={`Stop tracking ${balance.symbol}`}
+                      onClick={() => updateTokens(trackedTokens.filter(entry => entry.toLowerCase() !== balance.address.toLowerCase()))}
+                    >
+                      <X />
+                    </Button>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={newToken}
+              onChange={event => setNewToken(event.target.value)}
+              placeholder="Track another ERC20 (0x...)"
+              className="font-mono"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              disabled={!canAdd}
+              onClick={() => {
+                updateTokens([...trackedTokens, newToken.trim() as Address])
+                setNewToken('')
+              }}
+            >
+              Track
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="rounded-tally-container border-tally-gray-3">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>History</CardTitle>
+              <CardDescription>
+                Token transfers and ETH sent by executed proposals. Plain ETH deposits emit no logs and are not listed.
+              </CardDescription>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-tally-button"
+              onClick={exportCsv}
+              disabled={history.length === 0}
+            >
+              <Download /> CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="text-sm">
+          {historyError && <p className="text-yellow-600">{historyError}</p>}
+
+          {!historyError && !isLoading && history.length === 0 && (
+            <p className="text-muted-foreground">No inflows or outflows for the tracked assets yet.</p>
+          )}
+
+          <ul className="divide-y divide-tally-gray-3">
+            {history.map(movement => (
+              <li key={`${movement.transactionHash}-${movement.logIndex}-${movement.asset}`} className="flex items-center justify-between gap-4 py-2">
+                <div className="space-y-0.5">
+                  <p>
+                    {movement.direction === 'in' ? 'From' : 'To'}{' '}
+                    <span className="font-mono">{shortAddress(movement.counterparty)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {movement.timestamp ? new Date(movement.timestamp * 1000).toLocaleString() : `Block ${movement.blockNumber}`}
+                    {movement.source === 'call-executed' && ' · executed proposal'}
+                  </p>
+                </div>
+                <span className={cn('font-medium', movement.direction === 'in' ? 'text-green-600' : 'text-destructive')}>
+                  {movement.direction === 'in' ? '+' : '-'}{movement.formattedAmount} {movement.asset.startsWith('0x') ? shortAddress(movement.asset) : movement.asset}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
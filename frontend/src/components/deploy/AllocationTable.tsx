@@ -0,0 +1,235 @@
+'use client'
+
+import { ChangeEvent, memo, useCallback, useMemo, useRef, useState } from 'react';
+import { formatUnits, parseUnits } from 'viem';
+import { FileUp, Plus, Trash2 } from 'lucide-react';
+import { AllocationRow } from '@/types/deploy';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getAllocationAmount } from '@/lib/contracts/allocations';
+import { DistributionIssue, aggregateDistribution, parseDistributionList } from '@/lib/contracts/distribution';
+
+interface AllocationTableProps {
+  rows: AllocationRow[];
+  initialSupply?: string;
+  tokenSymbol?: string;
+  onChange: (rows: AllocationRow[]) => void;
+}
+
+const DEFAULT_VESTING_DAYS = 365;
+
+let nextRowId = 0;
+
+export function createAllocationRow(overrides: Partial<AllocationRow> = {}): AllocationRow {
+  nextRowId += 1;
+  return { id: `allocation-${nextRowId}`, kind: 'recipient', address: '', amount: '', unit: 'percent', ...overrides };
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function AllocationTable({ rows, initialSupply, tokenSymbol, onChange }: AllocationTableProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importIssues, setImportIssues] = useState<DistributionIssue[]>([]);
+
+  const supplyWei = useMemo(() => {
+    try {
+      return parseUnits(initialSupply?.trim() || '0', 18);
+    } catch {
+      return BigInt(0);
+    }
+  }, [initialSupply]);
+
+  // Running total in tokens, counting unparseable rows as zero
+  const allocated = useMemo(() => rows.reduce<bigint>(
+    (sum, row) => sum + (getAllocationAmount(row, supplyWei) ?? BigInt(0)),
+    BigInt(0)
+  ), [rows, supplyWei]);
+
+  const updateRow = useCallback((id: string, updates: Partial<AllocationRow>) => {
+    onChange(rows.map(row => row.id === id ? { ...row, ...updates } : row));
+  }, [rows, onChange]);
+
+  const removeRow = useCallback((id: string) => {
+    onChange(rows.filter(row => row.id !== id));
+  }, [rows, onChange]);
+
+  // Imported recipients replace the address rows; the treasury row is kept so the rest of the supply can go there
+  const handleImport = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = parseDistributionList(await file.text());
+    const { recipients, issues: amountIssues } = aggregateDistribution(parsed.entries, 18);
+    const issues = [...parsed.issues, ...amountIssues];
+    setImportIssues(issues);
+    if (issues.some(issue => issue.severity === 'error')) return;
+
+    onChange([
+      ...recipients.map(recipient => createAllocationRow({ address: recipient.address, amount: formatUnits(recipient.amount, 18), unit: 'tokens' })),
+      ...rows.filter(row => row.kind === 'treasury'),
+    ]);
+  }, [rows, onChange]);
+
+  const hasTreasury = rows.some(row => row.kind === 'treasury');
+  const remaining = supplyWei - allocated;
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => (
+        <div key={row.id} className="space-y-3 rounded-md border p-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-start">
+            <Select
+              value={row.kind}
+              onValueChange={value => updateRow(row.id, { kind: value as AllocationRow['kind'], address: '' })}
+            >
+              <SelectTrigger aria-label={`Allocation ${index + 1} type`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recipient">Address</SelectItem>
+                <SelectItem value="treasury" disabled={hasTreasury && row.kind !== 'treasury'}>DAO treasury</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {row.kind === 'treasury' ? (
+              <p className="text-sm text-muted-foreground py-2">Sent to the timelock, spendable through governance</p>
+            ) : (
+              <Input
+                className="font-mono text-sm"
+                placeholder="0x1234...5678"
+                aria-label={`Allocation ${index + 1} address`}
+                value={row.address}
+                onChange={(e) => updateRow(row.id, { address: e.target.value })}
+              />
+            )}
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeRow(row.id)}
+              aria-label={`Remove allocation ${index + 1}`}
+            >
+              <Trash2 />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-3">
+            <Input
+              type="number"
+              placeholder={row.unit === 'percent' ? '25' : '250000'}
+              aria-label={`Allocation ${index + 1} amount`}
+              value={row.amount}
+              onChange={(e) => updateRow(row.id, { amount: e.target.value })}
+              min="0"
+              step="any"
+            />
+            <Select
+              value={row.unit}
+              onValueChange={value => updateRow(row.id, { unit: value as AllocationRow['unit'] })}
+            >
+              <SelectTrigger aria-label={`Allocation ${index + 1} unit`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">% of supply</SelectItem>
+                <SelectItem value="tokens">{tokenSymbol || 'tokens'}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={!!row.vesting}
+              onChange={(e) => updateRow(row.id, {
+                vesting: e.target.checked ? { startDate: today(), durationDays: DEFAULT_VESTING_DAYS } : undefined,
+              })}
+              className="h-4 w-4 rounded border-input accent-primary"
+            />
+            <span>Vest linearly</span>
+          </label>
+
+          {row.vesting && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Vesting starts (UTC)</span>
+                <Input
+                  type="date"
+                  aria-label={`Allocation ${index + 1} vesting start`}
+                  value={row.vesting.startDate}
+                  onChange={(e) => updateRow(row.id, { vesting: { ...row.vesting!, startDate: e.target.value } })}
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Duration (days)</span>
+                <Input
+                  type="number"
+                  aria-label={`Allocation ${index + 1} vesting duration`}
+                  value={Number.isNaN(row.vesting.durationDays) ? '' : row.vesting.durationDays}
+                  onChange={(e) => updateRow(row.id, { vesting: { ...row.vesting!, durationDays: parseInt(e.target.value) } })}
+                  min="1"
+                  step="1"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {importIssues.length > 0 && (
+        <div className="rounded-md border border-border bg-muted/50 p-3 text-sm">
+          <p className="font-medium text-foreground mb-1">
+            {importIssues.some(issue => issue.severity === 'error')
+              ? 'The list was not imported. Fix these rows and try again:'
+              : 'Imported with warnings:'}
+          </p>
+          <ul className="list-disc list-inside space-y-0.5 text-muted-foreground">
+            {importIssues.slice(0, 20).map((issue, index) => (
+              <li key={index} className={issue.severity === 'error' ? 'text-destructive' : undefined}>
+                {issue.line ? `Line ${issue.line}: ` : ''}{issue.message}
+              </li>
+            ))}
+            {importIssues.length > 20 && <li>{importIssues.length - 20} more</li>}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={() => onChange([...rows, createAllocationRow()])}>
+            <Plus /> Add allocation
+          </Button>
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp /> Import CSV/JSON
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            className="hidden"
+            aria-label="Import distribution list"
+            onChange={handleImport}
+          />
+        </div>
+        <div className="text-sm text-muted-foreground text-right">
+          Allocated {parseFloat(formatUnits(allocated, 18)).toLocaleString()} of{' '}
+          {parseFloat(formatUnits(supplyWei, 18)).toLocaleString()} {tokenSymbol || 'tokens'}
+          {remaining !== BigInt(0) && supplyWei > BigInt(0) && (
+            <span className="block text-xs">
+              {remaining > BigInt(0)
+                ? `${parseFloat(formatUnits(remaining, 18)).toLocaleString()} left to allocate`
+                : `${parseFloat(formatUnits(-remaining, 18)).toLocaleString()} over the supply`}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default memo(AllocationTable);
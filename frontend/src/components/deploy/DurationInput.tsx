@@ -0,0 +1,89 @@
+'use client'
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface DurationInputProps {
+  /** Duration in seconds */
+  value?: number;
+  onChange: (seconds: number) => void;
+  placeholder?: string;
+  'aria-label'?: string;
+}
+
+const UNITS = {
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+} as const;
+
+type DurationUnit = keyof typeof UNITS;
+
+// Largest unit the duration is a whole number of, so presets read as "3.5 days" rather than "84 hours"
+function pickUnit(seconds: number): DurationUnit {
+  if (seconds >= UNITS.days && (seconds * 2) % UNITS.days === 0) return 'days';
+  if (seconds >= UNITS.hours && seconds % UNITS.hours === 0) return 'hours';
+  return seconds >= UNITS.days ? 'days' : seconds >= UNITS.hours ? 'hours' : 'minutes';
+}
+
+function toText(seconds: number, unit: DurationUnit): string {
+  return String(Math.round((seconds / UNITS[unit]) * 100) / 100);
+}
+
+function DurationInput({ value, onChange, placeholder, 'aria-label': ariaLabel }: DurationInputProps) {
+  const [unit, setUnit] = useState<DurationUnit>(() => pickUnit(value ?? 0));
+  const [text, setText] = useState(() => (value === undefined ? '' : toText(value, unit)));
+
+  const emitted = useRef(value);
+
+  // Presets replace the value from outside; re-pick the unit for anything the field did not emit itself
+  useEffect(() => {
+    if (value === undefined || value === emitted.current) return;
+    const nextUnit = pickUnit(value);
+    emitted.current = value;
+    setUnit(nextUnit);
+    setText(toText(value, nextUnit));
+  }, [value]);
+
+  const emit = (nextText: string, nextUnit: DurationUnit) => {
+    const amount = parseFloat(nextText);
+    emitted.current = isNaN(amount) ? 0 : Math.round(amount * UNITS[nextUnit]);
+    onChange(emitted.current);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        type="number"
+        min="0"
+        step="any"
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        value={text}
+        onChange={e => {
+          setText(e.target.value);
+          emit(e.target.value, unit);
+        }}
+      />
+      <Select
+        value={unit}
+        onValueChange={next => {
+          setUnit(next as DurationUnit);
+          emit(text, next as DurationUnit);
+        }}
+      >
+        <SelectTrigger className="w-32" aria-label={ariaLabel ? `${ariaLabel} unit` : undefined}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="minutes">Minutes</SelectItem>
+          <SelectItem value="hours">Hours</SelectItem>
+          <SelectItem value="days">Days</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default memo(DurationInput);
@@ -0,0 +1,132 @@
+'use client'
+
+import { memo, useMemo, useState } from 'react';
+import { formatUnits, parseUnits } from 'viem';
+import { DAOConfig } from '@/types/deploy';
+import { formatTimeFromSeconds } from '@/lib/validation/deploy';
+import { GovernanceClock, clockUnitsToSeconds, secondsToClockUnits } from '@/lib/contracts/clock';
+import { getSimulatedHolders, simulateGovernance } from '@/lib/contracts/simulation';
+
+interface GovernanceSimulatorProps {
+  config: Partial<DAOConfig>;
+  clock: GovernanceClock;
+}
+
+const DEFAULT_TURNOUT = 20;
+
+function formatTokens(amount: bigint): string {
+  return parseFloat(formatUnits(amount, 18)).toLocaleString();
+}
+
+function GovernanceSimulator({ config, clock }: GovernanceSimulatorProps) {
+  const [turnout, setTurnout] = useState(DEFAULT_TURNOUT);
+
+  const supplyWei = useMemo(() => {
+    try {
+      return parseUnits(config.initialSupply?.trim() || '0', 18);
+    } catch {
+      return BigInt(0);
+    }
+  }, [config.initialSupply]);
+
+  const simulation = useMemo(() => simulateGovernance(
+    getSimulatedHolders(config, supplyWei),
+    supplyWei,
+    config.quorumPercentage ?? 0,
+    config.proposalThreshold ?? '0',
+    turnout
+  ), [config, supplyWei, turnout]);
+
+  const endToEndSeconds = [config.votingDelay, config.votingPeriod]
+    .reduce<number>((sum, seconds) => sum + (seconds ? clockUnitsToSeconds(secondsToClockUnits(seconds, clock), clock) : 0), 0)
+    + (config.timelockDelay ?? 0);
+
+  if (supplyWei === BigInt(0)) {
+    return null;
+  }
+
+  const { largestHolder } = simulation;
+  const lockedSupply = simulation.totalSupply - simulation.votableSupply;
+
+  return (
+    <div className="bg-muted/30 border border-border rounded-lg p-6">
+      <h4 className="text-lg font-medium text-foreground mb-1">Governance Simulator</h4>
+      <p className="text-sm text-muted-foreground mb-4">
+        How a typical proposal plays out with the distribution from step 1, if every holder who can vote turns out at the same rate.
+      </p>
+
+      <div className="mb-4">
+        <label htmlFor="simulated-turnout" className="flex justify-between text-sm font-medium text-foreground mb-2">
+          <span>Assumed turnout</span>
+          <span>{turnout}%</span>
+        </label>
+        <input
+          id="simulated-turnout"
+          type="range"
+          min="1"
+          max="100"
+          step="1"
+          value={turnout}
+          onChange={(e) => setTurnout(parseInt(e.target.value))}
+          className="w-full accent-primary"
+        />
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Quorum</span>
+          <span className="font-medium">{formatTokens(simulation.quorumVotes)} votes</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Expected votes at {turnout}% turnout</span>
+          <span className={`font-medium ${simulation.reachesQuorum ? 'text-green-600' : 'text-destructive'}`}>
+            {formatTokens(simulation.expectedVotes)} ({simulation.reachesQuorum ? 'reaches quorum' : 'falls short'})
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Turnout needed for quorum</span>
+          <span className="font-medium">
+            {simulation.requiredTurnout > 100 ? 'Unreachable' : `${simulation.requiredTurnout.toFixed(2)}%`}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Largest holders needed for quorum</span>
+          <span className="font-medium">{simulation.holdersForQuorum ?? 'Not enough voting supply'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Holders who can propose</span>
+          <span className="font-medium">{simulation.eligibleProposers} of {simulation.votingHolders}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Proposal to execution</span>
+          <span className="font-medium">{formatTimeFromSeconds(endToEndSeconds)}</span>
+        </div>
+      </div>
+
+      {lockedSupply > BigInt(0) && (
+        <p className="text-xs text-muted-foreground mt-4">
+          {formatTokens(lockedSupply)} tokens in the treasury or vesting wallets count toward quorum but cannot vote.
+        </p>
+      )}
+
+      {simulation.votingHolders > 0 && simulation.eligibleProposers === 0 && (
+        <p className="text-xs text-destructive mt-2">
+          No holder meets the proposal threshold, so nobody could create the first proposal.
+        </p>
+      )}
+
+      {largestHolder && simulation.whaleCapture && (
+        <div className="bg-tally-orange-1 border border-tally-orange-3 rounded-lg p-4 mt-4">
+          <h5 className="text-sm font-medium text-tally-orange-9 mb-1">Single-holder capture</h5>
+          <p className="text-sm text-tally-orange-8">
+            <span className="font-mono break-all">{largestHolder.label}</span> holds {formatTokens(largestHolder.amount)} tokens,
+            enough to meet quorum alone and outvote everyone else at {turnout}% turnout. They could pass any proposal,
+            including treasury transfers, on their own. Raise the quorum or spread the initial supply more widely.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(GovernanceSimulator);
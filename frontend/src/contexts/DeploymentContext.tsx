@@ -3,8 +3,10 @@
 import { createContext, useContext, ReactNode, useMemo, useState, useCallback, useEffect } from 'react';
 import { Hash } from 'viem';
 import { Address } from 'viem';
-import { DAOConfig, DeploymentStatus } from '@/types/deploy';
-import { useFactory } from '@/hooks/contracts';
+import { DAOConfig, DeploymentStatus, SUPPORTED_NETWORKS } from '@/types/deploy';
+import { useFactory, useGovernanceClock } from '@/hooks/contracts';
+import { GovernanceClock } from '@/lib/contracts/clock';
+import { TokenAllocation } from '@/lib/contracts/types';
 
 /**
  * Type definition for the deployment context
@@ -16,7 +18,7 @@ interface DeploymentContextType {
 
   // Deployment state from factory hook
   factoryAddress: Address | undefined;
-  deployDAO: ((config: any, recipient: Address) => void) | undefined;
+  deployDAO: ((config: any, recipient: Address | TokenAllocation[]) => void) | undefined;
   deployHash: Hash | undefined;
   isDeploying: boolean;
   deploySuccess: boolean;
@@ -24,6 +26,9 @@ interface DeploymentContextType {
   deployErrorDetails: unknown;
   isSupported: boolean;
 
+  // Clock the selected network's governor counts votingDelay/votingPeriod in
+  governanceClock: GovernanceClock;
+
   // Local deployment state
   deploymentStatus: DeploymentStatus;
   setDeploymentStatus: (status: DeploymentStatus) => void;
@@ -83,6 +88,9 @@ export function DeploymentProvider({ children, initialConfig }: DeploymentProvid
     isSupported
   } = useFactory();
 
+  const selectedNetwork = SUPPORTED_NETWORKS.find(n => n.id === config.network);
+  const governanceClock = useGovernanceClock(selectedNetwork?.chainId, selectedNetwork?.blockTime);
+
   // Update config callback
   const updateConfig = useCallback((updates: Partial<DAOConfig>) => {
     setConfig(prev => ({ ...prev, ...updates }));
@@ -123,6 +131,7 @@ export function DeploymentProvider({ children, initialConfig }: DeploymentProvid
     deployError,
     deployErrorDetails,
     isSupported,
+    governanceClock,
     deploymentStatus,
     setDeploymentStatus,
     showDeploymentModal,
@@ -140,6 +149,7 @@ export function DeploymentProvider({ children, initialConfig }: DeploymentProvid
     deployError,
     deployErrorDetails,
     isSupported,
+    governanceClock,
     deploymentStatus,
     showDeploymentModal,
     deploymentHash,
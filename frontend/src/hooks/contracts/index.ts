@@ -1,5 +1,11 @@
 // Contract hooks index
 export * from './useFactory';
+export * from './useDAOAudit';
+export * from './useGovernor';
+export * from './useDelegation';
+export * from './useTreasury';
+export * from './useAirdrop';
+export * from './useGovernanceClock';
 
 // Re-export utility hooks
 export * from '../utils/useTransactionHandler';
\ No newline at end of file
@@ -0,0 +1,102 @@
+// Airdrop hook - Merkle distributor state and claims
+'use client';
+
+import {
+  useAccount,
+  useChainId,
+  useReadContract,
+  useWaitForTransactionReceipt,
+  useWriteContract,
+} from 'wagmi';
+import { useCallback, useEffect } from 'react';
+import { Address, Hex } from 'viem';
+
+import { MERKLE_DISTRIBUTOR_ABI } from '@/lib/contracts';
+import { AirdropClaim } from '@/lib/contracts/airdrop';
+import { SignedDelegation } from './useDelegation';
+
+/**
+ * Hook for a distributor's root, token and deadline, whether a claim was made, and the claim actions
+ */
+export function useAirdrop(distributor?: Address, claim?: AirdropClaim) {
+  const { address: account } = useAccount();
+  const chainId = useChainId();
+  const enabled = !!distributor;
+
+  const { data: token } = useReadContract({
+    address: distributor,
+    abi: MERKLE_DISTRIBUTOR_ABI,
+    functionName: 'token',
+    query: { enabled },
+  });
+
+  const { data: merkleRoot } = useReadContract({
+    address: distributor,
+    abi: MERKLE_DISTRIBUTOR_ABI,
+    functionName: 'merkleRoot',
+    query: { enabled },
+  });
+
+  const { data: claimDeadline } = useReadContract({
+    address: distributor,
+    abi: MERKLE_DISTRIBUTOR_ABI,
+    functionName: 'claimDeadline',
+    query: { enabled },
+  });
+
+  const { data: isClaimed, refetch: refetchClaimed } = useReadContract({
+    address: distributor,
+    abi: MERKLE_DISTRIBUTOR_ABI,
+    functionName: 'isClaimed',
+    args: claim ? [claim.index] : undefined,
+    query: { enabled: enabled && !!claim },
+  });
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (isConfirmed) refetchClaimed();
+  }, [isConfirmed, refetchClaimed]);
+
+  /**
+   * Claim for beneficiary, optionally submitting their signed delegation in the same transaction
+   */
+  const submitClaim = useCallback((beneficiary: Address, delegation?: SignedDelegation) => {
+    if (!distributor || !claim) return;
+
+    const claimArgs = [claim.index, beneficiary, claim.amount, claim.proof] as const;
+    writeContract((delegation
+      ? {
+          address: distributor,
+          abi: MERKLE_DISTRIBUTOR_ABI,
+          functionName: 'claimAndDelegate',
+          args: [...claimArgs, delegation.delegatee, delegation.nonce, delegation.expiry, delegation.v, delegation.r, delegation.s as Hex],
+          chainId,
+          account,
+        }
+      : {
+          address: distributor,
+          abi: MERKLE_DISTRIBUTOR_ABI,
+          functionName: 'claim',
+          args: claimArgs,
+          chainId,
+          account,
+        }) as Parameters<typeof writeContract>[0]);
+  }, [distributor, claim, writeContract, chainId, account]);
+
+  return {
+    account,
+    token: token as Address | undefined,
+    merkleRoot: merkleRoot as Hex | undefined,
+    claimDeadline: claimDeadline as bigint | undefined,
+    isClaimed: isClaimed as boolean | undefined,
+    submitClaim,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+    reset,
+  };
+}
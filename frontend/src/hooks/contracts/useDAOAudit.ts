@@ -0,0 +1,128 @@
+// DAO audit hook - reads live governance wiring and evaluates it
+'use client';
+
+import { usePublicClient } from 'wagmi';
+import { useCallback, useEffect, useState } from 'react';
+import { Address } from 'viem';
+
+import {
+  GOVERNOR_ABI,
+  TOKEN_ABI,
+  TIMELOCK_ABI,
+} from '@/lib/contracts';
+import {
+  AuditCheck,
+  DAOAuditState,
+  TIMELOCK_ROLES,
+  TimelockRoleName,
+  evaluateDAOAudit,
+} from '@/lib/contracts/audit';
+
+interface DAOAddresses {
+  governor: Address;
+  token: Address;
+  timelock: Address;
+}
+
+/**
+ * Hook for auditing a DAO from its governor, or from the addresses known to the factory
+ */
+export function useDAOAudit(address?: Address, dao?: DAOAddresses) {
+  const publicClient = usePublicClient();
+  const [state, setState] = useState<DAOAuditState | undefined>();
+  const [checks, setChecks] = useState<AuditCheck[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const runAudit = useCallback(async () => {
+    if (!publicClient || !address) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    // Reverting reads are reported as unreadable rather than failing the audit
+    const read = async <T,>(target: Address | undefined, abi: readonly unknown[], functionName: string, args: unknown[] = []) => {
+      if (!target) return undefined;
+      try {
+        return await publicClient.readContract({ address: target, abi: abi as any, functionName, args } as any) as T;
+      } catch {
+        return undefined;
+      }
+    };
+
+    try {
+      const governor = dao?.governor ?? address;
+      const governorToken = await read<Address>(governor, GOVERNOR_ABI, 'token');
+      const governorTimelock = await read<Address>(governor, GOVERNOR_ABI, 'timelock');
+      const token = dao?.token ?? governorToken;
+      const timelock = dao?.timelock ?? governorTimelock;
+
+      let roleHolders: DAOAuditState['roleHolders'];
+      if (timelock) {
+        try {
+          const grants = await publicClient.getContractEvents({
+            address: timelock,
+            abi: TIMELOCK_ABI,
+            eventName: 'RoleGranted',
+            fromBlock: 'earliest',
+          });
+
+          const holders: Record<TimelockRoleName, Address[]> = { proposer: [], canceller: [], executor: [], admin: [] };
+          for (const role of Object.keys(TIMELOCK_ROLES) as TimelockRoleName[]) {
+            const candidates = Array.from(new Set(
+              grants.filter(log => log.args.role === TIMELOCK_ROLES[role]).map(log => log.args.account as Address)
+            ));
+            for (const account of candidates) {
+              if (await read<boolean>(timelock, TIMELOCK_ABI, 'hasRole', [TIMELOCK_ROLES[role], account])) {
+                holders[role].push(account);
+              }
+            }
+          }
+          roleHolders = holders;
+        } catch {
+          // RPC does not serve historical logs - reported as a warning
+          roleHolders = undefined;
+        }
+      }
+
+      const nextState: DAOAuditState = {
+        governor: governorToken || governorTimelock ? governor : undefined,
+        token,
+        timelock,
+        governorToken,
+        governorTimelock,
+        governorUpgradeAuthority: await read<Address>(governor, GOVERNOR_ABI, 'upgradeAuthority'),
+        tokenOwner: await read<Address>(token, TOKEN_ABI, 'owner'),
+        tokenUpgradeAuthority: await read<Address>(token, TOKEN_ABI, 'upgradeAuthority'),
+        roleHolders,
+        governorClockMode: await read<string>(governor, GOVERNOR_ABI, 'CLOCK_MODE'),
+        tokenClockMode: await read<string>(token, TOKEN_ABI, 'CLOCK_MODE'),
+        quorumPercentage: await read<bigint>(governor, GOVERNOR_ABI, 'quorumNumerator'),
+      };
+
+      setState(nextState);
+      setChecks(evaluateDAOAudit(nextState));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to audit DAO'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, address, dao?.governor, dao?.token, dao?.timelock]);
+
+  useEffect(() => {
+    runAudit();
+  }, [runAudit]);
+
+  return {
+    state,
+    checks,
+    summary: {
+      pass: checks.filter(check => check.status === 'pass').length,
+      warn: checks.filter(check => check.status === 'warn').length,
+      fail: checks.filter(check => check.status === 'fail').length,
+    },
+    isLoading,
+    error,
+    refetch: runAudit,
+  };
+}
@@ -0,0 +1,233 @@
+// Delegation hooks - voting power, delegate/delegateBySig and the delegate leaderboard
+'use client';
+
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useReadContract,
+  useSignTypedData,
+  useWaitForTransactionReceipt,
+  useWatchContractEvent,
+  useWriteContract,
+} from 'wagmi';
+import { useCallback, useEffect, useState } from 'react';
+import { Address, Hex, parseSignature } from 'viem';
+
+import { TOKEN_ABI } from '@/lib/contracts';
+
+// ERC20Votes Delegation struct, signed for delegateBySig
+const DELEGATION_TYPES = {
+  Delegation: [
+    { name: 'delegatee', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+// A holder's signed delegation that any relayer can submit
+export interface SignedDelegation {
+  delegatee: Address;
+  nonce: bigint;
+  expiry: bigint;
+  v: number;
+  r: Hex;
+  s: Hex;
+  signature: Hex;
+}
+
+export interface DelegateEntry {
+  delegate: Address;
+  votes: bigint;
+}
+
+/**
+ * Hook for the connected account's balance, delegate and voting power, with delegation actions
+ */
+export function useDelegation(token?: Address) {
+  const { address: account } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const enabled = !!token && !!account;
+
+  const { data: balance, refetch: refetchBalance } = useReadContract({
+    address: token,
+    abi: TOKEN_ABI,
+    functionName: 'balanceOf',
+    args: account ? [account] : undefined,
+    query: { enabled },
+  });
+
+  const { data: currentDelegate, refetch: refetchDelegate } = useReadContract({
+    address: token,
+    abi: TOKEN_ABI,
+    functionName: 'delegates',
+    args: account ? [account] : undefined,
+    query: { enabled },
+  });
+
+  const { data: votes, refetch: refetchVotes } = useReadContract({
+    address: token,
+    abi: TOKEN_ABI,
+    functionName: 'getVotes',
+    args: account ? [account] : undefined,
+    query: { enabled },
+  });
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+  const { signTypedDataAsync, isPending: isSigning } = useSignTypedData();
+
+  useEffect(() => {
+    if (!isConfirmed) return;
+    refetchBalance();
+    refetchDelegate();
+    refetchVotes();
+  }, [isConfirmed, refetchBalance, refetchDelegate, refetchVotes]);
+
+  const delegate = useCallback((delegatee: Address) => {
+    if (!token) return;
+    writeContract({
+      address: token,
+      abi: TOKEN_ABI,
+      functionName: 'delegate',
+      args: [delegatee],
+      chainId,
+      account,
+    } as Parameters<typeof writeContract>[0]);
+  }, [token, writeContract, chainId, account]);
+
+  /**
+   * Sign an EIP-712 delegation without sending a transaction
+   */
+  const signDelegation = useCallback(async (delegatee: Address, expirySeconds = 3600): Promise<SignedDelegation> => {
+    if (!token || !account || !publicClient) {
+      throw new Error('Connect a wallet to sign a delegation');
+    }
+
+    // ERC-5267 exposes the exact domain; ERC20Permit uses (name, "1")
+    const [nonce, domain, latestBlock] = await Promise.all([
+      publicClient.readContract({ address: token, abi: TOKEN_ABI, functionName: 'nonces', args: [account] }),
+      publicClient.readContract({ address: token, abi: TOKEN_ABI, functionName: 'eip712Domain' }).catch(() => undefined),
+      publicClient.getBlock(),
+    ]);
+    const name = domain ? domain[1] : await publicClient.readContract({ address: token, abi: TOKEN_ABI, functionName: 'name' });
+    const version = domain ? domain[2] : '1';
+    const expiry = latestBlock.timestamp + BigInt(expirySeconds);
+
+    const signature = await signTypedDataAsync({
+      domain: { name, version, chainId, verifyingContract: token },
+      types: DELEGATION_TYPES,
+      primaryType: 'Delegation',
+      message: { delegatee, nonce, expiry },
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
+
+    return { delegatee, nonce, expiry, v: Number(v ?? BigInt(yParity + 27)), r, s, signature };
+  }, [token, account, publicClient, chainId, signTypedDataAsync]);
+
+  /**
+   * Submit someone else's signed delegation, paying the gas as relayer
+   */
+  const relayDelegation = useCallback((signed: SignedDelegation) => {
+    if (!token) return;
+    writeContract({
+      address: token,
+      abi: TOKEN_ABI,
+      functionName: 'delegateBySig',
+      args: [signed.delegatee, signed.nonce, signed.expiry, signed.v, signed.r, signed.s],
+      chainId,
+      account,
+    } as Parameters<typeof writeContract>[0]);
+  }, [token, writeContract, chainId, account]);
+
+  return {
+    account,
+    balance: balance as bigint | undefined,
+    currentDelegate: currentDelegate as Address | undefined,
+    votes: votes as bigint | undefined,
+    delegate,
+    signDelegation,
+    relayDelegation,
+    hash,
+    isPending,
+    isSigning,
+    isConfirming,
+    isConfirmed,
+    error,
+    reset,
+  };
+}
+
+/**
+ * Hook for ranking delegates by their latest DelegateVotesChanged balance
+ */
+export function useTopDelegates(token?: Address, limit = 10) {
+  const publicClient = usePublicClient();
+  const [delegates, setDelegates] = useState<DelegateEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const { data: totalSupply } = useReadContract({
+    address: token,
+    abi: TOKEN_ABI,
+    functionName: 'totalSupply',
+    query: { enabled: !!token },
+  });
+
+  const fetchDelegates = useCallback(async () => {
+    if (!publicClient || !token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const logs = await publicClient.getContractEvents({
+        address: token,
+        abi: TOKEN_ABI,
+        eventName: 'DelegateVotesChanged',
+        fromBlock: 'earliest',
+      });
+
+      // Logs arrive in chain order, so the last entry per delegate is current
+      const latest = new Map<string, DelegateEntry>();
+      for (const log of logs) {
+        const delegate = log.args.delegate as Address;
+        latest.set(delegate.toLowerCase(), { delegate, votes: log.args.newVotes as bigint });
+      }
+
+      setDelegates(
+        Array.from(latest.values())
+          .filter(entry => entry.votes > BigInt(0))
+          .sort((a, b) => (b.votes > a.votes ? 1 : b.votes < a.votes ? -1 : 0))
+          .slice(0, limit)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load delegates'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, token, limit]);
+
+  useEffect(() => {
+    fetchDelegates();
+  }, [fetchDelegates]);
+
+  useWatchContractEvent({
+    address: token,
+    abi: TOKEN_ABI,
+    eventName: 'DelegateVotesChanged',
+    onLogs: () => {
+      fetchDelegates();
+    },
+    enabled: !!token,
+  });
+
+  return {
+    delegates,
+    totalSupply: totalSupply as bigint | undefined,
+    isLoading,
+    error,
+    refetch: fetchDelegates,
+  };
+}
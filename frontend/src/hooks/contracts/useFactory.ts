@@ -13,7 +13,7 @@ import {
   localhost,
   DeployedDAO,
 } from '@/lib/contracts';
-import { DAOConfig as ContractDAOConfig } from '@/lib/contracts/types';
+import { DAOConfig as ContractDAOConfig, TokenAllocation } from '@/lib/contracts/types';
 import { DAOConfig } from '@/types/deploy';
 
 /**
@@ -150,6 +150,7 @@ export function useDAOCount() {
 
 /**
  * Hook for deploying a new DAO
+ * Pass a recipient to mint the whole supply to one address, or allocations to split it
  */
 export function useDeployDAO() {
   const { factoryAddress } = useFactoryAddress();
@@ -169,7 +170,7 @@ export function useDeployDAO() {
   const deployDAO = useMemo(() => {
     if (!factoryAddress) return undefined;
     
-    return async (config: ContractDAOConfig, recipient: Address) => {
+    return async (config: ContractDAOConfig, recipient: Address | TokenAllocation[]) => {
       let nonce: number | undefined = undefined;
       try {
         if (account && publicClient) {
@@ -184,7 +185,7 @@ export function useDeployDAO() {
         address: factoryAddress,
         abi: FACTORY_ABI,
         functionName: 'deployDAO',
-        args: [config, recipient] as readonly [ContractDAOConfig, Address],
+        args: [config, recipient] as readonly [ContractDAOConfig, Address | TokenAllocation[]],
         chainId,
         account,
         nonce,
@@ -0,0 +1,80 @@
+// Governance clock hook - how the selected network counts votingDelay and votingPeriod
+'use client';
+
+import { usePublicClient, useReadContract } from 'wagmi';
+import { useEffect, useMemo, useState } from 'react';
+import { Address } from 'viem';
+
+import { FACTORY_ABI, TOKEN_ABI, getContractAddress, isSupportedChain } from '@/lib/contracts';
+import { DEFAULT_CLOCK_MODE, GovernanceClock, parseClockMode } from '@/lib/contracts/clock';
+
+const BLOCK_SAMPLE_SIZE = BigInt(1000);
+
+/**
+ * Hook for the clock of the governor the factory would deploy on chainId.
+ * The mode comes from the CLOCK_MODE of a token the factory already deployed there; blocknumber clocks
+ * are converted with the chain's measured block time, falling back to the configured one.
+ */
+export function useGovernanceClock(chainId?: number, configuredBlockTime = 12): GovernanceClock {
+  const publicClient = usePublicClient({ chainId });
+  const [measuredBlockTime, setMeasuredBlockTime] = useState<number>();
+
+  const factoryAddress = useMemo(() => {
+    if (!chainId || !isSupportedChain(chainId)) return undefined;
+    try {
+      return getContractAddress(chainId, 'factory');
+    } catch {
+      return undefined;
+    }
+  }, [chainId]);
+
+  const { data: firstDAO } = useReadContract({
+    address: factoryAddress,
+    abi: FACTORY_ABI,
+    functionName: 'allDAOs',
+    args: [BigInt(0)],
+    chainId,
+    query: { enabled: !!factoryAddress, retry: false },
+  });
+  const sampleToken = firstDAO?.[0] as Address | undefined;
+
+  const { data: tokenClockMode } = useReadContract({
+    address: sampleToken,
+    abi: TOKEN_ABI,
+    functionName: 'CLOCK_MODE',
+    chainId,
+    query: { enabled: !!sampleToken },
+  });
+  const mode = parseClockMode(tokenClockMode as string | undefined);
+
+  useEffect(() => {
+    setMeasuredBlockTime(undefined);
+    if ((mode ?? DEFAULT_CLOCK_MODE) !== 'blocknumber' || !publicClient) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const latest = await publicClient.getBlock();
+        if (latest.number === null || latest.number < BLOCK_SAMPLE_SIZE) return;
+        const earlier = await publicClient.getBlock({ blockNumber: latest.number - BLOCK_SAMPLE_SIZE });
+        const seconds = Number(latest.timestamp - earlier.timestamp) / Number(BLOCK_SAMPLE_SIZE);
+        if (!cancelled && seconds > 0) setMeasuredBlockTime(seconds);
+      } catch {
+        // Keep the configured block time
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, publicClient]);
+
+  return useMemo<GovernanceClock>(() => {
+    if ((mode ?? DEFAULT_CLOCK_MODE) === 'timestamp') {
+      return { mode: 'timestamp', secondsPerUnit: 1, source: mode ? 'token' : 'network' };
+    }
+    return measuredBlockTime
+      ? { mode: 'blocknumber', secondsPerUnit: measuredBlockTime, source: 'measured' }
+      : { mode: 'blocknumber', secondsPerUnit: configuredBlockTime, source: 'network' };
+  }, [mode, measuredBlockTime, configuredBlockTime]);
+}
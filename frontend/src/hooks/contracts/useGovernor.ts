@@ -0,0 +1,254 @@
+// Governor contract hooks - proposal history, live state and voting
+'use client';
+
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useReadContract,
+  useWaitForTransactionReceipt,
+  useWatchContractEvent,
+  useWriteContract,
+} from 'wagmi';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Address, Hex } from 'viem';
+
+import {
+  GOVERNOR_ABI,
+  TOKEN_ABI,
+  ProposalState,
+  VoteCastEvent,
+  VoteSupport,
+} from '@/lib/contracts';
+import { ProposalDetails, hashProposalDescription } from '@/lib/contracts/proposals';
+
+/**
+ * Hook for listing a governor's proposals from its event history, with live state and tallies
+ */
+export function useProposals(governor?: Address) {
+  const publicClient = usePublicClient();
+  const [proposals, setProposals] = useState<ProposalDetails[]>([]);
+  const [now, setNow] = useState<bigint>(BigInt(0));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchProposals = useCallback(async () => {
+    if (!publicClient || !governor) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [created, votes, queued, latestBlock] = await Promise.all([
+        publicClient.getContractEvents({ address: governor, abi: GOVERNOR_ABI, eventName: 'ProposalCreated', fromBlock: 'earliest' }),
+        publicClient.getContractEvents({ address: governor, abi: GOVERNOR_ABI, eventName: 'VoteCast', fromBlock: 'earliest' }),
+        publicClient.getContractEvents({ address: governor, abi: GOVERNOR_ABI, eventName: 'ProposalQueued', fromBlock: 'earliest' }),
+        publicClient.getBlock(),
+      ]);
+
+      const voteCasts: VoteCastEvent[] = votes.map(log => ({
+        voter: log.args.voter as Address,
+        proposalId: log.args.proposalId as bigint,
+        support: Number(log.args.support) as VoteSupport,
+        weight: log.args.weight as bigint,
+        reason: log.args.reason ?? '',
+      }));
+      const queuedEta = new Map(queued.map(log => [String(log.args.proposalId), log.args.etaSeconds as bigint]));
+
+      const details = await Promise.all(created.map(async (log): Promise<ProposalDetails> => {
+        const id = log.args.proposalId as bigint;
+        const [state, tally, needsQueuing] = await Promise.all([
+          publicClient.readContract({ address: governor, abi: GOVERNOR_ABI, functionName: 'state', args: [id] }),
+          publicClient.readContract({ address: governor, abi: GOVERNOR_ABI, functionName: 'proposalVotes', args: [id] }),
+          publicClient.readContract({ address: governor, abi: GOVERNOR_ABI, functionName: 'proposalNeedsQueuing', args: [id] })
+            .catch(() => false),
+        ]);
+        const [againstVotes, forVotes, abstainVotes] = tally;
+
+        return {
+          id,
+          proposer: log.args.proposer as Address,
+          targets: [...(log.args.targets ?? [])],
+          values: [...(log.args.values ?? [])],
+          signatures: [...(log.args.signatures ?? [])],
+          calldatas: [...(log.args.calldatas ?? [])],
+          voteStart: log.args.voteStart as bigint,
+          voteEnd: log.args.voteEnd as bigint,
+          description: log.args.description ?? '',
+          state: Number(state) as ProposalState,
+          votes: { againstVotes, forVotes, abstainVotes },
+          eta: queuedEta.get(String(id)),
+          voteCasts: voteCasts.filter(vote => vote.proposalId === id),
+          needsQueuing,
+          createdBlock: log.blockNumber ?? undefined,
+        };
+      }));
+
+      // Newest first
+      setProposals(details.reverse());
+      setNow(latestBlock.timestamp);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load proposals'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, governor]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
+
+  // Any governor event (proposal, vote, queue, execute, cancel) changes the list
+  useWatchContractEvent({
+    address: governor,
+    abi: GOVERNOR_ABI,
+    onLogs: () => {
+      fetchProposals();
+    },
+    enabled: !!governor,
+  });
+
+  return {
+    proposals,
+    now,
+    isLoading,
+    error,
+    refetch: fetchProposals,
+  };
+}
+
+/**
+ * Hook for checking whether an account has already voted on a proposal
+ */
+export function useHasVoted(governor?: Address, proposalId?: bigint, account?: Address) {
+  const { data, isLoading, refetch } = useReadContract({
+    address: governor,
+    abi: GOVERNOR_ABI,
+    functionName: 'hasVoted',
+    args: proposalId !== undefined && account ? [proposalId, account] : undefined,
+    query: {
+      enabled: !!governor && proposalId !== undefined && !!account,
+    },
+  });
+
+  return {
+    hasVoted: Boolean(data),
+    isLoading,
+    refetch,
+  };
+}
+
+/**
+ * Hook for comparing an account's voting power against the governor's proposal threshold
+ */
+export function useProposalThreshold(governor?: Address, token?: Address, account?: Address) {
+  const { data: threshold, isLoading: thresholdLoading } = useReadContract({
+    address: governor,
+    abi: GOVERNOR_ABI,
+    functionName: 'proposalThreshold',
+    query: {
+      enabled: !!governor,
+    },
+  });
+
+  const { data: votes, isLoading: votesLoading } = useReadContract({
+    address: token,
+    abi: TOKEN_ABI,
+    functionName: 'getVotes',
+    args: account ? [account] : undefined,
+    query: {
+      enabled: !!token && !!account,
+    },
+  });
+
+  return {
+    threshold: threshold as bigint | undefined,
+    votes: votes as bigint | undefined,
+    meetsThreshold: threshold === undefined || (votes !== undefined && (votes as bigint) >= (threshold as bigint)),
+    isLoading: thresholdLoading || votesLoading,
+  };
+}
+
+/**
+ * Hook for proposing, voting on, queueing and executing proposals
+ */
+export function useGovernorActions(governor?: Address) {
+  const chainId = useChainId();
+  const { address: account } = useAccount();
+
+  const {
+    writeContract,
+    data: hash,
+    isPending,
+    isError,
+    error,
+    reset,
+  } = useWriteContract();
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  const actions = useMemo(() => {
+    if (!governor) return undefined;
+
+    const operationArgs = (proposal: Pick<ProposalDetails, 'targets' | 'values' | 'calldatas' | 'description'>) =>
+      [proposal.targets, proposal.values, proposal.calldatas, hashProposalDescription(proposal.description)] as const;
+
+    return {
+      propose: (targets: Address[], values: bigint[], calldatas: Hex[], description: string) => {
+        writeContract({
+          address: governor,
+          abi: GOVERNOR_ABI,
+          functionName: 'propose',
+          args: [targets, values, calldatas, description],
+          chainId,
+          account,
+        } as Parameters<typeof writeContract>[0]);
+      },
+      castVote: (proposalId: bigint, support: VoteSupport, reason?: string) => {
+        const trimmed = reason?.trim();
+        writeContract({
+          address: governor,
+          abi: GOVERNOR_ABI,
+          functionName: trimmed ? 'castVoteWithReason' : 'castVote',
+          args: trimmed ? [proposalId, support, trimmed] : [proposalId, support],
+          chainId,
+          account,
+        } as Parameters<typeof writeContract>[0]);
+      },
+      queue: (proposal: ProposalDetails) => {
+        writeContract({
+          address: governor,
+          abi: GOVERNOR_ABI,
+          functionName: 'queue',
+          args: operationArgs(proposal),
+          chainId,
+          account,
+        } as Parameters<typeof writeContract>[0]);
+      },
+      execute: (proposal: ProposalDetails) => {
+        writeContract({
+          address: governor,
+          abi: GOVERNOR_ABI,
+          functionName: 'execute',
+          args: operationArgs(proposal),
+          chainId,
+          account,
+        } as Parameters<typeof writeContract>[0]);
+      },
+    };
+  }, [governor, writeContract, chainId, account]);
+
+  return {
+    propose: actions?.propose,
+    castVote: actions?.castVote,
+    queue: actions?.queue,
+    execute: actions?.execute,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    isError,
+    error,
+    reset,
+  };
+}
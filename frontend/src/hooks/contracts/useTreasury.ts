@@ -0,0 +1,125 @@
+// Treasury hook - timelock balances and asset movement history
+'use client';
+
+import { usePublicClient } from 'wagmi';
+import { useCallback, useEffect, useState } from 'react';
+import { Address, Hex, erc20Abi } from 'viem';
+
+import { TIMELOCK_ABI } from '@/lib/contracts';
+import {
+  TreasuryMovement,
+  TreasuryToken,
+  TreasuryTransferLog,
+  buildTreasuryHistory,
+} from '@/lib/contracts/treasury';
+
+/**
+ * Hook for reading the timelock's native and ERC20 balances and its inflow/outflow history
+ */
+export function useTreasury(timelock?: Address, tokens: Address[] = []) {
+  const publicClient = usePublicClient();
+  const [nativeBalance, setNativeBalance] = useState<bigint | undefined>();
+  const [tokenBalances, setTokenBalances] = useState<TreasuryToken[]>([]);
+  const [history, setHistory] = useState<TreasuryMovement[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Stable dependency for the token list
+  const tokenKey = tokens.map(token => token.toLowerCase()).join(',');
+
+  const fetchTreasury = useCallback(async () => {
+    if (!publicClient || !timelock) return;
+
+    setIsLoading(true);
+    setError(null);
+    setHistoryError(null);
+
+    try {
+      const trackedTokens = tokenKey ? (tokenKey.split(',') as Address[]) : [];
+      const blockNumber = await publicClient.getBlockNumber();
+      const balance = await publicClient.getBalance({ address: timelock, blockNumber });
+
+      const balances: TreasuryToken[] = await Promise.all(trackedTokens.map(async token => {
+        const [tokenBalance, symbol, decimals] = await Promise.all([
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [timelock], blockNumber }),
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }).catch(() => `${token.slice(0, 6)}...${token.slice(-4)}`),
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18),
+        ]);
+        return { address: token, symbol, decimals, balance: tokenBalance };
+      }));
+
+      setNativeBalance(balance);
+      setTokenBalances(balances);
+
+      try {
+        const transfers = await Promise.all(balances.map(async token => {
+          const [incoming, outgoing] = await Promise.all([
+            publicClient.getContractEvents({ address: token.address, abi: erc20Abi, eventName: 'Transfer', args: { to: timelock }, fromBlock: 'earliest', toBlock: blockNumber }),
+            publicClient.getContractEvents({ address: token.address, abi: erc20Abi, eventName: 'Transfer', args: { from: timelock }, fromBlock: 'earliest', toBlock: blockNumber }),
+          ]);
+          return [...incoming, ...outgoing].map((log): TreasuryTransferLog => ({
+            token: token.address,
+            symbol: token.symbol,
+            decimals: token.decimals,
+            from: log.args.from as Address,
+            to: log.args.to as Address,
+            value: log.args.value as bigint,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+          }));
+        }));
+
+        const calls = await publicClient.getContractEvents({
+          address: timelock,
+          abi: TIMELOCK_ABI,
+          eventName: 'CallExecuted',
+          fromBlock: 'earliest',
+          toBlock: blockNumber,
+        });
+
+        const movements = buildTreasuryHistory(timelock, transfers.flat(), calls.map(log => ({
+          target: log.args.target as Address,
+          value: log.args.value as bigint,
+          data: log.args.data as Hex,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+        })));
+
+        // Timestamps for the blocks that moved funds
+        const blocks = Array.from(new Set(movements.map(movement => movement.blockNumber)));
+        const timestamps = new Map(await Promise.all(blocks.map(async block => {
+          const { timestamp } = await publicClient.getBlock({ blockNumber: block });
+          return [block, Number(timestamp)] as const;
+        })));
+
+        // Newest first
+        setHistory(movements.map(movement => ({ ...movement, timestamp: timestamps.get(movement.blockNumber) })).reverse());
+      } catch {
+        // RPC does not serve historical logs - balances are still shown
+        setHistory([]);
+        setHistoryError('History is unavailable from this RPC endpoint');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load treasury'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, timelock, tokenKey]);
+
+  useEffect(() => {
+    fetchTreasury();
+  }, [fetchTreasury]);
+
+  return {
+    nativeBalance,
+    tokenBalances,
+    history,
+    historyError,
+    isLoading,
+    error,
+    refetch: fetchTreasury,
+  };
+}
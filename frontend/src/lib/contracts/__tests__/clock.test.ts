@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import {
+  GovernanceClock,
+  clockUnitsToSeconds,
+  formatClockUnits,
+  getGovernanceTimingWarnings,
+  parseClockMode,
+  secondsToClockUnits,
+} from '../clock';
+import { validateGovernanceParams } from '@/lib/validation/deploy';
+import { GOVERNANCE_PRESETS } from '@/types/deploy';
+
+const TIMESTAMP: GovernanceClock = { mode: 'timestamp', secondsPerUnit: 1, source: 'token' };
+const ETHEREUM_BLOCKS: GovernanceClock = { mode: 'blocknumber', secondsPerUnit: 12, source: 'network' };
+const ETHEREUM = { name: 'Ethereum', blockTime: 12 };
+
+describe('parseClockMode', () => {
+  it('should read the mode from an EIP-6372 CLOCK_MODE string', () => {
+    expect(parseClockMode('mode=timestamp')).toBe('timestamp');
+    expect(parseClockMode('mode=blocknumber&from=default')).toBe('blocknumber');
+    expect(parseClockMode('mode=seconds')).toBeUndefined();
+    expect(parseClockMode(undefined)).toBeUndefined();
+  });
+});
+
+describe('secondsToClockUnits', () => {
+  it('should count seconds one to one on timestamp clocks', () => {
+    expect(secondsToClockUnits(604800, TIMESTAMP)).toBe(604800);
+    expect(clockUnitsToSeconds(604800, TIMESTAMP)).toBe(604800);
+    expect(formatClockUnits(604800, TIMESTAMP)).toBe('604800 seconds');
+  });
+
+  it('should divide by the block time on blocknumber clocks', () => {
+    expect(secondsToClockUnits(604800, ETHEREUM_BLOCKS)).toBe(50400);
+    expect(clockUnitsToSeconds(50400, ETHEREUM_BLOCKS)).toBe(604800);
+    expect(formatClockUnits(50400, ETHEREUM_BLOCKS)).toBe('50400 blocks');
+  });
+
+  it('should round to the nearest whole block and never below one', () => {
+    expect(secondsToClockUnits(17, ETHEREUM_BLOCKS)).toBe(1);
+    expect(secondsToClockUnits(19, ETHEREUM_BLOCKS)).toBe(2);
+    expect(secondsToClockUnits(0, ETHEREUM_BLOCKS)).toBe(1);
+    expect(secondsToClockUnits(3600, { mode: 'blocknumber', secondsPerUnit: 0.25, source: 'measured' })).toBe(14400);
+    expect(formatClockUnits(1, ETHEREUM_BLOCKS)).toBe('1 block');
+  });
+});
+
+describe('governance presets', () => {
+  it.each(Object.entries(GOVERNANCE_PRESETS))('should keep the %s preset valid and convert it on both clocks', (_, preset) => {
+    expect(validateGovernanceParams(preset)).toEqual([]);
+
+    expect(secondsToClockUnits(preset.votingDelay, TIMESTAMP)).toBe(preset.votingDelay);
+    expect(secondsToClockUnits(preset.votingPeriod, TIMESTAMP)).toBe(preset.votingPeriod);
+    expect(secondsToClockUnits(preset.votingDelay, ETHEREUM_BLOCKS)).toBe(preset.votingDelay / 12);
+    expect(secondsToClockUnits(preset.votingPeriod, ETHEREUM_BLOCKS)).toBe(preset.votingPeriod / 12);
+    expect(getGovernanceTimingWarnings(preset.votingDelay, preset.votingPeriod, ETHEREUM_BLOCKS, ETHEREUM)).toEqual([]);
+  });
+
+  it('should convert the conservative preset to the block counts Ethereum governors use', () => {
+    const { votingDelay, votingPeriod } = GOVERNANCE_PRESETS.conservative;
+
+    expect([secondsToClockUnits(votingDelay, ETHEREUM_BLOCKS), secondsToClockUnits(votingPeriod, ETHEREUM_BLOCKS)]).toEqual([7200, 50400]);
+  });
+});
+
+describe('getGovernanceTimingWarnings', () => {
+  it('should warn about windows that are too short once rounded to the clock', () => {
+    const warnings = getGovernanceTimingWarnings(60, 3600, TIMESTAMP, ETHEREUM);
+
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('Voting stays open for only');
+    expect(warnings[1]).toContain('Voting starts');
+  });
+
+  it('should warn when the measured block time drifts from the configured one', () => {
+    const measured: GovernanceClock = { mode: 'blocknumber', secondsPerUnit: 20, source: 'measured' };
+
+    expect(getGovernanceTimingWarnings(86400, 604800, measured, ETHEREUM)).toEqual([expect.stringContaining('every 20.00s instead of 12s')]);
+    expect(getGovernanceTimingWarnings(86400, 604800, { ...measured, source: 'network' }, ETHEREUM)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import { aggregateDistribution, parseDistributionList } from '../distribution';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('parseDistributionList', () => {
+  it('should read quoted amounts with thousands separators', () => {
+    const { entries, issues } = parseDistributionList(`${ALICE},"1,000"\n${BOB},"2,500.5"`);
+
+    expect(issues).toEqual([]);
+    expect(entries).toEqual([
+      { line: 1, address: ALICE, amount: '1000' },
+      { line: 2, address: BOB, amount: '2500.5' },
+    ]);
+  });
+
+  it('should split rows on semicolons and tabs', () => {
+    const { entries, issues } = parseDistributionList(`${ALICE};10\n${BOB}\t20`);
+
+    expect(issues).toEqual([]);
+    expect(entries.map(entry => [entry.address, entry.amount])).toEqual([[ALICE, '10'], [BOB, '20']]);
+  });
+
+  it('should skip a header row and comments', () => {
+    const { entries, issues } = parseDistributionList(`address,amount\n# team\n${ALICE},10`);
+
+    expect(issues).toEqual([]);
+    expect(entries).toEqual([{ line: 3, address: ALICE, amount: '10' }]);
+  });
+
+  it('should read JSON objects and pairs', () => {
+    expect(parseDistributionList(JSON.stringify([{ address: ALICE, amount: '1' }, [BOB, 2]])).entries)
+      .toEqual([{ line: 1, address: ALICE, amount: '1' }, { line: 2, address: BOB, amount: '2' }]);
+    expect(parseDistributionList('[{').issues).toEqual([expect.objectContaining({ severity: 'error', message: expect.stringContaining('Invalid JSON') })]);
+  });
+
+  it('should reject bad checksums, the zero address and non-positive amounts', () => {
+    const badChecksum = ALICE.replace('C51812dc', 'c51812DC');
+    const { entries, issues } = parseDistributionList([
+      `${badChecksum},1`,
+      '0x0000000000000000000000000000000000000000,1',
+      `${ALICE},0`,
+      `${BOB},-5`,
+    ].join('\n'));
+
+    expect(entries).toEqual([]);
+    expect(issues.filter(issue => issue.severity === 'error').map(issue => issue.line)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should warn about addresses without a checksum', () => {
+    const { entries, issues } = parseDistributionList(`${ALICE.toLowerCase()},1`);
+
+    expect(entries).toEqual([{ line: 1, address: ALICE, amount: '1' }]);
+    expect(issues).toEqual([expect.objectContaining({ severity: 'warning', message: expect.stringContaining('not checksummed') })]);
+  });
+});
+
+describe('aggregateDistribution', () => {
+  it('should reject duplicates unless asked to merge them', () => {
+    const { entries } = parseDistributionList(`${ALICE},1\n${BOB},2\n${ALICE.toLowerCase()},3`);
+
+    const rejected = aggregateDistribution(entries, 18);
+    expect(rejected.recipients.map(recipient => recipient.address)).toEqual([ALICE, BOB]);
+    expect(rejected.issues).toEqual([{ line: 3, severity: 'error', message: `${ALICE} already appears on line 1` }]);
+
+    const merged = aggregateDistribution(entries, 18, true);
+    expect(merged.recipients[0]).toEqual({ address: ALICE, amount: BigInt(4) * BigInt(10) ** BigInt(18), lines: [1, 3] });
+    expect(merged.total).toBe(BigInt(6) * BigInt(10) ** BigInt(18));
+    expect(merged.issues).toEqual([expect.objectContaining({ severity: 'warning' })]);
+  });
+
+  it('should reject amounts with more decimals than the token', () => {
+    const { entries } = parseDistributionList(`${ALICE},1.5\n${BOB},0.1234567`);
+
+    const { recipients, issues } = aggregateDistribution(entries, 6);
+    expect(recipients).toEqual([{ address: ALICE, amount: BigInt(1500000), lines: [1] }]);
+    expect(issues).toEqual([{ line: 2, severity: 'error', message: '0.1234567 has more than 6 decimals' }]);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+import { getFeeBreakdown } from '../l1-fees';
+
+const GAS = BigInt(1000);
+const GAS_PRICE = BigInt(10);
+
+describe('getFeeBreakdown', () => {
+  it('should charge the whole gas cost as execution without an L1 fee', () => {
+    expect(getFeeBreakdown(GAS, GAS_PRICE)).toEqual({ executionWei: BigInt(10000), l1DataWei: BigInt(0), totalWei: BigInt(10000) });
+  });
+
+  it('should add OP Stack L1 fees on top of the gas cost', () => {
+    const l1Fee = { rollup: 'op-stack' as const, l1FeeWei: BigInt(2500), includedInGasEstimate: false };
+
+    expect(getFeeBreakdown(GAS, GAS_PRICE, l1Fee)).toEqual({ executionWei: BigInt(10000), l1DataWei: BigInt(2500), totalWei: BigInt(12500) });
+  });
+
+  it('should split Arbitrum L1 fees out of the gas cost', () => {
+    const l1Fee = { rollup: 'arbitrum' as const, l1FeeWei: BigInt(4000), includedInGasEstimate: true };
+
+    expect(getFeeBreakdown(GAS, GAS_PRICE, l1Fee)).toEqual({ executionWei: BigInt(6000), l1DataWei: BigInt(4000), totalWei: BigInt(10000) });
+  });
+
+  it('should not report negative execution when the Arbitrum L1 estimate exceeds the gas cost', () => {
+    const l1Fee = { rollup: 'arbitrum' as const, l1FeeWei: BigInt(15000), includedInGasEstimate: true };
+
+    expect(getFeeBreakdown(GAS, GAS_PRICE, l1Fee).executionWei).toBe(BigInt(0));
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { parseUnits } from 'viem';
+import { getSimulatedHolders, simulateGovernance, SimulatedHolder } from '../simulation';
+import { AllocationRow } from '@/types/deploy';
+
+const tokens = (amount: number) => parseUnits(String(amount), 18);
+const SUPPLY = tokens(1000);
+
+function row(overrides: Partial<AllocationRow>): AllocationRow {
+  return { id: 'row', kind: 'recipient', address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '10', unit: 'percent', ...overrides };
+}
+
+function holder(label: string, amount: number, canVote = true): SimulatedHolder {
+  return { label, amount: tokens(amount), canVote };
+}
+
+describe('getSimulatedHolders', () => {
+  it('should mint everything to the initial recipient without allocations', () => {
+    expect(getSimulatedHolders({ initialRecipient: ' 0xabc ' }, SUPPLY)).toEqual([{ label: '0xabc', amount: SUPPLY, canVote: true }]);
+    expect(getSimulatedHolders({}, BigInt(0))).toEqual([]);
+  });
+
+  it('should exclude treasury and vesting holders from voting', () => {
+    const holders = getSimulatedHolders({
+      allocations: [
+        row({ amount: '50' }),
+        row({ kind: 'treasury', address: '', amount: '30' }),
+        row({ amount: '20', vesting: { startDate: '2026-01-01', durationDays: 365 } }),
+        row({ amount: 'abc' }),
+      ],
+    }, SUPPLY);
+
+    expect(holders.map(({ label, amount, canVote }) => [label, amount, canVote])).toEqual([
+      ['0x70997970C51812dc3A010C7d01b50e0d17dc79C8', tokens(500), true],
+      ['DAO treasury', tokens(300), false],
+      ['0x70997970C51812dc3A010C7d01b50e0d17dc79C8 (vesting)', tokens(200), false],
+    ]);
+  });
+});
+
+describe('simulateGovernance', () => {
+  it('should measure quorum against the total supply, including tokens that cannot vote', () => {
+    const holders = [holder('a', 100), holder('b', 100), holder('treasury', 800, false)];
+
+    const simulation = simulateGovernance(holders, SUPPLY, 10, '0', 50);
+
+    expect(simulation.votableSupply).toBe(tokens(200));
+    expect(simulation.quorumVotes).toBe(tokens(100));
+    expect(simulation.expectedVotes).toBe(tokens(100));
+    expect(simulation.reachesQuorum).toBe(true);
+    expect(simulation.requiredTurnout).toBe(50);
+    expect(simulation.holdersForQuorum).toBe(1);
+  });
+
+  it('should report quorum as unreachable when voting holders cannot meet it together', () => {
+    const simulation = simulateGovernance([holder('a', 100), holder('treasury', 900, false)], SUPPLY, 20, '0', 100);
+
+    expect(simulation.reachesQuorum).toBe(false);
+    expect(simulation.requiredTurnout).toBe(200);
+    expect(simulation.holdersForQuorum).toBeNull();
+  });
+
+  it('should count holders at or above the proposal threshold', () => {
+    const simulation = simulateGovernance([holder('a', 500), holder('b', 100), holder('c', 99)], SUPPLY, 4, '100', 50);
+
+    expect(simulation.eligibleProposers).toBe(2);
+    expect(simulation.votingHolders).toBe(3);
+    expect(simulation.largestHolder?.label).toBe('a');
+  });
+
+  it('should flag whale capture only when the largest holder both meets quorum and outvotes the rest', () => {
+    // Meets quorum and outvotes the others at 50% turnout
+    const capture = simulateGovernance([holder('whale', 400), holder('b', 300), holder('c', 300)], SUPPLY, 30, '0', 50);
+    expect(capture).toMatchObject({ whaleMeetsQuorum: true, whaleOutvotes: true, whaleCapture: true });
+
+    // Meets quorum but the others outvote it at full turnout
+    const outvoted = simulateGovernance([holder('whale', 400), holder('b', 300), holder('c', 300)], SUPPLY, 30, '0', 100);
+    expect(outvoted).toMatchObject({ whaleMeetsQuorum: true, whaleOutvotes: false, whaleCapture: false });
+
+    // Outvotes the others but falls short of quorum
+    const belowQuorum = simulateGovernance([holder('whale', 400), holder('b', 100), holder('treasury', 500, false)], SUPPLY, 50, '0', 100);
+    expect(belowQuorum).toMatchObject({ whaleMeetsQuorum: false, whaleOutvotes: true, whaleCapture: false });
+  });
+
+  it('should not flag anything without voting holders', () => {
+    const simulation = simulateGovernance([holder('treasury', 1000, false)], SUPPLY, 4, '0', 50);
+
+    expect(simulation).toMatchObject({ votingHolders: 0, requiredTurnout: Infinity, whaleCapture: false });
+    expect(simulation.largestHolder).toBeUndefined();
+  });
+});
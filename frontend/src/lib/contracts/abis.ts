@@ -127,6 +127,104 @@ export const FACTORY_ABI = [
     ],
     stateMutability: "nonpayable"
   },
+  {
+    type: "function",
+    name: "deployDAO",
+    inputs: [
+      {
+        name: "config",
+        type: "tuple",
+        internalType: "struct SimpleDAOFactory.DAOConfig",
+        components: [
+          {
+            name: "tokenName",
+            type: "string",
+            internalType: "string"
+          },
+          {
+            name: "tokenSymbol",
+            type: "string",
+            internalType: "string"
+          },
+          {
+            name: "initialSupply",
+            type: "uint256",
+            internalType: "uint256"
+          },
+          {
+            name: "votingDelay",
+            type: "uint256",
+            internalType: "uint256"
+          },
+          {
+            name: "votingPeriod",
+            type: "uint256",
+            internalType: "uint256"
+          },
+          {
+            name: "proposalThreshold",
+            type: "uint256",
+            internalType: "uint256"
+          },
+          {
+            name: "quorumPercentage",
+            type: "uint256",
+            internalType: "uint256"
+          },
+          {
+            name: "timelockDelay",
+            type: "uint256",
+            internalType: "uint256"
+          }
+        ]
+      },
+      {
+        name: "allocations",
+        type: "tuple[]",
+        internalType: "struct SimpleDAOFactoryV2.Allocation[]",
+        components: [
+          {
+            name: "recipient",
+            type: "address",
+            internalType: "address"
+          },
+          {
+            name: "amount",
+            type: "uint256",
+            internalType: "uint256"
+          },
+          {
+            name: "vestingStart",
+            type: "uint64",
+            internalType: "uint64"
+          },
+          {
+            name: "vestingDuration",
+            type: "uint64",
+            internalType: "uint64"
+          }
+        ]
+      }
+    ],
+    outputs: [
+      {
+        name: "token",
+        type: "address",
+        internalType: "address"
+      },
+      {
+        name: "governor",
+        type: "address",
+        internalType: "address"
+      },
+      {
+        name: "timelock",
+        type: "address",
+        internalType: "address"
+      }
+    ],
+    stateMutability: "nonpayable"
+  },
   {
     type: "function",
     name: "getAllDAOs",
@@ -291,6 +389,37 @@ export const FACTORY_ABI = [
       }
     ],
     anonymous: false
+  },
+  {
+    type: "event",
+    name: "TokensAllocated",
+    inputs: [
+      {
+        name: "token",
+        type: "address",
+        indexed: true,
+        internalType: "address"
+      },
+      {
+        name: "recipient",
+        type: "address",
+        indexed: true,
+        internalType: "address"
+      },
+      {
+        name: "vestingWallet",
+        type: "address",
+        indexed: false,
+        internalType: "address"
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256"
+      }
+    ],
+    anonymous: false
   }
 ] as const;
 
@@ -340,14 +469,14 @@ export const GOVERNOR_ABI = [
     type: "event",
     name: "ProposalCreated",
     inputs: [
-      { name: "proposalId", type: "uint256", indexed: true },
-      { name: "proposer", type: "address", indexed: true },
+      { name: "proposalId", type: "uint256", indexed: false },
+      { name: "proposer", type: "address", indexed: false },
       { name: "targets", type: "address[]", indexed: false },
       { name: "values", type: "uint256[]", indexed: false },
       { name: "signatures", type: "string[]", indexed: false },
       { name: "calldatas", type: "bytes[]", indexed: false },
-      { name: "startBlock", type: "uint256", indexed: false },
-      { name: "endBlock", type: "uint256", indexed: false },
+      { name: "voteStart", type: "uint256", indexed: false },
+      { name: "voteEnd", type: "uint256", indexed: false },
       { name: "description", type: "string", indexed: false }
     ],
     anonymous: false
@@ -363,6 +492,194 @@ export const GOVERNOR_ABI = [
       { name: "reason", type: "string", indexed: false }
     ],
     anonymous: false
+  },
+  {
+    type: "function",
+    name: "token",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "timelock",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "upgradeAuthority",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "votingDelay",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "votingPeriod",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "proposalThreshold",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "quorumNumerator",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "CLOCK_MODE",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "castVoteWithReason",
+    inputs: [
+      { name: "proposalId", type: "uint256" },
+      { name: "support", type: "uint8" },
+      { name: "reason", type: "string" }
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "queue",
+    inputs: [
+      { name: "targets", type: "address[]" },
+      { name: "values", type: "uint256[]" },
+      { name: "calldatas", type: "bytes[]" },
+      { name: "descriptionHash", type: "bytes32" }
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "execute",
+    inputs: [
+      { name: "targets", type: "address[]" },
+      { name: "values", type: "uint256[]" },
+      { name: "calldatas", type: "bytes[]" },
+      { name: "descriptionHash", type: "bytes32" }
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "payable"
+  },
+  {
+    type: "function",
+    name: "hasVoted",
+    inputs: [
+      { name: "proposalId", type: "uint256" },
+      { name: "account", type: "address" }
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "proposalSnapshot",
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "proposalDeadline",
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "proposalEta",
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "proposalNeedsQueuing",
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "setVotingDelay",
+    inputs: [{ name: "newVotingDelay", type: "uint48" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "setVotingPeriod",
+    inputs: [{ name: "newVotingPeriod", type: "uint32" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "setProposalThreshold",
+    inputs: [{ name: "newProposalThreshold", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "updateQuorumNumerator",
+    inputs: [{ name: "newQuorumNumerator", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "upgradeToAndCall",
+    inputs: [
+      { name: "newImplementation", type: "address" },
+      { name: "data", type: "bytes" }
+    ],
+    outputs: [],
+    stateMutability: "payable"
+  },
+  {
+    type: "event",
+    name: "ProposalQueued",
+    inputs: [
+      { name: "proposalId", type: "uint256", indexed: false },
+      { name: "etaSeconds", type: "uint256", indexed: false }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "ProposalExecuted",
+    inputs: [{ name: "proposalId", type: "uint256", indexed: false }],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "ProposalCanceled",
+    inputs: [{ name: "proposalId", type: "uint256", indexed: false }],
+    anonymous: false
   }
 ] as const;
 
@@ -417,6 +734,26 @@ export const TOKEN_ABI = [
     outputs: [{ name: "", type: "string" }],
     stateMutability: "view"
   },
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" }
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "mint",
+    inputs: [
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint256" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
   {
     type: "function",
     name: "decimals",
@@ -434,6 +771,52 @@ export const TOKEN_ABI = [
     ],
     anonymous: false
   },
+  {
+    type: "function",
+    name: "delegateBySig",
+    inputs: [
+      { name: "delegatee", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "expiry", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "nonces",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "eip712Domain",
+    inputs: [],
+    outputs: [
+      { name: "fields", type: "bytes1" },
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" },
+      { name: "salt", type: "bytes32" },
+      { name: "extensions", type: "uint256[]" }
+    ],
+    stateMutability: "view"
+  },
+  {
+    type: "event",
+    name: "DelegateVotesChanged",
+    inputs: [
+      { name: "delegate", type: "address", indexed: true },
+      { name: "previousVotes", type: "uint256", indexed: false },
+      { name: "newVotes", type: "uint256", indexed: false }
+    ],
+    anonymous: false
+  },
   {
     type: "event",
     name: "DelegateChanged",
@@ -443,6 +826,37 @@ export const TOKEN_ABI = [
       { name: "toDelegate", type: "address", indexed: true }
     ],
     anonymous: false
+  },
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "upgradeAuthority",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "upgradeToAndCall",
+    inputs: [
+      { name: "newImplementation", type: "address" },
+      { name: "data", type: "bytes" }
+    ],
+    outputs: [],
+    stateMutability: "payable"
+  },
+  {
+    type: "function",
+    name: "CLOCK_MODE",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view"
   }
 ] as const;
 
@@ -502,6 +916,23 @@ export const TIMELOCK_ABI = [
     outputs: [{ name: "duration", type: "uint256" }],
     stateMutability: "view"
   },
+  {
+    type: "function",
+    name: "updateDelay",
+    inputs: [{ name: "newDelay", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "upgradeToAndCall",
+    inputs: [
+      { name: "newImplementation", type: "address" },
+      { name: "data", type: "bytes" }
+    ],
+    outputs: [],
+    stateMutability: "payable"
+  },
   {
     type: "event",
     name: "CallExecuted",
@@ -513,5 +944,119 @@ export const TIMELOCK_ABI = [
       { name: "data", type: "bytes", indexed: false }
     ],
     anonymous: false
+  },
+  {
+    type: "function",
+    name: "hasRole",
+    inputs: [
+      { name: "role", type: "bytes32" },
+      { name: "account", type: "address" }
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "event",
+    name: "RoleGranted",
+    inputs: [
+      { name: "role", type: "bytes32", indexed: true },
+      { name: "account", type: "address", indexed: true },
+      { name: "sender", type: "address", indexed: true }
+    ],
+    anonymous: false
   }
-] as const;
\ No newline at end of file
+] as const;
+// Merkle airdrop distributor ABI
+export const MERKLE_DISTRIBUTOR_ABI = [
+  {
+    type: "function",
+    name: "token",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "merkleRoot",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "claimDeadline",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "treasury",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "isClaimed",
+    inputs: [{ name: "index", type: "uint256" }],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "claim",
+    inputs: [
+      { name: "index", type: "uint256" },
+      { name: "account", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "merkleProof", type: "bytes32[]" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "claimAndDelegate",
+    inputs: [
+      { name: "index", type: "uint256" },
+      { name: "account", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "merkleProof", type: "bytes32[]" },
+      { name: "delegatee", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "expiry", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "sweep",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "event",
+    name: "Claimed",
+    inputs: [
+      { name: "index", type: "uint256", indexed: true },
+      { name: "account", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false }
+    ],
+    anonymous: false
+  },
+  {
+    type: "event",
+    name: "Swept",
+    inputs: [
+      { name: "treasury", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false }
+    ],
+    anonymous: false
+  }
+] as const;
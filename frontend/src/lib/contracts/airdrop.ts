@@ -0,0 +1,62 @@
+// Merkle airdrop helpers - reads the proofs JSON written by the MCP build-merkle-airdrop tool
+import { Address, Hex, getAddress, isAddress } from 'viem';
+
+export interface AirdropClaim {
+  index: bigint;
+  amount: bigint;
+  proof: Hex[];
+}
+
+export interface AirdropProofs {
+  merkleRoot: Hex;
+  chainId?: number;
+  tokenAddress?: Address;
+  distributorAddress?: Address;
+  decimals: number;
+  total: bigint;
+  claims: Map<string, AirdropClaim>; // Keyed by lowercase address
+}
+
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Parse and check a proofs JSON document, throwing on the first malformed entry
+ */
+export function parseAirdropProofs(json: string): AirdropProofs {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object' || !BYTES32_PATTERN.test(data.merkleRoot) || typeof data.claims !== 'object') {
+    throw new Error('Expected a proofs file with merkleRoot and claims');
+  }
+
+  const claims = new Map<string, AirdropClaim>();
+  for (const [address, claim] of Object.entries<any>(data.claims)) {
+    if (!isAddress(address, { strict: false }) || !claim || !Array.isArray(claim.proof)
+      || !claim.proof.every((node: unknown) => typeof node === 'string' && BYTES32_PATTERN.test(node))) {
+      throw new Error(`Malformed claim for ${address}`);
+    }
+    claims.set(address.toLowerCase(), {
+      index: BigInt(claim.index),
+      amount: BigInt(claim.amount),
+      proof: claim.proof as Hex[],
+    });
+  }
+
+  return {
+    merkleRoot: data.merkleRoot as Hex,
+    chainId: typeof data.chainId === 'number' ? data.chainId : undefined,
+    tokenAddress: data.tokenAddress && isAddress(data.tokenAddress, { strict: false }) ? getAddress(data.tokenAddress) : undefined,
+    distributorAddress: data.distributorAddress && isAddress(data.distributorAddress, { strict: false })
+      ? getAddress(data.distributorAddress)
+      : undefined,
+    decimals: typeof data.decimals === 'number' ? data.decimals : 18,
+    total: BigInt(data.total ?? 0),
+    claims,
+  };
+}
+
+/**
+ * The claim for an account, if it is in the tree
+ */
+export function findAirdropClaim(proofs: AirdropProofs, account: string): AirdropClaim | undefined {
+  return proofs.claims.get(account.toLowerCase());
+}
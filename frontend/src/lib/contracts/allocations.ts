@@ -0,0 +1,77 @@
+// Initial supply allocations - converts the wizard's allocation table into factory arguments
+import { Address, getAddress, parseUnits, zeroAddress } from 'viem';
+import { AllocationRow } from '@/types/deploy';
+import { TokenAllocation } from './types';
+
+// The factory sends rows with the zero address to the timelock it deploys
+export const TREASURY_RECIPIENT: Address = zeroAddress;
+
+const PERCENT_PATTERN = /^\d+(\.\d{1,2})?$/;
+const TOKEN_AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const SECONDS_PER_DAY = BigInt(86400);
+
+/**
+ * Amount of a row in token base units (18 decimals), or null when it can't be parsed.
+ * Percentages are applied in basis points so whole-token supplies split exactly.
+ */
+export function getAllocationAmount(row: AllocationRow, supplyWei: bigint): bigint | null {
+  const amount = row.amount.trim();
+  try {
+    if (row.unit === 'percent') {
+      if (!PERCENT_PATTERN.test(amount)) return null;
+      return (supplyWei * parseUnits(amount, 2)) / BigInt(10000);
+    }
+    if (!TOKEN_AMOUNT_PATTERN.test(amount)) return null;
+    return parseUnits(amount, 18);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Unix timestamp for a YYYY-MM-DD vesting start (midnight UTC), or null when invalid
+ */
+export function getVestingStart(startDate: string): bigint | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) return null;
+  const time = Date.parse(`${startDate}T00:00:00Z`);
+  return Number.isNaN(time) ? null : BigInt(time / 1000);
+}
+
+/**
+ * Factory allocation structs for the table, or null when any row is incomplete
+ */
+export function toContractAllocations(rows: AllocationRow[], initialSupply: string): TokenAllocation[] | null {
+  let supplyWei: bigint;
+  try {
+    supplyWei = parseUnits(initialSupply, 18);
+  } catch {
+    return null;
+  }
+
+  const allocations: TokenAllocation[] = [];
+  for (const row of rows) {
+    const amount = getAllocationAmount(row, supplyWei);
+    if (amount === null) return null;
+
+    let recipient = TREASURY_RECIPIENT;
+    if (row.kind === 'recipient') {
+      try {
+        recipient = getAddress(row.address.trim());
+      } catch {
+        return null;
+      }
+    }
+
+    let vestingStart = BigInt(0);
+    let vestingDuration = BigInt(0);
+    if (row.vesting) {
+      const start = getVestingStart(row.vesting.startDate);
+      if (start === null || !Number.isInteger(row.vesting.durationDays) || row.vesting.durationDays <= 0) return null;
+      vestingStart = start;
+      vestingDuration = BigInt(row.vesting.durationDays) * SECONDS_PER_DAY;
+    }
+
+    allocations.push({ recipient, amount, vestingStart, vestingDuration });
+  }
+  return allocations;
+}
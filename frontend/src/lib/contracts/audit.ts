@@ -0,0 +1,179 @@
+// DAO health audit - evaluates live DAO wiring against the factory configuration
+import { Address, keccak256, toHex, zeroAddress, zeroHash } from 'viem';
+
+export type AuditStatus = 'pass' | 'warn' | 'fail';
+
+export interface AuditCheck {
+  id: string;
+  title: string;
+  status: AuditStatus;
+  detail: string;
+  remediation?: string;
+}
+
+export type TimelockRoleName = 'proposer' | 'canceller' | 'executor' | 'admin';
+
+// TimelockController role identifiers
+export const TIMELOCK_ROLES: Record<TimelockRoleName, `0x${string}`> = {
+  proposer: keccak256(toHex('PROPOSER_ROLE')),
+  canceller: keccak256(toHex('CANCELLER_ROLE')),
+  executor: keccak256(toHex('EXECUTOR_ROLE')),
+  admin: zeroHash,
+};
+
+// Live DAO state read from chain
+export interface DAOAuditState {
+  governor?: Address;
+  token?: Address;
+  timelock?: Address;
+  governorToken?: Address;
+  governorTimelock?: Address;
+  governorUpgradeAuthority?: Address;
+  tokenOwner?: Address;
+  tokenUpgradeAuthority?: Address;
+  roleHolders?: Record<TimelockRoleName, Address[]>;
+  governorClockMode?: string;
+  tokenClockMode?: string;
+  quorumPercentage?: bigint;
+}
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Evaluate DAO wiring: the governor is the only proposer and canceller, execution is open,
+ * the timelock administers itself and owns/upgrades the token and governor
+ */
+export function evaluateDAOAudit(state: DAOAuditState): AuditCheck[] {
+  const checks: AuditCheck[] = [];
+  const { governor, token, timelock, roleHolders } = state;
+
+  if (!governor || !token || !timelock) {
+    checks.push({
+      id: 'resolution',
+      title: 'DAO contracts located',
+      status: 'fail',
+      detail: 'Could not locate the governor, token and timelock from this address',
+      remediation: 'Open the audit from the governor address, which references both the token and the timelock',
+    });
+    return checks;
+  }
+
+  const linked = sameAddress(state.governorToken, token) && sameAddress(state.governorTimelock, timelock);
+  checks.push({
+    id: 'governor-links',
+    title: 'Governor references token and timelock',
+    status: linked ? 'pass' : 'fail',
+    detail: linked ? 'Governor votes with the token and executes through the timelock' : 'Governor token() or timelock() does not match this DAO',
+    remediation: linked ? undefined : 'Redeploy the governor with the correct token and timelock',
+  });
+
+  if (!roleHolders) {
+    checks.push({
+      id: 'timelock-roles',
+      title: 'Timelock role holders',
+      status: 'warn',
+      detail: 'Role history could not be read from this RPC endpoint',
+      remediation: 'Retry against an archive RPC endpoint',
+    });
+  } else {
+    const others = (holders: Address[]) => holders.filter(holder => !sameAddress(holder, governor));
+
+    const extraProposers = others(roleHolders.proposer);
+    const governorProposes = roleHolders.proposer.some(holder => sameAddress(holder, governor));
+    checks.push({
+      id: 'timelock-proposers',
+      title: 'Only the governor can propose to the timelock',
+      status: governorProposes && extraProposers.length === 0 ? 'pass' : 'fail',
+      detail: !governorProposes
+        ? 'The governor does not hold PROPOSER_ROLE'
+        : extraProposers.length > 0 ? `PROPOSER_ROLE is also held by ${extraProposers.join(', ')}` : 'PROPOSER_ROLE is held by the governor only',
+      remediation: !governorProposes
+        ? 'Grant PROPOSER_ROLE to the governor from a timelock admin'
+        : extraProposers.length > 0 ? 'Revoke the extra proposers through a governance proposal calling timelock.revokeRole' : undefined,
+    });
+
+    const extraCancellers = others(roleHolders.canceller);
+    const governorCancels = roleHolders.canceller.some(holder => sameAddress(holder, governor));
+    checks.push({
+      id: 'timelock-cancellers',
+      title: 'Only the governor can cancel timelock operations',
+      status: governorCancels && extraCancellers.length === 0 ? 'pass' : 'warn',
+      detail: extraCancellers.length > 0
+        ? `CANCELLER_ROLE is held by ${extraCancellers.join(', ')}, who can veto queued proposals`
+        : governorCancels ? 'CANCELLER_ROLE is held by the governor only' : 'The governor does not hold CANCELLER_ROLE',
+      remediation: extraCancellers.length > 0
+        ? 'Revoke the extra cancellers through a governance proposal calling timelock.revokeRole'
+        : governorCancels ? undefined : 'Grant CANCELLER_ROLE to the governor through a governance proposal',
+    });
+
+    const openExecution = roleHolders.executor.some(holder => sameAddress(holder, zeroAddress));
+    checks.push({
+      id: 'timelock-executors',
+      title: 'Timelock execution is open',
+      status: openExecution ? 'pass' : 'warn',
+      detail: openExecution ? 'Anyone can execute ready operations' : `EXECUTOR_ROLE is restricted to ${roleHolders.executor.join(', ') || 'nobody'}`,
+      remediation: openExecution ? undefined : 'Grant EXECUTOR_ROLE to the zero address through a governance proposal',
+    });
+
+    const extraAdmins = roleHolders.admin.filter(holder => !sameAddress(holder, timelock));
+    checks.push({
+      id: 'timelock-admin',
+      title: 'Only the timelock administers itself',
+      status: extraAdmins.length === 0 ? 'pass' : 'fail',
+      detail: extraAdmins.length === 0
+        ? 'DEFAULT_ADMIN_ROLE is held by the timelock only'
+        : `DEFAULT_ADMIN_ROLE is held by ${extraAdmins.join(', ')}, who can bypass governance`,
+      remediation: extraAdmins.length === 0 ? undefined : 'The extra admins should call renounceRole(DEFAULT_ADMIN_ROLE, self) on the timelock',
+    });
+  }
+
+  const governorAuthorityOk = sameAddress(state.governorUpgradeAuthority, timelock);
+  checks.push({
+    id: 'governor-upgrade-authority',
+    title: 'Governor upgrades are authorized by the timelock',
+    status: governorAuthorityOk ? 'pass' : 'fail',
+    detail: `Governor upgradeAuthority is ${state.governorUpgradeAuthority ?? 'unreadable'}`,
+    remediation: governorAuthorityOk ? undefined : 'Redeploy the governor proxy with the timelock as upgrade authority',
+  });
+
+  const tokenAuthorityOk = sameAddress(state.tokenUpgradeAuthority, timelock);
+  checks.push({
+    id: 'token-upgrade-authority',
+    title: 'Token upgrades are authorized by the timelock',
+    status: tokenAuthorityOk ? 'pass' : 'fail',
+    detail: `Token upgradeAuthority is ${state.tokenUpgradeAuthority ?? 'unreadable'}`,
+    remediation: tokenAuthorityOk ? undefined : 'Redeploy the token proxy with the timelock as upgrade authority',
+  });
+
+  const ownerOk = sameAddress(state.tokenOwner, timelock);
+  checks.push({
+    id: 'token-owner',
+    title: 'Token is owned by the timelock',
+    status: ownerOk ? 'pass' : 'fail',
+    detail: `Token owner() is ${state.tokenOwner ?? 'unreadable'}`,
+    remediation: ownerOk ? undefined : 'The current owner should call transferOwnership(timelock) so minting requires governance',
+  });
+
+  const clockOk = state.governorClockMode === state.tokenClockMode;
+  checks.push({
+    id: 'clock-mode',
+    title: 'Governor and token use the same clock',
+    status: clockOk ? 'pass' : 'fail',
+    detail: `Governor uses ${state.governorClockMode ?? 'unknown'}, token uses ${state.tokenClockMode ?? 'unknown'}`,
+    remediation: clockOk ? undefined : 'Redeploy the governor against a token with a matching clock',
+  });
+
+  if (state.quorumPercentage === BigInt(0)) {
+    checks.push({
+      id: 'quorum',
+      title: 'Quorum is set',
+      status: 'fail',
+      detail: 'Quorum is 0% - a single vote can pass any proposal',
+      remediation: 'Submit a governance proposal calling updateQuorumNumerator',
+    });
+  }
+
+  return checks;
+}
@@ -0,0 +1,83 @@
+// Governance clock helpers - converts human durations to the units votingDelay/votingPeriod are counted in
+import { formatTimeFromSeconds } from '@/lib/validation/deploy';
+
+/** EIP-6372 clock modes: timestamp clocks count seconds, blocknumber clocks count blocks */
+export type ClockMode = 'timestamp' | 'blocknumber';
+
+export interface GovernanceClock {
+  mode: ClockMode;
+  /** 1 for timestamp clocks, the block time for blocknumber clocks */
+  secondsPerUnit: number;
+  /** Where the clock came from: a deployed token's CLOCK_MODE, a measured block time, or the configured defaults */
+  source: 'token' | 'measured' | 'network';
+}
+
+/** Tokens deployed by the factory use block.timestamp as their clock */
+export const DEFAULT_CLOCK_MODE: ClockMode = 'timestamp';
+
+const MIN_VOTING_PERIOD_SECONDS = 86400; // 1 day
+const MIN_VOTING_DELAY_SECONDS = 3600; // 1 hour
+const BLOCK_TIME_DRIFT_TOLERANCE = 0.25;
+
+/**
+ * Parse an EIP-6372 CLOCK_MODE string such as "mode=timestamp" or "mode=blocknumber&from=default"
+ */
+export function parseClockMode(clockMode?: string): ClockMode | undefined {
+  const mode = clockMode?.split('&').find(part => part.startsWith('mode='))?.slice('mode='.length);
+  return mode === 'timestamp' || mode === 'blocknumber' ? mode : undefined;
+}
+
+/**
+ * Whole clock units for a duration, never less than one
+ */
+export function secondsToClockUnits(seconds: number, clock: GovernanceClock): number {
+  return Math.max(1, Math.round(seconds / clock.secondsPerUnit));
+}
+
+export function clockUnitsToSeconds(units: number, clock: GovernanceClock): number {
+  return units * clock.secondsPerUnit;
+}
+
+/**
+ * Clock units spelled out for the review screen, e.g. "50400 blocks" or "604800 seconds"
+ */
+export function formatClockUnits(units: number, clock: GovernanceClock): string {
+  const unit = clock.mode === 'timestamp' ? 'second' : 'block';
+  return `${units} ${unit}${units !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Warnings for voting windows that come out too short once rounded to the clock, and for
+ * block times that differ from what the network is configured with
+ */
+export function getGovernanceTimingWarnings(
+  votingDelaySeconds: number | undefined,
+  votingPeriodSeconds: number | undefined,
+  clock: GovernanceClock,
+  network: { name: string; blockTime: number }
+): string[] {
+  const warnings: string[] = [];
+
+  if (votingPeriodSeconds !== undefined) {
+    const effective = clockUnitsToSeconds(secondsToClockUnits(votingPeriodSeconds, clock), clock);
+    if (effective < MIN_VOTING_PERIOD_SECONDS) {
+      warnings.push(`Voting stays open for only ${formatTimeFromSeconds(effective)} on ${network.name}, which leaves most holders no time to vote`);
+    }
+  }
+
+  if (votingDelaySeconds !== undefined) {
+    const effective = clockUnitsToSeconds(secondsToClockUnits(votingDelaySeconds, clock), clock);
+    if (effective < MIN_VOTING_DELAY_SECONDS) {
+      warnings.push(`Voting starts ${formatTimeFromSeconds(effective)} after a proposal on ${network.name}, too soon for holders to review it or delegate`);
+    }
+  }
+
+  if (clock.mode === 'blocknumber') {
+    const drift = Math.abs(clock.secondsPerUnit - network.blockTime) / network.blockTime;
+    if (clock.source === 'measured' && drift > BLOCK_TIME_DRIFT_TOLERANCE) {
+      warnings.push(`${network.name} currently produces a block every ${clock.secondsPerUnit.toFixed(2)}s instead of ${network.blockTime}s; durations are converted with the measured value and will drift if it changes`);
+    }
+  }
+
+  return warnings;
+}
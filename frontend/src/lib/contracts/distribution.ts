@@ -0,0 +1,235 @@
+// Distribution list import - reads address,amount lists from CSV or JSON for the allocation table
+//
+// Mirrors MCP Server/src/utils/distribution-list.ts so a list the wizard accepts is one
+// prepare-token-distribution accepts too. The two packages build separately and share no
+// source, so change both copies together.
+import { getAddress, isAddress, parseUnits, zeroAddress } from 'viem';
+
+export type DistributionFormat = 'csv' | 'json';
+
+export interface DistributionEntry {
+  line: number; // 1-based line (CSV) or item index (JSON)
+  address: string; // Checksummed
+  amount: string; // Whole tokens as written in the file
+}
+
+export interface DistributionIssue {
+  line?: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface DistributionRecipient {
+  address: string;
+  amount: bigint; // Base units
+  lines: number[];
+}
+
+export interface ParsedDistribution {
+  entries: DistributionEntry[];
+  issues: DistributionIssue[];
+}
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const GROUPED_AMOUNT_PATTERN = /^\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+/**
+ * Guess the format from the first non-blank character
+ */
+export function detectDistributionFormat(content: string): DistributionFormat {
+  const first = content.trimStart()[0];
+  return first === '[' || first === '{' ? 'json' : 'csv';
+}
+
+/**
+ * Validate one raw address/amount pair and record what is wrong with it
+ */
+function checkEntry(line: number, rawAddress: unknown, rawAmount: unknown, parsed: ParsedDistribution): void {
+  const address = String(rawAddress ?? '').trim();
+  const written = String(rawAmount ?? '').trim().replace(/_/g, '');
+  // Thousands separators, e.g. a quoted "1,000" from a spreadsheet export
+  const amount = GROUPED_AMOUNT_PATTERN.test(written) ? written.replace(/,/g, '') : written;
+
+  if (!isAddress(address, { strict: false })) {
+    parsed.issues.push({ line, severity: 'error', message: `"${address}" is not an Ethereum address` });
+    return;
+  }
+
+  // Mixed case means the author meant a checksum, so a mismatch is likely a typo
+  const checksummed = getAddress(address);
+  const hasChecksum = address.slice(2) !== address.slice(2).toLowerCase() && address.slice(2) !== address.slice(2).toUpperCase();
+  if (hasChecksum && address !== checksummed) {
+    parsed.issues.push({ line, severity: 'error', message: `${address} has an invalid checksum (expected ${checksummed})` });
+    return;
+  }
+  if (!hasChecksum) {
+    parsed.issues.push({ line, severity: 'warning', message: `${address} is not checksummed` });
+  }
+  if (checksummed === zeroAddress) {
+    parsed.issues.push({ line, severity: 'error', message: 'The zero address cannot receive tokens' });
+    return;
+  }
+
+  if (!AMOUNT_PATTERN.test(amount)) {
+    parsed.issues.push({ line, severity: 'error', message: `"${amount}" is not a token amount` });
+    return;
+  }
+  if (/^0+(\.0+)?$/.test(amount)) {
+    parsed.issues.push({ line, severity: 'error', message: `Amount for ${checksummed} must be greater than zero` });
+    return;
+  }
+
+  parsed.entries.push({ line, address: checksummed, amount });
+}
+
+/**
+ * Split one CSV row on commas, semicolons or tabs outside double quotes; "" inside quotes is a literal quote
+ */
+function splitCsvRow(text: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+/**
+ * Parse CSV rows of `address,amount`, with an optional header row and # comments
+ */
+function parseCsv(content: string, parsed: ParsedDistribution): void {
+  const lines = content.split(/\r?\n/);
+  let firstRow = true;
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const cells = splitCsvRow(trimmed);
+
+    // A header row names its columns instead of holding an address
+    const isHeader = firstRow && !cells[0].toLowerCase().startsWith('0x') && /address/i.test(cells[0]);
+    firstRow = false;
+    if (isHeader) return;
+    if (cells.length < 2) {
+      parsed.issues.push({ line, severity: 'error', message: 'Expected an address and an amount' });
+      return;
+    }
+
+    checkEntry(line, cells[0], cells[1], parsed);
+  });
+}
+
+/**
+ * Parse JSON as an array of {address, amount} objects or [address, amount] pairs,
+ * or as an object mapping addresses to amounts
+ */
+function parseJson(content: string, parsed: ParsedDistribution): void {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    parsed.issues.push({ severity: 'error', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+    return;
+  }
+
+  if (Array.isArray(data)) {
+    data.forEach((item: unknown, index) => {
+      if (Array.isArray(item)) {
+        checkEntry(index + 1, item[0], item[1], parsed);
+      } else if (item && typeof item === 'object') {
+        const { address, amount } = item as { address?: unknown; amount?: unknown };
+        checkEntry(index + 1, address, amount, parsed);
+      } else {
+        parsed.issues.push({ line: index + 1, severity: 'error', message: 'Expected {"address", "amount"} or [address, amount]' });
+      }
+    });
+  } else if (data && typeof data === 'object') {
+    Object.entries(data).forEach(([address, amount], index) => checkEntry(index + 1, address, amount, parsed));
+  } else {
+    parsed.issues.push({ severity: 'error', message: 'Expected a JSON array or object of address/amount pairs' });
+  }
+}
+
+/**
+ * Parse a distribution list, collecting every problem instead of stopping at the first
+ */
+export function parseDistributionList(content: string, format?: DistributionFormat): ParsedDistribution {
+  const parsed: ParsedDistribution = { entries: [], issues: [] };
+
+  if ((format ?? detectDistributionFormat(content)) === 'json') {
+    parseJson(content, parsed);
+  } else {
+    parseCsv(content, parsed);
+  }
+
+  if (parsed.entries.length === 0 && !parsed.issues.some(issue => issue.severity === 'error')) {
+    parsed.issues.push({ severity: 'error', message: 'The list has no recipients' });
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert entries to base units and fold repeated addresses.
+ * Duplicates are errors unless merging was asked for, in which case their amounts are summed.
+ */
+export function aggregateDistribution(
+  entries: DistributionEntry[],
+  decimals: number,
+  mergeDuplicates = false
+): { recipients: DistributionRecipient[]; total: bigint; issues: DistributionIssue[] } {
+  const byAddress = new Map<string, DistributionRecipient>();
+  const issues: DistributionIssue[] = [];
+  let total = BigInt(0);
+
+  for (const entry of entries) {
+    const fraction = entry.amount.split('.')[1] ?? '';
+    if (fraction.replace(/0+$/, '').length > decimals) {
+      issues.push({ line: entry.line, severity: 'error', message: `${entry.amount} has more than ${decimals} decimals` });
+      continue;
+    }
+
+    const amount = parseUnits(entry.amount, decimals);
+    const existing = byAddress.get(entry.address);
+    if (existing) {
+      issues.push({
+        line: entry.line,
+        severity: mergeDuplicates ? 'warning' : 'error',
+        message: mergeDuplicates
+          ? `${entry.address} also appears on line ${existing.lines[0]}; amounts were added together`
+          : `${entry.address} already appears on line ${existing.lines[0]}`
+      });
+      if (!mergeDuplicates) continue;
+      existing.amount += amount;
+      existing.lines.push(entry.line);
+    } else {
+      byAddress.set(entry.address, { address: entry.address, amount, lines: [entry.line] });
+    }
+    total += amount;
+  }
+
+  return { recipients: Array.from(byAddress.values()), total, issues };
+}
@@ -0,0 +1,86 @@
+// Rollup L1 data fees - OP Stack GasPriceOracle and Arbitrum NodeInterface
+//
+// Mirrors MCP Server/src/utils/l1-fees.ts so the wizard and prepared transactions price
+// the same fee. The two packages build separately and share no source, so change both together.
+import { Address, Hex, PublicClient, parseAbi, serializeTransaction } from 'viem';
+
+export type RollupType = 'op-stack' | 'arbitrum';
+
+// L1 data fee of a rollup transaction. Arbitrum charges it through L2 gas units, so it is
+// already part of the gas estimate; OP Stack chains charge it on top.
+export interface L1FeeEstimate {
+  rollup: RollupType;
+  l1FeeWei: bigint;
+  includedInGasEstimate: boolean;
+}
+
+export const OP_GAS_PRICE_ORACLE: Address = '0x420000000000000000000000000000000000000F';
+export const ARBITRUM_NODE_INTERFACE: Address = '0x00000000000000000000000000000000000000C8';
+
+const GAS_PRICE_ORACLE_ABI = parseAbi([
+  'function getL1Fee(bytes _data) view returns (uint256)',
+]);
+
+const NODE_INTERFACE_ABI = parseAbi([
+  'function gasEstimateComponents(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimate, uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
+]);
+
+const ROLLUP_CHAINS: Record<number, RollupType> = {
+  10: 'op-stack',
+  11155420: 'op-stack',
+  8453: 'op-stack',
+  84532: 'op-stack',
+  42161: 'arbitrum',
+  421614: 'arbitrum',
+};
+
+export function getRollupType(chainId: number): RollupType | undefined {
+  return ROLLUP_CHAINS[chainId];
+}
+
+/**
+ * Estimate the L1 data fee of a transaction; undefined on chains without one
+ */
+export async function estimateL1DataFee(
+  publicClient: PublicClient,
+  chainId: number,
+  tx: { to: Address; data: Hex; gas: bigint; gasPrice: bigint; account?: Address }
+): Promise<L1FeeEstimate | undefined> {
+  const rollup = getRollupType(chainId);
+  if (!rollup) return undefined;
+
+  if (rollup === 'op-stack') {
+    const l1FeeWei = await publicClient.readContract({
+      address: OP_GAS_PRICE_ORACLE,
+      abi: GAS_PRICE_ORACLE_ABI,
+      functionName: 'getL1Fee',
+      args: [serializeTransaction({ chainId, to: tx.to, data: tx.data, gas: tx.gas, maxFeePerGas: tx.gasPrice, maxPriorityFeePerGas: BigInt(0), nonce: 0 })],
+    });
+    return { rollup, l1FeeWei, includedInGasEstimate: false };
+  }
+
+  const { result } = await publicClient.simulateContract({
+    address: ARBITRUM_NODE_INTERFACE,
+    abi: NODE_INTERFACE_ABI,
+    functionName: 'gasEstimateComponents',
+    args: [tx.to, false, tx.data],
+    account: tx.account,
+  });
+  const [, gasEstimateForL1, baseFee] = result;
+  return { rollup, l1FeeWei: gasEstimateForL1 * baseFee, includedInGasEstimate: true };
+}
+
+/**
+ * Split a gas-based cost into L2 execution and L1 data parts and total them
+ */
+export function getFeeBreakdown(gas: bigint, gasPrice: bigint, l1Fee?: L1FeeEstimate) {
+  const gasCostWei = gas * gasPrice;
+  if (!l1Fee) {
+    return { executionWei: gasCostWei, l1DataWei: BigInt(0), totalWei: gasCostWei };
+  }
+  // A stale NodeInterface estimate or a gas limit without the L1 component can exceed the gas cost
+  const executionWei = gasCostWei > l1Fee.l1FeeWei ? gasCostWei - l1Fee.l1FeeWei : BigInt(0);
+  return l1Fee.includedInGasEstimate
+    ? { executionWei, l1DataWei: l1Fee.l1FeeWei, totalWei: gasCostWei }
+    : { executionWei: gasCostWei, l1DataWei: l1Fee.l1FeeWei, totalWei: gasCostWei + l1Fee.l1FeeWei };
+}
@@ -0,0 +1,347 @@
+// Proposal builder - turns template drafts and pasted ABIs into governor actions
+import {
+  AbiFunction,
+  Address,
+  Hex,
+  encodeFunctionData,
+  formatEther,
+  isAddress,
+  isHex,
+  parseEther,
+  parseUnits,
+} from 'viem';
+
+import { GOVERNOR_ABI, TIMELOCK_ABI, TOKEN_ABI } from './abis';
+
+export type ProposalTemplateId =
+  | 'eth-transfer'
+  | 'erc20-transfer'
+  | 'mint'
+  | 'timelock-delay'
+  | 'voting-period'
+  | 'proposal-threshold'
+  | 'quorum'
+  | 'upgrade'
+  | 'custom';
+
+export interface ProposalTemplateField {
+  name: string;
+  label: string;
+  kind: 'address' | 'amount' | 'integer' | 'bytes' | 'contract';
+  placeholder?: string;
+  optional?: boolean;
+}
+
+export interface ProposalTemplate {
+  id: ProposalTemplateId;
+  label: string;
+  description: string;
+  fields: ProposalTemplateField[];
+}
+
+export type DAOContractName = 'token' | 'governor' | 'timelock';
+
+export const PROPOSAL_TEMPLATES: ProposalTemplate[] = [
+  {
+    id: 'eth-transfer',
+    label: 'Treasury ETH transfer',
+    description: 'Send ETH held by the timelock',
+    fields: [
+      { name: 'recipient', label: 'Recipient', kind: 'address', placeholder: '0x...' },
+      { name: 'amount', label: 'Amount (ETH)', kind: 'amount', placeholder: '1.5' },
+    ],
+  },
+  {
+    id: 'erc20-transfer',
+    label: 'ERC20 transfer',
+    description: 'Send tokens held by the timelock',
+    fields: [
+      { name: 'token', label: 'Token contract', kind: 'address', placeholder: 'Defaults to the DAO token', optional: true },
+      { name: 'recipient', label: 'Recipient', kind: 'address', placeholder: '0x...' },
+      { name: 'amount', label: 'Amount (tokens)', kind: 'amount', placeholder: '1000' },
+      { name: 'decimals', label: 'Token decimals', kind: 'integer', placeholder: '18', optional: true },
+    ],
+  },
+  {
+    id: 'mint',
+    label: 'Mint governance tokens',
+    description: 'Call mint on the DAO token (owned by the timelock)',
+    fields: [
+      { name: 'recipient', label: 'Recipient', kind: 'address', placeholder: '0x...' },
+      { name: 'amount', label: 'Amount (tokens)', kind: 'amount', placeholder: '1000' },
+    ],
+  },
+  {
+    id: 'timelock-delay',
+    label: 'Timelock delay',
+    description: 'Call updateDelay on the timelock',
+    fields: [
+      { name: 'delay', label: 'New delay (seconds)', kind: 'integer', placeholder: '86400' },
+    ],
+  },
+  {
+    id: 'voting-period',
+    label: 'Voting period',
+    description: 'Call setVotingPeriod on the governor',
+    fields: [
+      { name: 'period', label: 'New voting period (seconds)', kind: 'integer', placeholder: '604800' },
+    ],
+  },
+  {
+    id: 'proposal-threshold',
+    label: 'Proposal threshold',
+    description: 'Call setProposalThreshold on the governor',
+    fields: [
+      { name: 'threshold', label: 'New threshold (tokens)', kind: 'amount', placeholder: '100' },
+    ],
+  },
+  {
+    id: 'quorum',
+    label: 'Quorum',
+    description: 'Call updateQuorumNumerator on the governor',
+    fields: [
+      { name: 'quorum', label: 'New quorum (% of supply)', kind: 'integer', placeholder: '4' },
+    ],
+  },
+  {
+    id: 'upgrade',
+    label: 'Upgrade contract',
+    description: 'Call upgradeToAndCall on a UUPS proxy of this DAO',
+    fields: [
+      { name: 'contract', label: 'Contract to upgrade', kind: 'contract' },
+      { name: 'implementation', label: 'New implementation', kind: 'address', placeholder: '0x...' },
+      { name: 'data', label: 'Initializer calldata', kind: 'bytes', placeholder: '0x', optional: true },
+    ],
+  },
+  {
+    id: 'custom',
+    label: 'Custom call',
+    description: 'Call any function from a pasted ABI',
+    fields: [
+      { name: 'target', label: 'Target contract', kind: 'address', placeholder: '0x...' },
+      { name: 'value', label: 'ETH value', kind: 'amount', placeholder: '0', optional: true },
+    ],
+  },
+];
+
+// Template parameters as entered in the form; custom calls also carry the ABI and function
+export interface ProposalActionDraft {
+  template: ProposalTemplateId;
+  params: Record<string, string>;
+  abi?: string;
+  functionSignature?: string;
+}
+
+export interface BuiltProposalAction {
+  target: Address;
+  value: bigint;
+  calldata: Hex;
+  summary: string;
+}
+
+interface DAOContracts {
+  governor: Address;
+  token?: Address;
+  timelock?: Address;
+}
+
+function requireAddress(value: string | undefined, label: string): Address {
+  if (!value || !isAddress(value.trim())) {
+    throw new Error(`${label} must be a valid address`);
+  }
+  return value.trim() as Address;
+}
+
+function requireAmount(value: string | undefined, label: string, decimals = 18): bigint {
+  if (!value || !/^\d+(\.\d+)?$/.test(value.trim())) {
+    throw new Error(`${label} must be a positive number`);
+  }
+  return parseUnits(value.trim(), decimals);
+}
+
+function requireInteger(value: string | undefined, label: string): bigint {
+  if (!value || !/^\d+$/.test(value.trim())) {
+    throw new Error(`${label} must be a whole number`);
+  }
+  return BigInt(value.trim());
+}
+
+function requireContract(address: Address | undefined, name: DAOContractName): Address {
+  if (!address) {
+    throw new Error(`The DAO ${name} address is unknown - open this DAO from its factory entry`);
+  }
+  return address;
+}
+
+/**
+ * Function signature used to identify an ABI entry, e.g. transfer(address,uint256)
+ */
+export function getFunctionSignature(fn: AbiFunction): string {
+  return `${fn.name}(${fn.inputs.map(input => input.type).join(',')})`;
+}
+
+/**
+ * Parse a pasted ABI (a JSON array or a compiler artifact with an abi field) into its state-changing functions
+ */
+export function parseCustomAbi(json: string): AbiFunction[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('ABI is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { abi?: unknown }).abi)
+      ? (parsed as { abi: unknown[] }).abi
+      : undefined;
+  if (!entries) {
+    throw new Error('ABI must be a JSON array or an artifact with an "abi" field');
+  }
+
+  return entries.filter((entry): entry is AbiFunction =>
+    !!entry && typeof entry === 'object' &&
+    (entry as AbiFunction).type === 'function' &&
+    (entry as AbiFunction).stateMutability !== 'view' &&
+    (entry as AbiFunction).stateMutability !== 'pure'
+  );
+}
+
+/**
+ * Convert a form string into the value viem expects for a Solidity type
+ */
+export function parseAbiArgument(type: string, raw: string): unknown {
+  const value = raw.trim();
+  if (type.endsWith(']') || type.startsWith('tuple')) {
+    try {
+      return JSON.parse(value, (_key, item) => (typeof item === 'string' && /^\d+$/.test(item) ? BigInt(item) : item));
+    } catch {
+      throw new Error(`${type} arguments must be JSON, e.g. ["0x...", "0x..."]`);
+    }
+  }
+  if (type === 'address') return requireAddress(value, 'Address argument');
+  if (type === 'bool') return value === 'true';
+  if (type.startsWith('uint') || type.startsWith('int')) {
+    if (!/^-?\d+$/.test(value)) throw new Error(`${type} arguments must be whole numbers`);
+    return BigInt(value);
+  }
+  if (type.startsWith('bytes')) {
+    if (!isHex(value)) throw new Error(`${type} arguments must be 0x-prefixed hex`);
+    return value;
+  }
+  return value;
+}
+
+function formatArgument(value: unknown): string {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatArgument).join(', ')}]`;
+  return String(value);
+}
+
+/**
+ * Build the target, value and calldata for one drafted action, with a human-readable summary
+ */
+export function buildProposalAction(draft: ProposalActionDraft, dao: DAOContracts): BuiltProposalAction {
+  const { params } = draft;
+
+  switch (draft.template) {
+    case 'eth-transfer': {
+      const recipient = requireAddress(params.recipient, 'Recipient');
+      const value = requireAmount(params.amount, 'Amount');
+      return { target: recipient, value, calldata: '0x', summary: `Send ${formatEther(value)} ETH from the treasury to ${recipient}` };
+    }
+    case 'erc20-transfer': {
+      const token = params.token?.trim() ? requireAddress(params.token, 'Token contract') : requireContract(dao.token, 'token');
+      const recipient = requireAddress(params.recipient, 'Recipient');
+      const decimals = params.decimals?.trim() ? Number(requireInteger(params.decimals, 'Token decimals')) : 18;
+      const amount = requireAmount(params.amount, 'Amount', decimals);
+      return {
+        target: token,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'transfer', args: [recipient, amount] }),
+        summary: `Transfer ${params.amount.trim()} tokens of ${token} to ${recipient}`,
+      };
+    }
+    case 'mint': {
+      const token = requireContract(dao.token, 'token');
+      const recipient = requireAddress(params.recipient, 'Recipient');
+      const amount = requireAmount(params.amount, 'Amount');
+      return {
+        target: token,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'mint', args: [recipient, amount] }),
+        summary: `Mint ${params.amount.trim()} governance tokens to ${recipient}`,
+      };
+    }
+    case 'timelock-delay': {
+      const timelock = requireContract(dao.timelock, 'timelock');
+      const delay = requireInteger(params.delay, 'Delay');
+      return {
+        target: timelock,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: TIMELOCK_ABI, functionName: 'updateDelay', args: [delay] }),
+        summary: `Set the timelock delay to ${delay} seconds`,
+      };
+    }
+    case 'voting-period': {
+      const period = requireInteger(params.period, 'Voting period');
+      if (period === BigInt(0) || period > BigInt(4294967295)) {
+        throw new Error('Voting period must be between 1 and 4294967295 seconds');
+      }
+      return {
+        target: dao.governor,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: GOVERNOR_ABI, functionName: 'setVotingPeriod', args: [Number(period)] }),
+        summary: `Set the voting period to ${period} seconds`,
+      };
+    }
+    case 'proposal-threshold': {
+      const threshold = requireAmount(params.threshold, 'Threshold');
+      return {
+        target: dao.governor,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: GOVERNOR_ABI, functionName: 'setProposalThreshold', args: [threshold] }),
+        summary: `Set the proposal threshold to ${params.threshold.trim()} tokens`,
+      };
+    }
+    case 'quorum': {
+      const quorum = requireInteger(params.quorum, 'Quorum');
+      if (quorum > BigInt(100)) throw new Error('Quorum cannot exceed 100%');
+      return {
+        target: dao.governor,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: GOVERNOR_ABI, functionName: 'updateQuorumNumerator', args: [quorum] }),
+        summary: `Set quorum to ${quorum}% of the token supply`,
+      };
+    }
+    case 'upgrade': {
+      const name = (params.contract || 'governor') as DAOContractName;
+      const target = requireContract(name === 'governor' ? dao.governor : dao[name], name);
+      const implementation = requireAddress(params.implementation, 'New implementation');
+      const data = (params.data?.trim() || '0x') as Hex;
+      if (!isHex(data)) throw new Error('Initializer calldata must be 0x-prefixed hex');
+      return {
+        target,
+        value: BigInt(0),
+        calldata: encodeFunctionData({ abi: GOVERNOR_ABI, functionName: 'upgradeToAndCall', args: [implementation, data] }),
+        summary: `Upgrade the ${name} to ${implementation}${data === '0x' ? '' : ' and call its initializer'}`,
+      };
+    }
+    case 'custom': {
+      const target = requireAddress(params.target, 'Target contract');
+      const value = params.value?.trim() ? requireAmount(params.value, 'ETH value') : BigInt(0);
+      const fn = parseCustomAbi(draft.abi ?? '[]').find(entry => getFunctionSignature(entry) === draft.functionSignature);
+      if (!fn) throw new Error('Select a function from the pasted ABI');
+
+      const args = fn.inputs.map((input, index) => parseAbiArgument(input.type, params[`arg${index}`] ?? ''));
+      const named = fn.inputs.map((input, index) => `${input.name || `arg${index}`}: ${formatArgument(args[index])}`);
+      return {
+        target,
+        value,
+        calldata: encodeFunctionData({ abi: [fn], functionName: fn.name, args }),
+        summary: `Call ${fn.name}(${named.join(', ')}) on ${target}${value > BigInt(0) ? ` with ${formatEther(value)} ETH` : ''}`,
+      };
+    }
+  }
+}
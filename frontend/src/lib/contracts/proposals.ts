@@ -0,0 +1,141 @@
+// Governance proposal helpers - calldata decoding and lifecycle rules
+import { Abi, Address, Hex, decodeFunctionData, formatEther, keccak256, toHex } from 'viem';
+
+import { GOVERNOR_ABI, TIMELOCK_ABI, TOKEN_ABI } from './abis';
+import { Proposal, ProposalState, VoteCastEvent, VoteSupport } from './types';
+
+export const PROPOSAL_STATE_LABELS: Record<ProposalState, string> = {
+  [ProposalState.Pending]: 'Pending',
+  [ProposalState.Active]: 'Active',
+  [ProposalState.Canceled]: 'Canceled',
+  [ProposalState.Defeated]: 'Defeated',
+  [ProposalState.Succeeded]: 'Succeeded',
+  [ProposalState.Queued]: 'Queued',
+  [ProposalState.Expired]: 'Expired',
+  [ProposalState.Executed]: 'Executed',
+};
+
+export const VOTE_SUPPORT_LABELS: Record<VoteSupport, string> = {
+  [VoteSupport.Against]: 'Against',
+  [VoteSupport.For]: 'For',
+  [VoteSupport.Abstain]: 'Abstain',
+};
+
+// Proposal with the vote history and timelock status read from chain
+export interface ProposalDetails extends Proposal {
+  voteCasts: VoteCastEvent[];
+  needsQueuing: boolean;
+  createdBlock?: bigint;
+}
+
+export interface DecodedProposalAction {
+  target: Address;
+  value: bigint;
+  calldata: Hex;
+  contract?: 'token' | 'governor' | 'timelock';
+  functionName?: string;
+  args?: readonly unknown[];
+}
+
+interface DAOContracts {
+  governor?: Address;
+  token?: Address;
+  timelock?: Address;
+}
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Governor descriptionHash as used by queue, execute and cancel
+ */
+export function hashProposalDescription(description: string): Hex {
+  return keccak256(toHex(description));
+}
+
+/**
+ * Decode each proposal action against the DAO's own contracts; unknown calls keep their raw calldata
+ */
+export function decodeProposalActions(
+  proposal: Pick<Proposal, 'targets' | 'values' | 'calldatas'>,
+  dao: DAOContracts
+): DecodedProposalAction[] {
+  const candidates: Array<{ contract: DecodedProposalAction['contract']; address?: Address; abi: Abi }> = [
+    { contract: 'token', address: dao.token, abi: TOKEN_ABI as Abi },
+    { contract: 'governor', address: dao.governor, abi: GOVERNOR_ABI as Abi },
+    { contract: 'timelock', address: dao.timelock, abi: TIMELOCK_ABI as Abi },
+  ];
+
+  return proposal.targets.map((target, index) => {
+    const calldata = (proposal.calldatas[index] ?? '0x') as Hex;
+    const action: DecodedProposalAction = { target, value: proposal.values[index] ?? BigInt(0), calldata };
+    if (calldata === '0x') return action;
+
+    // Prefer the ABI of the contract being called, then fall back to any known ABI
+    const ordered = [
+      ...candidates.filter(candidate => sameAddress(candidate.address, target)),
+      ...candidates.filter(candidate => !sameAddress(candidate.address, target)),
+    ];
+    for (const candidate of ordered) {
+      try {
+        const decoded = decodeFunctionData({ abi: candidate.abi, data: calldata });
+        return {
+          ...action,
+          contract: sameAddress(candidate.address, target) ? candidate.contract : undefined,
+          functionName: decoded.functionName,
+          args: decoded.args,
+        };
+      } catch {
+        // Selector not in this ABI
+      }
+    }
+    return action;
+  });
+}
+
+/**
+ * Human-readable one-line summary of a decoded action
+ */
+export function describeProposalAction(action: DecodedProposalAction): string {
+  const args = (action.args ?? []).map(arg => (typeof arg === 'bigint' ? arg.toString() : String(arg)));
+  const call = action.functionName
+    ? `${action.functionName}(${args.join(', ')})`
+    : action.calldata === '0x' ? 'transfer' : `unknown call ${action.calldata.slice(0, 10)}`;
+  const value = action.value > BigInt(0) ? ` with ${formatEther(action.value)} ETH` : '';
+  return `${action.contract ?? action.target}.${call}${value}`;
+}
+
+/**
+ * Succeeded proposals on a timelocked governor must be queued before execution
+ */
+export function canQueueProposal(proposal: Pick<ProposalDetails, 'state' | 'needsQueuing'>): boolean {
+  return proposal.state === ProposalState.Succeeded && proposal.needsQueuing;
+}
+
+/**
+ * Queued proposals become executable once the timelock ETA has passed
+ */
+export function canExecuteProposal(proposal: Pick<ProposalDetails, 'state' | 'needsQueuing' | 'eta'>, now: bigint): boolean {
+  if (proposal.state === ProposalState.Succeeded) return !proposal.needsQueuing;
+  if (proposal.state !== ProposalState.Queued) return false;
+  return proposal.eta !== undefined && proposal.eta > BigInt(0) && now >= proposal.eta;
+}
+
+/**
+ * Share of each vote option in basis points of the total cast
+ */
+export function getVoteBreakdown(votes?: Proposal['votes']) {
+  const forVotes = votes?.forVotes ?? BigInt(0);
+  const againstVotes = votes?.againstVotes ?? BigInt(0);
+  const abstainVotes = votes?.abstainVotes ?? BigInt(0);
+  const total = forVotes + againstVotes + abstainVotes;
+  const share = (value: bigint) => (total === BigInt(0) ? 0 : Number((value * BigInt(10000)) / total) / 100);
+
+  return {
+    total,
+    for: { votes: forVotes, percent: share(forVotes) },
+    against: { votes: againstVotes, percent: share(againstVotes) },
+    abstain: { votes: abstainVotes, percent: share(abstainVotes) },
+  };
+}
@@ -0,0 +1,113 @@
+// Governance simulation - checks the wizard's quorum and threshold against the proposed token distribution
+import { parseUnits } from 'viem';
+import { DAOConfig } from '@/types/deploy';
+import { getAllocationAmount } from './allocations';
+
+export interface SimulatedHolder {
+  label: string;
+  amount: bigint;
+  /** Treasury and vesting tokens sit in contracts that never delegate, so they count toward quorum but cannot vote */
+  canVote: boolean;
+}
+
+export interface GovernanceSimulation {
+  totalSupply: bigint;
+  votableSupply: bigint;
+  quorumVotes: bigint;
+  expectedVotes: bigint;
+  reachesQuorum: boolean;
+  /** Turnout of the votable supply needed for quorum, in percent; above 100 quorum can never be met */
+  requiredTurnout: number;
+  /** Fewest holders, largest first, whose votes alone meet quorum; null when all of them together fall short */
+  holdersForQuorum: number | null;
+  eligibleProposers: number;
+  votingHolders: number;
+  largestHolder?: SimulatedHolder;
+  /** The largest holder meets quorum on their own */
+  whaleMeetsQuorum: boolean;
+  /** The largest holder outvotes everyone else turning out at the assumed rate */
+  whaleOutvotes: boolean;
+  /** Both of the above: the largest holder can pass any proposal alone */
+  whaleCapture: boolean;
+}
+
+const BPS = BigInt(10000);
+
+/**
+ * Holders the initial supply is minted to: the allocation table, or everything to the initial recipient
+ */
+export function getSimulatedHolders(config: Partial<DAOConfig>, supplyWei: bigint): SimulatedHolder[] {
+  if (!config.allocations?.length) {
+    return supplyWei > BigInt(0)
+      ? [{ label: config.initialRecipient?.trim() || 'Initial recipient', amount: supplyWei, canVote: true }]
+      : [];
+  }
+
+  return config.allocations.flatMap(row => {
+    const amount = getAllocationAmount(row, supplyWei);
+    if (amount === null || amount <= BigInt(0)) return [];
+    const label = row.kind === 'treasury' ? 'DAO treasury' : row.address.trim() || 'Unnamed recipient';
+    return [{
+      label: row.vesting ? `${label} (vesting)` : label,
+      amount,
+      canVote: row.kind === 'recipient' && !row.vesting,
+    }];
+  });
+}
+
+/**
+ * Simulate a typical proposal where every voting holder turns out at turnoutPercent
+ */
+export function simulateGovernance(
+  holders: SimulatedHolder[],
+  totalSupply: bigint,
+  quorumPercentage: number,
+  proposalThreshold: string,
+  turnoutPercent: number
+): GovernanceSimulation {
+  const voters = holders.filter(holder => holder.canVote).sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+  const votableSupply = voters.reduce<bigint>((sum, holder) => sum + holder.amount, BigInt(0));
+
+  // GovernorVotesQuorumFraction measures quorum against the whole supply, including tokens that cannot vote
+  const quorumVotes = (totalSupply * BigInt(Math.round(quorumPercentage))) / BigInt(100);
+  const turnoutBps = BigInt(Math.round(turnoutPercent * 100));
+  const expectedVotes = (votableSupply * turnoutBps) / BPS;
+
+  let thresholdWei = BigInt(0);
+  try {
+    thresholdWei = parseUnits(proposalThreshold.trim() || '0', 18);
+  } catch {
+    // An invalid threshold is reported by validation
+  }
+
+  let holdersForQuorum: number | null = null;
+  let running = BigInt(0);
+  for (let i = 0; i < voters.length; i++) {
+    running += voters[i].amount;
+    if (running >= quorumVotes) {
+      holdersForQuorum = i + 1;
+      break;
+    }
+  }
+
+  const largestHolder = voters[0];
+  const others = largestHolder ? votableSupply - largestHolder.amount : BigInt(0);
+  const whaleMeetsQuorum = !!largestHolder && largestHolder.amount >= quorumVotes;
+  const whaleOutvotes = !!largestHolder && largestHolder.amount > (others * turnoutBps) / BPS;
+
+  return {
+    totalSupply,
+    votableSupply,
+    quorumVotes,
+    expectedVotes,
+    reachesQuorum: expectedVotes >= quorumVotes,
+    requiredTurnout: votableSupply > BigInt(0) ? Number((quorumVotes * BPS) / votableSupply) / 100 : Infinity,
+    holdersForQuorum,
+    eligibleProposers: voters.filter(holder => holder.amount >= thresholdWei).length,
+    votingHolders: voters.length,
+    largestHolder,
+    whaleMeetsQuorum,
+    whaleOutvotes,
+    whaleCapture: whaleMeetsQuorum && whaleOutvotes,
+  };
+}
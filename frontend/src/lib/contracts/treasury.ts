@@ -0,0 +1,134 @@
+// Treasury helpers - timelock inflow/outflow history and CSV export
+import { Address, Hex, decodeFunctionData, erc20Abi, formatEther, formatUnits } from 'viem';
+
+export interface TreasuryToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+  balance: bigint;
+}
+
+// A single asset movement into or out of the timelock
+export interface TreasuryMovement {
+  blockNumber: bigint;
+  timestamp?: number;
+  transactionHash: Hex;
+  logIndex: number;
+  direction: 'in' | 'out';
+  asset: string;
+  assetAddress?: Address;
+  amount: bigint;
+  formattedAmount: string;
+  counterparty: Address;
+  source: 'transfer' | 'call-executed';
+}
+
+export interface TreasuryTransferLog {
+  token: Address;
+  symbol: string;
+  decimals: number;
+  from: Address;
+  to: Address;
+  value: bigint;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+}
+
+export interface TreasuryCallLog {
+  target: Address;
+  value: bigint;
+  data: Hex;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+}
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Merge ERC20 transfer logs and timelock CallExecuted logs into one chronological history.
+ * Executed calls contribute ETH sent by the timelock and transfers of untracked tokens.
+ */
+export function buildTreasuryHistory(
+  timelock: Address,
+  transfers: TreasuryTransferLog[],
+  calls: TreasuryCallLog[]
+): TreasuryMovement[] {
+  const movements: TreasuryMovement[] = [];
+  const tracked = new Set(transfers.map(transfer => transfer.token.toLowerCase()));
+
+  for (const transfer of transfers) {
+    const incoming = sameAddress(transfer.to, timelock);
+    const outgoing = sameAddress(transfer.from, timelock);
+    // Self-transfers do not change the balance
+    if (incoming === outgoing) continue;
+
+    movements.push({
+      blockNumber: transfer.blockNumber,
+      transactionHash: transfer.transactionHash,
+      logIndex: transfer.logIndex,
+      direction: incoming ? 'in' : 'out',
+      asset: transfer.symbol,
+      assetAddress: transfer.token,
+      amount: transfer.value,
+      formattedAmount: formatUnits(transfer.value, transfer.decimals),
+      counterparty: incoming ? transfer.from : transfer.to,
+      source: 'transfer',
+    });
+  }
+
+  for (const call of calls) {
+    const base = {
+      blockNumber: call.blockNumber,
+      transactionHash: call.transactionHash,
+      logIndex: call.logIndex,
+      direction: 'out' as const,
+      source: 'call-executed' as const,
+    };
+
+    if (call.value > BigInt(0)) {
+      movements.push({ ...base, asset: 'ETH', amount: call.value, formattedAmount: formatEther(call.value), counterparty: call.target });
+    }
+
+    if (tracked.has(call.target.toLowerCase())) continue;
+    try {
+      const decoded = decodeFunctionData({ abi: erc20Abi, data: call.data });
+      if (decoded.functionName === 'transfer') {
+        const [to, amount] = decoded.args;
+        movements.push({ ...base, asset: call.target, assetAddress: call.target, amount, formattedAmount: amount.toString(), counterparty: to });
+      }
+    } catch {
+      // Not an ERC20 transfer
+    }
+  }
+
+  return movements.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+  );
+}
+
+/**
+ * Render treasury history as CSV, one movement per row
+ */
+export function treasuryHistoryToCsv(history: TreasuryMovement[]): string {
+  const header = ['block', 'timestamp', 'transaction', 'direction', 'asset', 'asset_address', 'amount', 'raw_amount', 'counterparty', 'source'];
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const rows = history.map(movement => [
+    movement.blockNumber.toString(),
+    movement.timestamp ? new Date(movement.timestamp * 1000).toISOString() : '',
+    movement.transactionHash,
+    movement.direction,
+    movement.asset,
+    movement.assetAddress ?? '',
+    movement.formattedAmount,
+    movement.amount.toString(),
+    movement.counterparty,
+    movement.source,
+  ].map(escape).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+}
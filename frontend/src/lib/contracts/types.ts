@@ -13,6 +13,14 @@ export interface DAOConfig {
   timelockDelay: bigint;
 }
 
+// Initial supply allocation for the deployDAO(config, allocations) overload
+export interface TokenAllocation {
+  recipient: Address; // Zero address sends the tokens to the DAO timelock
+  amount: bigint;
+  vestingStart: bigint; // Unix timestamp
+  vestingDuration: bigint; // Seconds, 0 for no vesting
+}
+
 // Deployed DAO information structure
 export interface DeployedDAO {
   token: Address;
@@ -45,8 +53,8 @@ export interface Proposal {
   values: bigint[];
   signatures: string[];
   calldatas: string[];
-  startBlock: bigint;
-  endBlock: bigint;
+  voteStart: bigint; // Governor clock timepoint (timestamp for SimpleDAO)
+  voteEnd: bigint;
   description: string;
   state: ProposalState;
   votes?: {
@@ -106,8 +114,8 @@ export interface ProposalCreatedEvent {
   values: bigint[];
   signatures: string[];
   calldatas: string[];
-  startBlock: bigint;
-  endBlock: bigint;
+  voteStart: bigint;
+  voteEnd: bigint;
   description: string;
 }
 
@@ -1,5 +1,6 @@
-import { DAOConfig, ValidationError } from '@/types/deploy';
-import { isAddress } from 'viem';
+import { AllocationRow, DAOConfig, ValidationError } from '@/types/deploy';
+import { formatUnits, isAddress, parseUnits } from 'viem';
+import { getAllocationAmount, getVestingStart } from '@/lib/contracts/allocations';
 
 // Constants for validation limits
 const DAO_NAME_MIN_LENGTH = 3;
@@ -8,6 +9,8 @@ const TOKEN_SYMBOL_MIN_LENGTH = 2;
 const TOKEN_SYMBOL_MAX_LENGTH = 6;
 const DESCRIPTION_MAX_LENGTH = 500;
 const MAX_SUPPLY = 1e15; // 1 quadrillion (prevent overflow)
+const MAX_ALLOCATIONS = 200;
+const VESTING_DURATION_MAX_DAYS = 3650; // 10 years
 
 // Helper function to check for consecutive spaces
 function hasConsecutiveSpaces(str: string): boolean {
@@ -89,8 +92,10 @@ export function validateBasicInfo(config: Partial<DAOConfig>): ValidationError[]
     }
   }
 
-  // Initial Recipient validation (Ethereum address)
-  if (!config.initialRecipient?.trim()) {
+  // An allocation table replaces the single initial recipient
+  if (config.allocations?.length) {
+    errors.push(...validateAllocations(config.allocations, config.initialSupply));
+  } else if (!config.initialRecipient?.trim()) {
     errors.push({ field: 'initialRecipient', message: 'Initial recipient address is required' });
   } else if (!isValidEthereumAddress(config.initialRecipient)) {
     errors.push({ field: 'initialRecipient', message: 'Invalid Ethereum address format' });
@@ -99,11 +104,85 @@ export function validateBasicInfo(config: Partial<DAOConfig>): ValidationError[]
   return errors;
 }
 
+/**
+ * Validates the allocation table row by row, then checks the rows sum to the initial supply
+ */
+export function validateAllocations(rows: AllocationRow[], initialSupply?: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const error = (message: string) => errors.push({ field: 'allocations', message });
+
+  if (rows.length > MAX_ALLOCATIONS) {
+    error(`At most ${MAX_ALLOCATIONS} allocations are supported`);
+  }
+  if (rows.filter(row => row.kind === 'treasury').length > 1) {
+    error('Only one treasury allocation is allowed');
+  }
+
+  const seen = new Set<string>();
+  rows.forEach((row, index) => {
+    const label = `Allocation ${index + 1}`;
+
+    if (row.kind === 'recipient') {
+      const address = row.address.trim();
+      if (!address) {
+        error(`${label}: recipient address is required`);
+      } else if (!isValidEthereumAddress(address)) {
+        error(`${label}: invalid Ethereum address format`);
+      } else if (seen.has(address.toLowerCase())) {
+        error(`${label}: ${address} already has an allocation`);
+      } else {
+        seen.add(address.toLowerCase());
+      }
+    }
+
+    const amount = parseFloat(row.amount);
+    if (!row.amount.trim()) {
+      error(`${label}: amount is required`);
+    } else if (getAllocationAmount(row, BigInt(0)) === null) {
+      error(row.unit === 'percent'
+        ? `${label}: percentage must be a number with at most 2 decimals`
+        : `${label}: amount must be a valid number`);
+    } else if (amount <= 0) {
+      error(`${label}: amount must be greater than zero`);
+    } else if (row.unit === 'percent' && amount > 100) {
+      error(`${label}: percentage cannot exceed 100%`);
+    }
+
+    if (row.vesting) {
+      if (getVestingStart(row.vesting.startDate) === null) {
+        error(`${label}: vesting start date is required`);
+      }
+      if (!Number.isInteger(row.vesting.durationDays) || row.vesting.durationDays < 1) {
+        error(`${label}: vesting duration must be a whole number of days`);
+      } else if (row.vesting.durationDays > VESTING_DURATION_MAX_DAYS) {
+        error(`${label}: vesting duration is too long (maximum ${VESTING_DURATION_MAX_DAYS} days)`);
+      }
+    }
+  });
+
+  // The factory reverts unless the rows add up exactly, so only check once every row parses
+  let supplyWei: bigint;
+  try {
+    supplyWei = parseUnits(initialSupply?.trim() || '', 18);
+  } catch {
+    return errors;
+  }
+  const amounts = rows.map(row => getAllocationAmount(row, supplyWei));
+  if (supplyWei > BigInt(0) && amounts.every(amount => amount !== null)) {
+    const total = amounts.reduce<bigint>((sum, amount) => sum + (amount as bigint), BigInt(0));
+    if (total !== supplyWei) {
+      error(`Allocations total ${formatUnits(total, 18)} tokens but the initial supply is ${formatUnits(supplyWei, 18)}`);
+    }
+  }
+
+  return errors;
+}
+
 // Constants for governance validation
-const VOTING_DELAY_MIN = 1;
-const VOTING_DELAY_MAX = 100800; // ~2 weeks at 12s blocks
-const VOTING_PERIOD_MIN = 1;
-const VOTING_PERIOD_MAX = 604800; // ~100 days at 12s blocks
+const VOTING_DELAY_MIN = 60; // 1 minute
+const VOTING_DELAY_MAX = 1209600; // 14 days in seconds
+const VOTING_PERIOD_MIN = 60; // 1 minute
+const VOTING_PERIOD_MAX = 8640000; // 100 days in seconds
 const TIMELOCK_DELAY_MIN = 0;
 const TIMELOCK_DELAY_MAX = 2592000; // 30 days in seconds
 const QUORUM_MIN = 1;
@@ -116,22 +195,22 @@ export function validateGovernanceParams(config: Partial<DAOConfig>): Validation
   if (config.votingDelay === undefined || config.votingDelay === null) {
     errors.push({ field: 'votingDelay', message: 'Voting delay is required' });
   } else if (!Number.isInteger(config.votingDelay)) {
-    errors.push({ field: 'votingDelay', message: 'Voting delay must be a whole number of blocks' });
+    errors.push({ field: 'votingDelay', message: 'Voting delay must be a whole number of seconds' });
   } else if (config.votingDelay < VOTING_DELAY_MIN) {
-    errors.push({ field: 'votingDelay', message: `Voting delay must be at least ${VOTING_DELAY_MIN} block` });
+    errors.push({ field: 'votingDelay', message: 'Voting delay must be at least 1 minute' });
   } else if (config.votingDelay > VOTING_DELAY_MAX) {
-    errors.push({ field: 'votingDelay', message: `Voting delay is too large (maximum ${VOTING_DELAY_MAX} blocks, ~2 weeks)` });
+    errors.push({ field: 'votingDelay', message: 'Voting delay is too large (maximum 14 days)' });
   }
 
   // Voting Period validation
   if (config.votingPeriod === undefined || config.votingPeriod === null) {
     errors.push({ field: 'votingPeriod', message: 'Voting period is required' });
   } else if (!Number.isInteger(config.votingPeriod)) {
-    errors.push({ field: 'votingPeriod', message: 'Voting period must be a whole number of blocks' });
+    errors.push({ field: 'votingPeriod', message: 'Voting period must be a whole number of seconds' });
   } else if (config.votingPeriod < VOTING_PERIOD_MIN) {
-    errors.push({ field: 'votingPeriod', message: `Voting period must be at least ${VOTING_PERIOD_MIN} block` });
+    errors.push({ field: 'votingPeriod', message: 'Voting period must be at least 1 minute' });
   } else if (config.votingPeriod > VOTING_PERIOD_MAX) {
-    errors.push({ field: 'votingPeriod', message: `Voting period is too large (maximum ${VOTING_PERIOD_MAX} blocks, ~100 days)` });
+    errors.push({ field: 'votingPeriod', message: 'Voting period is too large (maximum 100 days)' });
   }
 
   // Proposal Threshold validation
@@ -169,7 +248,7 @@ export function validateGovernanceParams(config: Partial<DAOConfig>): Validation
   } else if (config.timelockDelay < TIMELOCK_DELAY_MIN) {
     errors.push({ field: 'timelockDelay', message: `Timelock delay must be at least ${TIMELOCK_DELAY_MIN} seconds` });
   } else if (config.timelockDelay > TIMELOCK_DELAY_MAX) {
-    errors.push({ field: 'timelockDelay', message: `Timelock delay is too large (maximum ${TIMELOCK_DELAY_MAX} seconds, 30 days)` });
+    errors.push({ field: 'timelockDelay', message: 'Timelock delay is too large (maximum 30 days)' });
   }
 
   return errors;
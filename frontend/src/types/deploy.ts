@@ -7,10 +7,14 @@ export interface DAOConfig {
   /** Whole tokens (UI); converted to 18-decimals on submit */
   initialSupply: string;
   initialRecipient: string;
+  /** Splits the initial supply between several rows; when empty everything goes to initialRecipient */
+  allocations?: AllocationRow[];
 
   // Step 2: Governance Parameters
-  votingDelay: number; // in blocks
-  votingPeriod: number; // in blocks
+  /** Seconds; converted to the token's clock units (seconds or blocks) on submit */
+  votingDelay: number;
+  /** Seconds; converted to the token's clock units (seconds or blocks) on submit */
+  votingPeriod: number;
   /** Whole tokens (UI); converted to 18-decimals on submit */
   proposalThreshold: string;
   quorumPercentage: number; // percentage integer (1-100)
@@ -20,6 +24,22 @@ export interface DAOConfig {
   network: string;
 }
 
+/** One row of the initial supply allocation table */
+export interface AllocationRow {
+  id: string;
+  /** Treasury rows are sent to the DAO timelock, which has no address until deployment */
+  kind: 'recipient' | 'treasury';
+  address: string;
+  /** Whole tokens, or a percentage of the initial supply (up to 2 decimals) */
+  amount: string;
+  unit: 'tokens' | 'percent';
+  /** Linear vesting through a VestingWallet owned by the recipient */
+  vesting?: {
+    startDate: string; // YYYY-MM-DD, UTC
+    durationDays: number;
+  };
+}
+
 export interface ValidationError {
   field: keyof DAOConfig;
   message: string;
@@ -55,8 +75,8 @@ export const GOVERNANCE_PRESETS = {
   conservative: {
     name: 'Conservative',
     description: 'High security with long delays - ideal for treasury DAOs',
-    votingDelay: 7200, // ~1 day
-    votingPeriod: 50400, // ~7 days
+    votingDelay: 86400, // 1 day
+    votingPeriod: 604800, // 7 days
     proposalThreshold: '10000', // 10k tokens
     quorumPercentage: 20,
     timelockDelay: 172800, // 2 days
@@ -64,8 +84,8 @@ export const GOVERNANCE_PRESETS = {
   standard: {
     name: 'Standard',
     description: 'Balanced governance settings for most DAOs',
-    votingDelay: 1800, // ~6 hours
-    votingPeriod: 25200, // ~3.5 days
+    votingDelay: 21600, // 6 hours
+    votingPeriod: 302400, // 3.5 days
     proposalThreshold: '1000', // 1k tokens
     quorumPercentage: 10,
     timelockDelay: 86400, // 1 day
@@ -73,8 +93,8 @@ export const GOVERNANCE_PRESETS = {
   agile: {
     name: 'Agile',
     description: 'Fast governance for active communities',
-    votingDelay: 300, // ~1 hour
-    votingPeriod: 7200, // ~1 day
+    votingDelay: 3600, // 1 hour
+    votingPeriod: 86400, // 1 day
     proposalThreshold: '100', // 100 tokens
     quorumPercentage: 5,
     timelockDelay: 3600, // 1 hour